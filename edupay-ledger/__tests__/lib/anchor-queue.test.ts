@@ -0,0 +1,75 @@
+/**
+ * Stellar Anchor Queue Tests
+ */
+
+import { getNextAnchorAttempt, isAnchorDue, summarizeAnchorQueue } from "@/lib/db/anchor-queue";
+import type { DBAnchorBatch } from "@/lib/db";
+
+const leaf = (paymentId: string) => ({
+  paymentId,
+  receiptNumber: `RCP-${paymentId}`,
+  hash: "ab".repeat(32),
+  timestamp: "2026-02-01T08:00:00.000Z",
+});
+
+const batch = (overrides: Partial<DBAnchorBatch>): DBAnchorBatch => ({
+  id: "AB-1",
+  deviceId: "DEV-1",
+  status: "sealed",
+  leaves: [leaf("PAY-1"), leaf("PAY-2")],
+  merkleRoot: "cd".repeat(32),
+  attempts: 0,
+  openedAt: "2026-02-01T08:00:00.000Z",
+  ...overrides,
+});
+
+describe("Stellar Anchor Queue", () => {
+  const now = new Date("2026-02-02T10:00:00.000Z");
+
+  describe("isAnchorDue", () => {
+    it("should send a sealed batch that has not been tried", () => {
+      expect(isAnchorDue(batch({}), now)).toBe(true);
+    });
+
+    it("should wait out the backoff after a failure", () => {
+      const failed = batch({ attempts: 3, lastAttempt: "2026-02-02T09:59:00.000Z" });
+      expect(isAnchorDue(failed, now)).toBe(false);
+      expect(isAnchorDue(failed, new Date("2026-02-02T10:01:00.000Z"))).toBe(true);
+      expect(getNextAnchorAttempt(failed)).toBe("2026-02-02T10:01:00.000Z");
+    });
+
+    it("should keep retrying however many attempts have failed", () => {
+      const failed = batch({ attempts: 40, lastAttempt: "2026-02-02T08:00:00.000Z" });
+      expect(isAnchorDue(failed, now)).toBe(true);
+    });
+
+    it("should skip open and anchored batches", () => {
+      expect(isAnchorDue(batch({ status: "open" }), now)).toBe(false);
+      expect(isAnchorDue(batch({ status: "anchored" }), now)).toBe(false);
+    });
+  });
+
+  describe("summarizeAnchorQueue", () => {
+    it("should count payments by anchoring state", () => {
+      const status = summarizeAnchorQueue([
+        batch({ id: "AB-1", status: "anchored", anchoredAt: "2026-02-01T12:00:00.000Z" }),
+        batch({ id: "AB-2", attempts: 2, lastAttempt: "2026-02-02T09:00:00.000Z", lastError: "Timeout" }),
+        batch({ id: "AB-3", status: "open", leaves: [leaf("PAY-5")] }),
+      ]);
+
+      expect(status).toEqual({
+        pendingPayments: 3,
+        waitingBatches: 1,
+        anchoredPayments: 2,
+        anchoredBatches: 1,
+        lastAnchoredAt: "2026-02-01T12:00:00.000Z",
+        lastError: "Timeout",
+        nextAttemptAt: "2026-02-02T09:01:00.000Z",
+      });
+    });
+
+    it("should report an empty queue", () => {
+      expect(summarizeAnchorQueue([])).toMatchObject({ pendingPayments: 0, waitingBatches: 0, lastAnchoredAt: undefined });
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Backup Format Tests
+ */
+
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BackupSnapshot,
+  getRestoreMode,
+  previewBackupSnapshot,
+  restoreStudents,
+  summarizeSnapshot,
+} from "@/lib/db/backup-format";
+
+const snapshot: BackupSnapshot = {
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  schemaVersion: 7,
+  createdAt: "2026-03-01T02:00:00.000Z",
+  deviceId: "DEV-001",
+  tables: {
+    students: [{ id: "stu-001" }, { id: "stu-002" }],
+    payments: [{ id: "PAY-001" }],
+    paymentJournal: [{ id: "JE-001" }],
+    auditLogs: [],
+    syncCheckpoints: [{ collection: "students" }],
+  },
+};
+
+const currentCounts = {
+  students: 3,
+  payments: 2,
+  paymentJournal: 2,
+  auditLogs: 5,
+  syncCheckpoints: 1,
+};
+
+describe("Backup Format", () => {
+  it("should summarize record counts per table", () => {
+    expect(summarizeSnapshot(snapshot).counts).toEqual({
+      students: 2,
+      payments: 1,
+      paymentJournal: 1,
+      auditLogs: 0,
+      syncCheckpoints: 1,
+    });
+  });
+
+  it("should preview a matching backup as restorable", () => {
+    const preview = previewBackupSnapshot(snapshot, summarizeSnapshot(snapshot), 7, currentCounts);
+
+    expect(preview.canRestore).toBe(true);
+    expect(preview.problems).toEqual([]);
+    expect(preview.tables.find(t => t.table === "students")).toEqual({
+      table: "students",
+      backupCount: 2,
+      currentCount: 3,
+      mode: "replace",
+    });
+  });
+
+  it("should refuse a backup from a newer schema version", () => {
+    const newer = { ...snapshot, schemaVersion: 8 };
+    const preview = previewBackupSnapshot(newer, summarizeSnapshot(newer), 7, currentCounts);
+
+    expect(preview.canRestore).toBe(false);
+    expect(preview.problems[0]).toContain("newer");
+  });
+
+  it("should warn but allow a backup from an older schema version", () => {
+    const older = { ...snapshot, schemaVersion: 5 };
+    const preview = previewBackupSnapshot(older, summarizeSnapshot(older), 7, currentCounts);
+
+    expect(preview.canRestore).toBe(true);
+    expect(preview.warnings.some(w => w.includes("older"))).toBe(true);
+  });
+
+  it("should refuse a backup whose counts differ from its header", () => {
+    const summary = summarizeSnapshot(snapshot);
+    const preview = previewBackupSnapshot(
+      snapshot,
+      { ...summary, counts: { ...summary.counts, payments: 4 } },
+      7,
+      currentCounts
+    );
+
+    expect(preview.canRestore).toBe(false);
+    expect(preview.problems[0]).toContain("payments");
+  });
+
+  it("should never roll back the journal or audit log", () => {
+    expect(getRestoreMode("paymentJournal")).toBe("merge");
+    expect(getRestoreMode("auditLogs")).toBe("merge");
+    expect(getRestoreMode("syncCheckpoints")).toBe("reset");
+    expect(getRestoreMode("feeStructures")).toBe("replace");
+  });
+
+  describe("restoreStudents", () => {
+    // Taken when Amina had paid 300,000 of 1,000,000
+    const backupStudents = [
+      { id: "stu-001", totalFees: 1000000, amountPaid: 300000, balance: 700000, paymentStatus: "partial", currentInstallment: 1 },
+      { id: "stu-002", totalFees: 800000, amountPaid: 0, balance: 800000, paymentStatus: "no_payment", currentInstallment: 1 },
+    ];
+    const backupJournal = [{ id: "JE-001", studentId: "stu-001", amount: 300000 }];
+    const backupJournalIds = new Set(backupJournal.map(entry => entry.id));
+
+    it("should count payments recorded after the backup in the restored balances", () => {
+      // Since the backup Amina paid another 200,000; the payment and its journal entry are kept
+      const currentStudents = [
+        { ...backupStudents[0], amountPaid: 500000, balance: 500000, currentInstallment: 2 },
+        { ...backupStudents[1], paymentStatus: "overdue" },
+      ];
+      const journal = [...backupJournal, { id: "JE-002", studentId: "stu-001", amount: 200000 }];
+
+      const { students, rebalanced } = restoreStudents(backupStudents, currentStudents, journal, backupJournalIds);
+
+      expect(students[0]).toMatchObject({ amountPaid: 500000, balance: 500000, currentInstallment: 2 });
+      // Untouched since the backup: restored as it was
+      expect(students[1]).toBe(backupStudents[1]);
+      expect(rebalanced).toBe(0);
+    });
+
+    it("should recompute a balance the journal disagrees with", () => {
+      // The current copy was lost, so only the journal knows of the later payment
+      const journal = [...backupJournal, { id: "JE-002", studentId: "stu-001", amount: 200000 }];
+
+      const { students, rebalanced } = restoreStudents(backupStudents, [], journal, backupJournalIds);
+
+      expect(students[0]).toMatchObject({ amountPaid: 500000, balance: 500000, paymentStatus: "partial" });
+      expect(rebalanced).toBe(1);
+    });
+
+    it("should count reversals recorded after the backup", () => {
+      const journal = [...backupJournal, { id: "JE-003", studentId: "stu-001", amount: -300000 }];
+
+      const { students } = restoreStudents(backupStudents, [], journal, backupJournalIds);
+
+      expect(students[0]).toMatchObject({ amountPaid: 0, balance: 1000000, paymentStatus: "no_payment" });
+    });
+
+    it("should keep a student admitted and paid after the backup", () => {
+      const admitted = { id: "stu-003", totalFees: 600000, amountPaid: 600000, balance: 0, paymentStatus: "fully_paid", currentInstallment: 3 };
+      const journal = [...backupJournal, { id: "JE-004", studentId: "stu-003", amount: 600000 }];
+
+      const { students } = restoreStudents(backupStudents, [...backupStudents, admitted], journal, backupJournalIds);
+
+      expect(students.map(student => student.id)).toEqual(["stu-001", "stu-002", "stu-003"]);
+      expect(students[2]).toBe(admitted);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Channel Routing Tests
+ */
+
+import { needsSmsFallback, planChannels } from "@/lib/db/channel-routing";
+
+const everything = { whatsapp: true, email: true };
+
+describe("Channel Routing", () => {
+  describe("planChannels", () => {
+    it("should send by SMS when the guardian has no preference", () => {
+      expect(planChannels(undefined, everything)).toEqual(["sms"]);
+      expect(planChannels("sms", everything)).toEqual(["sms"]);
+    });
+
+    it("should send by WhatsApp alone when the guardian prefers it", () => {
+      expect(planChannels("whatsapp", everything)).toEqual(["whatsapp"]);
+    });
+
+    it("should send by SMS when the preferred channel cannot reach the guardian", () => {
+      expect(planChannels("whatsapp", { whatsapp: false, email: true })).toEqual(["sms"]);
+      expect(planChannels("email", { whatsapp: true, email: false })).toEqual(["sms"]);
+    });
+
+    it("should send on every channel that can reach the guardian", () => {
+      expect(planChannels("all", everything)).toEqual(["sms", "whatsapp", "email"]);
+      expect(planChannels("all", { whatsapp: false, email: false })).toEqual(["sms"]);
+    });
+  });
+
+  describe("needsSmsFallback", () => {
+    const whatsapp = {
+      channel: "whatsapp" as const,
+      status: "sent" as const,
+      deliveryStatus: "pending" as const,
+      fallback: {},
+    };
+
+    it("should fall back when the message could not be sent or delivered", () => {
+      expect(needsSmsFallback({ ...whatsapp, status: "failed", deliveryStatus: undefined })).toBe(true);
+      expect(needsSmsFallback({ ...whatsapp, deliveryStatus: "failed" })).toBe(true);
+    });
+
+    it("should leave messages on their way or already received", () => {
+      expect(needsSmsFallback(whatsapp)).toBe(false);
+      expect(needsSmsFallback({ ...whatsapp, deliveryStatus: "read" })).toBe(false);
+    });
+
+    it("should fall back only once, and only without an SMS alongside", () => {
+      expect(needsSmsFallback({ ...whatsapp, deliveryStatus: "failed", fallbackMessageId: "MSG-2" })).toBe(false);
+      expect(needsSmsFallback({ ...whatsapp, deliveryStatus: "failed", fallback: undefined })).toBe(false);
+      expect(needsSmsFallback({ ...whatsapp, channel: "sms", deliveryStatus: "failed" })).toBe(false);
+    });
+  });
+});
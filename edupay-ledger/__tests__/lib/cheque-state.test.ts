@@ -0,0 +1,129 @@
+/**
+ * Cheque Clearance State Tests
+ */
+
+import {
+  addWorkingDays,
+  createCheque,
+  isChequeOverdue,
+  markChequeBounced,
+  markChequeCleared,
+  markChequeDeposited,
+  addBankCharge,
+  removeFromInstallments,
+} from "@/lib/cheques/state";
+import type { InstallmentProgress } from "@/types/student";
+
+const installment = (order: number, amountDue: number, amountPaid: number): InstallmentProgress => ({
+  installmentId: `I${order}`,
+  installmentOrder: order,
+  installmentName: `Installment ${order}`,
+  amountDue,
+  amountPaid,
+  status: amountPaid >= amountDue ? "completed" : amountPaid > 0 ? "in_progress" : "not_started",
+  deadline: new Date("2026-02-15") as any,
+  ...(amountPaid >= amountDue && { completedAt: new Date("2026-02-10") as any }),
+  isUnlocked: true,
+});
+
+// Friday 6 February 2026
+const received = new Date(2026, 1, 6, 10, 0);
+
+describe("Cheque Clearance State", () => {
+  describe("createCheque", () => {
+    it("should start a cheque as received", () => {
+      const cheque = createCheque({ chequeNumber: " 004512 ", bankName: "Stanbic Bank" }, received);
+      expect(cheque).toMatchObject({ chequeNumber: "004512", status: "received", receivedAt: received.toISOString() });
+    });
+
+    it("should record a cheque already on a statement as cleared", () => {
+      expect(createCheque({ chequeNumber: "1", bankName: "Not recorded", clearedAt: received.toISOString() }).status).toBe("cleared");
+    });
+
+    it("should require the cheque number and bank", () => {
+      expect(() => createCheque({ chequeNumber: "", bankName: "Stanbic Bank" })).toThrow("Cheque number is required");
+      expect(() => createCheque({ chequeNumber: "004512", bankName: " " })).toThrow("bank is required");
+    });
+  });
+
+  describe("addWorkingDays", () => {
+    it("should skip the weekend", () => {
+      expect(addWorkingDays(received, 3)).toEqual(new Date(2026, 1, 11, 10, 0));
+    });
+  });
+
+  describe("transitions", () => {
+    const cheque = createCheque({ chequeNumber: "004512", bankName: "Stanbic Bank" }, received);
+
+    it("should expect a deposited cheque to clear three working days later", () => {
+      const deposited = markChequeDeposited(cheque, received);
+      expect(deposited.status).toBe("deposited");
+      expect(deposited.expectedClearanceDate).toBe(new Date(2026, 1, 11, 10, 0).toISOString());
+      expect(markChequeCleared(deposited, new Date(2026, 1, 10)).status).toBe("cleared");
+    });
+
+    it("should only clear or bounce a deposited cheque", () => {
+      expect(() => markChequeCleared(cheque)).toThrow("is received and cannot be marked cleared");
+      const cleared = markChequeCleared(markChequeDeposited(cheque, received));
+      expect(() => markChequeBounced(cleared, { reason: "Refer to drawer", bankCharge: 0 })).toThrow("cannot be marked bounced");
+    });
+
+    it("should not bank a post-dated cheque early", () => {
+      const postDated = createCheque({ chequeNumber: "7", bankName: "Centenary Bank", chequeDate: new Date(2026, 1, 20).toISOString() }, received);
+      expect(() => markChequeDeposited(postDated, received)).toThrow("post-dated");
+      expect(markChequeDeposited(postDated, new Date(2026, 1, 20, 9)).status).toBe("deposited");
+    });
+
+    it("should record the bounce reason and charge", () => {
+      const bounced = markChequeBounced(markChequeDeposited(cheque, received), { reason: " Insufficient funds ", bankCharge: 25000 });
+      expect(bounced).toMatchObject({ status: "bounced", bounceReason: "Insufficient funds", bounceCharge: 25000 });
+      expect(() => markChequeBounced(markChequeDeposited(cheque, received), { reason: "", bankCharge: 0 })).toThrow("reason is required");
+    });
+  });
+
+  describe("isChequeOverdue", () => {
+    const cheque = createCheque({ chequeNumber: "004512", bankName: "Stanbic Bank" }, received);
+
+    it("should flag a cheque left uncleared for the given number of days", () => {
+      expect(isChequeOverdue(cheque, new Date(2026, 1, 12), 7)).toBe(false);
+      expect(isChequeOverdue(cheque, new Date(2026, 1, 13, 11), 7)).toBe(true);
+    });
+
+    it("should flag a deposited cheque past its expected clearance date", () => {
+      const deposited = markChequeDeposited(cheque, received);
+      expect(isChequeOverdue(deposited, new Date(2026, 1, 12), 7)).toBe(true);
+      expect(isChequeOverdue(markChequeCleared(deposited), new Date(2026, 2, 1), 7)).toBe(false);
+    });
+  });
+
+  describe("reversing a bounced cheque", () => {
+    it("should take the amount back off the latest installments first", () => {
+      const installments = removeFromInstallments([installment(1, 500000, 500000), installment(2, 500000, 200000)], 300000);
+      expect(installments.map(i => [i.amountPaid, i.status])).toEqual([
+        [400000, "in_progress"],
+        [0, "not_started"],
+      ]);
+      expect(installments[0].completedAt).toBeUndefined();
+      expect(installments[1].isUnlocked).toBe(true);
+    });
+
+    it("should add the bank charge to the fees owed", () => {
+      const account = addBankCharge({ totalFees: 1000000, amountPaid: 400000 }, 25000);
+      expect(account).toEqual({
+        totalFees: 1025000,
+        balance: 625000,
+        paymentStatus: "partial",
+      });
+    });
+
+    it("should leave installments alone for the credit portion", () => {
+      const payment = { amount: 600000, creditAmount: 100000 };
+      const installments = removeFromInstallments(
+        [installment(1, 1000000, 1000000)],
+        payment.amount - payment.creditAmount
+      );
+      expect(installments[0].amountPaid).toBe(500000);
+      expect(installments[0].status).toBe("in_progress");
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Mobile Money Collection State Tests
+ */
+
+import {
+  applyCollectionUpdate,
+  canSettleCollection,
+  COLLECTION_TIMEOUT_MS,
+  collectionPaymentId,
+  expireCollection,
+  getCollectionCallbackReference,
+  isAwaitingSettlement,
+  isCollectionPollDue,
+  mergeCollectionRequest,
+  parseAirtelCollectionStatus,
+  parseMtnCollectionStatus,
+  planCollectionSettlement,
+} from "@/lib/collections/state";
+import { createSandboxGateway } from "@/lib/collections/gateways";
+import type { CollectionRequest } from "@/types/collection";
+
+const requestedAt = new Date("2026-03-02T08:00:00.000Z");
+const at = (ms: number) => new Date(requestedAt.getTime() + ms);
+
+const pending = (overrides: Partial<CollectionRequest> = {}): CollectionRequest => ({
+  id: "0b7c5a4e-1f2d-4c3b-9a8e-7d6c5b4a3f21",
+  schoolId: "SCH-1",
+  studentId: "STU-1",
+  amount: 350000,
+  currency: "UGX",
+  phoneNumber: "+256772123456",
+  provider: "mtn",
+  reference: "School fees EDU-2023-045-KC",
+  status: "pending",
+  pollCount: 0,
+  requestedBy: "USR-1",
+  requestedAt: requestedAt.toISOString(),
+  expiresAt: at(COLLECTION_TIMEOUT_MS).toISOString(),
+  ...overrides,
+});
+
+describe("Mobile Money Collection State", () => {
+  describe("applyCollectionUpdate", () => {
+    it("should move a pending request to its outcome", () => {
+      const updated = applyCollectionUpdate(pending(), { status: "successful", financialTransactionId: "FT-1" }, at(1000));
+      expect(updated.status).toBe("successful");
+      expect(updated.financialTransactionId).toBe("FT-1");
+      expect(updated.completedAt).toBe(at(1000).toISOString());
+    });
+
+    it("should ignore a late callback once the request has an outcome", () => {
+      const failed = applyCollectionUpdate(pending(), { status: "failed", reason: "Rejected" });
+      expect(applyCollectionUpdate(failed, { status: "successful" })).toBe(failed);
+    });
+  });
+
+  describe("expireCollection", () => {
+    it("should time out a pending request after it expires", () => {
+      expect(expireCollection(pending(), at(COLLECTION_TIMEOUT_MS - 1)).status).toBe("pending");
+      expect(expireCollection(pending(), at(COLLECTION_TIMEOUT_MS)).status).toBe("timeout");
+    });
+  });
+
+  describe("isCollectionPollDue", () => {
+    it("should poll a new request straight away and then wait between polls", () => {
+      expect(isCollectionPollDue(pending())).toBe(true);
+      const polled = pending({ pollCount: 1, lastPolledAt: at(0).toISOString() });
+      expect(isCollectionPollDue(polled, at(1000))).toBe(false);
+      expect(isCollectionPollDue(polled, at(5000))).toBe(true);
+    });
+
+    it("should slow down after many polls and stop once the request has an outcome", () => {
+      const polled = pending({ pollCount: 20, lastPolledAt: at(0).toISOString() });
+      expect(isCollectionPollDue(polled, at(5000))).toBe(false);
+      expect(isCollectionPollDue(polled, at(30000))).toBe(true);
+      expect(isCollectionPollDue({ ...polled, status: "successful" }, at(30000))).toBe(false);
+    });
+  });
+
+  describe("provider responses", () => {
+    it("should read MTN statuses and failure reasons", () => {
+      expect(parseMtnCollectionStatus({ status: "PENDING" })).toEqual({ status: "pending" });
+      expect(parseMtnCollectionStatus({ status: "SUCCESSFUL", financialTransactionId: "123" }))
+        .toEqual({ status: "successful", financialTransactionId: "123" });
+      expect(parseMtnCollectionStatus({ status: "FAILED", reason: "NOT_ENOUGH_FUNDS" }).reason)
+        .toBe("Not enough money on the mobile money account");
+      expect(parseMtnCollectionStatus({ status: "FAILED", reason: "EXPIRED" }).status).toBe("timeout");
+    });
+
+    it("should read Airtel polls and callbacks", () => {
+      expect(parseAirtelCollectionStatus({ data: { transaction: { status: "TIP" } } })).toEqual({ status: "pending" });
+      expect(parseAirtelCollectionStatus({ data: { transaction: { status: "TS", airtel_money_id: "AM1" } } }))
+        .toEqual({ status: "successful", financialTransactionId: "AM1" });
+      expect(parseAirtelCollectionStatus({ transaction: { status_code: "TF", message: "Insufficient funds" } }))
+        .toEqual({ status: "failed", reason: "Insufficient funds" });
+      expect(parseAirtelCollectionStatus({ transaction: { status_code: "TE" } }).status).toBe("timeout");
+    });
+
+    it("should find our request ID in either provider's callback", () => {
+      expect(getCollectionCallbackReference("mtn", { externalId: "REQ-1" })).toBe("REQ-1");
+      expect(getCollectionCallbackReference("airtel", { transaction: { id: "REQ-2" } })).toBe("REQ-2");
+    });
+  });
+
+  describe("sandbox gateway", () => {
+    const run = async (provider: "mtn" | "airtel", phoneNumber: string, checkAfterMs: number) => {
+      let now = at(0);
+      const gateway = createSandboxGateway(provider, { approveAfterMs: 8000, now: () => now });
+      await gateway.requestToPay({
+        referenceId: "REQ-1",
+        amount: 350000,
+        currency: "UGX",
+        phoneNumber,
+        payerMessage: "School fees",
+      });
+      const first = await gateway.getStatus("REQ-1");
+      now = at(checkAfterMs);
+      return { first, later: await gateway.getStatus("REQ-1") };
+    };
+
+    it("should stay pending until the parent approves", async () => {
+      const { first, later } = await run("mtn", "+256772123456", 8000);
+      expect(first.status).toBe("pending");
+      expect(later.status).toBe("successful");
+      expect(later.financialTransactionId).toMatch(/^SBX/);
+    });
+
+    it("should follow the test numbers for rejection, lack of funds and no answer", async () => {
+      expect((await run("mtn", "+256772123450", 8000)).later.status).toBe("failed");
+      expect((await run("airtel", "+256752123451", 8000)).later)
+        .toEqual({ status: "failed", reason: "Insufficient funds" });
+      expect((await run("airtel", "+256752123452", 8000)).later.status).toBe("pending");
+      expect((await run("mtn", "+256772123452", COLLECTION_TIMEOUT_MS)).later.status).toBe("timeout");
+    });
+
+    it("should refuse a reused reference ID", async () => {
+      const gateway = createSandboxGateway("mtn");
+      const input = { referenceId: "REQ-1", amount: 1000, currency: "UGX" as const, phoneNumber: "+256772123456", payerMessage: "Fees" };
+      await gateway.requestToPay(input);
+      await expect(gateway.requestToPay(input)).rejects.toThrow("Duplicate reference ID");
+    });
+  });
+
+  describe("school-side settlement", () => {
+    it("should leave a request to the school until its payment is recorded", () => {
+      expect(isAwaitingSettlement(pending())).toBe(true);
+      expect(isAwaitingSettlement(pending({ status: "successful" }))).toBe(true);
+      expect(isAwaitingSettlement(pending({ status: "successful", paymentId: "PAY-1" }))).toBe(false);
+      expect(isAwaitingSettlement(pending({ status: "failed" }))).toBe(false);
+    });
+
+    it("should poll due requests and record collected ones", () => {
+      const due = pending({ id: "A" });
+      const justPolled = pending({ id: "B", pollCount: 1, lastPolledAt: at(1000).toISOString() });
+      const collected = pending({ id: "C", status: "successful" });
+      const recorded = pending({ id: "D", status: "successful", paymentId: "PAY-D" });
+
+      const plan = planCollectionSettlement([due, justPolled, collected, recorded], at(2000));
+
+      expect(plan.poll.map(request => request.id)).toEqual(["A"]);
+      expect(plan.record.map(request => request.id)).toEqual(["C"]);
+    });
+
+    it("should keep the first outcome and a recorded payment when merging a shared request", () => {
+      const parentCopy = pending({ pollCount: 3 });
+      const schoolCopy = pending({ status: "successful", financialTransactionId: "FT-1", completedAt: at(9000).toISOString(), pollCount: 1 });
+
+      expect(mergeCollectionRequest(parentCopy, schoolCopy)).toMatchObject({
+        status: "successful",
+        financialTransactionId: "FT-1",
+        completedAt: at(9000).toISOString(),
+        pollCount: 3,
+      });
+
+      // A late timeout on one copy does not undo the collection on the other
+      const timedOut = pending({ status: "timeout", completedAt: at(COLLECTION_TIMEOUT_MS).toISOString() });
+      expect(mergeCollectionRequest(schoolCopy, timedOut).status).toBe("successful");
+
+      const recorded = { ...schoolCopy, paymentId: "PAY-1", receiptNumber: "RCP-2026-0001", settledBy: "DEV-1" };
+      expect(mergeCollectionRequest({ ...schoolCopy, paymentError: "Student not found" }, recorded)).toMatchObject({
+        paymentId: "PAY-1",
+        receiptNumber: "RCP-2026-0001",
+        settledBy: "DEV-1",
+        paymentError: undefined,
+      });
+      expect(mergeCollectionRequest(undefined, recorded)).toBe(recorded);
+    });
+
+    it("should let only the device that claimed a request record its payment", () => {
+      expect(canSettleCollection({}, "DEV-1")).toBe(true);
+      expect(canSettleCollection({ settledBy: "DEV-1" }, "DEV-1")).toBe(true);
+      expect(canSettleCollection({ settledBy: "DEV-1" }, "DEV-2")).toBe(false);
+      expect(canSettleCollection({ settledBy: "DEV-1", paymentId: "PAY-1" }, "DEV-1")).toBe(false);
+      expect(collectionPaymentId("REQ-1")).toBe(collectionPaymentId("REQ-1"));
+    });
+
+    it("should record the payment on the school's device after the parent closes the prompt while pending", async () => {
+      let now = at(0);
+      const gateway = createSandboxGateway("mtn", { approveAfterMs: 8000, now: () => now });
+      const shared = new Map<string, CollectionRequest>(); // The school's collectionRequests in Firestore
+      const payments: string[] = [];
+
+      // Parent's device: sends the prompt, shares the request and polls once before closing the modal
+      const request = pending({ id: "REQ-1" });
+      await gateway.requestToPay({ referenceId: request.id, amount: request.amount, currency: "UGX", phoneNumber: request.phoneNumber, payerMessage: request.reference });
+      shared.set(request.id, request);
+      now = at(5000);
+      const parentCopy = applyCollectionUpdate(request, await gateway.getStatus(request.id), now);
+      expect(parentCopy.status).toBe("pending");
+
+      // The parent approves on the phone; nobody on the parent's side is watching any more
+      now = at(60000);
+
+      // School device, on its next sync
+      const settle = async (deviceId: string) => {
+        const held = Array.from(shared.values()).filter(isAwaitingSettlement);
+        for (const due of planCollectionSettlement(held, now).poll) {
+          const polled = expireCollection(applyCollectionUpdate(due, await gateway.getStatus(due.id), now), now);
+          shared.set(due.id, mergeCollectionRequest(shared.get(due.id), polled));
+        }
+        for (const collected of planCollectionSettlement(Array.from(shared.values()), now).record) {
+          if (!canSettleCollection(collected, deviceId)) continue;
+          payments.push(collectionPaymentId(collected.id));
+          shared.set(collected.id, { ...collected, settledBy: deviceId, paymentId: collectionPaymentId(collected.id), receiptNumber: "RCP-2026-0001" });
+        }
+      };
+
+      await settle("DEV-OFFICE");
+      await settle("DEV-BURSAR");
+      await settle("DEV-OFFICE");
+
+      expect(payments).toEqual(["PAY-MOMO-REQ-1"]);
+      expect(shared.get("REQ-1")).toMatchObject({ status: "successful", settledBy: "DEV-OFFICE", receiptNumber: "RCP-2026-0001" });
+      expect(isAwaitingSettlement(shared.get("REQ-1")!)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Credit Posting Tests
+ */
+
+import {
+  buildCreditPayment,
+  creditPaymentId,
+  guessStudentsForCredit,
+  pickConfidentGuess,
+  planCreditPosting,
+  StudentCandidate,
+} from "@/lib/reconciliation/credit-posting";
+import { learnPayerMapping } from "@/lib/reconciliation/matcher";
+import type { BankTransaction } from "@/types/bank-reconciliation";
+
+const credit = (description: string, extra: Partial<BankTransaction> = {}): BankTransaction => ({
+  id: "T1",
+  transactionDate: new Date(2026, 1, 3),
+  valueDate: new Date(2026, 1, 3),
+  reference: "FT26034XYZ",
+  description,
+  amount: 450000,
+  type: "credit",
+  balance: 0,
+  rawData: {},
+  ...extra,
+});
+
+const students: StudentCandidate[] = [
+  {
+    id: "S1",
+    studentNumber: "EDU-2023-045-KC",
+    name: "Sarah Nambi",
+    guardianName: "Rose Nambi",
+    guardianPhones: ["+256772000111"],
+    balance: 450000,
+  },
+  {
+    id: "S2",
+    studentNumber: "EDU-2023-046-KC",
+    name: "Peter Nambi",
+    guardianName: "Rose Nambi",
+    guardianPhones: ["+256772000111"],
+    balance: 600000,
+  },
+  {
+    id: "S3",
+    studentNumber: "EDU-2024-101-KC",
+    name: "Grace Akello",
+    guardianName: "Okello Peter",
+    guardianPhones: ["+256752333444"],
+    balance: 300000,
+  },
+];
+
+describe("Credit Posting", () => {
+  describe("guessStudentsForCredit", () => {
+    it("should pick the student whose ID is in the narration", () => {
+      const [best] = guessStudentsForCredit(credit("TRF FEES EDU 2023 045 KC"), students);
+      expect(best.studentId).toBe("S1");
+      expect(best.reasons).toContain("Student ID in payment reference");
+    });
+
+    it("should use the guardian's name and phone", () => {
+      const [best] = guessStudentsForCredit(credit("EFT FROM OKELLO PETER"), students);
+      expect(best.studentId).toBe("S3");
+      expect(best.reasons).toEqual(["Guardian name in narration"]);
+
+      const guesses = guessStudentsForCredit(credit("AIRTEL", { payerMsisdn: "+256772000111" }), students);
+      expect(guesses.map(guess => guess.studentId)).toEqual(["S1", "S2"]);
+    });
+
+    it("should favour the student the payer was matched to before", () => {
+      const mapping = learnPayerMapping(undefined, "narration:NAMBI ROSE", [{ studentId: "S2", studentName: "Peter Nambi" }]);
+      const [best] = guessStudentsForCredit(credit("TRF NAMBI ROSE"), students, { [mapping.key]: mapping });
+      expect(best.studentId).toBe("S2");
+      expect(best.reasons).toContain("Payer previously matched to this student");
+    });
+
+    it("should not guess when nothing points at a student", () => {
+      expect(guessStudentsForCredit(credit("CASH DEPOSIT"), students)).toEqual([]);
+    });
+  });
+
+  describe("pickConfidentGuess", () => {
+    it("should only pick a guess well ahead of the next", () => {
+      expect(pickConfidentGuess(guessStudentsForCredit(credit("FEES EDU-2023-045-KC"), students))?.studentId).toBe("S1");
+      // Both siblings share the guardian's phone
+      expect(pickConfidentGuess(guessStudentsForCredit(credit("MOMO", { payerMsisdn: "+256772000111" }), students))).toBeNull();
+    });
+  });
+
+  describe("buildCreditPayment", () => {
+    it("should prefill the payment from the credit", () => {
+      const payment = buildCreditPayment(credit("TRF", { source: "airtel_money", reference: "AM123" }), "S1");
+      expect(payment).toMatchObject({ studentId: "S1", amount: 450000, channel: "momo_airtel", transactionRef: "AM123" });
+      expect(buildCreditPayment(credit("TRF"), "S1").channel).toBe("bank_transfer");
+    });
+  });
+
+  describe("planCreditPosting", () => {
+    const unmatched = { type: "credit", status: "unmatched", amount: 450000 };
+
+    it("should record an unmatched credit for its full amount", () => {
+      expect(planCreditPosting(unmatched, 450000)).toEqual({ action: "record" });
+      expect(planCreditPosting({ ...unmatched, status: "pending" }, 450000)).toEqual({ action: "record" });
+    });
+
+    it("should refuse debits, matched credits and part payments", () => {
+      expect(planCreditPosting(undefined, 450000).action).toBe("reject");
+      expect(planCreditPosting({ ...unmatched, type: "debit" }, 450000).action).toBe("reject");
+      expect(planCreditPosting({ ...unmatched, status: "matched" }, 450000)).toEqual({
+        action: "reject",
+        error: "This credit is already matched or ignored",
+      });
+      expect(planCreditPosting(unmatched, 400000).action).toBe("reject");
+    });
+
+    it("should not record a credit twice when the match failed after the payment was recorded", () => {
+      // Simulates postCreditAsPayment: the payment lands on the device, then the match write fails
+      const payments = new Map<string, { id: string; status: string }>();
+      const credit = { ...unmatched };
+      let recorded = 0;
+      const post = (failMatch: boolean) => {
+        const plan = planCreditPosting(credit, 450000, payments.get(creditPaymentId("T1")));
+        if (plan.action === "reject") return plan;
+        if (plan.action === "record") {
+          payments.set(creditPaymentId("T1"), { id: creditPaymentId("T1"), status: "completed" });
+          recorded++;
+        }
+        if (failMatch) throw new Error("Network error");
+        credit.status = "matched";
+        return plan;
+      };
+
+      expect(() => post(true)).toThrow("Network error");
+      expect(credit.status).toBe("unmatched");
+
+      expect(post(false)).toEqual({ action: "resume", paymentId: "PAY-BANK-T1" });
+      expect(recorded).toBe(1);
+      expect(credit.status).toBe("matched");
+
+      // Once matched, the credit cannot be posted again
+      expect(post(false).action).toBe("reject");
+      expect(recorded).toBe(1);
+    });
+
+    it("should not match a credit to a payment posted from it and since cancelled", () => {
+      const plan = planCreditPosting(unmatched, 450000, { id: creditPaymentId("T1"), status: "cancelled" });
+      expect(plan).toEqual({ action: "reject", error: "The payment posted from this credit was cancelled" });
+    });
+  });
+
+  describe("creditPaymentId", () => {
+    it("should give a credit the same payment ID on every attempt", () => {
+      expect(creditPaymentId("T1")).toBe(creditPaymentId("T1"));
+      expect(creditPaymentId("T1")).not.toBe(creditPaymentId("T2"));
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Delivery Reports and Reachability Tests
+ */
+
+import {
+  applyDeliveryReport,
+  chooseContactRoute,
+  formatWhatsAppError,
+  getReachabilityId,
+  isAwaitingReport,
+  isSchoolSideFailure,
+  parseDeliveryCallback,
+  parseWhatsAppWebhook,
+  recordDelivery,
+  REACHABILITY_FAILURE_LIMIT,
+  toDeliveryStatus,
+  toWhatsAppDeliveryStatus,
+} from "@/lib/db/delivery-reports";
+import type { ContactReachability, OutboxMessage } from "@/types/outbox";
+
+const now = new Date("2026-03-02T09:00:00.000Z");
+
+const message = (overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id: "MSG-1",
+  channel: "sms",
+  recipient: "+256772123456",
+  messageType: "payment_receipt",
+  body: "Payment received",
+  priority: "high",
+  status: "sent",
+  attempts: 1,
+  nextAttemptAt: "2026-03-02T08:00:00.000Z",
+  providerMessageId: "ATXid_1",
+  deliveryStatus: "pending",
+  createdAt: "2026-03-02T08:00:00.000Z",
+  sentAt: "2026-03-02T08:00:05.000Z",
+  ...overrides,
+});
+
+const failTimes = (times: number, contact = "+256772123456") => {
+  let record: ContactReachability | undefined;
+  for (let i = 0; i < times; i++) {
+    record = recordDelivery(record, "sms", contact, { delivered: false, reason: "AbsentSubscriber" }, now);
+  }
+  return record!;
+};
+
+describe("Delivery Reports and Reachability", () => {
+  describe("reports", () => {
+    it("should map Africa's Talking statuses", () => {
+      expect(toDeliveryStatus("Success")).toBe("delivered");
+      expect(toDeliveryStatus("Rejected")).toBe("failed");
+      expect(toDeliveryStatus("Buffered")).toBe("pending");
+    });
+
+    it("should read a callback posted as form fields", () => {
+      const body = new URLSearchParams({ id: "ATXid_1", status: "Failed", phoneNumber: "+256772123456", failureReason: "UserInBlackList" });
+      expect(parseDeliveryCallback(body)).toEqual({
+        messageId: "ATXid_1",
+        status: "failed",
+        failureReason: "UserInBlackList",
+        phoneNumber: "+256772123456",
+      });
+      expect(parseDeliveryCallback({ hello: "world" })).toBeNull();
+    });
+
+    it("should keep a final report over a later interim one", () => {
+      const delivered = applyDeliveryReport(message(), { messageId: "ATXid_1", status: "delivered" }, now);
+      expect(delivered).toMatchObject({ deliveryStatus: "delivered", deliveredAt: now.toISOString() });
+      expect(applyDeliveryReport(delivered, { messageId: "ATXid_1", status: "failed" }, now)).toBe(delivered);
+      expect(applyDeliveryReport(message(), { messageId: "ATXid_1", status: "pending" }, now).deliveryStatus).toBe("pending");
+    });
+
+    it("should stop asking about a message after the reporting window", () => {
+      expect(isAwaitingReport(message(), now)).toBe(true);
+      expect(isAwaitingReport(message({ sentAt: "2026-02-26T08:00:00.000Z" }), now)).toBe(false);
+    });
+
+    it("should not blame the guardian for the school's own account problems", () => {
+      expect(isSchoolSideFailure("InsufficientCredit")).toBe(true);
+      expect(isSchoolSideFailure("AbsentSubscriber")).toBe(false);
+    });
+  });
+
+  describe("WhatsApp receipts", () => {
+    const webhook = (statuses: unknown[]) => ({
+      object: "whatsapp_business_account",
+      entry: [{ id: "WABA_1", changes: [{ field: "messages", value: { messaging_product: "whatsapp", statuses } }] }],
+    });
+
+    it("should map WhatsApp statuses", () => {
+      expect(toWhatsAppDeliveryStatus("read")).toBe("read");
+      expect(toWhatsAppDeliveryStatus("failed")).toBe("failed");
+      expect(toWhatsAppDeliveryStatus("sent")).toBe("pending");
+    });
+
+    it("should read every receipt in a webhook post", () => {
+      const reports = parseWhatsAppWebhook(webhook([
+        { id: "wamid.1", status: "delivered", timestamp: "1772442000", recipient_id: "256772123456" },
+        { id: "wamid.2", status: "failed", timestamp: "1772442060", errors: [{ code: 131026, title: "Message undeliverable" }] },
+        { status: "read" },
+      ]));
+      expect(reports).toEqual([
+        { messageId: "wamid.1", status: "delivered", phoneNumber: "+256772123456", at: "2026-03-02T09:00:00.000Z" },
+        { messageId: "wamid.2", status: "failed", failureReason: "Message undeliverable (131026)", at: "2026-03-02T09:01:00.000Z" },
+      ]);
+      expect(parseWhatsAppWebhook({ hello: "world" })).toEqual([]);
+    });
+
+    it("should let a read receipt follow delivery, whichever arrives first", () => {
+      const whatsapp = message({ channel: "whatsapp", providerMessageId: "wamid.1" });
+      const delivered = applyDeliveryReport(whatsapp, { messageId: "wamid.1", status: "delivered" }, now);
+      const read = applyDeliveryReport(delivered, { messageId: "wamid.1", status: "read", at: "2026-03-02T09:05:00.000Z" }, now);
+      expect(read).toMatchObject({ deliveryStatus: "read", deliveredAt: now.toISOString(), readAt: "2026-03-02T09:05:00.000Z" });
+
+      const readFirst = applyDeliveryReport(whatsapp, { messageId: "wamid.1", status: "read" }, now);
+      expect(readFirst).toMatchObject({ deliveryStatus: "read", deliveredAt: now.toISOString() });
+      expect(applyDeliveryReport(readFirst, { messageId: "wamid.1", status: "delivered" }, now)).toBe(readFirst);
+    });
+
+    it("should not blame the guardian for the school's WhatsApp account or templates", () => {
+      expect(isSchoolSideFailure(formatWhatsAppError(132001, "Template name does not exist in the translation"))).toBe(true);
+      expect(isSchoolSideFailure(formatWhatsAppError(131026, "Message undeliverable"))).toBe(false);
+    });
+  });
+
+  describe("recordDelivery", () => {
+    it("should flag a number after repeated failures in a row", () => {
+      expect(failTimes(REACHABILITY_FAILURE_LIMIT - 1).status).toBe("reachable");
+      const flagged = failTimes(REACHABILITY_FAILURE_LIMIT);
+      expect(flagged).toMatchObject({ status: "unreachable", failed: 3, consecutiveFailures: 3, score: 20, lastFailureReason: "AbsentSubscriber" });
+    });
+
+    it("should clear the flag once a message gets through", () => {
+      const recovered = recordDelivery(failTimes(4), "sms", "+256772123456", { delivered: true }, now);
+      expect(recovered).toMatchObject({ status: "reachable", consecutiveFailures: 0, delivered: 1, failed: 4, score: 29 });
+      expect(recovered.lastFailureReason).toBe("AbsentSubscriber");
+    });
+
+    it("should flag a malformed number at once", () => {
+      expect(recordDelivery(undefined, "sms", "+25677", { delivered: false, permanent: true }, now).status).toBe("unreachable");
+    });
+  });
+
+  describe("chooseContactRoute", () => {
+    const contacts = [
+      { channel: "sms" as const, contact: "+256772123456" },
+      { channel: "sms" as const, contact: "+256701234567" },
+      { channel: "email" as const, contact: "parent@example.com" },
+    ];
+
+    it("should use the main phone while it works", () => {
+      expect(chooseContactRoute(contacts, new Map())).toEqual({ channel: "sms", recipient: "+256772123456" });
+    });
+
+    it("should fall back to the alternate phone, then email", () => {
+      const flagged = new Map([[getReachabilityId("sms", "+256772123456"), failTimes(3)]]);
+      expect(chooseContactRoute(contacts, flagged)).toEqual({ channel: "sms", recipient: "+256701234567", reroutedFrom: "+256772123456" });
+
+      flagged.set(getReachabilityId("sms", "+256701234567"), failTimes(3, "+256701234567"));
+      expect(chooseContactRoute(contacts, flagged)).toEqual({ channel: "email", recipient: "parent@example.com", reroutedFrom: "+256772123456" });
+    });
+
+    it("should still try the main phone when every contact is flagged", () => {
+      const flagged = new Map([[getReachabilityId("sms", "+256772123456"), failTimes(3)]]);
+      expect(chooseContactRoute(contacts.slice(0, 1), flagged)).toEqual({ channel: "sms", recipient: "+256772123456" });
+    });
+  });
+});
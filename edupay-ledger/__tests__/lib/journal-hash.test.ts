@@ -0,0 +1,64 @@
+/**
+ * Payment Journal Hash Tests
+ */
+
+import {
+  computeJournalEntryHash,
+  JOURNAL_GENESIS_HASH,
+} from "@/lib/db/journal-hash";
+
+const receipt = {
+  id: "JE-001",
+  deviceId: "DEV-001",
+  sequence: 1,
+  entryType: "receipt",
+  paymentId: "PAY-001",
+  receiptNumber: "RCP-001",
+  studentId: "stu-001",
+  amount: 250000,
+  paymentMethod: "cash",
+  termId: "term-1",
+  academicYear: "2026",
+  recordedBy: "user-001",
+  createdAt: "2026-02-01T08:00:00.000Z",
+  previousHash: JOURNAL_GENESIS_HASH,
+};
+
+describe("Payment Journal Hash", () => {
+  it("should produce a stable SHA-256 hex digest", () => {
+    const hash = computeJournalEntryHash(receipt);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeJournalEntryHash({ ...receipt })).toBe(hash);
+  });
+
+  it("should change when the amount is altered", () => {
+    expect(computeJournalEntryHash({ ...receipt, amount: 25000 })).not.toBe(
+      computeJournalEntryHash(receipt)
+    );
+  });
+
+  it("should chain to the previous entry's hash", () => {
+    const first = computeJournalEntryHash(receipt);
+    const reversal = {
+      ...receipt,
+      id: "JE-002",
+      sequence: 2,
+      entryType: "reversal",
+      amount: -250000,
+      linkedEntryId: "JE-001",
+      reason: "Duplicate",
+    };
+
+    const chained = computeJournalEntryHash({ ...reversal, previousHash: first });
+    const tampered = computeJournalEntryHash({
+      ...reversal,
+      previousHash: computeJournalEntryHash({ ...receipt, amount: 1 }),
+    });
+    expect(chained).not.toBe(tampered);
+  });
+
+  it("should ignore fields outside the hashed set", () => {
+    const withExtras = { ...receipt, syncStatus: "synced", updatedAt: "later" };
+    expect(computeJournalEntryHash(withExtras)).toBe(computeJournalEntryHash(receipt));
+  });
+});
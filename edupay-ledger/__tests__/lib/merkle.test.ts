@@ -0,0 +1,55 @@
+/**
+ * Merkle Tree Tests
+ */
+
+import {
+  buildMerkleProofs,
+  computeMerkleRoot,
+  computeRootFromProof,
+  verifyMerkleProof,
+} from "@/lib/merkle";
+
+const leaves = ["a1", "b2", "c3", "d4", "e5"].map(leaf => leaf.repeat(32));
+
+describe("Merkle Tree", () => {
+  it("should produce a 64-character hex root usable as a Stellar memo", () => {
+    expect(computeMerkleRoot(leaves)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should give every leaf a proof that rebuilds the root", () => {
+    const { root, proofs } = buildMerkleProofs(leaves);
+
+    expect(root).toBe(computeMerkleRoot(leaves));
+    leaves.forEach((leaf, index) => {
+      expect(verifyMerkleProof(leaf, proofs[index], root)).toBe(true);
+    });
+  });
+
+  it("should let the odd leaf out skip a level", () => {
+    const { proofs } = buildMerkleProofs(leaves);
+    expect(proofs[4]).toHaveLength(1);
+    expect(proofs[0]).toHaveLength(3);
+  });
+
+  it("should handle a batch of one payment", () => {
+    const { root, proofs } = buildMerkleProofs([leaves[0]]);
+    expect(proofs[0]).toEqual([]);
+    expect(computeRootFromProof(leaves[0], [])).toBe(root);
+  });
+
+  it("should reject an altered leaf or proof", () => {
+    const { root, proofs } = buildMerkleProofs(leaves);
+
+    expect(verifyMerkleProof("f6".repeat(32), proofs[1], root)).toBe(false);
+    expect(verifyMerkleProof(leaves[1], proofs[2], root)).toBe(false);
+  });
+
+  it("should not accept a pair of leaves as a single leaf", () => {
+    const { root } = buildMerkleProofs(leaves.slice(0, 2));
+    expect(computeMerkleRoot([leaves[0] + leaves[1]])).not.toBe(root);
+  });
+
+  it("should refuse an empty batch", () => {
+    expect(() => computeMerkleRoot([])).toThrow();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Message Outbox Policy Tests
+ */
+
+import {
+  applySendOutcome,
+  buildDedupeKey,
+  getDedupeScope,
+  getSendAllowance,
+  isOutboxDue,
+  isWithinQuietHours,
+  matchesOutboxSearch,
+  OUTBOX_MAX_ATTEMPTS,
+  pickDueMessages,
+  summarizeOutbox,
+} from "@/lib/db/outbox-queue";
+import type { OutboxMessage } from "@/types/outbox";
+
+const now = new Date("2026-03-02T09:00:00.000Z");
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+const message = (overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id: "MSG-1",
+  channel: "sms",
+  recipient: "+256772123456",
+  recipientName: "Sarah Nakato",
+  messageType: "payment_receipt",
+  body: "Payment received for Brian Okello. Receipt: RCP-2026-00042",
+  priority: "normal",
+  reference: "RCP-2026-00042",
+  status: "queued",
+  attempts: 0,
+  nextAttemptAt: minutesAgo(1),
+  createdAt: minutesAgo(10),
+  ...overrides,
+});
+
+describe("Message Outbox Policy", () => {
+  describe("buildDedupeKey", () => {
+    it("should key a message by what it is about, channel and recipient", () => {
+      expect(buildDedupeKey("receipt:RCP-1", "email", " Parent@Example.com ")).toBe("receipt:RCP-1:email:parent@example.com");
+    });
+
+    it("should give back the scope shared by copies on other channels", () => {
+      const dedupeKey = buildDedupeKey("receipt:RCP-1", "whatsapp", "+256772123456");
+      expect(getDedupeScope({ dedupeKey, channel: "whatsapp", recipient: "+256772123456" })).toBe("receipt:RCP-1");
+      expect(getDedupeScope({ dedupeKey, channel: "sms", recipient: "+256772123456" })).toBeUndefined();
+      expect(getDedupeScope({ channel: "sms", recipient: "+256772123456" })).toBeUndefined();
+    });
+  });
+
+  describe("isOutboxDue", () => {
+    it("should send a queued message once its retry time has passed", () => {
+      expect(isOutboxDue(message(), now)).toBe(true);
+      expect(isOutboxDue(message({ nextAttemptAt: new Date(now.getTime() + 1000).toISOString() }), now)).toBe(false);
+    });
+
+    it("should retry a send that never reported back", () => {
+      expect(isOutboxDue(message({ status: "sending", lastAttemptAt: minutesAgo(1) }), now)).toBe(false);
+      expect(isOutboxDue(message({ status: "sending", lastAttemptAt: minutesAgo(6) }), now)).toBe(true);
+    });
+
+    it("should hold a message back during its quiet hours", () => {
+      const quietHours = { startHour: 20, endHour: 7 };
+      expect(isWithinQuietHours(quietHours, new Date(2026, 2, 2, 21, 0))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date(2026, 2, 2, 6, 59))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date(2026, 2, 2, 7, 0))).toBe(false);
+      expect(isOutboxDue(message({ quietHours }), new Date(2026, 2, 2, 22, 0))).toBe(false);
+      expect(isOutboxDue(message({ quietHours: { startHour: 12, endHour: 14 } }), new Date(2026, 2, 2, 13, 0))).toBe(false);
+    });
+
+    it("should never resend a sent or failed message", () => {
+      expect(isOutboxDue(message({ status: "sent" }), now)).toBe(false);
+      expect(isOutboxDue(message({ status: "failed" }), now)).toBe(false);
+    });
+  });
+
+  describe("rate limits", () => {
+    it("should count only attempts inside the window", () => {
+      const attempts = [minutesAgo(0.5), minutesAgo(0.5), minutesAgo(2)];
+      expect(getSendAllowance("sms", attempts, now, { sms: { maxMessages: 3, windowMs: 60000 }, email: { maxMessages: 1, windowMs: 60000 }, whatsapp: { maxMessages: 1, windowMs: 60000 } })).toBe(1);
+    });
+
+    it("should pick urgent and older messages first within each channel's allowance", () => {
+      const picked = pickDueMessages([
+        message({ id: "old", createdAt: minutesAgo(30) }),
+        message({ id: "new", createdAt: minutesAgo(5) }),
+        message({ id: "urgent", priority: "high", createdAt: minutesAgo(1) }),
+        message({ id: "email", channel: "email", recipient: "parent@example.com" }),
+        message({ id: "later", nextAttemptAt: new Date(now.getTime() + 60000).toISOString() }),
+      ], { sms: 2, email: 0, whatsapp: 0 }, now);
+
+      expect(picked.map(m => m.id)).toEqual(["urgent", "old"]);
+    });
+  });
+
+  describe("applySendOutcome", () => {
+    it("should record a sent message", () => {
+      const sent = applySendOutcome(message({ attempts: 1, lastError: "timeout" }), { success: true, providerMessageId: "ATXid_1", cost: 35 }, now);
+      expect(sent).toMatchObject({ status: "sent", sentAt: now.toISOString(), providerMessageId: "ATXid_1", cost: 35, deliveryStatus: "pending" });
+      expect(sent.lastError).toBeUndefined();
+    });
+
+    it("should await a delivery report for WhatsApp but not email", () => {
+      expect(applySendOutcome(message({ channel: "whatsapp" }), { success: true }, now).deliveryStatus).toBe("pending");
+      expect(applySendOutcome(message({ channel: "email" }), { success: true }, now).deliveryStatus).toBeUndefined();
+    });
+
+    it("should back off like the sync queue after a failure", () => {
+      const retried = applySendOutcome(message({ attempts: 2 }), { success: false, error: "HTTP 503: Service Unavailable" }, now);
+      expect(retried.status).toBe("queued");
+      expect(retried.nextAttemptAt).toBe(new Date(now.getTime() + 60 * 1000).toISOString());
+      expect(retried.lastError).toBe("HTTP 503: Service Unavailable");
+    });
+
+    it("should give up on a permanent failure or after the last attempt", () => {
+      expect(applySendOutcome(message({ attempts: 1 }), { success: false, permanent: true }, now).status).toBe("failed");
+      expect(applySendOutcome(message({ attempts: OUTBOX_MAX_ATTEMPTS }), { success: false }, now).status).toBe("failed");
+    });
+
+    it("should not count a rate limited attempt against the message", () => {
+      const throttled = applySendOutcome(message({ attempts: 3 }), { success: false, rateLimited: true, error: "HTTP 429" }, now);
+      expect(throttled).toMatchObject({ status: "queued", attempts: 2, nextAttemptAt: new Date(now.getTime() + 60000).toISOString() });
+    });
+  });
+
+  describe("history", () => {
+    it("should search recipient, name, reference and text", () => {
+      expect(matchesOutboxSearch(message(), { query: "nakato" })).toBe(true);
+      expect(matchesOutboxSearch(message(), { query: "rcp-2026-00042" })).toBe(true);
+      expect(matchesOutboxSearch(message(), { query: "0772" })).toBe(false);
+      expect(matchesOutboxSearch(message(), { channel: "email" })).toBe(false);
+      expect(matchesOutboxSearch(message(), { status: "queued", from: new Date(minutesAgo(60)), to: now })).toBe(true);
+    });
+
+    it("should count messages by status and report the next retry", () => {
+      expect(summarizeOutbox([
+        message({ nextAttemptAt: minutesAgo(-5) }),
+        message({ nextAttemptAt: minutesAgo(-1) }),
+        message({ status: "sent" }),
+        message({ status: "failed" }),
+      ])).toEqual({ queued: 2, sending: 0, sent: 1, failed: 1, nextAttemptAt: minutesAgo(-1) });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Receipt Number Series Tests
+ */
+
+import {
+  formatReceiptNumber,
+  parseReceiptNumber,
+  auditReceiptSeries,
+  planNextReceipt,
+  provisionalReceiptTag,
+  isProvisionalReceiptNumber,
+  PROVISIONAL_DEVICE_CODE,
+  planReceiptTopUp,
+  RECEIPT_BLOCK_REFILL_THRESHOLD,
+} from "@/lib/db/receipt-numbers";
+
+describe("Receipt Numbers", () => {
+  describe("formatReceiptNumber", () => {
+    it("should pad the device code and sequence", () => {
+      expect(formatReceiptNumber("2026", 2, 145)).toBe("RCP-2026-D02-000145");
+    });
+  });
+
+  describe("parseReceiptNumber", () => {
+    it("should round-trip a formatted number", () => {
+      expect(parseReceiptNumber("RCP-2026-D02-000145")).toEqual({
+        academicYear: "2026",
+        deviceCode: 2,
+        sequence: 145,
+      });
+    });
+
+    it("should reject numbers in the old format", () => {
+      expect(parseReceiptNumber("RCP-LX2K9A-4F7B")).toBeNull();
+    });
+  });
+
+  describe("auditReceiptSeries", () => {
+    const blocks = [
+      { deviceCode: 1, start: 1, end: 100 },
+      { deviceCode: 2, start: 1, end: 100 },
+    ];
+
+    it("should report missing numbers below the highest issued", () => {
+      const issued = [1, 2, 5, 6, 8].map(n => formatReceiptNumber("2026", 1, n));
+      const audit = auditReceiptSeries("2026", blocks, issued);
+
+      expect(audit.issued).toBe(5);
+      expect(audit.gaps).toEqual([
+        { deviceCode: 1, from: 3, to: 4 },
+        { deviceCode: 1, from: 7, to: 7 },
+      ]);
+    });
+
+    it("should not treat the unused tail of a block as a gap", () => {
+      const issued = [1, 2, 3].map(n => formatReceiptNumber("2026", 2, n));
+      expect(auditReceiptSeries("2026", blocks, issued).gaps).toEqual([]);
+    });
+
+    it("should flag duplicates and numbers outside reserved blocks", () => {
+      const audit = auditReceiptSeries("2026", blocks, [
+        "RCP-2026-D01-000001",
+        "RCP-2026-D01-000001",
+        "RCP-2026-D01-000101",
+        "RCP-2025-D01-000003",
+      ]);
+
+      expect(audit.duplicates).toEqual(["RCP-2026-D01-000001"]);
+      expect(audit.unreserved).toEqual(["RCP-2026-D01-000101"]);
+      expect(audit.issued).toBe(2);
+    });
+
+    it("should list provisional numbers as issued outside a reserved block", () => {
+      const audit = auditReceiptSeries("2026", blocks, [
+        "RCP-2026-PK3F9QZ-000001",
+        "RCP-2026-PK3F9QZ-000002",
+        "RCP-2025-PK3F9QZ-000001",
+      ]);
+
+      expect(audit.unreserved).toEqual(["RCP-2026-PK3F9QZ-000001", "RCP-2026-PK3F9QZ-000002"]);
+      expect(audit.issued).toBe(2);
+    });
+  });
+
+  describe("planNextReceipt", () => {
+    const device = { id: "DEV-LZ8W1QK3F9QZ", receiptCode: 2 };
+    const blocks = [
+      { deviceCode: 2, start: 101, end: 200 },
+      { deviceCode: 2, start: 401, end: 500 },
+      { deviceCode: 3, start: 1, end: 100 },
+    ];
+
+    it("should start a new series at the device's first block", () => {
+      const next = planNextReceipt("2026", device, undefined, blocks);
+      expect(next.receiptNumber).toBe("RCP-2026-D02-000101");
+      expect(next.series).toEqual({ academicYear: "2026", deviceCode: 2, nextNumber: 102 });
+    });
+
+    it("should step from the end of one block to the start of the next", () => {
+      const next = planNextReceipt("2026", device, { academicYear: "2026", deviceCode: 2, nextNumber: 201 }, blocks);
+      expect(next.receiptNumber).toBe("RCP-2026-D02-000401");
+    });
+
+    it("should keep counting once the blocks run out", () => {
+      const next = planNextReceipt("2026", device, { academicYear: "2026", deviceCode: 2, nextNumber: 501 }, blocks);
+      expect(next.receiptNumber).toBe("RCP-2026-D02-000501");
+    });
+
+    describe("on a device that has never been online", () => {
+      const fresh = { id: "DEV-LZ8W1QK3F9QZ" };
+
+      it("should issue provisional numbers tagged with the device ID", () => {
+        const first = planNextReceipt("2026", fresh, undefined, []);
+        expect(first.receiptNumber).toBe("RCP-2026-PK3F9QZ-000001");
+        expect(first.series.deviceCode).toBe(PROVISIONAL_DEVICE_CODE);
+        expect(isProvisionalReceiptNumber(first.receiptNumber, "2026")).toBe(true);
+        expect(parseReceiptNumber(first.receiptNumber)).toBeNull();
+
+        const second = planNextReceipt("2026", fresh, first.series, []);
+        expect(second.receiptNumber).toBe("RCP-2026-PK3F9QZ-000002");
+      });
+
+      it("should give devices different tags", () => {
+        expect(provisionalReceiptTag("DEV-LZ8W1QK3F9QZ")).not.toBe(provisionalReceiptTag("DEV-LZ8W1QA81B2C"));
+      });
+
+      it("should switch to the real series once the device has its code", () => {
+        const provisional = { academicYear: "2026", deviceCode: PROVISIONAL_DEVICE_CODE, nextNumber: 7 };
+        expect(planNextReceipt("2026", device, provisional, blocks).receiptNumber).toBe("RCP-2026-D02-000101");
+      });
+    });
+  });
+
+  describe("planReceiptTopUp", () => {
+    it("should leave a device with enough numbers alone", () => {
+      expect(planReceiptTopUp(RECEIPT_BLOCK_REFILL_THRESHOLD, true)).toBe("none");
+    });
+
+    it("should top up in the background while numbers remain", () => {
+      expect(planReceiptTopUp(RECEIPT_BLOCK_REFILL_THRESHOLD - 1, true)).toBe("background");
+      expect(planReceiptTopUp(1, true)).toBe("background");
+    });
+
+    it("should wait for a block only once every reserved number is used", () => {
+      expect(planReceiptTopUp(0, true)).toBe("wait");
+    });
+
+    it("should not try to reserve while offline", () => {
+      expect(planReceiptTopUp(0, false)).toBe("none");
+      expect(planReceiptTopUp(5, false)).toBe("none");
+    });
+  });
+});
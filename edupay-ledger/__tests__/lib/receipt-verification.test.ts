@@ -0,0 +1,111 @@
+/**
+ * Receipt Verification Tests
+ */
+
+import { buildMerkleProofs } from "@/lib/merkle";
+import {
+  assessReceipt,
+  buildVerificationUrl,
+  parseVerificationCode,
+  rebuildPaymentProof,
+  VerifiablePayment,
+} from "@/lib/receipt-verification";
+import { createPaymentHash } from "@/lib/stellar";
+
+const basePayment: VerifiablePayment = {
+  id: "PAY-001",
+  receiptNumber: "RCP-2026-D02-000145",
+  studentId: "stu-001",
+  studentName: "Amina Nakato",
+  amount: 250000,
+  transactionRef: "MP240115.1234.A56789",
+  paymentDate: "2026-02-03T09:00:00.000Z",
+  proofTimestamp: "2026-02-03T09:00:01.000Z",
+};
+
+const proofHash = createPaymentHash(rebuildPaymentProof(basePayment, "school-001")!);
+const payment = { ...basePayment, proofHash };
+const code = { schoolId: "school-001", receiptNumber: payment.receiptNumber, proofHash };
+
+describe("Receipt Verification", () => {
+  describe("verification codes", () => {
+    it("should round-trip through the verification URL", () => {
+      const url = buildVerificationUrl(code, "https://ledger.school.ug/");
+
+      expect(url.startsWith("https://ledger.school.ug/verify?")).toBe(true);
+      expect(parseVerificationCode(url)).toEqual(code);
+    });
+
+    it("should reject incomplete codes and malformed hashes", () => {
+      expect(parseVerificationCode("s=school-001&r=RCP-1")).toBeNull();
+      expect(parseVerificationCode("s=school-001&r=RCP-1&h=not-a-hash")).toBeNull();
+    });
+  });
+
+  describe("assessReceipt", () => {
+    it("should report an unknown receipt", () => {
+      expect(assessReceipt(code, null)).toMatchObject({ status: "unknown", checkedAgainst: "none" });
+      expect(assessReceipt(code, null, null, false).reason).toContain("could not be reached");
+    });
+
+    it("should report payments recorded before proofs as unknown", () => {
+      const result = assessReceipt(code, { ...basePayment, proofTimestamp: undefined });
+      expect(result.status).toBe("unknown");
+      expect(result.payment?.amount).toBe(250000);
+    });
+
+    it("should report a receipt matching a payment not yet anchored as unanchored", () => {
+      expect(assessReceipt(code, payment)).toMatchObject({ status: "unanchored", checkedAgainst: "local" });
+      expect(assessReceipt(code, { ...payment, stellarTxHash: "tx-1" }).status).toBe("unanchored");
+    });
+
+    it("should fall back to the record when the anchored root can't be fetched", () => {
+      const { proofs } = buildMerkleProofs([proofHash, "ab".repeat(32)]);
+      const anchored = { ...payment, merkleProof: proofs[0], stellarTxHash: "tx-1" };
+
+      expect(assessReceipt(code, anchored, null)).toMatchObject({ status: "authentic", checkedAgainst: "local" });
+    });
+
+    it("should flag a payment record changed after the receipt was issued", () => {
+      expect(assessReceipt(code, { ...payment, amount: 350000 })).toMatchObject({ status: "altered", checkedAgainst: "local" });
+    });
+
+    it("should flag a receipt carrying another payment's code", () => {
+      const result = assessReceipt({ ...code, proofHash: "ef".repeat(32) }, payment);
+      expect(result.status).toBe("altered");
+    });
+
+    it("should check the payment against the anchored Merkle root", () => {
+      const { root, proofs } = buildMerkleProofs([proofHash, "ab".repeat(32), "cd".repeat(32)]);
+      const anchored = { ...payment, merkleProof: proofs[0], stellarTxHash: "tx-1" };
+
+      expect(assessReceipt(code, anchored, root)).toMatchObject({ status: "authentic", checkedAgainst: "stellar" });
+      expect(assessReceipt(code, anchored, "00".repeat(32))).toMatchObject({ status: "altered", checkedAgainst: "stellar" });
+    });
+
+    it("should report receipts for cancelled, refunded or bounced payments as void", () => {
+      expect(assessReceipt(code, { ...payment, status: "cancelled" })).toMatchObject({ status: "void", checkedAgainst: "local" });
+      expect(assessReceipt(code, { ...payment, status: "refunded" }).status).toBe("void");
+      expect(assessReceipt(code, { ...payment, status: "bounced" }).reason).toContain("returned unpaid");
+      expect(assessReceipt(code, { ...payment, status: "reversed" }).status).toBe("void");
+    });
+
+    it("should report a void receipt even when it matches the anchored root", () => {
+      const { root, proofs } = buildMerkleProofs([proofHash, "ab".repeat(32)]);
+      const anchored = { ...payment, status: "cancelled" as const, merkleProof: proofs[0], stellarTxHash: "tx-1" };
+
+      expect(assessReceipt(code, anchored, root)).toMatchObject({ status: "void", checkedAgainst: "stellar" });
+    });
+
+    it("should report payments that have not cleared", () => {
+      expect(assessReceipt(code, { ...payment, status: "pending" }).status).toBe("uncleared");
+      expect(assessReceipt(code, { ...payment, status: "completed", cheque: { status: "deposited" } }).status).toBe("uncleared");
+      expect(assessReceipt(code, { ...payment, status: "completed", cheque: { status: "cleared" } }).status).toBe("unanchored");
+      expect(assessReceipt(code, { ...payment, status: "cleared" }).status).toBe("unanchored");
+    });
+
+    it("should still flag an altered record of a reversed payment as altered", () => {
+      expect(assessReceipt(code, { ...payment, status: "cancelled", amount: 1 }).status).toBe("altered");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Reconciliation Close-Out Tests
+ */
+
+import {
+  buildReconciliationStatement,
+  deriveStatementBalances,
+  isReceiptForSource,
+  StatementReceipt,
+} from "@/lib/reconciliation/close-out";
+import type { BankTransaction, ReconciliationStatus } from "@/types/bank-reconciliation";
+
+const tx = (
+  id: string,
+  type: "credit" | "debit",
+  amount: number,
+  status: ReconciliationStatus,
+  balance = 0
+): BankTransaction & { status: ReconciliationStatus } => ({
+  id,
+  transactionDate: new Date(2026, 1, Number(id.slice(1))),
+  valueDate: new Date(2026, 1, Number(id.slice(1))),
+  reference: `REF-${id}`,
+  description: `Transaction ${id}`,
+  amount,
+  type,
+  balance,
+  rawData: {},
+  status,
+});
+
+const receipt = (id: string, amount: number, isReconciled: boolean, channel: StatementReceipt["channel"] = "bank_transfer"): StatementReceipt => ({
+  id,
+  date: new Date(2026, 1, 10),
+  reference: `RCP-${id}`,
+  description: "Student",
+  amount,
+  channel,
+  isReconciled,
+});
+
+const session = {
+  id: "S1",
+  bankAccountName: "School Fees Account",
+  bankAccountNumber: "9030012345678",
+  source: "bank" as const,
+  statementPeriodStart: new Date(2026, 1, 1),
+  statementPeriodEnd: new Date(2026, 1, 28),
+};
+
+describe("Reconciliation Close-Out", () => {
+  describe("buildReconciliationStatement", () => {
+    const input = {
+      session,
+      openingBalance: 1000000,
+      transactions: [
+        tx("T2", "credit", 500000, "matched"),
+        tx("T3", "credit", 200000, "unmatched"),
+        tx("T4", "credit", 1500, "ignored"),
+        tx("T5", "debit", 15000, "ignored"),
+      ],
+      receipts: [
+        receipt("P1", 500000, true),
+        receipt("P2", 300000, false),
+        receipt("P3", 80000, false, "momo_mtn"),
+      ],
+      preparedBy: "USR-1",
+      preparedByName: "Bursar",
+    };
+
+    it("should reconcile the opening balance to the statement's closing balance", () => {
+      const statement = buildReconciliationStatement({ ...input, closingBalance: 1686500 });
+
+      expect(statement.systemReceiptsTotal).toBe(800000);
+      expect(statement.unpresentedItems.map(item => item.id)).toEqual(["P2"]);
+      expect(statement.unmatchedCredits.map(item => item.id)).toEqual(["T3"]);
+      expect(statement.otherCreditsTotal).toBe(1500);
+      expect(statement.debitsTotal).toBe(15000);
+      expect(statement.reconciledBalance).toBe(1686500);
+      expect(statement.difference).toBe(0);
+    });
+
+    it("should show what is left unexplained", () => {
+      expect(buildReconciliationStatement({ ...input, closingBalance: 1700000 }).difference).toBe(13500);
+    });
+  });
+
+  describe("isReceiptForSource", () => {
+    it("should compare a mobile money statement only with receipts taken on that network", () => {
+      expect(isReceiptForSource("momo_mtn", "mtn_momo")).toBe(true);
+      expect(isReceiptForSource("momo_airtel", "mtn_momo")).toBe(false);
+      expect(isReceiptForSource("cheque", "bank")).toBe(true);
+      expect(isReceiptForSource("momo_mtn", "bank")).toBe(false);
+    });
+  });
+
+  describe("deriveStatementBalances", () => {
+    it("should work back from the running balance", () => {
+      expect(deriveStatementBalances([
+        tx("T3", "debit", 15000, "pending", 1485000),
+        tx("T2", "credit", 500000, "pending", 1500000),
+      ])).toEqual({ openingBalance: 1000000, closingBalance: 1485000 });
+      expect(deriveStatementBalances([tx("T2", "credit", 500000, "pending")])).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Reconciliation Matcher Tests
+ */
+
+import {
+  findAggregateProposals,
+  findSplitProposals,
+  fuzzyNameScore,
+  getPayerKey,
+  learnPayerMapping,
+  MatchCandidate,
+  proposeMatches,
+  scoreMatch,
+} from "@/lib/reconciliation/matcher";
+import type { BankTransaction, PayerMapping } from "@/types/bank-reconciliation";
+
+const credit = (id: string, amount: number, description: string, day = 15, extra: Partial<BankTransaction> = {}): BankTransaction => ({
+  id,
+  transactionDate: new Date(2026, 0, day),
+  valueDate: new Date(2026, 0, day),
+  reference: `REF-${id}`,
+  description,
+  amount,
+  type: "credit",
+  balance: 0,
+  rawData: {},
+  ...extra,
+});
+
+const payment = (id: string, amount: number, studentName: string, extra: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  id,
+  amount,
+  date: new Date(2026, 0, 15),
+  studentId: `STU-${id}`,
+  studentName,
+  ...extra,
+});
+
+describe("Reconciliation Matcher", () => {
+  describe("fuzzyNameScore", () => {
+    it("should match names in any order and with small misspellings", () => {
+      expect(fuzzyNameScore("TRF FROM NAMUBIRU SARA", "Sarah Namubiru")).toBeGreaterThanOrEqual(0.9);
+      expect(fuzzyNameScore("DEPOSIT MUKASA JON", "John Mukasa")).toBeGreaterThanOrEqual(0.75);
+    });
+
+    it("should not count a shared surname alone as a match", () => {
+      expect(fuzzyNameScore("DEPOSIT NAMUBIRU PETER", "Sarah Namubiru")).toBeLessThan(0.75);
+      expect(fuzzyNameScore("BANK CHARGES", "Sarah Namubiru")).toBeLessThan(0.5);
+    });
+  });
+
+  describe("getPayerKey", () => {
+    it("should prefer the mobile money number", () => {
+      expect(getPayerKey({ payerMsisdn: "+256772123456", description: "anything" })).toBe("msisdn:+256772123456");
+    });
+
+    it("should key bank credits on the narration without banking words and numbers", () => {
+      expect(getPayerKey({ description: "EFT TRANSFER FROM OKELLO PETER 0045/26" })).toBe("narration:OKELLO PETER");
+      expect(getPayerKey({ description: "TRF 123" })).toBeNull();
+    });
+  });
+
+  describe("scoreMatch", () => {
+    it("should add confidence for a fuzzy name match", () => {
+      const tx = credit("T1", 500000, "DEPOSIT MUKASA JON", 20);
+      const { confidence, reasons } = scoreMatch(tx, payment("P1", 500000, "John Mukasa"));
+      expect(reasons).toContain("Student name closely matches narration");
+      expect(confidence).toBe(60);
+    });
+
+    it("should match a payer the school matched to the student before", () => {
+      const tx = credit("T1", 450000, "EFT OKELLO PETER", 17);
+      const mapping = learnPayerMapping(undefined, "narration:OKELLO PETER", [{ studentId: "STU-P1", studentName: "Grace Akello" }]);
+      const without = scoreMatch(tx, payment("P1", 450000, "Grace Akello"));
+      const withMapping = scoreMatch(tx, payment("P1", 450000, "Grace Akello"), { [mapping.key]: mapping });
+
+      expect(withMapping.confidence - without.confidence).toBe(25);
+      expect(withMapping.reasons).toContain("Payer previously matched to this student");
+    });
+  });
+
+  describe("learnPayerMapping", () => {
+    it("should add new students and count every decision", () => {
+      const first = learnPayerMapping(undefined, "k", [{ studentId: "S1", studentName: "A" }]);
+      const second = learnPayerMapping(first, "k", [{ studentId: "S1", studentName: "A" }, { studentId: "S2", studentName: "B" }]);
+      expect(second.studentIds).toEqual(["S1", "S2"]);
+      expect(second.matchCount).toBe(2);
+    });
+  });
+
+  describe("findSplitProposals", () => {
+    it("should propose one transfer covering siblings", () => {
+      const tx = credit("T1", 800000, "TRF FROM NAMBI ROSE", 15, { payerMsisdn: "+256772000111" });
+      const phones = { guardianPhones: ["+256772000111"] };
+      const [best] = findSplitProposals(tx, [
+        payment("P1", 500000, "Sarah Nambi", phones),
+        payment("P2", 300000, "Peter Nambi", phones),
+        payment("P3", 250000, "Grace Akello"),
+      ]);
+
+      expect(best.kind).toBe("split");
+      expect(best.paymentIds).toEqual(["P1", "P2"]);
+      expect(best.confidence).toBe(95);
+      expect(best.reasons).toContain("Payments are for siblings");
+    });
+
+    it("should only propose payments that add up exactly", () => {
+      const tx = credit("T1", 800000, "TRF");
+      expect(findSplitProposals(tx, [payment("P1", 500000, "A B"), payment("P2", 299000, "C D")])).toHaveLength(0);
+    });
+  });
+
+  describe("findAggregateProposals", () => {
+    it("should propose several transfers from one payer for one payment", () => {
+      const payer = { payerMsisdn: "+256752333444" };
+      const [best] = findAggregateProposals(
+        payment("P1", 900000, "Grace Akello", { guardianPhones: ["+256752333444"] }),
+        [
+          credit("T1", 300000, "AIRTEL", 13, payer),
+          credit("T2", 300000, "AIRTEL", 14, payer),
+          credit("T3", 300000, "AIRTEL", 15, payer),
+          credit("T4", 300000, "OTHER PAYER", 15),
+        ]
+      );
+
+      expect(best.kind).toBe("aggregate");
+      expect(best.bankTransactionIds).toEqual(["T3", "T2", "T1"]);
+      expect(best.reasons).toContain("Payer phone matches guardian");
+    });
+
+    it("should not combine transfers from different payers", () => {
+      const proposals = findAggregateProposals(payment("P1", 600000, "Grace Akello"), [
+        credit("T1", 300000, "TRF OKELLO PETER"),
+        credit("T2", 300000, "TRF NAMBI ROSE"),
+      ]);
+      expect(proposals).toHaveLength(0);
+    });
+  });
+
+  describe("proposeMatches", () => {
+    it("should match one-to-one first and never reuse a credit or payment", () => {
+      const mappings: Record<string, PayerMapping> = {};
+      const phones = { guardianPhones: ["+256772000111"] };
+      const proposals = proposeMatches(
+        [
+          credit("T1", 500000, "DEPOSIT MUKASA JOHN"),
+          credit("T2", 800000, "TRF", 15, { payerMsisdn: "+256772000111" }),
+        ],
+        [
+          payment("P1", 500000, "John Mukasa"),
+          payment("P2", 500000, "Sarah Nambi", phones),
+          payment("P3", 300000, "Peter Nambi", phones),
+        ],
+        mappings
+      );
+
+      expect(proposals.map(p => [p.kind, p.bankTransactionIds, p.paymentIds])).toEqual([
+        ["single", ["T1"], ["P1"]],
+        ["split", ["T2"], ["P2", "P3"]],
+      ]);
+    });
+  });
+});
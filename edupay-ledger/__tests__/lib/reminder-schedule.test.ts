@@ -0,0 +1,150 @@
+/**
+ * Reminder Schedule Tests
+ */
+
+import {
+  applyFrequencyCap,
+  countRecentReminders,
+  daysBetween,
+  findInstallmentReminders,
+  getDeadlineStage,
+  getOverdueStage,
+  ReminderStudent,
+  toDeadlineDate,
+} from "@/lib/reminders/schedule";
+import type { OutboxMessage } from "@/types/outbox";
+import type { ReminderCandidate } from "@/types/reminder";
+
+const today = new Date(2026, 2, 2, 9, 0);
+const daysFromToday = (days: number) => new Date(2026, 2, 2 + days, 17, 0);
+
+const student = (deadlines: Array<{ days: number; paid?: number; status?: "in_progress" | "completed" }>): ReminderStudent => ({
+  id: "STU-1",
+  firstName: "Brian",
+  lastName: "Okello",
+  guardianPhone: "+256772123456",
+  guardianEmail: "parent@example.com",
+  installmentProgress: deadlines.map(({ days, paid = 0, status = "in_progress" }, index) => ({
+    installmentId: `INST-${index + 1}`,
+    installmentName: `Installment ${index + 1}`,
+    amountDue: 500000,
+    amountPaid: paid,
+    status,
+    deadline: { seconds: daysFromToday(days).getTime() / 1000, nanoseconds: 0 },
+  })),
+});
+
+const candidate = (overrides: Partial<ReminderCandidate> = {}): ReminderCandidate => ({
+  kind: "deadline",
+  studentId: "STU-1",
+  studentName: "Brian Okello",
+  guardianPhone: "+256772123456",
+  label: "Installment 1",
+  amount: 500000,
+  dueDate: daysFromToday(3),
+  days: 3,
+  dedupeScope: "reminder:deadline:STU-1:INST-1:3",
+  ...overrides,
+});
+
+describe("Reminder Schedule", () => {
+  describe("dates", () => {
+    it("should count calendar days whatever the time of day", () => {
+      expect(daysBetween(today, daysFromToday(3))).toBe(3);
+      expect(daysBetween(today, new Date(2026, 2, 2, 23, 59))).toBe(0);
+      expect(daysBetween(today, daysFromToday(-1))).toBe(-1);
+    });
+
+    it("should read deadlines as Firestore, IndexedDB or string dates", () => {
+      const date = new Date("2026-03-09T00:00:00.000Z");
+      expect(toDeadlineDate({ toDate: () => date })).toEqual(date);
+      expect(toDeadlineDate({ seconds: date.getTime() / 1000, nanoseconds: 0 })).toEqual(date);
+      expect(toDeadlineDate("2026-03-09T00:00:00.000Z")).toEqual(date);
+      expect(toDeadlineDate("not a date")).toBeNull();
+      expect(toDeadlineDate(undefined)).toBeNull();
+    });
+  });
+
+  describe("stages", () => {
+    it("should catch up on a deadline reminder missed while the app was closed", () => {
+      expect(getDeadlineStage(10)).toBeNull();
+      expect(getDeadlineStage(7)).toBe(7);
+      expect(getDeadlineStage(5)).toBe(7);
+      expect(getDeadlineStage(2)).toBe(3);
+      expect(getDeadlineStage(0)).toBe(0);
+    });
+
+    it("should keep to the last overdue alert passed", () => {
+      expect(getOverdueStage(0)).toBeNull();
+      expect(getOverdueStage(1)).toBe(1);
+      expect(getOverdueStage(10)).toBe(7);
+      expect(getOverdueStage(90)).toBe(30);
+    });
+  });
+
+  describe("findInstallmentReminders", () => {
+    it("should remind of upcoming and overdue installments still owed", () => {
+      const found = findInstallmentReminders(student([{ days: -8, paid: 200000 }, { days: 3 }, { days: 20 }]), today);
+
+      expect(found).toHaveLength(2);
+      expect(found[0]).toMatchObject({
+        kind: "overdue",
+        amount: 300000,
+        days: -8,
+        email: "parent@example.com",
+        dedupeScope: "reminder:overdue:STU-1:INST-1:7",
+      });
+      expect(found[1]).toMatchObject({ kind: "deadline", label: "Installment 2", days: 3, dedupeScope: "reminder:deadline:STU-1:INST-2:3" });
+    });
+
+    it("should skip paid installments", () => {
+      expect(findInstallmentReminders(student([{ days: 3, status: "completed" }, { days: 3, paid: 500000 }]), today)).toEqual([]);
+    });
+  });
+
+  describe("frequency cap", () => {
+    const message = (overrides: Partial<OutboxMessage>) => ({
+      channel: "sms" as const,
+      recipient: "+256772123456",
+      messageType: "fee_deadline" as const,
+      status: "sent" as const,
+      createdAt: daysFromToday(-2).toISOString(),
+      ...overrides,
+    });
+
+    it("should count reminders to each guardian, including those sent elsewhere", () => {
+      const counts = countRecentReminders([
+        message({}),
+        message({ recipient: "parent@example.com", reroutedFrom: "+256772123456" }),
+        message({ messageType: "payment_receipt" }),
+        message({ status: "failed" }),
+        message({ createdAt: daysFromToday(-9).toISOString() }),
+      ], daysFromToday(-7));
+
+      expect(counts.get("+256772123456")).toBe(2);
+    });
+
+    it("should count a reminder sent on several channels once", () => {
+      const counts = countRecentReminders([
+        message({ channel: "whatsapp", dedupeKey: "reminder:a:whatsapp:+256772123456", status: "sent" }),
+        message({ dedupeKey: "reminder:a:sms:+256772123456", fallbackFor: "MSG-1" }),
+        message({ channel: "email", recipient: "parent@example.com", guardianPhone: "+256772123456", dedupeKey: "reminder:a:email:parent@example.com" }),
+        message({ dedupeKey: "reminder:b:sms:+256772123456" }),
+      ], daysFromToday(-7));
+
+      expect(counts.get("+256772123456")).toBe(2);
+    });
+
+    it("should send the most pressing reminders first and hold back the rest", () => {
+      const { allowed, capped } = applyFrequencyCap([
+        candidate({ dedupeScope: "deadline" }),
+        candidate({ kind: "promise", dueDate: daysFromToday(1), dedupeScope: "promise" }),
+        candidate({ kind: "overdue", dueDate: daysFromToday(-7), dedupeScope: "overdue" }),
+        candidate({ guardianPhone: "+256701234567", dedupeScope: "other guardian" }),
+      ], new Map([["+256772123456", 1]]), { maxMessages: 3, periodDays: 7 });
+
+      expect(allowed.map(c => c.dedupeScope)).toEqual(["overdue", "promise", "other guardian"]);
+      expect(capped.map(c => c.dedupeScope)).toEqual(["deadline"]);
+    });
+  });
+});
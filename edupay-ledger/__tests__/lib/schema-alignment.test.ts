@@ -0,0 +1,105 @@
+/**
+ * Schema Alignment Tests
+ */
+
+import {
+  alignPaymentRecord,
+  alignStudentRecord,
+  checkLedgerIntegrity,
+  toPaymentChannel,
+} from "@/lib/db/schema-alignment";
+
+const student = {
+  id: "stu-001",
+  firstName: "Amina",
+  lastName: "Nakato",
+  totalFees: 500000,
+  amountPaid: 300000,
+  balance: 200000,
+};
+
+describe("Schema Alignment", () => {
+  describe("toPaymentChannel", () => {
+    it("should map legacy local payment methods to channels", () => {
+      expect(toPaymentChannel("mtn_momo")).toBe("momo_mtn");
+      expect(toPaymentChannel("airtel_money")).toBe("momo_airtel");
+    });
+
+    it("should keep channel names and fall back to other", () => {
+      expect(toPaymentChannel("bank_transfer")).toBe("bank_transfer");
+      expect(toPaymentChannel("barter")).toBe("other");
+      expect(toPaymentChannel(undefined)).toBe("other");
+    });
+  });
+
+  describe("alignStudentRecord", () => {
+    it("should rename paidAmount and backfill balance and status", () => {
+      const aligned = alignStudentRecord({ id: "stu-002", totalFees: 400000, paidAmount: 400000 });
+
+      expect(aligned).not.toHaveProperty("paidAmount");
+      expect(aligned.amountPaid).toBe(400000);
+      expect(aligned.balance).toBe(0);
+      expect(aligned.paymentStatus).toBe("fully_paid");
+    });
+
+    it("should leave an aligned record unchanged", () => {
+      const aligned = alignStudentRecord({ ...student, paymentStatus: "partial" });
+      expect(alignStudentRecord(aligned)).toEqual(aligned);
+    });
+
+    it("should copy a nested guardian's language and channel onto the student", () => {
+      const aligned = alignStudentRecord({
+        ...student,
+        guardian: { name: "Grace Nakato", preferredLanguage: "lg", preferredChannel: "whatsapp" },
+      });
+      expect(aligned.guardianLanguage).toBe("lg");
+      expect(aligned.guardianChannel).toBe("whatsapp");
+
+      const unset = alignStudentRecord(student);
+      expect(unset).not.toHaveProperty("guardianLanguage");
+      expect(unset).not.toHaveProperty("guardianChannel");
+    });
+  });
+
+  describe("alignPaymentRecord", () => {
+    it("should rename paymentMethod to channel", () => {
+      const aligned = alignPaymentRecord({ id: "PAY-001", paymentMethod: "mtn_momo", status: "completed" });
+
+      expect(aligned).not.toHaveProperty("paymentMethod");
+      expect(aligned.channel).toBe("momo_mtn");
+    });
+  });
+
+  describe("checkLedgerIntegrity", () => {
+    const payments = [{ id: "PAY-001", receiptNumber: "RCP-001", studentId: "stu-001", journalEntryId: "JE-001" }];
+
+    it("should pass when balances match the journal", () => {
+      const report = checkLedgerIntegrity(
+        [student],
+        payments,
+        [
+          { id: "JE-001", studentId: "stu-001", amount: 350000 },
+          { id: "JE-002", studentId: "stu-001", amount: -50000 },
+        ]
+      );
+      expect(report.issues).toEqual([]);
+      expect(report.studentsChecked).toBe(1);
+    });
+
+    it("should report records that don't add up", () => {
+      const report = checkLedgerIntegrity(
+        [{ ...student, balance: 150000 }],
+        [...payments, { id: "PAY-002", receiptNumber: "RCP-002", studentId: "stu-404" }],
+        [{ id: "JE-001", studentId: "stu-001", amount: 250000 }]
+      );
+
+      expect(report.issues.map(issue => `${issue.kind}:${issue.recordId}`)).toEqual([
+        "paid_mismatch:stu-001",
+        "balance_mismatch:stu-001",
+        "missing_student:PAY-002",
+        "missing_journal_entry:PAY-002",
+      ]);
+      expect(report.issues[0]).toMatchObject({ expected: 250000, actual: 300000 });
+    });
+  });
+});
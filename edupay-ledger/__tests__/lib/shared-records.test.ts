@@ -0,0 +1,136 @@
+/**
+ * Shared Records Tests
+ */
+
+import {
+  readPayments,
+  readStudents,
+  schoolCollectionPath,
+  sharedStatusesFor,
+  toRecordStatus,
+  toTimestamp,
+} from "@/lib/db/shared-records";
+import type { DBPayment, DBStudent } from "@/lib/db";
+
+const payment: DBPayment = {
+  id: "PAY-001",
+  receiptNumber: "RCP-2026-D01-000001",
+  studentId: "STU-001",
+  studentName: "Amina Nakato",
+  amount: 300000,
+  channel: "momo_mtn",
+  transactionRef: "MTN-12345",
+  paymentDate: "2026-02-10T09:00:00.000Z",
+  termId: "T1-2026",
+  academicYear: "2026",
+  recordedBy: "bursar-01",
+  status: "completed",
+  createdAt: "2026-02-10T09:05:00.000Z",
+  updatedAt: "2026-02-10T09:05:00.000Z",
+  syncStatus: "synced",
+};
+
+const student: DBStudent = {
+  id: "STU-001",
+  studentId: "EDU-2026-001",
+  firstName: "Amina",
+  lastName: "Nakato",
+  gender: "female",
+  className: "S.3",
+  admissionDate: "2024-01-15T00:00:00.000Z",
+  guardianName: "Grace Nakato",
+  guardianPhone: "+256772123456",
+  guardianLanguage: "lg",
+  status: "active",
+  totalFees: 1000000,
+  amountPaid: 300000,
+  balance: 700000,
+  createdAt: "2024-01-15T00:00:00.000Z",
+  updatedAt: "2026-02-10T09:05:00.000Z",
+  syncStatus: "synced",
+};
+
+const tombstone = {
+  id: "PAY-002",
+  deleted: true,
+  deletedAt: "2026-02-11T10:00:00.000Z",
+  updatedAt: "2026-02-11T10:00:00.000Z",
+  versionVector: { "DEV-A": 2 },
+};
+
+describe("Shared Records", () => {
+  it("should build the path of a school's collection", () => {
+    expect(schoolCollectionPath("school-001", "payments")).toBe("schools/school-001/payments");
+  });
+
+  describe("toRecordStatus", () => {
+    it("should map stored statuses to record statuses", () => {
+      expect(toRecordStatus({ status: "completed" })).toBe("cleared");
+      expect(toRecordStatus({ status: "pending" })).toBe("pending");
+      expect(toRecordStatus({ status: "cancelled" })).toBe("reversed");
+      expect(toRecordStatus({ status: "refunded" })).toBe("reversed");
+      expect(toRecordStatus({ status: "bounced" })).toBe("failed");
+    });
+
+    it("should keep a cheque payment pending until the cheque clears", () => {
+      const cheque = { status: "deposited" } as DBPayment["cheque"];
+      expect(toRecordStatus({ status: "completed", cheque })).toBe("pending");
+      expect(toRecordStatus({ status: "completed", cheque: { ...cheque!, status: "cleared" } })).toBe("cleared");
+    });
+  });
+
+  it("should list the stored statuses a record status filter matches", () => {
+    expect(sharedStatusesFor("reversed")).toEqual(["cancelled", "refunded"]);
+    expect(sharedStatusesFor("cleared")).toEqual(["completed"]);
+  });
+
+  describe("toTimestamp", () => {
+    it("should read ISO strings and Firestore seconds", () => {
+      expect(toTimestamp("2026-02-10T09:00:00.000Z")?.toDate().toISOString()).toBe("2026-02-10T09:00:00.000Z");
+      expect(toTimestamp({ seconds: 1770714000 })?.toDate().getTime()).toBe(1770714000000);
+    });
+
+    it("should skip missing and invalid dates", () => {
+      expect(toTimestamp(undefined)).toBeUndefined();
+      expect(toTimestamp("not a date")).toBeUndefined();
+    });
+  });
+
+  describe("readPayments", () => {
+    it("should convert stored payments and leave out tombstones", () => {
+      const docs = [
+        { id: payment.id, data: () => payment },
+        { id: tombstone.id, data: () => tombstone },
+      ];
+      const payments = readPayments(docs, "school-001");
+
+      expect(payments).toHaveLength(1);
+      expect(payments[0]).toMatchObject({
+        id: "PAY-001",
+        schoolId: "school-001",
+        status: "cleared",
+        transactionRef: "MTN-12345",
+        stellarAnchored: false,
+      });
+      expect(payments[0].recordedAt.toDate().toISOString()).toBe("2026-02-10T09:00:00.000Z");
+    });
+
+    it("should accept records already read out of their snapshots", () => {
+      expect(readPayments([payment], "school-001")[0].amount).toBe(300000);
+    });
+  });
+
+  describe("readStudents", () => {
+    it("should gather the guardian fields and derive the payment status", () => {
+      const [converted] = readStudents([{ id: student.id, data: () => student }], "school-001");
+
+      expect(converted.guardian).toMatchObject({
+        name: "Grace Nakato",
+        phone: "+256772123456",
+        preferredLanguage: "lg",
+      });
+      expect(converted.paymentStatus).toBe("partial");
+      expect(converted.classId).toBe("S.3");
+    });
+  });
+});
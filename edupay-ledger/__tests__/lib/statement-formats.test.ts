@@ -0,0 +1,165 @@
+/**
+ * Bank Statement File Format Tests
+ */
+
+import {
+  detectStatementFormat,
+  parseCsv,
+  parseMt940Statement,
+  parseOfxStatement,
+  parseStatementDate,
+} from "@/lib/reconciliation/statement-formats";
+import { parseBankStatement } from "@/lib/services/bank-reconciliation.service";
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>UGX
+<BANKACCTFROM>
+<BANKID>DFCU
+<ACCTID>01234567890
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260203093000.000[+3:EAT]
+<TRNAMT>450000.00
+<FITID>FT26034XYZ
+<NAME>OKELLO PETER
+<MEMO>FEES EDU-2023-045-KC
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260204
+<TRNAMT>-15000.00
+<FITID>FT26035ABC
+<NAME>LEDGER FEE
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>2435000.00<DTASOF>20260204</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20260210</DTPOSTED><TRNAMT>300000</TRNAMT><FITID>A1</FITID><NAME>NAMBI ROSE</NAME></STMTTRN>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const MT940 = `:20:STMT260204
+:25:UG/9030012345678
+:28C:00034/001
+:60F:C260201UGX2000000,00
+:61:2602030203C450000,00NTRFFEES EDU-2023//FT26034XYZ
+:86:?20OKELLO PETER?21SCHOOL FEES
+TERM 1
+:61:260204D15000,00NCHGNONREF//CHG0204
+:86:LEDGER FEE
+:61:260205RC50000,00NTRFREV01
+:62F:C260205UGX2385000,00
+-`;
+
+describe("Bank Statement File Formats", () => {
+  describe("detectStatementFormat", () => {
+    it("should recognise OFX and MT940 by extension or content", () => {
+      expect(detectStatementFormat("statement.ofx", "")).toBe("ofx");
+      expect(detectStatementFormat("export.txt", OFX_XML)).toBe("ofx");
+      expect(detectStatementFormat("statement.sta", "")).toBe("mt940");
+      expect(detectStatementFormat("export.txt", MT940)).toBe("mt940");
+      expect(detectStatementFormat("statement.csv", "Date,Amount")).toBe("csv");
+    });
+  });
+
+  describe("parseStatementDate", () => {
+    it("should parse the formats banks print", () => {
+      expect(parseStatementDate("03/02/2026", "DD/MM/YYYY")).toEqual(new Date(2026, 1, 3));
+      expect(parseStatementDate("03.02.26", "DD.MM.YY")).toEqual(new Date(2026, 1, 3));
+      expect(parseStatementDate("03-FEB-2026", "DD-MMM-YYYY")).toEqual(new Date(2026, 1, 3));
+      expect(parseStatementDate("02/03/2026", "MM/DD/YYYY")).toEqual(new Date(2026, 1, 3));
+    });
+
+    it("should keep a time the format does not mention", () => {
+      expect(parseStatementDate("03/02/2026 10:15", "DD/MM/YYYY")).toEqual(new Date(2026, 1, 3, 10, 15));
+    });
+
+    it("should reject a date in another format", () => {
+      expect(() => parseStatementDate("2026-02-03", "DD/MM/YYYY")).toThrow("not a date");
+    });
+  });
+
+  describe("parseCsv", () => {
+    it("should keep quoted commas and start at the header row", () => {
+      const text = 'POST BANK UGANDA\nAccount: 123\nDate,Narration,Amount\n03/02/2026,"OKELLO, PETER","450,000"\n';
+      const { columns, rows } = parseCsv(text, 3);
+      expect(columns).toEqual(["Date", "Narration", "Amount"]);
+      expect(rows).toEqual([{ Date: "03/02/2026", Narration: "OKELLO, PETER", Amount: "450,000" }]);
+    });
+
+    it("should read semicolon separated exports", () => {
+      expect(parseCsv("Date;Amount\n03/02/2026;450000").rows).toEqual([{ Date: "03/02/2026", Amount: "450000" }]);
+    });
+  });
+
+  describe("parseOfxStatement", () => {
+    it("should read OFX 1.x SGML with unclosed tags", () => {
+      const statement = parseOfxStatement(OFX_SGML);
+      expect(statement.accountNumber).toBe("01234567890");
+      expect(statement.currency).toBe("UGX");
+      expect(statement.closingBalance).toBe(2435000);
+      expect(statement.transactions.map(t => [t.type, t.amount, t.reference, t.description])).toEqual([
+        ["credit", 450000, "FT26034XYZ", "OKELLO PETER - FEES EDU-2023-045-KC"],
+        ["debit", 15000, "FT26035ABC", "LEDGER FEE"],
+      ]);
+      expect(statement.transactions[0].transactionDate).toEqual(new Date(2026, 1, 3, 9, 30));
+    });
+
+    it("should read OFX 2.x XML", () => {
+      const [tx] = parseOfxStatement(OFX_XML).transactions;
+      expect(tx).toMatchObject({ type: "credit", amount: 300000, description: "NAMBI ROSE" });
+    });
+  });
+
+  describe("parseMt940Statement", () => {
+    it("should read statement lines with their narratives and running balance", () => {
+      const statement = parseMt940Statement(MT940);
+      expect(statement.accountNumber).toBe("UG/9030012345678");
+      expect(statement.openingBalance).toBe(2000000);
+      expect(statement.closingBalance).toBe(2385000);
+      expect(statement.transactions.map(t => [t.type, t.amount, t.reference, t.balance])).toEqual([
+        ["credit", 450000, "FEES EDU-2023", 2450000],
+        ["debit", 15000, "CHG0204", 2435000],
+        ["debit", 50000, "REV01", 2385000],
+      ]);
+      expect(statement.transactions[0].description).toBe("OKELLO PETER SCHOOL FEES TERM 1");
+      expect(statement.transactions[0].valueDate).toEqual(new Date(2026, 1, 3));
+    });
+  });
+
+  describe("parseBankStatement with separate credit and debit columns", () => {
+    it("should take the direction from the column the amount is in", () => {
+      const transactions = parseBankStatement(
+        [
+          { Date: "03/02/2026", Details: "OKELLO PETER", "Money In": "450,000", "Money Out": "" },
+          { Date: "04/02/2026", Details: "LEDGER FEE", "Money In": "", "Money Out": "15,000" },
+          { Date: "05/02/2026", Details: "BALANCE B/F", "Money In": "", "Money Out": "" },
+        ],
+        {
+          bankName: "Post Bank Uganda",
+          dateFormat: "DD/MM/YYYY",
+          dateColumn: "Date",
+          referenceColumn: "",
+          descriptionColumn: "Details",
+          amountColumn: "",
+          creditColumn: "Money In",
+          debitColumn: "Money Out",
+          headerRow: 1,
+        }
+      );
+      expect(transactions.map(t => [t.type, t.amount])).toEqual([["credit", 450000], ["debit", 15000]]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Statement Importer Tests
+ */
+
+import {
+  detectStatementImporter,
+  extractStudentReference,
+  parseMobileMoneyStatement,
+} from "@/lib/services/bank-reconciliation.service";
+import {
+  calculateMatchConfidence,
+  UGANDA_MOBILE_MONEY_CONFIGS,
+} from "@/types/bank-reconciliation";
+
+const mtnRows = [
+  {
+    Id: "8123456789",
+    Date: "2026-02-03 09:15:42",
+    From: "0772 123 456",
+    "From Name": "MUKASA JOHN",
+    Amount: "500,000",
+    "Note/Message": "fees edu-2023-045-kc",
+    Status: "Successful",
+    Balance: "2,500,000",
+  },
+  {
+    Id: "8123456790",
+    Date: "2026-02-03 10:01:00",
+    From: "256701987654",
+    "From Name": "NAMBI SARAH",
+    Amount: "350000",
+    "Note/Message": "term 1",
+    Status: "Failed",
+    Balance: "2,500,000",
+  },
+];
+
+const airtelRows = [
+  {
+    "Transaction ID": "MP260203.1015.A12345",
+    "Transaction Date": "03-02-2026 10:15",
+    "Sender MSISDN": "752000111",
+    "Sender Name": "OKELLO PETER",
+    "Transaction Amount": "250000",
+    Reference: "EDU 2024 0012 S2",
+    "Transaction Status": "Success",
+    "Dr/Cr": "CR",
+    "Post Balance": "900000",
+  },
+  {
+    "Transaction ID": "MP260203.1100.B99999",
+    "Transaction Date": "03-02-2026 11:00",
+    "Sender MSISDN": "",
+    "Sender Name": "",
+    "Transaction Amount": "1500",
+    Reference: "Withdrawal charge",
+    "Transaction Status": "Success",
+    "Dr/Cr": "DR",
+    "Post Balance": "898500",
+  },
+];
+
+describe("Statement Importers", () => {
+  describe("extractStudentReference", () => {
+    it("should find a student ID typed in any case or spacing", () => {
+      expect(extractStudentReference("fees edu-2023-045-kc")).toBe("EDU-2023-045-KC");
+      expect(extractStudentReference("EDU 2024 0012 S2 balance")).toBe("EDU-2024-0012-S2");
+    });
+
+    it("should return undefined when the message has no student ID", () => {
+      expect(extractStudentReference("school fees term 1")).toBeUndefined();
+    });
+  });
+
+  describe("parseMobileMoneyStatement", () => {
+    it("should read an MTN MoMo statement and skip failed transfers", () => {
+      const [tx, ...rest] = parseMobileMoneyStatement(mtnRows, UGANDA_MOBILE_MONEY_CONFIGS.mtnMomo);
+
+      expect(rest).toHaveLength(0);
+      expect(tx.source).toBe("mtn_momo");
+      expect(tx.reference).toBe("8123456789");
+      expect(tx.payerMsisdn).toBe("+256772123456");
+      expect(tx.payerName).toBe("MUKASA JOHN");
+      expect(tx.studentReference).toBe("EDU-2023-045-KC");
+      expect(tx.amount).toBe(500000);
+      expect(tx.type).toBe("credit");
+      expect(tx.transactionDate).toEqual(new Date(2026, 1, 3, 9, 15, 42));
+    });
+
+    it("should read an Airtel Money statement with credit and debit rows", () => {
+      const [credit, debit] = parseMobileMoneyStatement(airtelRows, UGANDA_MOBILE_MONEY_CONFIGS.airtelMoney);
+
+      expect(credit.source).toBe("airtel_money");
+      expect(credit.payerMsisdn).toBe("+256752000111");
+      expect(credit.studentReference).toBe("EDU-2024-0012-S2");
+      expect(credit.transactionDate).toEqual(new Date(2026, 1, 3, 10, 15));
+      expect(debit.type).toBe("debit");
+      expect(debit).not.toHaveProperty("payerMsisdn");
+    });
+  });
+
+  describe("detectStatementImporter", () => {
+    it("should recognise mobile money statements from their columns", () => {
+      expect(detectStatementImporter(Object.keys(mtnRows[0]))?.source).toBe("mtn_momo");
+      expect(detectStatementImporter(Object.keys(airtelRows[0]))?.source).toBe("airtel_money");
+    });
+
+    it("should still recognise bank statements", () => {
+      const importer = detectStatementImporter(["Date", "Reference", "Particulars", "Amount", "Balance"]);
+      expect(importer?.source).toBe("bank");
+      expect(importer?.label).toBe("DFCU Bank");
+    });
+
+    it("should return undefined for an unknown layout", () => {
+      expect(detectStatementImporter(["When", "Who", "How Much"])).toBeUndefined();
+    });
+  });
+
+  describe("calculateMatchConfidence", () => {
+    const [tx] = parseMobileMoneyStatement(mtnRows, UGANDA_MOBILE_MONEY_CONFIGS.mtnMomo);
+    const payment = { amount: 400000, date: new Date(2026, 0, 20) };
+
+    it("should score a payment higher when the payer is the student's guardian", () => {
+      const base = calculateMatchConfidence(tx, payment);
+      const withGuardian = calculateMatchConfidence(tx, { ...payment, guardianPhones: ["+256772123456"] });
+      expect(withGuardian - base).toBe(20);
+    });
+
+    it("should score a payment higher when the message quotes the student ID", () => {
+      const base = calculateMatchConfidence(tx, payment);
+      const withStudent = calculateMatchConfidence(tx, { ...payment, studentNumber: "EDU-2023-045-KC" });
+      expect(withStudent - base).toBe(25);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Student Credit Tests
+ */
+
+import {
+  allocateCarryoverCredit,
+  splitBroughtForward,
+  spreadCreditOverCategories,
+  validatePaymentAmount,
+} from "@/lib/balances/credit";
+import type { InstallmentProgress } from "@/types/student";
+import type { AcademicPeriod, TermBalanceCarryover } from "@/types/term-balance";
+
+const installment = (overrides: Partial<InstallmentProgress> = {}): InstallmentProgress => ({
+  installmentId: "inst-1",
+  installmentOrder: 1,
+  installmentName: "First Installment",
+  amountDue: 500000,
+  amountPaid: 0,
+  status: "not_started",
+  deadline: {} as InstallmentProgress["deadline"],
+  isUnlocked: true,
+  ...overrides,
+});
+
+const term2: AcademicPeriod = { year: 2026, term: "term_2" };
+
+const carryover = (overrides: Partial<TermBalanceCarryover> = {}): TermBalanceCarryover => ({
+  id: "CO-1",
+  schoolId: "school-001",
+  studentId: "stu-001",
+  studentName: "Amina Nakato",
+  className: "P.5",
+  fromPeriod: { year: 2026, term: "term_1" },
+  fromTermFees: 1000000,
+  fromTermPaid: 1200000,
+  fromTermBalance: -200000,
+  toPeriod: term2,
+  carryoverAmount: 200000,
+  carryoverType: "credit",
+  adjustments: [],
+  adjustedAmount: 200000,
+  status: "pending",
+  createdAt: new Date(2026, 3, 1),
+  createdBy: "bursar",
+  updatedAt: new Date(2026, 3, 1),
+  ...overrides,
+});
+
+describe("Student Credit", () => {
+  describe("validatePaymentAmount", () => {
+    it("should reject payments of zero or less", () => {
+      const result = validatePaymentAmount({ balance: 500000, installmentProgress: [installment()] }, 0);
+      expect(result).toMatchObject({ isValid: false, creditAmount: 0 });
+    });
+
+    it("should accept a payment within the balance without credit", () => {
+      const result = validatePaymentAmount({ balance: 500000, installmentProgress: [installment()] }, 300000);
+      expect(result).toMatchObject({ isValid: true, creditAmount: 0 });
+    });
+
+    it("should hold the amount beyond the balance as credit", () => {
+      const result = validatePaymentAmount({ balance: 500000, installmentProgress: [installment()] }, 650000);
+      expect(result).toMatchObject({ isValid: true, creditAmount: 150000 });
+      expect(result.message).toContain("credit");
+    });
+
+    it("should hold the whole payment as credit when nothing is owed", () => {
+      expect(validatePaymentAmount({ balance: 0, installmentProgress: [] }, 100000).creditAmount).toBe(100000);
+      expect(validatePaymentAmount({ balance: -50000, installmentProgress: [] }, 100000).creditAmount).toBe(100000);
+    });
+
+    it("should refuse payments while the next installment is locked", () => {
+      const locked = [
+        installment({ status: "completed", amountPaid: 500000 }),
+        installment({ installmentId: "inst-2", installmentName: "Second Installment", isUnlocked: false }),
+      ];
+      const result = validatePaymentAmount({ balance: 500000, installmentProgress: locked }, 200000);
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("Second Installment");
+    });
+  });
+
+  describe("allocateCarryoverCredit", () => {
+    it("should apply credit up to the term's fees", () => {
+      expect(allocateCarryoverCredit([carryover()], term2, 1000000)).toEqual({
+        applied: 200000,
+        uses: [{ carryoverId: "CO-1", amount: 200000, creditApplied: 200000 }],
+      });
+      expect(allocateCarryoverCredit([carryover()], term2, 150000).applied).toBe(150000);
+    });
+
+    it("should use the oldest credit first and only what is left of it", () => {
+      const older = carryover({ id: "CO-0", fromPeriod: { year: 2025, term: "term_3" }, adjustedAmount: 100000, creditApplied: 60000 });
+      const result = allocateCarryoverCredit([carryover(), older], term2, 100000);
+
+      expect(result.uses).toEqual([
+        { carryoverId: "CO-0", amount: 40000, creditApplied: 100000 },
+        { carryoverId: "CO-1", amount: 60000, creditApplied: 60000 },
+      ]);
+    });
+
+    it("should leave debits, waived credit and credit for later terms alone", () => {
+      const result = allocateCarryoverCredit([
+        carryover({ id: "debit", carryoverType: "debit" }),
+        carryover({ id: "waived", status: "waived" }),
+        carryover({ id: "later", toPeriod: { year: 2026, term: "term_3" } }),
+      ], term2, 1000000);
+      expect(result).toEqual({ applied: 0, uses: [] });
+    });
+
+    it("should allocate again the credit a term already took when its fees are reassigned", () => {
+      const used = carryover({ creditApplied: 200000, creditAppliedByPeriod: { "2026_term_2": 200000 }, status: "applied" });
+      expect(allocateCarryoverCredit([used], term2, 1000000)).toEqual({
+        applied: 200000,
+        uses: [{ carryoverId: "CO-1", amount: 200000, creditApplied: 200000 }],
+      });
+    });
+
+    it("should give back credit a term no longer needs and keep what other terms used", () => {
+      const used = carryover({
+        adjustedAmount: 300000,
+        creditApplied: 300000,
+        creditAppliedByPeriod: { "2026_term_1": 100000, "2026_term_2": 200000 },
+        status: "applied",
+      });
+      expect(allocateCarryoverCredit([used], term2, 150000).uses).toEqual([
+        { carryoverId: "CO-1", amount: 150000, creditApplied: 250000 },
+      ]);
+      expect(allocateCarryoverCredit([used], term2, 0).uses).toEqual([
+        { carryoverId: "CO-1", amount: 0, creditApplied: 100000 },
+      ]);
+    });
+  });
+
+  describe("spreadCreditOverCategories", () => {
+    it("should pay categories in order until the credit runs out", () => {
+      expect(spreadCreditOverCategories([600000, 250000, 100000], 700000)).toEqual([600000, 100000, 0]);
+    });
+
+    it("should never pay more than a category's amount", () => {
+      expect(spreadCreditOverCategories([100000, 50000], 500000)).toEqual([100000, 50000]);
+      expect(spreadCreditOverCategories([100000], 0)).toEqual([0]);
+    });
+  });
+
+  describe("splitBroughtForward", () => {
+    it("should count carried credit once", () => {
+      const split = splitBroughtForward(-200000, 200000);
+      expect(split).toEqual({ previousBalance: 0, creditBroughtForward: 200000 });
+
+      // The statement's balance: fees plus arrears, less credit and payments
+      const totalFees = 1000000;
+      const currentBalance = totalFees + split.previousBalance - split.creditBroughtForward - 300000;
+      expect(currentBalance).toBe(500000);
+    });
+
+    it("should show arrears carried in as the previous balance", () => {
+      expect(splitBroughtForward(350000, 0)).toEqual({ previousBalance: 350000, creditBroughtForward: 0 });
+    });
+
+    it("should take the credit from the carried balance without carryover records", () => {
+      expect(splitBroughtForward(-80000)).toEqual({ previousBalance: 0, creditBroughtForward: 80000 });
+      expect(splitBroughtForward(0)).toEqual({ previousBalance: 0, creditBroughtForward: 0 });
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Two-Device Sync Tests
+ * Two devices edit the same records offline and sync through one server,
+ * applying downloads the way the sync engine does
+ */
+
+import { planRemoteApply } from "@/lib/sync/apply";
+import { buildTombstone, isTombstone, shouldApplyRemoteDelete, Tombstone } from "@/lib/sync/tombstones";
+import { incrementVector, VersionVector } from "@/lib/sync/version-vector";
+
+interface StudentRecord {
+  id: string;
+  firstName: string;
+  guardianPhone: string;
+  balance: number;
+  syncStatus: "synced" | "pending" | "conflict";
+  versionVector?: VersionVector;
+}
+
+type ServerRecord = Omit<StudentRecord, "syncStatus"> | Tombstone;
+
+const createServer = () => new Map<string, ServerRecord>();
+
+function createDevice(deviceId: string, server: Map<string, ServerRecord>) {
+  const records = new Map<string, StudentRecord>();
+  const bases = new Map<string, ServerRecord>();
+  const queue: { operation: "update" | "delete"; id: string; data: ServerRecord }[] = [];
+  const conflicts: string[] = [];
+
+  const strip = ({ syncStatus, ...record }: StudentRecord): ServerRecord => record;
+
+  // dbHelpers.addToSyncQueue: an update is replayed from the current record, so one is enough
+  const enqueueUpdate = (id: string, data: ServerRecord) => {
+    if (!queue.some(op => op.id === id && op.operation === "update")) queue.push({ operation: "update", id, data });
+  };
+
+  return {
+    records,
+    queue,
+    conflicts,
+
+    // dbHelpers.saveLocalChange
+    edit(id: string, changes: Partial<StudentRecord>) {
+      const current = records.get(id)!;
+      const stamped = { ...current, ...changes, syncStatus: "pending" as const, versionVector: incrementVector(current.versionVector, deviceId) };
+      records.set(id, stamped);
+      enqueueUpdate(id, strip(stamped));
+    },
+
+    delete(id: string) {
+      const current = records.get(id)!;
+      const tombstone = buildTombstone({ ...current, versionVector: incrementVector(current.versionVector, deviceId) }, "2026-02-03T08:00:00.000Z");
+      records.delete(id);
+      bases.set(id, tombstone);
+      queue.splice(0, queue.length, ...queue.filter(op => op.id !== id));
+      queue.push({ operation: "delete", id, data: tombstone });
+    },
+
+    // SyncService.sync: download, then replay the queue
+    sync() {
+      for (const remote of Array.from(server.values())) {
+        const local = records.get(remote.id);
+        if (isTombstone(remote)) {
+          if (local && shouldApplyRemoteDelete(local, remote)) records.delete(remote.id);
+          if (!local || shouldApplyRemoteDelete(local, remote)) bases.set(remote.id, remote);
+          continue;
+        }
+
+        const plan = planRemoteApply<StudentRecord>(local, { ...remote, syncStatus: "synced" }, bases.get(remote.id) as Partial<StudentRecord>, deviceId);
+        switch (plan.action) {
+          case "overwrite":
+            records.set(remote.id, { ...remote, syncStatus: "synced" });
+            bases.set(remote.id, remote);
+            break;
+          case "redelete":
+            bases.set(remote.id, plan.tombstone);
+            queue.push({ operation: "delete", id: remote.id, data: plan.tombstone });
+            break;
+          case "merge": {
+            const held = plan.conflicts.length > 0;
+            conflicts.push(...plan.conflicts.map(conflict => `${remote.id}.${conflict.field}`));
+            records.set(remote.id, { ...plan.merged, syncStatus: held ? "conflict" : "pending" });
+            bases.set(remote.id, remote);
+            enqueueUpdate(remote.id, strip(plan.merged));
+            break;
+          }
+        }
+      }
+
+      // Records held for review stay queued; the rest upload in order
+      const held = queue.filter(op => records.get(op.id)?.syncStatus === "conflict");
+      for (const op of queue.filter(op => !held.includes(op))) {
+        const local = records.get(op.id);
+        const uploaded = op.operation === "delete" || !local ? op.data : strip(local);
+        server.set(op.id, uploaded);
+        if (local) records.set(op.id, { ...local, syncStatus: "synced" });
+        bases.set(op.id, uploaded);
+      }
+      queue.splice(0, queue.length, ...held);
+    },
+  };
+}
+
+const student: ServerRecord = {
+  id: "stu-001",
+  firstName: "Jane",
+  guardianPhone: "0772123456",
+  balance: 500000,
+  versionVector: { "device-x": 1 },
+};
+
+// Both devices start from the same synced copy
+function setup() {
+  const server = createServer();
+  server.set(student.id, student);
+  const office = createDevice("device-a", server);
+  const gate = createDevice("device-b", server);
+  office.sync();
+  gate.sync();
+  return { server, office, gate };
+}
+
+describe("Two-Device Sync", () => {
+  it("should keep both devices' edits to different fields", () => {
+    const { server, office, gate } = setup();
+
+    office.edit("stu-001", { guardianPhone: "0701234567" });
+    gate.edit("stu-001", { balance: 300000 });
+
+    office.sync();
+    gate.sync(); // Merges the office's phone number with its own balance
+    office.sync();
+
+    const expected = { guardianPhone: "0701234567", balance: 300000, syncStatus: "synced" };
+    expect(office.records.get("stu-001")).toMatchObject(expected);
+    expect(gate.records.get("stu-001")).toMatchObject(expected);
+    expect(server.get("stu-001")).toMatchObject({ guardianPhone: "0701234567", balance: 300000 });
+    expect(office.records.get("stu-001")!.versionVector).toEqual(gate.records.get("stu-001")!.versionVector);
+  });
+
+  it("should hold a record with the same field edited on both devices for review", () => {
+    const { server, office, gate } = setup();
+
+    office.edit("stu-001", { guardianPhone: "0701234567" });
+    gate.edit("stu-001", { guardianPhone: "0759876543" });
+
+    office.sync();
+    gate.sync();
+
+    expect(gate.conflicts).toEqual(["stu-001.guardianPhone"]);
+    expect(gate.records.get("stu-001")).toMatchObject({ guardianPhone: "0759876543", syncStatus: "conflict" });
+    // Nothing goes up until the conflict is reviewed
+    expect(gate.queue).toHaveLength(1);
+    expect(server.get("stu-001")).toMatchObject({ guardianPhone: "0701234567" });
+  });
+
+  it("should not let a stale download overwrite a newer local edit", () => {
+    const { office } = setup();
+
+    office.edit("stu-001", { balance: 250000 });
+    const plan = planRemoteApply(office.records.get("stu-001"), { ...student, syncStatus: "synced" as const }, student, "device-a");
+
+    expect(plan).toEqual({ action: "skip" });
+  });
+
+  it("should take the other device's edit when there are no local changes", () => {
+    const { office, gate } = setup();
+
+    office.edit("stu-001", { firstName: "Janet" });
+    office.sync();
+    gate.sync();
+
+    expect(gate.records.get("stu-001")).toMatchObject({ firstName: "Janet", syncStatus: "synced" });
+    expect(gate.queue).toEqual([]);
+  });
+
+  it("should delete the record on both devices when one deletes and the other edits", () => {
+    const { server, office, gate } = setup();
+
+    office.delete("stu-001");
+    gate.edit("stu-001", { balance: 300000 });
+
+    gate.sync(); // Uploads its edit first
+    office.sync(); // Refuses the edit and sends the delete again
+    gate.sync();
+
+    expect(office.records.has("stu-001")).toBe(false);
+    expect(gate.records.has("stu-001")).toBe(false);
+    expect(isTombstone(server.get("stu-001"))).toBe(true);
+  });
+});
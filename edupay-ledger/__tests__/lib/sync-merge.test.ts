@@ -0,0 +1,113 @@
+/**
+ * Sync Three-Way Merge Tests
+ */
+
+import {
+  threeWayMerge,
+  valuesEqual,
+  formatFieldLabel,
+} from "@/lib/sync/merge";
+
+const base = {
+  id: "stu-001",
+  firstName: "Jane",
+  guardianPhone: "0772123456",
+  balance: 500000,
+  otherFees: [{ name: "Lunch", amount: 50000 }],
+  updatedAt: "2026-02-01T08:00:00.000Z",
+  syncStatus: "synced",
+};
+
+describe("Sync Merge", () => {
+  describe("valuesEqual", () => {
+    it("should compare primitives", () => {
+      expect(valuesEqual(1, 1)).toBe(true);
+      expect(valuesEqual("a", "b")).toBe(false);
+      expect(valuesEqual(null, undefined)).toBe(false);
+    });
+
+    it("should compare arrays and objects structurally", () => {
+      expect(valuesEqual([{ a: 1 }], [{ a: 1 }])).toBe(true);
+      expect(valuesEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+      expect(valuesEqual({ a: 1 }, { a: 2 })).toBe(false);
+      expect(valuesEqual([1, 2], [1, 2, 3])).toBe(false);
+    });
+  });
+
+  describe("threeWayMerge", () => {
+    it("should keep changes made on different fields on each side", () => {
+      const local = { ...base, guardianPhone: "0701234567", syncStatus: "pending" };
+      const remote = { ...base, balance: 300000, updatedAt: "2026-02-03T08:00:00.000Z" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.merged.guardianPhone).toBe("0701234567");
+      expect(result.merged.balance).toBe(300000);
+      expect(result.localChanges).toEqual(["guardianPhone"]);
+      expect(result.remoteChanges).toEqual(["balance"]);
+    });
+
+    it("should report a conflict when both sides change the same field differently", () => {
+      const local = { ...base, guardianPhone: "0701234567" };
+      const remote = { ...base, guardianPhone: "0782123456" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toEqual([
+        {
+          field: "guardianPhone",
+          baseValue: "0772123456",
+          localValue: "0701234567",
+          remoteValue: "0782123456",
+        },
+      ]);
+      // Local value is held until the conflict is reviewed
+      expect(result.merged.guardianPhone).toBe("0701234567");
+    });
+
+    it("should not report a conflict when both sides make the same change", () => {
+      const local = { ...base, balance: 250000 };
+      const remote = { ...base, balance: 250000 };
+
+      expect(threeWayMerge(base, local, remote).conflicts).toHaveLength(0);
+    });
+
+    it("should compare nested values structurally", () => {
+      const local = { ...base, otherFees: [{ name: "Lunch", amount: 50000 }] };
+      const remote = { ...base, otherFees: [{ name: "Lunch", amount: 60000 }] };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.merged.otherFees).toEqual([{ name: "Lunch", amount: 60000 }]);
+    });
+
+    it("should ignore sync metadata and keep the latest updatedAt", () => {
+      const local = { ...base, syncStatus: "pending", updatedAt: "2026-02-02T08:00:00.000Z" };
+      const remote = { ...base, syncStatus: "synced", updatedAt: "2026-02-05T08:00:00.000Z" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.merged.syncStatus).toBe("pending");
+      expect(result.merged.updatedAt).toBe("2026-02-05T08:00:00.000Z");
+    });
+
+    it("should treat every differing field as a conflict without a base", () => {
+      const local = { ...base, firstName: "Janet" };
+      const remote = { ...base, balance: 100000 };
+
+      const result = threeWayMerge(undefined, local, remote);
+
+      expect(result.conflicts.map((c) => c.field)).toEqual(["firstName", "balance"]);
+    });
+  });
+
+  describe("formatFieldLabel", () => {
+    it("should turn camelCase field names into labels", () => {
+      expect(formatFieldLabel("guardianPhone")).toBe("Guardian Phone");
+      expect(formatFieldLabel("balance")).toBe("Balance");
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Download Paging Tests
+ */
+
+import {
+  compareCursors,
+  cursorAfterPage,
+  DownloadCursor,
+  pageThrough,
+  ServerTime,
+} from "@/lib/sync/paging";
+
+interface ServerDoc {
+  id: string;
+  updatedAt: string; // The uploading device's clock
+  syncedAt: ServerTime; // The server's clock when the upload arrived
+}
+
+// A school collection that stamps every write with the server's time and
+// answers orderBy('syncedAt'), orderBy('id'), startAfter(...), limit(...)
+function createServer() {
+  let clock = 1000;
+  const docs = new Map<string, ServerDoc>();
+
+  return {
+    // Writes in one batch share a server time
+    commit(records: { id: string; updatedAt: string }[]) {
+      clock += 1;
+      records.forEach(record => docs.set(record.id, { ...record, syncedAt: { seconds: clock, nanoseconds: 0 } }));
+    },
+    async fetchPage(after: DownloadCursor | null, pageSize: number): Promise<ServerDoc[]> {
+      return Array.from(docs.values())
+        .map(doc => ({ doc, cursor: { syncedAt: doc.syncedAt, id: doc.id } }))
+        .sort((a, b) => compareCursors(a.cursor, b.cursor))
+        .filter(({ cursor }) => !after || compareCursors(cursor, after) > 0)
+        .slice(0, pageSize)
+        .map(({ doc }) => doc);
+    },
+  };
+}
+
+// A device that downloads from its checkpoint and keeps what it saw
+function createDevice(server: ReturnType<typeof createServer>, pageSize = 2) {
+  const seen: string[] = [];
+  let checkpoint: DownloadCursor | null = null;
+
+  return {
+    seen,
+    async download() {
+      await pageThrough(checkpoint, pageSize, (after, size) => server.fetchPage(after, size), async (docs, cursor) => {
+        seen.push(...docs.map(doc => doc.id));
+        checkpoint = cursor;
+      });
+    },
+  };
+}
+
+describe("Download Paging", () => {
+  it("should download every document across pages", async () => {
+    const server = createServer();
+    server.commit([{ id: "S1", updatedAt: "2026-02-01T08:00:00.000Z" }]);
+    server.commit([{ id: "S2", updatedAt: "2026-02-01T09:00:00.000Z" }]);
+    server.commit([{ id: "S3", updatedAt: "2026-02-01T10:00:00.000Z" }]);
+
+    const device = createDevice(server);
+    await device.download();
+
+    expect(device.seen).toEqual(["S1", "S2", "S3"]);
+  });
+
+  it("should download a record uploaded late by a device that was offline", async () => {
+    const server = createServer();
+    server.commit([{ id: "S1", updatedAt: "2026-02-03T08:00:00.000Z" }]);
+
+    const office = createDevice(server);
+    await office.download();
+
+    // Recorded offline on Monday, uploaded on Wednesday after the office synced
+    server.commit([{ id: "P-OFFLINE", updatedAt: "2026-02-01T10:00:00.000Z" }]);
+    server.commit([{ id: "S2", updatedAt: "2026-02-03T09:00:00.000Z" }]);
+    await office.download();
+
+    expect(office.seen).toEqual(["S1", "P-OFFLINE", "S2"]);
+  });
+
+  it("should not skip documents that share a server time across a page boundary", async () => {
+    const server = createServer();
+    server.commit(["A", "B", "C", "D", "E"].map(id => ({ id, updatedAt: "2026-02-01T08:00:00.000Z" })));
+
+    const device = createDevice(server);
+    await device.download();
+
+    expect(device.seen).toEqual(["A", "B", "C", "D", "E"]);
+  });
+
+  it("should resume after the last page handled when a download fails", async () => {
+    const server = createServer();
+    ["S1", "S2", "S3", "S4"].forEach(id => server.commit([{ id, updatedAt: "2026-02-01T08:00:00.000Z" }]));
+
+    const seen: string[] = [];
+    let checkpoint: DownloadCursor | null = null;
+    let calls = 0;
+    const failSecondPage = (after: DownloadCursor | null, size: number) => {
+      calls += 1;
+      return calls === 2 ? Promise.reject(new Error("network")) : server.fetchPage(after, size);
+    };
+    const handle = async (docs: ServerDoc[], cursor: DownloadCursor | null) => {
+      seen.push(...docs.map(doc => doc.id));
+      checkpoint = cursor;
+    };
+
+    await expect(pageThrough(checkpoint, 2, failSecondPage, handle)).rejects.toThrow("network");
+    expect(seen).toEqual(["S1", "S2"]);
+
+    await pageThrough(checkpoint, 2, failSecondPage, handle);
+    expect(seen).toEqual(["S1", "S2", "S3", "S4"]);
+  });
+
+  it("should download nothing more once caught up", async () => {
+    const server = createServer();
+    server.commit([{ id: "S1", updatedAt: "2026-02-01T08:00:00.000Z" }]);
+
+    const device = createDevice(server);
+    await device.download();
+    await device.download();
+
+    expect(device.seen).toEqual(["S1"]);
+  });
+
+  describe("cursorAfterPage", () => {
+    const start = { syncedAt: { seconds: 5, nanoseconds: 0 }, id: "A" };
+
+    it("should move to the last stamped document", () => {
+      const docs = [
+        { id: "B", syncedAt: { seconds: 6, nanoseconds: 10 } },
+        { id: "C", syncedAt: null },
+      ];
+      expect(cursorAfterPage(start, docs)).toEqual({ syncedAt: { seconds: 6, nanoseconds: 10 }, id: "B" });
+    });
+
+    it("should stay put on an empty or unstamped page", () => {
+      expect(cursorAfterPage(start, [])).toBe(start);
+      expect(cursorAfterPage(null, [{ id: "B" }])).toBeNull();
+    });
+  });
+});
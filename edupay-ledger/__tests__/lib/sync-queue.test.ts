@@ -0,0 +1,110 @@
+/**
+ * Sync Queue Replay Tests
+ */
+
+import type { DBSyncQueue } from "@/lib/db";
+import { getRetryDelayMs, replayInOrder, shouldDeadLetter, SYNC_MAX_ATTEMPTS } from "@/lib/sync/queue";
+
+const now = new Date("2026-02-03T08:00:00.000Z");
+let sequence = 0;
+
+const op = (recordId: string, operation: DBSyncQueue["operation"], overrides: Partial<DBSyncQueue> = {}): DBSyncQueue => {
+  sequence += 1;
+  return {
+    id: `op-${sequence}`,
+    sequence,
+    idempotencyKey: `device-a:${sequence}`,
+    operation,
+    table: "students",
+    recordId,
+    data: { id: recordId },
+    status: "pending",
+    attempts: 0,
+    createdAt: now.toISOString(),
+    ...overrides,
+  };
+};
+
+// Replays against a server that keeps every operation it accepted, failing the ones listed
+function createServer(failing: string[] = []) {
+  const applied: string[] = [];
+  return {
+    applied,
+    replay: async (entry: DBSyncQueue): Promise<"replayed" | "held"> => {
+      if (failing.includes(entry.id)) throw new Error(`rejected ${entry.id}`);
+      applied.push(`${entry.operation} ${entry.recordId}`);
+      return "replayed";
+    },
+  };
+}
+
+describe("Sync Queue", () => {
+  describe("replayInOrder", () => {
+    it("should replay a record's edits and its delete in the order they were made", async () => {
+      const entries = [op("stu-1", "create"), op("stu-1", "update"), op("stu-1", "delete")];
+      const server = createServer();
+
+      const outcome = await replayInOrder(entries, [], now, server.replay);
+
+      expect(server.applied).toEqual(["create stu-1", "update stu-1", "delete stu-1"]);
+      expect(outcome.replayed).toEqual(entries);
+      expect(outcome.failed).toEqual([]);
+    });
+
+    it("should hold a record's later operations after one fails, without holding other records", async () => {
+      const update = op("stu-1", "update");
+      const entries = [update, op("stu-2", "update"), op("stu-1", "delete")];
+      const server = createServer([update.id]);
+
+      const outcome = await replayInOrder(entries, [], now, server.replay);
+
+      // The delete must not overtake the failed update
+      expect(server.applied).toEqual(["update stu-2"]);
+      expect(outcome.failed).toEqual([{ entry: update, error: new Error(`rejected ${update.id}`) }]);
+    });
+
+    it("should hold a record's operations while an earlier one is dead-lettered", async () => {
+      const dead = op("stu-1", "update", { status: "dead", attempts: SYNC_MAX_ATTEMPTS });
+      const server = createServer();
+
+      await replayInOrder([op("stu-1", "delete"), op("stu-2", "delete")], [dead], now, server.replay);
+
+      expect(server.applied).toEqual(["delete stu-2"]);
+    });
+
+    it("should wait out the backoff of a failed operation and what follows it", async () => {
+      const justFailed = op("stu-1", "update", { attempts: 1, lastAttempt: now.toISOString() });
+      const dueAgain = op("stu-2", "update", {
+        attempts: 1,
+        lastAttempt: new Date(now.getTime() - getRetryDelayMs(1)).toISOString(),
+      });
+      const server = createServer();
+
+      await replayInOrder([justFailed, dueAgain, op("stu-1", "delete")], [], now, server.replay);
+
+      expect(server.applied).toEqual(["update stu-2"]);
+    });
+
+    it("should hold a record's later operations when replay holds one back", async () => {
+      const entries = [op("stu-1", "update"), op("stu-1", "update"), op("stu-2", "update")];
+      const applied: string[] = [];
+
+      const outcome = await replayInOrder(entries, [], now, async entry => {
+        if (entry.recordId === "stu-1") return "held"; // e.g. a field conflict awaiting review
+        applied.push(entry.recordId);
+        return "replayed";
+      });
+
+      expect(applied).toEqual(["stu-2"]);
+      expect(outcome.replayed).toHaveLength(1);
+      expect(outcome.failed).toEqual([]);
+    });
+  });
+
+  describe("shouldDeadLetter", () => {
+    it("should dead-letter an operation once its attempts run out", () => {
+      expect(shouldDeadLetter(SYNC_MAX_ATTEMPTS - 1)).toBe(false);
+      expect(shouldDeadLetter(SYNC_MAX_ATTEMPTS)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Sync Status Tests
+ */
+
+import { deriveSyncStatus, finishedSyncStatus } from "@/lib/sync/status";
+
+const activity = { isOnline: true, syncing: false, lastResult: null, conflicts: 0 };
+
+describe("Sync Status", () => {
+  describe("deriveSyncStatus", () => {
+    it("should report idle before the first sync", () => {
+      expect(deriveSyncStatus(activity)).toBe("idle");
+    });
+
+    it("should report offline whatever else is going on", () => {
+      expect(deriveSyncStatus({ ...activity, isOnline: false, syncing: true, conflicts: 2 })).toBe("offline");
+    });
+
+    it("should report syncing while a sync runs", () => {
+      expect(deriveSyncStatus({ ...activity, syncing: true, lastResult: { status: "error" } })).toBe("syncing");
+    });
+
+    it("should report conflicts waiting for review over the last sync's outcome", () => {
+      expect(deriveSyncStatus({ ...activity, conflicts: 1, lastResult: { status: "success" } })).toBe("conflict");
+      expect(deriveSyncStatus({ ...activity, conflicts: 1, lastResult: { status: "error" } })).toBe("conflict");
+    });
+
+    it("should report how the last sync finished", () => {
+      expect(deriveSyncStatus({ ...activity, lastResult: { status: "success" } })).toBe("success");
+      expect(deriveSyncStatus({ ...activity, lastResult: { status: "error" } })).toBe("error");
+      // Conflicts from the last sync that have since been settled
+      expect(deriveSyncStatus({ ...activity, lastResult: { status: "conflict" } })).toBe("success");
+    });
+  });
+
+  describe("finishedSyncStatus", () => {
+    it("should report errors first, then conflicts", () => {
+      expect(finishedSyncStatus(["Upload failed"], 2)).toBe("error");
+      expect(finishedSyncStatus([], 2)).toBe("conflict");
+      expect(finishedSyncStatus([], 0)).toBe("success");
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Sync Tombstone Tests
+ */
+
+import {
+  buildTombstone,
+  isTombstone,
+  resolveAgainstTombstone,
+  shouldApplyRemoteDelete,
+} from "@/lib/sync/tombstones";
+import { compareVectors, incrementVector, mergeVectors } from "@/lib/sync/version-vector";
+
+const synced = {
+  id: "stu-001",
+  firstName: "Jane",
+  balance: 500000,
+  versionVector: { "device-a": 1 },
+  updatedAt: "2026-02-01T08:00:00.000Z",
+};
+
+// A copy of the record edited on a device, as saveLocalChange stamps it
+const editOn = <T extends { versionVector?: Record<string, number> }>(record: T, deviceId: string, changes: Partial<T> = {}): T => ({
+  ...record,
+  ...changes,
+  versionVector: incrementVector(record.versionVector, deviceId),
+});
+
+const deleteOn = (record: typeof synced, deviceId: string) =>
+  buildTombstone(editOn(record, deviceId), "2026-02-03T08:00:00.000Z");
+
+describe("Sync Tombstones", () => {
+  describe("buildTombstone", () => {
+    it("should keep only the record's ID and version", () => {
+      const tombstone = buildTombstone(synced, "2026-02-03T08:00:00.000Z");
+
+      expect(tombstone).toEqual({
+        id: "stu-001",
+        deleted: true,
+        deletedAt: "2026-02-03T08:00:00.000Z",
+        updatedAt: "2026-02-03T08:00:00.000Z",
+        versionVector: { "device-a": 1 },
+      });
+      expect(isTombstone(tombstone)).toBe(true);
+      expect(isTombstone(synced)).toBe(false);
+      expect(isTombstone(undefined)).toBe(false);
+    });
+  });
+
+  describe("shouldApplyRemoteDelete", () => {
+    it("should delete a copy the deleting device had already seen", () => {
+      const tombstone = deleteOn(synced, "device-a");
+      expect(shouldApplyRemoteDelete(synced, tombstone)).toBe(true);
+    });
+
+    it("should let a delete win over a concurrent edit", () => {
+      const tombstone = deleteOn(synced, "device-a");
+      const edited = editOn(synced, "device-b", { balance: 300000 });
+
+      expect(compareVectors(edited.versionVector, tombstone.versionVector)).toBe("concurrent");
+      expect(shouldApplyRemoteDelete(edited, tombstone)).toBe(true);
+    });
+
+    it("should keep a copy recreated after its device saw the delete", () => {
+      const tombstone = deleteOn(synced, "device-a");
+      const recreated = {
+        ...synced,
+        versionVector: incrementVector(mergeVectors(synced.versionVector, tombstone.versionVector), "device-b"),
+      };
+
+      expect(shouldApplyRemoteDelete(recreated, tombstone)).toBe(false);
+    });
+
+    it("should do nothing when there is no local copy", () => {
+      expect(shouldApplyRemoteDelete(undefined, deleteOn(synced, "device-a"))).toBe(false);
+    });
+  });
+
+  describe("resolveAgainstTombstone", () => {
+    it("should send the delete again over an edit made without knowing of it", () => {
+      const tombstone = deleteOn(synced, "device-a");
+      const edited = editOn(synced, "device-b", { balance: 300000 });
+
+      const resolution = resolveAgainstTombstone(tombstone, edited);
+
+      expect(resolution.action).toBe("redelete");
+      if (resolution.action !== "redelete") return;
+      // The repeated delete supersedes the edit on the other devices
+      const resent = { ...resolution.tombstone, versionVector: incrementVector(resolution.tombstone.versionVector, "device-a") };
+      expect(compareVectors(resent.versionVector, edited.versionVector)).toBe("after");
+      expect(shouldApplyRemoteDelete(edited, resent)).toBe(true);
+    });
+
+    it("should skip a version the delete already covers", () => {
+      const tombstone = deleteOn(synced, "device-a");
+      expect(resolveAgainstTombstone(tombstone, synced)).toEqual({ action: "skip" });
+      expect(resolveAgainstTombstone(tombstone, { ...synced, versionVector: tombstone.versionVector })).toEqual({ action: "skip" });
+    });
+
+    it("should bring back a record recreated after the delete", () => {
+      const tombstone = deleteOn(synced, "device-a");
+      const recreated = { ...synced, versionVector: incrementVector(tombstone.versionVector, "device-b") };
+
+      expect(resolveAgainstTombstone(tombstone, recreated)).toEqual({ action: "apply" });
+    });
+  });
+
+  it("should leave both devices without the record after a delete and a concurrent edit", () => {
+    // Device A deletes while device B, offline, edits the same student
+    const tombstoneA = deleteOn(synced, "device-a");
+    const editB = editOn(synced, "device-b", { firstName: "Janet" });
+
+    // B downloads the tombstone: the delete wins over its edit
+    const bKeepsCopy = !shouldApplyRemoteDelete(editB, tombstoneA);
+
+    // A downloads B's edit: it has only the tombstone, so it deletes again
+    const resolution = resolveAgainstTombstone(tombstoneA, editB);
+    const aRestores = resolution.action === "apply";
+
+    expect(bKeepsCopy).toBe(false);
+    expect(aRestores).toBe(false);
+    expect(resolution.action).toBe("redelete");
+  });
+});
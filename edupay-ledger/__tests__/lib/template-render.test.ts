@@ -0,0 +1,145 @@
+/**
+ * Template Rendering Tests
+ */
+
+import {
+  checkPlaceholders,
+  fillPlaceholders,
+  getLanguageChain,
+  getPlaceholders,
+  measureSms,
+  pickVariant,
+  SAMPLE_TEMPLATE_DATA,
+  textToHtml,
+} from "@/lib/templates/render";
+import { EMAIL_TRANSLATIONS, SMS_TEMPLATES } from "@/lib/templates/catalogue";
+import { renderTemplate } from "@/lib/services/sms.service";
+import { renderEmailTemplate } from "@/lib/services/email.service";
+
+describe("Template Rendering", () => {
+  describe("getLanguageChain", () => {
+    it("ends with English", () => {
+      expect(getLanguageChain("lg")).toEqual(["lg", "en"]);
+      expect(getLanguageChain()).toEqual(["en"]);
+    });
+
+    it("skips missing and repeated languages", () => {
+      expect(getLanguageChain(undefined, "nyn", "sw", "nyn")).toEqual(["nyn", "sw", "en"]);
+      expect(getLanguageChain("en", "lg")).toEqual(["en", "lg"]);
+    });
+  });
+
+  describe("pickVariant", () => {
+    it("takes the first language in the chain that has a variant", () => {
+      const variants = { en: "Hello", sw: "Habari" };
+      expect(pickVariant(variants, ["lg", "sw", "en"])).toEqual({ value: "Habari", language: "sw" });
+      expect(pickVariant(variants, ["nyn", "en"])).toEqual({ value: "Hello", language: "en" });
+    });
+
+    it("returns null when nothing in the chain matches", () => {
+      expect(pickVariant({ sw: "Habari" }, ["lg"])).toBeNull();
+    });
+  });
+
+  describe("fillPlaceholders", () => {
+    it("fills every use of a placeholder", () => {
+      expect(fillPlaceholders("{name} paid, thank you {name}", { name: "Okello" })).toBe("Okello paid, thank you Okello");
+    });
+
+    it("leaves placeholders without data in place", () => {
+      expect(fillPlaceholders("Balance: {balance}", { amount: 100 })).toBe("Balance: {balance}");
+    });
+
+    it("does not treat replacement text as a pattern", () => {
+      expect(fillPlaceholders("Paid {amount}", { amount: "$1 {x}" })).toBe("Paid $1 {x}");
+    });
+  });
+
+  describe("checkPlaceholders", () => {
+    it("lists placeholders in order of first use", () => {
+      expect(getPlaceholders("{b} {a} {b}")).toEqual(["b", "a"]);
+    });
+
+    it("reports unknown and unused placeholders", () => {
+      expect(checkPlaceholders("Dear {guardianName}, {studentNme}", ["guardianName", "studentName"])).toEqual({
+        unknown: ["studentNme"],
+        missing: ["studentName"],
+      });
+    });
+  });
+
+  describe("measureSms", () => {
+    it("counts a plain message as one SMS up to 160 characters", () => {
+      expect(measureSms("a".repeat(160))).toEqual({ characters: 160, segments: 1, unicode: false });
+      expect(measureSms("a".repeat(161))).toEqual({ characters: 161, segments: 2, unicode: false });
+    });
+
+    it("counts escaped characters twice", () => {
+      expect(measureSms("[x]").characters).toBe(5);
+    });
+
+    it("falls back to the unicode limits for other characters", () => {
+      expect(measureSms("ŋ".repeat(70))).toEqual({ characters: 70, segments: 1, unicode: true });
+      expect(measureSms("ŋ".repeat(71)).segments).toBe(2);
+    });
+  });
+
+  describe("textToHtml", () => {
+    it("escapes the text and keeps its paragraphs and lines", () => {
+      const html = textToHtml("Dear <Parent>,\n\nLine one\nLine two");
+      expect(html).toContain("<p>Dear &lt;Parent&gt;,</p>");
+      expect(html).toContain("<p>Line one<br>Line two</p>");
+    });
+  });
+
+  describe("catalogue", () => {
+    it("uses the English placeholders in every SMS translation", () => {
+      Object.entries(SMS_TEMPLATES).forEach(([, entry]) => {
+        const english = getPlaceholders(entry.variants.en).sort();
+        Object.values(entry.variants).forEach((text) => {
+          expect(getPlaceholders(text!).sort()).toEqual(english);
+        });
+      });
+    });
+
+    it("uses only the English placeholders in every email translation", () => {
+      Object.entries(EMAIL_TRANSLATIONS).forEach(([type, entry]) => {
+        const english = renderEmailTemplate(type as keyof typeof EMAIL_TRANSLATIONS, {});
+        const expected = getPlaceholders(`${english.subject} ${english.text}`);
+        Object.values(entry.variants).forEach((template) => {
+          expect(checkPlaceholders(`${template!.subject} ${template!.body}`, expected).unknown).toEqual([]);
+        });
+      });
+    });
+
+    it("fills every placeholder in the editor's sample data", () => {
+      Object.values(SMS_TEMPLATES).forEach((entry) => {
+        expect(getPlaceholders(fillPlaceholders(entry.variants.en, SAMPLE_TEMPLATE_DATA))).toEqual([]);
+      });
+    });
+  });
+
+  describe("translated messages", () => {
+    it("renders an SMS in the language asked for", () => {
+      const result = renderTemplate("payment_receipt", { guardianName: "Mr. Mugisha", amount: "100,000" }, "sw");
+      expect(result).toContain("Mpendwa Mr. Mugisha");
+      expect(result).toContain("UGX 100,000");
+    });
+
+    it("falls back to English for an untranslated custom message", () => {
+      expect(renderTemplate("custom", { message: "School closes Friday" }, "lg")).toBe("School closes Friday");
+    });
+
+    it("sends a translated email as plain text with simple HTML", () => {
+      const email = renderEmailTemplate("payment_receipt", { guardianName: "Nakato Sarah", schoolName: "Kampala PS" }, "lg");
+      expect(email.subject).toBe("Lisiiti y'okusasula - Kampala PS");
+      expect(email.text).toContain("Ssebo/Nnyabo Nakato Sarah");
+      expect(email.html).toContain("<p>");
+    });
+
+    it("sends the English email for a language without a translation", () => {
+      const english = renderEmailTemplate("term_report", { schoolName: "Kampala PS" });
+      expect(renderEmailTemplate("term_report", { schoolName: "Kampala PS" }, "nyn")).toEqual(english);
+    });
+  });
+});
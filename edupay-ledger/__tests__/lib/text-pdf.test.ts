@@ -0,0 +1,53 @@
+/**
+ * Text PDF Tests
+ */
+
+import { escapePdfText, renderTextPdf } from "@/lib/text-pdf";
+
+describe("Text PDF", () => {
+  describe("escapePdfText", () => {
+    it("escapes brackets and backslashes", () => {
+      expect(escapePdfText("Paid (cash) \\ bank")).toBe("Paid \\(cash\\) \\\\ bank");
+    });
+
+    it("keeps the text to printable ASCII", () => {
+      expect(escapePdfText("UGX 450,000 · Nkwanzi")).toBe("UGX 450,000 ? Nkwanzi");
+    });
+  });
+
+  describe("renderTextPdf", () => {
+    const pdf = renderTextPdf([
+      { text: "Kampala Primary School", size: 16, bold: true },
+      { text: "Receipt No: RCP-2026-00418", gap: 8 },
+    ]);
+
+    it("writes a complete PDF with the lines in it", () => {
+      expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+      expect(pdf.endsWith("%%EOF\n")).toBe(true);
+      expect(pdf).toContain("/F2 16 Tf");
+      expect(pdf).toContain("(Receipt No: RCP-2026-00418) Tj");
+    });
+
+    it("points the cross-reference table at each object", () => {
+      const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(xref).startsWith("xref\n0 7\n")).toBe(true);
+
+      const offsets = Array.from(pdf.matchAll(/^(\d{10}) 00000 n $/gm)).map(match => Number(match[1]));
+      expect(offsets).toHaveLength(6);
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+      });
+    });
+
+    it("gives the content stream its length", () => {
+      const [, length, content] = pdf.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+      expect(content.length).toBe(Number(length));
+    });
+
+    it("leaves off lines that run past the bottom of the page", () => {
+      const long = renderTextPdf(Array.from({ length: 100 }, (_, i) => ({ text: `Line ${i}` })));
+      expect(long).toContain("(Line 0) Tj");
+      expect(long).not.toContain("(Line 99) Tj");
+    });
+  });
+});
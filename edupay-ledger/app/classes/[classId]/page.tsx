@@ -13,7 +13,18 @@ import {
   type ClassStudentSummary,
   type AddStudentToClassData,
 } from "@/hooks/useClassManagement";
+import { useContactsToFix } from "@/hooks/useOutbox";
+import type { ContactToFix } from "@/lib/services/outbox.service";
 import type { PaymentStatus } from "@/types/student";
+import {
+  MESSAGE_LANGUAGES,
+  MESSAGE_LANGUAGE_LABELS,
+  type MessageLanguage,
+} from "@/types/message-template";
+import {
+  CHANNEL_PREFERENCE_LABELS,
+  type ChannelPreference,
+} from "@/types/outbox";
 
 // ============================================================================
 // STUDENT TABLE ROW COMPONENT
@@ -183,6 +194,10 @@ function EditStudentModal({
         streamName: student.streamName,
         guardianName: student.guardianName,
         guardianPhone: student.guardianPhone,
+        guardianAlternatePhone: student.guardianAlternatePhone,
+        guardianEmail: student.guardianEmail,
+        guardianLanguage: student.guardianLanguage,
+        guardianChannel: student.guardianChannel,
         boardingStatus: student.boardingStatus,
       });
     }
@@ -277,6 +292,64 @@ function EditStudentModal({
               }))
             }
           />
+          <Input
+            label="Alternate Contact"
+            value={formData.guardianAlternatePhone || ""}
+            onChange={(e) =>
+              setFormData((prev: Partial<AddStudentToClassData>) => ({
+                ...prev,
+                guardianAlternatePhone: e.target.value,
+              }))
+            }
+          />
+          <Input
+            label="Guardian Email"
+            type="email"
+            value={formData.guardianEmail || ""}
+            onChange={(e) =>
+              setFormData((prev: Partial<AddStudentToClassData>) => ({
+                ...prev,
+                guardianEmail: e.target.value,
+              }))
+            }
+          />
+          <Select
+            label="Message Language"
+            value={formData.guardianLanguage || ""}
+            onChange={(e) =>
+              setFormData((prev: Partial<AddStudentToClassData>) => ({
+                ...prev,
+                guardianLanguage: (e.target.value || undefined) as
+                  | MessageLanguage
+                  | undefined,
+              }))
+            }
+            options={[
+              ...(formData.guardianLanguage
+                ? []
+                : [{ value: "", label: "School Default" }]),
+              ...MESSAGE_LANGUAGES.map((language) => ({
+                value: language,
+                label: MESSAGE_LANGUAGE_LABELS[language],
+              })),
+            ]}
+          />
+          <Select
+            label="Send Notices By"
+            value={formData.guardianChannel || "sms"}
+            onChange={(e) =>
+              setFormData((prev: Partial<AddStudentToClassData>) => ({
+                ...prev,
+                guardianChannel: e.target.value as ChannelPreference,
+              }))
+            }
+            options={(
+              Object.keys(CHANNEL_PREFERENCE_LABELS) as ChannelPreference[]
+            ).map((channel) => ({
+              value: channel,
+              label: CHANNEL_PREFERENCE_LABELS[channel],
+            }))}
+          />
           <Select
             label="Boarding Status"
             value={formData.boardingStatus || ""}
@@ -311,6 +384,63 @@ function EditStudentModal({
   );
 }
 
+// ============================================================================
+// CONTACTS TO FIX
+// ============================================================================
+
+interface ContactsToFixProps {
+  contactsToFix: ContactToFix<ClassStudentSummary>[];
+  onFix: (student: ClassStudentSummary) => void;
+}
+
+function ContactsToFix({ contactsToFix, onFix }: ContactsToFixProps) {
+  if (contactsToFix.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200 dark:border-amber-800">
+      <CardTitle className="flex items-center gap-2">
+        <span className="material-symbols-outlined text-amber-500">
+          contact_phone
+        </span>
+        Fix Contact Details ({contactsToFix.length})
+      </CardTitle>
+      <p className="text-sm text-slate-500 mb-4">
+        Messages to these guardians keep failing. Until the details are
+        corrected, messages go to another contact where one is on record.
+      </p>
+      <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+        {contactsToFix.map(({ student, contacts }) => (
+          <li
+            key={student.id}
+            className="py-3 flex items-center justify-between gap-4"
+          >
+            <div>
+              <p className="font-medium text-slate-800 dark:text-white">
+                {student.firstName} {student.lastName}
+                <span className="text-slate-500 font-normal">
+                  {" "}
+                  · {student.guardianName}
+                </span>
+              </p>
+              {contacts.map((contact) => (
+                <p key={contact.id} className="text-xs text-slate-500">
+                  {contact.contact}: {contact.failed} failed
+                  {contact.lastFailureReason &&
+                    ` (${contact.lastFailureReason})`}
+                  {" "}· reached {contact.score}%
+                </p>
+              ))}
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onFix(student)}>
+              Fix
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
 // ============================================================================
 // ADD STUDENT MODAL
 // ============================================================================
@@ -495,6 +625,7 @@ export default function ClassDetailPage({
 
   const [editingStudent, setEditingStudent] =
     useState<ClassStudentSummary | null>(null);
+  const { contactsToFix } = useContactsToFix(students);
   const [showAddModal, setShowAddModal] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -704,6 +835,11 @@ export default function ClassDetailPage({
           />
         </div>
 
+        <ContactsToFix
+          contactsToFix={contactsToFix}
+          onFix={setEditingStudent}
+        />
+
         {/* Filters */}
         <Card>
           <div className="flex flex-col sm:flex-row gap-4">
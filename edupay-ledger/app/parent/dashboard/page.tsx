@@ -18,6 +18,7 @@ import {
   FeeStatementView,
   AnnouncementCard,
   QuickPayWidget,
+  CollectionStatusCard,
 } from '@/components/portal';
 import {
   useParentDashboard,
@@ -42,11 +43,11 @@ export default function ParentDashboardPage() {
 
   // Hooks
   const { dashboard, isLoading: dashboardLoading, error: dashboardError } = useParentDashboard(MOCK_PARENT_ID);
-  const { overview, isLoading: overviewLoading } = useStudentFeeOverview(selectedChildId);
-  const { payments, isLoading: paymentsLoading } = usePaymentHistory(dashboard?.children?.map(c => c.id) || []);
-  const { statement, isLoading: statementLoading, generate: generateStatement } = useFeeStatement(selectedChildId);
+  const { overview, isLoading: overviewLoading } = useStudentFeeOverview(MOCK_SCHOOL_ID, selectedChildId);
+  const { payments, isLoading: paymentsLoading } = usePaymentHistory(MOCK_SCHOOL_ID, dashboard?.children?.map(c => c.id) || []);
+  const { statement, isLoading: statementLoading, generate: generateStatement } = useFeeStatement(MOCK_SCHOOL_ID, selectedChildId);
   const { announcements, isLoading: announcementsLoading } = useAnnouncements(MOCK_SCHOOL_ID, ['S.3'], ['boarder']);
-  const { initiatePay, isProcessing } = useQuickPay();
+  const { initiatePay, collection, reset: resetCollection, isProcessing, error: payError } = useQuickPay(MOCK_SCHOOL_ID, MOCK_PARENT_ID);
 
   const handleSelectChild = (childId: string) => {
     setSelectedChildId(childId);
@@ -67,12 +68,12 @@ export default function ParentDashboardPage() {
   const handleQuickPay = async (amount: number, phone: string, provider: 'mtn' | 'airtel') => {
     if (!selectedChildId) return;
     
-    const result = await initiatePay(selectedChildId, amount, phone, provider);
+    await initiatePay(selectedChildId, amount, phone, provider);
+  };
 
-    if (result?.success) {
-      alert('Payment initiated! Check your phone for the prompt.');
-      setShowPayModal(false);
-    }
+  const handleClosePayModal = () => {
+    setShowPayModal(false);
+    resetCollection();
   };
 
   if (dashboardLoading) {
@@ -213,15 +214,28 @@ export default function ParentDashboardPage() {
       {showPayModal && selectedChildId && overview && (
         <Modal
           isOpen={showPayModal}
-          onClose={() => setShowPayModal(false)}
+          onClose={handleClosePayModal}
           title="Quick Payment"
         >
-          <QuickPayWidget
-            studentName={overview.studentName}
-            balance={overview.totalOwed}
-            onPay={handleQuickPay}
-            isProcessing={isProcessing}
-          />
+          {collection ? (
+            <CollectionStatusCard
+              collection={collection}
+              onDone={handleClosePayModal}
+              onRetry={resetCollection}
+            />
+          ) : (
+            <div className="space-y-3">
+              {payError && (
+                <p className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{payError}</p>
+              )}
+              <QuickPayWidget
+                studentName={overview.studentName}
+                balance={overview.totalOwed}
+                onPay={handleQuickPay}
+                isProcessing={isProcessing}
+              />
+            </div>
+          )}
         </Modal>
       )}
 
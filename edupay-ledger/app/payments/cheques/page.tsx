@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useCheques } from '@/hooks/useCheques';
+import { formatUGX } from '@/lib/utils';
+import type { ChequePayment } from '@/lib/services/cheque.service';
+import { CHEQUE_BOUNCE_REASONS, CHEQUE_STATUS_LABELS, ChequeStatus } from '@/types/cheque';
+
+const statusVariants: Record<ChequeStatus, 'info' | 'warning' | 'success' | 'danger'> = {
+  received: 'info',
+  deposited: 'warning',
+  cleared: 'success',
+  bounced: 'danger',
+};
+
+const filters: { value: string; label: string; statuses?: ChequeStatus[] }[] = [
+  { value: 'outstanding', label: 'Outstanding', statuses: ['received', 'deposited'] },
+  { value: 'cleared', label: 'Cleared', statuses: ['cleared'] },
+  { value: 'bounced', label: 'Bounced', statuses: ['bounced'] },
+  { value: 'all', label: 'All Cheques' },
+];
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleDateString('en-UG') : '—';
+}
+
+export default function ChequeRegisterPage() {
+  const { user } = useAuth();
+  const { success, error: showError, info } = useToast();
+  const [filter, setFilter] = useState('outstanding');
+  const chequeUser = useMemo(
+    () => ({ id: user?.uid || '', name: user?.displayName || 'User' }),
+    [user?.uid, user?.displayName]
+  );
+  const statuses = filters.find(f => f.value === filter)?.statuses;
+  const { cheques, overdueCount, isLoading, isProcessing, error, refresh, deposit, clear, bounce } =
+    useCheques(chequeUser, statuses);
+
+  const [bouncing, setBouncing] = useState<ChequePayment | null>(null);
+  const [bounceReason, setBounceReason] = useState(CHEQUE_BOUNCE_REASONS[0]);
+  const [bankCharge, setBankCharge] = useState('');
+  const [notifyGuardian, setNotifyGuardian] = useState(true);
+
+  const outstandingTotal = cheques
+    .filter(cheque => cheque.cheque.status === 'received' || cheque.cheque.status === 'deposited')
+    .reduce((sum, cheque) => sum + cheque.amount, 0);
+
+  const handleDeposit = async (cheque: ChequePayment) => {
+    const updated = await deposit(cheque.paymentId);
+    if (updated) {
+      success('Cheque Deposited', `Expected to clear by ${formatDate(updated.expectedClearanceDate)}`);
+    }
+  };
+
+  const handleClear = async (cheque: ChequePayment) => {
+    if (await clear(cheque.paymentId)) {
+      success('Cheque Cleared', `${formatUGX(cheque.amount)} from ${cheque.studentName} is in the bank`);
+    }
+  };
+
+  const openBounce = (cheque: ChequePayment) => {
+    setBouncing(cheque);
+    setBounceReason(CHEQUE_BOUNCE_REASONS[0]);
+    setBankCharge('');
+    setNotifyGuardian(true);
+  };
+
+  const handleBounce = async () => {
+    if (!bouncing) return;
+    const charge = Number(bankCharge.replace(/,/g, '')) || 0;
+    const result = await bounce(bouncing.paymentId, { reason: bounceReason, bankCharge: charge, notifyGuardian });
+    if (!result) return;
+
+    setBouncing(null);
+    showError(
+      'Cheque Bounced',
+      `Receipt ${bouncing.receiptNumber} reversed. ${bouncing.studentName} now owes ${formatUGX(result.newBalance)}`
+    );
+    if (result.guardianNotified) {
+      info('Guardian Notified', 'A message telling the guardian the cheque was returned is in the outbox');
+    }
+  };
+
+  return (
+    <div className="p-4 lg:p-8 bg-background-light dark:bg-background-dark min-h-full">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <nav className="flex text-sm text-slate-500 mb-2">
+            <Link href="/payments" className="hover:text-primary dark:hover:text-white">
+              Payments
+            </Link>
+            <span className="mx-2">/</span>
+            <span className="text-primary dark:text-white font-medium">Cheques</span>
+          </nav>
+          <h1 className="text-2xl lg:text-3xl font-black text-primary dark:text-white flex items-center gap-3">
+            <span className="p-2 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
+              <span className="material-symbols-outlined text-purple-600">description</span>
+            </span>
+            Cheque Register
+          </h1>
+        </div>
+        <Button variant="ghost" onClick={refresh}>
+          <span className="material-symbols-outlined">refresh</span>
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card className="p-4">
+          <p className="text-xs uppercase tracking-wider text-slate-400">Shown</p>
+          <p className="text-2xl font-bold">{cheques.length}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-xs uppercase tracking-wider text-slate-400">Awaiting Clearance</p>
+          <p className="text-2xl font-bold">{formatUGX(outstandingTotal)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-xs uppercase tracking-wider text-slate-400">Overdue</p>
+          <p className={`text-2xl font-bold ${overdueCount > 0 ? 'text-danger' : ''}`}>{overdueCount}</p>
+        </Card>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {filters.map(f => (
+          <Button
+            key={f.value}
+            variant={filter === f.value ? 'primary' : 'outline'}
+            size="sm"
+            onClick={() => setFilter(f.value)}
+          >
+            {f.label}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-danger/10 text-danger text-sm">{error}</div>
+      )}
+
+      <Card className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-slate-400 border-b border-slate-200 dark:border-slate-700">
+              <th className="p-3">Cheque</th>
+              <th className="p-3">Student</th>
+              <th className="p-3 text-right">Amount</th>
+              <th className="p-3">Received</th>
+              <th className="p-3">Expected to Clear</th>
+              <th className="p-3">Status</th>
+              <th className="p-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading ? (
+              <tr><td colSpan={7} className="p-6 text-center text-slate-400">Loading cheques...</td></tr>
+            ) : cheques.length === 0 ? (
+              <tr><td colSpan={7} className="p-6 text-center text-slate-400">No cheques to show</td></tr>
+            ) : cheques.map(cheque => (
+              <tr key={cheque.paymentId} className="border-b border-slate-100 dark:border-slate-800">
+                <td className="p-3">
+                  <p className="font-semibold">{cheque.cheque.chequeNumber}</p>
+                  <p className="text-xs text-slate-400">
+                    {cheque.cheque.bankName}{cheque.cheque.drawerName && ` · ${cheque.cheque.drawerName}`}
+                  </p>
+                </td>
+                <td className="p-3">
+                  <p>{cheque.studentName}</p>
+                  <p className="text-xs text-slate-400">{cheque.receiptNumber}</p>
+                </td>
+                <td className="p-3 text-right font-semibold">{formatUGX(cheque.amount)}</td>
+                <td className="p-3">
+                  {formatDate(cheque.cheque.receivedAt)}
+                  {cheque.cheque.chequeDate && (
+                    <p className="text-xs text-slate-400">Dated {formatDate(cheque.cheque.chequeDate)}</p>
+                  )}
+                </td>
+                <td className="p-3">{formatDate(cheque.cheque.expectedClearanceDate)}</td>
+                <td className="p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={statusVariants[cheque.cheque.status]} size="sm">
+                      {CHEQUE_STATUS_LABELS[cheque.cheque.status]}
+                    </Badge>
+                    {cheque.isOverdue && (
+                      <Badge variant="danger" size="sm">{cheque.ageDays} days</Badge>
+                    )}
+                  </div>
+                  {cheque.cheque.bounceReason && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      {cheque.cheque.bounceReason}
+                      {!!cheque.cheque.bounceCharge && `, charge ${formatUGX(cheque.cheque.bounceCharge)}`}
+                    </p>
+                  )}
+                </td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-2">
+                    {cheque.cheque.status === 'received' && (
+                      <Button size="sm" variant="outline" disabled={isProcessing} onClick={() => handleDeposit(cheque)}>
+                        Deposit
+                      </Button>
+                    )}
+                    {cheque.cheque.status === 'deposited' && (
+                      <>
+                        <Button size="sm" variant="outline" disabled={isProcessing} onClick={() => handleClear(cheque)}>
+                          Cleared
+                        </Button>
+                        <Button size="sm" variant="ghost" disabled={isProcessing} onClick={() => openBounce(cheque)}>
+                          Bounced
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+
+      <Modal isOpen={!!bouncing} onClose={() => setBouncing(null)} title="Record Bounced Cheque">
+        {bouncing && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-500">
+              Receipt {bouncing.receiptNumber} of {formatUGX(bouncing.amount)} for {bouncing.studentName} will
+              be reversed and the amount put back on the student&apos;s balance.
+            </p>
+            <Select
+              label="Reason Returned"
+              value={bounceReason}
+              onChange={(e) => setBounceReason(e.target.value)}
+              options={CHEQUE_BOUNCE_REASONS.map(reason => ({ value: reason, label: reason }))}
+            />
+            <Input
+              label="Bank Charge"
+              prefix="UGX"
+              value={bankCharge}
+              onChange={(e) => setBankCharge(e.target.value)}
+              placeholder="0"
+              hint="Added to the student's fees"
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={notifyGuardian}
+                onChange={(e) => setNotifyGuardian(e.target.checked)}
+              />
+              Notify the guardian by SMS and email
+            </label>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setBouncing(null)}>Cancel</Button>
+              <Button variant="danger" loading={isProcessing} onClick={handleBounce}>
+                Reverse Payment
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -677,6 +677,12 @@ export default function PaymentsPage() {
             <span className="material-symbols-outlined text-sm mr-2">download</span>
             Export
           </Button>
+          <Link href="/payments/cheques">
+            <Button variant="outline">
+              <span className="material-symbols-outlined text-sm mr-2">description</span>
+              Cheques
+            </Button>
+          </Link>
           <Link href="/payments/record">
             <Button variant="primary">
               <span className="material-symbols-outlined text-sm mr-2">add_card</span>
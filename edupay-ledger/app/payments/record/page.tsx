@@ -10,28 +10,51 @@ import { Badge } from "@/components/ui/Badge";
 import { ProgressBar } from "@/components/ui/Progress";
 import { formatUGX } from "@/lib/utils";
 import { useToast } from "@/components/ui/Toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useOffline } from "@/hooks/useOffline";
+import { dbHelpers, DBStudent } from "@/lib/db";
+import { recordPayment } from "@/lib/services/payment.service";
+import { printReport } from "@/lib/services/export.service";
+import type { PaymentChannel } from "@/types/payment";
+
+interface SelectedStudent {
+  id: string;
+  studentId: string;
+  name: string;
+  class: string;
+  stream?: string;
+  totalFees: number;
+  amountPaid: number;
+  balance: number;
+  progress: number;
+  guardian: string;
+  guardianPhone: string;
+}
 
-// Mock data
-const mockStudentSearch = {
-  id: "EDU-2023-045-KC",
-  name: "Mugisha Ivan Brian",
-  class: "Senior 4",
-  stream: "East Wing",
-  photo:
-    "https://lh3.googleusercontent.com/aida-public/AB6AXuA0CnWYOn8jgUsEOhUTX7qeTe9V1C0bEWnzP9LGgDmV9isuZqckxogBtA06czEVBCXtb4FHQFSCIxjsRJ0oDLM_1gbq8L72FBxdMZJqnY12IBgQxEk9qy6mT1EynTF8w-DYpnctJon298ne5QMe1UEuPIlOdD__r6bx71PWNeAV5rbJVe1wPGSTAvxKyJXhlGqJMCEHpuszOMeLCAPlz72rPiGcga82FNaeEkaZKXbI5V_VTuG1pxGB_Jq3ZRhiP1ppeLE77VQct5s",
-  totalFees: 1450000,
-  amountPaid: 850000,
-  balance: 600000,
-  progress: 58,
-  guardian: "Mrs. Sarah Namugisha",
-  guardianPhone: "+256772456789",
-};
-
-const paymentChannels = [
+function toSelectedStudent(student: DBStudent): SelectedStudent {
+  return {
+    id: student.id,
+    studentId: student.studentId,
+    name: `${student.firstName} ${student.lastName}`,
+    class: student.className,
+    stream: student.streamName,
+    totalFees: student.totalFees,
+    amountPaid: student.amountPaid,
+    balance: student.balance,
+    progress: student.totalFees > 0
+      ? Math.round((student.amountPaid / student.totalFees) * 100)
+      : 0,
+    guardian: student.guardianName,
+    guardianPhone: student.guardianPhone,
+  };
+}
+
+const paymentChannels: { value: PaymentChannel; label: string; icon: string }[] = [
   { value: "cash", label: "Direct Cash", icon: "payments" },
   { value: "momo_mtn", label: "MTN Mobile Money", icon: "smartphone" },
   { value: "momo_airtel", label: "Airtel Money", icon: "smartphone" },
-  { value: "bank", label: "Bank Transfer", icon: "account_balance" },
+  { value: "bank_transfer", label: "Bank Transfer", icon: "account_balance" },
+  { value: "cheque", label: "Cheque", icon: "description" },
 ];
 
 const installmentTypes = [
@@ -41,13 +64,18 @@ const installmentTypes = [
 
 export default function RecordPaymentPage() {
   const router = useRouter();
-  const { success, error: showError, warning } = useToast();
+  const { success, error: showError, warning, info } = useToast();
+  const { user } = useAuth();
+  const { isOnline } = useOffline();
   const [studentSearch, setStudentSearch] = useState("");
-  const [selectedStudent, setSelectedStudent] = useState(mockStudentSearch);
-  const [paymentChannel, setPaymentChannel] = useState("cash");
+  const [selectedStudent, setSelectedStudent] = useState<SelectedStudent | null>(null);
+  const [paymentChannel, setPaymentChannel] = useState<PaymentChannel>("cash");
   const [installmentType, setInstallmentType] = useState("partial");
   const [amount, setAmount] = useState("");
   const [refNumber, setRefNumber] = useState("");
+  const [chequeBank, setChequeBank] = useState("");
+  const [chequeDrawer, setChequeDrawer] = useState("");
+  const [chequeDate, setChequeDate] = useState("");
   const [notes, setNotes] = useState("");
   const [sendSms, setSendSms] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -56,17 +84,28 @@ export default function RecordPaymentPage() {
   const minRequired = selectedStudent
     ? Math.ceil(selectedStudent.totalFees * 0.3)
     : 0;
-  const maxAllowed = selectedStudent?.balance || 0;
+  const outstanding = Math.max(0, selectedStudent?.balance || 0);
+  // Installments need the minimum unless they clear the balance; anything above it is held as credit
   const isValidAmount =
-    amountNumber >= minRequired && amountNumber <= maxAllowed;
-
-  const handleSearch = () => {
-    // In real app, search Firestore
-    setSelectedStudent(mockStudentSearch);
-    success(
-      "Student Found",
-      `${mockStudentSearch.name} - ${mockStudentSearch.class}`,
-    );
+    amountNumber > 0 &&
+    (outstanding === 0 || amountNumber >= Math.min(minRequired, outstanding));
+  const creditAmount = Math.max(0, amountNumber - outstanding);
+
+  const handleSearch = async () => {
+    // Search the local database so lookups work offline too
+    const results = await dbHelpers.searchStudents(studentSearch.trim(), {
+      status: "active",
+    });
+
+    if (results.length === 0) {
+      setSelectedStudent(null);
+      warning("No Student Found", "No active student on this device matches your search");
+      return;
+    }
+
+    const student = toSelectedStudent(results[0]);
+    setSelectedStudent(student);
+    success("Student Found", `${student.name} - ${student.class}`);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -75,7 +114,7 @@ export default function RecordPaymentPage() {
     if (!isValidAmount) {
       showError(
         "Invalid Amount",
-        `Amount must be between ${formatUGX(minRequired)} and ${formatUGX(maxAllowed)}`,
+        `Amount must be at least ${formatUGX(Math.min(minRequired, outstanding))}`,
       );
       return;
     }
@@ -83,41 +122,86 @@ export default function RecordPaymentPage() {
     if (paymentChannel !== "cash" && !refNumber.trim()) {
       warning(
         "Reference Required",
-        "Please enter the transaction reference number",
+        paymentChannel === "cheque"
+          ? "Please enter the cheque number"
+          : "Please enter the transaction reference number",
       );
       return;
     }
 
+    if (paymentChannel === "cheque" && !chequeBank.trim()) {
+      warning("Bank Required", "Please enter the bank the cheque is drawn on");
+      return;
+    }
+
+    if (!selectedStudent || !user) return;
+
     setIsSubmitting(true);
 
     try {
-      // Submit payment logic
-      console.log("Payment submitted", {
-        studentId: selectedStudent?.id,
-        amount: amountNumber,
-        channel: paymentChannel,
-        installmentType,
-        refNumber,
-        notes,
+      const result = await recordPayment(
+        {
+          studentId: selectedStudent.id,
+          amount: amountNumber,
+          channel: paymentChannel,
+          transactionRef: refNumber.trim(),
+          installmentId: "",
+          notes: notes.trim() || undefined,
+          ...(paymentChannel === "cheque" && {
+            cheque: {
+              chequeNumber: refNumber.trim(),
+              bankName: chequeBank.trim(),
+              ...(chequeDrawer.trim() && { drawerName: chequeDrawer.trim() }),
+              ...(chequeDate && { chequeDate: new Date(chequeDate).toISOString() }),
+            },
+          }),
+        },
+        user.uid,
+        user.schoolId,
         sendSms,
-      });
+        user.displayName,
+      );
 
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      if (!result.success) {
+        showError("Payment Failed", result.error || "Could not record payment. Please try again.");
+        return;
+      }
 
       success(
         "Payment Recorded",
-        `${formatUGX(amountNumber)} received for ${selectedStudent?.name}`,
+        `${formatUGX(amountNumber)} received for ${selectedStudent.name}`,
       );
 
-      if (sendSms) {
+      if (paymentChannel === "cheque") {
+        info(
+          "Cheque Pending",
+          "Mark the cheque deposited and cleared from the cheque register",
+        );
+      }
+
+      if (result.creditAmount) {
+        info(
+          "Credit Held",
+          `${formatUGX(result.creditAmount)} will be applied to next term's fees`,
+        );
+      }
+
+      if (!isOnline) {
+        info(
+          "Saved Offline",
+          "The payment will sync automatically when you are back online",
+        );
+      } else if (sendSms) {
         success(
           "SMS Sent",
-          `Receipt sent to ${selectedStudent?.guardianPhone}`,
+          `Receipt sent to ${selectedStudent.guardianPhone}`,
         );
       }
 
-      // Reset form or redirect
+      if (result.receipt?.html) {
+        printReport(result.receipt.html);
+      }
+
       router.push("/payments");
     } catch (err) {
       showError(
@@ -156,6 +240,14 @@ export default function RecordPaymentPage() {
           </h1>
         </div>
         <div className="flex items-center gap-2 text-sm">
+          {!isOnline && (
+            <Badge variant="warning" className="text-xs uppercase tracking-wide">
+              <span className="material-symbols-outlined text-xs mr-1">
+                cloud_off
+              </span>
+              Offline - will sync later
+            </Badge>
+          )}
           <Badge variant="info" className="text-xs uppercase tracking-wide">
             <span className="material-symbols-outlined text-xs mr-1">
               verified_user
@@ -207,20 +299,21 @@ export default function RecordPaymentPage() {
                     </Badge>
                   </div>
                   <div className="flex flex-col md:flex-row gap-4 items-start md:items-center">
-                    <img
-                      src={selectedStudent.photo}
-                      alt="Student"
-                      className="w-16 h-16 rounded-xl object-cover ring-2 ring-white shadow-md"
-                    />
+                    <div className="w-16 h-16 rounded-xl bg-primary/10 flex items-center justify-center ring-2 ring-white shadow-md">
+                      <span className="material-symbols-outlined text-primary text-3xl">
+                        person
+                      </span>
+                    </div>
                     <div className="flex-grow">
                       <p className="text-xs text-slate-400 font-mono">
-                        {selectedStudent.id}
+                        {selectedStudent.studentId}
                       </p>
                       <h4 className="text-lg font-bold text-primary dark:text-white">
                         {selectedStudent.name}
                       </h4>
                       <p className="text-sm text-slate-500">
-                        {selectedStudent.class} • {selectedStudent.stream}
+                        {selectedStudent.class}
+                        {selectedStudent.stream && ` • ${selectedStudent.stream}`}
                       </p>
                     </div>
                     <div className="md:text-right">
@@ -265,7 +358,7 @@ export default function RecordPaymentPage() {
                 <label className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3 block">
                   Payment Channel
                 </label>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
                   {paymentChannels.map((channel) => (
                     <button
                       key={channel.value}
@@ -349,7 +442,7 @@ export default function RecordPaymentPage() {
                         Min: {formatUGX(minRequired)}
                       </span>
                       <span className="text-slate-400">
-                        Max: {formatUGX(maxAllowed)}
+                        Balance: {formatUGX(outstanding)}
                       </span>
                     </div>
                   )}
@@ -360,7 +453,7 @@ export default function RecordPaymentPage() {
               {paymentChannel !== "cash" && (
                 <div className="mb-6">
                   <label className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2 block">
-                    Transaction Reference Number
+                    {paymentChannel === "cheque" ? "Cheque Number" : "Transaction Reference Number"}
                   </label>
                   <Input
                     value={refNumber}
@@ -375,6 +468,31 @@ export default function RecordPaymentPage() {
                 </div>
               )}
 
+              {/* Cheque details, followed until the cheque clears */}
+              {paymentChannel === "cheque" && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  <Input
+                    label="Drawer's Bank"
+                    value={chequeBank}
+                    onChange={(e) => setChequeBank(e.target.value)}
+                    placeholder="e.g. Stanbic Bank"
+                  />
+                  <Input
+                    label="Drawer (Optional)"
+                    value={chequeDrawer}
+                    onChange={(e) => setChequeDrawer(e.target.value)}
+                    placeholder="Account holder"
+                  />
+                  <Input
+                    label="Cheque Date"
+                    type="date"
+                    value={chequeDate}
+                    onChange={(e) => setChequeDate(e.target.value)}
+                    hint="Post-dated cheques are banked on this date"
+                  />
+                </div>
+              )}
+
               {/* Notes */}
               <div className="mb-6">
                 <label className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2 block">
@@ -439,7 +557,7 @@ export default function RecordPaymentPage() {
                   <span className="text-slate-500">Class</span>
                   <span className="font-semibold">
                     {selectedStudent
-                      ? `${selectedStudent.class} • ${selectedStudent.stream}`
+                      ? [selectedStudent.class, selectedStudent.stream].filter(Boolean).join(" • ")
                       : "-"}
                   </span>
                 </div>
@@ -479,6 +597,14 @@ export default function RecordPaymentPage() {
                         )}
                       </span>
                     </div>
+                    {creditAmount > 0 && (
+                      <div className="flex justify-between text-sm mt-1">
+                        <span className="text-slate-500">Held as Credit</span>
+                        <span className="font-bold text-info">
+                          {formatUGX(creditAmount)}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
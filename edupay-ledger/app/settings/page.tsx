@@ -5,12 +5,48 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useFirebaseSettings } from '@/hooks/useFirebaseData';
 import { Card, Button, Badge, Input, Modal, Table } from '@/components/ui';
+import { DeviceList } from '@/components/sync/SyncDeviceComponents';
+import { ReceiptBlockList, ReceiptGapReport } from '@/components/sync/ReceiptAuditComponents';
+import { useSyncDevices, useReceiptAudit } from '@/hooks/useSync';
+import { BackupFileList, BackupRestorePreview, IntegrityReport } from '@/components/backup/BackupComponents';
+import { useLocalBackups, useDatabaseIntegrity } from '@/hooks/useBackup';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useReminders } from '@/hooks/useReminders';
+import { useMessageTemplates } from '@/hooks/useMessageTemplates';
+import { TemplateEditor, TemplateList } from '@/components/messages/TemplateComponents';
+import {
+  MESSAGE_LANGUAGES,
+  MESSAGE_LANGUAGE_LABELS,
+  MessageLanguage,
+  MessageTemplate,
+  MessageTemplateType,
+  TemplateChannel,
+} from '@/types/message-template';
+import {
+  OUTBOX_CHANNEL_LABELS,
+  OUTBOX_DELIVERY_LABELS,
+  OUTBOX_STATUS_LABELS,
+  OutboxChannel,
+  OutboxMessage,
+  OutboxStatus,
+} from '@/types/outbox';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  REMINDER_KIND_LABELS,
+  REMINDER_OUTCOME_LABELS,
+  ReminderOutcome,
+  ReminderRun,
+  ReminderRunItem,
+} from '@/types/reminder';
+import { formatUGX } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/components/ui/Toast';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type TabType = 'overview' | 'users' | 'integrations' | 'notifications' | 'logs' | 'appearance';
+type TabType = 'overview' | 'users' | 'integrations' | 'notifications' | 'messages' | 'templates' | 'reminders' | 'devices' | 'backups' | 'logs' | 'appearance';
 
 // ============================================================================
 // HELPER COMPONENTS
@@ -575,6 +611,9 @@ function IntegrationsTab({ settings, actions }: { settings: any; actions: any })
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
   const [isTesting, setIsTesting] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isAnchoring, setIsAnchoring] = useState(false);
+  const { success, error: showError } = useToast();
+  const anchorQueue = actions.anchorQueue;
   
   const handleTestSMS = async () => {
     setIsTesting(true);
@@ -589,6 +628,14 @@ function IntegrationsTab({ settings, actions }: { settings: any; actions: any })
     setIsSyncing(false);
   };
   
+  const handleAnchorNow = async () => {
+    setIsAnchoring(true);
+    const result = await actions.anchorNow();
+    if (result.success) success('Stellar anchoring', result.message);
+    else showError('Stellar anchoring', result.message);
+    setIsAnchoring(false);
+  };
+  
   return (
     <div className="space-y-6">
       <div>
@@ -715,14 +762,33 @@ function IntegrationsTab({ settings, actions }: { settings: any; actions: any })
           </div>
           <div className="p-4 bg-gray-50 rounded-lg">
             <p className="text-sm text-gray-500">Total Anchored</p>
-            <p className="font-semibold">{settings.stellarConfig.totalAnchored.toLocaleString()} transactions</p>
+            <p className="font-semibold">{settings.stellarConfig.totalAnchored.toLocaleString()} payments</p>
           </div>
           <div className="p-4 bg-gray-50 rounded-lg">
             <p className="text-sm text-gray-500">Pending</p>
-            <p className="font-semibold">{settings.stellarConfig.pendingAnchor} transactions</p>
+            <p className="font-semibold">{settings.stellarConfig.pendingAnchor} payments</p>
           </div>
         </div>
         
+        {anchorQueue && anchorQueue.waitingBatches > 0 && (
+          <div className="flex items-center justify-between p-4 mb-4 bg-yellow-50 rounded-lg">
+            <div>
+              <p className="font-medium text-yellow-900">
+                {anchorQueue.waitingBatches} sealed batch{anchorQueue.waitingBatches === 1 ? '' : 'es'} waiting to be anchored
+              </p>
+              {anchorQueue.lastError && (
+                <p className="text-sm text-yellow-800">Last error: {anchorQueue.lastError}</p>
+              )}
+              {anchorQueue.nextAttemptAt && (
+                <p className="text-sm text-yellow-800">Next retry: {new Date(anchorQueue.nextAttemptAt).toLocaleString()}</p>
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={handleAnchorNow} loading={isAnchoring}>
+              Anchor Now
+            </Button>
+          </div>
+        )}
+        
         <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg">
           <div>
             <p className="font-medium text-blue-900">Audit Trail Anchoring</p>
@@ -1103,6 +1169,974 @@ function LogsTab({ settings, actions }: { settings: any; actions: any }) {
   );
 }
 
+function MessagesTab() {
+  const [query, setQuery] = useState('');
+  const [channel, setChannel] = useState<OutboxChannel | 'all'>('all');
+  const [status, setStatus] = useState<OutboxStatus | 'all'>('all');
+  const [selected, setSelected] = useState<OutboxMessage | null>(null);
+  const outbox = useOutbox({
+    query,
+    ...(channel !== 'all' && { channel }),
+    ...(status !== 'all' && { status }),
+  });
+  const { success, info } = useToast();
+
+  const statusVariant: Record<OutboxStatus, 'default' | 'info' | 'success' | 'danger'> = {
+    queued: 'default',
+    sending: 'info',
+    sent: 'success',
+    failed: 'danger',
+  };
+
+  const handleSendNow = async () => {
+    const sent = await outbox.sendNow();
+    if (sent > 0) {
+      success('Messages Sent', `${sent} message${sent === 1 ? '' : 's'} sent`);
+    } else {
+      info('Nothing Sent', 'No messages are due, or the device is offline');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Messages</h2>
+          <p className="text-gray-500">Every SMS, WhatsApp message and email sent to guardians; messages written offline wait here until the next sync</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleSendNow}
+          loading={outbox.isSending}
+          icon={<span className="material-symbols-outlined">send</span>}
+        >
+          Send Now
+        </Button>
+      </div>
+
+      {outbox.error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{outbox.error}</div>
+      )}
+
+      {outbox.summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(['queued', 'sending', 'sent', 'failed'] as OutboxStatus[]).map((key) => (
+            <Card key={key} className="p-4">
+              <p className="text-sm text-gray-500">{OUTBOX_STATUS_LABELS[key]}</p>
+              <p className="text-2xl font-bold text-gray-900">{outbox.summary![key]}</p>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card className="p-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by recipient, name, receipt or text..."
+            className="flex-1 px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={channel}
+            onChange={(e) => setChannel(e.target.value as OutboxChannel | 'all')}
+            className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Channels</option>
+            {(Object.keys(OUTBOX_CHANNEL_LABELS) as OutboxChannel[]).map((key) => (
+              <option key={key} value={key}>{OUTBOX_CHANNEL_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as OutboxStatus | 'all')}
+            className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Statuses</option>
+            {(Object.keys(OUTBOX_STATUS_LABELS) as OutboxStatus[]).map((key) => (
+              <option key={key} value={key}>{OUTBOX_STATUS_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+      </Card>
+
+      <Card className="overflow-hidden">
+        <Table
+          columns={[
+            {
+              header: 'Created',
+              accessor: (row: OutboxMessage) => (
+                <span className="text-sm font-mono">{new Date(row.createdAt).toLocaleString()}</span>
+              ),
+            },
+            {
+              header: 'Recipient',
+              accessor: (row: OutboxMessage) => (
+                <div>
+                  <p className="font-medium text-gray-900">{row.recipientName || row.recipient}</p>
+                  <p className="text-sm text-gray-500">
+                    {OUTBOX_CHANNEL_LABELS[row.channel]}
+                    {row.recipientName && ` · ${row.recipient}`}
+                    {row.reroutedFrom && ` · instead of ${row.reroutedFrom}`}
+                    {row.fallbackMessageId && ' · resent by SMS'}
+                  </p>
+                </div>
+              ),
+            },
+            {
+              header: 'Message',
+              accessor: (row: OutboxMessage) => (
+                <p className="text-sm truncate max-w-xs">{row.subject || row.body}</p>
+              ),
+            },
+            {
+              header: 'Status',
+              accessor: (row: OutboxMessage) => (
+                <div>
+                  <Badge variant={statusVariant[row.status]}>{OUTBOX_STATUS_LABELS[row.status]}</Badge>
+                  {row.deliveryStatus && (
+                    <p className={`text-xs mt-1 ${row.deliveryStatus === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                      {OUTBOX_DELIVERY_LABELS[row.deliveryStatus]}
+                    </p>
+                  )}
+                  {row.status === 'queued' && row.attempts > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Retry {new Date(row.nextAttemptAt).toLocaleTimeString()}
+                    </p>
+                  )}
+                </div>
+              ),
+            },
+            {
+              header: 'Actions',
+              accessor: (row: OutboxMessage) => (
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setSelected(row)}>
+                    <span className="material-symbols-outlined text-sm">visibility</span>
+                  </Button>
+                  {row.status === 'failed' && (
+                    <Button variant="ghost" size="sm" onClick={() => outbox.retry(row.id)}>
+                      <span className="material-symbols-outlined text-sm">replay</span>
+                    </Button>
+                  )}
+                </div>
+              ),
+            },
+          ]}
+          data={outbox.messages}
+          keyExtractor={(row: OutboxMessage) => row.id}
+          loading={outbox.isLoading}
+          emptyMessage="No messages found"
+        />
+      </Card>
+
+      <Modal isOpen={!!selected} onClose={() => setSelected(null)} title="Message Details">
+        {selected && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">To</p>
+                <p className="font-medium">{selected.recipient}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Status</p>
+                <Badge variant={statusVariant[selected.status]}>{OUTBOX_STATUS_LABELS[selected.status]}</Badge>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Attempts</p>
+                <p className="font-medium">{selected.attempts}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">{selected.sentAt ? 'Sent' : 'Last Attempt'}</p>
+                <p className="font-medium">
+                  {selected.sentAt || selected.lastAttemptAt
+                    ? new Date((selected.sentAt || selected.lastAttemptAt)!).toLocaleString()
+                    : '—'}
+                </p>
+              </div>
+              {selected.deliveryStatus && (
+                <div>
+                  <p className="text-sm text-gray-500">Delivery</p>
+                  <p className="font-medium">
+                    {OUTBOX_DELIVERY_LABELS[selected.deliveryStatus]}
+                    {(selected.readAt || selected.deliveredAt) &&
+                      ` · ${new Date((selected.readAt || selected.deliveredAt)!).toLocaleString()}`}
+                  </p>
+                  {selected.deliveryError && <p className="text-sm text-red-600">{selected.deliveryError}</p>}
+                </div>
+              )}
+              {selected.reroutedFrom && (
+                <div>
+                  <p className="text-sm text-gray-500">Rerouted From</p>
+                  <p className="font-medium">{selected.reroutedFrom}</p>
+                </div>
+              )}
+              {selected.fallbackMessageId && (
+                <div>
+                  <p className="text-sm text-gray-500">Resent By SMS</p>
+                  <p className="font-medium font-mono text-sm break-all">{selected.fallbackMessageId}</p>
+                </div>
+              )}
+              {selected.fallbackFor && (
+                <div>
+                  <p className="text-sm text-gray-500">Instead Of WhatsApp</p>
+                  <p className="font-medium font-mono text-sm break-all">{selected.fallbackFor}</p>
+                </div>
+              )}
+              {selected.whatsapp?.document && (
+                <div>
+                  <p className="text-sm text-gray-500">Attachment</p>
+                  <a
+                    href={selected.whatsapp.document.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-medium text-blue-600 hover:underline"
+                  >
+                    {selected.whatsapp.document.filename}
+                  </a>
+                </div>
+              )}
+              {selected.language && (
+                <div>
+                  <p className="text-sm text-gray-500">Language</p>
+                  <p className="font-medium">{MESSAGE_LANGUAGE_LABELS[selected.language]}</p>
+                </div>
+              )}
+              {selected.reference && (
+                <div>
+                  <p className="text-sm text-gray-500">Reference</p>
+                  <p className="font-medium">{selected.reference}</p>
+                </div>
+              )}
+              {selected.providerMessageId && (
+                <div>
+                  <p className="text-sm text-gray-500">Provider ID</p>
+                  <p className="font-medium font-mono text-sm break-all">{selected.providerMessageId}</p>
+                </div>
+              )}
+            </div>
+            {selected.subject && (
+              <div>
+                <p className="text-sm text-gray-500">Subject</p>
+                <p className="font-medium">{selected.subject}</p>
+              </div>
+            )}
+            <div>
+              <p className="text-sm text-gray-500 mb-1">Text</p>
+              <pre className="p-3 bg-gray-50 rounded-lg text-sm whitespace-pre-wrap">{selected.body}</pre>
+            </div>
+            {selected.lastError && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{selected.lastError}</div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
+
+function TemplatesTab() {
+  const { user } = useAuth();
+  const { success } = useToast();
+  const [channel, setChannel] = useState<TemplateChannel>('sms');
+  const [language, setLanguage] = useState<MessageLanguage>('lg');
+  const [selectedType, setSelectedType] = useState<MessageTemplateType | null>(null);
+  const templates = useMessageTemplates(channel, language);
+  const selected = templates.templates.find(row => row.type === selectedType) || templates.templates[0];
+
+  const handleSave = async (template: MessageTemplate) => {
+    if (!selected) return false;
+    const saved = await templates.save(selected.type, template, user ? { id: user.uid, name: user.displayName } : undefined);
+    if (saved) success('Template saved', `${selected.label} in ${MESSAGE_LANGUAGE_LABELS[language]}`);
+    return saved;
+  };
+
+  const handleReset = async () => {
+    if (!selected) return false;
+    const reset = await templates.reset(selected.type);
+    if (reset) success('Template reset', `${selected.label} in ${MESSAGE_LANGUAGE_LABELS[language]}`);
+    return reset;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Message Templates</h2>
+          <p className="text-gray-500">
+            SMS and email wording in each language. Guardians get their own language, then the school default, then English.
+          </p>
+        </div>
+        <div className="w-56">
+          <label className="block text-sm font-medium text-gray-700 mb-2">School default language</label>
+          <select
+            value={templates.schoolLanguage}
+            onChange={(e) => {
+              templates.setSchoolLanguage(e.target.value as MessageLanguage);
+              success('Default language saved', MESSAGE_LANGUAGE_LABELS[e.target.value as MessageLanguage]);
+            }}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {MESSAGE_LANGUAGES.map(lang => <option key={lang} value={lang}>{MESSAGE_LANGUAGE_LABELS[lang]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {templates.error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{templates.error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+          {(['sms', 'email'] as TemplateChannel[]).map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                setChannel(option);
+                setSelectedType(null);
+              }}
+              className={`px-4 py-2 text-sm font-medium ${
+                channel === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'sms' ? 'SMS' : 'Email'}
+            </button>
+          ))}
+        </div>
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as MessageLanguage)}
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {MESSAGE_LANGUAGES.map(lang => <option key={lang} value={lang}>{MESSAGE_LANGUAGE_LABELS[lang]}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="overflow-hidden">
+          {templates.isLoading && templates.templates.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Loading templates...</p>
+          ) : (
+            <TemplateList
+              templates={templates.templates}
+              selected={selected?.type}
+              onSelect={(row) => setSelectedType(row.type)}
+            />
+          )}
+        </Card>
+        <Card className="p-6 lg:col-span-2">
+          {selected ? (
+            <TemplateEditor
+              key={`${selected.channel}:${selected.type}:${selected.language}`}
+              row={selected}
+              onSave={handleSave}
+              onReset={handleReset}
+              isSaving={templates.isSaving}
+            />
+          ) : (
+            <p className="text-gray-500">Choose a template to edit</p>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function RemindersTab() {
+  const { user } = useAuth();
+  const reminders = useReminders(user?.schoolId);
+  const { success, info } = useToast();
+  const [form, setForm] = useState(DEFAULT_REMINDER_SETTINGS);
+  const [selected, setSelected] = useState<ReminderRun | null>(null);
+
+  useEffect(() => {
+    setForm(reminders.settings);
+  }, [reminders.settings]);
+
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+  const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+  const runVariant: Record<ReminderRun['status'], 'info' | 'success' | 'danger'> = {
+    running: 'info',
+    completed: 'success',
+    failed: 'danger',
+  };
+
+  const outcomeVariant: Record<ReminderOutcome, 'default' | 'success' | 'warning' | 'danger'> = {
+    queued: 'success',
+    capped: 'warning',
+    no_contact: 'default',
+    failed: 'danger',
+  };
+
+  const handleSave = async () => {
+    const { enabled, runHour, quietHours, frequencyCap } = form;
+    if (await reminders.updateSettings({ enabled, runHour, quietHours, frequencyCap })) {
+      success('Reminder settings saved');
+    }
+  };
+
+  const handleRunNow = async () => {
+    const run = await reminders.runNow();
+    if (!run) return;
+    if (run.queued > 0) {
+      success('Reminders Queued', `${run.queued} reminder${run.queued === 1 ? '' : 's'} will go out outside quiet hours`);
+    } else {
+      info('No Reminders Due', run.alreadySent > 0 ? `${run.alreadySent} already sent earlier` : 'No deadlines, arrears or promises need a reminder today');
+    }
+  };
+
+  const describeDays = (item: ReminderRunItem) =>
+    item.days > 0 ? `Due in ${item.days} day(s)` : item.days === 0 ? 'Due today' : `${-item.days} day(s) overdue`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Reminders</h2>
+          <p className="text-gray-500">Daily SMS reminders for installment deadlines, overdue balances and payment promises</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleRunNow}
+          loading={reminders.isRunning}
+          disabled={!user?.schoolId}
+          icon={<span className="material-symbols-outlined">schedule_send</span>}
+        >
+          Run Now
+        </Button>
+      </div>
+
+      {reminders.error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{reminders.error}</div>
+      )}
+      {reminders.settings.lastError && (
+        <div className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">Last run problem: {reminders.settings.lastError}</div>
+      )}
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Schedule</h3>
+        {!reminders.isScheduled ? (
+          <p className="text-gray-500">
+            Reminders are sent automatically by the EduPay Ledger desktop app. Here they only go out when you run them.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.enabled}
+                onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              />
+              Send reminders every day
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Run at</label>
+                <select
+                  value={form.runHour}
+                  onChange={(e) => setForm({ ...form, runHour: Number(e.target.value) })}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {hours.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quiet from</label>
+                <select
+                  value={form.quietHours.startHour}
+                  onChange={(e) => setForm({ ...form, quietHours: { ...form.quietHours, startHour: Number(e.target.value) } })}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {hours.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quiet until</label>
+                <select
+                  value={form.quietHours.endHour}
+                  onChange={(e) => setForm({ ...form, quietHours: { ...form.quietHours, endHour: Number(e.target.value) } })}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {hours.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Reminders per guardian"
+                type="number"
+                min={1}
+                value={form.frequencyCap.maxMessages}
+                onChange={(e) => setForm({ ...form, frequencyCap: { ...form.frequencyCap, maxMessages: Number(e.target.value) } })}
+                hint="Counted per phone number, across all of a guardian's children"
+              />
+              <Input
+                label="Within (days)"
+                type="number"
+                min={1}
+                value={form.frequencyCap.periodDays}
+                onChange={(e) => setForm({ ...form, frequencyCap: { ...form.frequencyCap, periodDays: Number(e.target.value) } })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-500">
+                Last run: {reminders.settings.lastRunAt ? new Date(reminders.settings.lastRunAt).toLocaleString() : 'Never'}
+              </p>
+              <Button onClick={handleSave}>Save Settings</Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      <Card className="overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold">Run Log</h3>
+          <Button variant="outline" size="sm" onClick={reminders.refresh} loading={reminders.isLoading}>
+            Refresh
+          </Button>
+        </div>
+        <Table
+          columns={[
+            {
+              header: 'Started',
+              accessor: (row: ReminderRun) => (
+                <div>
+                  <p className="text-sm font-mono">{new Date(row.startedAt).toLocaleString()}</p>
+                  <p className="text-xs text-gray-500">{row.trigger === 'manual' ? 'Run by hand' : 'Scheduled'}</p>
+                </div>
+              ),
+            },
+            {
+              header: 'Students',
+              accessor: (row: ReminderRun) => <span className="text-sm">{row.studentsChecked}</span>,
+            },
+            {
+              header: 'Reminders',
+              accessor: (row: ReminderRun) => (
+                <p className="text-sm">
+                  {row.queued} queued
+                  {row.capped > 0 && ` · ${row.capped} over limit`}
+                  {row.failed > 0 && ` · ${row.failed} failed`}
+                  {row.alreadySent > 0 && ` · ${row.alreadySent} already sent`}
+                </p>
+              ),
+            },
+            {
+              header: 'Status',
+              accessor: (row: ReminderRun) => (
+                <div>
+                  <Badge variant={runVariant[row.status]}>{row.status.charAt(0).toUpperCase() + row.status.slice(1)}</Badge>
+                  {row.warnings?.length ? <p className="text-xs text-yellow-700 mt-1">{row.warnings.length} warning(s)</p> : null}
+                </div>
+              ),
+            },
+            {
+              header: 'Actions',
+              accessor: (row: ReminderRun) => (
+                <Button variant="ghost" size="sm" onClick={() => setSelected(row)}>
+                  <span className="material-symbols-outlined text-sm">visibility</span>
+                </Button>
+              ),
+            },
+          ]}
+          data={reminders.runs}
+          keyExtractor={(row: ReminderRun) => row.id}
+          loading={reminders.isLoading}
+          emptyMessage="No reminder runs yet"
+        />
+      </Card>
+
+      <Modal isOpen={!!selected} onClose={() => setSelected(null)} title="Reminder Run" size="lg">
+        {selected && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              {new Date(selected.startedAt).toLocaleString()}
+              {selected.finishedAt && ` – ${new Date(selected.finishedAt).toLocaleTimeString()}`}
+              {` · ${selected.studentsChecked} students checked`}
+            </p>
+            {selected.error && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{selected.error}</div>
+            )}
+            {selected.warnings?.map((warning) => (
+              <div key={warning} className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">{warning}</div>
+            ))}
+            {selected.items.length === 0 ? (
+              <p className="text-gray-500">No reminders were due.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {selected.items.map((item, index) => (
+                  <div key={index} className="flex items-center justify-between py-2 gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {item.studentName} · {REMINDER_KIND_LABELS[item.kind]}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {item.label} · {formatUGX(item.amount)} · {describeDays(item)} · {item.recipient || 'No phone'}
+                      </p>
+                      {item.error && <p className="text-sm text-red-600">{item.error}</p>}
+                    </div>
+                    <Badge variant={outcomeVariant[item.outcome]}>{REMINDER_OUTCOME_LABELS[item.outcome]}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
+
+function DevicesTab() {
+  const { devices, isLoading, error, refresh } = useSyncDevices();
+  const receipts = useReceiptAudit();
+  const integrity = useDatabaseIntegrity();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Devices</h2>
+          <p className="text-gray-500">Every computer that records payments and syncs with this school</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={refresh}
+          loading={isLoading}
+          icon={<span className="material-symbols-outlined">refresh</span>}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>
+      )}
+
+      <Card className="p-0 overflow-hidden">
+        <DeviceList devices={devices} isLoading={isLoading} />
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Receipt Numbers</h3>
+            <p className="text-sm text-gray-500">
+              Each device issues its own series, reserved in blocks so it can keep numbering offline
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={receipts.refresh} loading={receipts.isLoading}>
+              Run Audit
+            </Button>
+            <Button variant="secondary" size="sm" onClick={receipts.reserveBlock}>
+              Reserve Block
+            </Button>
+          </div>
+        </div>
+
+        {receipts.error && (
+          <div className="p-3 mb-4 bg-red-50 text-red-600 rounded-lg text-sm">{receipts.error}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Reserved blocks {receipts.academicYear && `(${receipts.academicYear})`}
+            </p>
+            <ReceiptBlockList blocks={receipts.blocks} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Gap audit</p>
+            {receipts.audit && <ReceiptGapReport audit={receipts.audit} />}
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Ledger Integrity</h3>
+            <p className="text-sm text-gray-500">
+              Checked after every database upgrade: student balances are recomputed from the payments journal
+              {integrity.lastRun && ` · database v${integrity.lastRun.version}`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={integrity.runCheck} loading={integrity.isChecking}>
+            Check Now
+          </Button>
+        </div>
+
+        {integrity.error && (
+          <div className="p-3 mb-4 bg-red-50 text-red-600 rounded-lg text-sm">{integrity.error}</div>
+        )}
+        {integrity.lastRun
+          ? <IntegrityReport report={integrity.lastRun.integrity} />
+          : <p className="text-sm text-gray-500">Not checked yet</p>}
+      </Card>
+    </div>
+  );
+}
+
+function BackupsTab() {
+  const backups = useLocalBackups();
+  const { user } = useAuth();
+  const { success, error: showError } = useToast();
+  const [form, setForm] = useState({ enabled: false, frequency: 'daily', retentionDays: 30, encryptionEnabled: true });
+  const [passphrase, setPassphrase] = useState('');
+  const [restoreFile, setRestoreFile] = useState<string | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+
+  useEffect(() => {
+    if (backups.settings) {
+      const { enabled, frequency, retentionDays, encryptionEnabled } = backups.settings;
+      setForm({ enabled, frequency, retentionDays, encryptionEnabled });
+    }
+  }, [backups.settings]);
+
+  const handleSave = async () => {
+    const saved = await backups.updateSettings({
+      ...form,
+      frequency: form.frequency as 'daily' | 'weekly' | 'monthly',
+      ...(passphrase ? { passphrase } : {}),
+    });
+    if (saved) {
+      setPassphrase('');
+      success('Backup settings saved');
+    }
+  };
+
+  const handleBackupNow = async () => {
+    const file = await backups.backupNow();
+    if (file) success('Backup created', `${file.fileName}${file.pruned?.length ? ` · ${file.pruned.length} old backup(s) removed` : ''}`);
+  };
+
+  const handleChooseFile = async () => {
+    const result = await window.electronAPI?.openFileDialog({
+      title: 'Open Backup',
+      filters: [{ name: 'EduPay Backups', extensions: ['epbk'] }],
+      properties: ['openFile'],
+    });
+    if (result && !result.canceled && result.filePaths[0]) openRestore(result.filePaths[0]);
+  };
+
+  const openRestore = (filePath: string) => {
+    backups.closeBackup();
+    setRestorePassphrase('');
+    setRestoreFile(filePath);
+  };
+
+  const closeRestore = () => {
+    backups.closeBackup();
+    setRestoreFile(null);
+  };
+
+  const handleRestore = async () => {
+    if (!user) return;
+    const result = await backups.restoreOpenedBackup(user.uid, user.displayName);
+    if (result) {
+      setRestoreFile(null);
+      success(
+        'Backup restored',
+        result.keptPayments > 0
+          ? `${result.keptPayments} payment(s) recorded after the backup were kept and ${result.rebalancedStudents} balance(s) updated`
+          : undefined
+      );
+      backups.refresh();
+    } else {
+      showError('Restore failed', 'No data was changed');
+    }
+  };
+
+  if (!backups.isAvailable && !backups.isLoading) {
+    return (
+      <Card className="p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Backups</h2>
+        <p className="text-gray-500">
+          Encrypted backups to a folder or USB drive are made by the EduPay Ledger desktop app.
+        </p>
+      </Card>
+    );
+  }
+
+  const settings = backups.settings;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Backups</h2>
+          <p className="text-gray-500">Encrypted copies of every table on this computer, kept in a folder or on a USB drive</p>
+        </div>
+        <Button
+          variant="primary"
+          onClick={handleBackupNow}
+          loading={backups.isWorking && !restoreFile}
+          disabled={!settings?.folder}
+          icon={<span className="material-symbols-outlined">backup</span>}
+        >
+          Back Up Now
+        </Button>
+      </div>
+
+      {backups.error && !restoreFile && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{backups.error}</div>
+      )}
+      {settings?.lastError && (
+        <div className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">Last backup problem: {settings.lastError}</div>
+      )}
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Schedule</h3>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-700">Backup folder</p>
+              <p className="text-sm text-gray-500 font-mono truncate">{settings?.folder || 'Not chosen'}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={backups.chooseFolder}>
+              Choose Folder
+            </Button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+            />
+            Back up automatically
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Frequency</label>
+              <select
+                value={form.frequency}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <Input
+              label="Keep backups for (days)"
+              type="number"
+              min={1}
+              value={form.retentionDays}
+              onChange={(e) => setForm({ ...form, retentionDays: Number(e.target.value) })}
+              hint="The newest backup is always kept"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.encryptionEnabled}
+              onChange={(e) => setForm({ ...form, encryptionEnabled: e.target.checked })}
+            />
+            Encrypt backups
+          </label>
+
+          {form.encryptionEnabled && (
+            <Input
+              label={settings?.hasPassphrase ? 'Change passphrase' : 'Passphrase'}
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              hint="Needed to restore on another computer. Store it somewhere safe; backups cannot be opened without it."
+            />
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Last backup: {settings?.lastBackupAt ? new Date(settings.lastBackupAt).toLocaleString() : 'Never'}
+            </p>
+            <Button onClick={handleSave} loading={backups.isWorking && !restoreFile}>
+              Save Settings
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Backup Files</h3>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={backups.refresh} loading={backups.isLoading}>
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleChooseFile}>
+              Open File…
+            </Button>
+          </div>
+        </div>
+        <BackupFileList
+          backups={backups.backups}
+          onOpen={(backup) => openRestore(backup.filePath)}
+          disabled={backups.isWorking}
+        />
+      </Card>
+
+      <Modal isOpen={!!restoreFile} onClose={closeRestore} title="Restore Backup" size="lg">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 font-mono break-all">{restoreFile}</p>
+
+          {!backups.openedBackup ? (
+            <>
+              <Input
+                label="Passphrase"
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                hint="Leave blank to use the passphrase saved on this computer"
+              />
+              {backups.error && (
+                <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{backups.error}</div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closeRestore}>Cancel</Button>
+                <Button
+                  onClick={() => restoreFile && backups.openBackup(restoreFile, restorePassphrase || undefined)}
+                  loading={backups.isWorking}
+                >
+                  Verify Backup
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <BackupRestorePreview preview={backups.openedBackup.preview} />
+              <p className="text-sm text-gray-600">
+                Restoring replaces students, fees and settings on this computer with the backup.
+                Payments, journal entries and audit logs recorded since the backup are kept.
+              </p>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closeRestore}>Cancel</Button>
+                <Button
+                  variant="danger"
+                  onClick={handleRestore}
+                  loading={backups.isWorking}
+                  disabled={!backups.openedBackup.preview.canRestore}
+                >
+                  Restore
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
 function AppearanceTab({ settings, actions }: { settings: any; actions: any }) {
   const [appSettings, setAppSettings] = useState(settings.appSettings);
   const [isSaving, setIsSaving] = useState(false);
@@ -1249,6 +2283,8 @@ export default function SettingsPage() {
     sendTestSMS,
     syncPaymentGateways,
     createBackup,
+    anchorQueue,
+    anchorNow,
     exportData,
     getRoleConfig,
     getLogLevelConfig,
@@ -1285,6 +2321,11 @@ export default function SettingsPage() {
     { id: 'users', label: 'Users', icon: 'group' },
     { id: 'integrations', label: 'Integrations', icon: 'extension' },
     { id: 'notifications', label: 'Notifications', icon: 'notifications' },
+    { id: 'messages', label: 'Messages', icon: 'outbox' },
+    { id: 'templates', label: 'Templates', icon: 'translate' },
+    { id: 'reminders', label: 'Reminders', icon: 'schedule_send' },
+    { id: 'devices', label: 'Devices', icon: 'devices' },
+    { id: 'backups', label: 'Backups', icon: 'backup' },
     { id: 'logs', label: 'System Logs', icon: 'terminal' },
     { id: 'appearance', label: 'Appearance', icon: 'palette' },
   ];
@@ -1313,6 +2354,8 @@ export default function SettingsPage() {
     sendTestSMS,
     syncPaymentGateways,
     createBackup,
+    anchorQueue,
+    anchorNow,
     exportData,
     getRoleConfig,
     getLogLevelConfig,
@@ -1351,6 +2394,11 @@ export default function SettingsPage() {
       {activeTab === 'users' && <UsersTab settings={settings} actions={actions} />}
       {activeTab === 'integrations' && <IntegrationsTab settings={settings} actions={actions} />}
       {activeTab === 'notifications' && <NotificationsTab settings={settings} actions={actions} />}
+      {activeTab === 'messages' && <MessagesTab />}
+      {activeTab === 'templates' && <TemplatesTab />}
+      {activeTab === 'reminders' && <RemindersTab />}
+      {activeTab === 'devices' && <DevicesTab />}
+      {activeTab === 'backups' && <BackupsTab />}
       {activeTab === 'logs' && <LogsTab settings={settings} actions={actions} />}
       {activeTab === 'appearance' && <AppearanceTab settings={settings} actions={actions} />}
     </div>
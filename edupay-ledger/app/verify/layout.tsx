@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Verify a Receipt - EduPay Ledger',
+  description: 'Check a school fee receipt against the school\'s records',
+};
+
+export default function VerifyLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
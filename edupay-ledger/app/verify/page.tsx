@@ -0,0 +1,167 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { formatUGX } from '@/lib/utils';
+import { getStellarExplorerUrl, formatTxHash } from '@/lib/stellar';
+import {
+  parseVerificationCode,
+  ReceiptVerificationCode,
+  ReceiptVerificationResult,
+  ReceiptVerificationStatus,
+} from '@/lib/receipt-verification';
+import { verifyReceipt } from '@/lib/services/verification.service';
+
+const STATUS_DISPLAY: Record<ReceiptVerificationStatus, { label: string; icon: string; variant: 'success' | 'danger' | 'warning'; color: string }> = {
+  authentic: { label: 'Authentic', icon: 'verified', variant: 'success', color: 'text-green-600' },
+  void: { label: 'Void', icon: 'block', variant: 'danger', color: 'text-red-600' },
+  uncleared: { label: 'Not Cleared', icon: 'schedule', variant: 'warning', color: 'text-yellow-600' },
+  unanchored: { label: 'Not Yet Anchored', icon: 'hourglass_top', variant: 'warning', color: 'text-yellow-600' },
+  altered: { label: 'Altered', icon: 'gpp_bad', variant: 'danger', color: 'text-red-600' },
+  unknown: { label: 'Unknown', icon: 'help', variant: 'warning', color: 'text-yellow-600' },
+};
+
+function VerificationResult({ result }: { result: ReceiptVerificationResult }) {
+  const display = STATUS_DISPLAY[result.status];
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <span className={`material-symbols-outlined text-5xl ${display.color}`}>{display.icon}</span>
+        <div className="mt-2">
+          <Badge variant={display.variant}>{display.label}</Badge>
+        </div>
+        <p className="text-sm text-slate-600 mt-3">{result.reason}</p>
+      </div>
+
+      {result.payment && (
+        <div className="bg-slate-50 rounded-lg p-4 space-y-2 text-sm">
+          <p className="text-xs text-slate-500">Check these details match the paper receipt</p>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Receipt</span>
+            <span className="font-semibold">{result.payment.receiptNumber}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Student</span>
+            <span className="font-semibold">{result.payment.studentName}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Amount</span>
+            <span className="font-semibold">{formatUGX(result.payment.amount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Date</span>
+            <span className="font-semibold">{new Date(result.payment.paymentDate).toLocaleDateString()}</span>
+          </div>
+          {result.checkedAgainst === 'stellar' && result.payment.stellarTxHash && (
+            <div className="flex justify-between">
+              <span className="text-slate-500">Stellar</span>
+              <a
+                href={getStellarExplorerUrl(result.payment.stellarTxHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-primary hover:underline"
+              >
+                {formatTxHash(result.payment.stellarTxHash)}
+              </a>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VerifyReceipt() {
+  const searchParams = useSearchParams();
+  const [link, setLink] = useState('');
+  const [result, setResult] = useState<ReceiptVerificationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const runCheck = async (code: ReceiptVerificationCode) => {
+    setLoading(true);
+    setError('');
+    try {
+      setResult(await verifyReceipt(code));
+    } catch (err: any) {
+      setError(err.message || 'The receipt could not be checked. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Opened from a receipt's QR code
+  useEffect(() => {
+    const code = parseVerificationCode(new URLSearchParams(searchParams.toString()));
+    if (code) runCheck(code);
+  }, [searchParams]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = parseVerificationCode(link);
+    if (!code) {
+      setError('That is not a receipt verification link. Scan the QR code on the receipt and paste the link it opens.');
+      return;
+    }
+    runCheck(code);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-white rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <span className="material-symbols-outlined text-primary text-3xl">receipt_long</span>
+          </div>
+          <h1 className="text-2xl font-bold text-white">EduPay Ledger</h1>
+          <p className="text-white/70 mt-2">Receipt Verification</p>
+        </div>
+
+        <Card className="p-6">
+          {loading ? (
+            <p className="text-center text-slate-500 py-8">Checking the receipt…</p>
+          ) : result ? (
+            <div className="space-y-6">
+              <VerificationResult result={result} />
+              <Button variant="outline" className="w-full" onClick={() => setResult(null)}>
+                Check Another Receipt
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-center text-slate-500 text-sm">
+                Scan the QR code on a receipt, or paste the link it opens
+              </p>
+              <Input
+                value={link}
+                onChange={(e) => setLink(e.target.value)}
+                placeholder="https://…/verify?s=…&r=…&h=…"
+                icon={<span className="material-symbols-outlined text-sm">link</span>}
+                required
+              />
+              {error && (
+                <p className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</p>
+              )}
+              <Button type="submit" className="w-full">
+                Verify Receipt
+              </Button>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyReceiptPage() {
+  return (
+    <Suspense fallback={null}>
+      <VerifyReceipt />
+    </Suspense>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Backup Components
+ * Backup files in the chosen folder, the preview shown before a restore
+ * and the ledger integrity report
+ */
+
+'use client';
+
+import React from 'react';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import type { BackupPreview, BackupRestoreMode } from '../../lib/db/backup-format';
+import type { LedgerIntegrityIssue, LedgerIntegrityReport } from '../../lib/db/schema-alignment';
+import type { BackupFileInfo } from '../../types/electron';
+
+const MODE_LABELS: Record<BackupRestoreMode, string> = {
+  replace: 'Replaced',
+  merge: 'Merged, newer records kept',
+  reset: 'Re-downloaded on next sync',
+};
+
+const ISSUE_LABELS: Record<LedgerIntegrityIssue['kind'], string> = {
+  paid_mismatch: 'Amount paid differs from the journal',
+  balance_mismatch: 'Balance is not fees less amount paid',
+  missing_student: 'Payment for a student not on this device',
+  missing_journal_entry: 'Payment has no journal entry',
+};
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function totalRecords(counts: Record<string, number>) {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+// ============================================
+// BACKUP FILE LIST
+// ============================================
+
+interface BackupFileListProps {
+  backups: BackupFileInfo[];
+  onOpen: (backup: BackupFileInfo) => void;
+  disabled?: boolean;
+}
+
+export function BackupFileList({ backups, onOpen, disabled }: BackupFileListProps) {
+  if (backups.length === 0) {
+    return <p className="text-sm text-gray-500">No backups in this folder yet</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      {backups.map(backup => (
+        <div key={backup.filePath} className="flex items-center justify-between py-3">
+          <div>
+            <p className="text-sm font-medium text-gray-900">
+              {new Date(backup.summary.createdAt).toLocaleString()}
+            </p>
+            <p className="text-xs text-gray-500">
+              {totalRecords(backup.summary.counts).toLocaleString()} records · {formatSize(backup.sizeBytes)} · database v{backup.summary.schemaVersion}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={backup.encrypted ? 'success' : 'warning'}>
+              {backup.encrypted ? 'Encrypted' : 'Not encrypted'}
+            </Badge>
+            <Button variant="outline" size="sm" onClick={() => onOpen(backup)} disabled={disabled}>
+              Restore…
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================
+// BACKUP RESTORE PREVIEW
+// ============================================
+
+interface BackupRestorePreviewProps {
+  preview: BackupPreview;
+}
+
+export function BackupRestorePreview({ preview }: BackupRestorePreviewProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Badge variant={preview.canRestore ? 'success' : 'danger'}>
+          {preview.canRestore ? 'Verified' : 'Cannot restore'}
+        </Badge>
+        <span className="text-sm text-gray-600">
+          Taken {new Date(preview.createdAt).toLocaleString()} · database v{preview.schemaVersion}
+        </span>
+      </div>
+
+      {preview.problems.length > 0 && (
+        <ul className="p-3 bg-red-50 text-red-700 rounded-lg text-sm space-y-1">
+          {preview.problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      {preview.warnings.length > 0 && (
+        <ul className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm space-y-1">
+          {preview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 font-medium">Table</th>
+            <th className="py-2 font-medium text-right">In backup</th>
+            <th className="py-2 font-medium text-right">Now</th>
+            <th className="py-2 font-medium pl-4">On restore</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {preview.tables.map(table => (
+            <tr key={table.table}>
+              <td className="py-2 font-mono text-gray-900">{table.table}</td>
+              <td className="py-2 text-right">{table.backupCount.toLocaleString()}</td>
+              <td className="py-2 text-right text-gray-500">{table.currentCount.toLocaleString()}</td>
+              <td className="py-2 pl-4 text-gray-600">{MODE_LABELS[table.mode]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================
+// INTEGRITY REPORT
+// ============================================
+
+interface IntegrityReportProps {
+  report: LedgerIntegrityReport;
+}
+
+export function IntegrityReport({ report }: IntegrityReportProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Badge variant={report.issues.length === 0 ? 'success' : 'warning'}>
+          {report.issues.length === 0 ? 'All records add up' : `${report.issues.length} to review`}
+        </Badge>
+        <span className="text-sm text-gray-600">
+          {report.studentsChecked.toLocaleString()} students and {report.paymentsChecked.toLocaleString()} payments checked
+          {' '}{new Date(report.checkedAt).toLocaleString()}
+        </span>
+      </div>
+
+      {report.issues.length > 0 && (
+        <div className="divide-y max-h-64 overflow-y-auto">
+          {report.issues.map(issue => (
+            <div key={`${issue.kind}-${issue.recordId}`} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{issue.label}</p>
+                <p className="text-xs text-gray-500">{ISSUE_LABELS[issue.kind]}</p>
+              </div>
+              {issue.expected !== undefined && (
+                <span className="text-xs font-mono text-yellow-700">
+                  {issue.actual?.toLocaleString()} → {issue.expected.toLocaleString()}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
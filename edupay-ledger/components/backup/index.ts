@@ -0,0 +1,9 @@
+/**
+ * Backup Components Index
+ */
+
+export {
+  BackupFileList,
+  BackupRestorePreview,
+  IntegrityReport,
+} from './BackupComponents';
@@ -280,6 +280,7 @@ export function PendingTasksWidget({ tasks, onTaskClick, onViewAll, maxItems = 5
     clearance_request: '✅',
     reconciliation: '🏦',
     report_due: '📊',
+    cheque_clearance: '🧾',
   };
 
   return (
@@ -5,6 +5,8 @@ import { useRouter } from "next/navigation";
 import { Sidebar, MobileNav } from "@/components/navigation/Sidebar";
 import { TopNav } from "@/components/navigation/TopNav";
 import { useFirebaseAuth } from "@/contexts/AuthContext";
+import { useScheduledBackups } from "@/hooks/useBackup";
+import { useScheduledReminders } from "@/hooks/useReminders";
 
 interface AuthenticatedLayoutProps {
   children: React.ReactNode;
@@ -23,6 +25,10 @@ export function AuthenticatedLayout({
   const router = useRouter();
   const { user, isLoading, isAuthenticated, isDemoMode } = useFirebaseAuth();
 
+  // Take scheduled backups and send the day's reminders while the app is open
+  useScheduledBackups();
+  useScheduledReminders(user?.schoolId);
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!isLoading && requireAuth && !isAuthenticated && !isDemoMode) {
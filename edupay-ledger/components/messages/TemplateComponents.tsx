@@ -0,0 +1,199 @@
+/**
+ * Message Template Components
+ * The list of SMS and email templates in one language, and the editor with
+ * its placeholder checks and live preview
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Input, Textarea } from '../ui/Input';
+import {
+  checkPlaceholders,
+  fillPlaceholders,
+  measureSms,
+  SAMPLE_TEMPLATE_DATA,
+} from '../../lib/templates/render';
+import {
+  MESSAGE_LANGUAGE_LABELS,
+  MessageTemplate,
+  MessageTemplateRow,
+  MessageTemplateType,
+} from '../../types/message-template';
+
+function describeSource(row: MessageTemplateRow): { label: string; variant: 'default' | 'info' | 'warning' } {
+  if (row.custom) return { label: 'Edited', variant: 'info' };
+  if (row.builtIn) return { label: 'Built-in', variant: 'default' };
+  return { label: `Sent in ${MESSAGE_LANGUAGE_LABELS[row.currentLanguage]}`, variant: 'warning' };
+}
+
+// ============================================
+// TEMPLATE LIST
+// ============================================
+
+interface TemplateListProps {
+  templates: MessageTemplateRow[];
+  selected?: MessageTemplateType;
+  onSelect: (row: MessageTemplateRow) => void;
+}
+
+export function TemplateList({ templates, selected, onSelect }: TemplateListProps) {
+  return (
+    <div className="divide-y divide-gray-100">
+      {templates.map(row => {
+        const source = describeSource(row);
+        return (
+          <button
+            key={row.type}
+            type="button"
+            onClick={() => onSelect(row)}
+            className={`w-full text-left px-4 py-3 flex items-center justify-between gap-3 transition-colors ${
+              row.type === selected ? 'bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">{row.label}</p>
+              <p className="text-xs text-gray-500 truncate">{row.description}</p>
+            </div>
+            <Badge variant={source.variant}>{source.label}</Badge>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================
+// TEMPLATE EDITOR
+// ============================================
+
+interface TemplateEditorProps {
+  row: MessageTemplateRow;
+  onSave: (template: MessageTemplate) => Promise<boolean>;
+  onReset: () => Promise<boolean>;
+  isSaving?: boolean;
+}
+
+export function TemplateEditor({ row, onSave, onReset, isSaving }: TemplateEditorProps) {
+  const isEmail = row.channel === 'email';
+  // Without a translation the editor starts from the wording sent now, ready to translate
+  const initial = row.custom || row.builtIn || row.current;
+  const [subject, setSubject] = useState(initial.subject || '');
+  const [body, setBody] = useState(initial.body);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    setSubject(initial.subject || '');
+    setBody(initial.body);
+  }, [initial]);
+
+  const { unknown, missing } = checkPlaceholders(`${subject} ${body}`, row.placeholders);
+  const preview = fillPlaceholders(body, SAMPLE_TEMPLATE_DATA);
+  const size = measureSms(preview);
+  const changed = body !== initial.body || subject !== (initial.subject || '');
+
+  const insertPlaceholder = (name: string) => {
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(`${body.slice(0, start)}{${name}}${body.slice(end)}`);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + name.length + 2, start + name.length + 2);
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{row.label}</h3>
+          <p className="text-sm text-gray-500">{row.description} · {MESSAGE_LANGUAGE_LABELS[row.language]}</p>
+        </div>
+        <Badge variant={describeSource(row).variant}>{describeSource(row).label}</Badge>
+      </div>
+
+      {!row.builtIn && !row.custom && (
+        <div className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">
+          There is no {MESSAGE_LANGUAGE_LABELS[row.language]} wording yet, so guardians get
+          the {MESSAGE_LANGUAGE_LABELS[row.currentLanguage]}. Translate it below and save.
+        </div>
+      )}
+
+      {isEmail && (
+        <Input label="Subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+      )}
+      <Textarea
+        ref={bodyRef}
+        label="Message"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={isEmail ? 12 : 5}
+        className="font-mono text-sm"
+      />
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-2">Placeholders — click to insert</p>
+        <div className="flex flex-wrap gap-2">
+          {row.placeholders.map(name => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => insertPlaceholder(name)}
+              className={`px-2 py-1 rounded text-xs font-mono border ${
+                missing.includes(name)
+                  ? 'border-yellow-300 bg-yellow-50 text-yellow-800'
+                  : 'border-gray-200 bg-gray-50 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {`{${name}}`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {unknown.length > 0 && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">
+          Not a placeholder for this message: {unknown.map(name => `{${name}}`).join(', ')}
+        </div>
+      )}
+      {unknown.length === 0 && missing.length > 0 && (
+        <div className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">
+          Not used: {missing.map(name => `{${name}}`).join(', ')}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-xs font-medium text-gray-500">Preview with sample details</p>
+          {!isEmail && (
+            <p className={`text-xs ${size.segments > 1 ? 'text-yellow-700' : 'text-gray-500'}`}>
+              {size.characters} characters · {size.segments} SMS{size.unicode && ' · special characters'}
+            </p>
+          )}
+        </div>
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-800 whitespace-pre-wrap">
+          {isEmail && <p className="font-semibold mb-2">{fillPlaceholders(subject, SAMPLE_TEMPLATE_DATA)}</p>}
+          {preview}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {row.custom && (
+          <Button variant="outline" onClick={onReset} disabled={isSaving}>
+            {row.builtIn ? 'Use Built-in Wording' : 'Remove Translation'}
+          </Button>
+        )}
+        <Button
+          onClick={() => onSave({ ...(isEmail && { subject }), body })}
+          loading={isSaving}
+          disabled={!changed || !body.trim() || unknown.length > 0}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Message Components Index
+ */
+
+export {
+  TemplateEditor,
+  TemplateList,
+} from './TemplateComponents';
@@ -22,6 +22,7 @@ import {
   formatUGX,
   getPaymentMethodName,
 } from '../../types/parent-portal';
+import { CollectionRequest, CollectionStatus, COLLECTION_PROVIDER_NAMES } from '../../types/collection';
 
 // ============================================
 // PARENT DASHBOARD OVERVIEW
@@ -483,6 +484,12 @@ export function FeeStatementView({ statement, onPrint, onDownload }: FeeStatemen
                 <td className="py-2 px-4 text-right text-orange-700">{statement.previousBalance.toLocaleString()}</td>
               </tr>
             )}
+            {statement.creditBroughtForward > 0 && (
+              <tr className="border-b bg-blue-50">
+                <td className="py-2 px-4 text-blue-700">Credit from Previous Term</td>
+                <td className="py-2 px-4 text-right text-blue-700">-{statement.creditBroughtForward.toLocaleString()}</td>
+              </tr>
+            )}
             <tr className="font-bold bg-gray-100">
               <td className="py-2 px-4">Total Owed</td>
               <td className="py-2 px-4 text-right">{statement.totalOwed.toLocaleString()}</td>
@@ -527,14 +534,26 @@ export function FeeStatementView({ statement, onPrint, onDownload }: FeeStatemen
       </div>
 
       {/* Balance */}
-      <div className="p-4 bg-red-50 rounded-lg mb-6">
-        <div className="flex justify-between items-center">
-          <span className="font-bold text-lg">Current Balance</span>
-          <span className="font-bold text-xl text-red-600">
-            {formatUGX(statement.currentBalance)}
-          </span>
+      {statement.creditBalance > 0 ? (
+        <div className="p-4 bg-blue-50 rounded-lg mb-6">
+          <div className="flex justify-between items-center">
+            <span className="font-bold text-lg">Credit Balance</span>
+            <span className="font-bold text-xl text-blue-600">
+              {formatUGX(statement.creditBalance)}
+            </span>
+          </div>
+          <p className="text-sm text-blue-700 mt-1">Will be applied to next term&apos;s fees</p>
         </div>
-      </div>
+      ) : (
+        <div className="p-4 bg-red-50 rounded-lg mb-6">
+          <div className="flex justify-between items-center">
+            <span className="font-bold text-lg">Current Balance</span>
+            <span className="font-bold text-xl text-red-600">
+              {formatUGX(statement.currentBalance)}
+            </span>
+          </div>
+        </div>
+      )}
 
       {/* Footer */}
       <div className="text-center text-sm text-gray-500 border-t pt-4">
@@ -714,3 +733,59 @@ export function QuickPayWidget({ studentName, balance, onPay, isProcessing }: Qu
     </Card>
   );
 }
+
+// ============================================
+// COLLECTION STATUS
+// ============================================
+
+const COLLECTION_STATUS_DISPLAY: Record<CollectionStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'default'; message: string }> = {
+  pending: { label: 'Waiting for approval', variant: 'warning', message: 'Approve the prompt on your phone by entering your mobile money PIN.' },
+  successful: { label: 'Paid', variant: 'success', message: 'The payment was received.' },
+  failed: { label: 'Failed', variant: 'danger', message: 'The payment did not go through.' },
+  timeout: { label: 'Expired', variant: 'default', message: 'The prompt expired before it was approved.' },
+};
+
+interface CollectionStatusCardProps {
+  collection: CollectionRequest;
+  onDone: () => void;
+  onRetry: () => void;
+}
+
+export function CollectionStatusCard({ collection, onDone, onRetry }: CollectionStatusCardProps) {
+  const display = COLLECTION_STATUS_DISPLAY[collection.status];
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">{formatUGX(collection.amount)}</h3>
+        <Badge variant={display.variant}>{display.label}</Badge>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <p className="text-gray-600">{collection.reason || display.message}</p>
+        <div className="flex justify-between">
+          <span className="text-gray-500">{COLLECTION_PROVIDER_NAMES[collection.provider]}</span>
+          <span className="font-mono">{collection.phoneNumber}</span>
+        </div>
+        {collection.receiptNumber && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">Receipt</span>
+            <span className="font-semibold">{collection.receiptNumber}</span>
+          </div>
+        )}
+        {collection.status === 'successful' && !collection.receiptNumber && (
+          <p className="text-xs text-gray-500">The school will issue your receipt shortly.</p>
+        )}
+      </div>
+
+      <div className="flex gap-3 mt-4">
+        {(collection.status === 'failed' || collection.status === 'timeout') && (
+          <Button className="flex-1" onClick={onRetry}>Try Again</Button>
+        )}
+        <Button variant="outline" className="flex-1" onClick={onDone}>
+          {collection.status === 'pending' ? 'Close' : 'Done'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -10,4 +10,5 @@ export {
   FeeStatementView,
   AnnouncementCard,
   QuickPayWidget,
+  CollectionStatusCard,
 } from './ParentPortalComponents';
@@ -17,12 +17,18 @@ import {
   BankTransactionWithStatus,
   ReconciliationSession,
   ReconciliationSummary,
+  ReconciliationStatement,
   PossibleMatch,
   BankImportConfig,
+  BankTransaction,
+  StatementImporter,
   formatReconciliationStatus,
   getStatusColor,
   UGANDA_BANK_CONFIGS,
 } from '../../types/bank-reconciliation';
+import { DATE_FORMAT_PRESETS } from '../../lib/reconciliation/statement-formats';
+import { buildCreditPayment, StudentGuess } from '../../lib/reconciliation/credit-posting';
+import { getChannelDisplayName, PaymentChannel, PaymentRecordInput } from '../../types/payment';
 
 // ============================================
 // RECONCILIATION SUMMARY CARD
@@ -123,9 +129,10 @@ export function ReconciliationSummaryCard({ summary }: ReconciliationSummaryCard
 
 interface TransactionRowProps {
   transaction: BankTransactionWithStatus;
-  onMatch?: (paymentId: string) => void;
+  onMatch?: (paymentId: string, suggestion?: PossibleMatch) => void; // Split and aggregate matches need the suggestion
   onUnmatch?: () => void;
   onIgnore?: (reason: string) => void;
+  onPostAsPayment?: () => void; // Record an unmatched credit as a new payment
   onViewDetails?: () => void;
 }
 
@@ -134,6 +141,7 @@ export function TransactionRow({
   onMatch,
   onUnmatch,
   onIgnore,
+  onPostAsPayment,
   onViewDetails,
 }: TransactionRowProps) {
   const [showMatchModal, setShowMatchModal] = useState(false);
@@ -161,6 +169,14 @@ export function TransactionRow({
               <span className="text-xs text-gray-400 font-mono">{transaction.reference}</span>
             </div>
             <p className="font-medium text-gray-900 truncate">{transaction.description}</p>
+            {(transaction.payerMsisdn || transaction.studentReference) && (
+              <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                {transaction.payerMsisdn && <span className="font-mono">{transaction.payerMsisdn}</span>}
+                {transaction.studentReference && (
+                  <span className="font-mono text-blue-600">{transaction.studentReference}</span>
+                )}
+              </div>
+            )}
             {transaction.match && (
               <p className="text-xs text-green-600 mt-1">
                 ✓ Matched with {transaction.match.matchType === 'auto' ? 'confidence' : 'manually'} 
@@ -180,6 +196,11 @@ export function TransactionRow({
                   <Button size="sm" onClick={() => setShowMatchModal(true)}>
                     Match
                   </Button>
+                  {transaction.type === 'credit' && onPostAsPayment && (
+                    <Button size="sm" variant="outline" onClick={onPostAsPayment}>
+                      Post as Payment
+                    </Button>
+                  )}
                   <Button size="sm" variant="outline" onClick={() => setShowIgnoreModal(true)}>
                     Ignore
                   </Button>
@@ -204,12 +225,15 @@ export function TransactionRow({
             <div className="space-y-2">
               {transaction.possibleMatches.slice(0, 2).map((match) => (
                 <div
-                  key={match.paymentId}
+                  key={getSuggestionKey(match)}
                   className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded cursor-pointer hover:bg-gray-100"
-                  onClick={() => onMatch?.(match.paymentId)}
+                  onClick={() => onMatch?.(match.paymentId, match)}
                 >
                   <div>
                     <p className="font-medium">{match.studentName}</p>
+                    {getMatchKindLabel(match) && (
+                      <p className="text-xs text-blue-600">{getMatchKindLabel(match)}</p>
+                    )}
                     <p className="text-xs text-gray-500">
                       {formatAmount(match.paymentAmount)} • {match.receiptNumber}
                     </p>
@@ -238,8 +262,8 @@ export function TransactionRow({
       >
         <PossibleMatchesList
           matches={transaction.possibleMatches || []}
-          onSelect={(paymentId) => {
-            onMatch?.(paymentId);
+          onSelect={(paymentId, suggestion) => {
+            onMatch?.(paymentId, suggestion);
             setShowMatchModal(false);
           }}
         />
@@ -298,7 +322,17 @@ export function TransactionRow({
 
 interface PossibleMatchesListProps {
   matches: PossibleMatch[];
-  onSelect: (paymentId: string) => void;
+  onSelect: (paymentId: string, suggestion: PossibleMatch) => void;
+}
+
+function getSuggestionKey(match: PossibleMatch): string {
+  return [match.kind || 'single', ...(match.paymentIds || [match.paymentId]), ...(match.bankTransactionIds || [])].join('-');
+}
+
+function getMatchKindLabel(match: PossibleMatch): string | null {
+  if (match.kind === 'split') return `One transfer for ${match.paymentIds?.length} payments`;
+  if (match.kind === 'aggregate') return `${match.bankTransactionIds?.length} transfers for one payment`;
+  return null;
 }
 
 export function PossibleMatchesList({ matches, onSelect }: PossibleMatchesListProps) {
@@ -317,14 +351,17 @@ export function PossibleMatchesList({ matches, onSelect }: PossibleMatchesListPr
     <div className="space-y-2 max-h-96 overflow-y-auto">
       {matches.map((match) => (
         <div
-          key={match.paymentId}
-          onClick={() => onSelect(match.paymentId)}
+          key={getSuggestionKey(match)}
+          onClick={() => onSelect(match.paymentId, match)}
           className="p-3 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
         >
           <div className="flex items-center justify-between mb-2">
             <div>
               <p className="font-medium">{match.studentName}</p>
               <p className="text-xs text-gray-500">{match.studentId}</p>
+              {getMatchKindLabel(match) && (
+                <p className="text-xs text-blue-600">{getMatchKindLabel(match)}</p>
+              )}
             </div>
             <span className={`px-2 py-1 rounded text-sm font-medium ${
               match.confidence >= 80 ? 'bg-green-100 text-green-700' :
@@ -486,6 +523,740 @@ export function BankConfigSelector({
   );
 }
 
+// ============================================
+// STATEMENT IMPORTER SELECTOR
+// ============================================
+
+interface StatementImporterSelectorProps {
+  importers: StatementImporter[];
+  selected: string | null;
+  onSelect: (importer: StatementImporter) => void;
+  detected?: StatementImporter | null;
+}
+
+export function StatementImporterSelector({
+  importers,
+  selected,
+  onSelect,
+  detected,
+}: StatementImporterSelectorProps) {
+  const groups = [
+    { title: 'Mobile Money', importers: importers.filter(i => i.source !== 'bank') },
+    { title: 'Banks', importers: importers.filter(i => i.source === 'bank') },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold">Select Statement Type</h3>
+
+      {detected && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-700">
+            ✓ Detected: <strong>{detected.label}</strong>
+          </p>
+        </div>
+      )}
+
+      {groups.filter(group => group.importers.length > 0).map(group => (
+        <div key={group.title}>
+          <p className="text-xs font-medium text-gray-500 uppercase mb-2">{group.title}</p>
+          <div className="grid grid-cols-2 gap-3">
+            {group.importers.map(importer => (
+              <div
+                key={importer.key}
+                onClick={() => onSelect(importer)}
+                className={`p-4 border rounded-lg cursor-pointer transition-colors ${
+                  selected === importer.key
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'hover:bg-gray-50'
+                }`}
+              >
+                <p className="font-medium">{importer.label}</p>
+                <p className="text-xs text-gray-500 truncate">Columns: {importer.requiredColumns.join(', ')}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================
+// COLUMN MAPPING WIZARD
+// ============================================
+
+type AmountMode = 'signed' | 'type' | 'split';
+
+interface MappingPreview {
+  columns: string[];
+  transactions: BankTransaction[];
+  skippedRows: number;
+}
+
+interface ColumnMappingWizardProps {
+  preview: (config: BankImportConfig) => MappingPreview;
+  onSave: (config: BankImportConfig) => void;
+  onCancel: () => void;
+  isProcessing?: boolean;
+}
+
+export function ColumnMappingWizard({
+  preview,
+  onSave,
+  onCancel,
+  isProcessing,
+}: ColumnMappingWizardProps) {
+  const [config, setConfig] = useState<BankImportConfig>({
+    bankName: '',
+    dateFormat: DATE_FORMAT_PRESETS[0],
+    dateColumn: '',
+    referenceColumn: '',
+    descriptionColumn: '',
+    amountColumn: '',
+    headerRow: 1,
+  });
+  const [amountMode, setAmountMode] = useState<AmountMode>('signed');
+  const [customFormat, setCustomFormat] = useState(false);
+
+  // Only the fields for the chosen amount layout go into the saved format
+  const mapping: BankImportConfig = {
+    ...config,
+    amountColumn: amountMode === 'split' ? '' : config.amountColumn,
+    typeColumn: amountMode === 'type' ? config.typeColumn : undefined,
+    creditIndicator: amountMode === 'type' ? config.creditIndicator : undefined,
+    debitIndicator: amountMode === 'type' ? config.debitIndicator : undefined,
+    creditColumn: amountMode === 'split' ? config.creditColumn : undefined,
+    debitColumn: amountMode === 'split' ? config.debitColumn : undefined,
+  };
+  const { columns, transactions, skippedRows } = preview(mapping);
+  const update = (changes: Partial<BankImportConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const columnSelect = (label: string, field: keyof BankImportConfig, optional = false) => (
+    <div>
+      <label className="text-sm font-medium">{label}</label>
+      <select
+        className="w-full mt-1 border rounded-lg p-2"
+        value={(config[field] as string) || ''}
+        onChange={(e) => update({ [field]: e.target.value || undefined })}
+      >
+        <option value="">{optional ? 'Not in this statement' : 'Select column...'}</option>
+        {columns.map(column => (
+          <option key={column} value={column}>{column}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold">Map Statement Columns</h3>
+        <p className="text-sm text-gray-500">
+          Tell us where your bank puts each field. The format is saved and recognised on your next upload.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          label="Bank name"
+          placeholder="e.g. Post Bank Uganda"
+          value={config.bankName}
+          onChange={(e) => update({ bankName: e.target.value })}
+        />
+        <Input
+          label="Header row"
+          type="number"
+          min={1}
+          hint="Row with the column names, below any letterhead"
+          value={config.headerRow}
+          onChange={(e) => update({ headerRow: Math.max(1, Number(e.target.value) || 1) })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {columnSelect('Date', 'dateColumn')}
+        <div>
+          <label className="text-sm font-medium">Date format</label>
+          <select
+            className="w-full mt-1 border rounded-lg p-2"
+            value={customFormat ? 'custom' : config.dateFormat}
+            onChange={(e) => {
+              setCustomFormat(e.target.value === 'custom');
+              if (e.target.value !== 'custom') update({ dateFormat: e.target.value });
+            }}
+          >
+            {DATE_FORMAT_PRESETS.map(format => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+            <option value="custom">Other...</option>
+          </select>
+          {customFormat && (
+            <input
+              className="w-full mt-2 border rounded-lg p-2 font-mono text-sm"
+              placeholder="e.g. DD/MM/YYYY HH:mm"
+              value={config.dateFormat}
+              onChange={(e) => update({ dateFormat: e.target.value })}
+            />
+          )}
+        </div>
+        {columnSelect('Description', 'descriptionColumn')}
+        {columnSelect('Reference', 'referenceColumn', true)}
+        {columnSelect('Balance', 'balanceColumn', true)}
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">How does the statement show money in and out?</label>
+        <div className="flex gap-2 mt-1">
+          {([
+            ['signed', 'One amount column, debits negative'],
+            ['type', 'Amount plus a Dr/Cr column'],
+            ['split', 'Separate credit and debit columns'],
+          ] as [AmountMode, string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setAmountMode(mode)}
+              className={`flex-1 p-2 text-sm border rounded-lg ${
+                amountMode === mode ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {amountMode !== 'split' && columnSelect('Amount', 'amountColumn')}
+        {amountMode === 'type' && (
+          <>
+            {columnSelect('Credit/debit marker', 'typeColumn')}
+            <Input
+              label="Credit marker"
+              placeholder="CR"
+              value={config.creditIndicator || ''}
+              onChange={(e) => update({ creditIndicator: e.target.value || undefined })}
+            />
+            <Input
+              label="Debit marker"
+              placeholder="DR"
+              value={config.debitIndicator || ''}
+              onChange={(e) => update({ debitIndicator: e.target.value || undefined })}
+            />
+          </>
+        )}
+        {amountMode === 'split' && (
+          <>
+            {columnSelect('Credit (money in)', 'creditColumn')}
+            {columnSelect('Debit (money out)', 'debitColumn')}
+          </>
+        )}
+      </div>
+
+      {/* Live preview */}
+      <div className="border rounded-lg overflow-hidden">
+        <div className="p-2 bg-gray-50 text-xs text-gray-500 flex justify-between">
+          <span>Preview</span>
+          {skippedRows > 0 && (
+            <span className="text-amber-600">{skippedRows} rows skipped (unreadable date or no amount)</span>
+          )}
+        </div>
+        {transactions.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500 text-center">
+            Map the date, description and amount columns to see the first transactions
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {transactions.map(tx => (
+                <tr key={tx.id} className="border-t">
+                  <td className="p-2">{tx.transactionDate.toLocaleDateString('en-UG')}</td>
+                  <td className="p-2 truncate max-w-xs">{tx.description}</td>
+                  <td className={`p-2 text-right font-mono ${tx.type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                    {tx.type === 'credit' ? '+' : '-'}UGX {tx.amount.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onCancel}>
+          Back
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={() => onSave(mapping)}
+          disabled={!config.bankName.trim() || transactions.length === 0 || isProcessing}
+        >
+          {isProcessing ? 'Saving...' : 'Save Format & Continue'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// POST CREDITS AS PAYMENTS
+// ============================================
+
+interface CreditPosting {
+  bankTransactionId: string;
+  payment: PaymentRecordInput;
+}
+
+interface CreditDraft {
+  transaction: BankTransaction;
+  guesses: StudentGuess[];
+  payment: PaymentRecordInput | null;
+}
+
+interface PostCreditModalProps {
+  isOpen: boolean;
+  draft: CreditDraft | null;
+  students: { id: string; label: string }[];
+  onPost: (posting: CreditPosting) => void;
+  onClose: () => void;
+  isProcessing?: boolean;
+}
+
+const POSTING_CHANNELS: PaymentChannel[] = ['bank_transfer', 'momo_mtn', 'momo_airtel', 'cheque', 'cash', 'other'];
+
+export function PostCreditModal({
+  isOpen,
+  draft,
+  students,
+  onPost,
+  onClose,
+  isProcessing,
+}: PostCreditModalProps) {
+  const [payment, setPayment] = useState<PaymentRecordInput | null>(null);
+
+  React.useEffect(() => {
+    if (!draft) {
+      setPayment(null);
+      return;
+    }
+    const [best] = draft.guesses;
+    setPayment(draft.payment || buildCreditPayment(draft.transaction, best?.studentId || ''));
+  }, [draft]);
+
+  if (!draft || !payment) return null;
+  const tx = draft.transaction;
+  const update = (changes: Partial<PaymentRecordInput>) => setPayment(prev => prev && { ...prev, ...changes });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Post as Payment">
+      <div className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg text-sm">
+          <p className="font-medium">{tx.description}</p>
+          <p className="text-gray-500">
+            {tx.transactionDate.toLocaleDateString('en-UG')} &middot; {tx.reference} &middot;{' '}
+            <span className="font-mono text-green-600">UGX {tx.amount.toLocaleString()}</span>
+          </p>
+        </div>
+
+        {draft.guesses.length > 0 && (
+          <div>
+            <label className="text-sm font-medium">Likely students</label>
+            <div className="space-y-2 mt-1">
+              {draft.guesses.map(guess => (
+                <div
+                  key={guess.studentId}
+                  onClick={() => update({ studentId: guess.studentId })}
+                  className={`p-2 border rounded-lg cursor-pointer ${
+                    payment.studentId === guess.studentId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm">{guess.studentName}</span>
+                    <Badge variant={guess.confidence >= 80 ? 'success' : guess.confidence >= 50 ? 'warning' : 'default'}>
+                      {guess.confidence}%
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">{guess.reasons.join(' · ')}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm font-medium">Student</label>
+          <select
+            className="w-full mt-1 border rounded-lg p-2"
+            value={payment.studentId}
+            onChange={(e) => update({ studentId: e.target.value })}
+          >
+            <option value="">Select student...</option>
+            {students.map(student => (
+              <option key={student.id} value={student.id}>{student.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm font-medium">Channel</label>
+            <select
+              className="w-full mt-1 border rounded-lg p-2"
+              value={payment.channel}
+              onChange={(e) => update({ channel: e.target.value as PaymentChannel })}
+            >
+              {POSTING_CHANNELS.map(channel => (
+                <option key={channel} value={channel}>{getChannelDisplayName(channel)}</option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Reference"
+            value={payment.transactionRef}
+            onChange={(e) => update({ transactionRef: e.target.value })}
+          />
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => onPost({ bankTransactionId: tx.id, payment })}
+            disabled={!payment.studentId || isProcessing}
+          >
+            {isProcessing ? 'Posting...' : `Record UGX ${tx.amount.toLocaleString()} & Match`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+interface CreditPostingListProps {
+  drafts: CreditDraft[];
+  students: { id: string; label: string }[];
+  results: { bankTransactionId: string; success: boolean; receiptNumber?: string; error?: string }[];
+  onPost: (postings: CreditPosting[]) => void;
+  onOpen: (draft: CreditDraft) => void;
+  isProcessing?: boolean;
+}
+
+export function CreditPostingList({
+  drafts,
+  students,
+  results,
+  onPost,
+  onOpen,
+  isProcessing,
+}: CreditPostingListProps) {
+  // Student chosen per credit, starting from the confident guesses
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  React.useEffect(() => {
+    const initial: Record<string, string> = {};
+    drafts.forEach(draft => {
+      if (draft.payment) initial[draft.transaction.id] = draft.payment.studentId;
+    });
+    setChosen(initial);
+    setSelected(new Set(Object.keys(initial)));
+  }, [drafts]);
+
+  const failures = results.filter(result => !result.success);
+  const posted = results.filter(result => result.success).length;
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const postSelected = () => onPost(
+    drafts
+      .filter(draft => selected.has(draft.transaction.id) && chosen[draft.transaction.id])
+      .map(draft => ({
+        bankTransactionId: draft.transaction.id,
+        payment: buildCreditPayment(draft.transaction, chosen[draft.transaction.id]),
+      }))
+  );
+  const selectedCount = drafts.filter(draft => selected.has(draft.transaction.id) && chosen[draft.transaction.id]).length;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Unmatched Credits</h3>
+          <p className="text-sm text-gray-500">
+            Record credits the system has no receipt for as payments, matched as they are posted
+          </p>
+        </div>
+        <Button onClick={postSelected} disabled={selectedCount === 0 || isProcessing}>
+          {isProcessing ? 'Posting...' : `Post ${selectedCount} as Payments`}
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <div className={`p-3 rounded-lg text-sm ${failures.length ? 'bg-amber-50 text-amber-700' : 'bg-green-50 text-green-700'}`}>
+          {posted} posted{failures.length > 0 && `, ${failures.length} failed`}
+          {failures.map(failure => (
+            <p key={failure.bankTransactionId} className="text-xs">{failure.error}</p>
+          ))}
+        </div>
+      )}
+
+      {drafts.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">Every credit on this statement is matched or ignored</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-2 w-8"></th>
+              <th className="text-left p-2">Credit</th>
+              <th className="text-left p-2">Student</th>
+              <th className="text-right p-2">Amount</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map(draft => {
+              const tx = draft.transaction;
+              const [best] = draft.guesses;
+              return (
+                <tr key={tx.id} className="border-t">
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(tx.id)}
+                      disabled={!chosen[tx.id]}
+                      onChange={() => toggle(tx.id)}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <p className="truncate max-w-xs">{tx.description}</p>
+                    <p className="text-xs text-gray-500">{tx.transactionDate.toLocaleDateString('en-UG')} &middot; {tx.reference}</p>
+                  </td>
+                  <td className="p-2">
+                    <select
+                      className="w-full border rounded-lg p-1 text-sm"
+                      value={chosen[tx.id] || ''}
+                      onChange={(e) => setChosen(prev => ({ ...prev, [tx.id]: e.target.value }))}
+                    >
+                      <option value="">Choose student...</option>
+                      {draft.guesses.map(guess => (
+                        <option key={`guess-${guess.studentId}`} value={guess.studentId}>
+                          {guess.studentName} ({guess.confidence}%)
+                        </option>
+                      ))}
+                      {students
+                        .filter(student => !draft.guesses.some(guess => guess.studentId === student.id))
+                        .map(student => (
+                          <option key={student.id} value={student.id}>{student.label}</option>
+                        ))}
+                    </select>
+                    {best && <p className="text-xs text-gray-500 mt-1">{best.reasons.join(' · ')}</p>}
+                  </td>
+                  <td className="p-2 text-right font-mono text-green-600">UGX {tx.amount.toLocaleString()}</td>
+                  <td className="p-2 text-right">
+                    <Button size="sm" variant="outline" onClick={() => onOpen(draft)}>
+                      Review
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+}
+
+// ============================================
+// RECONCILIATION CLOSE-OUT
+// ============================================
+
+interface CloseOutValues {
+  openingBalance: number;
+  closingBalance: number;
+  notes?: string;
+}
+
+interface ReconciliationCloseOutProps {
+  session: ReconciliationSession;
+  statement: ReconciliationStatement | null;
+  isClosed: boolean;
+  onPreview: (values: CloseOutValues) => void;
+  onClose: (values: CloseOutValues) => void;
+  onExportPDF: () => void;
+  onExportExcel: () => void;
+  isProcessing?: boolean;
+  error?: string | null;
+}
+
+export function ReconciliationCloseOut({
+  session,
+  statement,
+  isClosed,
+  onPreview,
+  onClose,
+  onExportPDF,
+  onExportExcel,
+  isProcessing,
+  error,
+}: ReconciliationCloseOutProps) {
+  const [openingBalance, setOpeningBalance] = useState(String(session.openingBalance ?? ''));
+  const [closingBalance, setClosingBalance] = useState(String(session.closingBalance ?? ''));
+  const [notes, setNotes] = useState(session.notes || '');
+  const [showConfirm, setShowConfirm] = useState(false);
+  const formatAmount = (amount: number) => `UGX ${amount.toLocaleString()}`;
+
+  const values: CloseOutValues = {
+    openingBalance: Number(openingBalance) || 0,
+    closingBalance: Number(closingBalance) || 0,
+    ...(notes.trim() && { notes: notes.trim() }),
+  };
+  const ready = openingBalance !== '' && closingBalance !== '';
+
+  const rows = statement ? [
+    { label: 'Opening balance per statement', amount: statement.openingBalance, strong: true },
+    { label: `Add: receipts recorded (${statement.systemReceiptsCount})`, amount: statement.systemReceiptsTotal },
+    { label: `Less: receipts not yet on the statement (${statement.unpresentedItems.length})`, amount: -statement.unpresentedTotal },
+    { label: `Add: credits with no receipt (${statement.unmatchedCredits.length})`, amount: statement.unmatchedCreditsTotal },
+    { label: `Add: other credits (${statement.otherCredits.length})`, amount: statement.otherCreditsTotal },
+    { label: `Less: debits (${statement.debits.length})`, amount: -statement.debitsTotal },
+    { label: 'Reconciled balance', amount: statement.reconciledBalance, strong: true },
+    { label: 'Closing balance per statement', amount: statement.statementClosingBalance, strong: true },
+  ] : [];
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Close Out Reconciliation</h3>
+          <p className="text-sm text-gray-500">
+            {new Date(session.statementPeriodStart).toLocaleDateString('en-UG')} - {new Date(session.statementPeriodEnd).toLocaleDateString('en-UG')}
+          </p>
+        </div>
+        {isClosed && <Badge variant="success">Closed</Badge>}
+      </div>
+
+      {!isClosed && (
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Opening balance"
+            type="number"
+            prefix="UGX"
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(e.target.value)}
+          />
+          <Input
+            label="Closing balance"
+            type="number"
+            prefix="UGX"
+            value={closingBalance}
+            onChange={(e) => setClosingBalance(e.target.value)}
+          />
+        </div>
+      )}
+
+      {statement && (
+        <div className="border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className="border-t first:border-t-0">
+                  <td className={`p-2 ${row.strong ? 'font-semibold' : 'text-gray-600'}`}>{row.label}</td>
+                  <td className={`p-2 text-right font-mono ${row.strong ? 'font-semibold' : ''}`}>{formatAmount(row.amount)}</td>
+                </tr>
+              ))}
+              <tr className={`border-t ${statement.difference === 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                <td className="p-2 font-semibold">Unreconciled difference</td>
+                <td className={`p-2 text-right font-mono font-semibold ${statement.difference === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatAmount(statement.difference)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isClosed && statement ? (
+        <p className="text-sm text-gray-500">
+          Closed by {statement.preparedByName} on {new Date(statement.preparedAt).toLocaleDateString('en-UG')}
+          {statement.notes && <> &middot; {statement.notes}</>}
+        </p>
+      ) : (
+        <div>
+          <label className="text-sm font-medium">Notes</label>
+          <textarea
+            className="w-full mt-1 border rounded-lg p-2"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Required if the statement does not balance"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        {!isClosed && (
+          <>
+            <Button variant="outline" onClick={() => onPreview(values)} disabled={!ready || isProcessing}>
+              Preview Statement
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => setShowConfirm(true)}
+              disabled={!ready || !statement || isProcessing}
+            >
+              Close Reconciliation
+            </Button>
+          </>
+        )}
+        {statement && (
+          <>
+            <Button variant="outline" onClick={onExportPDF}>PDF</Button>
+            <Button variant="outline" onClick={onExportExcel}>Excel</Button>
+          </>
+        )}
+      </div>
+
+      <Modal
+        isOpen={showConfirm}
+        onClose={() => setShowConfirm(false)}
+        title="Close Reconciliation"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Closing locks every match in this session and records the statement in the audit log.
+            It cannot be reopened.
+          </p>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => setShowConfirm(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => {
+                onClose(values);
+                setShowConfirm(false);
+              }}
+            >
+              Close & Lock
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+}
+
 // ============================================
 // IMPORT PREVIEW
 // ============================================
@@ -509,6 +1280,7 @@ export function ImportPreview({
   const debits = transactions.filter(t => t.type === 'debit');
   const totalCredits = credits.reduce((sum, t) => sum + t.amount, 0);
   const totalDebits = debits.reduce((sum, t) => sum + t.amount, 0);
+  const showPayer = transactions.some(t => t.payerMsisdn);
 
   return (
     <div className="space-y-4">
@@ -538,6 +1310,7 @@ export function ImportPreview({
               <tr>
                 <th className="text-left p-2">Date</th>
                 <th className="text-left p-2">Description</th>
+                {showPayer && <th className="text-left p-2">Payer</th>}
                 <th className="text-right p-2">Amount</th>
               </tr>
             </thead>
@@ -548,6 +1321,14 @@ export function ImportPreview({
                     {new Date(tx.transactionDate).toLocaleDateString('en-UG')}
                   </td>
                   <td className="p-2 truncate max-w-xs">{tx.description}</td>
+                  {showPayer && (
+                    <td className="p-2">
+                      <p className="font-mono text-xs">{tx.payerMsisdn}</p>
+                      {tx.studentReference && (
+                        <p className="font-mono text-xs text-blue-600">{tx.studentReference}</p>
+                      )}
+                    </td>
+                  )}
                   <td className={`p-2 text-right font-medium ${
                     tx.type === 'credit' ? 'text-green-600' : 'text-red-600'
                   }`}>
@@ -8,6 +8,11 @@ export {
   PossibleMatchesList,
   SessionSelector,
   BankConfigSelector,
+  StatementImporterSelector,
+  ColumnMappingWizard,
+  ReconciliationCloseOut,
+  PostCreditModal,
+  CreditPostingList,
   ImportPreview,
   StatusFilterTabs,
 } from './BankReconciliationComponents';
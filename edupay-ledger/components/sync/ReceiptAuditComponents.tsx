@@ -0,0 +1,102 @@
+/**
+ * Receipt Audit Components
+ * Reserved receipt number blocks per device and any gaps in the issued series
+ */
+
+'use client';
+
+import React from 'react';
+import { Badge } from '../ui/Badge';
+import { formatReceiptNumber, ReceiptSeriesAudit } from '../../lib/db/receipt-numbers';
+import type { DBReceiptBlock } from '../../lib/db';
+
+// ============================================
+// RECEIPT BLOCK LIST
+// ============================================
+
+interface ReceiptBlockListProps {
+  blocks: DBReceiptBlock[];
+}
+
+export function ReceiptBlockList({ blocks }: ReceiptBlockListProps) {
+  if (blocks.length === 0) {
+    return <p className="text-sm text-gray-500">No receipt numbers have been reserved this year</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      {blocks.map(block => (
+        <div key={block.id} className="flex items-center justify-between py-2 text-sm">
+          <span className="font-mono">
+            {formatReceiptNumber(block.academicYear, block.deviceCode, block.start)}
+            {' – '}
+            {String(block.end).padStart(6, '0')}
+          </span>
+          <span className="text-xs text-gray-500">
+            Reserved {new Date(block.reservedAt).toLocaleDateString()}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================
+// RECEIPT GAP REPORT
+// ============================================
+
+interface ReceiptGapReportProps {
+  audit: ReceiptSeriesAudit;
+}
+
+export function ReceiptGapReport({ audit }: ReceiptGapReportProps) {
+  const isClean = audit.gaps.length === 0 && audit.duplicates.length === 0 && audit.unreserved.length === 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Badge variant={isClean ? 'success' : 'warning'}>
+          {isClean ? 'No gaps' : 'Needs review'}
+        </Badge>
+        <span className="text-sm text-gray-600">
+          {audit.issued.toLocaleString()} receipts issued in {audit.academicYear}
+        </span>
+      </div>
+
+      {audit.gaps.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-1">Missing receipt numbers</p>
+          <ul className="text-sm font-mono text-yellow-700 space-y-1">
+            {audit.gaps.map(gap => (
+              <li key={`${gap.deviceCode}-${gap.from}`}>
+                {formatReceiptNumber(audit.academicYear, gap.deviceCode, gap.from)}
+                {gap.to > gap.from && ` – ${String(gap.to).padStart(6, '0')}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {audit.duplicates.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-1">Issued more than once</p>
+          <ul className="text-sm font-mono text-red-600 space-y-1">
+            {audit.duplicates.map(receiptNumber => <li key={receiptNumber}>{receiptNumber}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {audit.unreserved.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-1">Issued outside a reserved block</p>
+          <p className="text-xs text-gray-500 mb-1">
+            Usually a device that ran out of reserved numbers while offline
+          </p>
+          <ul className="text-sm font-mono text-gray-700 space-y-1">
+            {audit.unreserved.map(receiptNumber => <li key={receiptNumber}>{receiptNumber}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
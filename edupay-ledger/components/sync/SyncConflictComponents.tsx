@@ -0,0 +1,134 @@
+/**
+ * Sync Conflict Components
+ * Side-by-side review of fields that were edited both locally and on another device
+ */
+
+'use client';
+
+import React, { useMemo } from 'react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { formatFieldLabel } from '../../lib/sync/merge';
+import type { DBSyncConflict } from '../../lib/db';
+
+// ============================================
+// HELPERS
+// ============================================
+
+function formatConflictValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// ============================================
+// CONFLICT FIELD ROW
+// ============================================
+
+interface ConflictFieldRowProps {
+  conflict: DBSyncConflict;
+  onResolve: (conflictId: string, resolution: 'local' | 'remote') => void;
+  isResolving?: boolean;
+}
+
+export function ConflictFieldRow({ conflict, onResolve, isResolving }: ConflictFieldRowProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr] gap-3 items-stretch py-3 border-b last:border-b-0">
+      <div>
+        <p className="font-medium text-sm">{formatFieldLabel(conflict.field)}</p>
+        <p className="text-xs text-gray-500">
+          Was: {formatConflictValue(conflict.baseValue)}
+        </p>
+      </div>
+
+      <div className="p-3 rounded-lg bg-blue-50 flex flex-col justify-between gap-2">
+        <div>
+          <p className="text-xs text-blue-600 font-medium mb-1">This device</p>
+          <p className="text-sm break-words">{formatConflictValue(conflict.localValue)}</p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isResolving}
+          onClick={() => onResolve(conflict.id, 'local')}
+        >
+          Keep this
+        </Button>
+      </div>
+
+      <div className="p-3 rounded-lg bg-purple-50 flex flex-col justify-between gap-2">
+        <div>
+          <p className="text-xs text-purple-600 font-medium mb-1">Server</p>
+          <p className="text-sm break-words">{formatConflictValue(conflict.remoteValue)}</p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isResolving}
+          onClick={() => onResolve(conflict.id, 'remote')}
+        >
+          Keep this
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// CONFLICT REVIEW LIST
+// ============================================
+
+interface ConflictReviewListProps {
+  conflicts: DBSyncConflict[];
+  onResolve: (conflictId: string, resolution: 'local' | 'remote') => void;
+  isResolving?: boolean;
+}
+
+export function ConflictReviewList({ conflicts, onResolve, isResolving }: ConflictReviewListProps) {
+  const groups = useMemo(() => {
+    const byRecord = new Map<string, DBSyncConflict[]>();
+    conflicts.forEach(conflict => {
+      const key = `${conflict.table}:${conflict.recordId}`;
+      byRecord.set(key, [...(byRecord.get(key) || []), conflict]);
+    });
+    return Array.from(byRecord.values());
+  }, [conflicts]);
+
+  if (conflicts.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <span className="material-symbols-outlined text-4xl text-green-500">task_alt</span>
+        <p className="mt-2">No conflicts to review</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        These fields were changed on this device and on another device since the last sync.
+        Choose which value to keep; all other changes were merged automatically.
+      </p>
+      {groups.map(group => (
+        <div key={`${group[0].table}:${group[0].recordId}`} className="border rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="font-semibold">{group[0].recordLabel}</p>
+            <Badge variant={group[0].table === 'payments' ? 'info' : 'secondary'}>
+              {formatFieldLabel(group[0].table)}
+            </Badge>
+          </div>
+          {group.map(conflict => (
+            <ConflictFieldRow
+              key={conflict.id}
+              conflict={conflict}
+              onResolve={onResolve}
+              isResolving={isResolving}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
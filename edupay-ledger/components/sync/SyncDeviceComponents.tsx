@@ -0,0 +1,92 @@
+/**
+ * Sync Device Components
+ * Lists the installs that sync with this school and when each last synced
+ */
+
+'use client';
+
+import React from 'react';
+import { Badge } from '../ui/Badge';
+import { formatRelativeTime } from '../../lib/utils';
+import type { DBDevice } from '../../lib/db';
+
+// Devices that have not synced for this long are flagged as stale
+const STALE_DEVICE_DAYS = 7;
+
+function getPlatformIcon(platform: string): string {
+  switch (platform) {
+    case 'windows':
+    case 'linux':
+      return 'desktop_windows';
+    case 'mac':
+      return 'laptop_mac';
+    default:
+      return 'language';
+  }
+}
+
+// ============================================
+// DEVICE ROW
+// ============================================
+
+interface DeviceRowProps {
+  device: DBDevice;
+}
+
+export function DeviceRow({ device }: DeviceRowProps) {
+  const isStale = !device.lastSyncAt ||
+    Date.now() - new Date(device.lastSyncAt).getTime() > STALE_DEVICE_DAYS * 24 * 60 * 60 * 1000;
+
+  return (
+    <div className="flex items-center justify-between p-4 border-b last:border-b-0">
+      <div className="flex items-center gap-3 min-w-0">
+        <span className="material-symbols-outlined text-gray-500">{getPlatformIcon(device.platform)}</span>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-medium truncate">{device.name}</p>
+            {device.isLocal && <Badge variant="primary">This device</Badge>}
+            {device.receiptCode && (
+              <Badge variant="outline">D{String(device.receiptCode).padStart(2, '0')}</Badge>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 font-mono">{device.id}</p>
+        </div>
+      </div>
+      <div className="text-right">
+        <p className={`text-sm ${isStale ? 'text-yellow-600' : 'text-gray-700'}`}>
+          {device.lastSyncAt ? `Synced ${formatRelativeTime(device.lastSyncAt)}` : 'Never synced'}
+        </p>
+        <p className="text-xs text-gray-400">
+          Registered {new Date(device.registeredAt).toLocaleDateString()}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// DEVICE LIST
+// ============================================
+
+interface DeviceListProps {
+  devices: DBDevice[];
+  isLoading?: boolean;
+}
+
+export function DeviceList({ devices, isLoading }: DeviceListProps) {
+  if (isLoading) {
+    return <div className="p-6 text-center text-gray-500">Loading devices...</div>;
+  }
+
+  if (devices.length === 0) {
+    return <div className="p-6 text-center text-gray-500">No devices have synced yet</div>;
+  }
+
+  return (
+    <div>
+      {devices.map(device => (
+        <DeviceRow key={device.id} device={device} />
+      ))}
+    </div>
+  );
+}
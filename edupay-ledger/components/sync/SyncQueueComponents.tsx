@@ -0,0 +1,89 @@
+/**
+ * Sync Queue Components
+ * Inspection and retry of operations that could not be uploaded
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { formatFieldLabel } from '../../lib/sync/merge';
+import type { DBSyncQueue } from '../../lib/db';
+
+// ============================================
+// DEAD LETTER ROW
+// ============================================
+
+interface DeadLetterRowProps {
+  entry: DBSyncQueue;
+  onRetry: (id: string) => void;
+  isRetrying?: boolean;
+}
+
+export function DeadLetterRow({ entry, onRetry, isRetrying }: DeadLetterRowProps) {
+  const operationVariant =
+    entry.operation === 'delete' ? 'danger' : entry.operation === 'create' ? 'success' : 'info';
+
+  return (
+    <div className="flex items-start justify-between gap-4 py-3 border-b last:border-b-0">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <Badge variant={operationVariant}>{entry.operation}</Badge>
+          <p className="font-medium text-sm truncate">
+            {formatFieldLabel(entry.table)} · {entry.recordId}
+          </p>
+        </div>
+        <p className="text-xs text-red-600 mt-1 break-words">{entry.error || 'Unknown error'}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          {entry.attempts} attempts · queued {new Date(entry.createdAt).toLocaleString()}
+          {entry.lastAttempt && ` · last tried ${new Date(entry.lastAttempt).toLocaleString()}`}
+        </p>
+      </div>
+      <Button size="sm" variant="outline" disabled={isRetrying} onClick={() => onRetry(entry.id)}>
+        Retry
+      </Button>
+    </div>
+  );
+}
+
+// ============================================
+// DEAD LETTER LIST
+// ============================================
+
+interface DeadLetterListProps {
+  entries: DBSyncQueue[];
+  onRetry: (id: string) => void;
+  onRetryAll: () => void;
+  isRetrying?: boolean;
+}
+
+export function DeadLetterList({ entries, onRetry, onRetryAll, isRetrying }: DeadLetterListProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <span className="material-symbols-outlined text-4xl text-green-500">task_alt</span>
+        <p className="mt-2">No failed operations</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          These changes failed to upload after repeated attempts. Later changes to the same
+          records wait behind them.
+        </p>
+        <Button size="sm" onClick={onRetryAll} loading={isRetrying}>
+          Retry All
+        </Button>
+      </div>
+      <div className="border rounded-lg px-4">
+        {entries.map(entry => (
+          <DeadLetterRow key={entry.id} entry={entry} onRetry={onRetry} isRetrying={isRetrying} />
+        ))}
+      </div>
+    </div>
+  );
+}
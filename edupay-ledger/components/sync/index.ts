@@ -0,0 +1,23 @@
+/**
+ * Sync Components Index
+ */
+
+export {
+  ConflictFieldRow,
+  ConflictReviewList,
+} from './SyncConflictComponents';
+
+export {
+  DeadLetterRow,
+  DeadLetterList,
+} from './SyncQueueComponents';
+
+export {
+  DeviceRow,
+  DeviceList,
+} from './SyncDeviceComponents';
+
+export {
+  ReceiptBlockList,
+  ReceiptGapReport,
+} from './ReceiptAuditComponents';
@@ -10,6 +10,8 @@ import { cn } from '@/lib/utils';
 import { useSync } from '@/hooks/useSync';
 import { Button } from './Button';
 import { Modal } from './Modal';
+import { ConflictReviewList } from '../sync/SyncConflictComponents';
+import { DeadLetterList } from '../sync/SyncQueueComponents';
 
 interface SyncStatusIndicatorProps {
   schoolId?: string;
@@ -27,17 +29,48 @@ export function SyncStatusIndicator({
     isOnline, 
     lastSyncAt, 
     pendingChanges, 
+    conflicts,
     isSyncing, 
     sync,
-    lastSyncResult 
+    lastSyncResult,
+    fieldConflicts,
+    loadFieldConflicts,
+    resolveFieldConflict,
+    deadLetters,
+    deadLetterEntries,
+    loadDeadLetters,
+    retryDeadLetters,
   } = useSync(schoolId);
   
   const [showModal, setShowModal] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [showDeadLetters, setShowDeadLetters] = useState(false);
+
+  const openConflictReview = async () => {
+    await loadFieldConflicts();
+    setShowConflicts(true);
+  };
+
+  const handleResolve = async (conflictId: string, resolution: 'local' | 'remote') => {
+    setIsResolving(true);
+    try {
+      await resolveFieldConflict(conflictId, resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const openDeadLetters = async () => {
+    await loadDeadLetters();
+    setShowDeadLetters(true);
+  };
 
   const getStatusColor = () => {
     if (!isOnline) return 'bg-gray-500';
     if (isSyncing) return 'bg-yellow-500 animate-pulse';
-    if (status === 'error') return 'bg-red-500';
+    if (status === 'error' || deadLetters > 0) return 'bg-red-500';
+    if (conflicts > 0) return 'bg-orange-500';
     if (pendingChanges > 0) return 'bg-yellow-500';
     return 'bg-green-500';
   };
@@ -46,6 +79,8 @@ export function SyncStatusIndicator({
     if (!isOnline) return 'Offline';
     if (isSyncing) return 'Syncing...';
     if (status === 'error') return 'Sync Error';
+    if (deadLetters > 0) return `${deadLetters} failed`;
+    if (conflicts > 0) return `${conflicts} to review`;
     if (pendingChanges > 0) return `${pendingChanges} pending`;
     return 'Synced';
   };
@@ -53,7 +88,8 @@ export function SyncStatusIndicator({
   const getStatusIcon = () => {
     if (!isOnline) return 'cloud_off';
     if (isSyncing) return 'sync';
-    if (status === 'error') return 'sync_problem';
+    if (status === 'error' || deadLetters > 0) return 'sync_problem';
+    if (conflicts > 0) return 'rule';
     if (pendingChanges > 0) return 'cloud_upload';
     return 'cloud_done';
   };
@@ -142,6 +178,36 @@ export function SyncStatusIndicator({
             </span>
           </div>
 
+          {/* Field Conflicts */}
+          {conflicts > 0 && (
+            <div className="flex items-center justify-between p-3 border border-orange-200 bg-orange-50 rounded-lg">
+              <div>
+                <p className="font-medium">Conflicts to Review</p>
+                <p className="text-sm text-gray-500">
+                  {conflicts} field{conflicts === 1 ? '' : 's'} changed on two devices
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={openConflictReview}>
+                Review
+              </Button>
+            </div>
+          )}
+
+          {/* Dead Letters */}
+          {deadLetters > 0 && (
+            <div className="flex items-center justify-between p-3 border border-red-200 bg-red-50 rounded-lg">
+              <div>
+                <p className="font-medium">Failed Changes</p>
+                <p className="text-sm text-gray-500">
+                  {deadLetters} change{deadLetters === 1 ? '' : 's'} stopped retrying
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={openDeadLetters}>
+                Inspect
+              </Button>
+            </div>
+          )}
+
           {/* Last Sync Result */}
           {lastSyncResult && (
             <div className="p-3 border rounded-lg">
@@ -188,6 +254,33 @@ export function SyncStatusIndicator({
           )}
         </div>
       </Modal>
+
+      <Modal
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+        title="Review Sync Conflicts"
+        size="lg"
+      >
+        <ConflictReviewList
+          conflicts={fieldConflicts}
+          onResolve={handleResolve}
+          isResolving={isResolving}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={showDeadLetters}
+        onClose={() => setShowDeadLetters(false)}
+        title="Failed Sync Changes"
+        size="lg"
+      >
+        <DeadLetterList
+          entries={deadLetterEntries}
+          onRetry={(id) => retryDeadLetters([id])}
+          onRetryAll={() => retryDeadLetters()}
+          isRetrying={isSyncing}
+        />
+      </Modal>
     </>
   );
 }
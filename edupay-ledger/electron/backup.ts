@@ -0,0 +1,321 @@
+/**
+ * Local Backups
+ * Encrypts database snapshots from the renderer, writes them to a chosen folder
+ * or USB drive, prunes old files and asks the renderer for a backup when one is due
+ */
+
+import { app, dialog, ipcMain, safeStorage, BrowserWindow } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import log from 'electron-log';
+
+const SETTINGS_FILE = 'backup-settings.json';
+const FILE_MAGIC = 'EDUPAY-BACKUP 1';
+const FILE_PREFIX = 'edupay-backup-';
+const FILE_EXTENSION = '.epbk';
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_MS = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+};
+
+interface BackupSummary {
+  schemaVersion: number;
+  createdAt: string;
+  deviceId: string;
+  counts: Record<string, number>;
+}
+
+interface BackupSettings {
+  enabled: boolean;
+  folder: string | null;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  retentionDays: number;
+  encryptionEnabled: boolean;
+  hasPassphrase: boolean;
+  lastBackupAt?: string;
+  lastError?: string;
+}
+
+// As saved in userData; the passphrase is sealed with the OS keychain via safeStorage
+interface StoredBackupSettings extends Omit<BackupSettings, 'hasPassphrase'> {
+  sealedPassphrase?: string;
+}
+
+// Second line of a backup file, readable without the passphrase
+interface BackupFileHeader {
+  summary: BackupSummary;
+  encrypted: boolean;
+  checksum: string; // SHA-256 of the snapshot JSON
+  salt?: string;
+  iv?: string;
+  authTag?: string;
+}
+
+const DEFAULT_SETTINGS: StoredBackupSettings = {
+  enabled: false,
+  folder: null,
+  frequency: 'daily',
+  retentionDays: 30,
+  encryptionEnabled: true,
+};
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+function getSettingsPath() {
+  return path.join(app.getPath('userData'), SETTINGS_FILE);
+}
+
+function loadSettings(): StoredBackupSettings {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(fs.readFileSync(getSettingsPath(), 'utf8')) };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function saveSettings(settings: StoredBackupSettings) {
+  fs.writeFileSync(getSettingsPath(), JSON.stringify(settings, null, 2));
+}
+
+function toPublicSettings({ sealedPassphrase, ...settings }: StoredBackupSettings): BackupSettings {
+  return { ...settings, hasPassphrase: !!sealedPassphrase };
+}
+
+function getStoredPassphrase(settings: StoredBackupSettings): string | null {
+  if (!settings.sealedPassphrase) return null;
+  return safeStorage.decryptString(Buffer.from(settings.sealedPassphrase, 'base64'));
+}
+
+function deriveKey(passphrase: string, salt: Buffer) {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+function sha256(text: string) {
+  return crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+function requireFolder(settings: StoredBackupSettings): string {
+  if (!settings.folder) {
+    throw new Error('Choose a backup folder first');
+  }
+  if (!fs.existsSync(settings.folder)) {
+    throw new Error(`Backup folder ${settings.folder} is not available. Reconnect the drive or choose another folder.`);
+  }
+  return settings.folder;
+}
+
+function encodeBackupFile(snapshot: string, summary: BackupSummary, passphrase: string | null): string {
+  const checksum = sha256(snapshot);
+
+  if (!passphrase) {
+    const header: BackupFileHeader = { summary, encrypted: false, checksum };
+    return [FILE_MAGIC, JSON.stringify(header), snapshot].join('\n');
+  }
+
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const body = Buffer.concat([cipher.update(snapshot, 'utf8'), cipher.final()]);
+
+  const header: BackupFileHeader = {
+    summary,
+    encrypted: true,
+    checksum,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+  };
+  return [FILE_MAGIC, JSON.stringify(header), body.toString('base64')].join('\n');
+}
+
+function parseBackupFile(contents: string): { header: BackupFileHeader; body: string } {
+  const firstBreak = contents.indexOf('\n');
+  const secondBreak = contents.indexOf('\n', firstBreak + 1);
+  if (firstBreak < 0 || secondBreak < 0 || contents.slice(0, firstBreak) !== FILE_MAGIC) {
+    throw new Error('This file is not an EduPay Ledger backup');
+  }
+
+  return {
+    header: JSON.parse(contents.slice(firstBreak + 1, secondBreak)),
+    body: contents.slice(secondBreak + 1),
+  };
+}
+
+// Decrypts a backup and checks it against the checksum it was written with
+function decodeBackupFile(contents: string, passphrase: string | null) {
+  const { header, body } = parseBackupFile(contents);
+  let snapshot = body;
+
+  if (header.encrypted) {
+    if (!passphrase) {
+      throw new Error('This backup is encrypted. Enter its passphrase to restore it.');
+    }
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        deriveKey(passphrase, Buffer.from(header.salt!, 'base64')),
+        Buffer.from(header.iv!, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(header.authTag!, 'base64'));
+      snapshot = Buffer.concat([decipher.update(Buffer.from(body, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('Wrong passphrase, or the backup file has been altered');
+    }
+  }
+
+  if (sha256(snapshot) !== header.checksum) {
+    throw new Error('Backup file is damaged: its checksum does not match');
+  }
+  return { summary: header.summary, snapshot };
+}
+
+async function listBackupFiles(folder: string) {
+  const names = (await fs.promises.readdir(folder))
+    .filter(name => name.startsWith(FILE_PREFIX) && name.endsWith(FILE_EXTENSION));
+
+  const files = await Promise.all(names.map(async fileName => {
+    const filePath = path.join(folder, fileName);
+    try {
+      const [contents, stats] = await Promise.all([
+        fs.promises.readFile(filePath, 'utf8'),
+        fs.promises.stat(filePath),
+      ]);
+      const { header } = parseBackupFile(contents);
+      return { fileName, filePath, sizeBytes: stats.size, encrypted: header.encrypted, summary: header.summary };
+    } catch (error) {
+      log.warn(`Skipping unreadable backup ${filePath}:`, error);
+      return null;
+    }
+  }));
+
+  return files
+    .filter((file): file is NonNullable<typeof file> => file !== null)
+    .sort((a, b) => b.summary.createdAt.localeCompare(a.summary.createdAt));
+}
+
+// Delete backups older than the retention period, always keeping the newest one
+async function pruneBackups(folder: string, retentionDays: number): Promise<string[]> {
+  if (retentionDays <= 0) return [];
+
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const [, ...older] = await listBackupFiles(folder);
+  const expired = older.filter(file => new Date(file.summary.createdAt).getTime() < cutoff);
+
+  for (const file of expired) {
+    await fs.promises.unlink(file.filePath);
+    log.info(`Pruned backup ${file.fileName}`);
+  }
+  return expired.map(file => file.fileName);
+}
+
+async function writeBackup(snapshot: string, summary: BackupSummary) {
+  const settings = loadSettings();
+
+  try {
+    const folder = requireFolder(settings);
+    const passphrase = settings.encryptionEnabled ? getStoredPassphrase(settings) : null;
+    if (settings.encryptionEnabled && !passphrase) {
+      throw new Error('Set a backup passphrase before creating encrypted backups');
+    }
+
+    const fileName = `${FILE_PREFIX}${summary.createdAt.replace(/[:.]/g, '-')}${FILE_EXTENSION}`;
+    const filePath = path.join(folder, fileName);
+    const contents = encodeBackupFile(snapshot, summary, passphrase);
+
+    // Write beside the target and rename, so a pulled drive never leaves half a backup
+    await fs.promises.writeFile(`${filePath}.tmp`, contents, 'utf8');
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+
+    const pruned = await pruneBackups(folder, settings.retentionDays);
+    saveSettings({ ...loadSettings(), lastBackupAt: summary.createdAt, lastError: undefined });
+    log.info(`Backup written to ${filePath}`);
+
+    return {
+      fileName,
+      filePath,
+      sizeBytes: Buffer.byteLength(contents),
+      encrypted: !!passphrase,
+      summary,
+      pruned,
+    };
+  } catch (error: any) {
+    saveSettings({ ...loadSettings(), lastError: error.message });
+    log.error('Backup failed:', error);
+    throw error;
+  }
+}
+
+function isBackupDue(settings: StoredBackupSettings) {
+  if (!settings.enabled || !settings.folder) return false;
+  if (!settings.lastBackupAt) return true;
+  return Date.now() - new Date(settings.lastBackupAt).getTime() >= FREQUENCY_MS[settings.frequency];
+}
+
+function checkSchedule(getWindow: () => BrowserWindow | null) {
+  const settings = loadSettings();
+  if (!isBackupDue(settings)) return;
+
+  if (!fs.existsSync(settings.folder!)) {
+    saveSettings({ ...settings, lastError: `Backup folder ${settings.folder} is not available` });
+    return;
+  }
+
+  // The snapshot is taken in the renderer, which owns the IndexedDB store
+  getWindow()?.webContents.send('backup-due');
+}
+
+export function startBackupScheduler(getWindow: () => BrowserWindow | null) {
+  if (schedulerTimer) clearInterval(schedulerTimer);
+  setTimeout(() => checkSchedule(getWindow), 60 * 1000);
+  schedulerTimer = setInterval(() => checkSchedule(getWindow), CHECK_INTERVAL_MS);
+}
+
+export function registerBackupHandlers(getWindow: () => BrowserWindow | null) {
+  ipcMain.handle('backup-get-settings', () => toPublicSettings(loadSettings()));
+
+  ipcMain.handle('backup-update-settings', (event, { passphrase, ...changes }) => {
+    const settings: StoredBackupSettings = { ...loadSettings(), ...changes };
+    if (settings.retentionDays < 1) {
+      throw new Error('Keep backups for at least one day');
+    }
+
+    if (passphrase !== undefined) {
+      if (!passphrase) {
+        delete settings.sealedPassphrase;
+      } else if (!safeStorage.isEncryptionAvailable()) {
+        throw new Error('This computer cannot store the backup passphrase securely');
+      } else {
+        settings.sealedPassphrase = safeStorage.encryptString(passphrase).toString('base64');
+      }
+    }
+
+    saveSettings(settings);
+    return toPublicSettings(settings);
+  });
+
+  ipcMain.handle('backup-choose-folder', async () => {
+    const result = await dialog.showOpenDialog(getWindow()!, {
+      title: 'Choose Backup Folder',
+      properties: ['openDirectory', 'createDirectory'],
+    });
+    if (result.canceled || !result.filePaths[0]) return null;
+
+    saveSettings({ ...loadSettings(), folder: result.filePaths[0], lastError: undefined });
+    return result.filePaths[0];
+  });
+
+  ipcMain.handle('backup-write', (event, snapshot: string, summary: BackupSummary) => writeBackup(snapshot, summary));
+
+  ipcMain.handle('backup-list', () => listBackupFiles(requireFolder(loadSettings())));
+
+  // Backups from another computer need their passphrase; our own use the stored one
+  ipcMain.handle('backup-read', async (event, filePath: string, passphrase?: string) => {
+    const contents = await fs.promises.readFile(filePath, 'utf8');
+    return decodeBackupFile(contents, passphrase || getStoredPassphrase(loadSettings()));
+  });
+}
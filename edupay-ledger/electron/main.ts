@@ -7,6 +7,8 @@ import { app, BrowserWindow, ipcMain, shell, Menu, Tray, nativeImage } from 'ele
 import * as path from 'path';
 import { autoUpdater } from 'electron-updater';
 import log from 'electron-log';
+import { registerBackupHandlers, startBackupScheduler } from './backup';
+import { registerReminderHandlers, startReminderScheduler } from './reminders';
 
 // Configure logging
 log.transports.file.level = 'info';
@@ -275,6 +277,12 @@ function setupIpcHandlers() {
       printBackground: true,
     });
   });
+
+  // Local backups
+  registerBackupHandlers(() => mainWindow);
+
+  // Scheduled fee reminders
+  registerReminderHandlers();
 }
 
 // Auto-updater events
@@ -296,6 +304,8 @@ app.whenReady().then(() => {
   createTray();
   createMenu();
   setupIpcHandlers();
+  startBackupScheduler(() => mainWindow);
+  startReminderScheduler(() => mainWindow);
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
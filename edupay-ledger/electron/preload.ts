@@ -44,6 +44,25 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('update-downloaded', () => callback());
   },
   
+  // Local backups
+  getBackupSettings: () => ipcRenderer.invoke('backup-get-settings'),
+  updateBackupSettings: (changes: any) => ipcRenderer.invoke('backup-update-settings', changes),
+  chooseBackupFolder: () => ipcRenderer.invoke('backup-choose-folder'),
+  writeBackup: (snapshot: string, summary: any) => ipcRenderer.invoke('backup-write', snapshot, summary),
+  listBackups: () => ipcRenderer.invoke('backup-list'),
+  readBackup: (filePath: string, passphrase?: string) => ipcRenderer.invoke('backup-read', filePath, passphrase),
+  onBackupDue: (callback: () => void) => {
+    ipcRenderer.on('backup-due', () => callback());
+  },
+  
+  // Scheduled reminders
+  getReminderSettings: () => ipcRenderer.invoke('reminders-get-settings'),
+  updateReminderSettings: (changes: any) => ipcRenderer.invoke('reminders-update-settings', changes),
+  reportReminderRun: (report: any) => ipcRenderer.invoke('reminders-run-complete', report),
+  onRemindersDue: (callback: (settings: any) => void) => {
+    ipcRenderer.on('reminders-due', (event, settings) => callback(settings));
+  },
+  
   // Remove listeners
   removeAllListeners: (channel: string) => {
     ipcRenderer.removeAllListeners(channel);
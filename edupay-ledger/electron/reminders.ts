@@ -0,0 +1,161 @@
+/**
+ * Scheduled Reminders
+ * Keeps the reminder schedule, quiet hours and frequency cap, and asks the
+ * renderer to send the day's fee reminders once the run hour has passed
+ */
+
+import { app, ipcMain, BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import log from 'electron-log';
+
+const SETTINGS_FILE = 'reminder-settings.json';
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+// A run the renderer never reported back on, e.g. the window was closed, is asked for again after this
+const RUN_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+interface QuietHours {
+  startHour: number;
+  endHour: number;
+}
+
+interface ReminderSettings {
+  enabled: boolean;
+  runHour: number;
+  quietHours: QuietHours;
+  frequencyCap: { maxMessages: number; periodDays: number };
+  lastRunAt?: string;
+  lastError?: string;
+}
+
+// As saved in userData, with the bookkeeping the renderer does not need
+interface StoredReminderSettings extends ReminderSettings {
+  lastRunDate?: string; // Local date of the last run that finished, YYYY-MM-DD
+  lastRequestedAt?: string;
+}
+
+interface ReminderRunReport {
+  runId: string;
+  finishedAt: string;
+  queued: number;
+  capped: number;
+  error?: string;
+}
+
+const DEFAULT_SETTINGS: StoredReminderSettings = {
+  enabled: false,
+  runHour: 8,
+  quietHours: { startHour: 20, endHour: 7 },
+  frequencyCap: { maxMessages: 2, periodDays: 7 },
+};
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+function getSettingsPath() {
+  return path.join(app.getPath('userData'), SETTINGS_FILE);
+}
+
+function loadSettings(): StoredReminderSettings {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(fs.readFileSync(getSettingsPath(), 'utf8')) };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function saveSettings(settings: StoredReminderSettings) {
+  fs.writeFileSync(getSettingsPath(), JSON.stringify(settings, null, 2));
+}
+
+function toPublicSettings({ lastRunDate, lastRequestedAt, ...settings }: StoredReminderSettings): ReminderSettings {
+  return settings;
+}
+
+function toLocalDate(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isQuietHour(hour: number, { startHour, endHour }: QuietHours) {
+  if (startHour === endHour) return false;
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+function isValidHour(hour: unknown) {
+  return Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) <= 23;
+}
+
+function validateSettings(settings: ReminderSettings) {
+  const { runHour, quietHours, frequencyCap } = settings;
+  if (!isValidHour(runHour) || !isValidHour(quietHours.startHour) || !isValidHour(quietHours.endHour)) {
+    throw new Error('Hours must be whole hours from 0 to 23');
+  }
+  if (isQuietHour(runHour, quietHours)) {
+    throw new Error('Set the run time outside quiet hours');
+  }
+  if (!(frequencyCap.maxMessages >= 1) || !(frequencyCap.periodDays >= 1)) {
+    throw new Error('Allow at least one reminder per day');
+  }
+}
+
+function isRunDue(settings: StoredReminderSettings, now: Date) {
+  if (!settings.enabled || settings.lastRunDate === toLocalDate(now)) return false;
+  if (now.getHours() < settings.runHour || isQuietHour(now.getHours(), settings.quietHours)) return false;
+  return !settings.lastRequestedAt || now.getTime() - new Date(settings.lastRequestedAt).getTime() >= RUN_TIMEOUT_MS;
+}
+
+function checkSchedule(getWindow: () => BrowserWindow | null) {
+  const settings = loadSettings();
+  const now = new Date();
+  const window = getWindow();
+  if (!window || !isRunDue(settings, now)) return;
+
+  // The run happens in the renderer, which owns the IndexedDB store and the outbox
+  saveSettings({ ...settings, lastRequestedAt: now.toISOString() });
+  window.webContents.send('reminders-due', toPublicSettings(settings));
+}
+
+export function startReminderScheduler(getWindow: () => BrowserWindow | null) {
+  if (schedulerTimer) clearInterval(schedulerTimer);
+  setTimeout(() => checkSchedule(getWindow), 2 * 60 * 1000);
+  schedulerTimer = setInterval(() => checkSchedule(getWindow), CHECK_INTERVAL_MS);
+}
+
+export function registerReminderHandlers() {
+  ipcMain.handle('reminders-get-settings', () => toPublicSettings(loadSettings()));
+
+  ipcMain.handle('reminders-update-settings', (event, changes: Partial<ReminderSettings>) => {
+    const current = loadSettings();
+    const settings: StoredReminderSettings = {
+      ...current,
+      ...changes,
+      quietHours: { ...current.quietHours, ...changes.quietHours },
+      frequencyCap: { ...current.frequencyCap, ...changes.frequencyCap },
+    };
+    validateSettings(settings);
+
+    saveSettings(settings);
+    return toPublicSettings(settings);
+  });
+
+  // A failed run is asked for again once the run timeout has passed
+  ipcMain.handle('reminders-run-complete', (event, report: ReminderRunReport) => {
+    const settings = loadSettings();
+    if (report.error) {
+      log.error(`Reminder run ${report.runId} failed:`, report.error);
+      saveSettings({ ...settings, lastError: report.error });
+      return;
+    }
+
+    log.info(`Reminder run ${report.runId}: ${report.queued} queued, ${report.capped} over the limit`);
+    saveSettings({
+      ...settings,
+      lastRunAt: report.finishedAt,
+      lastRunDate: toLocalDate(new Date(report.finishedAt)),
+      lastRequestedAt: undefined,
+      lastError: undefined,
+    });
+  });
+}
@@ -7,7 +7,8 @@ export { usePayments } from "./usePayments";
 export { useReports } from "./useReports";
 export { useSettings } from "./useSettings";
 export { useElectron } from "./useElectron";
-export { useSync } from "./useSync";
+export { useSync, useSyncDevices, useReceiptAudit } from "./useSync";
+export { useLocalBackups, useScheduledBackups, useDatabaseIntegrity } from "./useBackup";
 export {
   useVirtualList,
   useInfiniteScroll,
@@ -148,3 +149,9 @@ export {
   useClassPerformance,
   useTermReporting,
 } from './useTermSummary';
+
+// Cheque hooks
+export { useCheques } from './useCheques';
+
+// Message outbox hooks
+export { useOutbox, useContactsToFix } from './useOutbox';
@@ -379,6 +379,7 @@ export function useArrears(options: UseArrearsOptions = {}): UseArrearsReturn {
         // Prepare reminder data
         const reminderData: DeadlineReminderData = {
           phoneNumber: student.guardianPhone,
+          studentId: student.id,
           studentName: student.name,
           installmentName: "School Fees",
           amountDue: student.balance,
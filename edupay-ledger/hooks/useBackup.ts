@@ -0,0 +1,160 @@
+/**
+ * useBackup Hook
+ * Local backup settings, backup files and restore for the desktop app,
+ * and the ledger integrity check run after database upgrades
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { dbHelpers, DBMigrationRun } from '@/lib/db';
+import { localBackup, OpenedBackup, BackupRestoreResult } from '@/lib/db/backup';
+import type { BackupFileInfo, BackupSettings, BackupSettingsChanges } from '@/types/electron';
+
+export function useLocalBackups() {
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [backups, setBackups] = useState<BackupFileInfo[]>([]);
+  const [openedBackup, setOpenedBackup] = useState<(OpenedBackup & { filePath: string }) | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    setIsAvailable(!!api);
+    if (!api) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const current = await api.getBackupSettings();
+      setSettings(current);
+      // The folder may be on a drive that is not plugged in
+      setBackups(current.folder ? await api.listBackups().catch(() => []) : []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load backup settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const run = useCallback(async <T>(action: () => Promise<T>, fallback: string): Promise<T | null> => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      return await action();
+    } catch (err: any) {
+      setError(err.message || fallback);
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const updateSettings = useCallback(async (changes: BackupSettingsChanges) => {
+    const updated = await run(() => window.electronAPI!.updateBackupSettings(changes), 'Failed to save backup settings');
+    if (updated) setSettings(updated);
+    return !!updated;
+  }, [run]);
+
+  const chooseFolder = useCallback(async () => {
+    const folder = await run(() => window.electronAPI!.chooseBackupFolder(), 'Failed to choose a folder');
+    if (folder) await refresh();
+  }, [run, refresh]);
+
+  const backupNow = useCallback(async () => {
+    const file = await run(() => localBackup.runBackup(), 'Backup failed');
+    await refresh();
+    return file;
+  }, [run, refresh]);
+
+  // Decrypt and verify a file, leaving its preview open until restored or dismissed
+  const openBackup = useCallback(async (filePath: string, passphrase?: string) => {
+    const opened = await run(() => localBackup.readBackup(filePath, passphrase), 'Failed to open backup');
+    setOpenedBackup(opened ? { ...opened, filePath } : null);
+    return !!opened;
+  }, [run]);
+
+  const restoreOpenedBackup = useCallback(async (userId: string, userName: string): Promise<BackupRestoreResult | null> => {
+    if (!openedBackup) return null;
+    const result = await run(
+      () => localBackup.restore(openedBackup.snapshot, openedBackup.summary, userId, userName),
+      'Restore failed'
+    );
+    if (result) setOpenedBackup(null);
+    return result;
+  }, [openedBackup, run]);
+
+  const closeBackup = useCallback(() => setOpenedBackup(null), []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    isAvailable,
+    settings,
+    backups,
+    openedBackup,
+    isLoading,
+    isWorking,
+    error,
+    refresh,
+    updateSettings,
+    chooseFolder,
+    backupNow,
+    openBackup,
+    restoreOpenedBackup,
+    closeBackup,
+  };
+}
+
+/**
+ * Answers the main process when a scheduled backup is due. The main process
+ * owns the timer and the files; the snapshot has to come from the renderer.
+ */
+export function useScheduledBackups() {
+  useEffect(() => {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    if (!api) return;
+
+    api.onBackupDue(() => {
+      localBackup.runBackup().catch(error => {
+        console.error('Scheduled backup failed:', error);
+      });
+    });
+
+    return () => {
+      api.removeAllListeners('backup-due');
+    };
+  }, []);
+}
+
+export function useDatabaseIntegrity() {
+  const [lastRun, setLastRun] = useState<DBMigrationRun | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      setLastRun(await dbHelpers.checkIntegrity());
+    } catch (err: any) {
+      setError(err.message || 'Integrity check failed');
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    dbHelpers.getLatestMigrationRun()
+      .then(run => setLastRun(run ?? null))
+      .catch((err: any) => setError(err.message || 'Failed to load the last integrity check'));
+  }, []);
+
+  return { lastRun, isChecking, error, runCheck };
+}
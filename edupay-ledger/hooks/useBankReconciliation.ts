@@ -10,21 +10,51 @@ import {
   getReconciliationSummary,
   createReconciliationSession,
   manualMatch,
+  manualMatchGroup,
   unmatchTransaction,
   ignoreTransaction,
   parseBankStatement,
+  detectStatementImporter,
+  STATEMENT_IMPORTERS,
+  getSchoolBankImportConfigs,
+  previewReconciliationStatement,
+  closeReconciliationSession,
+  CloseOutInput,
+  getCreditPostingDrafts,
+  postCreditsAsPayments,
+  CreditPostingDraft,
+  CreditPostingResult,
+  getSavedBankImporters,
+  saveBankImportConfig,
   getMockReconciliationSessions,
   getMockTransactions,
 } from '../lib/services/bank-reconciliation.service';
+import {
+  exportReconciliationStatementToExcel,
+  exportReconciliationStatementToPDF,
+} from '../lib/services/export.service';
+import { db as localDb } from '../lib/db';
+import type { PaymentRecordInput } from '../types/payment';
 import {
   ReconciliationSession,
   BankTransactionWithStatus,
   ReconciliationSummary,
   ReconciliationStatus,
+  ReconciliationStatement,
   BankTransaction,
   BankImportConfig,
+  PossibleMatch,
+  SavedBankImportConfig,
+  StatementImporter,
   UGANDA_BANK_CONFIGS,
 } from '../types/bank-reconciliation';
+import {
+  detectStatementFormat,
+  parseCsv,
+  parseMt940Statement,
+  parseOfxStatement,
+  StatementFileFormat,
+} from '../lib/reconciliation/statement-formats';
 
 const USE_MOCK_DATA = process.env.NEXT_PUBLIC_USE_MOCK_DATA === 'true';
 
@@ -215,6 +245,144 @@ export function useReconciliationSummary(
   return { summary, isLoading, error };
 }
 
+// ============================================
+// CLOSE-OUT HOOK
+// ============================================
+
+export function useReconciliationCloseOut(
+  schoolId: string,
+  session: ReconciliationSession | null,
+  user: { id: string; name: string },
+  schoolName: string,
+  onClosed?: () => void
+) {
+  const [statement, setStatement] = useState<ReconciliationStatement | null>(session?.statement || null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStatement(session?.statement || null);
+    setError(null);
+  }, [session]);
+
+  const isClosed = session?.status === 'completed';
+
+  // Draft the statement for review before it is locked
+  const preview = useCallback(async (input: CloseOutInput) => {
+    if (!session) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      setStatement(await previewReconciliationStatement(schoolId, session.id, input, user));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [schoolId, session, user]);
+
+  const close = useCallback(async (input: CloseOutInput) => {
+    if (!session) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      setStatement(await closeReconciliationSession(schoolId, session.id, input, user));
+      onClosed?.();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [schoolId, session, user, onClosed]);
+
+  const exportPDF = useCallback(() => {
+    if (statement) exportReconciliationStatementToPDF(statement, schoolName);
+  }, [statement, schoolName]);
+
+  const exportExcel = useCallback(async () => {
+    if (statement) await exportReconciliationStatementToExcel(statement, schoolName);
+  }, [statement, schoolName]);
+
+  return { statement, isClosed, preview, close, exportPDF, exportExcel, isProcessing, error };
+}
+
+// ============================================
+// CREDIT POSTING HOOK
+// ============================================
+
+export function useCreditPosting(
+  schoolId: string,
+  sessionId: string | null,
+  user: { id: string; name: string },
+  onPosted?: () => void
+) {
+  const [drafts, setDrafts] = useState<CreditPostingDraft[]>([]);
+  const [students, setStudents] = useState<{ id: string; label: string }[]>([]);
+  const [results, setResults] = useState<CreditPostingResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!schoolId || !sessionId) {
+      setDrafts([]);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [loaded, localStudents] = await Promise.all([
+        getCreditPostingDrafts(schoolId, sessionId),
+        localDb.students.where('status').equals('active').toArray(),
+      ]);
+      setDrafts(loaded);
+      setStudents(localStudents
+        .map(student => ({ id: student.id, label: `${student.firstName} ${student.lastName} (${student.studentId})` }))
+        .sort((a, b) => a.label.localeCompare(b.label)));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [schoolId, sessionId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Posts one credit or a whole statement's worth, then reloads what is left
+  const post = useCallback(async (postings: { bankTransactionId: string; payment: PaymentRecordInput }[]) => {
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const posted = await postCreditsAsPayments(schoolId, postings, user);
+      setResults(posted);
+      if (posted.some(result => result.success)) {
+        onPosted?.();
+        await load();
+      }
+      return posted;
+    } catch (err: any) {
+      setError(err.message);
+      return [];
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [schoolId, user, onPosted, load]);
+
+  const postConfident = useCallback(() => post(
+    drafts
+      .filter(draft => draft.payment)
+      .map(draft => ({ bankTransactionId: draft.transaction.id, payment: draft.payment! }))
+  ), [drafts, post]);
+
+  return { drafts, students, results, post, postConfident, reload: load, isLoading, isProcessing, error };
+}
+
 // ============================================
 // RECONCILIATION ACTIONS HOOK
 // ============================================
@@ -245,6 +413,35 @@ export function useReconciliationActions(schoolId: string, onSuccess?: () => voi
     }
   }, [schoolId, onSuccess]);
 
+  // Accepts a suggestion, including split and aggregate ones
+  const matchSuggestion = useCallback(async (
+    transactionId: string,
+    suggestion: PossibleMatch,
+    userId: string,
+    notes?: string
+  ) => {
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      if (!USE_MOCK_DATA) {
+        await manualMatchGroup(
+          schoolId,
+          suggestion.bankTransactionIds || [transactionId],
+          suggestion.paymentIds || [suggestion.paymentId],
+          userId,
+          notes
+        );
+      }
+      onSuccess?.();
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [schoolId, onSuccess]);
+
   const unmatch = useCallback(async (transactionId: string) => {
     setIsProcessing(true);
     setError(null);
@@ -283,7 +480,7 @@ export function useReconciliationActions(schoolId: string, onSuccess?: () => voi
     }
   }, [schoolId, onSuccess]);
 
-  return { match, unmatch, ignore, isProcessing, error };
+  return { match, matchSuggestion, unmatch, ignore, isProcessing, error };
 }
 
 // ============================================
@@ -295,8 +492,13 @@ export type ImportStep = 'upload' | 'configure' | 'preview' | 'importing' | 'com
 export function useImportWizard(schoolId: string, userId: string) {
   const [step, setStep] = useState<ImportStep>('upload');
   const [file, setFile] = useState<File | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [fileFormat, setFileFormat] = useState<StatementFileFormat>('csv');
   const [rawData, setRawData] = useState<Record<string, unknown>[]>([]);
+  const [savedConfigs, setSavedConfigs] = useState<SavedBankImportConfig[]>([]);
+  const [statementBalances, setStatementBalances] = useState<{ openingBalance?: number; closingBalance?: number }>({});
   const [bankConfig, setBankConfig] = useState<BankImportConfig | null>(null);
+  const [importer, setImporter] = useState<StatementImporter | null>(null);
   const [parsedTransactions, setParsedTransactions] = useState<BankTransaction[]>([]);
   const [bankAccountName, setBankAccountName] = useState('');
   const [bankAccountNumber, setBankAccountNumber] = useState('');
@@ -304,6 +506,19 @@ export function useImportWizard(schoolId: string, userId: string) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Column mappings the school saved for banks without a default configuration
+  useEffect(() => {
+    if (USE_MOCK_DATA || !schoolId) return;
+    getSchoolBankImportConfigs(schoolId)
+      .then(setSavedConfigs)
+      .catch(err => console.error('Failed to load saved bank formats:', err));
+  }, [schoolId]);
+
+  const importers = useMemo(
+    () => [...getSavedBankImporters(savedConfigs), ...STATEMENT_IMPORTERS],
+    [savedConfigs]
+  );
+
   // Parse file
   const parseFile = useCallback(async (selectedFile: File) => {
     setFile(selectedFile);
@@ -311,23 +526,28 @@ export function useImportWizard(schoolId: string, userId: string) {
     
     try {
       const text = await selectedFile.text();
-      const lines = text.split('\n');
-      
-      // Simple CSV parsing
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-      const rows: Record<string, unknown>[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        if (!lines[i].trim()) continue;
-        const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-        const row: Record<string, unknown> = {};
-        headers.forEach((header, idx) => {
-          row[header] = values[idx] || '';
-        });
-        rows.push(row);
+      const format = detectStatementFormat(selectedFile.name, text);
+      setFileText(text);
+      setFileFormat(format);
+      setStatementBalances({});
+
+      // OFX and MT940 describe their own fields, so they skip column mapping
+      if (format !== 'csv') {
+        const statement = format === 'ofx' ? parseOfxStatement(text) : parseMt940Statement(text);
+        if (statement.transactions.length === 0) {
+          throw new Error(`No transactions found in this ${format === 'ofx' ? 'OFX' : 'MT940'} file`);
+        }
+        setRawData([]);
+        setBankConfig(null);
+        setImporter(null);
+        setParsedTransactions(statement.transactions);
+        setStatementBalances({ openingBalance: statement.openingBalance, closingBalance: statement.closingBalance });
+        if (statement.accountNumber) setBankAccountNumber(statement.accountNumber);
+        setStep('preview');
+        return;
       }
 
-      setRawData(rows);
+      setRawData(parseCsv(text).rows);
       setStep('configure');
     } catch (err: any) {
       setError(`Failed to parse file: ${err.message}`);
@@ -352,17 +572,64 @@ export function useImportWizard(schoolId: string, userId: string) {
     return null;
   }, [rawData]);
 
+  // Auto-detect the statement layout, bank or mobile money, from columns
+  const detectImporter = useCallback(() => {
+    if (rawData.length === 0) return null;
+    return detectStatementImporter(Object.keys(rawData[0]), importers) || null;
+  }, [rawData, importers]);
+
   // Apply bank configuration
   const applyConfig = useCallback((config: BankImportConfig) => {
     setBankConfig(config);
-    const transactions = parseBankStatement(rawData, config);
+    setImporter(null);
+    const rows = config.headerRow > 1 ? parseCsv(fileText, config.headerRow).rows : rawData;
+    const transactions = parseBankStatement(rows, config);
     setParsedTransactions(transactions);
     setStep('preview');
+  }, [rawData, fileText]);
+
+  // Columns and first transactions a mapping gives, for the wizard's live preview
+  const previewMapping = useCallback((config: BankImportConfig) => {
+    const table = parseCsv(fileText, config.headerRow);
+    const ready = config.dateColumn && config.descriptionColumn &&
+      (config.amountColumn || (config.creditColumn && config.debitColumn));
+    const transactions = ready ? parseBankStatement(table.rows, config) : [];
+    return {
+      columns: table.columns,
+      transactions: transactions.slice(0, 5),
+      skippedRows: ready ? table.rows.length - transactions.length : 0,
+    };
+  }, [fileText]);
+
+  // Save a column mapping built in the wizard and import with it
+  const saveMapping = useCallback(async (config: BankImportConfig) => {
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const saved: SavedBankImportConfig = USE_MOCK_DATA
+        ? { ...config, id: `mock-${Date.now()}`, createdBy: userId, createdAt: new Date() }
+        : await saveBankImportConfig(schoolId, config, userId);
+      setSavedConfigs(prev => [...prev, saved]);
+      applyConfig(saved);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [schoolId, userId, applyConfig]);
+
+  // Apply a statement importer, e.g. an MTN MoMo merchant statement
+  const applyImporter = useCallback((selected: StatementImporter) => {
+    setImporter(selected);
+    setBankConfig(null);
+    setParsedTransactions(selected.parse(rawData));
+    setStep('preview');
   }, [rawData]);
 
   // Start import
   const startImport = useCallback(async () => {
-    if (!bankConfig || parsedTransactions.length === 0) {
+    if ((!bankConfig && !importer && fileFormat === 'csv') || parsedTransactions.length === 0) {
       setError('No transactions to import');
       return;
     }
@@ -383,6 +650,7 @@ export function useImportWizard(schoolId: string, userId: string) {
           statementPeriodStart: new Date(),
           statementPeriodEnd: new Date(),
           fileName: file?.name || 'statement.csv',
+          source: importer?.source || 'bank',
           importedAt: new Date(),
           importedBy: userId,
           status: 'in_progress',
@@ -400,7 +668,9 @@ export function useImportWizard(schoolId: string, userId: string) {
           bankAccountNumber,
           file?.name || 'statement.csv',
           parsedTransactions,
-          userId
+          userId,
+          importer?.source || 'bank',
+          statementBalances
         );
         setSession(newSession);
       }
@@ -412,14 +682,18 @@ export function useImportWizard(schoolId: string, userId: string) {
     } finally {
       setIsProcessing(false);
     }
-  }, [schoolId, userId, bankConfig, parsedTransactions, bankAccountName, bankAccountNumber, file]);
+  }, [schoolId, userId, bankConfig, importer, fileFormat, statementBalances, parsedTransactions, bankAccountName, bankAccountNumber, file]);
 
   // Reset wizard
   const reset = useCallback(() => {
     setStep('upload');
     setFile(null);
+    setFileText('');
+    setFileFormat('csv');
+    setStatementBalances({});
     setRawData([]);
     setBankConfig(null);
+    setImporter(null);
     setParsedTransactions([]);
     setBankAccountName('');
     setBankAccountNumber('');
@@ -430,8 +704,11 @@ export function useImportWizard(schoolId: string, userId: string) {
   return {
     step,
     file,
+    fileText,
+    fileFormat,
     rawData,
     bankConfig,
+    importer,
     parsedTransactions,
     bankAccountName,
     bankAccountNumber,
@@ -441,7 +718,11 @@ export function useImportWizard(schoolId: string, userId: string) {
     // Actions
     parseFile,
     detectBank,
+    detectImporter,
     applyConfig,
+    applyImporter,
+    previewMapping,
+    saveMapping,
     setBankAccountName,
     setBankAccountNumber,
     startImport,
@@ -449,5 +730,7 @@ export function useImportWizard(schoolId: string, userId: string) {
     setStep,
     // Available configs
     availableBankConfigs: UGANDA_BANK_CONFIGS,
+    availableImporters: importers,
+    savedConfigs,
   };
 }
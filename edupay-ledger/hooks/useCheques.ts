@@ -0,0 +1,84 @@
+/**
+ * Cheque Hooks
+ * React hook for the cheque register: deposit, clear and bounce
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  bounceCheque,
+  ChequeBounceResult,
+  ChequePayment,
+  clearCheque,
+  depositCheque,
+  getChequePayments,
+} from '../lib/services/cheque.service';
+import { ChequeBounceInput, ChequeStatus, CHEQUE_OVERDUE_DAYS } from '../types/cheque';
+
+export function useCheques(
+  user: { id: string; name: string },
+  statuses?: ChequeStatus[],
+  overdueDays: number = CHEQUE_OVERDUE_DAYS
+) {
+  const [cheques, setCheques] = useState<ChequePayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const statusKey = statuses?.join(',');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setCheques(await getChequePayments(statusKey ? statusKey.split(',') as ChequeStatus[] : undefined, overdueDays));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusKey, overdueDays]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs one cheque change, then reloads the register
+  const run = useCallback(async <T,>(action: () => Promise<T>): Promise<T | null> => {
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const result = await action();
+      await load();
+      return result;
+    } catch (err: any) {
+      setError(err.message);
+      return null;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [load]);
+
+  const deposit = useCallback((paymentId: string, depositedAt?: Date) =>
+    run(() => depositCheque(paymentId, user, depositedAt)), [run, user]);
+
+  const clear = useCallback((paymentId: string, clearedAt?: Date) =>
+    run(() => clearCheque(paymentId, user, clearedAt)), [run, user]);
+
+  const bounce = useCallback((paymentId: string, input: ChequeBounceInput): Promise<ChequeBounceResult | null> =>
+    run(() => bounceCheque(paymentId, input, user)), [run, user]);
+
+  const overdueCount = useMemo(() => cheques.filter(cheque => cheque.isOverdue).length, [cheques]);
+
+  return {
+    cheques,
+    overdueCount,
+    isLoading,
+    isProcessing,
+    error,
+    refresh: load,
+    deposit,
+    clear,
+    bounce,
+  };
+}
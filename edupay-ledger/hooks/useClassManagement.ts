@@ -467,6 +467,11 @@ export function useClassManagement(
                   gender: data.gender ?? s.gender,
                   guardianName: data.guardianName ?? s.guardianName,
                   guardianPhone: data.guardianPhone ?? s.guardianPhone,
+                  guardianAlternatePhone:
+                    data.guardianAlternatePhone ?? s.guardianAlternatePhone,
+                  guardianEmail: data.guardianEmail ?? s.guardianEmail,
+                  guardianLanguage: data.guardianLanguage ?? s.guardianLanguage,
+                  guardianChannel: data.guardianChannel ?? s.guardianChannel,
                   boardingStatus: data.boardingStatus ?? s.boardingStatus,
                 };
               })
@@ -0,0 +1,84 @@
+/**
+ * Message Template Hooks
+ * The SMS and email wording in each language for the template editor, and
+ * the school's default language for guardians who have none set
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  getSchoolMessageLanguage,
+  listMessageTemplates,
+  resetTemplateOverride,
+  saveTemplateOverride,
+  setSchoolMessageLanguage,
+} from '../lib/services/template.service';
+import type {
+  MessageLanguage,
+  MessageTemplate,
+  MessageTemplateRow,
+  MessageTemplateType,
+  TemplateChannel,
+} from '../types/message-template';
+
+export function useMessageTemplates(channel: TemplateChannel, language: MessageLanguage) {
+  const [templates, setTemplates] = useState<MessageTemplateRow[]>([]);
+  const [schoolLanguage, setSchoolLanguageState] = useState<MessageLanguage>('en');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTemplates(await listMessageTemplates(channel, language));
+      setSchoolLanguageState(getSchoolMessageLanguage());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [channel, language]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(async (
+    type: MessageTemplateType,
+    template: MessageTemplate,
+    user?: { id: string; name: string }
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveTemplateOverride(channel, type, language, template, user);
+      await refresh();
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to save template');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [channel, language, refresh]);
+
+  const reset = useCallback(async (type: MessageTemplateType): Promise<boolean> => {
+    setError(null);
+    try {
+      await resetTemplateOverride(channel, type, language);
+      await refresh();
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset template');
+      return false;
+    }
+  }, [channel, language, refresh]);
+
+  const setSchoolLanguage = useCallback((next: MessageLanguage) => {
+    setSchoolMessageLanguage(next);
+    setSchoolLanguageState(next);
+  }, []);
+
+  return { templates, schoolLanguage, isLoading, isSaving, error, refresh, save, reset, setSchoolLanguage };
+}
@@ -0,0 +1,110 @@
+/**
+ * Message Outbox Hooks
+ * React hooks for the SMS and email history (search, delivery state and
+ * retry) and for guardian contacts that keep failing
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  ContactToFix,
+  drainOutbox,
+  getContactsToFix,
+  getOutboxSummary,
+  GuardianContacts,
+  retryOutboxMessage,
+  searchOutbox,
+} from '../lib/services/outbox.service';
+import type { OutboxMessage, OutboxSearch, OutboxSummary } from '../types/outbox';
+
+export function useOutbox(search: OutboxSearch = {}) {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [summary, setSummary] = useState<OutboxSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { query, channel, status, from, to } = search;
+  const fromTime = from?.getTime();
+  const toTime = to?.getTime();
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [found, counts] = await Promise.all([
+        searchOutbox({
+          query,
+          channel,
+          status,
+          ...(fromTime !== undefined && { from: new Date(fromTime) }),
+          ...(toTime !== undefined && { to: new Date(toTime) }),
+        }),
+        getOutboxSummary(),
+      ]);
+      setMessages(found);
+      setSummary(counts);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load messages');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, channel, status, fromTime, toTime]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const retry = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      await retryOutboxMessage(id);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry message');
+    }
+  }, [refresh]);
+
+  // Sends whatever is due now instead of waiting for the next sync
+  const sendNow = useCallback(async (): Promise<number> => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const sent = await drainOutbox();
+      await refresh();
+      return sent;
+    } catch (err: any) {
+      setError(err.message || 'Failed to send messages');
+      return 0;
+    } finally {
+      setIsSending(false);
+    }
+  }, [refresh]);
+
+  return { messages, summary, isLoading, isSending, error, refresh, retry, sendNow };
+}
+
+/**
+ * The given students whose guardian contacts keep failing
+ */
+export function useContactsToFix<T extends GuardianContacts>(students: T[]) {
+  const [contactsToFix, setContactsToFix] = useState<Array<ContactToFix<T>>>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setContactsToFix(await getContactsToFix(students));
+    } catch (err: any) {
+      setError(err.message || 'Failed to check contact details');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [students]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { contactsToFix, isLoading, error, refresh };
+}
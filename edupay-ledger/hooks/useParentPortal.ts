@@ -28,6 +28,9 @@ import {
   getMockParentDashboard,
   getMockAnnouncements,
 } from '../lib/services/parent-portal.service';
+import { checkCollection, requestMobileMoneyPayment } from '../lib/services/collection.service';
+import { COLLECTION_POLL_INTERVAL_MS } from '../lib/collections/state';
+import { CollectionRequest } from '../types/collection';
 
 const useMockData = process.env.NEXT_PUBLIC_USE_MOCK_DATA === 'true';
 
@@ -69,11 +72,11 @@ export function useParentAccount(parentId: string | null) {
   }, [fetchAccount]);
 
   const updatePreferences = useCallback(async (preferences: Partial<NotificationPreferences>) => {
-    if (!parentId || useMockData) return;
+    if (!parentId || !account || useMockData) return;
     
-    await updateNotificationPreferences(parentId, preferences);
+    await updateNotificationPreferences(account.schoolId, parentId, preferences);
     await fetchAccount();
-  }, [parentId, fetchAccount]);
+  }, [parentId, account, fetchAccount]);
 
   return { account, isLoading, error, refresh: fetchAccount, updatePreferences };
 }
@@ -122,7 +125,7 @@ export function useParentDashboard(parentId: string | null) {
 // STUDENT FEE OVERVIEW HOOK
 // ============================================
 
-export function useStudentFeeOverview(studentId: string | null) {
+export function useStudentFeeOverview(schoolId: string, studentId: string | null) {
   const [overview, setOverview] = useState<ParentStudentFeeOverview | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -170,7 +173,7 @@ export function useStudentFeeOverview(studentId: string | null) {
             totalOwed: 450000,
           });
         } else {
-          const data = await getParentStudentFeeOverview(studentId);
+          const data = await getParentStudentFeeOverview(schoolId, studentId);
           setOverview(data);
         }
       } catch (err) {
@@ -181,7 +184,7 @@ export function useStudentFeeOverview(studentId: string | null) {
     }
 
     fetchOverview();
-  }, [studentId]);
+  }, [schoolId, studentId]);
 
   return { overview, isLoading, error };
 }
@@ -190,7 +193,7 @@ export function useStudentFeeOverview(studentId: string | null) {
 // PAYMENT HISTORY HOOK
 // ============================================
 
-export function usePaymentHistory(studentIds: string[]) {
+export function usePaymentHistory(schoolId: string, studentIds: string[]) {
   const [payments, setPayments] = useState<ParentPaymentHistoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -241,7 +244,7 @@ export function usePaymentHistory(studentIds: string[]) {
             },
           ]);
         } else {
-          const data = await getParentPaymentHistory(studentIds);
+          const data = await getParentPaymentHistory(schoolId, studentIds);
           setPayments(data);
         }
       } catch (err) {
@@ -252,7 +255,7 @@ export function usePaymentHistory(studentIds: string[]) {
     }
 
     fetchPayments();
-  }, [studentIds.join(',')]);
+  }, [schoolId, studentIds.join(',')]);
 
   return { payments, isLoading, error };
 }
@@ -261,7 +264,7 @@ export function usePaymentHistory(studentIds: string[]) {
 // FEE STATEMENT HOOK
 // ============================================
 
-export function useFeeStatement(studentId: string | null) {
+export function useFeeStatement(schoolId: string, studentId: string | null) {
   const [statement, setStatement] = useState<FeeStatement | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -311,13 +314,15 @@ export function useFeeStatement(studentId: string | null) {
           ],
           totalPaid: 1050000,
           previousBalance: 0,
+          creditBroughtForward: 0,
           totalOwed: 1500000,
           currentBalance: 450000,
+          creditBalance: 0,
         };
         setStatement(mockStatement);
         return mockStatement;
       } else {
-        const data = await generateFeeStatement(studentId, schoolInfo);
+        const data = await generateFeeStatement(schoolId, studentId, schoolInfo);
         setStatement(data);
         return data;
       }
@@ -327,7 +332,7 @@ export function useFeeStatement(studentId: string | null) {
     } finally {
       setIsLoading(false);
     }
-  }, [studentId]);
+  }, [schoolId, studentId]);
 
   return { statement, isLoading, error, generate };
 }
@@ -336,7 +341,7 @@ export function useFeeStatement(studentId: string | null) {
 // PAYMENT RECEIPT HOOK
 // ============================================
 
-export function usePaymentReceipt() {
+export function usePaymentReceipt(schoolId: string) {
   const [receipt, setReceipt] = useState<PaymentReceipt | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -372,7 +377,7 @@ export function usePaymentReceipt() {
         setReceipt(mockReceipt);
         return mockReceipt;
       } else {
-        const data = await generatePaymentReceipt(paymentId, schoolInfo);
+        const data = await generatePaymentReceipt(schoolId, paymentId, schoolInfo);
         setReceipt(data);
         return data;
       }
@@ -382,7 +387,7 @@ export function usePaymentReceipt() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [schoolId]);
 
   return { receipt, isLoading, error, generate };
 }
@@ -429,9 +434,10 @@ export function useAnnouncements(
 // QUICK PAY HOOK
 // ============================================
 
-export function useQuickPay() {
+export function useQuickPay(schoolId: string, requestedBy: string) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [collection, setCollection] = useState<CollectionRequest | null>(null);
 
   const initiatePay = useCallback(async (
     studentId: string,
@@ -443,20 +449,21 @@ export function useQuickPay() {
     setError(null);
 
     try {
-      // This would integrate with actual payment providers
-      // For now, simulate the request
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      if (useMockData) {
-        return {
-          success: true,
-          transactionId: `TXN${Date.now()}`,
-          message: 'Payment request sent. Please check your phone to complete.',
-        };
+      const request = await requestMobileMoneyPayment(
+        { studentId, amount, phoneNumber, provider },
+        schoolId,
+        requestedBy
+      );
+      setCollection(request);
+
+      if (request.status === 'failed') {
+        throw new Error(request.reason || 'The payment prompt could not be sent');
       }
-
-      // Real implementation would call payment gateway
-      throw new Error('Payment gateway not configured');
+      return {
+        success: true,
+        transactionId: request.id,
+        message: 'Payment request sent. Please check your phone to complete.',
+      };
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Payment failed';
       setError(message);
@@ -464,7 +471,25 @@ export function useQuickPay() {
     } finally {
       setIsProcessing(false);
     }
+  }, [schoolId, requestedBy]);
+
+  // Follow the prompt until the parent answers it or it expires
+  useEffect(() => {
+    if (collection?.status !== 'pending') return;
+    const timer = setTimeout(async () => {
+      try {
+        setCollection(await checkCollection(collection.id));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not check the payment');
+      }
+    }, COLLECTION_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [collection]);
+
+  const reset = useCallback(() => {
+    setCollection(null);
+    setError(null);
   }, []);
 
-  return { initiatePay, isProcessing, error };
+  return { initiatePay, collection, reset, isProcessing, error };
 }
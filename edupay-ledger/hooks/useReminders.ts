@@ -0,0 +1,109 @@
+/**
+ * Scheduled Reminder Hooks
+ * Answers the desktop app's daily reminder schedule, and gives the settings
+ * page the schedule, the run log and a way to run reminders now
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getReminderRuns, sendScheduledReminders } from '@/lib/services/reminder.service';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  ReminderRun,
+  ReminderSettings,
+  ReminderSettingsChanges,
+} from '@/types/reminder';
+
+function reportRun(run: ReminderRun) {
+  return window.electronAPI?.reportReminderRun({
+    runId: run.id,
+    finishedAt: run.finishedAt || new Date().toISOString(),
+    queued: run.queued,
+    capped: run.capped,
+    ...(run.error && { error: run.error }),
+  });
+}
+
+/**
+ * Sends the day's reminders when the main process says they are due. The
+ * main process owns the timer; the students and the outbox are in the
+ * renderer's IndexedDB store.
+ */
+export function useScheduledReminders(schoolId?: string) {
+  useEffect(() => {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    if (!api || !schoolId) return;
+
+    api.onRemindersDue(settings => {
+      sendScheduledReminders(schoolId, settings, 'schedule')
+        .then(reportRun)
+        .catch(error => {
+          console.error('Scheduled reminders failed:', error);
+        });
+    });
+
+    return () => {
+      api.removeAllListeners('reminders-due');
+    };
+  }, [schoolId]);
+}
+
+export function useReminders(schoolId?: string) {
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [runs, setRuns] = useState<ReminderRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    setIsScheduled(!!api);
+    setIsLoading(true);
+    try {
+      if (api) setSettings(await api.getReminderSettings());
+      setRuns(await getReminderRuns());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load reminders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // The schedule lives in the desktop app; in the browser reminders only run on demand
+  const updateSettings = useCallback(async (changes: ReminderSettingsChanges) => {
+    if (!window.electronAPI) return false;
+    setError(null);
+    try {
+      setSettings(await window.electronAPI.updateReminderSettings(changes));
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to save reminder settings');
+      return false;
+    }
+  }, []);
+
+  const runNow = useCallback(async (): Promise<ReminderRun | null> => {
+    if (!schoolId) return null;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const run = await sendScheduledReminders(schoolId, settings, 'manual');
+      await reportRun(run);
+      await refresh();
+      return run;
+    } catch (err: any) {
+      setError(err.message || 'Failed to send reminders');
+      return null;
+    } finally {
+      setIsRunning(false);
+    }
+  }, [schoolId, settings, refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { isScheduled, settings, runs, isLoading, isRunning, error, refresh, updateSettings, runNow };
+}
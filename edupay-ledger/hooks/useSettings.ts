@@ -24,6 +24,10 @@ import {
   type NotificationPrefs,
   type AppSettings,
 } from '@/lib/services/settings.service';
+import { localBackup } from '@/lib/db/backup';
+import { anchorBatches } from '@/lib/db/anchor-batches';
+import type { AnchorQueueStatus } from '@/lib/db/anchor-queue';
+import { syncService } from '@/lib/sync';
 
 export interface SettingsState {
   schoolInfo: SchoolInfo;
@@ -46,6 +50,7 @@ export interface UseSettingsReturn {
   settings: SettingsState | null;
   isLoading: boolean;
   error: Error | null;
+  anchorQueue: AnchorQueueStatus | null;
   
   // UI State
   activeTab: string;
@@ -80,6 +85,7 @@ export interface UseSettingsReturn {
   sendTestSMS: (phone: string) => Promise<{ success: boolean; message: string }>;
   syncPaymentGateways: () => Promise<void>;
   createBackup: () => Promise<{ success: boolean; message: string }>;
+  anchorNow: () => Promise<{ success: boolean; message: string }>;
   restoreBackup: (backupId: string) => Promise<void>;
   exportData: (format: 'json' | 'csv' | 'pdf') => Promise<void>;
   
@@ -94,6 +100,7 @@ export function useSettings(): UseSettingsReturn {
   const [settings, setSettings] = useState<SettingsState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [anchorQueue, setAnchorQueue] = useState<AnchorQueueStatus | null>(null);
   
   // UI state
   const [activeTab, setActiveTab] = useState('overview');
@@ -119,6 +126,31 @@ export function useSettings(): UseSettingsReturn {
     }
     loadSettings();
   }, []);
+
+  // Stellar counters come from this device's anchor queue, refreshed after every sync
+  const refreshAnchorQueue = useCallback(async () => {
+    const status = await anchorBatches.getStatus();
+    setAnchorQueue(status);
+    setSettings(prev => prev && {
+      ...prev,
+      stellarConfig: {
+        ...prev.stellarConfig,
+        pendingAnchor: status.pendingPayments,
+        totalAnchored: status.anchoredPayments,
+        lastAnchorTime: status.lastAnchoredAt ? new Date(status.lastAnchoredAt) : undefined,
+      },
+    });
+    return status;
+  }, []);
+
+  useEffect(() => {
+    if (isLoading) return;
+    const refresh = () => {
+      refreshAnchorQueue().catch(err => console.error('Failed to load anchor queue:', err));
+    };
+    refresh();
+    return syncService.subscribe(refresh);
+  }, [isLoading, refreshAnchorQueue]);
   
   // Filtered users
   const filteredUsers = useMemo(() => {
@@ -288,6 +320,20 @@ export function useSettings(): UseSettingsReturn {
   }, []);
   
   const createBackup = useCallback(async () => {
+    // The desktop app writes a real backup to its chosen folder
+    if (typeof window !== 'undefined' && window.electronAPI) {
+      try {
+        const file = await localBackup.runBackup();
+        setSettings(prev => prev && {
+          ...prev,
+          backupConfig: { ...prev.backupConfig, lastBackupTime: new Date(file.summary.createdAt) },
+        });
+        return { success: true, message: `Backup saved as ${file.fileName}` };
+      } catch (err: any) {
+        return { success: false, message: err.message || 'Backup failed' };
+      }
+    }
+
     await new Promise(resolve => setTimeout(resolve, 3000));
     setSettings(prev => {
       if (!prev) return prev;
@@ -299,6 +345,21 @@ export function useSettings(): UseSettingsReturn {
     return { success: true, message: 'Backup created successfully. Size: 245MB' };
   }, []);
   
+  const anchorNow = useCallback(async () => {
+    try {
+      const anchored = await anchorBatches.anchorDue(true);
+      const status = await refreshAnchorQueue();
+      if (anchored > 0) {
+        return { success: true, message: `Anchored ${anchored} batch${anchored === 1 ? '' : 'es'} to Stellar` };
+      }
+      return status.waitingBatches === 0
+        ? { success: true, message: 'No sealed batches are waiting to be anchored' }
+        : { success: false, message: status.lastError || 'Anchoring failed' };
+    } catch (err: any) {
+      return { success: false, message: err.message || 'Anchoring failed' };
+    }
+  }, [refreshAnchorQueue]);
+  
   const restoreBackup = useCallback(async (backupId: string) => {
     await new Promise(resolve => setTimeout(resolve, 5000));
     console.log('Restored backup:', backupId);
@@ -322,6 +383,7 @@ export function useSettings(): UseSettingsReturn {
     settings,
     isLoading,
     error,
+    anchorQueue,
     activeTab,
     setActiveTab,
     searchQuery,
@@ -346,6 +408,7 @@ export function useSettings(): UseSettingsReturn {
     sendTestSMS,
     syncPaymentGateways,
     createBackup,
+    anchorNow,
     restoreBackup,
     exportData,
     getRoleConfig,
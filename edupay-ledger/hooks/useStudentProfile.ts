@@ -219,35 +219,30 @@ export function useStudentProfile(
       const profileData = studentToProfileData(fetchedStudent);
       setStudent(profileData);
 
-      // Fetch student transactions
-      // For now, we'll fetch from the payments collection
-      // In a real implementation, you'd have a dedicated function
+      // Fetch student transactions from the school's payments
       try {
         const { db } = await import('@/lib/firebase');
         const { collection, query, where, orderBy, getDocs, limit } = await import('firebase/firestore');
+        const { readPayments, schoolCollectionPath } = await import('@/lib/db/shared-records');
         
         const paymentsQuery = query(
-          collection(db, 'payments'),
-          where('studentId', '==', fetchedStudent.studentId || fetchedStudent.id),
-          orderBy('recordedAt', 'desc'),
+          collection(db, schoolCollectionPath(user.schoolId, 'payments')),
+          where('studentId', '==', fetchedStudent.id),
+          orderBy('paymentDate', 'desc'),
           limit(20)
         );
 
         const paymentsSnapshot = await getDocs(paymentsQuery);
-        const studentTransactions: StudentTransaction[] = [];
-
-        paymentsSnapshot.forEach((doc) => {
-          const data = doc.data();
-          studentTransactions.push({
-            id: doc.id,
-            date: data.recordedAt?.toDate() || new Date(),
-            refId: data.transactionRef || data.receiptNumber || doc.id.substring(0, 12).toUpperCase(),
-            channel: data.channel || 'cash',
-            channelName: getChannelDisplayName(data.channel),
-            amount: data.amount || 0,
-            status: data.status || 'cleared',
-          });
-        });
+        const studentTransactions: StudentTransaction[] = readPayments(paymentsSnapshot.docs, user.schoolId)
+          .map((payment) => ({
+            id: payment.id,
+            date: payment.recordedAt.toDate(),
+            refId: payment.transactionRef || payment.receiptNumber || payment.id.substring(0, 12).toUpperCase(),
+            channel: payment.channel || 'cash',
+            channelName: getChannelDisplayName(payment.channel),
+            amount: payment.amount || 0,
+            status: payment.status === 'failed' ? 'reversed' : payment.status,
+          }));
 
         setTransactions(studentTransactions);
       } catch (txError) {
@@ -7,16 +7,23 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { syncService, SyncState, SyncResult } from '@/lib/sync';
+import { receiptSeries } from '@/lib/db/receipt-series';
+import type { ReceiptSeriesAudit } from '@/lib/db/receipt-numbers';
+import type { DBSyncConflict, DBSyncQueue, DBDevice, DBReceiptBlock } from '@/lib/db';
 
 export function useSync(schoolId?: string) {
   const [syncState, setSyncState] = useState<SyncState>({
     status: 'idle',
     lastSyncAt: null,
     pendingChanges: 0,
+    conflicts: 0,
+    deadLetters: 0,
     isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
   });
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
+  const [fieldConflicts, setFieldConflicts] = useState<DBSyncConflict[]>([]);
+  const [deadLetterEntries, setDeadLetterEntries] = useState<DBSyncQueue[]>([]);
 
   // Initialize sync service and subscribe to state changes
   useEffect(() => {
@@ -75,14 +82,126 @@ export function useSync(schoolId?: string) {
     setSyncState(newState);
   }, []);
 
+  // Load field conflicts waiting for review
+  const loadFieldConflicts = useCallback(async () => {
+    const conflicts = await syncService.getOpenConflicts();
+    setFieldConflicts(conflicts);
+    return conflicts;
+  }, []);
+
+  // Resolve a single field conflict
+  const resolveFieldConflict = useCallback(async (
+    conflictId: string,
+    resolution: 'local' | 'remote'
+  ) => {
+    await syncService.resolveFieldConflict(conflictId, resolution);
+    await loadFieldConflicts();
+    const newState = await syncService.getState();
+    setSyncState(newState);
+  }, [loadFieldConflicts]);
+
+  // Load operations that exhausted their retries
+  const loadDeadLetters = useCallback(async () => {
+    const entries = await syncService.getDeadLetters();
+    setDeadLetterEntries(entries);
+    return entries;
+  }, []);
+
+  // Retry dead-lettered operations (all of them when no IDs are given)
+  const retryDeadLetters = useCallback(async (ids?: string[]) => {
+    setIsSyncing(true);
+    try {
+      const result = await syncService.retryDeadLetters(ids);
+      if (result) setLastSyncResult(result);
+      await loadDeadLetters();
+      const newState = await syncService.getState();
+      setSyncState(newState);
+      return result;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [loadDeadLetters]);
+
   return {
     ...syncState,
-    isSyncing,
+    // Also true while a sync started elsewhere (auto sync, coming online) runs
+    isSyncing: isSyncing || syncState.status === 'syncing',
     lastSyncResult,
     sync,
     fullSync,
     resolveConflict,
+    fieldConflicts,
+    loadFieldConflicts,
+    resolveFieldConflict,
+    deadLetterEntries,
+    loadDeadLetters,
+    retryDeadLetters,
   };
 }
 
+export function useSyncDevices() {
+  const [devices, setDevices] = useState<DBDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDevices(await syncService.getDevices());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { devices, isLoading, error, refresh };
+}
+
+export function useReceiptAudit() {
+  const [academicYear, setAcademicYear] = useState<string | null>(null);
+  const [blocks, setBlocks] = useState<DBReceiptBlock[]>([]);
+  const [audit, setAudit] = useState<ReceiptSeriesAudit | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const year = await syncService.getAcademicYear();
+      const yearBlocks = await syncService.getReceiptBlocks(year);
+      setAcademicYear(year);
+      setBlocks(yearBlocks);
+      setAudit(await receiptSeries.audit(year));
+    } catch (err: any) {
+      setError(err.message || 'Failed to audit receipt numbers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reserveBlock = useCallback(async () => {
+    setError(null);
+    try {
+      const block = await syncService.reserveReceiptBlock(true);
+      if (!block) setError('Connect to the internet to reserve receipt numbers');
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to reserve receipt numbers');
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { academicYear, blocks, audit, isLoading, error, refresh, reserveBlock };
+}
+
 export default useSync;
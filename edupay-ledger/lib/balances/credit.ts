@@ -0,0 +1,140 @@
+/**
+ * Student Credit
+ * How an overpayment becomes credit, how credit carried in from earlier terms
+ * is set against a new term's fees, and how a statement shows what was
+ * brought forward
+ */
+
+import type { InstallmentProgress } from '../../types/student';
+import { AcademicPeriod, academicPeriodKey, compareAcademicPeriods, TermBalanceCarryover } from '../../types/term-balance';
+
+export interface PaymentValidation {
+  isValid: boolean;
+  message: string;
+  creditAmount: number; // Part of the payment beyond the outstanding balance
+}
+
+/**
+ * Validates payment amount against student's balance and installment rules
+ * Amounts above the outstanding balance are accepted and held as credit
+ */
+export function validatePaymentAmount(
+  student: { balance: number; installmentProgress: InstallmentProgress[] },
+  amount: number
+): PaymentValidation {
+  // Check minimum payment (must not be zero or negative)
+  if (amount <= 0) {
+    return {
+      isValid: false,
+      message: 'Payment amount must be greater than zero',
+      creditAmount: 0,
+    };
+  }
+
+  // Anything beyond the outstanding balance (all of it, if nothing is owed) becomes credit
+  const outstanding = Math.max(0, student.balance);
+  const creditAmount = Math.max(0, amount - outstanding);
+
+  // Check if current installment is unlocked
+  const currentInstallment = student.installmentProgress.find(
+    i => i.status !== 'completed' && i.isUnlocked
+  );
+
+  if (outstanding > 0 && !currentInstallment) {
+    // Check if there's an installment that should be unlocked
+    const nextInstallment = student.installmentProgress.find(
+      i => i.status !== 'completed'
+    );
+
+    if (nextInstallment && !nextInstallment.isUnlocked) {
+      return {
+        isValid: false,
+        message: `${nextInstallment.installmentName} is not yet unlocked. Previous installments must be completed first.`,
+        creditAmount: 0,
+      };
+    }
+  }
+
+  return {
+    isValid: true,
+    message: creditAmount > 0
+      ? `Payment is valid; ${creditAmount.toLocaleString()} will be held as credit`
+      : 'Payment is valid',
+    creditAmount,
+  };
+}
+
+export interface CreditAllocation {
+  applied: number;
+  uses: { carryoverId: string; amount: number; creditApplied: number }[];
+}
+
+/**
+ * How much of a student's carried credit goes against a term's fees, oldest
+ * credit first. Credit carried to a later term, and credit used up by other
+ * terms, is left alone; no more than the fees is ever applied. Credit this
+ * term already took is allocated again, so assigning its fees twice neither
+ * loses nor doubles it.
+ */
+export function allocateCarryoverCredit(
+  carryovers: TermBalanceCarryover[],
+  toPeriod: AcademicPeriod,
+  termFees: number
+): CreditAllocation {
+  const credits = carryovers
+    .filter(carryover =>
+      carryover.carryoverType === 'credit' &&
+      (carryover.status === 'pending' || carryover.status === 'applied') &&
+      compareAcademicPeriods(carryover.toPeriod, toPeriod) <= 0
+    )
+    .sort((a, b) => compareAcademicPeriods(a.fromPeriod, b.fromPeriod));
+
+  const allocation: CreditAllocation = { applied: 0, uses: [] };
+  const periodKey = academicPeriodKey(toPeriod);
+  let remainingFees = termFees;
+
+  for (const carryover of credits) {
+    const appliedHere = carryover.creditAppliedByPeriod?.[periodKey] || 0;
+    const appliedElsewhere = (carryover.creditApplied || 0) - appliedHere;
+    const amount = Math.max(0, Math.min(carryover.adjustedAmount - appliedElsewhere, remainingFees));
+    // A use is still recorded when credit this term took is given back
+    if (amount === 0 && appliedHere === 0) continue;
+
+    allocation.uses.push({ carryoverId: carryover.id, amount, creditApplied: appliedElsewhere + amount });
+    allocation.applied += amount;
+    remainingFees -= amount;
+  }
+
+  return allocation;
+}
+
+/**
+ * Spreads applied credit over a term's fee categories in order, as though it
+ * were paid towards each in turn. Returns the amount paid per category.
+ */
+export function spreadCreditOverCategories(categoryAmounts: number[], credit: number): number[] {
+  let remaining = credit;
+  return categoryAmounts.map(amount => {
+    const paid = Math.max(0, Math.min(remaining, amount));
+    remaining -= paid;
+    return paid;
+  });
+}
+
+/**
+ * The arrears and the credit a statement shows as brought forward.
+ * carryoverBalance is the student's net balance carried in, credit already
+ * netted off, so the arrears are that balance with the credit added back;
+ * taking both from it counts the credit once. carriedCredit is the credit on
+ * the term's carryover records, when they could be read.
+ */
+export function splitBroughtForward(
+  carryoverBalance: number,
+  carriedCredit?: number
+): { previousBalance: number; creditBroughtForward: number } {
+  const creditBroughtForward = carriedCredit ?? Math.max(0, -carryoverBalance);
+  return {
+    previousBalance: Math.max(0, carryoverBalance + creditBroughtForward),
+    creditBroughtForward,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Cheque Clearance State
+ * How a cheque moves from received to cleared or bounced, when it should
+ * have cleared, and what a bounce takes back from the student's account
+ */
+
+import type { InstallmentProgress } from '../../types/student';
+import {
+  CHEQUE_CLEARANCE_WORKING_DAYS,
+  CHEQUE_OVERDUE_DAYS,
+  ChequeBounceInput,
+  ChequeDetails,
+  ChequeInput,
+  ChequeStatus,
+} from '../../types/cheque';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHEQUE_TRANSITIONS: Record<ChequeStatus, ChequeStatus[]> = {
+  received: ['deposited'],
+  deposited: ['cleared', 'bounced'],
+  cleared: [],
+  bounced: [],
+};
+
+export function canMoveCheque(from: ChequeStatus, to: ChequeStatus): boolean {
+  return CHEQUE_TRANSITIONS[from].includes(to);
+}
+
+function assertCanMove(cheque: ChequeDetails, to: ChequeStatus) {
+  if (!canMoveCheque(cheque.status, to)) {
+    throw new Error(`Cheque ${cheque.chequeNumber} is ${cheque.status} and cannot be marked ${to}`);
+  }
+}
+
+// Skips Saturdays and Sundays; public holidays are not known here
+export function addWorkingDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  let added = 0;
+  while (added < days) {
+    result.setDate(result.getDate() + 1);
+    const day = result.getDay();
+    if (day !== 0 && day !== 6) added++;
+  }
+  return result;
+}
+
+/**
+ * Starts tracking a cheque taken as payment. One already seen on a bank
+ * statement is recorded as cleared.
+ */
+export function createCheque(input: ChequeInput, now: Date = new Date()): ChequeDetails {
+  if (!input.chequeNumber.trim()) throw new Error('Cheque number is required');
+  if (!input.bankName.trim()) throw new Error('Drawer\'s bank is required');
+
+  return {
+    ...input,
+    chequeNumber: input.chequeNumber.trim(),
+    bankName: input.bankName.trim(),
+    status: input.clearedAt ? 'cleared' : 'received',
+    receivedAt: now.toISOString(),
+  };
+}
+
+export function markChequeDeposited(
+  cheque: ChequeDetails,
+  depositedAt: Date = new Date(),
+  clearanceDays: number = CHEQUE_CLEARANCE_WORKING_DAYS
+): ChequeDetails {
+  assertCanMove(cheque, 'deposited');
+  if (cheque.chequeDate && depositedAt.getTime() < new Date(cheque.chequeDate).setHours(0, 0, 0, 0)) {
+    throw new Error(`Cheque ${cheque.chequeNumber} is post-dated to ${new Date(cheque.chequeDate).toLocaleDateString('en-UG')}`);
+  }
+
+  return {
+    ...cheque,
+    status: 'deposited',
+    depositedAt: depositedAt.toISOString(),
+    expectedClearanceDate: addWorkingDays(depositedAt, clearanceDays).toISOString(),
+  };
+}
+
+export function markChequeCleared(cheque: ChequeDetails, clearedAt: Date = new Date()): ChequeDetails {
+  assertCanMove(cheque, 'cleared');
+  return { ...cheque, status: 'cleared', clearedAt: clearedAt.toISOString() };
+}
+
+export function markChequeBounced(cheque: ChequeDetails, bounce: ChequeBounceInput): ChequeDetails {
+  assertCanMove(cheque, 'bounced');
+  if (!bounce.reason.trim()) throw new Error('A reason is required for a bounced cheque');
+  if (bounce.bankCharge < 0) throw new Error('Bank charge cannot be negative');
+
+  return {
+    ...cheque,
+    status: 'bounced',
+    bouncedAt: (bounce.bouncedAt || new Date()).toISOString(),
+    bounceReason: bounce.reason.trim(),
+    bounceCharge: bounce.bankCharge,
+  };
+}
+
+export function isChequeOutstanding(cheque: Pick<ChequeDetails, 'status'>): boolean {
+  return cheque.status === 'received' || cheque.status === 'deposited';
+}
+
+export function getChequeAgeDays(cheque: Pick<ChequeDetails, 'receivedAt'>, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(cheque.receivedAt).getTime()) / DAY_MS);
+}
+
+/**
+ * A cheque is overdue once it has gone uncleared for the given number of
+ * days, or has passed its expected clearance date without news from the bank
+ */
+export function isChequeOverdue(
+  cheque: Pick<ChequeDetails, 'status' | 'receivedAt' | 'expectedClearanceDate'>,
+  now: Date = new Date(),
+  overdueDays: number = CHEQUE_OVERDUE_DAYS
+): boolean {
+  if (!isChequeOutstanding(cheque)) return false;
+  if (getChequeAgeDays(cheque, now) >= overdueDays) return true;
+  return !!cheque.expectedClearanceDate && now.getTime() > new Date(cheque.expectedClearanceDate).getTime();
+}
+
+// ============================================
+// BOUNCE REVERSAL
+// ============================================
+
+export interface ChequeAccount {
+  totalFees: number;
+  amountPaid: number;
+}
+
+export interface ChequeCharge {
+  totalFees: number;
+  balance: number;
+  paymentStatus: 'fully_paid' | 'partial' | 'no_payment';
+}
+
+/**
+ * Takes an amount back off the installments, latest first, undoing what
+ * recording the payment applied. Installments stay unlocked.
+ */
+export function removeFromInstallments(installments: InstallmentProgress[], amount: number): InstallmentProgress[] {
+  let remaining = amount;
+  const byLatest = [...installments].sort((a, b) => b.installmentOrder - a.installmentOrder);
+  const reduced = new Map<string, InstallmentProgress>();
+
+  for (const installment of byLatest) {
+    if (remaining <= 0) break;
+    const taken = Math.min(remaining, installment.amountPaid);
+    if (taken <= 0) continue;
+
+    const { completedAt, ...rest } = installment;
+    const amountPaid = installment.amountPaid - taken;
+    reduced.set(installment.installmentId, {
+      ...(amountPaid >= installment.amountDue ? installment : rest),
+      amountPaid,
+      status: amountPaid >= installment.amountDue ? 'completed' : amountPaid > 0 ? 'in_progress' : 'not_started',
+    });
+    remaining -= taken;
+  }
+
+  return installments.map(installment => reduced.get(installment.installmentId) || installment);
+}
+
+/**
+ * The student's account once the bank's charge for a returned cheque is added
+ * to the fees owed. The payment itself comes off when the journal reverses it.
+ */
+export function addBankCharge(account: ChequeAccount, bankCharge: number): ChequeCharge {
+  const totalFees = account.totalFees + bankCharge;
+  const balance = totalFees - account.amountPaid;
+
+  return {
+    totalFees,
+    balance,
+    paymentStatus: balance <= 0 ? 'fully_paid' : account.amountPaid > 0 ? 'partial' : 'no_payment',
+  };
+}
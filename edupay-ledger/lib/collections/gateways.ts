@@ -0,0 +1,283 @@
+/**
+ * Mobile Money Collection Gateways
+ * Request-to-pay clients for the MTN MoMo and Airtel Money collection APIs,
+ * and a sandbox stand-in that behaves like them without network access
+ */
+
+import type { CollectionProvider, CollectionStatusUpdate } from '../../types/collection';
+import { COLLECTION_TIMEOUT_MS, parseAirtelCollectionStatus, parseMtnCollectionStatus } from './state';
+
+export interface RequestToPayInput {
+  referenceId: string; // UUID, also our CollectionRequest ID
+  amount: number;
+  currency: 'UGX';
+  phoneNumber: string; // +256...
+  payerMessage: string;
+}
+
+export interface CollectionGateway {
+  provider: CollectionProvider;
+  isSandbox: boolean;
+  requestToPay(input: RequestToPayInput): Promise<void>;
+  getStatus(referenceId: string): Promise<CollectionStatusUpdate>;
+}
+
+// 256772123456, the MSISDN format both APIs expect
+function toMsisdn(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '').replace(/^0/, '256');
+}
+
+async function readJson(response: Response, action: string): Promise<any> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${action} failed (${response.status})${detail ? `: ${detail}` : ''}`);
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : {};
+}
+
+// ============================================
+// MTN MOMO
+// ============================================
+
+export interface MtnMomoConfig {
+  baseUrl: string; // https://sandbox.momodeveloper.mtn.com or the production URL
+  subscriptionKey: string;
+  apiUser: string;
+  apiKey: string;
+  targetEnvironment: string; // 'sandbox' or 'mtnuganda'
+  callbackUrl?: string;
+}
+
+export function createMtnMomoGateway(config: MtnMomoConfig): CollectionGateway {
+  const getToken = async (): Promise<string> => {
+    const response = await fetch(`${config.baseUrl}/collection/token/`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${config.apiUser}:${config.apiKey}`)}`,
+        'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+      },
+    });
+    return (await readJson(response, 'MTN token request')).access_token;
+  };
+
+  const headers = (token: string): Record<string, string> => ({
+    Authorization: `Bearer ${token}`,
+    'X-Target-Environment': config.targetEnvironment,
+    'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+  });
+
+  return {
+    provider: 'mtn',
+    isSandbox: false,
+
+    async requestToPay(input) {
+      const token = await getToken();
+      const response = await fetch(`${config.baseUrl}/collection/v1_0/requesttopay`, {
+        method: 'POST',
+        headers: {
+          ...headers(token),
+          'X-Reference-Id': input.referenceId,
+          'Content-Type': 'application/json',
+          ...(config.callbackUrl && { 'X-Callback-Url': config.callbackUrl }),
+        },
+        body: JSON.stringify({
+          amount: String(input.amount),
+          currency: input.currency,
+          externalId: input.referenceId,
+          payer: { partyIdType: 'MSISDN', partyId: toMsisdn(input.phoneNumber) },
+          payerMessage: input.payerMessage,
+          payeeNote: input.payerMessage,
+        }),
+      });
+      await readJson(response, 'MTN request-to-pay');
+    },
+
+    async getStatus(referenceId) {
+      const token = await getToken();
+      const response = await fetch(`${config.baseUrl}/collection/v1_0/requesttopay/${referenceId}`, {
+        headers: headers(token),
+      });
+      return parseMtnCollectionStatus(await readJson(response, 'MTN status check'));
+    },
+  };
+}
+
+// ============================================
+// AIRTEL MONEY
+// ============================================
+
+export interface AirtelMoneyConfig {
+  baseUrl: string; // https://openapiuat.airtel.africa or https://openapi.airtel.africa
+  clientId: string;
+  clientSecret: string;
+}
+
+export function createAirtelMoneyGateway(config: AirtelMoneyConfig): CollectionGateway {
+  const getToken = async (): Promise<string> => {
+    const response = await fetch(`${config.baseUrl}/auth/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        grant_type: 'client_credentials',
+      }),
+    });
+    return (await readJson(response, 'Airtel token request')).access_token;
+  };
+
+  const headers = (token: string): Record<string, string> => ({
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+    'X-Country': 'UG',
+    'X-Currency': 'UGX',
+  });
+
+  return {
+    provider: 'airtel',
+    isSandbox: false,
+
+    async requestToPay(input) {
+      const token = await getToken();
+      const response = await fetch(`${config.baseUrl}/merchant/v1/payments/`, {
+        method: 'POST',
+        headers: headers(token),
+        body: JSON.stringify({
+          reference: input.payerMessage,
+          // Airtel wants the number without the country code
+          subscriber: { country: 'UG', currency: input.currency, msisdn: toMsisdn(input.phoneNumber).replace(/^256/, '') },
+          transaction: { amount: input.amount, country: 'UG', currency: input.currency, id: input.referenceId },
+        }),
+      });
+      const body = await readJson(response, 'Airtel payment request');
+      if (body?.status?.success === false) {
+        throw new Error(body.status.message || 'Airtel rejected the payment request');
+      }
+    },
+
+    async getStatus(referenceId) {
+      const token = await getToken();
+      const response = await fetch(`${config.baseUrl}/standard/v1/payments/${referenceId}`, {
+        headers: headers(token),
+      });
+      return parseAirtelCollectionStatus(await readJson(response, 'Airtel status check'));
+    },
+  };
+}
+
+// ============================================
+// SANDBOX STAND-IN
+// ============================================
+
+/**
+ * How the sandbox answers, picked by the last digit of the payer's number in
+ * the way the MTN sandbox uses fixed test numbers. Any other number approves.
+ */
+export const SANDBOX_TEST_NUMBERS: Record<string, 'rejected' | 'insufficient_funds' | 'no_answer'> = {
+  '0': 'rejected',
+  '1': 'insufficient_funds',
+  '2': 'no_answer',
+};
+
+export interface SandboxGatewayOptions {
+  approveAfterMs?: number; // How long the "parent" takes to approve
+  expireAfterMs?: number; // When an unanswered prompt expires
+  now?: () => Date;
+  onCallback?: (provider: CollectionProvider, body: unknown) => void; // Delivers the provider's callback
+}
+
+interface SandboxRequest {
+  input: RequestToPayInput;
+  requestedAt: number;
+  callbackSent: boolean;
+}
+
+/**
+ * Follows the real APIs' state machine: a request stays pending until the
+ * parent answers, then succeeds or fails, or expires if they never do. Status
+ * bodies are shaped like each provider's, so they go through the same parsers.
+ */
+export function createSandboxGateway(provider: CollectionProvider, options: SandboxGatewayOptions = {}): CollectionGateway {
+  const approveAfterMs = options.approveAfterMs ?? 8000;
+  const expireAfterMs = options.expireAfterMs ?? COLLECTION_TIMEOUT_MS;
+  const now = options.now || (() => new Date());
+  const requests = new Map<string, SandboxRequest>();
+
+  // Where the request stands in MTN's terms
+  const settle = (request: SandboxRequest): { status: 'PENDING' | 'SUCCESSFUL' | 'FAILED'; reason?: string } => {
+    const elapsed = now().getTime() - request.requestedAt;
+    const scenario = SANDBOX_TEST_NUMBERS[request.input.phoneNumber.slice(-1)];
+
+    if (scenario === 'no_answer') {
+      return elapsed >= expireAfterMs ? { status: 'FAILED', reason: 'EXPIRED' } : { status: 'PENDING' };
+    }
+    if (elapsed < approveAfterMs) return { status: 'PENDING' };
+    if (scenario === 'rejected') return { status: 'FAILED', reason: 'APPROVAL_REJECTED' };
+    if (scenario === 'insufficient_funds') return { status: 'FAILED', reason: 'NOT_ENOUGH_FUNDS' };
+    return { status: 'SUCCESSFUL' };
+  };
+
+  const statusBody = (referenceId: string, request: SandboxRequest) => {
+    const { status, reason } = settle(request);
+    const transactionId = `SBX${referenceId.replace(/-/g, '').slice(0, 10).toUpperCase()}`;
+
+    if (provider === 'mtn') {
+      return {
+        externalId: referenceId,
+        amount: String(request.input.amount),
+        currency: request.input.currency,
+        status,
+        ...(status === 'SUCCESSFUL' && { financialTransactionId: transactionId }),
+        ...(reason && { reason }),
+      };
+    }
+
+    const code = status === 'SUCCESSFUL' ? 'TS' : status === 'PENDING' ? 'TIP' : reason === 'EXPIRED' ? 'TE' : 'TF';
+    return {
+      transaction: {
+        id: referenceId,
+        status_code: code,
+        ...(code === 'TS' && { airtel_money_id: transactionId }),
+        message: reason === 'NOT_ENOUGH_FUNDS'
+          ? 'Insufficient funds'
+          : reason === 'APPROVAL_REJECTED' ? 'Transaction declined by subscriber' : 'Transaction in progress',
+      },
+    };
+  };
+
+  const parse = provider === 'mtn' ? parseMtnCollectionStatus : parseAirtelCollectionStatus;
+
+  return {
+    provider,
+    isSandbox: true,
+
+    async requestToPay(input) {
+      if (requests.has(input.referenceId)) {
+        throw new Error('Duplicate reference ID');
+      }
+      const request: SandboxRequest = { input, requestedAt: now().getTime(), callbackSent: false };
+      requests.set(input.referenceId, request);
+
+      // The real networks call back once the parent answers or the prompt expires
+      if (options.onCallback) {
+        const deliver = () => {
+          const body = statusBody(input.referenceId, request);
+          if (parse(body).status === 'pending' || request.callbackSent) return;
+          request.callbackSent = true;
+          options.onCallback!(provider, body);
+        };
+        setTimeout(deliver, approveAfterMs);
+        setTimeout(deliver, expireAfterMs);
+      }
+    },
+
+    async getStatus(referenceId) {
+      const request = requests.get(referenceId);
+      if (!request) {
+        throw new Error(`Unknown reference ID ${referenceId}`);
+      }
+      return parse(statusBody(referenceId, request));
+    },
+  };
+}
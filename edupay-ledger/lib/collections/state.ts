@@ -0,0 +1,192 @@
+/**
+ * Mobile Money Collection State
+ * How a request-to-pay moves from pending to its outcome, and how MTN and
+ * Airtel status responses and callbacks map onto it
+ */
+
+import type { CollectionRequest, CollectionStatus, CollectionStatusUpdate } from '../../types/collection';
+
+// Both networks drop an unanswered prompt after about five minutes
+export const COLLECTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Poll every few seconds while the parent is likely to be looking at the prompt, then slow down
+export const COLLECTION_POLL_INTERVAL_MS = 5 * 1000;
+export const COLLECTION_SLOW_POLL_INTERVAL_MS = 30 * 1000;
+const FAST_POLLS = 12;
+
+const MTN_FAILURE_REASONS: Record<string, string> = {
+  APPROVAL_REJECTED: 'The parent rejected the payment prompt',
+  NOT_ENOUGH_FUNDS: 'Not enough money on the mobile money account',
+  PAYER_NOT_FOUND: 'The phone number is not registered for MTN Mobile Money',
+  PAYEE_NOT_ALLOWED_TO_RECEIVE: 'The school\'s MTN account cannot receive payments',
+  PAYER_LIMIT_REACHED: 'The parent has reached their mobile money limit',
+  INTERNAL_PROCESSING_ERROR: 'MTN could not process the payment',
+  EXPIRED: 'The parent did not answer the prompt in time',
+};
+
+const AIRTEL_STATUSES: Record<string, CollectionStatus> = {
+  TS: 'successful',
+  TF: 'failed',
+  TE: 'timeout',
+  TIP: 'pending', // In progress
+  TA: 'pending', // Ambiguous, Airtel settles it later
+};
+
+export function isTerminalCollection(status: CollectionStatus): boolean {
+  return status !== 'pending';
+}
+
+/**
+ * Applies a poll result or callback. A request that has reached its outcome
+ * never changes again, so a late or repeated callback is ignored.
+ */
+export function applyCollectionUpdate(
+  request: CollectionRequest,
+  update: CollectionStatusUpdate,
+  now: Date = new Date()
+): CollectionRequest {
+  if (isTerminalCollection(request.status) || update.status === 'pending') return request;
+
+  return {
+    ...request,
+    status: update.status,
+    reason: update.reason,
+    financialTransactionId: update.financialTransactionId || request.financialTransactionId,
+    completedAt: now.toISOString(),
+  };
+}
+
+// Times out a request the provider has gone quiet on
+export function expireCollection(request: CollectionRequest, now: Date = new Date()): CollectionRequest {
+  if (request.status !== 'pending' || now.getTime() < new Date(request.expiresAt).getTime()) return request;
+  return applyCollectionUpdate(request, {
+    status: 'timeout',
+    reason: 'No answer from the mobile money network before the prompt expired',
+  }, now);
+}
+
+export function getCollectionPollDelayMs(pollCount: number): number {
+  return pollCount < FAST_POLLS ? COLLECTION_POLL_INTERVAL_MS : COLLECTION_SLOW_POLL_INTERVAL_MS;
+}
+
+export function isCollectionPollDue(
+  request: Pick<CollectionRequest, 'status' | 'pollCount' | 'lastPolledAt'>,
+  now: Date = new Date()
+): boolean {
+  if (request.status !== 'pending') return false;
+  if (!request.lastPolledAt) return true;
+  return now.getTime() - new Date(request.lastPolledAt).getTime() >= getCollectionPollDelayMs(request.pollCount);
+}
+
+/**
+ * Reads MTN's request-to-pay status, from a poll or the callback body:
+ * { status: 'PENDING' | 'SUCCESSFUL' | 'FAILED', reason?, financialTransactionId? }
+ */
+export function parseMtnCollectionStatus(body: any): CollectionStatusUpdate {
+  const status = String(body?.status || '').toUpperCase();
+  const reasonCode = typeof body?.reason === 'string' ? body.reason : body?.reason?.code;
+
+  if (status === 'SUCCESSFUL') {
+    return { status: 'successful', financialTransactionId: body.financialTransactionId };
+  }
+  if (status === 'FAILED') {
+    return {
+      status: reasonCode === 'EXPIRED' ? 'timeout' : 'failed',
+      reason: MTN_FAILURE_REASONS[reasonCode] || reasonCode || 'MTN reported the payment as failed',
+    };
+  }
+  return { status: 'pending' };
+}
+
+/**
+ * Reads Airtel's payment status. Polls answer with
+ * { data: { transaction: { status, airtel_money_id, message } } } and callbacks
+ * send { transaction: { status_code, airtel_money_id, message } }.
+ */
+export function parseAirtelCollectionStatus(body: any): CollectionStatusUpdate {
+  const transaction = body?.data?.transaction || body?.transaction || {};
+  const code = String(transaction.status || transaction.status_code || '').toUpperCase();
+  const status = AIRTEL_STATUSES[code] || 'pending';
+
+  if (status === 'successful') {
+    return { status, financialTransactionId: transaction.airtel_money_id };
+  }
+  if (status === 'failed' || status === 'timeout') {
+    return { status, reason: transaction.message || 'Airtel reported the payment as failed' };
+  }
+  return { status: 'pending' };
+}
+
+// Our request ID in a callback body: MTN echoes it as externalId, Airtel as the transaction ID
+export function getCollectionCallbackReference(provider: CollectionRequest['provider'], body: any): string | undefined {
+  return provider === 'mtn'
+    ? body?.externalId || body?.referenceId
+    : body?.transaction?.id;
+}
+
+/**
+ * Whether a request still needs a school device: pending at the network, or
+ * collected without a payment recorded for it yet
+ */
+export function isAwaitingSettlement(request: Pick<CollectionRequest, 'status' | 'paymentId'>): boolean {
+  return request.status === 'pending' || (request.status === 'successful' && !request.paymentId);
+}
+
+/**
+ * What a school device's poller does with the requests it holds: poll the
+ * pending ones that are due, and record a payment for each collected one
+ * that has none yet
+ */
+export function planCollectionSettlement(
+  requests: CollectionRequest[],
+  now: Date = new Date()
+): { poll: CollectionRequest[]; record: CollectionRequest[] } {
+  return {
+    poll: requests.filter(request => isCollectionPollDue(request, now)),
+    record: requests.filter(request => request.status === 'successful' && !request.paymentId),
+  };
+}
+
+/**
+ * Merges a request as another device shared it into this device's copy. The
+ * first outcome either copy reached stands, and a recorded payment is kept.
+ */
+export function mergeCollectionRequest(local: CollectionRequest | undefined, remote: CollectionRequest): CollectionRequest {
+  if (!local) return remote;
+
+  const merged = isTerminalCollection(local.status) || !isTerminalCollection(remote.status)
+    ? local
+    : applyCollectionUpdate(local, remote, new Date(remote.completedAt || Date.now()));
+  const paymentId = merged.paymentId || remote.paymentId;
+
+  return {
+    ...merged,
+    pollCount: Math.max(local.pollCount, remote.pollCount),
+    settledBy: merged.settledBy || remote.settledBy,
+    ...(paymentId && {
+      paymentId,
+      receiptNumber: merged.receiptNumber || remote.receiptNumber,
+      paymentError: undefined,
+    }),
+  };
+}
+
+/**
+ * Whether this school device may record the payment for a collected request.
+ * The first device to claim it records it; the others leave it alone, so
+ * the money is never recorded twice.
+ */
+export function canSettleCollection(
+  request: Pick<CollectionRequest, 'paymentId' | 'settledBy'>,
+  deviceId: string
+): boolean {
+  return !request.paymentId && (!request.settledBy || request.settledBy === deviceId);
+}
+
+/**
+ * The ID of the payment recorded for a collection. Taken from the request,
+ * so recording retried after a failure finds the payment already recorded.
+ */
+export function collectionPaymentId(collectionId: string): string {
+  return `PAY-MOMO-${collectionId}`;
+}
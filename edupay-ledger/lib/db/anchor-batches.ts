@@ -0,0 +1,168 @@
+/**
+ * Stellar Anchor Batches
+ * Collects this device's payment proofs into batches and anchors each batch's
+ * Merkle root to Stellar in a single transaction. Every payment keeps the
+ * inclusion proof that ties its own hash to the anchored root.
+ */
+
+import { db, dbHelpers, DBAnchorBatch, DBPayment } from './index';
+import { AnchorQueueStatus, isAnchorDue, summarizeAnchorQueue } from './anchor-queue';
+import { buildMerkleProofs } from '../merkle';
+import { anchorMerkleRoot, createPaymentHash, PaymentProof, StellarAnchorResult } from '../stellar';
+
+// A batch is sealed once it holds this many receipts or has been open this long
+export const ANCHOR_BATCH_SIZE = 50;
+export const ANCHOR_BATCH_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// The queue drain in progress, so the sync loop and a new payment never submit the same batch twice
+let draining: Promise<number> | null = null;
+
+export const anchorBatches = {
+  // Adds a payment's proof hash to this device's open batch, opening one if needed
+  async addPayment(proof: PaymentProof): Promise<DBAnchorBatch> {
+    const hash = createPaymentHash(proof);
+
+    const batch = await db.transaction('rw', [db.anchorBatches, db.devices], async () => {
+      const device = await dbHelpers.getLocalDevice();
+      const open = await this.getOpenBatch(device.id) || {
+        id: dbHelpers.generateId('AB'),
+        deviceId: device.id,
+        status: 'open' as const,
+        leaves: [],
+        attempts: 0,
+        openedAt: new Date().toISOString(),
+      };
+
+      const updated: DBAnchorBatch = {
+        ...open,
+        leaves: [
+          ...open.leaves,
+          { paymentId: proof.paymentId, receiptNumber: proof.receiptNumber, hash, timestamp: proof.timestamp },
+        ],
+      };
+      await db.anchorBatches.put(updated);
+      return updated;
+    });
+
+    await this.updatePayment(proof.paymentId, {
+      proofHash: hash,
+      proofTimestamp: proof.timestamp,
+      anchorBatchId: batch.id,
+    });
+    return batch;
+  },
+
+  async getOpenBatch(deviceId: string): Promise<DBAnchorBatch | undefined> {
+    return db.anchorBatches
+      .where('status').equals('open')
+      .filter(batch => batch.deviceId === deviceId)
+      .first();
+  },
+
+  /**
+   * Seals open batches that are full or old enough: works out the Merkle root
+   * and gives each payment its inclusion proof. Needs no connection, so
+   * receipts recorded offline still get their proofs.
+   */
+  async sealDue(now: Date = new Date()): Promise<DBAnchorBatch[]> {
+    const open = await db.anchorBatches.where('status').equals('open').toArray();
+    const due = open.filter(batch =>
+      batch.leaves.length >= ANCHOR_BATCH_SIZE ||
+      now.getTime() - new Date(batch.openedAt).getTime() >= ANCHOR_BATCH_MAX_AGE_MS
+    );
+
+    const sealed: DBAnchorBatch[] = [];
+    for (const batch of due) {
+      const { root, proofs } = buildMerkleProofs(batch.leaves.map(leaf => leaf.hash));
+      const sealedBatch: DBAnchorBatch = {
+        ...batch,
+        status: 'sealed',
+        merkleRoot: root,
+        sealedAt: now.toISOString(),
+      };
+      await db.anchorBatches.put(sealedBatch);
+
+      for (let index = 0; index < batch.leaves.length; index++) {
+        const leaf = batch.leaves[index];
+        await this.updatePayment(leaf.paymentId, {
+          proofHash: leaf.hash,
+          proofTimestamp: leaf.timestamp,
+          anchorBatchId: batch.id,
+          merkleRoot: root,
+          merkleProof: proofs[index],
+        });
+      }
+      sealed.push(sealedBatch);
+    }
+    return sealed;
+  },
+
+  /**
+   * Seals the batches that are due, then anchors every sealed batch whose
+   * retry time has come. Run by the sync loop whenever the device is online.
+   */
+  async anchorDue(force: boolean = false): Promise<number> {
+    await this.sealDue();
+    return this.drainQueue(force);
+  },
+
+  /**
+   * Sends each sealed batch that is due to Stellar, recording failures on the
+   * batch. Forcing skips the retry backoff. Returns the number anchored.
+   */
+  async drainQueue(force: boolean = false): Promise<number> {
+    if (!draining) {
+      draining = (async () => {
+        const now = new Date();
+        const sealed = await db.anchorBatches.where('status').equals('sealed').sortBy('openedAt');
+        let anchored = 0;
+
+        for (const batch of sealed.filter(batch => force || isAnchorDue(batch, now))) {
+          const result = await anchorMerkleRoot(batch.merkleRoot!);
+          if (result.success) {
+            await this.markAnchored(batch.id, result);
+            anchored++;
+          } else {
+            await db.anchorBatches.update(batch.id, {
+              attempts: (batch.attempts || 0) + 1,
+              lastAttempt: now.toISOString(),
+              lastError: result.error || 'Unknown Stellar error',
+            });
+          }
+        }
+        return anchored;
+      })().finally(() => {
+        draining = null;
+      });
+    }
+    return draining;
+  },
+
+  async getStatus(): Promise<AnchorQueueStatus> {
+    return summarizeAnchorQueue(await db.anchorBatches.toArray());
+  },
+
+  // Records the anchoring transaction on the batch and every payment in it
+  async markAnchored(batchId: string, result: StellarAnchorResult): Promise<void> {
+    const batch = await db.anchorBatches.get(batchId);
+    if (!batch || !result.txHash) return;
+
+    await db.anchorBatches.put({
+      ...batch,
+      status: 'anchored',
+      stellarTxHash: result.txHash,
+      lastError: undefined,
+      anchoredAt: result.timestamp || new Date().toISOString(),
+    });
+    for (const leaf of batch.leaves) {
+      await this.updatePayment(leaf.paymentId, { stellarTxHash: result.txHash });
+    }
+  },
+
+  async updatePayment(paymentId: string, changes: Partial<DBPayment>): Promise<void> {
+    const payment = await db.payments.get(paymentId);
+    if (payment) {
+      await dbHelpers.saveLocalChange('payments', { ...payment, ...changes });
+    }
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Stellar Anchor Queue Policy
+ * Retry timing for sealed batches waiting to be anchored, and the anchoring
+ * state shown in settings
+ */
+
+import { getRetryDelayMs, isDueForRetry } from '../sync/queue';
+import type { DBAnchorBatch } from './index';
+
+export interface AnchorQueueStatus {
+  pendingPayments: number; // Payments whose batch is not anchored yet
+  waitingBatches: number; // Sealed batches in the queue
+  anchoredPayments: number;
+  anchoredBatches: number;
+  lastAnchoredAt?: string;
+  lastError?: string;
+  nextAttemptAt?: string; // Earliest retry of a batch that has failed
+}
+
+type QueuedBatch = Pick<DBAnchorBatch, 'status' | 'attempts' | 'lastAttempt'>;
+
+/**
+ * Whether a sealed batch may be sent to Stellar now. Backs off like the sync
+ * queue but never gives up, as every sealed batch has to be anchored eventually.
+ */
+export function isAnchorDue(batch: QueuedBatch, now: Date = new Date()): boolean {
+  return batch.status === 'sealed' && isDueForRetry({ attempts: batch.attempts || 0, lastAttempt: batch.lastAttempt }, now);
+}
+
+export function getNextAnchorAttempt(batch: QueuedBatch): string | undefined {
+  if (batch.status !== 'sealed' || !batch.lastAttempt || !batch.attempts) return undefined;
+  return new Date(new Date(batch.lastAttempt).getTime() + getRetryDelayMs(batch.attempts)).toISOString();
+}
+
+export function summarizeAnchorQueue(batches: DBAnchorBatch[]): AnchorQueueStatus {
+  const anchored = batches.filter(batch => batch.status === 'anchored');
+  const waiting = batches.filter(batch => batch.status === 'sealed');
+  const lastFailed = waiting
+    .filter(batch => batch.lastError)
+    .sort((a, b) => (b.lastAttempt || '').localeCompare(a.lastAttempt || ''))[0];
+  const nextAttempts = waiting
+    .map(getNextAnchorAttempt)
+    .filter((at): at is string => !!at)
+    .sort();
+
+  return {
+    pendingPayments: batches
+      .filter(batch => batch.status !== 'anchored')
+      .reduce((sum, batch) => sum + batch.leaves.length, 0),
+    waitingBatches: waiting.length,
+    anchoredPayments: anchored.reduce((sum, batch) => sum + batch.leaves.length, 0),
+    anchoredBatches: anchored.length,
+    lastAnchoredAt: anchored.map(batch => batch.anchoredAt || '').sort().pop() || undefined,
+    lastError: lastFailed?.lastError,
+    nextAttemptAt: nextAttempts[0],
+  };
+}
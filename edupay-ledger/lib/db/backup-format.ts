@@ -0,0 +1,205 @@
+/**
+ * Backup Format
+ * Snapshot layout for local backup files and the checks run before a restore
+ */
+
+export const BACKUP_FORMAT = 'edupay-ledger-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// How each table is brought back from a backup
+export type BackupRestoreMode =
+  | 'replace' // Cleared and refilled from the backup
+  | 'merge'   // Backup records added, records written since the backup kept
+  | 'reset';  // Cleared, so the next sync downloads everything again
+
+// Tables that must never lose records written after the backup was taken
+const MERGED_TABLES = ['paymentJournal', 'auditLogs', 'syncQueue', 'devices', 'receiptBlocks', 'receiptSeries', 'payments', 'anchorBatches', 'collectionRequests', 'outbox', 'reminderRuns'];
+const RESET_TABLES = ['syncCheckpoints'];
+
+export interface BackupSnapshot {
+  format: string;
+  formatVersion: number;
+  schemaVersion: number; // Dexie version of the database that wrote it
+  createdAt: string;
+  deviceId: string;
+  tables: Record<string, unknown[]>;
+}
+
+// Written unencrypted at the top of a backup file so it can be listed without the passphrase
+export interface BackupSummary {
+  schemaVersion: number;
+  createdAt: string;
+  deviceId: string;
+  counts: Record<string, number>;
+}
+
+export interface BackupTablePreview {
+  table: string;
+  backupCount: number;
+  currentCount: number;
+  mode: BackupRestoreMode;
+}
+
+export interface BackupPreview {
+  createdAt: string;
+  deviceId: string;
+  schemaVersion: number;
+  currentSchemaVersion: number;
+  canRestore: boolean;
+  problems: string[]; // Any problem blocks the restore
+  warnings: string[];
+  tables: BackupTablePreview[];
+}
+
+interface RestoredStudent {
+  id: string;
+  totalFees: number;
+  amountPaid: number;
+  balance: number;
+  paymentStatus?: string;
+}
+
+interface RestoredJournalEntry {
+  id: string;
+  studentId: string;
+  amount: number;
+}
+
+export function getRestoreMode(table: string): BackupRestoreMode {
+  if (RESET_TABLES.includes(table)) return 'reset';
+  return MERGED_TABLES.includes(table) ? 'merge' : 'replace';
+}
+
+export function countSnapshotRecords(snapshot: BackupSnapshot): Record<string, number> {
+  const counts: Record<string, number> = {};
+  Object.keys(snapshot.tables).forEach(table => {
+    counts[table] = snapshot.tables[table].length;
+  });
+  return counts;
+}
+
+export function summarizeSnapshot(snapshot: BackupSnapshot): BackupSummary {
+  return {
+    schemaVersion: snapshot.schemaVersion,
+    createdAt: snapshot.createdAt,
+    deviceId: snapshot.deviceId,
+    counts: countSnapshotRecords(snapshot),
+  };
+}
+
+/**
+ * Checks a decrypted snapshot against the file's summary and the current
+ * database. A backup from a newer schema cannot be restored; one from an
+ * older schema can, with its records upgraded on the way in.
+ */
+export function previewBackupSnapshot(
+  snapshot: BackupSnapshot,
+  summary: BackupSummary,
+  currentSchemaVersion: number,
+  currentCounts: Record<string, number>
+): BackupPreview {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  if (snapshot.format !== BACKUP_FORMAT) {
+    problems.push('This file is not an EduPay Ledger backup');
+  } else if (snapshot.formatVersion > BACKUP_FORMAT_VERSION) {
+    problems.push('This backup was written by a newer version of EduPay Ledger');
+  }
+
+  if (snapshot.schemaVersion > currentSchemaVersion) {
+    problems.push(
+      `Backup database version ${snapshot.schemaVersion} is newer than this app's version ${currentSchemaVersion}. Update the app before restoring.`
+    );
+  } else if (snapshot.schemaVersion < currentSchemaVersion) {
+    warnings.push(
+      `Backup database version ${snapshot.schemaVersion} is older than this app's version ${currentSchemaVersion}; its records will be upgraded as they are restored.`
+    );
+  }
+
+  if (snapshot.createdAt !== summary.createdAt || snapshot.schemaVersion !== summary.schemaVersion) {
+    problems.push('Backup contents do not match the file header');
+  }
+
+  const backupCounts = countSnapshotRecords(snapshot);
+  const mismatched = Object.keys(summary.counts).filter(table => backupCounts[table] !== summary.counts[table]);
+  if (mismatched.length > 0) {
+    problems.push(`Record counts do not match the file header for: ${mismatched.join(', ')}`);
+  }
+
+  const unknown = Object.keys(backupCounts).filter(table => !(table in currentCounts));
+  if (unknown.length > 0) {
+    warnings.push(`Tables not in this version of the app will be skipped: ${unknown.join(', ')}`);
+  }
+
+  const missing = Object.keys(currentCounts).filter(table => !(table in backupCounts));
+  if (missing.length > 0) {
+    warnings.push(`Tables not in the backup are left as they are: ${missing.join(', ')}`);
+  }
+
+  const tables = Object.keys(currentCounts)
+    .filter(table => table in backupCounts)
+    .map(table => ({
+      table,
+      backupCount: backupCounts[table],
+      currentCount: currentCounts[table],
+      mode: getRestoreMode(table),
+    }));
+
+  return {
+    createdAt: snapshot.createdAt,
+    deviceId: snapshot.deviceId,
+    schemaVersion: snapshot.schemaVersion,
+    currentSchemaVersion,
+    canRestore: problems.length === 0,
+    problems,
+    warnings,
+    tables,
+  };
+}
+
+/**
+ * The students a restore leaves behind. Payments and journal entries recorded
+ * after the backup are kept, so a student paid since then keeps their current
+ * record, installments and all, instead of the backup's. Every student's paid
+ * amount and balance are then recomputed from the journal, so nothing the
+ * journal holds is missing from a balance.
+ */
+export function restoreStudents<S extends RestoredStudent>(
+  backupStudents: S[],
+  currentStudents: S[],
+  journal: RestoredJournalEntry[],
+  backupJournalIds: Set<string>
+): { students: S[]; rebalanced: number } {
+  const paidSinceBackup = new Set(journal.filter(entry => !backupJournalIds.has(entry.id)).map(entry => entry.studentId));
+  const journalTotals = new Map<string, number>();
+  journal.forEach(entry => {
+    journalTotals.set(entry.studentId, (journalTotals.get(entry.studentId) || 0) + entry.amount);
+  });
+
+  const backupIds = new Set(backupStudents.map(student => student.id));
+  const current = new Map(currentStudents.map(student => [student.id, student]));
+  const students = [
+    ...backupStudents.map(student => (paidSinceBackup.has(student.id) && current.get(student.id)) || student),
+    // Admitted after the backup and paid since
+    ...currentStudents.filter(student => !backupIds.has(student.id) && paidSinceBackup.has(student.id)),
+  ];
+
+  let rebalanced = 0;
+  return {
+    students: students.map(student => {
+      const amountPaid = journalTotals.get(student.id) || 0;
+      const balance = student.totalFees - amountPaid;
+      if (amountPaid === student.amountPaid && balance === student.balance) return student;
+
+      rebalanced++;
+      return {
+        ...student,
+        amountPaid,
+        balance,
+        paymentStatus: balance <= 0 ? 'fully_paid' : amountPaid > 0 ? 'partial' : 'no_payment',
+      };
+    }),
+    rebalanced,
+  };
+}
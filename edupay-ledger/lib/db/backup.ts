@@ -0,0 +1,210 @@
+/**
+ * Local Backups
+ * Snapshots every Dexie table into backup files written by the desktop app,
+ * and restores them once the file is verified and its counts previewed
+ */
+
+import type { BackupFileInfo, BackupReadResult } from '@/types/electron';
+import { db, dbHelpers, DBDevice, DBJournalEntry, DBPayment, DBReceiptSeries, DBStudent } from './index';
+import { alignRecord } from './migrations';
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BackupPreview,
+  BackupSnapshot,
+  BackupSummary,
+  getRestoreMode,
+  previewBackupSnapshot,
+  restoreStudents,
+  summarizeSnapshot,
+} from './backup-format';
+
+export interface OpenedBackup {
+  snapshot: BackupSnapshot;
+  summary: BackupSummary;
+  preview: BackupPreview;
+}
+
+export interface BackupRestoreResult {
+  restored: Record<string, number>;
+  keptPayments: number; // Recorded after the backup and kept, like their journal entries
+  rebalancedStudents: number; // Students whose balance was recomputed from the journal
+}
+
+function getBackupApi() {
+  if (typeof window === 'undefined' || !window.electronAPI) {
+    throw new Error('Backups to disk are only available in the desktop app');
+  }
+  return window.electronAPI;
+}
+
+async function getTableCounts(): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  await Promise.all(db.tables.map(async table => {
+    counts[table.name] = await table.count();
+  }));
+  return counts;
+}
+
+export const localBackup = {
+  async createSnapshot(): Promise<BackupSnapshot> {
+    const device = await dbHelpers.getLocalDevice();
+
+    return db.transaction('r', db.tables, async () => {
+      const tables: Record<string, unknown[]> = {};
+      for (const table of db.tables) {
+        tables[table.name] = await table.toArray();
+      }
+      return {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: db.verno,
+        createdAt: new Date().toISOString(),
+        deviceId: device.id,
+        tables,
+      };
+    });
+  },
+
+  // Snapshot the database and hand it to the main process to encrypt, write and prune
+  async runBackup(): Promise<BackupFileInfo> {
+    const api = getBackupApi();
+    const snapshot = await this.createSnapshot();
+    return api.writeBackup(JSON.stringify(snapshot), summarizeSnapshot(snapshot));
+  },
+
+  // Decrypt and verify a backup file, then compare it with the current database
+  async readBackup(filePath: string, passphrase?: string): Promise<OpenedBackup> {
+    const result: BackupReadResult = await getBackupApi().readBackup(filePath, passphrase);
+    const snapshot = JSON.parse(result.snapshot) as BackupSnapshot;
+    return { snapshot, summary: result.summary, preview: await this.preview(snapshot, result.summary) };
+  },
+
+  async preview(snapshot: BackupSnapshot, summary: BackupSummary): Promise<BackupPreview> {
+    return previewBackupSnapshot(snapshot, summary, db.verno, await getTableCounts());
+  },
+
+  /**
+   * Swaps a verified snapshot into the database in one transaction. The journal,
+   * audit log and receipt series are never rolled back: records written after the
+   * backup are kept, and each year's series resumes from the higher number.
+   * Students are restored last, against the merged journal, so their balances
+   * count the payments kept.
+   */
+  async restore(snapshot: BackupSnapshot, summary: BackupSummary, userId: string, userName: string): Promise<BackupRestoreResult> {
+    const preview = await this.preview(snapshot, summary);
+    if (!preview.canRestore) {
+      throw new Error(preview.problems.join('. '));
+    }
+
+    const restored: Record<string, number> = {};
+    let keptPayments = 0;
+    let rebalancedStudents = 0;
+
+    await db.transaction('rw', db.tables, async () => {
+      for (const { table: name } of preview.tables) {
+        const table = db.table(name);
+        // Records from an older schema are brought up to date the way its migrations would
+        const records = (snapshot.tables[name] as any[]).map(record => alignRecord(name, record));
+
+        switch (name) {
+          case 'students':
+            break;
+          case 'paymentJournal': {
+            // Append-only: add the entries this database is missing
+            const existing = new Set((await table.toCollection().primaryKeys()) as string[]);
+            const missing = (records as DBJournalEntry[]).filter(entry => !existing.has(entry.id));
+            await table.bulkAdd(missing);
+            restored[name] = missing.length;
+            break;
+          }
+          case 'anchorBatches':
+          case 'collectionRequests':
+          case 'outbox':
+          case 'reminderRuns': {
+            // Records here are as far along as the backup's or further; never re-anchor a batch,
+            // record a collected payment twice or resend a message
+            const existing = new Set((await table.toCollection().primaryKeys()) as string[]);
+            const missing = records.filter(batch => !existing.has(batch.id));
+            await table.bulkAdd(missing);
+            restored[name] = missing.length;
+            break;
+          }
+          case 'payments': {
+            // Keep payments recorded since the backup, as their journal entries stay too
+            const backupIds = new Set((records as DBPayment[]).map(payment => payment.id));
+            const newer = (await table.toArray() as DBPayment[]).filter(payment => !backupIds.has(payment.id));
+            await table.clear();
+            await table.bulkAdd([...records, ...newer]);
+            keptPayments = newer.length;
+            restored[name] = records.length;
+            break;
+          }
+          case 'devices': {
+            // This install stays the local device whichever machine wrote the backup
+            const local = await dbHelpers.getLocalDevice();
+            const others = (records as DBDevice[])
+              .filter(device => device.id !== local.id)
+              .map(device => ({ ...device, isLocal: false }));
+            await table.bulkPut(others);
+            restored[name] = others.length;
+            break;
+          }
+          case 'receiptSeries': {
+            // Another device's series belongs to its own receipt code, so only restore ours,
+            // and never hand out a receipt number twice
+            const local = await dbHelpers.getLocalDevice();
+            if (snapshot.deviceId !== local.id) {
+              restored[name] = 0;
+              break;
+            }
+            for (const series of records as DBReceiptSeries[]) {
+              const current = await table.get(series.academicYear) as DBReceiptSeries | undefined;
+              if (!current || current.nextNumber < series.nextNumber) {
+                await table.put(series);
+              }
+            }
+            restored[name] = records.length;
+            break;
+          }
+          default:
+            if (getRestoreMode(name) === 'reset') {
+              await table.clear();
+              restored[name] = 0;
+            } else if (getRestoreMode(name) === 'merge') {
+              await table.bulkPut(records);
+              restored[name] = records.length;
+            } else {
+              await table.clear();
+              await table.bulkAdd(records);
+              restored[name] = records.length;
+            }
+        }
+      }
+
+      if (preview.tables.some(({ table }) => table === 'students')) {
+        const backupStudents = (snapshot.tables.students as any[]).map(record => alignRecord('students', record) as DBStudent);
+        const backupJournalIds = new Set(((snapshot.tables.paymentJournal || []) as DBJournalEntry[]).map(entry => entry.id));
+        const { students, rebalanced } = restoreStudents(
+          backupStudents,
+          await db.students.toArray(),
+          await db.paymentJournal.toArray(),
+          backupJournalIds
+        );
+        await db.students.clear();
+        await db.students.bulkAdd(students);
+        restored.students = backupStudents.length;
+        rebalancedStudents = rebalanced;
+      }
+
+      await dbHelpers.logAudit(
+        'update', 'backup', snapshot.createdAt, userId, userName,
+        `Restored backup from ${new Date(snapshot.createdAt).toLocaleString()} (device ${snapshot.deviceId})`
+      );
+    });
+
+    return { restored, keptPayments, rebalancedStudents };
+  },
+};
+
+export default localBackup;
@@ -0,0 +1,45 @@
+/**
+ * Channel Routing
+ * Which channels a guardian notice goes out on, following the channel the
+ * guardian prefers, and when a WhatsApp message is sent again as an SMS
+ */
+
+import type { ChannelPreference, OutboxChannel, OutboxMessage } from '../../types/outbox';
+
+/**
+ * The channels to send a notice on. WhatsApp is only used where it can
+ * reach the guardian and email only where the guardian has an address;
+ * without them the notice goes by SMS.
+ */
+export function planChannels(
+  preference: ChannelPreference | undefined,
+  available: { whatsapp: boolean; email: boolean }
+): OutboxChannel[] {
+  switch (preference) {
+    case 'whatsapp':
+      return available.whatsapp ? ['whatsapp'] : ['sms'];
+    case 'email':
+      return available.email ? ['email'] : ['sms'];
+    case 'all':
+      return [
+        'sms',
+        ...(available.whatsapp ? ['whatsapp' as const] : []),
+        ...(available.email ? ['email' as const] : []),
+      ];
+    default:
+      return ['sms'];
+  }
+}
+
+/**
+ * Whether a WhatsApp message has failed, to send or to deliver, and should
+ * go again as an SMS. Messages sent alongside an SMS carry no fallback.
+ */
+export function needsSmsFallback(
+  message: Pick<OutboxMessage, 'channel' | 'status' | 'deliveryStatus' | 'fallback' | 'fallbackMessageId'>
+): boolean {
+  return message.channel === 'whatsapp'
+    && !!message.fallback
+    && !message.fallbackMessageId
+    && (message.status === 'failed' || message.deliveryStatus === 'failed');
+}
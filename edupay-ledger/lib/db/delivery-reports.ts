@@ -0,0 +1,232 @@
+/**
+ * Delivery Reports and Reachability
+ * Reads Africa's Talking delivery reports and WhatsApp receipts onto outbox
+ * messages, scores how reliably each guardian contact receives messages, and
+ * picks where to send when a number keeps failing
+ */
+
+import type {
+  ContactReachability,
+  OutboxChannel,
+  OutboxDeliveryStatus,
+  OutboxMessage,
+} from '../../types/outbox';
+
+// Reports are asked for until this long after sending; Africa's Talking gives up on a handset after two days
+export const DELIVERY_REPORT_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// A contact is flagged once this many messages in a row fail to arrive
+export const REACHABILITY_FAILURE_LIMIT = 3;
+
+// Failures caused by the school's account, not the guardian's number
+const SCHOOL_SIDE_FAILURES = ['InsufficientCredit', 'InvalidSenderId', 'InvalidLinkId', 'UserNotSubscribedToProduct'];
+
+// WhatsApp error codes for the school's account, token, templates or sending rate
+const WHATSAPP_SCHOOL_SIDE_CODES = [
+  0, 190, 368, 130429, 131031, 131042, 131045, 131047, 131048, 131056,
+  132000, 132001, 132005, 132007, 132012, 132015, 132016, 132018,
+];
+
+export interface DeliveryReport {
+  messageId: string;
+  status: OutboxDeliveryStatus;
+  failureReason?: string;
+  phoneNumber?: string;
+  at?: string; // When the provider saw it, if it says
+}
+
+export interface DeliveryResult {
+  delivered: boolean;
+  reason?: string;
+  permanent?: boolean; // The contact can never work, e.g. a malformed number
+}
+
+/**
+ * Maps an Africa's Talking report status onto the outbox's delivery status
+ */
+export function toDeliveryStatus(status: string): OutboxDeliveryStatus {
+  switch (status) {
+    case 'Success':
+      return 'delivered';
+    case 'Failed':
+    case 'Rejected':
+    case 'AbsentSubscriber':
+    case 'Expired':
+      return 'failed';
+    default:
+      return 'pending'; // Sent, Submitted, Buffered
+  }
+}
+
+/**
+ * Maps a WhatsApp receipt status onto the outbox's delivery status
+ */
+export function toWhatsAppDeliveryStatus(status: string): OutboxDeliveryStatus {
+  switch (status) {
+    case 'delivered':
+    case 'read':
+    case 'failed':
+      return status;
+    default:
+      return 'pending'; // sent
+  }
+}
+
+/**
+ * Writes a WhatsApp error the way the outbox records failures, keeping the
+ * code so school-side failures can be told apart from the guardian's
+ */
+export function formatWhatsAppError(code: number | undefined, title: string): string {
+  return code === undefined ? title : `${title} (${code})`;
+}
+
+/**
+ * Reads the receipts in a WhatsApp webhook post. One post may carry several,
+ * for any of the school's messages; anything else in it is skipped.
+ */
+export function parseWhatsAppWebhook(body: unknown): DeliveryReport[] {
+  const entries = (body as { entry?: unknown } | null)?.entry;
+  if (!Array.isArray(entries)) return [];
+
+  const reports: DeliveryReport[] = [];
+  for (const entry of entries) {
+    for (const change of Array.isArray(entry?.changes) ? entry.changes : []) {
+      const statuses = change?.value?.statuses;
+      for (const status of Array.isArray(statuses) ? statuses : []) {
+        if (typeof status?.id !== 'string' || typeof status?.status !== 'string') continue;
+
+        const error = Array.isArray(status.errors) ? status.errors[0] : undefined;
+        const seconds = Number(status.timestamp);
+        reports.push({
+          messageId: status.id,
+          status: toWhatsAppDeliveryStatus(status.status),
+          ...(error && { failureReason: formatWhatsAppError(error.code, error.title || error.message || 'Unknown error') }),
+          ...(typeof status.recipient_id === 'string' && { phoneNumber: `+${status.recipient_id}` }),
+          ...(seconds > 0 && { at: new Date(seconds * 1000).toISOString() }),
+        });
+      }
+    }
+  }
+  return reports;
+}
+
+/**
+ * Reads a delivery report callback, which Africa's Talking posts as form
+ * fields. Returns null for anything that is not a report.
+ */
+export function parseDeliveryCallback(body: unknown): DeliveryReport | null {
+  const fields = body instanceof URLSearchParams
+    ? Object.fromEntries(Array.from(body.entries()))
+    : body as Record<string, unknown> | null;
+  const messageId = fields?.id || fields?.messageId;
+  if (typeof messageId !== 'string' || typeof fields?.status !== 'string') return null;
+
+  return {
+    messageId,
+    status: toDeliveryStatus(fields.status),
+    ...(typeof fields.failureReason === 'string' && fields.failureReason && { failureReason: fields.failureReason }),
+    ...(typeof fields.phoneNumber === 'string' && { phoneNumber: fields.phoneNumber }),
+  };
+}
+
+export function isSchoolSideFailure(reason?: string): boolean {
+  if (!reason) return false;
+  const whatsappCode = reason.match(/\((\d+)\)$/)?.[1];
+  return SCHOOL_SIDE_FAILURES.includes(reason)
+    || (whatsappCode !== undefined && WHATSAPP_SCHOOL_SIDE_CODES.includes(Number(whatsappCode)));
+}
+
+/**
+ * Writes a report onto its message. A final report is never overwritten by
+ * a later interim one; only a read receipt may follow delivery, and it
+ * stands even when the delivery receipt arrives after it.
+ */
+export function applyDeliveryReport(message: OutboxMessage, report: DeliveryReport, now: Date = new Date()): OutboxMessage {
+  const current = message.deliveryStatus;
+  const settled = current === 'failed' || current === 'read' || (current === 'delivered' && report.status !== 'read');
+  if (settled || report.status === 'pending') {
+    return message;
+  }
+
+  const at = report.at || now.toISOString();
+  return {
+    ...message,
+    deliveryStatus: report.status,
+    ...((report.status === 'delivered' || report.status === 'read') && !message.deliveredAt && { deliveredAt: at }),
+    ...(report.status === 'read' && { readAt: at }),
+    ...(report.failureReason && { deliveryError: report.failureReason }),
+  };
+}
+
+export function isAwaitingReport(message: Pick<OutboxMessage, 'deliveryStatus' | 'sentAt'>, now: Date = new Date()): boolean {
+  return message.deliveryStatus === 'pending'
+    && !!message.sentAt
+    && now.getTime() - new Date(message.sentAt).getTime() < DELIVERY_REPORT_WINDOW_MS;
+}
+
+export function getReachabilityId(channel: OutboxChannel, contact: string): string {
+  return `${channel}:${contact.trim().toLowerCase()}`;
+}
+
+/**
+ * Counts one message's fate against its contact. The score is the share of
+ * messages that arrived, starting from an even chance for a new contact.
+ */
+export function recordDelivery(
+  current: ContactReachability | undefined,
+  channel: OutboxChannel,
+  contact: string,
+  result: DeliveryResult,
+  now: Date = new Date()
+): ContactReachability {
+  const at = now.toISOString();
+  const delivered = (current?.delivered || 0) + (result.delivered ? 1 : 0);
+  const failed = (current?.failed || 0) + (result.delivered ? 0 : 1);
+  const consecutiveFailures = result.delivered ? 0 : (current?.consecutiveFailures || 0) + 1;
+
+  return {
+    id: getReachabilityId(channel, contact),
+    channel,
+    contact: current?.contact || contact,
+    status: result.permanent || consecutiveFailures >= REACHABILITY_FAILURE_LIMIT ? 'unreachable' : 'reachable',
+    score: Math.round(100 * (delivered + 1) / (delivered + failed + 2)),
+    delivered,
+    failed,
+    consecutiveFailures,
+    ...(current?.lastFailureReason && { lastFailureReason: current.lastFailureReason }),
+    ...(current?.lastFailureAt && { lastFailureAt: current.lastFailureAt }),
+    ...(current?.lastDeliveredAt && { lastDeliveredAt: current.lastDeliveredAt }),
+    ...(result.delivered
+      ? { lastDeliveredAt: at }
+      : { lastFailureAt: at, ...(result.reason && { lastFailureReason: result.reason }) }),
+    updatedAt: at,
+  };
+}
+
+export interface ContactRoute {
+  channel: OutboxChannel;
+  recipient: string;
+  reroutedFrom?: string;
+}
+
+/**
+ * Picks the first of the guardian's contacts that is not flagged, in the
+ * order given. If every one is flagged the first is used anyway; a message
+ * that might arrive beats one that is never sent.
+ */
+export function chooseContactRoute(
+  contacts: Array<{ channel: OutboxChannel; contact: string }>,
+  reachability: Map<string, ContactReachability>
+): ContactRoute | null {
+  if (contacts.length === 0) return null;
+  const primary = contacts[0];
+  const usable = contacts.find(({ channel, contact }) =>
+    reachability.get(getReachabilityId(channel, contact))?.status !== 'unreachable'
+  ) || primary;
+
+  return {
+    channel: usable.channel,
+    recipient: usable.contact,
+    ...(usable !== primary && { reroutedFrom: primary.contact }),
+  };
+}
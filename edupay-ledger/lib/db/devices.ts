@@ -0,0 +1,22 @@
+/**
+ * Device Identity
+ * The record an install registers for itself the first time it needs a
+ * device ID, whether for a version vector or a journal chain
+ */
+
+import type { DBDevice } from './index';
+
+export function createLocalDevice(): DBDevice {
+  const platform = typeof window !== 'undefined' && window.platform?.isElectron
+    ? (window.platform.isWindows ? 'windows' : window.platform.isMac ? 'mac' : 'linux')
+    : 'web';
+  const suffix = `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
+  return {
+    id: `DEV-${suffix}`.toUpperCase(),
+    name: `EduPay ${platform === 'web' ? 'Web' : 'Desktop'} (${platform})`,
+    platform,
+    isLocal: true,
+    registeredAt: new Date().toISOString(),
+  };
+}
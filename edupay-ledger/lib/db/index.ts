@@ -7,6 +7,20 @@
 
 // @ts-nocheck - Dexie types will be available after npm install
 import Dexie, { Table } from 'dexie';
+import { incrementVector, VersionVector } from '../sync/version-vector';
+import type { DownloadCursor } from '../sync/paging';
+import { buildTombstone } from '../sync/tombstones';
+import { applyMigrations } from './migrations';
+import { createLocalDevice } from './devices';
+import { checkLedgerIntegrity, LedgerIntegrityReport, LegacyPaymentMethod } from './schema-alignment';
+import type { InstallmentProgress, PaymentStatus } from '../../types/student';
+import type { PaymentChannel } from '../../types/payment';
+import type { MerkleProofStep } from '../merkle';
+import type { CollectionRequest } from '../../types/collection';
+import type { ChequeDetails } from '../../types/cheque';
+import type { ChannelPreference, ContactReachability, OutboxMessage } from '../../types/outbox';
+import type { ReminderRun } from '../../types/reminder';
+import type { MessageLanguage, TemplateOverride } from '../../types/message-template';
 
 // Type definitions for database tables
 export interface DBStudent {
@@ -23,15 +37,23 @@ export interface DBStudent {
   guardianName: string;
   guardianPhone: string;
   guardianEmail?: string;
+  guardianAlternatePhone?: string;
+  guardianLanguage?: MessageLanguage; // Language messages to the guardian are written in
+  guardianChannel?: ChannelPreference; // How notices reach the guardian; SMS when unset
   address?: string;
   status: 'active' | 'inactive' | 'graduated' | 'transferred';
   totalFees: number;
-  paidAmount: number;
+  amountPaid: number;
   balance: number;
   scholarshipAmount?: number;
+  installmentProgress?: InstallmentProgress[];
+  currentInstallment?: number;
+  paymentStatus?: PaymentStatus;
+  lastPaymentDate?: string;
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  versionVector?: VersionVector;
   syncedAt?: string;
 }
 
@@ -41,17 +63,55 @@ export interface DBPayment {
   studentId: string;
   studentName: string;
   amount: number;
-  paymentMethod: 'cash' | 'mtn_momo' | 'airtel_money' | 'bank_transfer';
+  channel: PaymentChannel;
   transactionRef?: string;
   paymentDate: string;
   termId: string;
   academicYear: string;
+  installmentId?: string;
+  installmentName?: string;
+  creditAmount?: number; // Overpayment held as student credit
   recordedBy: string;
   notes?: string;
-  status: 'completed' | 'pending' | 'cancelled' | 'refunded';
+  status: 'completed' | 'pending' | 'cancelled' | 'refunded' | 'bounced';
+  journalEntryId?: string; // Receipt entry in the payments journal
+  cheque?: ChequeDetails; // Clearance progress, for payments by cheque
+  proofHash?: string; // Hash of the payment proof, the payment's leaf in its anchor batch
+  proofTimestamp?: string; // Timestamp the proof was hashed with
+  anchorBatchId?: string;
+  merkleRoot?: string; // Root of the batch, set once the batch is sealed
+  merkleProof?: MerkleProofStep[]; // Rebuilds merkleRoot from proofHash
+  stellarTxHash?: string; // Transaction whose memo is merkleRoot
+  isReconciled?: boolean; // Matched to a bank or mobile money statement credit
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  versionVector?: VersionVector;
+  syncedAt?: string;
+}
+
+export interface DBJournalEntry {
+  id: string;
+  deviceId: string; // Each device keeps its own hash chain
+  sequence: number; // Position in the device's chain, starting at 1
+  entryType: 'receipt' | 'reversal';
+  paymentId: string;
+  receiptNumber: string;
+  studentId: string;
+  studentName: string;
+  amount: number; // Signed: receipts add, reversals subtract
+  paymentMethod: PaymentChannel | LegacyPaymentMethod; // As hashed; entries before version 8 use the old names
+  transactionRef?: string;
+  termId: string;
+  academicYear: string;
+  linkedEntryId?: string; // Receipt entry being reversed
+  reason?: string;
+  recordedBy: string;
+  previousHash: string;
+  hash: string;
+  createdAt: string;
+  updatedAt: string; // Equal to createdAt, entries never change
+  syncStatus: 'synced' | 'pending';
   syncedAt?: string;
 }
 
@@ -66,6 +126,7 @@ export interface DBFeeStructure {
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  versionVector?: VersionVector;
 }
 
 export interface DBInstallmentRule {
@@ -85,6 +146,7 @@ export interface DBInstallmentRule {
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  versionVector?: VersionVector;
 }
 
 export interface DBSchool {
@@ -103,6 +165,7 @@ export interface DBSchool {
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  versionVector?: VersionVector;
 }
 
 export interface DBUser {
@@ -116,12 +179,13 @@ export interface DBUser {
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  versionVector?: VersionVector;
 }
 
 export interface DBAuditLog {
   id: string;
   action: 'create' | 'update' | 'delete' | 'login' | 'logout' | 'sync';
-  entity: 'student' | 'payment' | 'fee_structure' | 'user' | 'school';
+  entity: 'student' | 'payment' | 'fee_structure' | 'user' | 'school' | 'backup';
   entityId: string;
   userId: string;
   userName: string;
@@ -133,16 +197,104 @@ export interface DBAuditLog {
 
 export interface DBSyncQueue {
   id: string;
+  sequence: number; // Monotonic per device, defines replay order
+  idempotencyKey: string;
   operation: 'create' | 'update' | 'delete';
   table: string;
   recordId: string;
   data: any;
+  status: 'pending' | 'dead';
   attempts: number;
   lastAttempt?: string;
   error?: string;
   createdAt: string;
 }
 
+export interface DBSyncBase {
+  id: string; // `${table}:${recordId}`
+  table: string;
+  recordId: string;
+  data: any; // Last version both this device and the server agreed on
+  capturedAt: string;
+}
+
+export interface DBSyncConflict {
+  id: string;
+  table: string;
+  recordId: string;
+  recordLabel: string;
+  field: string;
+  baseValue: any;
+  localValue: any;
+  remoteValue: any;
+  status: 'open' | 'resolved';
+  resolution?: 'local' | 'remote';
+  detectedAt: string;
+  resolvedAt?: string;
+}
+
+export interface DBSyncCheckpoint {
+  collection: string;
+  // Last downloaded document, in the order the server stamped the uploads.
+  // Checkpoints saved before uploads were paged this way have none and start over.
+  cursor?: DownloadCursor | null;
+  lastSyncedAt: string;
+}
+
+export interface DBDevice {
+  id: string;
+  name: string;
+  platform: string;
+  isLocal: boolean; // The install this database belongs to
+  registeredAt: string;
+  lastSyncAt?: string;
+  receiptCode?: number; // The D02 in RCP-2026-D02-000145, assigned by the school when online
+}
+
+export interface DBReceiptBlock {
+  id: string; // `${academicYear}-D${deviceCode}-${start}`
+  academicYear: string;
+  deviceCode: number;
+  deviceId: string;
+  start: number;
+  end: number;
+  reservedAt: string;
+}
+
+export interface DBReceiptSeries {
+  academicYear: string; // This device's series for the year
+  deviceCode: number;
+  nextNumber: number;
+}
+
+export interface DBMigrationRun {
+  version: number; // Schema version the database was opened at
+  ranAt: string;
+  integrity: LedgerIntegrityReport; // Check run once the version's upgrade finished
+}
+
+export interface DBAnchorLeaf {
+  paymentId: string;
+  receiptNumber: string;
+  hash: string; // Payment proof hash
+  timestamp: string; // Timestamp the proof was hashed with
+}
+
+export interface DBAnchorBatch {
+  id: string;
+  deviceId: string;
+  status: 'open' | 'sealed' | 'anchored';
+  leaves: DBAnchorLeaf[];
+  merkleRoot?: string;
+  stellarTxHash?: string;
+  attempts: number; // Failed attempts to anchor the sealed batch
+  lastAttempt?: string;
+  lastError?: string;
+  openedAt: string;
+  sealedAt?: string;
+  anchoredAt?: string;
+}
+
 // Database class
 class EduPayDatabase extends Dexie {
   students!: Table<DBStudent>;
@@ -153,27 +305,63 @@ class EduPayDatabase extends Dexie {
   users!: Table<DBUser>;
   auditLogs!: Table<DBAuditLog>;
   syncQueue!: Table<DBSyncQueue>;
+  syncBases!: Table<DBSyncBase>;
+  syncConflicts!: Table<DBSyncConflict>;
+  syncCheckpoints!: Table<DBSyncCheckpoint>;
+  devices!: Table<DBDevice>;
+  paymentJournal!: Table<DBJournalEntry>;
+  receiptBlocks!: Table<DBReceiptBlock>;
+  receiptSeries!: Table<DBReceiptSeries>;
+  migrationRuns!: Table<DBMigrationRun>;
+  anchorBatches!: Table<DBAnchorBatch>;
+  collectionRequests!: Table<CollectionRequest>;
+  outbox!: Table<OutboxMessage>;
+  reachability!: Table<ContactReachability>;
+  reminderRuns!: Table<ReminderRun>;
+  messageTemplates!: Table<TemplateOverride>;
 
   constructor() {
     super('EduPayLedger');
 
-    // Define database schema
-    this.version(1).stores({
-      students: 'id, studentId, className, status, syncStatus, guardianPhone, [className+status]',
-      payments: 'id, receiptNumber, studentId, paymentDate, termId, syncStatus, [studentId+termId]',
-      feeStructures: 'id, className, termId, academicYear, syncStatus, [className+termId+academicYear]',
-      installmentRules: 'id, termId, academicYear, isActive, syncStatus',
-      schools: 'id, code, syncStatus',
-      users: 'id, email, role, schoolId, syncStatus',
-      auditLogs: 'id, action, entity, entityId, userId, timestamp, syncStatus',
-      syncQueue: 'id, table, recordId, createdAt',
-    });
+    // Schema versions and their upgrade steps live in migrations.ts
+    applyMigrations(this);
   }
 }
 
+// Last sequence number handed out, keeps queue order stable within a millisecond
+let lastQueueSequence = 0;
+
 // Create database instance
 export const db = new EduPayDatabase();
 
+// The payments journal is append-only: only sync bookkeeping may change after insert
+const JOURNAL_MUTABLE_FIELDS = ['syncStatus', 'syncedAt'];
+
+// Set while clearAllData wipes the database, the one time journal entries may go
+let clearingJournal = false;
+
+db.paymentJournal.hook('updating', (modifications: Record<string, unknown>) => {
+  const changed = Object.keys(modifications).filter(key => !JOURNAL_MUTABLE_FIELDS.includes(key));
+  if (changed.length > 0) {
+    throw new Error(`Payment journal entries cannot be edited (${changed.join(', ')}). Record a reversal instead.`);
+  }
+});
+
+db.paymentJournal.hook('deleting', () => {
+  if (clearingJournal) return;
+  throw new Error('Payment journal entries cannot be deleted. Record a reversal instead.');
+});
+
+// Check the ledger once after the database reaches a new schema version. Not awaited,
+// so opening the database doesn't wait for it.
+db.on('ready', () => {
+  db.migrationRuns.get(db.verno).then(run => {
+    if (!run) return dbHelpers.checkIntegrity();
+  }).catch(error => {
+    console.error('Post-migration integrity check failed:', error);
+  });
+});
+
 // Helper functions for common operations
 export const dbHelpers = {
   // Generate unique ID
@@ -185,15 +373,97 @@ export const dbHelpers = {
 
   // Add to sync queue
   async addToSyncQueue(operation: DBSyncQueue['operation'], table: string, recordId: string, data: any) {
+    // An update is replayed from the current record, so one live entry is enough
+    if (operation === 'update') {
+      const existing = await db.syncQueue
+        .where('[table+recordId]')
+        .equals([table, recordId])
+        .and(entry => entry.status === 'pending' && entry.attempts === 0 && entry.operation !== 'delete')
+        .first();
+      if (existing) return existing.id;
+    }
+
+    lastQueueSequence = Math.max(Date.now(), lastQueueSequence + 1);
+    const id = this.generateId('SQ');
+
     await db.syncQueue.add({
-      id: this.generateId('SQ'),
+      id,
+      sequence: lastQueueSequence,
+      idempotencyKey: `${table}-${recordId}-${id}`,
       operation,
       table,
       recordId,
       data,
+      status: 'pending',
       attempts: 0,
       createdAt: new Date().toISOString(),
     });
+    return id;
+  },
+
+  // Get queued operations in replay order
+  async getQueuedOperations(status: DBSyncQueue['status'] = 'pending') {
+    const entries = await db.syncQueue.where('status').equals(status).toArray();
+    return entries.sort((a, b) => a.sequence - b.sequence);
+  },
+
+  // Move dead-lettered operations back into the replay queue
+  async retryDeadLetters(ids?: string[]) {
+    const collection = ids
+      ? db.syncQueue.where('id').anyOf(ids).and(entry => entry.status === 'dead')
+      : db.syncQueue.where('status').equals('dead');
+    return collection.modify({ status: 'pending', attempts: 0, lastAttempt: undefined, error: undefined });
+  },
+
+  // Get this install's device record, registering it on first use
+  async getLocalDevice(): Promise<DBDevice> {
+    const existing = await db.devices.filter(device => device.isLocal).first();
+    if (existing) return existing;
+
+    const device = createLocalDevice();
+    await db.devices.add(device);
+    return device;
+  },
+
+  // Save a local edit or delete: advance this device's version counter and queue it for upload
+  async saveLocalChange<T extends { id: string; versionVector?: VersionVector }>(
+    table: string,
+    record: T,
+    operation: DBSyncQueue['operation'] = 'update'
+  ) {
+    const device = await this.getLocalDevice();
+    const stamped = {
+      ...record,
+      versionVector: incrementVector(record.versionVector, device.id),
+      updatedAt: new Date().toISOString(),
+      syncStatus: 'pending' as const,
+    };
+
+    if (operation === 'delete') {
+      // The tombstone goes up in place of the record so other devices delete their copies;
+      // kept as the sync base, it stops a download from bringing the record back
+      const tombstone = buildTombstone(stamped, stamped.updatedAt);
+      await db.table(table).delete(record.id);
+      await db.syncQueue
+        .where('[table+recordId]')
+        .equals([table, record.id])
+        .and(entry => entry.operation !== 'delete')
+        .delete();
+      await this.saveSyncBase(table, tombstone);
+      await this.addToSyncQueue('delete', table, record.id, tombstone);
+      return stamped;
+    }
+
+    await db.table(table).put(stamped);
+    await this.addToSyncQueue(operation, table, record.id, stamped);
+    return stamped;
+  },
+
+  // Delete a record on this device and queue the delete for the other devices
+  async deleteLocalRecord(table: string, recordId: string) {
+    const record = await db.table(table).get(recordId);
+    if (!record) return null;
+    return this.saveLocalChange(table, record, 'delete');
   },
 
   // Log audit action
@@ -247,26 +517,81 @@ export const dbHelpers = {
       case 'auditLogs':
         await Promise.all(updates.map(u => db.auditLogs.update(u.id, { syncStatus: u.syncStatus })));
         break;
+      case 'installmentRules':
+        await Promise.all(updates.map(u => db.installmentRules.update(u.id, { syncStatus: u.syncStatus })));
+        break;
+      case 'schools':
+        await Promise.all(updates.map(u => db.schools.update(u.id, { syncStatus: u.syncStatus })));
+        break;
+      case 'users':
+        await Promise.all(updates.map(u => db.users.update(u.id, { syncStatus: u.syncStatus })));
+        break;
+      case 'paymentJournal':
+        await Promise.all(updates.map(u => db.paymentJournal.update(u.id, { syncStatus: u.syncStatus, syncedAt: u.syncedAt })));
+        break;
     }
   },
 
-  // Calculate student balance
+  // Store the version both sides agree on, used as the base of the next merge
+  async saveSyncBase(table: string, record: { id: string }) {
+    await db.syncBases.put({
+      id: `${table}:${record.id}`,
+      table,
+      recordId: record.id,
+      data: record,
+      capturedAt: new Date().toISOString(),
+    });
+  },
+
+  // Get the stored base version of a record
+  async getSyncBase(table: string, recordId: string) {
+    const base = await db.syncBases.get(`${table}:${recordId}`);
+    return base?.data;
+  },
+
+  // Get field conflicts awaiting review
+  async getOpenConflicts() {
+    const conflicts = await db.syncConflicts.where('status').equals('open').toArray();
+    return conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  },
+
+  // Calculate student balance by summing the payments journal
   async calculateStudentBalance(studentId: string) {
     const student = await db.students.get(studentId);
     if (!student) return null;
 
-    const payments = await db.payments
+    const entries = await db.paymentJournal
       .where('studentId')
       .equals(studentId)
-      .and(p => p.status === 'completed')
       .toArray();
 
-    const paidAmount = payments.reduce((sum, p) => sum + p.amount, 0);
-    const balance = student.totalFees - paidAmount;
+    const amountPaid = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    const balance = student.totalFees - amountPaid;
 
-    await db.students.update(studentId, { paidAmount, balance, updatedAt: new Date().toISOString() });
+    await db.students.update(studentId, { amountPaid, balance, updatedAt: new Date().toISOString() });
 
-    return { totalFees: student.totalFees, paidAmount, balance };
+    return { totalFees: student.totalFees, amountPaid, balance };
+  },
+
+  // Recompute balances from the journal and record any students or payments that don't add up
+  async checkIntegrity(): Promise<DBMigrationRun> {
+    const [students, payments, journal] = await Promise.all([
+      db.students.toArray(),
+      db.payments.toArray(),
+      db.paymentJournal.toArray(),
+    ]);
+    const integrity = checkLedgerIntegrity(students, payments, journal);
+    const run = { version: db.verno, ranAt: integrity.checkedAt, integrity };
+
+    await db.migrationRuns.put(run);
+    if (integrity.issues.length > 0) {
+      console.warn(`Ledger integrity check found ${integrity.issues.length} record(s) that don't add up`, integrity.issues);
+    }
+    return run;
+  },
+
+  async getLatestMigrationRun(): Promise<DBMigrationRun | undefined> {
+    return db.migrationRuns.orderBy('version').last();
   },
 
   // Get dashboard stats
@@ -294,6 +619,12 @@ export const dbHelpers = {
     };
   },
 
+  // The language and channel set for a student's guardian
+  async getGuardianPreferences(studentId: string): Promise<Pick<DBStudent, 'guardianLanguage' | 'guardianChannel'>> {
+    const student = await db.students.get(studentId);
+    return { guardianLanguage: student?.guardianLanguage, guardianChannel: student?.guardianChannel };
+  },
+
   // Search students
   async searchStudents(query: string, filters?: { className?: string; status?: string }) {
     let collection = db.students.toCollection();
@@ -372,18 +703,36 @@ export const dbHelpers = {
     });
   },
 
-  // Clear all data (for testing or reset)
+  // Clear all data (for testing or reset). The device registry and migration
+  // history describe this install rather than the school's data, so they stay.
   async clearAllData() {
-    await Promise.all([
-      db.students.clear(),
-      db.payments.clear(),
-      db.feeStructures.clear(),
-      db.installmentRules.clear(),
-      db.schools.clear(),
-      db.users.clear(),
-      db.auditLogs.clear(),
-      db.syncQueue.clear(),
-    ]);
+    clearingJournal = true;
+    try {
+      await Promise.all([
+        db.students.clear(),
+        db.payments.clear(),
+        db.feeStructures.clear(),
+        db.installmentRules.clear(),
+        db.schools.clear(),
+        db.users.clear(),
+        db.auditLogs.clear(),
+        db.syncQueue.clear(),
+        db.syncBases.clear(),
+        db.syncConflicts.clear(),
+        db.syncCheckpoints.clear(),
+        db.paymentJournal.clear(),
+        db.receiptBlocks.clear(),
+        db.receiptSeries.clear(),
+        db.anchorBatches.clear(),
+        db.collectionRequests.clear(),
+        db.outbox.clear(),
+        db.reachability.clear(),
+        db.reminderRuns.clear(),
+        db.messageTemplates.clear(),
+      ]);
+    } finally {
+      clearingJournal = false;
+    }
   },
 };
 
@@ -0,0 +1,58 @@
+/**
+ * Payment Journal Hashing
+ * Canonical SHA-256 hash chain for the local payments journal
+ */
+
+import CryptoJS from 'crypto-js';
+
+// Hash of the (virtual) entry before the first one in a device's chain
+export const JOURNAL_GENESIS_HASH = '0'.repeat(64);
+
+// Fields covered by an entry's hash, in a fixed order
+export interface JournalHashInput {
+  id: string;
+  deviceId: string;
+  sequence: number;
+  entryType: string;
+  paymentId: string;
+  receiptNumber: string;
+  studentId: string;
+  amount: number;
+  paymentMethod: string;
+  transactionRef?: string;
+  termId: string;
+  academicYear: string;
+  linkedEntryId?: string;
+  reason?: string;
+  recordedBy: string;
+  createdAt: string;
+  previousHash: string;
+}
+
+/**
+ * Hashes an entry together with the hash of the entry before it, so changing
+ * any earlier entry breaks every hash that follows
+ */
+export function computeJournalEntryHash(entry: JournalHashInput): string {
+  const canonical = JSON.stringify([
+    entry.id,
+    entry.deviceId,
+    entry.sequence,
+    entry.entryType,
+    entry.paymentId,
+    entry.receiptNumber,
+    entry.studentId,
+    entry.amount,
+    entry.paymentMethod,
+    entry.transactionRef ?? null,
+    entry.termId,
+    entry.academicYear,
+    entry.linkedEntryId ?? null,
+    entry.reason ?? null,
+    entry.recordedBy,
+    entry.createdAt,
+    entry.previousHash,
+  ]);
+
+  return CryptoJS.SHA256(canonical).toString();
+}
@@ -0,0 +1,256 @@
+/**
+ * Payments Journal
+ * Append-only, hash-chained record of every receipt and reversal.
+ * The payments table is a projection of this journal; balances are summed from it.
+ */
+
+import Dexie from 'dexie';
+import { db, dbHelpers, DBJournalEntry, DBPayment } from './index';
+import { computeJournalEntryHash, JOURNAL_GENESIS_HASH } from './journal-hash';
+import { incrementVector } from '../sync/version-vector';
+import { derivePaymentStatus } from './schema-alignment';
+import { removeFromInstallments } from '../cheques/state';
+
+type NewJournalEntry = Omit<DBJournalEntry, 'id' | 'deviceId' | 'sequence' | 'previousHash' | 'hash' | 'createdAt' | 'updatedAt' | 'syncStatus'>;
+
+export interface JournalChainResult {
+  deviceId: string;
+  valid: boolean;
+  entriesChecked: number;
+  brokenAt?: { sequence: number; entryId: string; reason: string };
+}
+
+export interface JournalVerificationResult {
+  valid: boolean;
+  entriesChecked: number;
+  chains: JournalChainResult[];
+}
+
+// Get the last entry in a device's chain
+async function getChainHead(deviceId: string) {
+  return db.paymentJournal
+    .where('[deviceId+sequence]')
+    .between([deviceId, Dexie.minKey], [deviceId, Dexie.maxKey])
+    .last();
+}
+
+// Append an entry to the local device's chain. Must run inside a transaction on paymentJournal.
+async function appendEntry(deviceId: string, fields: NewJournalEntry): Promise<DBJournalEntry> {
+  const head = await getChainHead(deviceId);
+  const now = new Date().toISOString();
+  const entry = {
+    ...fields,
+    id: dbHelpers.generateId('JE'),
+    deviceId,
+    sequence: (head?.sequence || 0) + 1,
+    previousHash: head?.hash || JOURNAL_GENESIS_HASH,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending' as const,
+  };
+  const stored: DBJournalEntry = { ...entry, hash: computeJournalEntryHash(entry) };
+
+  await db.paymentJournal.add(stored);
+  await dbHelpers.addToSyncQueue('create', 'paymentJournal', stored.id, stored);
+  return stored;
+}
+
+function entryFromPayment(payment: DBPayment): Omit<NewJournalEntry, 'entryType' | 'amount'> {
+  return {
+    paymentId: payment.id,
+    receiptNumber: payment.receiptNumber,
+    studentId: payment.studentId,
+    studentName: payment.studentName,
+    paymentMethod: payment.channel,
+    transactionRef: payment.transactionRef,
+    termId: payment.termId,
+    academicYear: payment.academicYear,
+    recordedBy: payment.recordedBy,
+  };
+}
+
+// Sum of reversals already posted against a receipt entry (negative or zero)
+async function getReversedAmount(original: DBJournalEntry) {
+  const reversals = await db.paymentJournal
+    .where('paymentId')
+    .equals(original.paymentId)
+    .and(entry => entry.linkedEntryId === original.id && entry.entryType === 'reversal')
+    .toArray();
+  return reversals.reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+export const paymentJournal = {
+  /**
+   * Records a payment: a receipt entry in the journal plus its projection in
+   * the payments table, written together so neither exists without the other
+   */
+  async recordPaymentEntry(
+    payment: Omit<DBPayment, 'journalEntryId' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'versionVector'>,
+    userName: string
+  ): Promise<{ payment: DBPayment; entry: DBJournalEntry }> {
+    const device = await dbHelpers.getLocalDevice();
+
+    return db.transaction('rw', [db.paymentJournal, db.payments, db.syncQueue, db.auditLogs], async () => {
+      const now = new Date().toISOString();
+      const projection: DBPayment = {
+        ...payment,
+        createdAt: now,
+        updatedAt: now,
+        syncStatus: 'pending',
+        versionVector: incrementVector(undefined, device.id),
+      };
+
+      const entry = await appendEntry(device.id, {
+        ...entryFromPayment(projection),
+        entryType: 'receipt',
+        amount: projection.amount,
+      });
+
+      projection.journalEntryId = entry.id;
+      await db.payments.add(projection);
+      await dbHelpers.addToSyncQueue('create', 'payments', projection.id, projection);
+      await dbHelpers.logAudit(
+        'create', 'payment', projection.id, payment.recordedBy, userName,
+        `Recorded payment ${projection.receiptNumber} for ${projection.studentName}`
+      );
+
+      return { payment: projection, entry };
+    });
+  },
+
+  /**
+   * Cancels, refunds or bounces a payment by appending a contra entry. The
+   * original receipt stays in the journal; the projection's status changes and
+   * the student's balance is summed from the journal again, in one transaction.
+   * To correct a payment, reverse it and record the right one as a new payment.
+   */
+  async reversePayment(
+    paymentId: string,
+    reason: string,
+    userId: string,
+    userName: string,
+    kind: 'cancelled' | 'refunded' | 'bounced' = 'cancelled'
+  ): Promise<DBJournalEntry> {
+    const device = await dbHelpers.getLocalDevice();
+
+    return db.transaction('rw', [db.paymentJournal, db.payments, db.students, db.syncQueue, db.auditLogs, db.devices], async () => {
+      const payment = await db.payments.get(paymentId);
+      if (!payment) throw new Error('Payment not found');
+      if (payment.status === 'cancelled' || payment.status === 'refunded' || payment.status === 'bounced') {
+        throw new Error(`Payment ${payment.receiptNumber} is already ${payment.status}`);
+      }
+      if (!reason.trim()) throw new Error('A reason is required to reverse a payment');
+
+      const original = payment.journalEntryId
+        ? await db.paymentJournal.get(payment.journalEntryId)
+        : undefined;
+      if (!original) throw new Error(`No journal entry found for payment ${payment.receiptNumber}`);
+
+      const outstanding = original.amount + await getReversedAmount(original);
+      const entry = await appendEntry(device.id, {
+        ...entryFromPayment(payment),
+        entryType: 'reversal',
+        amount: -outstanding,
+        linkedEntryId: original.id,
+        reason,
+        recordedBy: userId,
+      });
+
+      await db.payments.update(paymentId, {
+        status: kind,
+        updatedAt: entry.createdAt,
+        syncStatus: 'pending',
+        versionVector: incrementVector(payment.versionVector, device.id),
+      });
+      await dbHelpers.addToSyncQueue('update', 'payments', paymentId, null);
+
+      const student = await db.students.get(payment.studentId);
+      const totals = await dbHelpers.calculateStudentBalance(payment.studentId);
+      if (student && totals) {
+        // The credit portion was never applied to installments
+        const installmentProgress = removeFromInstallments(
+          student.installmentProgress || [],
+          outstanding - (payment.creditAmount || 0)
+        );
+        await dbHelpers.saveLocalChange('students', {
+          ...student,
+          amountPaid: totals.amountPaid,
+          balance: totals.balance,
+          paymentStatus: derivePaymentStatus(totals.totalFees, totals.amountPaid, totals.balance),
+          currentInstallment: installmentProgress.find(i => i.status !== 'completed')?.installmentOrder
+            || installmentProgress.length,
+          installmentProgress,
+        });
+      }
+
+      await dbHelpers.logAudit(
+        'update', 'payment', paymentId, userId, userName,
+        `Payment ${payment.receiptNumber} ${kind}: ${reason}`
+      );
+
+      return entry;
+    });
+  },
+
+  // Get every journal entry for a payment, oldest first
+  async getPaymentHistory(paymentId: string) {
+    const payment = await db.payments.get(paymentId);
+    const rootId = payment?.journalEntryId;
+    const entries = await db.paymentJournal.where('paymentId').equals(paymentId).toArray();
+    const linked = rootId
+      ? await db.paymentJournal.filter(entry => entry.linkedEntryId === rootId).toArray()
+      : [];
+
+    const byId = new Map<string, DBJournalEntry>();
+    entries.concat(linked).forEach(entry => byId.set(entry.id, entry));
+    return Array.from(byId.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  // Net amount a student has paid according to the journal
+  async getStudentJournalTotal(studentId: string) {
+    const entries = await db.paymentJournal.where('studentId').equals(studentId).toArray();
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  },
+
+  /**
+   * Recomputes every hash and checks each entry points at the one before it.
+   * A tampered, reordered or missing entry breaks its device's chain from that point on.
+   */
+  async verifyJournalChain(): Promise<JournalVerificationResult> {
+    const entries = await db.paymentJournal.toArray();
+    const byDevice = new Map<string, DBJournalEntry[]>();
+    entries.forEach(entry => {
+      byDevice.set(entry.deviceId, [...(byDevice.get(entry.deviceId) || []), entry]);
+    });
+
+    const chains: JournalChainResult[] = Array.from(byDevice.entries()).map(([deviceId, chain]) => {
+      chain.sort((a, b) => a.sequence - b.sequence);
+
+      let previousHash = JOURNAL_GENESIS_HASH;
+      for (let i = 0; i < chain.length; i++) {
+        const entry = chain[i];
+        const brokenAt = (reason: string) => ({
+          deviceId,
+          valid: false,
+          entriesChecked: i + 1,
+          brokenAt: { sequence: entry.sequence, entryId: entry.id, reason },
+        });
+
+        if (entry.sequence !== i + 1) return brokenAt(`Expected sequence ${i + 1}, found ${entry.sequence}`);
+        if (entry.previousHash !== previousHash) return brokenAt('Previous hash does not match the entry before it');
+        if (computeJournalEntryHash(entry) !== entry.hash) return brokenAt('Entry contents do not match its hash');
+        previousHash = entry.hash;
+      }
+
+      return { deviceId, valid: true, entriesChecked: chain.length };
+    });
+
+    return {
+      valid: chains.every(chain => chain.valid),
+      entriesChecked: chains.reduce((sum, chain) => sum + chain.entriesChecked, 0),
+      chains,
+    };
+  },
+};
+
+export default paymentJournal;
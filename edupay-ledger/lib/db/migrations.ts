@@ -0,0 +1,304 @@
+/**
+ * Database Migrations
+ * Versioned Dexie schema steps, applied in order when the database opens.
+ * Each step lists only the stores it adds or re-indexes; its upgrade()
+ * rewrites the records already on the device into the new shape.
+ */
+
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import { createLocalDevice } from './devices';
+import { computeJournalEntryHash, JOURNAL_GENESIS_HASH } from './journal-hash';
+import { alignPaymentRecord, alignStudentRecord, RENAMED_FIELDS, toPaymentChannel } from './schema-alignment';
+
+export interface DBMigration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+// Tables whose records are rewritten by the schema alignment step
+const ALIGNERS: Record<string, (record: any) => any> = {
+  students: alignStudentRecord,
+  payments: alignPaymentRecord,
+};
+
+// The install's own device, registered here when the journal is seeded first
+async function localDeviceId(tx: Transaction): Promise<string> {
+  const devices = tx.table('devices');
+  const existing = await devices.filter(device => device.isLocal).first();
+  if (existing) return existing.id;
+
+  const device = createLocalDevice();
+  await devices.add(device);
+  return device.id;
+}
+
+export const DB_MIGRATIONS: DBMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      students: 'id, studentId, className, status, syncStatus, guardianPhone, [className+status]',
+      payments: 'id, receiptNumber, studentId, paymentDate, termId, syncStatus, [studentId+termId]',
+      feeStructures: 'id, className, termId, academicYear, syncStatus, [className+termId+academicYear]',
+      installmentRules: 'id, termId, academicYear, isActive, syncStatus',
+      schools: 'id, code, syncStatus',
+      users: 'id, email, role, schoolId, syncStatus',
+      auditLogs: 'id, action, entity, entityId, userId, timestamp, syncStatus',
+      syncQueue: 'id, table, recordId, createdAt',
+    },
+  },
+  {
+    version: 2,
+    description: 'Base snapshots and field conflict queue for three-way merge',
+    stores: {
+      syncBases: 'id, table, recordId',
+      syncConflicts: 'id, table, recordId, status, detectedAt, [table+recordId]',
+    },
+  },
+  {
+    version: 3,
+    description: 'Ordered, idempotent operation log with dead-letter status',
+    stores: {
+      syncQueue: 'id, sequence, status, table, recordId, createdAt, idempotencyKey, [table+recordId]',
+    },
+    async upgrade(tx) {
+      await tx.table('syncQueue').toCollection().modify(entry => {
+        entry.sequence = entry.sequence ?? new Date(entry.createdAt).getTime();
+        entry.idempotencyKey = entry.idempotencyKey ?? entry.id;
+        entry.status = entry.status ?? 'pending';
+      });
+    },
+  },
+  {
+    version: 4,
+    description: 'Per-collection download cursors',
+    stores: {
+      syncCheckpoints: 'collection',
+    },
+  },
+  {
+    version: 5,
+    description: 'Device identity for version vectors',
+    stores: {
+      devices: 'id, lastSyncAt',
+    },
+  },
+  {
+    version: 6,
+    description: 'Append-only payments journal, seeded from existing payments',
+    stores: {
+      paymentJournal: 'id, [deviceId+sequence], paymentId, studentId, receiptNumber, entryType, syncStatus, updatedAt',
+    },
+    async upgrade(tx) {
+      // Payments still have their version 6 shape here
+      const payments: any[] = await tx.table('payments').toArray();
+      payments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      // Seeded entries start this device's chain. IDs come from the payment, so
+      // two devices seeding the same synced payment upload the same entry.
+      const deviceId = await localDeviceId(tx);
+      let previousHash = JOURNAL_GENESIS_HASH;
+      let sequence = 0;
+      const queuedAt = Date.now();
+
+      for (const payment of payments) {
+        const addEntry = async (entryType: 'receipt' | 'reversal', amount: number, linkedEntryId?: string) => {
+          sequence++;
+          const entry = {
+            id: linkedEntryId ? `JE-LEGACY-${payment.id}-REV` : `JE-LEGACY-${payment.id}`,
+            deviceId,
+            sequence,
+            entryType,
+            paymentId: payment.id,
+            receiptNumber: payment.receiptNumber,
+            studentId: payment.studentId,
+            studentName: payment.studentName,
+            amount,
+            paymentMethod: payment.paymentMethod,
+            transactionRef: payment.transactionRef,
+            termId: payment.termId,
+            academicYear: payment.academicYear,
+            linkedEntryId,
+            reason: linkedEntryId ? `Payment ${payment.status} before journal was introduced` : undefined,
+            recordedBy: payment.recordedBy,
+            previousHash,
+            createdAt: linkedEntryId ? payment.updatedAt : payment.createdAt,
+            updatedAt: linkedEntryId ? payment.updatedAt : payment.createdAt,
+            syncStatus: 'pending' as const,
+          };
+          const hash = computeJournalEntryHash(entry);
+          await tx.table('paymentJournal').add({ ...entry, hash });
+          await tx.table('syncQueue').add({
+            id: `SQ-${entry.id}`,
+            sequence: queuedAt + sequence,
+            idempotencyKey: `paymentJournal-${entry.id}`,
+            operation: 'create',
+            table: 'paymentJournal',
+            recordId: entry.id,
+            data: { ...entry, hash },
+            status: 'pending',
+            attempts: 0,
+            createdAt: new Date(queuedAt).toISOString(),
+          });
+          previousHash = hash;
+          return entry.id;
+        };
+
+        const receiptId = await addEntry('receipt', payment.amount);
+        if (payment.status === 'cancelled' || payment.status === 'refunded') {
+          await addEntry('reversal', -payment.amount, receiptId);
+        }
+        await tx.table('payments').update(payment.id, { journalEntryId: receiptId });
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Per-device sequential receipt numbers reserved in blocks',
+    stores: {
+      receiptBlocks: 'id, [academicYear+deviceCode], deviceId',
+      receiptSeries: 'academicYear',
+    },
+  },
+  {
+    version: 8,
+    description: 'Align students and payments with the domain types (amountPaid, channel)',
+    stores: {
+      migrationRuns: 'version, ranAt',
+    },
+    async upgrade(tx) {
+      // Journal entries keep the payment method they were hashed with
+      await tx.table('students').toCollection().modify((record, ref) => {
+        ref.value = alignStudentRecord(record);
+      });
+      await tx.table('payments').toCollection().modify((record, ref) => {
+        ref.value = alignPaymentRecord(record);
+      });
+
+      // Queued uploads and merge bases hold record copies in the old shape too
+      for (const tableName of ['syncQueue', 'syncBases']) {
+        await tx.table(tableName).toCollection().modify((entry, ref) => {
+          ref.value = alignRecord(tableName, entry);
+        });
+      }
+
+      await tx.table('syncConflicts')
+        .filter(conflict => !!RENAMED_FIELDS[conflict.table]?.[conflict.field])
+        .modify(conflict => {
+          conflict.field = RENAMED_FIELDS[conflict.table][conflict.field];
+          if (conflict.field === 'channel') {
+            conflict.baseValue = conflict.baseValue && toPaymentChannel(conflict.baseValue);
+            conflict.localValue = conflict.localValue && toPaymentChannel(conflict.localValue);
+            conflict.remoteValue = conflict.remoteValue && toPaymentChannel(conflict.remoteValue);
+          }
+        });
+    },
+  },
+  {
+    version: 9,
+    description: 'Anchor payments to Stellar in Merkle batches',
+    stores: {
+      anchorBatches: 'id, status, openedAt',
+    },
+  },
+  {
+    version: 10,
+    description: 'Keep the Stellar anchor retry queue on the anchor batches',
+    stores: {},
+    async upgrade(tx) {
+      await tx.table('anchorBatches').toCollection().modify(batch => {
+        batch.attempts = batch.attempts || 0;
+      });
+    },
+  },
+  {
+    version: 11,
+    description: 'Track mobile money request-to-pay collections',
+    stores: {
+      collectionRequests: 'id, status, studentId, requestedAt',
+    },
+  },
+  {
+    version: 12,
+    description: 'Follow cheque payments until they clear or bounce',
+    stores: {
+      payments: 'id, receiptNumber, studentId, paymentDate, termId, syncStatus, [studentId+termId], cheque.status',
+    },
+  },
+  {
+    version: 13,
+    description: 'Outbox for SMS and email, kept as the message history',
+    stores: {
+      outbox: 'id, status, channel, dedupeKey, studentId, createdAt, lastAttemptAt',
+    },
+  },
+  {
+    version: 14,
+    description: 'SMS delivery reports, and how reliably each guardian contact is reached',
+    stores: {
+      outbox: 'id, status, channel, dedupeKey, studentId, createdAt, lastAttemptAt, providerMessageId, deliveryStatus',
+      reachability: 'id, channel, status, updatedAt',
+    },
+  },
+  {
+    version: 15,
+    description: 'Log of the daily reminder runs',
+    stores: {
+      reminderRuns: 'id, startedAt',
+    },
+  },
+  {
+    version: 16,
+    description: 'School edits to SMS and email wording, per language',
+    stores: {
+      messageTemplates: 'id, channel, type, language',
+    },
+  },
+  {
+    version: 17,
+    description: "Copy the guardian's message language onto students",
+    stores: {},
+    async upgrade(tx) {
+      await tx.table('students').toCollection().modify((record, ref) => {
+        ref.value = alignStudentRecord(record);
+      });
+    },
+  },
+  {
+    version: 18,
+    description: "Copy the guardian's message channel onto students",
+    stores: {},
+    async upgrade(tx) {
+      await tx.table('students').toCollection().modify((record, ref) => {
+        ref.value = alignStudentRecord(record);
+      });
+    },
+  },
+];
+
+export function applyMigrations(database: Dexie) {
+  DB_MIGRATIONS.forEach(migration => {
+    const version = database.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) version.upgrade(migration.upgrade);
+  });
+}
+
+/**
+ * Brings one record written under an older schema up to date, for records that
+ * arrive without going through the upgrade: downloads from devices that haven't
+ * updated yet, and restored backups. Queue entries and merge bases carry a copy
+ * of a record, which is aligned too.
+ */
+export function alignRecord<T>(tableName: string, record: T): T {
+  if (tableName === 'syncQueue' || tableName === 'syncBases') {
+    const entry = record as any;
+    return ALIGNERS[entry.table] && entry.data
+      ? { ...entry, data: ALIGNERS[entry.table](entry.data) }
+      : record;
+  }
+  const align = ALIGNERS[tableName];
+  return align ? align(record) : record;
+}
@@ -0,0 +1,187 @@
+/**
+ * Message Outbox Policy
+ * Which queued SMS, WhatsApp and email messages may go out now, how failures are
+ * retried, and how the message history is searched
+ */
+
+import { getRetryDelayMs } from '../sync/queue';
+import type {
+  OutboxChannel,
+  OutboxMessage,
+  OutboxPriority,
+  OutboxSearch,
+  OutboxSummary,
+  QuietHours,
+} from '../../types/outbox';
+
+// A message still failing after this many attempts is given up on
+export const OUTBOX_MAX_ATTEMPTS = 6;
+
+// Provider send limits; Africa's Talking, SendGrid and the WhatsApp Cloud API all throttle bursts
+export const OUTBOX_RATE_LIMITS: Record<OutboxChannel, { maxMessages: number; windowMs: number }> = {
+  sms: { maxMessages: 50, windowMs: 60 * 1000 },
+  email: { maxMessages: 20, windowMs: 60 * 1000 },
+  whatsapp: { maxMessages: 60, windowMs: 60 * 1000 },
+};
+
+// A send that never reported back, e.g. the tab was closed mid-send, is tried again after this
+export const OUTBOX_SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const PRIORITY_ORDER: Record<OutboxPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export interface OutboxSendOutcome {
+  success: boolean;
+  permanent?: boolean; // Retrying cannot help, e.g. an invalid number
+  rateLimited?: boolean; // The provider asked us to slow down
+  error?: string;
+  provider?: string;
+  providerMessageId?: string;
+  cost?: number;
+}
+
+/**
+ * One key per thing a message is about, per channel and recipient, so a
+ * receipt is never texted twice to the same phone
+ */
+export function buildDedupeKey(scope: string, channel: OutboxChannel, recipient: string): string {
+  return `${scope}:${channel}:${recipient.trim().toLowerCase()}`;
+}
+
+/**
+ * The scope a message's dedupe key was built from, shared by the copies of
+ * one notice sent on other channels or to another contact
+ */
+export function getDedupeScope(message: Pick<OutboxMessage, 'dedupeKey' | 'channel' | 'recipient'>): string | undefined {
+  const suffix = `:${message.channel}:${message.recipient.trim().toLowerCase()}`;
+  return message.dedupeKey?.endsWith(suffix) ? message.dedupeKey.slice(0, -suffix.length) : undefined;
+}
+
+export function isWithinQuietHours(quietHours: QuietHours | undefined, now: Date = new Date()): boolean {
+  if (!quietHours || quietHours.startHour === quietHours.endHour) return false;
+  const hour = now.getHours();
+  return quietHours.startHour < quietHours.endHour
+    ? hour >= quietHours.startHour && hour < quietHours.endHour
+    : hour >= quietHours.startHour || hour < quietHours.endHour;
+}
+
+export function isOutboxDue(
+  message: Pick<OutboxMessage, 'status' | 'nextAttemptAt' | 'lastAttemptAt' | 'quietHours'>,
+  now: Date = new Date()
+): boolean {
+  if (isWithinQuietHours(message.quietHours, now)) return false;
+  if (message.status === 'queued') {
+    return new Date(message.nextAttemptAt).getTime() <= now.getTime();
+  }
+  if (message.status === 'sending') {
+    return !message.lastAttemptAt || now.getTime() - new Date(message.lastAttemptAt).getTime() >= OUTBOX_SENDING_TIMEOUT_MS;
+  }
+  return false;
+}
+
+/**
+ * How many more messages the channel may send in the current window, given
+ * the times of the attempts already made
+ */
+export function getSendAllowance(
+  channel: OutboxChannel,
+  recentAttempts: string[],
+  now: Date = new Date(),
+  limits = OUTBOX_RATE_LIMITS
+): number {
+  const { maxMessages, windowMs } = limits[channel];
+  const since = now.getTime() - windowMs;
+  const used = recentAttempts.filter(at => new Date(at).getTime() > since).length;
+  return Math.max(0, maxMessages - used);
+}
+
+/**
+ * The due messages to send now, most urgent and oldest first, within each
+ * channel's allowance
+ */
+export function pickDueMessages(
+  messages: OutboxMessage[],
+  allowance: Record<OutboxChannel, number>,
+  now: Date = new Date()
+): OutboxMessage[] {
+  const remaining = { ...allowance };
+  return messages
+    .filter(message => isOutboxDue(message, now))
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.createdAt.localeCompare(b.createdAt)
+    )
+    .filter(message => {
+      if (remaining[message.channel] <= 0) return false;
+      remaining[message.channel]--;
+      return true;
+    });
+}
+
+/**
+ * Records the provider's answer. A rate limited attempt is put back without
+ * counting against the message; other failures back off like the sync queue.
+ */
+export function applySendOutcome(message: OutboxMessage, outcome: OutboxSendOutcome, now: Date = new Date()): OutboxMessage {
+  const at = now.toISOString();
+  const provider = outcome.provider || message.provider;
+
+  if (outcome.success) {
+    return {
+      ...message,
+      status: 'sent',
+      sentAt: at,
+      lastError: undefined,
+      ...(message.channel !== 'email' && { deliveryStatus: 'pending' as const }),
+      ...(provider && { provider }),
+      ...(outcome.providerMessageId && { providerMessageId: outcome.providerMessageId }),
+      ...(outcome.cost !== undefined && { cost: outcome.cost }),
+    };
+  }
+
+  if (outcome.rateLimited) {
+    return {
+      ...message,
+      status: 'queued',
+      attempts: Math.max(0, message.attempts - 1),
+      nextAttemptAt: new Date(now.getTime() + OUTBOX_RATE_LIMITS[message.channel].windowMs).toISOString(),
+      lastError: outcome.error,
+    };
+  }
+
+  const givingUp = outcome.permanent || message.attempts >= OUTBOX_MAX_ATTEMPTS;
+  return {
+    ...message,
+    status: givingUp ? 'failed' : 'queued',
+    nextAttemptAt: givingUp ? message.nextAttemptAt : new Date(now.getTime() + getRetryDelayMs(message.attempts)).toISOString(),
+    lastError: outcome.error || 'Unknown error',
+    ...(provider && { provider }),
+  };
+}
+
+export function matchesOutboxSearch(message: OutboxMessage, search: OutboxSearch): boolean {
+  if (search.channel && message.channel !== search.channel) return false;
+  if (search.status && message.status !== search.status) return false;
+  const created = new Date(message.createdAt).getTime();
+  if (search.from && created < search.from.getTime()) return false;
+  if (search.to && created > search.to.getTime()) return false;
+
+  const query = search.query?.trim().toLowerCase();
+  if (!query) return true;
+  return [message.recipient, message.recipientName, message.reference, message.subject, message.body]
+    .some(field => field?.toLowerCase().includes(query));
+}
+
+export function summarizeOutbox(messages: OutboxMessage[]): OutboxSummary {
+  const count = (status: OutboxMessage['status']) => messages.filter(message => message.status === status).length;
+  const nextAttempt = messages
+    .filter(message => message.status === 'queued')
+    .map(message => message.nextAttemptAt)
+    .sort()[0];
+
+  return {
+    queued: count('queued'),
+    sending: count('sending'),
+    sent: count('sent'),
+    failed: count('failed'),
+    ...(nextAttempt && { nextAttemptAt: nextAttempt }),
+  };
+}
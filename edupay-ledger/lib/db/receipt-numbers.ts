@@ -0,0 +1,202 @@
+/**
+ * Receipt Numbers
+ * Formats, parses and audits sequential receipt numbers like RCP-2026-D02-000145,
+ * and picks the next one a device issues
+ */
+
+// Numbers reserved from the school's series at a time
+export const RECEIPT_BLOCK_SIZE = 100;
+
+// Reserve the next block once fewer than this many numbers are left
+export const RECEIPT_BLOCK_REFILL_THRESHOLD = 20;
+
+// How long recording a payment waits for a new block once the reserved numbers are used up
+export const RECEIPT_BLOCK_WAIT_MS = 5000;
+
+// Series code of a device that has not been given its code yet
+export const PROVISIONAL_DEVICE_CODE = 0;
+
+const RECEIPT_NUMBER_PATTERN = /^RCP-(\d{4})-D(\d{2,})-(\d{6,})$/;
+const PROVISIONAL_RECEIPT_PATTERN = /^RCP-(\d{4})-P([A-Z0-9]{6})-(\d{6,})$/;
+
+export interface ParsedReceiptNumber {
+  academicYear: string;
+  deviceCode: number;
+  sequence: number;
+}
+
+export interface ReceiptBlockRange {
+  deviceCode: number;
+  start: number;
+  end: number;
+}
+
+export interface ReceiptSeriesState {
+  academicYear: string;
+  deviceCode: number; // PROVISIONAL_DEVICE_CODE for a provisional series
+  nextNumber: number;
+}
+
+export interface ReceiptSeriesAudit {
+  academicYear: string;
+  issued: number;
+  gaps: { deviceCode: number; from: number; to: number }[];
+  duplicates: string[];
+  unreserved: string[]; // Issued outside any reserved block, e.g. after a block ran out offline or before the device had a code
+}
+
+export function formatReceiptNumber(academicYear: string, deviceCode: number, sequence: number): string {
+  return `RCP-${academicYear}-D${String(deviceCode).padStart(2, '0')}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Whether recording a payment should top up the device's reserved numbers,
+ * and whether it should wait for that first. Blocks are topped up in the
+ * background while numbers remain, so a slow connection never holds up the
+ * bursar; only a device that has used up every reserved number waits.
+ */
+export function planReceiptTopUp(remaining: number, online: boolean): 'none' | 'background' | 'wait' {
+  if (!online || remaining >= RECEIPT_BLOCK_REFILL_THRESHOLD) return 'none';
+  return remaining > 0 ? 'background' : 'wait';
+}
+
+/**
+ * The part of a device's ID its provisional receipt numbers carry. IDs end in
+ * random characters, so devices that start out offline don't share a tag.
+ */
+export function provisionalReceiptTag(deviceId: string): string {
+  return deviceId.replace(/[^A-Za-z0-9]/g, '').slice(-6).toUpperCase().padStart(6, '0');
+}
+
+export function formatProvisionalReceiptNumber(academicYear: string, tag: string, sequence: number): string {
+  return `RCP-${academicYear}-P${tag}-${String(sequence).padStart(6, '0')}`;
+}
+
+export function isProvisionalReceiptNumber(receiptNumber: string, academicYear?: string): boolean {
+  const match = PROVISIONAL_RECEIPT_PATTERN.exec(receiptNumber);
+  return !!match && (academicYear === undefined || match[1] === academicYear);
+}
+
+/**
+ * The receipt number a device issues next and its series afterwards. A device
+ * that has never been online has no code from the school yet, so it numbers
+ * receipts in a provisional series tagged with its own ID; once it has a code
+ * it starts its real series in its first reserved block. Numbers between the
+ * end of one block and the start of the next are stepped over, and once the
+ * blocks run out the series keeps counting.
+ */
+export function planNextReceipt(
+  academicYear: string,
+  device: { id: string; receiptCode?: number },
+  series: ReceiptSeriesState | undefined,
+  blocks: ReceiptBlockRange[]
+): { receiptNumber: string; series: ReceiptSeriesState } {
+  const deviceCode = device.receiptCode || PROVISIONAL_DEVICE_CODE;
+  const current = series && series.deviceCode === deviceCode
+    ? series
+    : { academicYear, deviceCode, nextNumber: 1 };
+
+  let sequence = current.nextNumber;
+  if (deviceCode === PROVISIONAL_DEVICE_CODE) {
+    return {
+      receiptNumber: formatProvisionalReceiptNumber(academicYear, provisionalReceiptTag(device.id), sequence),
+      series: { ...current, nextNumber: sequence + 1 },
+    };
+  }
+
+  const ownBlocks = blocks
+    .filter(block => block.deviceCode === deviceCode)
+    .sort((a, b) => a.start - b.start);
+  if (!ownBlocks.some(block => sequence >= block.start && sequence <= block.end)) {
+    const nextBlock = ownBlocks.find(block => block.start > sequence);
+    if (nextBlock) sequence = nextBlock.start;
+  }
+
+  return {
+    receiptNumber: formatReceiptNumber(academicYear, deviceCode, sequence),
+    series: { ...current, nextNumber: sequence + 1 },
+  };
+}
+
+/**
+ * Returns null for numbers outside the series, such as the older RCP-<time>-<random> format
+ */
+export function parseReceiptNumber(receiptNumber: string): ParsedReceiptNumber | null {
+  const match = RECEIPT_NUMBER_PATTERN.exec(receiptNumber);
+  if (!match) return null;
+  return {
+    academicYear: match[1],
+    deviceCode: Number(match[2]),
+    sequence: Number(match[3]),
+  };
+}
+
+/**
+ * Checks the issued receipt numbers of one academic year against the blocks
+ * each device reserved. Within a block, any number below the highest one
+ * issued that never appeared is a gap; the unused tail of a block is not.
+ */
+export function auditReceiptSeries(
+  academicYear: string,
+  blocks: ReceiptBlockRange[],
+  receiptNumbers: string[]
+): ReceiptSeriesAudit {
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  const unreserved: string[] = [];
+  const issuedByBlock = new Map<ReceiptBlockRange, number[]>();
+
+  receiptNumbers.forEach(receiptNumber => {
+    // Provisional numbers were issued before the device could reserve a block
+    if (isProvisionalReceiptNumber(receiptNumber, academicYear)) {
+      if (seen.has(receiptNumber)) duplicates.push(receiptNumber);
+      else unreserved.push(receiptNumber);
+      seen.add(receiptNumber);
+      return;
+    }
+
+    const parsed = parseReceiptNumber(receiptNumber);
+    if (!parsed || parsed.academicYear !== academicYear) return;
+
+    if (seen.has(receiptNumber)) {
+      duplicates.push(receiptNumber);
+      return;
+    }
+    seen.add(receiptNumber);
+
+    const block = blocks.find(b =>
+      b.deviceCode === parsed.deviceCode && parsed.sequence >= b.start && parsed.sequence <= b.end
+    );
+    if (!block) {
+      unreserved.push(receiptNumber);
+      return;
+    }
+    issuedByBlock.set(block, [...(issuedByBlock.get(block) || []), parsed.sequence]);
+  });
+
+  const gaps: ReceiptSeriesAudit['gaps'] = [];
+  Array.from(issuedByBlock.entries()).forEach(([block, sequences]) => {
+    const issued = new Set(sequences);
+    const highest = Math.max(...sequences);
+    let gapStart: number | null = null;
+
+    for (let n = block.start; n <= highest + 1; n++) {
+      if (n <= highest && !issued.has(n)) {
+        if (gapStart === null) gapStart = n;
+      } else if (gapStart !== null) {
+        gaps.push({ deviceCode: block.deviceCode, from: gapStart, to: n - 1 });
+        gapStart = null;
+      }
+    }
+  });
+
+  gaps.sort((a, b) => a.deviceCode - b.deviceCode || a.from - b.from);
+
+  return {
+    academicYear,
+    issued: seen.size,
+    gaps,
+    duplicates,
+    unreserved,
+  };
+}
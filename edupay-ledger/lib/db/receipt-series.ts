@@ -0,0 +1,109 @@
+/**
+ * Receipt Series
+ * Allocates this device's sequential receipt numbers from blocks reserved while online.
+ * Numbers carry the device code, so devices recording offline never collide.
+ */
+
+import { db, dbHelpers, DBReceiptBlock } from './index';
+import {
+  auditReceiptSeries,
+  planNextReceipt,
+  ReceiptSeriesAudit,
+  RECEIPT_BLOCK_REFILL_THRESHOLD,
+} from './receipt-numbers';
+
+export const receiptSeries = {
+  /**
+   * Takes the next number in this device's series for the year. Runs in its own
+   * transaction, or joins the caller's if that includes the receipt and device tables.
+   * Once the reserved blocks run out the series keeps counting; those numbers
+   * show up as unreserved in the audit until the device is back online. A device
+   * that has never been online issues provisional numbers until it gets its code.
+   */
+  async allocate(academicYear: string): Promise<string> {
+    return db.transaction('rw', [db.receiptSeries, db.receiptBlocks, db.devices], async () => {
+      const device = await dbHelpers.getLocalDevice();
+      const [series, blocks] = await Promise.all([
+        db.receiptSeries.get(academicYear),
+        device.receiptCode ? this.getBlocks(academicYear, device.receiptCode) : Promise.resolve([]),
+      ]);
+
+      const next = planNextReceipt(academicYear, device, series, blocks);
+      await db.receiptSeries.put(next.series);
+      return next.receiptNumber;
+    });
+  },
+
+  // Numbers left in this device's reserved blocks for the year
+  async getRemaining(academicYear: string): Promise<number> {
+    const device = await dbHelpers.getLocalDevice();
+    if (!device.receiptCode) return 0;
+
+    const [series, blocks] = await Promise.all([
+      db.receiptSeries.get(academicYear),
+      this.getBlocks(academicYear, device.receiptCode),
+    ]);
+    const nextNumber = series?.deviceCode === device.receiptCode ? series.nextNumber : 1;
+
+    return blocks
+      .filter(block => block.end >= nextNumber)
+      .reduce((sum, block) => sum + block.end - Math.max(block.start, nextNumber) + 1, 0);
+  },
+
+  async needsBlock(academicYear: string): Promise<boolean> {
+    return (await this.getRemaining(academicYear)) < RECEIPT_BLOCK_REFILL_THRESHOLD;
+  },
+
+  // First number a new block may start at without reusing one this device already issued
+  async getNextUnreserved(academicYear: string): Promise<number> {
+    const device = await dbHelpers.getLocalDevice();
+    const [series, blocks] = await Promise.all([
+      db.receiptSeries.get(academicYear),
+      device.receiptCode ? this.getBlocks(academicYear, device.receiptCode) : Promise.resolve([]),
+    ]);
+    const lastEnd = blocks.reduce((max, block) => Math.max(max, block.end), 0);
+    // A provisional series numbers separately and doesn't hold the real one back
+    const nextNumber = device.receiptCode && series?.deviceCode === device.receiptCode ? series.nextNumber : 1;
+    return Math.max(nextNumber, lastEnd + 1);
+  },
+
+  // Store a block reserved on the server, taking the device code it was issued under
+  async addReservedBlock(block: DBReceiptBlock) {
+    await db.transaction('rw', [db.receiptBlocks, db.receiptSeries, db.devices], async () => {
+      const device = await dbHelpers.getLocalDevice();
+      if (!device.receiptCode) {
+        await db.devices.update(device.id, { receiptCode: block.deviceCode });
+      }
+
+      await db.receiptBlocks.put(block);
+
+      // The device's first block ends any provisional series it started offline
+      const series = await db.receiptSeries.get(block.academicYear);
+      if (!series || series.deviceCode !== block.deviceCode) {
+        await db.receiptSeries.put({
+          academicYear: block.academicYear,
+          deviceCode: block.deviceCode,
+          nextNumber: block.start,
+        });
+      }
+    });
+  },
+
+  async getBlocks(academicYear: string, deviceCode?: number): Promise<DBReceiptBlock[]> {
+    const blocks = deviceCode === undefined
+      ? await db.receiptBlocks.filter(block => block.academicYear === academicYear).toArray()
+      : await db.receiptBlocks.where('[academicYear+deviceCode]').equals([academicYear, deviceCode]).toArray();
+    return blocks.sort((a, b) => a.deviceCode - b.deviceCode || a.start - b.start);
+  },
+
+  // Check every receipt number issued this year against the blocks the devices reserved
+  async audit(academicYear: string): Promise<ReceiptSeriesAudit> {
+    const [blocks, payments] = await Promise.all([
+      this.getBlocks(academicYear),
+      db.payments.toArray(),
+    ]);
+    return auditReceiptSeries(academicYear, blocks, payments.map(payment => payment.receiptNumber));
+  },
+};
+
+export default receiptSeries;
@@ -0,0 +1,167 @@
+/**
+ * Schema Alignment
+ * Brings local records written by older versions in line with the shared
+ * domain types, and checks stored student balances against the payments journal
+ */
+
+import type { PaymentChannel } from '../../types/payment';
+import type { PaymentStatus } from '../../types/student';
+
+// Payment method names stored locally before records used PaymentChannel
+export type LegacyPaymentMethod = 'mtn_momo' | 'airtel_money';
+
+const LEGACY_PAYMENT_METHODS: Record<string, PaymentChannel> = {
+  mtn_momo: 'momo_mtn',
+  airtel_money: 'momo_airtel',
+  mobile_money: 'momo_mtn',
+  bank: 'bank_transfer',
+};
+
+const PAYMENT_CHANNELS: PaymentChannel[] = ['momo_mtn', 'momo_airtel', 'bank_transfer', 'cash', 'cheque', 'other'];
+
+export function toPaymentChannel(value: string | undefined): PaymentChannel {
+  if (value && (PAYMENT_CHANNELS as string[]).includes(value)) return value as PaymentChannel;
+  return (value && LEGACY_PAYMENT_METHODS[value]) || 'other';
+}
+
+export function derivePaymentStatus(totalFees: number, amountPaid: number, balance: number): PaymentStatus {
+  if (totalFees > 0 && balance <= 0) return 'fully_paid';
+  return amountPaid > 0 ? 'partial' : 'no_payment';
+}
+
+/**
+ * Renames paidAmount to amountPaid and fills in the balance and payment
+ * status where an older version left them out. Students written with a
+ * nested guardian get its message language and channel copied onto the
+ * student. Safe to run more than once.
+ */
+export function alignStudentRecord(record: Record<string, any>): Record<string, any> {
+  const { paidAmount, ...rest } = record;
+  const totalFees = rest.totalFees ?? 0;
+  const amountPaid = rest.amountPaid ?? paidAmount ?? 0;
+  const balance = rest.balance ?? totalFees - amountPaid;
+  const guardianLanguage = rest.guardianLanguage ?? rest.guardian?.preferredLanguage;
+  const guardianChannel = rest.guardianChannel ?? rest.guardian?.preferredChannel;
+
+  return {
+    ...rest,
+    totalFees,
+    amountPaid,
+    balance,
+    paymentStatus: rest.paymentStatus ?? derivePaymentStatus(totalFees, amountPaid, balance),
+    // Firestore refuses undefined fields, so these are only set when known
+    ...(guardianLanguage && { guardianLanguage }),
+    ...(guardianChannel && { guardianChannel }),
+  };
+}
+
+// Renames paymentMethod to channel, using the PaymentChannel names
+export function alignPaymentRecord(record: Record<string, any>): Record<string, any> {
+  const { paymentMethod, ...rest } = record;
+
+  return {
+    ...rest,
+    channel: toPaymentChannel(rest.channel ?? paymentMethod),
+    status: rest.status ?? 'completed',
+  };
+}
+
+// Field names changed by the alignment, for sync bookkeeping that refers to fields by name
+export const RENAMED_FIELDS: Record<string, Record<string, string>> = {
+  students: { paidAmount: 'amountPaid' },
+  payments: { paymentMethod: 'channel' },
+};
+
+export interface LedgerIntegrityIssue {
+  kind: 'paid_mismatch' | 'balance_mismatch' | 'missing_student' | 'missing_journal_entry';
+  table: 'students' | 'payments';
+  recordId: string;
+  label: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface LedgerIntegrityReport {
+  checkedAt: string;
+  studentsChecked: number;
+  paymentsChecked: number;
+  issues: LedgerIntegrityIssue[];
+}
+
+interface IntegrityStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  totalFees: number;
+  amountPaid: number;
+  balance: number;
+}
+
+interface IntegrityPayment {
+  id: string;
+  receiptNumber: string;
+  studentId: string;
+  journalEntryId?: string;
+}
+
+interface IntegrityJournalEntry {
+  id: string;
+  studentId: string;
+  amount: number;
+}
+
+/**
+ * Recomputes every student's paid amount from the journal and reports the
+ * records that don't add up: cached totals that disagree with the journal,
+ * balances that don't equal fees less payments, and payments that point at
+ * a missing student or journal entry
+ */
+export function checkLedgerIntegrity(
+  students: IntegrityStudent[],
+  payments: IntegrityPayment[],
+  journal: IntegrityJournalEntry[],
+  checkedAt: string = new Date().toISOString()
+): LedgerIntegrityReport {
+  const issues: LedgerIntegrityIssue[] = [];
+  const journalTotals = new Map<string, number>();
+  journal.forEach(entry => {
+    journalTotals.set(entry.studentId, (journalTotals.get(entry.studentId) || 0) + entry.amount);
+  });
+  const journalIds = new Set(journal.map(entry => entry.id));
+  const studentIds = new Set(students.map(student => student.id));
+
+  students.forEach(student => {
+    const label = `${student.firstName} ${student.lastName}`;
+    const paid = journalTotals.get(student.id) || 0;
+
+    if (paid !== student.amountPaid) {
+      issues.push({ kind: 'paid_mismatch', table: 'students', recordId: student.id, label, expected: paid, actual: student.amountPaid });
+    }
+    if (student.balance !== student.totalFees - student.amountPaid) {
+      issues.push({
+        kind: 'balance_mismatch',
+        table: 'students',
+        recordId: student.id,
+        label,
+        expected: student.totalFees - student.amountPaid,
+        actual: student.balance,
+      });
+    }
+  });
+
+  payments.forEach(payment => {
+    if (!studentIds.has(payment.studentId)) {
+      issues.push({ kind: 'missing_student', table: 'payments', recordId: payment.id, label: payment.receiptNumber });
+    }
+    if (!payment.journalEntryId || !journalIds.has(payment.journalEntryId)) {
+      issues.push({ kind: 'missing_journal_entry', table: 'payments', recordId: payment.id, label: payment.receiptNumber });
+    }
+  });
+
+  return {
+    checkedAt,
+    studentsChecked: students.length,
+    paymentsChecked: payments.length,
+    issues,
+  };
+}
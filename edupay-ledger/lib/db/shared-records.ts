@@ -0,0 +1,153 @@
+/**
+ * Shared Records
+ * Payments and students reach the school's collections (schools/{schoolId}/...)
+ * through the sync queue, in the shape this device stores them. These read
+ * them back as the Payment and Student types the screens and reports use.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { isTombstone } from '../sync/tombstones';
+import { derivePaymentStatus } from './schema-alignment';
+import type { DBPayment, DBStudent } from './index';
+import type { Payment, PaymentRecordStatus } from '../../types/payment';
+import type { InstallmentProgress, Student } from '../../types/student';
+
+export type SharedCollection = 'payments' | 'students';
+
+// A query snapshot document, or a record already read out of one (fetchCollection, subscribeToCollection)
+export type SharedDoc = { id: string; data(): unknown } | { id: string };
+
+const RECORD_STATUSES: Record<DBPayment['status'], PaymentRecordStatus> = {
+  completed: 'cleared',
+  pending: 'pending',
+  cancelled: 'reversed',
+  refunded: 'reversed',
+  bounced: 'failed',
+};
+
+export function schoolCollectionPath(schoolId: string, name: SharedCollection): string {
+  return `schools/${schoolId}/${name}`;
+}
+
+// A completed payment by cheque is still pending until the cheque clears
+export function toRecordStatus(payment: Pick<DBPayment, 'status' | 'cheque'>): PaymentRecordStatus {
+  const status = RECORD_STATUSES[payment.status] ?? 'pending';
+  if (status === 'cleared' && payment.cheque && payment.cheque.status !== 'cleared') return 'pending';
+  return status;
+}
+
+// The stored statuses a PaymentRecordStatus filter matches, for where('status', 'in', ...)
+export function sharedStatusesFor(status: PaymentRecordStatus): DBPayment['status'][] {
+  return (Object.keys(RECORD_STATUSES) as DBPayment['status'][])
+    .filter(stored => RECORD_STATUSES[stored] === status);
+}
+
+// Stored dates are ISO strings; records from older versions may still hold Timestamps
+export function toTimestamp(value: unknown): Timestamp | undefined {
+  if (!value) return undefined;
+  if (typeof (value as Timestamp).toDate === 'function') return value as Timestamp;
+  if (typeof value === 'object' && typeof (value as { seconds?: unknown }).seconds === 'number') {
+    return Timestamp.fromDate(new Date((value as { seconds: number }).seconds * 1000));
+  }
+  if (typeof value === 'string' || value instanceof Date) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : Timestamp.fromDate(date);
+  }
+  return undefined;
+}
+
+export function toPayment(record: DBPayment, schoolId: string, studentClass: string = ''): Payment {
+  const createdAt = toTimestamp(record.createdAt) ?? Timestamp.now();
+  return {
+    id: record.id,
+    receiptNumber: record.receiptNumber,
+    transactionRef: record.transactionRef || '',
+    studentId: record.studentId,
+    studentName: record.studentName,
+    studentClass,
+    schoolId,
+    amount: record.amount,
+    currency: 'UGX',
+    channel: record.channel,
+    installmentId: record.installmentId || '',
+    installmentName: record.installmentName || '',
+    creditAmount: record.creditAmount,
+    cheque: record.cheque,
+    status: toRecordStatus(record),
+    stellarTxHash: record.stellarTxHash,
+    stellarAnchored: !!record.stellarTxHash,
+    proofHash: record.proofHash,
+    proofTimestamp: record.proofTimestamp,
+    anchorBatchId: record.anchorBatchId,
+    merkleRoot: record.merkleRoot,
+    merkleProof: record.merkleProof,
+    recordedBy: record.recordedBy,
+    recordedAt: toTimestamp(record.paymentDate) ?? createdAt,
+    notes: record.notes,
+    createdAt,
+    updatedAt: toTimestamp(record.updatedAt) ?? createdAt,
+  };
+}
+
+export function toStudent(record: DBStudent, schoolId: string): Student {
+  const createdAt = toTimestamp(record.createdAt) ?? Timestamp.now();
+  return {
+    id: record.id,
+    studentId: record.studentId,
+    firstName: record.firstName,
+    lastName: record.lastName,
+    middleName: record.otherNames,
+    dateOfBirth: toTimestamp(record.dateOfBirth),
+    gender: record.gender,
+    schoolId,
+    classId: record.className,
+    className: record.className,
+    streamName: record.streamName,
+    enrollmentDate: toTimestamp(record.admissionDate) ?? createdAt,
+    status: record.status,
+    guardian: {
+      name: record.guardianName,
+      relationship: 'guardian',
+      phone: record.guardianPhone,
+      alternatePhone: record.guardianAlternatePhone,
+      email: record.guardianEmail,
+      address: record.address,
+      preferredLanguage: record.guardianLanguage,
+      preferredChannel: record.guardianChannel,
+    },
+    totalFees: record.totalFees,
+    amountPaid: record.amountPaid,
+    balance: record.balance,
+    scholarshipAmount: record.scholarshipAmount,
+    currentInstallment: record.currentInstallment,
+    installmentProgress: record.installmentProgress?.map(progress => ({
+      ...progress,
+      deadline: toTimestamp(progress.deadline) ?? createdAt,
+      completedAt: toTimestamp(progress.completedAt),
+    }) as InstallmentProgress),
+    paymentStatus: record.paymentStatus ?? derivePaymentStatus(record.totalFees, record.amountPaid, record.balance),
+    lastPaymentDate: toTimestamp(record.lastPaymentDate),
+    createdAt,
+    updatedAt: toTimestamp(record.updatedAt) ?? createdAt,
+  } as Student;
+}
+
+function recordOf<T>(doc: SharedDoc): T {
+  const data = 'data' in doc && typeof doc.data === 'function' ? doc.data() : doc;
+  return { ...(data as T), id: doc.id };
+}
+
+// Deleted records stay in the collection as tombstones and are left out
+export function readPayments(docs: SharedDoc[], schoolId: string): Payment[] {
+  return docs
+    .map(doc => recordOf<DBPayment>(doc))
+    .filter(record => !isTombstone(record))
+    .map(record => toPayment(record, schoolId));
+}
+
+export function readStudents(docs: SharedDoc[], schoolId: string): Student[] {
+  return docs
+    .map(doc => recordOf<DBStudent>(doc))
+    .filter(record => !isTombstone(record))
+    .map(record => toStudent(record, schoolId));
+}
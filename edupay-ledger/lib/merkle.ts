@@ -0,0 +1,78 @@
+/**
+ * Merkle Trees for Stellar Anchoring
+ * Many payment hashes are combined into one root so a single Stellar
+ * transaction anchors a whole batch. Each payment keeps the sibling hashes
+ * (its inclusion proof) needed to rebuild the root from its own hash.
+ */
+
+import CryptoJS from 'crypto-js';
+
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right'; // Side the sibling sits on
+}
+
+// Leaves and inner nodes are hashed under different prefixes, so a pair of
+// leaves can never be passed off as a single leaf
+function hashLeaf(leaf: string): string {
+  return CryptoJS.SHA256(`leaf:${leaf}`).toString();
+}
+
+function hashNode(left: string, right: string): string {
+  return CryptoJS.SHA256(`node:${left}${right}`).toString();
+}
+
+// Every level of the tree, leaves first. A node without a sibling moves up unchanged.
+function buildLevels(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const levels = [leaves.map(hashLeaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function computeMerkleRoot(leaves: string[]): string {
+  const levels = buildLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+// The root and every leaf's inclusion proof, in leaf order
+export function buildMerkleProofs(leaves: string[]): { root: string; proofs: MerkleProofStep[][] } {
+  const levels = buildLevels(leaves);
+
+  const proofs = leaves.map((_, leafIndex) => {
+    const proof: MerkleProofStep[] = [];
+    let index = leafIndex;
+    for (const level of levels.slice(0, -1)) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+      if (siblingIndex < level.length) {
+        proof.push({ hash: level[siblingIndex], position: index % 2 === 0 ? 'right' : 'left' });
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  });
+
+  return { root: levels[levels.length - 1][0], proofs };
+}
+
+// Rebuilds the root from one leaf and its proof
+export function computeRootFromProof(leaf: string, proof: MerkleProofStep[]): string {
+  return proof.reduce(
+    (hash, step) => (step.position === 'left' ? hashNode(step.hash, hash) : hashNode(hash, step.hash)),
+    hashLeaf(leaf)
+  );
+}
+
+export function verifyMerkleProof(leaf: string, proof: MerkleProofStep[], root: string): boolean {
+  return computeRootFromProof(leaf, proof) === root;
+}
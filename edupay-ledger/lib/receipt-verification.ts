@@ -0,0 +1,197 @@
+/**
+ * Receipt Verification
+ * The code printed on every receipt, and the check that decides whether a
+ * receipt matches the school's payment record and the hash anchored on Stellar
+ */
+
+import { computeRootFromProof, MerkleProofStep } from './merkle';
+import { createPaymentHash, PaymentProof } from './stellar';
+import type { DBPayment } from './db';
+import type { PaymentRecordStatus } from '../types/payment';
+import type { ChequeStatus } from '../types/cheque';
+
+// 'void' receipts match the record but the payment was cancelled, refunded or
+// bounced; 'uncleared' ones are for payments the school has not received yet;
+// 'unanchored' ones match a record that is not on Stellar yet, so only the
+// school's word backs them
+export type ReceiptVerificationStatus = 'authentic' | 'void' | 'uncleared' | 'unanchored' | 'altered' | 'unknown';
+
+// What the receipt's QR code carries
+export interface ReceiptVerificationCode {
+  schoolId: string;
+  receiptNumber: string;
+  proofHash: string;
+}
+
+// The parts of a stored payment the check needs
+export interface VerifiablePayment {
+  id: string;
+  receiptNumber: string;
+  studentId: string;
+  studentName: string;
+  amount: number;
+  currency?: string;
+  transactionRef?: string;
+  paymentDate: string;
+  status?: DBPayment['status'] | PaymentRecordStatus; // Local records and the school's shared records name these differently
+  cheque?: { status: ChequeStatus };
+  proofHash?: string;
+  proofTimestamp?: string;
+  merkleProof?: MerkleProofStep[];
+  stellarTxHash?: string;
+}
+
+export interface ReceiptVerificationResult {
+  status: ReceiptVerificationStatus;
+  checkedAgainst: 'stellar' | 'local' | 'none';
+  reason: string;
+  payment?: {
+    receiptNumber: string;
+    studentName: string;
+    amount: number;
+    paymentDate: string;
+    stellarTxHash?: string;
+  };
+}
+
+export const VERIFY_PATH = '/verify';
+
+export function buildVerificationUrl(code: ReceiptVerificationCode, baseUrl: string): string {
+  const params = new URLSearchParams({ s: code.schoolId, r: code.receiptNumber, h: code.proofHash });
+  return `${baseUrl.replace(/\/$/, '')}${VERIFY_PATH}?${params.toString()}`;
+}
+
+// Reads the code from a verification URL or its query string
+export function parseVerificationCode(value: string | URLSearchParams): ReceiptVerificationCode | null {
+  let params = value;
+  if (typeof value === 'string') {
+    const query = value.includes('?') ? value.slice(value.indexOf('?') + 1) : value;
+    params = new URLSearchParams(query);
+  }
+
+  const search = params as URLSearchParams;
+  const schoolId = search.get('s')?.trim();
+  const receiptNumber = search.get('r')?.trim();
+  const proofHash = search.get('h')?.trim().toLowerCase();
+
+  if (!schoolId || !receiptNumber || !proofHash || !/^[0-9a-f]{64}$/.test(proofHash)) return null;
+  return { schoolId, receiptNumber, proofHash };
+}
+
+// The proof the payment was hashed with when it joined its anchor batch
+export function rebuildPaymentProof(payment: VerifiablePayment, schoolId: string): PaymentProof | null {
+  if (!payment.proofTimestamp) return null;
+  return {
+    paymentId: payment.id,
+    studentId: payment.studentId,
+    schoolId,
+    amount: payment.amount,
+    currency: payment.currency || 'UGX',
+    timestamp: payment.proofTimestamp,
+    transactionRef: payment.transactionRef || '',
+    receiptNumber: payment.receiptNumber,
+  };
+}
+
+// Why a payment whose receipt matches its record still doesn't count, if it doesn't
+function describeStanding(payment: VerifiablePayment): { status: 'void' | 'uncleared'; reason: string } | null {
+  switch (payment.status) {
+    case 'cancelled':
+      return { status: 'void', reason: 'This receipt was cancelled. The payment does not count towards the student\'s fees.' };
+    case 'refunded':
+      return { status: 'void', reason: 'The payment on this receipt was refunded.' };
+    case 'bounced':
+      return { status: 'void', reason: 'The cheque for this receipt was returned unpaid and the payment reversed.' };
+    case 'reversed':
+    case 'failed':
+      return { status: 'void', reason: 'The payment on this receipt was reversed.' };
+    case 'pending':
+      return { status: 'uncleared', reason: 'The receipt matches the school\'s record, but the payment has not been confirmed yet.' };
+  }
+  if (payment.cheque && payment.cheque.status !== 'cleared') {
+    return { status: 'uncleared', reason: 'The receipt matches the school\'s record, but the cheque has not cleared yet.' };
+  }
+  return null;
+}
+
+/**
+ * Recomputes the payment's hash and checks it against the receipt's code,
+ * the hash stored with the payment and, when it could be fetched, the Merkle
+ * root anchored on Stellar. A payment not yet anchored is reported as such;
+ * one whose anchor could not be fetched falls back to the record. A genuine
+ * receipt for a payment that was reversed, or has not cleared, is reported as
+ * such rather than as authentic. sharedRecordsChecked is false when the
+ * school's records could not be reached, so a missing payment proves nothing.
+ */
+export function assessReceipt(
+  code: ReceiptVerificationCode,
+  payment: VerifiablePayment | null,
+  anchoredRoot?: string | null,
+  sharedRecordsChecked: boolean = true
+): ReceiptVerificationResult {
+  if (!payment) {
+    return {
+      status: 'unknown',
+      checkedAgainst: 'none',
+      reason: sharedRecordsChecked
+        ? `No payment with receipt number ${code.receiptNumber} was found`
+        : 'The school\'s payment records could not be reached. Connect to the internet and try again.',
+    };
+  }
+
+  const summary = {
+    receiptNumber: payment.receiptNumber,
+    studentName: payment.studentName,
+    amount: payment.amount,
+    paymentDate: payment.paymentDate,
+    stellarTxHash: payment.stellarTxHash,
+  };
+
+  const proof = rebuildPaymentProof(payment, code.schoolId);
+  if (!proof || !payment.proofHash) {
+    return {
+      status: 'unknown',
+      checkedAgainst: 'none',
+      reason: 'This payment was recorded before receipts carried a verification code',
+      payment: summary,
+    };
+  }
+
+  const hash = createPaymentHash(proof);
+  if (hash !== payment.proofHash) {
+    return { status: 'altered', checkedAgainst: 'local', reason: 'The payment record has changed since the receipt was issued', payment: summary };
+  }
+  if (hash !== code.proofHash) {
+    return { status: 'altered', checkedAgainst: 'local', reason: 'The code on this receipt does not match the payment record', payment: summary };
+  }
+
+  if (anchoredRoot && payment.merkleProof && computeRootFromProof(hash, payment.merkleProof) !== anchoredRoot) {
+    return { status: 'altered', checkedAgainst: 'stellar', reason: 'The payment does not match the hash anchored on Stellar', payment: summary };
+  }
+  const checkedAgainst = anchoredRoot && payment.merkleProof ? 'stellar' : 'local';
+
+  const standing = describeStanding(payment);
+  if (standing) {
+    return { ...standing, checkedAgainst, payment: summary };
+  }
+
+  if (checkedAgainst === 'stellar') {
+    return { status: 'authentic', checkedAgainst, reason: 'Matches the hash anchored on Stellar', payment: summary };
+  }
+
+  if (!payment.stellarTxHash || !payment.merkleProof) {
+    return {
+      status: 'unanchored',
+      checkedAgainst: 'local',
+      reason: 'The receipt matches the school\'s payment record, but the payment has not been anchored on Stellar yet. Check again later to confirm it independently.',
+      payment: summary,
+    };
+  }
+
+  return {
+    status: 'authentic',
+    checkedAgainst: 'local',
+    reason: 'Matches the school\'s payment record. Stellar could not be reached to check the anchored hash.',
+    payment: summary,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Reconciliation Close-Out
+ * Builds the bank reconciliation statement that ties the statement's closing
+ * balance back to the receipts recorded in the system
+ */
+
+import {
+  BankTransaction,
+  ReconciliationSession,
+  ReconciliationStatement,
+  ReconciliationStatementItem,
+  ReconciliationStatus,
+  STATEMENT_SOURCE_CHANNELS,
+  StatementSource,
+} from '../../types/bank-reconciliation';
+import type { PaymentChannel } from '../../types/payment';
+
+export interface StatementReceipt {
+  id: string;
+  date: Date;
+  reference: string;
+  description: string;
+  amount: number;
+  channel?: PaymentChannel;
+  isReconciled: boolean;
+}
+
+export interface ReconciliationStatementInput {
+  session: Pick<ReconciliationSession,
+    'id' | 'bankAccountName' | 'bankAccountNumber' | 'source' | 'statementPeriodStart' | 'statementPeriodEnd'>;
+  openingBalance: number;
+  closingBalance: number;
+  transactions: (BankTransaction & { status: ReconciliationStatus })[];
+  receipts: StatementReceipt[];
+  preparedBy: string;
+  preparedByName: string;
+  preparedAt?: Date;
+  notes?: string;
+}
+
+// Receipts taken on a mobile money merchant account never reach the bank statement
+export function isReceiptForSource(channel: PaymentChannel | undefined, source: StatementSource): boolean {
+  if (source === 'bank') {
+    return channel !== STATEMENT_SOURCE_CHANNELS.mtn_momo && channel !== STATEMENT_SOURCE_CHANNELS.airtel_money;
+  }
+  return channel === STATEMENT_SOURCE_CHANNELS[source];
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function total(items: ReconciliationStatementItem[]): number {
+  return round(items.reduce((sum, item) => sum + item.amount, 0));
+}
+
+function toItem(tx: BankTransaction): ReconciliationStatementItem {
+  return {
+    id: tx.id,
+    date: tx.transactionDate,
+    reference: tx.reference,
+    description: tx.description,
+    amount: tx.amount,
+  };
+}
+
+/**
+ * Works out the opening and closing balance from the running balance column,
+ * when the statement has one
+ */
+export function deriveStatementBalances(
+  transactions: BankTransaction[]
+): { openingBalance?: number; closingBalance?: number } {
+  const withBalance = transactions
+    .filter(tx => tx.balance !== 0)
+    .sort((a, b) => new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime());
+  if (withBalance.length === 0) return {};
+
+  const first = withBalance[0];
+  const last = withBalance[withBalance.length - 1];
+  return {
+    openingBalance: round(first.balance - (first.type === 'credit' ? first.amount : -first.amount)),
+    closingBalance: last.balance,
+  };
+}
+
+/**
+ * Builds the statement. Starting from the opening balance it adds the
+ * receipts recorded for the account, takes off those not yet on the
+ * statement, adds statement credits the system has no receipt for and
+ * takes off the debits. Whatever is left against the statement's closing
+ * balance is the unexplained difference.
+ */
+export function buildReconciliationStatement(input: ReconciliationStatementInput): ReconciliationStatement {
+  const { session, transactions } = input;
+  const source = session.source || 'bank';
+
+  const receipts = input.receipts.filter(receipt => isReceiptForSource(receipt.channel, source));
+  const unpresentedItems = receipts
+    .filter(receipt => !receipt.isReconciled)
+    .map(({ id, date, reference, description, amount }) => ({ id, date, reference, description, amount }));
+
+  const credits = transactions.filter(tx => tx.type === 'credit');
+  const unmatchedCredits = credits
+    .filter(tx => tx.status !== 'matched' && tx.status !== 'manual_match' && tx.status !== 'ignored')
+    .map(toItem);
+  const otherCredits = credits.filter(tx => tx.status === 'ignored').map(toItem);
+  const debits = transactions.filter(tx => tx.type === 'debit').map(toItem);
+
+  const systemReceiptsTotal = round(receipts.reduce((sum, receipt) => sum + receipt.amount, 0));
+  const unpresentedTotal = total(unpresentedItems);
+  const unmatchedCreditsTotal = total(unmatchedCredits);
+  const otherCreditsTotal = total(otherCredits);
+  const debitsTotal = total(debits);
+
+  const reconciledBalance = round(
+    input.openingBalance + systemReceiptsTotal - unpresentedTotal + unmatchedCreditsTotal + otherCreditsTotal - debitsTotal
+  );
+
+  return {
+    sessionId: session.id,
+    bankAccountName: session.bankAccountName,
+    bankAccountNumber: session.bankAccountNumber,
+    source,
+    periodStart: session.statementPeriodStart,
+    periodEnd: session.statementPeriodEnd,
+    openingBalance: input.openingBalance,
+    systemReceiptsTotal,
+    systemReceiptsCount: receipts.length,
+    unpresentedItems,
+    unpresentedTotal,
+    unmatchedCredits,
+    unmatchedCreditsTotal,
+    otherCredits,
+    otherCreditsTotal,
+    debits,
+    debitsTotal,
+    reconciledBalance,
+    statementClosingBalance: input.closingBalance,
+    difference: round(input.closingBalance - reconciledBalance),
+    preparedBy: input.preparedBy,
+    preparedByName: input.preparedByName,
+    preparedAt: input.preparedAt || new Date(),
+    ...(input.notes && { notes: input.notes }),
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Posting Bank Credits as Payments
+ * Guesses which student an unmatched statement credit was paid for and
+ * prefills the payment it should be recorded as
+ */
+
+import {
+  BankTransaction,
+  PayerMapping,
+  STATEMENT_SOURCE_CHANNELS,
+} from '../../types/bank-reconciliation';
+import type { PaymentRecordInput } from '../../types/payment';
+import { fuzzyNameScore, getPayerKey } from './matcher';
+
+export interface StudentCandidate {
+  id: string;
+  studentNumber: string; // e.g. EDU-2023-045-KC
+  name: string;
+  guardianName?: string;
+  guardianPhones: string[];
+  balance: number;
+}
+
+export interface StudentGuess {
+  studentId: string;
+  studentName: string;
+  confidence: number;
+  reasons: string[];
+}
+
+// A guess this sure, and clearly ahead of the next, is posted without review in bulk
+export const AUTO_POST_CONFIDENCE = 80;
+const AUTO_POST_MARGIN = 20;
+
+function compact(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function scoreStudent(
+  tx: BankTransaction,
+  student: StudentCandidate,
+  mapping: PayerMapping | undefined
+): StudentGuess {
+  let confidence = 0;
+  const reasons: string[] = [];
+
+  const studentNumber = compact(student.studentNumber);
+  const narration = compact(`${tx.reference} ${tx.description}`);
+  if (studentNumber && (compact(tx.studentReference || '') === studentNumber || narration.includes(studentNumber))) {
+    confidence += 80;
+    reasons.push('Student ID in payment reference');
+  }
+
+  if (mapping?.studentIds.includes(student.id)) {
+    // A payer who pays for several children points less surely at any one
+    confidence += mapping.studentIds.length === 1 ? 40 : 25;
+    reasons.push('Payer previously matched to this student');
+  }
+
+  if (tx.payerMsisdn && student.guardianPhones.includes(tx.payerMsisdn)) {
+    confidence += 35;
+    reasons.push('Payer phone matches guardian');
+  }
+
+  const nameText = [tx.payerName, tx.description].filter(Boolean).join(' ');
+  const studentScore = fuzzyNameScore(nameText, student.name);
+  if (studentScore >= 0.9) {
+    confidence += 30;
+    reasons.push('Student name in narration');
+  } else if (studentScore >= 0.75) {
+    confidence += 20;
+    reasons.push('Student name closely matches narration');
+  }
+
+  if (student.guardianName) {
+    const guardianScore = fuzzyNameScore(nameText, student.guardianName);
+    if (guardianScore >= 0.9) {
+      confidence += 20;
+      reasons.push('Guardian name in narration');
+    } else if (guardianScore >= 0.75) {
+      confidence += 10;
+      reasons.push('Guardian name closely matches narration');
+    }
+  }
+
+  if (confidence > 0 && student.balance === tx.amount) {
+    confidence += 10;
+    reasons.push('Amount clears the balance');
+  }
+
+  return {
+    studentId: student.id,
+    studentName: student.name,
+    confidence: Math.min(100, confidence),
+    reasons,
+  };
+}
+
+/**
+ * Ranks the students a credit may have been paid for, using the student ID
+ * in the reference, the payer's history, the guardian's phone and the names
+ * in the narration
+ */
+export function guessStudentsForCredit(
+  tx: BankTransaction,
+  students: StudentCandidate[],
+  mappings: Record<string, PayerMapping> = {},
+  limit: number = 5
+): StudentGuess[] {
+  const key = getPayerKey(tx);
+  const mapping = key ? mappings[key] : undefined;
+
+  return students
+    .map(student => scoreStudent(tx, student, mapping))
+    .filter(guess => guess.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+// The guess bulk posting may use, or null when the credit needs a person to decide
+export function pickConfidentGuess(guesses: StudentGuess[]): StudentGuess | null {
+  const [best, next] = guesses;
+  if (!best || best.confidence < AUTO_POST_CONFIDENCE) return null;
+  if (next && best.confidence - next.confidence < AUTO_POST_MARGIN) return null;
+  return best;
+}
+
+export function buildCreditPayment(tx: BankTransaction, studentId: string): PaymentRecordInput {
+  return {
+    studentId,
+    amount: tx.amount,
+    channel: STATEMENT_SOURCE_CHANNELS[tx.source || 'bank'],
+    transactionRef: tx.reference,
+    installmentId: '',
+    notes: `Posted from statement credit of ${tx.transactionDate.toLocaleDateString('en-UG')}: ${tx.description}`,
+  };
+}
+
+/**
+ * The ID of the payment a credit is posted as. Taken from the credit, so a
+ * posting retried after a failure finds the payment its first attempt
+ * recorded instead of recording another.
+ */
+export function creditPaymentId(bankTransactionId: string): string {
+  return `PAY-BANK-${bankTransactionId}`;
+}
+
+export type CreditPostingPlan =
+  | { action: 'record' }
+  | { action: 'resume'; paymentId: string } // Recorded already; only the match is left to write
+  | { action: 'reject'; error: string };
+
+/**
+ * Whether a statement credit can be posted as a payment of this amount.
+ * posted is the payment already recorded under the credit's payment ID,
+ * if any: one whose match never reached the statement is matched again
+ * rather than recorded twice.
+ */
+export function planCreditPosting(
+  credit: { type: string; status: string; amount: number } | undefined,
+  amount: number,
+  posted?: { id: string; status: string }
+): CreditPostingPlan {
+  if (!credit || credit.type !== 'credit') {
+    return { action: 'reject', error: 'Only statement credits can be posted as payments' };
+  }
+  if (credit.status !== 'unmatched' && credit.status !== 'pending') {
+    return { action: 'reject', error: 'This credit is already matched or ignored' };
+  }
+  if (posted) {
+    return posted.status === 'completed' || posted.status === 'pending'
+      ? { action: 'resume', paymentId: posted.id }
+      : { action: 'reject', error: `The payment posted from this credit was ${posted.status}` };
+  }
+  if (amount !== credit.amount) {
+    return { action: 'reject', error: 'The payment must be for the full amount of the credit' };
+  }
+  return { action: 'record' };
+}
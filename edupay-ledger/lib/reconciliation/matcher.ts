@@ -0,0 +1,378 @@
+/**
+ * Reconciliation Matcher
+ * Scores bank credits against recorded payments, including one transfer that
+ * pays for several students (split), several transfers that make up one
+ * payment (aggregate), misspelt names in bank narrations, and payers the
+ * school has matched by hand before
+ */
+
+import {
+  BankTransaction,
+  calculateMatchConfidence,
+  MatchKind,
+  PayerMapping,
+} from '../../types/bank-reconciliation';
+
+// A recorded payment, with what is known about its student
+export interface MatchCandidate {
+  id: string;
+  amount: number;
+  date: Date;
+  reference?: string;
+  studentId: string;
+  studentName: string;
+  studentNumber?: string;
+  guardianPhones?: string[];
+}
+
+export interface MatchProposal {
+  kind: MatchKind;
+  bankTransactionIds: string[];
+  paymentIds: string[];
+  confidence: number;
+  reasons: string[];
+}
+
+export const AUTO_MATCH_CONFIDENCE = 80;
+export const SUGGESTION_CONFIDENCE = 30;
+
+// Split and aggregate matches look at this many parts at most
+const MAX_PARTS = 3;
+// Candidates considered for a split or aggregate, nearest in date first
+const MAX_COMBINATION_POOL = 15;
+const COMBINATION_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words banks and networks add to narrations that say nothing about the payer
+const NARRATION_NOISE = [
+  'TRF', 'TRANSFER', 'DEPOSIT', 'CASH', 'MOBILE', 'MONEY', 'MOMO', 'MTN', 'AIRTEL', 'REF', 'FROM', 'TO',
+  'PAYMENT', 'PAY', 'FEES', 'FEE', 'SCHOOL', 'TERM', 'EFT', 'RTGS', 'CHQ', 'CHEQUE', 'BY', 'FOR', 'AND', 'THE',
+];
+
+// ============================================
+// NAMES
+// ============================================
+
+function tokenize(text: string): string[] {
+  return text.toUpperCase().replace(/[^A-Z\s]/g, ' ').split(/\s+/).filter(token => token.length >= 3);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * How closely a narration names the student, from 0 to 1: each part of the
+ * name is paired with its closest word in the narration, so "NAMUBIRU SARA"
+ * still finds Sarah Namubiru
+ */
+export function fuzzyNameScore(narration: string, studentName: string): number {
+  const nameTokens = tokenize(studentName);
+  const narrationTokens = tokenize(narration);
+  if (nameTokens.length === 0 || narrationTokens.length === 0) return 0;
+
+  const best = nameTokens
+    .map(part => Math.max(...narrationTokens.map(word => tokenSimilarity(part, word))))
+    .sort((a, b) => b - a);
+
+  // First and last name carry the match; a missing middle name should not
+  const counted = best.slice(0, 2);
+  return counted.reduce((sum, score) => sum + score, 0) / counted.length;
+}
+
+function surnameOf(studentName: string): string {
+  const tokens = tokenize(studentName);
+  return tokens[tokens.length - 1] || '';
+}
+
+// ============================================
+// PAYERS
+// ============================================
+
+/**
+ * Identifies who sent a credit, so later credits from the same payer can be
+ * tied to the students they paid for before: the phone number for mobile
+ * money, otherwise the narration without dates, amounts and banking words
+ */
+export function getPayerKey(tx: Pick<BankTransaction, 'payerMsisdn' | 'description'>): string | null {
+  if (tx.payerMsisdn) return `msisdn:${tx.payerMsisdn}`;
+  const words = tokenize(tx.description).filter(word => !NARRATION_NOISE.includes(word));
+  return words.length > 0 ? `narration:${words.join(' ')}` : null;
+}
+
+// Adds a manual match decision to what is known about the payer
+export function learnPayerMapping(
+  existing: PayerMapping | undefined,
+  key: string,
+  students: { studentId: string; studentName: string }[],
+  now: Date = new Date()
+): PayerMapping {
+  const studentIds = existing ? [...existing.studentIds] : [];
+  const studentNames = existing ? [...existing.studentNames] : [];
+  students.forEach(student => {
+    if (!studentIds.includes(student.studentId)) {
+      studentIds.push(student.studentId);
+      studentNames.push(student.studentName);
+    }
+  });
+
+  return {
+    key,
+    studentIds,
+    studentNames,
+    matchCount: (existing?.matchCount || 0) + 1,
+    lastMatchedAt: now,
+  };
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+function paysForStudent(
+  tx: BankTransaction,
+  candidate: MatchCandidate,
+  mappings: Record<string, PayerMapping>
+): string | null {
+  const key = getPayerKey(tx);
+  if (key && mappings[key]?.studentIds.includes(candidate.studentId)) return 'Payer previously matched to this student';
+  if (tx.payerMsisdn && candidate.guardianPhones?.includes(tx.payerMsisdn)) return 'Payer phone matches guardian';
+  if (tx.studentReference && tx.studentReference === candidate.studentNumber?.toUpperCase()) return 'Student ID in payment reference';
+  if (fuzzyNameScore(tx.description, candidate.studentName) >= 0.75) return 'Student name in narration';
+  return null;
+}
+
+/**
+ * Scores one credit against one payment. Names are matched fuzzily in place
+ * of the exact substring check, and a payer the school has matched to this
+ * student before counts like a quoted student ID.
+ */
+export function scoreMatch(
+  tx: BankTransaction,
+  candidate: MatchCandidate,
+  mappings: Record<string, PayerMapping> = {}
+): { confidence: number; reasons: string[] } {
+  let confidence = calculateMatchConfidence(tx, {
+    amount: candidate.amount,
+    date: candidate.date,
+    reference: candidate.reference,
+    studentNumber: candidate.studentNumber,
+    guardianPhones: candidate.guardianPhones,
+  });
+  const reasons: string[] = [];
+
+  if (candidate.amount === tx.amount) reasons.push('Amount matches exactly');
+  else if (Math.abs(candidate.amount - tx.amount) < 1000) reasons.push('Amount is close');
+
+  if (candidate.reference && (tx.reference.includes(candidate.reference) || tx.description.includes(candidate.reference))) {
+    reasons.push('Reference found in description');
+  }
+  if (tx.payerMsisdn && candidate.guardianPhones?.includes(tx.payerMsisdn)) {
+    reasons.push('Payer phone matches guardian');
+  }
+  if (tx.studentReference && tx.studentReference === candidate.studentNumber?.toUpperCase()) {
+    reasons.push('Student ID in payment reference');
+  }
+
+  const nameScore = fuzzyNameScore(tx.description, candidate.studentName);
+  if (nameScore >= 0.9) {
+    confidence += 15;
+    reasons.push('Student name in narration');
+  } else if (nameScore >= 0.75) {
+    confidence += 10;
+    reasons.push('Student name closely matches narration');
+  }
+
+  const key = getPayerKey(tx);
+  if (key && mappings[key]?.studentIds.includes(candidate.studentId)) {
+    confidence += 25;
+    reasons.push('Payer previously matched to this student');
+  }
+
+  return { confidence: Math.min(confidence, 100), reasons };
+}
+
+// ============================================
+// SPLIT AND AGGREGATE
+// ============================================
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  for (let index = 0; index <= items.length - size; index++) {
+    combinations(items.slice(index + 1), size - 1).forEach(rest => result.push([items[index], ...rest]));
+  }
+  return result;
+}
+
+function nearestInDate<T extends { date: Date }>(items: T[], date: Date): T[] {
+  return items
+    .filter(item => Math.abs(item.date.getTime() - date.getTime()) <= COMBINATION_WINDOW_DAYS * DAY_MS)
+    .sort((a, b) => Math.abs(a.date.getTime() - date.getTime()) - Math.abs(b.date.getTime() - date.getTime()))
+    .slice(0, MAX_COMBINATION_POOL);
+}
+
+function withinDays(dates: Date[], days: number): boolean {
+  const times = dates.map(date => date.getTime());
+  return Math.max(...times) - Math.min(...times) <= days * DAY_MS;
+}
+
+/**
+ * One credit covering several payments, typically siblings paid for in one
+ * transfer. The payments must add up to the credit exactly.
+ */
+export function findSplitProposals(
+  tx: BankTransaction,
+  candidates: MatchCandidate[],
+  mappings: Record<string, PayerMapping> = {}
+): MatchProposal[] {
+  const txDate = new Date(tx.transactionDate);
+  const pool = nearestInDate(candidates.filter(candidate => candidate.amount < tx.amount), txDate);
+  const proposals: MatchProposal[] = [];
+
+  for (let size = 2; size <= MAX_PARTS; size++) {
+    combinations(pool, size)
+      .filter(parts => parts.reduce((sum, part) => sum + part.amount, 0) === tx.amount)
+      .forEach(parts => {
+        let confidence = 45;
+        const reasons = [`Amount equals ${parts.length} payments combined`];
+
+        const links = parts.map(part => paysForStudent(tx, part, mappings));
+        if (links.every(Boolean)) {
+          confidence += 25;
+          reasons.push(...Array.from(new Set(links as string[])));
+        }
+        const sharedPhone = parts[0].guardianPhones?.find(phone => parts.every(part => part.guardianPhones?.includes(phone)));
+        if (sharedPhone || new Set(parts.map(part => surnameOf(part.studentName))).size === 1) {
+          confidence += 15;
+          reasons.push('Payments are for siblings');
+        }
+        if (withinDays([txDate, ...parts.map(part => part.date)], 3)) {
+          confidence += 10;
+          reasons.push('Dates within 3 days');
+        }
+
+        proposals.push({
+          kind: 'split',
+          bankTransactionIds: [tx.id],
+          paymentIds: parts.map(part => part.id),
+          confidence: Math.min(confidence, 100),
+          reasons,
+        });
+      });
+  }
+
+  return proposals.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Several credits from the same payer making up one payment, such as a term's
+ * fees sent in instalments. The credits must add up to the payment exactly.
+ */
+export function findAggregateProposals(
+  candidate: MatchCandidate,
+  credits: BankTransaction[],
+  mappings: Record<string, PayerMapping> = {}
+): MatchProposal[] {
+  const dated = credits
+    .filter(tx => tx.type === 'credit' && tx.amount < candidate.amount && getPayerKey(tx))
+    .map(tx => ({ tx, date: new Date(tx.transactionDate) }));
+  const pool = nearestInDate(dated, candidate.date);
+  const proposals: MatchProposal[] = [];
+
+  for (let size = 2; size <= MAX_PARTS; size++) {
+    combinations(pool, size)
+      .filter(parts => parts.reduce((sum, part) => sum + part.tx.amount, 0) === candidate.amount)
+      .filter(parts => new Set(parts.map(part => getPayerKey(part.tx))).size === 1)
+      .forEach(parts => {
+        let confidence = 50;
+        const reasons = [`${parts.length} transfers from the same payer add up to the payment`];
+
+        const link = paysForStudent(parts[0].tx, candidate, mappings);
+        if (link) {
+          confidence += 25;
+          reasons.push(link);
+        }
+        if (withinDays([candidate.date, ...parts.map(part => part.date)], 3)) {
+          confidence += 10;
+          reasons.push('Dates within 3 days');
+        }
+
+        proposals.push({
+          kind: 'aggregate',
+          bankTransactionIds: parts.map(part => part.tx.id),
+          paymentIds: [candidate.id],
+          confidence: Math.min(confidence, 100),
+          reasons,
+        });
+      });
+  }
+
+  return proposals.sort((a, b) => b.confidence - a.confidence);
+}
+
+// ============================================
+// AUTO-MATCHING
+// ============================================
+
+/**
+ * Picks the matches confident enough to make without asking: one-to-one
+ * matches first, then splits, then aggregates, never using a credit or a
+ * payment twice
+ */
+export function proposeMatches(
+  credits: BankTransaction[],
+  candidates: MatchCandidate[],
+  mappings: Record<string, PayerMapping> = {},
+  threshold: number = AUTO_MATCH_CONFIDENCE
+): MatchProposal[] {
+  const usedTx = new Set<string>();
+  const usedPayments = new Set<string>();
+  const accepted: MatchProposal[] = [];
+
+  const accept = (proposals: MatchProposal[]) => {
+    proposals
+      .filter(proposal => proposal.confidence >= threshold)
+      .sort((a, b) => b.confidence - a.confidence)
+      .forEach(proposal => {
+        if (proposal.bankTransactionIds.some(id => usedTx.has(id)) || proposal.paymentIds.some(id => usedPayments.has(id))) return;
+        proposal.bankTransactionIds.forEach(id => usedTx.add(id));
+        proposal.paymentIds.forEach(id => usedPayments.add(id));
+        accepted.push(proposal);
+      });
+  };
+
+  const single: MatchProposal[] = [];
+  credits.forEach(tx => {
+    candidates.forEach(candidate => {
+      const { confidence, reasons } = scoreMatch(tx, candidate, mappings);
+      single.push({ kind: 'single', bankTransactionIds: [tx.id], paymentIds: [candidate.id], confidence, reasons });
+    });
+  });
+  accept(single);
+
+  const openPayments = () => candidates.filter(candidate => !usedPayments.has(candidate.id));
+  const openCredits = () => credits.filter(tx => !usedTx.has(tx.id));
+
+  accept(openCredits().flatMap(tx => findSplitProposals(tx, openPayments(), mappings)));
+  accept(openPayments().flatMap(candidate => findAggregateProposals(candidate, openCredits(), mappings)));
+
+  return accepted;
+}
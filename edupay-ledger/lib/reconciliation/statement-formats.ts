@@ -0,0 +1,303 @@
+/**
+ * Bank Statement File Formats
+ * Reads OFX and SWIFT MT940 statements straight into transactions, splits
+ * CSV exports into rows for a column mapping, and parses the dates they use
+ */
+
+import { isValid, parse } from 'date-fns';
+import type { BankTransaction } from '../../types/bank-reconciliation';
+
+export type StatementFileFormat = 'ofx' | 'mt940' | 'csv';
+
+export interface ParsedStatementFile {
+  format: 'ofx' | 'mt940';
+  accountNumber?: string;
+  currency?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  transactions: BankTransaction[];
+}
+
+export interface CsvTable {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+// Date layouts offered when mapping an unknown bank's columns
+export const DATE_FORMAT_PRESETS = [
+  'DD/MM/YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY',
+  'DD-MMM-YYYY',
+  'DD MMM YYYY',
+  'DD/MM/YY',
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+];
+
+function transactionId(): string {
+  return `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// ============================================
+// DATES
+// ============================================
+
+// Statement configs write formats the way banks print them; date-fns wants dd and yyyy
+function toDateFnsFormat(format: string): string {
+  return format.replace(/YYYY/g, 'yyyy').replace(/YY/g, 'yy').replace(/DD/g, 'dd');
+}
+
+/**
+ * Parses a statement date in the given format. A time after the date is
+ * read when the format has one and ignored when it does not.
+ */
+export function parseStatementDate(value: string, format: string): Date {
+  const cleaned = String(value ?? '').trim().replace(/\s+/g, ' ');
+  const pattern = toDateFnsFormat(format);
+
+  let date = parse(cleaned, pattern, new Date());
+  if (!isValid(date) && !/[Hhms]/.test(format)) {
+    // Exports often add a time the configured format does not mention
+    const parts = cleaned.split(' ');
+    const dateLength = format.split(' ').length;
+    date = parse(parts.slice(0, dateLength).join(' '), pattern, new Date());
+
+    const time = (parts[dateLength] || '').match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (isValid(date) && time) {
+      date.setHours(Number(time[1]), Number(time[2]), Number(time[3] || 0));
+    }
+  }
+  if (!isValid(date)) {
+    throw new Error(`"${value}" is not a date in the format ${format}`);
+  }
+  return date;
+}
+
+// ============================================
+// FORMAT DETECTION
+// ============================================
+
+export function detectStatementFormat(fileName: string, text: string): StatementFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'sta' || extension === 'mt940' || extension === '940' || (/^:20:/m.test(text) && /^:61:/m.test(text))) {
+    return 'mt940';
+  }
+  return 'csv';
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+}
+
+/**
+ * Splits a CSV export into rows keyed by column name. Quoted values may hold
+ * the delimiter, and the header may sit below a few lines of bank letterhead.
+ */
+export function parseCsv(text: string, headerRow: number = 1): CsvTable {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = lines[headerRow - 1] || '';
+
+  // Semicolons and tabs are common in exports from European banking systems
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: splitCsvLine(header, candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const columns = splitCsvLine(header, delimiter).filter(Boolean);
+  const rows: Record<string, unknown>[] = [];
+
+  for (const line of lines.slice(headerRow)) {
+    if (!line.trim()) continue;
+    const values = splitCsvLine(line, delimiter);
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      row[column] = values[index] || '';
+    });
+    rows.push(row);
+  }
+
+  return { columns, rows };
+}
+
+// ============================================
+// OFX
+// ============================================
+
+// Reads a field from OFX 1.x SGML, where tags are often left open, or OFX 2.x XML
+function ofxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
+// 20260115, 20260115093000 or 20260115093000.000[+3:EAT]
+function parseOfxDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/);
+  if (!match) throw new Error(`"${value}" is not an OFX date`);
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return new Date(Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0), Number(seconds || 0));
+}
+
+export function parseOfxStatement(text: string): ParsedStatementFile {
+  const transactions: BankTransaction[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  for (const block of blocks) {
+    const amount = parseFloat(ofxField(block, 'TRNAMT') || '');
+    const posted = ofxField(block, 'DTPOSTED');
+    if (isNaN(amount) || amount === 0 || !posted) continue;
+
+    const transactionDate = parseOfxDate(posted);
+    const userDate = ofxField(block, 'DTUSER');
+    const name = ofxField(block, 'NAME') || ofxField(block, 'PAYEE') || '';
+    const memo = ofxField(block, 'MEMO') || '';
+    const trnType = (ofxField(block, 'TRNTYPE') || '').toUpperCase();
+
+    transactions.push({
+      id: transactionId(),
+      transactionDate: userDate ? parseOfxDate(userDate) : transactionDate,
+      valueDate: transactionDate,
+      reference: ofxField(block, 'CHECKNUM') || ofxField(block, 'REFNUM') || ofxField(block, 'FITID') || '',
+      description: [name, memo].filter(Boolean).join(' - '),
+      amount: Math.abs(amount),
+      type: amount < 0 || trnType === 'DEBIT' ? 'debit' : 'credit',
+      balance: 0,
+      rawData: { block },
+    });
+  }
+
+  const ledger = text.match(/<LEDGERBAL>[\s\S]*?(?:<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i);
+  const closing = ledger ? parseFloat(ofxField(ledger[0], 'BALAMT') || '') : NaN;
+
+  return {
+    format: 'ofx',
+    accountNumber: ofxField(text, 'ACCTID'),
+    currency: ofxField(text, 'CURDEF'),
+    ...(!isNaN(closing) && { closingBalance: closing }),
+    transactions,
+  };
+}
+
+// ============================================
+// MT940
+// ============================================
+
+// C260115UGX1500000,00
+function parseMt940Balance(value: string): { amount: number; currency: string } | null {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = parseFloat(match[4].replace(',', '.'));
+  return { amount: match[1] === 'D' ? -amount : amount, currency: match[3] };
+}
+
+function parseMt940Date(yymmdd: string): Date {
+  return new Date(2000 + Number(yymmdd.slice(0, 2)), Number(yymmdd.slice(2, 4)) - 1, Number(yymmdd.slice(4, 6)));
+}
+
+// Value date, optional entry date, credit/debit mark, amount, type code, references
+const MT940_STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?([\d,]+)([NFS][A-Z0-9]{3})?([^\/\n]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+/**
+ * Reads a SWIFT MT940 statement: each :61: statement line becomes a
+ * transaction and the :86: that follows it becomes its description. The
+ * running balance is worked out from the opening balance.
+ */
+export function parseMt940Statement(text: string): ParsedStatementFile {
+  // Gather each tag with its continuation lines
+  const fields: { tag: string; value: string }[] = [];
+  text.replace(/\r/g, '').split('\n').forEach(line => {
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && line.trim() && line.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  const transactions: BankTransaction[] = [];
+  let accountNumber: string | undefined;
+  let currency: string | undefined;
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  let balance = 0;
+
+  for (const { tag, value } of fields) {
+    if (tag === '25') {
+      accountNumber = value.trim();
+    } else if (tag === '60F' || tag === '60M') {
+      const opening = parseMt940Balance(value);
+      if (opening) {
+        currency = opening.currency;
+        if (openingBalance === undefined) openingBalance = opening.amount;
+        balance = opening.amount;
+      }
+    } else if (tag === '62F' || tag === '62M') {
+      closingBalance = parseMt940Balance(value)?.amount;
+    } else if (tag === '61') {
+      const match = value.match(MT940_STATEMENT_LINE);
+      if (!match) continue;
+      const [, valueDate, entryDate, mark, amountText, , ownerReference, bankReference, details] = match;
+
+      const amount = parseFloat(amountText.replace(',', '.'));
+      // A reversed credit takes money out, a reversed debit puts it back
+      const type = mark === 'C' || mark === 'RD' ? 'credit' : 'debit';
+      balance += type === 'credit' ? amount : -amount;
+
+      const value_ = parseMt940Date(valueDate);
+      const booked = entryDate
+        ? new Date(value_.getFullYear(), Number(entryDate.slice(0, 2)) - 1, Number(entryDate.slice(2, 4)))
+        : value_;
+
+      transactions.push({
+        id: transactionId(),
+        transactionDate: booked,
+        valueDate: value_,
+        reference: (ownerReference.trim() !== 'NONREF' && ownerReference.trim()) || (bankReference || '').trim(),
+        description: (details || '').trim(),
+        amount,
+        type,
+        balance: Math.round(balance * 100) / 100,
+        rawData: { statementLine: value },
+      });
+    } else if (tag === '86' && transactions.length > 0) {
+      // Structured narratives mark their subfields with ?20, ?21 and so on
+      const narrative = value.replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim();
+      const last = transactions[transactions.length - 1];
+      last.description = [last.description, narrative].filter(Boolean).join(' - ');
+    }
+  }
+
+  return {
+    format: 'mt940',
+    accountNumber,
+    currency,
+    openingBalance,
+    closingBalance,
+    transactions,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Reminder Schedule
+ * Which installment reminders fall due on a given day, and which of the
+ * day's reminders each guardian may receive under the frequency cap
+ */
+
+import type { InstallmentProgress } from '../../types/student';
+import { getDedupeScope } from '../db/outbox-queue';
+import type { OutboxMessage } from '../../types/outbox';
+import type { ReminderCandidate, ReminderFrequencyCap, ReminderKind } from '../../types/reminder';
+
+// Days before an installment deadline that a reminder goes out
+export const DEADLINE_REMINDER_DAYS = [7, 3, 0];
+
+// Days after a missed deadline that an overdue alert goes out
+export const OVERDUE_ALERT_DAYS = [1, 7, 14, 30];
+
+// A promise is reminded of again this many days after the last reminder
+export const PROMISE_REMINDER_INTERVAL_DAYS = 3;
+
+// Outbox message types that count against the frequency cap
+export const REMINDER_MESSAGE_TYPES: Array<OutboxMessage['messageType']> = ['fee_deadline', 'arrears_notice', 'promise_reminder'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most pressing first when the cap leaves room for only some
+const KIND_ORDER: Record<ReminderKind, number> = { overdue: 0, promise: 1, deadline: 2 };
+
+export interface ReminderStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  guardianPhone: string;
+  guardianAlternatePhone?: string;
+  guardianEmail?: string;
+  installmentProgress?: Array<Pick<InstallmentProgress, 'installmentId' | 'installmentName' | 'amountDue' | 'amountPaid' | 'status'> & {
+    deadline: unknown;
+  }>;
+}
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Calendar days from one date to another, negative if the second is earlier
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS);
+}
+
+/**
+ * Reads a deadline as stored locally: a Firestore Timestamp, its plain
+ * {seconds} form after a round trip through IndexedDB, or a date string
+ */
+export function toDeadlineDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = typeof (value as any).toDate === 'function'
+    ? (value as any).toDate()
+    : typeof (value as any).seconds === 'number'
+      ? new Date((value as any).seconds * 1000)
+      : new Date(value as string | number | Date);
+  return date instanceof Date && !isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * The reminder stage a deadline has reached: the nearest reminder day not
+ * yet passed, so a day the app was closed is caught up on the next run
+ */
+export function getDeadlineStage(daysUntil: number): number | null {
+  if (daysUntil < 0) return null;
+  const stages = DEADLINE_REMINDER_DAYS.filter(day => day >= daysUntil);
+  return stages.length > 0 ? Math.min(...stages) : null;
+}
+
+export function getOverdueStage(daysOverdue: number): number | null {
+  const stages = OVERDUE_ALERT_DAYS.filter(day => day <= daysOverdue);
+  return stages.length > 0 ? Math.max(...stages) : null;
+}
+
+/**
+ * The deadline and overdue reminders due for a student's unpaid
+ * installments. Each stage has its own dedupe scope, so it is sent once.
+ */
+export function findInstallmentReminders(student: ReminderStudent, today: Date = new Date()): ReminderCandidate[] {
+  const candidates: ReminderCandidate[] = [];
+
+  for (const installment of student.installmentProgress || []) {
+    const amount = installment.amountDue - installment.amountPaid;
+    const deadline = toDeadlineDate(installment.deadline);
+    if (installment.status === 'completed' || amount <= 0 || !deadline) continue;
+
+    const days = daysBetween(today, deadline);
+    const kind: ReminderKind = days < 0 ? 'overdue' : 'deadline';
+    const stage = kind === 'overdue' ? getOverdueStage(-days) : getDeadlineStage(days);
+    if (stage === null) continue;
+
+    candidates.push({
+      kind,
+      studentId: student.id,
+      studentName: `${student.firstName} ${student.lastName}`,
+      guardianPhone: student.guardianPhone,
+      ...(student.guardianAlternatePhone && { alternatePhone: student.guardianAlternatePhone }),
+      ...(student.guardianEmail && { email: student.guardianEmail }),
+      label: installment.installmentName,
+      amount,
+      dueDate: deadline,
+      days,
+      dedupeScope: `reminder:${kind}:${student.id}:${installment.installmentId}:${stage}`,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Reminders already queued to each guardian phone since the given time,
+ * counting those rerouted to another contact against the original phone.
+ * Copies of one reminder on other channels, and the SMS sent when a
+ * WhatsApp message failed, count once.
+ */
+export function countRecentReminders(
+  messages: Array<Pick<
+    OutboxMessage,
+    'channel' | 'recipient' | 'reroutedFrom' | 'guardianPhone' | 'dedupeKey' | 'messageType' | 'status' | 'createdAt'
+  >>,
+  since: Date
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  const counted = new Set<string>();
+  for (const message of messages) {
+    if (!REMINDER_MESSAGE_TYPES.includes(message.messageType) || message.status === 'failed') continue;
+    if (new Date(message.createdAt).getTime() < since.getTime()) continue;
+
+    const guardian = message.reroutedFrom || message.guardianPhone || message.recipient;
+    const scope = getDedupeScope(message);
+    if (scope) {
+      if (counted.has(`${guardian}|${scope}`)) continue;
+      counted.add(`${guardian}|${scope}`);
+    }
+    counts.set(guardian, (counts.get(guardian) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Splits the day's reminders into those each guardian may still receive and
+ * those over the cap, sending overdue alerts, then promises, then deadlines,
+ * earliest due first
+ */
+export function applyFrequencyCap(
+  candidates: ReminderCandidate[],
+  recent: Map<string, number>,
+  cap: ReminderFrequencyCap
+): { allowed: ReminderCandidate[]; capped: ReminderCandidate[] } {
+  const counts = new Map(recent);
+  const allowed: ReminderCandidate[] = [];
+  const capped: ReminderCandidate[] = [];
+
+  const ordered = [...candidates].sort((a, b) =>
+    KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.dueDate.getTime() - b.dueDate.getTime()
+  );
+
+  for (const candidate of ordered) {
+    const sent = counts.get(candidate.guardianPhone) || 0;
+    if (sent >= cap.maxMessages) {
+      capped.push(candidate);
+      continue;
+    }
+    counts.set(candidate.guardianPhone, sent + 1);
+    allowed.push(candidate);
+  }
+
+  return { allowed, capped };
+}
+
+export function getCapWindowStart(cap: ReminderFrequencyCap, now: Date = new Date()): Date {
+  return new Date(now.getTime() - cap.periodDays * DAY_MS);
+}
+
+export function getNextPromiseReminderDate(now: Date = new Date()): Date {
+  return new Date(now.getTime() + PROMISE_REMINDER_INTERVAL_DAYS * DAY_MS);
+}
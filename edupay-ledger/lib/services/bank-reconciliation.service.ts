@@ -19,7 +19,10 @@ import {
   writeBatch,
   limit,
 } from 'firebase/firestore';
-import { db } from '../firebase';
+import { db, COLLECTIONS, logAuditAction } from '../firebase';
+import { db as localDb, dbHelpers } from '../db';
+import { formatUgandanPhone } from './sms.service';
+import { recordPayment } from './payment.service';
 import {
   BankTransaction,
   BankTransactionWithStatus,
@@ -27,13 +30,43 @@ import {
   ReconciliationMatch,
   ReconciliationSummary,
   ReconciliationStatus,
+  ReconciliationStatement,
+  ReconciliationStatementItem,
   BankImportConfig,
+  SavedBankImportConfig,
+  MobileMoneyImportConfig,
+  StatementImporter,
+  StatementSource,
   PossibleMatch,
+  PayerMapping,
   ReconciliationAction,
-  calculateMatchConfidence,
   parseAmount,
   UGANDA_BANK_CONFIGS,
+  UGANDA_MOBILE_MONEY_CONFIGS,
 } from '../../types/bank-reconciliation';
+import {
+  findAggregateProposals,
+  findSplitProposals,
+  getPayerKey,
+  learnPayerMapping,
+  MatchCandidate,
+  MatchProposal,
+  proposeMatches,
+  scoreMatch,
+  SUGGESTION_CONFIDENCE,
+} from '../reconciliation/matcher';
+import { parseStatementDate } from '../reconciliation/statement-formats';
+import { buildReconciliationStatement, deriveStatementBalances } from '../reconciliation/close-out';
+import {
+  buildCreditPayment,
+  creditPaymentId,
+  guessStudentsForCredit,
+  pickConfidentGuess,
+  planCreditPosting,
+  StudentCandidate,
+  StudentGuess,
+} from '../reconciliation/credit-posting';
+import type { PaymentRecordInput } from '../../types/payment';
 
 // ============================================
 // IMPORT BANK STATEMENT
@@ -45,7 +78,9 @@ export async function createReconciliationSession(
   bankAccountNumber: string,
   fileName: string,
   transactions: BankTransaction[],
-  userId: string
+  userId: string,
+  source: StatementSource = 'bank',
+  balances: { openingBalance?: number; closingBalance?: number } = {}
 ): Promise<ReconciliationSession> {
   const sessionsRef = collection(db, 'schools', schoolId, 'reconciliationSessions');
   
@@ -67,6 +102,7 @@ export async function createReconciliationSession(
     statementPeriodStart: periodStart,
     statementPeriodEnd: periodEnd,
     fileName,
+    source,
     importedAt: new Date(),
     importedBy: userId,
     status: 'processing',
@@ -76,6 +112,10 @@ export async function createReconciliationSession(
     matchedCount: 0,
     unmatchedCount: 0,
     ignoredCount: 0,
+    // OFX and MT940 files state their balances; CSVs may carry a running balance
+    ...deriveStatementBalances(transactions),
+    ...(balances.openingBalance !== undefined && { openingBalance: balances.openingBalance }),
+    ...(balances.closingBalance !== undefined && { closingBalance: balances.closingBalance }),
   };
 
   const sessionRef = await addDoc(sessionsRef, {
@@ -143,90 +183,222 @@ export async function runAutoMatching(
   );
   const paymentsSnap = await getDocs(paymentsQuery);
 
-  interface PaymentDoc {
-    id: string;
-    amount: number;
-    date: Date;
-    reference: string;
-    studentName: string;
-    [key: string]: unknown;
+  const contacts = await getStudentContacts(schoolId);
+  const mappings = await getPayerMappings(schoolId);
+  const credits = txSnap.docs.map(txDoc => toBankTransaction(txDoc.id, txDoc.data()));
+  const candidates = paymentsSnap.docs
+    .filter(paymentDoc => !paymentDoc.data().isReconciled)
+    .map(paymentDoc => toMatchCandidate(paymentDoc.id, paymentDoc.data(), contacts));
+
+  // One-to-one, split and aggregate matches confident enough to make without asking
+  const proposals = proposeMatches(credits, candidates, mappings);
+  const amounts = getAmounts(credits, candidates);
+
+  const batch = writeBatch(db);
+  const matchedTxIds = new Set<string>();
+  for (const proposal of proposals) {
+    writeMatchGroup(batch, schoolId, proposal, amounts, {
+      matchType: 'auto',
+      matchConfidence: proposal.confidence,
+      matchReason: proposal.reasons.join(', ') || 'Auto-matched based on amount, date, and reference',
+    });
+    proposal.bankTransactionIds.forEach(id => matchedTxIds.add(id));
   }
 
-  const payments: PaymentDoc[] = paymentsSnap.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      amount: data.amount || 0,
-      date: data.date?.toDate() || new Date(),
-      reference: data.reference || '',
-      studentName: data.studentName || '',
+  txSnap.docs
+    .filter(txDoc => !matchedTxIds.has(txDoc.id))
+    .forEach(txDoc => batch.update(txDoc.ref, { status: 'unmatched' }));
+
+  await batch.commit();
+
+  // Update session counts
+  const matchedCount = matchedTxIds.size;
+  const unmatchedCount = txSnap.size - matchedCount;
+  await updateDoc(doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId), {
+    status: 'in_progress',
+    matchedCount,
+    unmatchedCount,
+  });
+}
+
+// ============================================
+// MATCH RECORDS
+// ============================================
+
+interface StudentContact {
+  studentNumber: string;
+  guardianPhones: string[];
+}
+
+// Each student's ID and guardian phones, keyed by student document ID
+async function getStudentContacts(schoolId: string): Promise<Record<string, StudentContact>> {
+  const studentsSnap = await getDocs(query(
+    collection(db, COLLECTIONS.STUDENTS),
+    where('schoolId', '==', schoolId)
+  ));
+
+  const contacts: Record<string, StudentContact> = {};
+  studentsSnap.docs.forEach(studentDoc => {
+    const data = studentDoc.data();
+    const phones = [data.guardian?.phone, data.guardian?.alternatePhone, data.guardianPhone]
+      .filter((phone): phone is string => !!phone)
+      .map(formatUgandanPhone);
+    contacts[studentDoc.id] = {
+      studentNumber: (data.studentId || '').toUpperCase(),
+      guardianPhones: Array.from(new Set(phones)),
     };
   });
+  return contacts;
+}
 
-  // Match transactions
-  const batch = writeBatch(db);
-  let matchedCount = 0;
-  const usedPaymentIds = new Set<string>();
+function toBankTransaction(id: string, data: Record<string, any>): BankTransaction {
+  return {
+    id,
+    transactionDate: data.transactionDate?.toDate?.() || new Date(data.transactionDate),
+    valueDate: data.valueDate?.toDate?.() || new Date(data.valueDate),
+    reference: data.reference || '',
+    description: data.description || '',
+    amount: data.amount || 0,
+    type: data.type || 'credit',
+    balance: data.balance || 0,
+    rawData: data.rawData || {},
+    ...(data.source && { source: data.source }),
+    ...(data.payerMsisdn && { payerMsisdn: data.payerMsisdn }),
+    ...(data.payerName && { payerName: data.payerName }),
+    ...(data.studentReference && { studentReference: data.studentReference }),
+  };
+}
 
-  for (const txDoc of txSnap.docs) {
-    const tx = txDoc.data() as BankTransaction;
-    
-    // Find best matching payment
-    let bestMatch: { payment: PaymentDoc; confidence: number } | null = null;
-    
-    for (const payment of payments) {
-      if (usedPaymentIds.has(payment.id)) continue;
-      
-      const confidence = calculateMatchConfidence(tx, {
-        amount: payment.amount,
-        date: payment.date,
-        reference: payment.reference,
-        studentName: payment.studentName,
-      });
+function toMatchCandidate(
+  id: string,
+  data: Record<string, any>,
+  contacts: Record<string, StudentContact>
+): MatchCandidate {
+  return {
+    id,
+    amount: data.amount || 0,
+    date: data.date?.toDate() || new Date(),
+    reference: data.transactionRef || data.reference || '',
+    studentId: data.studentId || '',
+    studentName: data.studentName || '',
+    ...contacts[data.studentId],
+  };
+}
 
-      if (confidence >= 80 && (!bestMatch || confidence > bestMatch.confidence)) {
-        bestMatch = { payment, confidence };
-      }
-    }
+function getAmounts(credits: BankTransaction[], candidates: MatchCandidate[]): Record<string, number> {
+  const amounts: Record<string, number> = {};
+  credits.forEach(tx => { amounts[tx.id] = tx.amount; });
+  candidates.forEach(candidate => { amounts[candidate.id] = candidate.amount; });
+  return amounts;
+}
 
-    if (bestMatch) {
-      // Create match record
-      const matchRef = collection(db, 'schools', schoolId, 'reconciliationMatches');
-      const matchData: Omit<ReconciliationMatch, 'id'> = {
-        bankTransactionId: txDoc.id,
-        paymentId: bestMatch.payment.id,
-        matchType: 'auto',
-        matchConfidence: bestMatch.confidence,
-        matchReason: 'Auto-matched based on amount, date, and reference',
-        matchedAt: new Date(),
-      };
-      
-      await addDoc(matchRef, {
-        ...matchData,
+/**
+ * Adds the match records for one match to the batch, one per credit and
+ * payment pair, and marks the credits matched and the payments reconciled
+ */
+function writeMatchGroup(
+  batch: ReturnType<typeof writeBatch>,
+  schoolId: string,
+  proposal: Pick<MatchProposal, 'kind' | 'bankTransactionIds' | 'paymentIds'>,
+  amounts: Record<string, number>,
+  details: { matchType: 'auto' | 'manual'; matchConfidence: number; matchReason: string; matchedBy?: string; notes?: string }
+): void {
+  const matchesRef = collection(db, 'schools', schoolId, 'reconciliationMatches');
+  const groupId = proposal.kind === 'single' ? null : doc(matchesRef).id;
+
+  proposal.bankTransactionIds.forEach(bankTransactionId => {
+    proposal.paymentIds.forEach(paymentId => {
+      batch.set(doc(matchesRef), {
+        bankTransactionId,
+        paymentId,
+        matchType: details.matchType,
+        matchConfidence: details.matchConfidence,
+        matchReason: details.matchReason,
         matchedAt: Timestamp.now(),
+        kind: proposal.kind,
+        ...(groupId && { groupId }),
+        ...(proposal.kind === 'split' && { allocatedAmount: amounts[paymentId] }),
+        ...(proposal.kind === 'aggregate' && { allocatedAmount: amounts[bankTransactionId] }),
+        ...(details.matchedBy && { matchedBy: details.matchedBy }),
+        ...(details.notes && { notes: details.notes }),
       });
+    });
+  });
 
-      // Update transaction status
-      batch.update(txDoc.ref, { status: 'matched' });
-      
-      // Mark payment as reconciled
-      batch.update(doc(paymentsRef, bestMatch.payment.id), { isReconciled: true });
-      
-      usedPaymentIds.add(bestMatch.payment.id);
-      matchedCount++;
-    } else {
-      batch.update(txDoc.ref, { status: 'unmatched' });
-    }
+  const status: ReconciliationStatus = details.matchType === 'auto' ? 'matched' : 'manual_match';
+  proposal.bankTransactionIds.forEach(id => {
+    batch.update(doc(db, 'schools', schoolId, 'bankTransactions', id), { status });
+  });
+  proposal.paymentIds.forEach(id => {
+    // Merged, as a payment just recorded on this device may not be synced up yet
+    batch.set(doc(db, 'schools', schoolId, 'payments', id), { isReconciled: true }, { merge: true });
+  });
+}
+
+// ============================================
+// PAYER MAPPINGS
+// ============================================
+
+function payerMappingsRef(schoolId: string) {
+  return collection(db, 'schools', schoolId, 'reconciliationPayerMappings');
+}
+
+// What manual matches have taught about each payer, rebuilt from past matches the first time
+export async function getPayerMappings(schoolId: string): Promise<Record<string, PayerMapping>> {
+  const snapshot = await getDocs(payerMappingsRef(schoolId));
+  if (snapshot.empty) {
+    return rebuildPayerMappings(schoolId);
   }
 
-  await batch.commit();
+  const mappings: Record<string, PayerMapping> = {};
+  snapshot.docs.forEach(mappingDoc => {
+    const data = mappingDoc.data();
+    mappings[data.key] = {
+      key: data.key,
+      studentIds: data.studentIds || [],
+      studentNames: data.studentNames || [],
+      matchCount: data.matchCount || 0,
+      lastMatchedAt: data.lastMatchedAt?.toDate() || new Date(),
+    };
+  });
+  return mappings;
+}
 
-  // Update session counts
-  const unmatchedCount = txSnap.size - matchedCount;
-  await updateDoc(doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId), {
-    status: 'in_progress',
-    matchedCount,
-    unmatchedCount,
+/**
+ * Learns from the school's manual matches: each payer is tied to the students
+ * they were matched to, so the next credit from them matches on its own
+ */
+export async function rebuildPayerMappings(schoolId: string): Promise<Record<string, PayerMapping>> {
+  const matchesSnap = await getDocs(query(
+    collection(db, 'schools', schoolId, 'reconciliationMatches'),
+    where('matchType', '==', 'manual')
+  ));
+
+  const mappings: Record<string, PayerMapping> = {};
+  for (const matchDoc of matchesSnap.docs) {
+    const match = matchDoc.data();
+    const [txDoc, paymentDoc] = await Promise.all([
+      getDoc(doc(db, 'schools', schoolId, 'bankTransactions', match.bankTransactionId)),
+      getDoc(doc(db, 'schools', schoolId, 'payments', match.paymentId)),
+    ]);
+    if (!txDoc.exists() || !paymentDoc.exists()) continue;
+
+    const key = getPayerKey(toBankTransaction(txDoc.id, txDoc.data()));
+    const payment = paymentDoc.data();
+    if (!key || !payment.studentId) continue;
+    mappings[key] = learnPayerMapping(mappings[key], key, [
+      { studentId: payment.studentId, studentName: payment.studentName || '' },
+    ], match.matchedAt?.toDate());
+  }
+
+  await Promise.all(Object.keys(mappings).map(key => savePayerMapping(schoolId, mappings[key])));
+  return mappings;
+}
+
+async function savePayerMapping(schoolId: string, mapping: PayerMapping): Promise<void> {
+  await setDoc(doc(payerMappingsRef(schoolId), encodeURIComponent(mapping.key)), {
+    ...mapping,
+    lastMatchedAt: Timestamp.fromDate(mapping.lastMatchedAt),
   });
 }
 
@@ -271,6 +443,10 @@ export async function getSessionTransactions(
       type: data.type || 'credit',
       balance: data.balance || 0,
       rawData: data.rawData || {},
+      ...(data.source && { source: data.source }),
+      ...(data.payerMsisdn && { payerMsisdn: data.payerMsisdn }),
+      ...(data.payerName && { payerName: data.payerName }),
+      ...(data.studentReference && { studentReference: data.studentReference }),
       status: data.status || 'pending',
     };
 
@@ -294,13 +470,16 @@ export async function getSessionTransactions(
           matchedAt: matchData.matchedAt?.toDate() || new Date(),
           matchedBy: matchData.matchedBy,
           notes: matchData.notes,
+          kind: matchData.kind || 'single',
+          groupId: matchData.groupId,
+          allocatedAmount: matchData.allocatedAmount,
         };
       }
     }
 
     // Get possible matches for unmatched
     if (tx.status === 'unmatched' || tx.status === 'pending') {
-      tx.possibleMatches = await findPossibleMatches(schoolId, tx);
+      tx.possibleMatches = await findPossibleMatches(schoolId, tx, sessionId);
     }
 
     transactions.push(tx);
@@ -315,7 +494,8 @@ export async function getSessionTransactions(
 
 export async function findPossibleMatches(
   schoolId: string,
-  transaction: BankTransaction
+  transaction: BankTransaction,
+  sessionId?: string
 ): Promise<PossibleMatch[]> {
   const paymentsRef = collection(db, 'schools', schoolId, 'payments');
   
@@ -333,42 +513,63 @@ export async function findPossibleMatches(
   );
 
   const paymentsSnap = await getDocs(paymentsQuery);
-  
-  const matches: PossibleMatch[] = [];
-  
-  for (const paymentDoc of paymentsSnap.docs) {
-    const payment = paymentDoc.data();
-    const confidence = calculateMatchConfidence(transaction, {
-      amount: payment.amount,
-      date: payment.date?.toDate() || new Date(),
-      reference: payment.reference,
-      studentName: payment.studentName,
-    });
+  const contacts = await getStudentContacts(schoolId);
+  const mappings = await getPayerMappings(schoolId);
 
-    if (confidence >= 30) {
-      const reasons: string[] = [];
-      if (payment.amount === transaction.amount) reasons.push('Amount matches exactly');
-      else if (Math.abs(payment.amount - transaction.amount) < 1000) reasons.push('Amount is close');
-      
-      if (payment.reference && transaction.description.includes(payment.reference)) {
-        reasons.push('Reference found in description');
-      }
+  const payments: Record<string, Record<string, any>> = {};
+  paymentsSnap.docs.forEach(paymentDoc => { payments[paymentDoc.id] = paymentDoc.data(); });
+  const candidates = paymentsSnap.docs.map(paymentDoc => toMatchCandidate(paymentDoc.id, paymentDoc.data(), contacts));
 
-      matches.push({
-        paymentId: paymentDoc.id,
-        studentName: payment.studentName || 'Unknown',
-        studentId: payment.studentId || '',
-        paymentAmount: payment.amount,
-        paymentDate: payment.date?.toDate() || new Date(),
-        paymentMethod: payment.paymentMethod || 'Unknown',
-        receiptNumber: payment.receiptNumber || '',
-        confidence,
-        matchReasons: reasons,
-      });
-    }
+  const toPossibleMatch = (proposal: MatchProposal): PossibleMatch => {
+    const parts = proposal.paymentIds.map(id => payments[id]);
+    return {
+      paymentId: proposal.paymentIds[0],
+      studentName: parts.map(payment => payment.studentName || 'Unknown').join(' + '),
+      studentId: parts.map(payment => payment.studentId || '').join(', '),
+      paymentAmount: parts.reduce((sum, payment) => sum + (payment.amount || 0), 0),
+      paymentDate: parts[0].date?.toDate() || new Date(),
+      paymentMethod: parts[0].paymentMethod || 'Unknown',
+      receiptNumber: parts.map(payment => payment.receiptNumber || '').join(', '),
+      confidence: proposal.confidence,
+      matchReasons: proposal.reasons,
+      kind: proposal.kind,
+      ...(proposal.kind === 'split' && { paymentIds: proposal.paymentIds }),
+      ...(proposal.kind === 'aggregate' && { bankTransactionIds: proposal.bankTransactionIds }),
+    };
+  };
+
+  const proposals: MatchProposal[] = candidates.map(candidate => ({
+    kind: 'single' as const,
+    bankTransactionIds: [transaction.id],
+    paymentIds: [candidate.id],
+    ...scoreMatch(transaction, candidate, mappings),
+  }));
+
+  // One transfer for several students
+  proposals.push(...findSplitProposals(transaction, candidates, mappings).slice(0, 2));
+
+  // This transfer with the payer's other unmatched transfers in the session
+  if (sessionId) {
+    const othersSnap = await getDocs(query(
+      collection(db, 'schools', schoolId, 'bankTransactions'),
+      where('sessionId', '==', sessionId),
+      where('status', '==', 'unmatched')
+    ));
+    const others = othersSnap.docs
+      .filter(txDoc => txDoc.id !== transaction.id)
+      .map(txDoc => toBankTransaction(txDoc.id, txDoc.data()));
+    candidates.forEach(candidate => {
+      proposals.push(...findAggregateProposals(candidate, [transaction, ...others], mappings)
+        .filter(proposal => proposal.bankTransactionIds.includes(transaction.id))
+        .slice(0, 1));
+    });
   }
 
-  return matches.sort((a, b) => b.confidence - a.confidence).slice(0, 5);
+  return proposals
+    .filter(proposal => proposal.confidence >= SUGGESTION_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, 5)
+    .map(toPossibleMatch);
 }
 
 // ============================================
@@ -382,68 +583,283 @@ export async function manualMatch(
   userId: string,
   notes?: string
 ): Promise<void> {
-  const txRef = doc(db, 'schools', schoolId, 'bankTransactions', transactionId);
-  const paymentRef = doc(db, 'schools', schoolId, 'payments', paymentId);
-  const matchesRef = collection(db, 'schools', schoolId, 'reconciliationMatches');
+  await manualMatchGroup(schoolId, [transactionId], [paymentId], userId, notes);
+}
 
-  // Create match record
-  await addDoc(matchesRef, {
-    bankTransactionId: transactionId,
-    paymentId,
+/**
+ * Matches by hand one credit to several payments, several credits to one
+ * payment, or one to one, and remembers which students the payer paid for
+ */
+export async function manualMatchGroup(
+  schoolId: string,
+  bankTransactionIds: string[],
+  paymentIds: string[],
+  userId: string,
+  notes?: string
+): Promise<void> {
+  if (bankTransactionIds.length === 0 || paymentIds.length === 0) {
+    throw new Error('Select the transactions and payments to match');
+  }
+  if (bankTransactionIds.length > 1 && paymentIds.length > 1) {
+    throw new Error('Match several transfers to one payment, or one transfer to several payments');
+  }
+
+  const txDocs = await Promise.all(bankTransactionIds.map(id =>
+    getDoc(doc(db, 'schools', schoolId, 'bankTransactions', id))
+  ));
+  const paymentDocs = await Promise.all(paymentIds.map(id =>
+    getDoc(doc(db, 'schools', schoolId, 'payments', id))
+  ));
+  await assertSessionsOpen(schoolId, txDocs.map(txDoc => txDoc.data()?.sessionId));
+  const transactions = txDocs.map(txDoc => toBankTransaction(txDoc.id, txDoc.data() || {}));
+
+  const amounts: Record<string, number> = {};
+  transactions.forEach(tx => { amounts[tx.id] = tx.amount; });
+  paymentDocs.forEach(paymentDoc => { amounts[paymentDoc.id] = paymentDoc.data()?.amount || 0; });
+
+  const batch = writeBatch(db);
+  writeMatchGroup(batch, schoolId, {
+    kind: paymentIds.length > 1 ? 'split' : bankTransactionIds.length > 1 ? 'aggregate' : 'single',
+    bankTransactionIds,
+    paymentIds,
+  }, amounts, {
     matchType: 'manual',
     matchConfidence: 100,
     matchReason: 'Manually matched by user',
-    matchedAt: Timestamp.now(),
     matchedBy: userId,
     notes,
   });
+  await batch.commit();
 
-  // Update transaction status
-  await updateDoc(txRef, { status: 'manual_match' });
+  await countManualMatches(schoolId, txDocs[0].data()?.sessionId, bankTransactionIds.length);
 
-  // Mark payment as reconciled
-  await updateDoc(paymentRef, { isReconciled: true });
+  // Learn which students these payers pay for
+  const students = paymentDocs
+    .map(paymentDoc => paymentDoc.data())
+    .filter(payment => payment?.studentId)
+    .map(payment => ({ studentId: payment!.studentId, studentName: payment!.studentName || '' }));
+  await learnPayers(schoolId, transactions, students);
+}
 
-  // Update session counts
-  const txDoc = await getDoc(txRef);
-  const sessionId = txDoc.data()?.sessionId;
-  if (sessionId) {
-    const sessionRef = doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId);
-    const sessionDoc = await getDoc(sessionRef);
-    const session = sessionDoc.data();
-    await updateDoc(sessionRef, {
-      matchedCount: (session?.matchedCount || 0) + 1,
-      unmatchedCount: Math.max(0, (session?.unmatchedCount || 1) - 1),
-    });
+async function countManualMatches(schoolId: string, sessionId: string | undefined, count: number): Promise<void> {
+  if (!sessionId) return;
+  const sessionRef = doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId);
+  const sessionDoc = await getDoc(sessionRef);
+  const session = sessionDoc.data();
+  await updateDoc(sessionRef, {
+    matchedCount: (session?.matchedCount || 0) + count,
+    unmatchedCount: Math.max(0, (session?.unmatchedCount || count) - count),
+  });
+}
+
+async function learnPayers(
+  schoolId: string,
+  transactions: BankTransaction[],
+  students: { studentId: string; studentName: string }[]
+): Promise<void> {
+  if (students.length === 0) return;
+  const mappings = await getPayerMappings(schoolId);
+  const keys = Array.from(new Set(transactions.map(getPayerKey).filter((key): key is string => !!key)));
+  for (const key of keys) {
+    await savePayerMapping(schoolId, learnPayerMapping(mappings[key], key, students));
   }
 }
 
+// ============================================
+// POST CREDITS AS PAYMENTS
+// ============================================
+
+export interface CreditPostingDraft {
+  transaction: BankTransaction;
+  guesses: StudentGuess[];
+  payment: PaymentRecordInput | null; // Prefilled when one student is a clear guess
+}
+
+export interface CreditPostingResult {
+  bankTransactionId: string;
+  success: boolean;
+  paymentId?: string;
+  receiptNumber?: string;
+  error?: string;
+}
+
+// Payments are recorded against this device's students, so guesses come from there too
+async function getStudentCandidates(): Promise<StudentCandidate[]> {
+  const students = await localDb.students.where('status').equals('active').toArray();
+  return students.map(student => ({
+    id: student.id,
+    studentNumber: student.studentId,
+    name: `${student.firstName} ${student.lastName}`,
+    guardianName: student.guardianName,
+    guardianPhones: student.guardianPhone ? [formatUgandanPhone(student.guardianPhone)] : [],
+    balance: student.balance,
+  }));
+}
+
+/**
+ * Lists the session's credits that matched no payment, each with the
+ * students it may be for and, where one is a clear guess, the payment to post
+ */
+export async function getCreditPostingDrafts(
+  schoolId: string,
+  sessionId: string
+): Promise<CreditPostingDraft[]> {
+  const txSnap = await getDocs(query(
+    collection(db, 'schools', schoolId, 'bankTransactions'),
+    where('sessionId', '==', sessionId),
+    where('status', '==', 'unmatched'),
+    where('type', '==', 'credit')
+  ));
+  const students = await getStudentCandidates();
+  const mappings = await getPayerMappings(schoolId);
+
+  return txSnap.docs.map(txDoc => {
+    const transaction = toBankTransaction(txDoc.id, txDoc.data());
+    const guesses = guessStudentsForCredit(transaction, students, mappings);
+    const confident = pickConfidentGuess(guesses);
+    return {
+      transaction,
+      guesses,
+      payment: confident ? buildCreditPayment(transaction, confident.studentId) : null,
+    };
+  });
+}
+
+/**
+ * Records an unmatched credit as a payment and matches the two in one step,
+ * so the bursar does not re-key it and match it by hand
+ */
+export async function postCreditAsPayment(
+  schoolId: string,
+  transactionId: string,
+  payment: PaymentRecordInput,
+  user: { id: string; name: string }
+): Promise<CreditPostingResult> {
+  const txDoc = await getDoc(doc(db, 'schools', schoolId, 'bankTransactions', transactionId));
+  const data = txDoc.data();
+  const posted = await localDb.payments.get(creditPaymentId(transactionId));
+  const plan = planCreditPosting(data as { type: string; status: string; amount: number } | undefined, payment.amount, posted);
+  if (plan.action === 'reject') {
+    return { bankTransactionId: transactionId, success: false, error: plan.error };
+  }
+  const credit = data!; // A missing credit is rejected above
+  try {
+    await assertSessionsOpen(schoolId, [credit.sessionId]);
+  } catch (error: any) {
+    return { bankTransactionId: transactionId, success: false, error: error.message };
+  }
+
+  const tx = toBankTransaction(transactionId, credit);
+  let recorded: { id: string; receiptNumber: string; studentId: string; studentName: string; amount: number };
+
+  if (plan.action === 'resume') {
+    // An earlier attempt recorded the payment but failed before the match was written
+    recorded = posted!;
+  } else {
+    // A cheque already on the statement has cleared, so there is nothing left to follow
+    const input: PaymentRecordInput = {
+      ...(payment.channel === 'cheque' && !payment.cheque
+        ? {
+            ...payment,
+            cheque: {
+              chequeNumber: payment.transactionRef || tx.reference,
+              bankName: 'Not recorded',
+              clearedAt: tx.transactionDate.toISOString(),
+            },
+          }
+        : payment),
+      // Records the payment as reconciled in the same local transaction, under the credit's payment ID
+      bankTransactionId: transactionId,
+    };
+
+    const result = await recordPayment(input, user.id, schoolId, true, user.name);
+    if (!result.success || !result.payment) {
+      return { bankTransactionId: transactionId, success: false, error: result.error || 'The payment could not be recorded' };
+    }
+    recorded = result.payment;
+  }
+  const paymentId = recorded.id;
+
+  const batch = writeBatch(db);
+  writeMatchGroup(batch, schoolId, {
+    kind: 'single',
+    bankTransactionIds: [transactionId],
+    paymentIds: [paymentId],
+  }, { [transactionId]: credit.amount, [paymentId]: recorded.amount }, {
+    matchType: 'manual',
+    matchConfidence: 100,
+    matchReason: 'Posted as a payment from the statement credit',
+    matchedBy: user.id,
+  });
+  await batch.commit();
+
+  await countManualMatches(schoolId, credit.sessionId, 1);
+  await learnPayers(schoolId, [tx], [
+    { studentId: recorded.studentId, studentName: recorded.studentName },
+  ]);
+
+  return {
+    bankTransactionId: transactionId,
+    success: true,
+    paymentId,
+    receiptNumber: recorded.receiptNumber,
+  };
+}
+
+// Posts credits one after another, so each gets the next receipt number
+export async function postCreditsAsPayments(
+  schoolId: string,
+  postings: { bankTransactionId: string; payment: PaymentRecordInput }[],
+  user: { id: string; name: string }
+): Promise<CreditPostingResult[]> {
+  const results: CreditPostingResult[] = [];
+  for (const posting of postings) {
+    try {
+      results.push(await postCreditAsPayment(schoolId, posting.bankTransactionId, posting.payment, user));
+    } catch (error: any) {
+      results.push({ bankTransactionId: posting.bankTransactionId, success: false, error: error.message });
+    }
+  }
+  return results;
+}
+
 export async function unmatchTransaction(
   schoolId: string,
   transactionId: string
 ): Promise<void> {
-  const txRef = doc(db, 'schools', schoolId, 'bankTransactions', transactionId);
-  
-  // Find and delete match record
-  const matchQuery = query(
-    collection(db, 'schools', schoolId, 'reconciliationMatches'),
-    where('bankTransactionId', '==', transactionId)
-  );
-  const matchSnap = await getDocs(matchQuery);
+  const txDoc = await getDoc(doc(db, 'schools', schoolId, 'bankTransactions', transactionId));
+  await assertSessionsOpen(schoolId, [txDoc.data()?.sessionId]);
+
+  const matchesRef = collection(db, 'schools', schoolId, 'reconciliationMatches');
   
-  for (const matchDoc of matchSnap.docs) {
+  // Find the match records, with the rest of any split or aggregate match
+  const matchSnap = await getDocs(query(matchesRef, where('bankTransactionId', '==', transactionId)));
+  const matchDocs = [...matchSnap.docs];
+  const groupIds = Array.from(new Set(matchSnap.docs.map(matchDoc => matchDoc.data().groupId).filter(Boolean)));
+  for (const groupId of groupIds) {
+    const groupSnap = await getDocs(query(matchesRef, where('groupId', '==', groupId)));
+    groupSnap.docs
+      .filter(groupDoc => !matchDocs.some(matchDoc => matchDoc.id === groupDoc.id))
+      .forEach(groupDoc => matchDocs.push(groupDoc));
+  }
+
+  const transactionIds = new Set<string>([transactionId]);
+  for (const matchDoc of matchDocs) {
     // Unreconcile the payment
     const paymentId = matchDoc.data().paymentId;
     await updateDoc(doc(db, 'schools', schoolId, 'payments', paymentId), {
       isReconciled: false,
     });
+    transactionIds.add(matchDoc.data().bankTransactionId);
     
     // Delete match
     await deleteDoc(matchDoc.ref);
   }
 
   // Update transaction status
-  await updateDoc(txRef, { status: 'unmatched' });
+  for (const id of Array.from(transactionIds)) {
+    await updateDoc(doc(db, 'schools', schoolId, 'bankTransactions', id), { status: 'unmatched' });
+  }
 }
 
 export async function ignoreTransaction(
@@ -453,6 +869,7 @@ export async function ignoreTransaction(
   userId: string
 ): Promise<void> {
   const txRef = doc(db, 'schools', schoolId, 'bankTransactions', transactionId);
+  await assertSessionsOpen(schoolId, [(await getDoc(txRef)).data()?.sessionId]);
   await updateDoc(txRef, {
     status: 'ignored',
     ignoreReason: reason,
@@ -461,6 +878,17 @@ export async function ignoreTransaction(
   });
 }
 
+// A closed session is the record auditors signed off, so its matches are frozen
+async function assertSessionsOpen(schoolId: string, sessionIds: (string | undefined)[]): Promise<void> {
+  const ids = Array.from(new Set(sessionIds.filter((id): id is string => !!id)));
+  for (const sessionId of ids) {
+    const sessionDoc = await getDoc(doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId));
+    if (sessionDoc.data()?.status === 'completed') {
+      throw new Error('This reconciliation has been closed and can no longer be changed');
+    }
+  }
+}
+
 // ============================================
 // RECONCILIATION SUMMARY
 // ============================================
@@ -547,6 +975,136 @@ export async function getReconciliationSummary(
   };
 }
 
+// ============================================
+// CLOSE-OUT
+// ============================================
+
+export interface CloseOutInput {
+  openingBalance: number;
+  closingBalance: number;
+  notes?: string;
+}
+
+/**
+ * Builds the bank reconciliation statement from the session as it stands,
+ * for review before it is closed
+ */
+export async function previewReconciliationStatement(
+  schoolId: string,
+  sessionId: string,
+  input: CloseOutInput,
+  user: { id: string; name: string }
+): Promise<ReconciliationStatement> {
+  const sessionDoc = await getDoc(doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId));
+  const session = sessionDoc.data();
+  if (!session) {
+    throw new Error('Reconciliation session not found');
+  }
+
+  const txSnap = await getDocs(query(
+    collection(db, 'schools', schoolId, 'bankTransactions'),
+    where('sessionId', '==', sessionId)
+  ));
+  const paymentsSnap = await getDocs(query(
+    collection(db, 'schools', schoolId, 'payments'),
+    where('date', '>=', session.statementPeriodStart),
+    where('date', '<=', session.statementPeriodEnd),
+    where('status', '==', 'completed')
+  ));
+
+  return buildReconciliationStatement({
+    session: {
+      id: sessionId,
+      bankAccountName: session.bankAccountName,
+      bankAccountNumber: session.bankAccountNumber,
+      source: session.source,
+      statementPeriodStart: session.statementPeriodStart.toDate(),
+      statementPeriodEnd: session.statementPeriodEnd.toDate(),
+    },
+    openingBalance: input.openingBalance,
+    closingBalance: input.closingBalance,
+    transactions: txSnap.docs.map(txDoc => ({
+      ...toBankTransaction(txDoc.id, txDoc.data()),
+      status: txDoc.data().status as ReconciliationStatus,
+    })),
+    receipts: paymentsSnap.docs.map(paymentDoc => {
+      const payment = paymentDoc.data();
+      return {
+        id: paymentDoc.id,
+        date: payment.date?.toDate() || new Date(),
+        reference: payment.receiptNumber || payment.transactionRef || '',
+        description: payment.studentName || '',
+        amount: payment.amount || 0,
+        channel: payment.channel,
+        isReconciled: !!payment.isReconciled,
+      };
+    }),
+    preparedBy: user.id,
+    preparedByName: user.name,
+    notes: input.notes,
+  });
+}
+
+/**
+ * Closes the session: the statement is stored with it, matches are locked
+ * and the close-out is written to the audit log. A statement that does not
+ * balance needs a note explaining the difference.
+ */
+export async function closeReconciliationSession(
+  schoolId: string,
+  sessionId: string,
+  input: CloseOutInput,
+  user: { id: string; name: string }
+): Promise<ReconciliationStatement> {
+  const sessionRef = doc(db, 'schools', schoolId, 'reconciliationSessions', sessionId);
+  await assertSessionsOpen(schoolId, [sessionId]);
+
+  const statement = await previewReconciliationStatement(schoolId, sessionId, input, user);
+  if (statement.difference !== 0 && !input.notes?.trim()) {
+    throw new Error('Explain the unreconciled difference in the notes before closing');
+  }
+
+  await updateDoc(sessionRef, {
+    status: 'completed',
+    completedAt: Timestamp.fromDate(statement.preparedAt),
+    completedBy: user.id,
+    openingBalance: statement.openingBalance,
+    closingBalance: statement.statementClosingBalance,
+    statement,
+    ...(input.notes && { notes: input.notes }),
+  });
+
+  await logAuditAction('CLOSE', 'reconciliationSessions', sessionId, user.id, {
+    schoolId,
+    bankAccountNumber: statement.bankAccountNumber,
+    openingBalance: statement.openingBalance,
+    closingBalance: statement.statementClosingBalance,
+    reconciledBalance: statement.reconciledBalance,
+    difference: statement.difference,
+    unpresentedCount: statement.unpresentedItems.length,
+    unmatchedCreditsCount: statement.unmatchedCredits.length,
+  });
+
+  return statement;
+}
+
+function toStatementItems(items: any[] = []): ReconciliationStatementItem[] {
+  return items.map(item => ({ ...item, date: item.date?.toDate?.() || new Date(item.date) }));
+}
+
+function toReconciliationStatement(data: Record<string, any>): ReconciliationStatement {
+  return {
+    ...(data as ReconciliationStatement),
+    periodStart: data.periodStart?.toDate?.() || new Date(data.periodStart),
+    periodEnd: data.periodEnd?.toDate?.() || new Date(data.periodEnd),
+    preparedAt: data.preparedAt?.toDate?.() || new Date(data.preparedAt),
+    unpresentedItems: toStatementItems(data.unpresentedItems),
+    unmatchedCredits: toStatementItems(data.unmatchedCredits),
+    otherCredits: toStatementItems(data.otherCredits),
+    debits: toStatementItems(data.debits),
+  };
+}
+
 // ============================================
 // GET SESSIONS
 // ============================================
@@ -568,6 +1126,7 @@ export async function getReconciliationSessions(
       statementPeriodStart: data.statementPeriodStart?.toDate() || new Date(),
       statementPeriodEnd: data.statementPeriodEnd?.toDate() || new Date(),
       fileName: data.fileName,
+      source: data.source || 'bank',
       importedAt: data.importedAt?.toDate() || new Date(),
       importedBy: data.importedBy,
       status: data.status,
@@ -577,9 +1136,12 @@ export async function getReconciliationSessions(
       matchedCount: data.matchedCount,
       unmatchedCount: data.unmatchedCount,
       ignoredCount: data.ignoredCount,
+      openingBalance: data.openingBalance,
+      closingBalance: data.closingBalance,
       completedAt: data.completedAt?.toDate(),
       completedBy: data.completedBy,
       notes: data.notes,
+      ...(data.statement && { statement: toReconciliationStatement(data.statement) }),
     };
   });
 }
@@ -605,18 +1167,22 @@ export function parseBankStatement(
     // Parse date
     let transactionDate: Date;
     try {
-      transactionDate = parseDate(dateStr, config.dateFormat);
+      transactionDate = parseStatementDate(dateStr, config.dateFormat);
     } catch {
       continue; // Skip invalid rows
     }
 
     // Parse amount
-    const amount = parseAmount(amountStr);
+    let amount = parseAmount(amountStr ?? 0);
+    if (config.creditColumn && config.debitColumn) {
+      const credit = parseAmount(row[config.creditColumn] as string | number ?? 0);
+      amount = credit !== 0 ? credit : -Math.abs(parseAmount(row[config.debitColumn] as string | number ?? 0));
+    }
     if (amount === 0) continue;
 
     // Determine type
     let type: 'credit' | 'debit' = 'credit';
-    if (typeStr) {
+    if (typeStr && !config.creditColumn) {
       if (config.debitIndicator && typeStr.toUpperCase().includes(config.debitIndicator.toUpperCase())) {
         type = 'debit';
       } else if (config.creditIndicator && typeStr.toUpperCase().includes(config.creditIndicator.toUpperCase())) {
@@ -634,7 +1200,7 @@ export function parseBankStatement(
       description,
       amount: Math.abs(amount),
       type,
-      balance: parseAmount(balanceStr),
+      balance: parseAmount(balanceStr ?? 0),
       rawData: row,
     });
   }
@@ -642,28 +1208,180 @@ export function parseBankStatement(
   return transactions;
 }
 
-function parseDate(dateStr: string, format: string): Date {
-  // Simple date parser - in production use date-fns or moment
-  const cleaned = dateStr.trim();
-  
-  if (format === 'DD/MM/YYYY') {
-    const [day, month, year] = cleaned.split('/').map(Number);
-    return new Date(year, month - 1, day);
-  } else if (format === 'DD-MMM-YYYY') {
-    const months: { [key: string]: number } = {
-      'JAN': 0, 'FEB': 1, 'MAR': 2, 'APR': 3, 'MAY': 4, 'JUN': 5,
-      'JUL': 6, 'AUG': 7, 'SEP': 8, 'OCT': 9, 'NOV': 10, 'DEC': 11
+// ============================================
+// PARSE MOBILE MONEY STATEMENT
+// ============================================
+
+// Student IDs like EDU-2023-045-KC that parents type into the payment message
+const STUDENT_REFERENCE_PATTERN = /\bEDU[-\s]?(\d{4})[-\s]?(\d{3,4})[-\s]?([A-Z0-9]{1,4})\b/i;
+
+export function extractStudentReference(text: string): string | undefined {
+  const match = text.match(STUDENT_REFERENCE_PATTERN);
+  return match ? `EDU-${match[1]}-${match[2]}-${match[3]}`.toUpperCase() : undefined;
+}
+
+export function parseMobileMoneyStatement(
+  rows: Record<string, unknown>[],
+  config: MobileMoneyImportConfig
+): BankTransaction[] {
+  const transactions: BankTransaction[] = [];
+
+  for (const row of rows) {
+    // Failed and pending transfers never reached the merchant account
+    if (config.statusColumn && config.successStatus) {
+      const status = String(row[config.statusColumn] ?? '').trim();
+      if (status.toUpperCase() !== config.successStatus.toUpperCase()) continue;
+    }
+
+    let transactionDate: Date;
+    try {
+      transactionDate = parseStatementDate(String(row[config.dateColumn] ?? ''), config.dateFormat);
+    } catch {
+      continue; // Skip invalid rows
+    }
+
+    const amount = parseAmount(row[config.amountColumn] as string | number);
+    if (amount === 0) continue;
+
+    const transactionId = String(row[config.transactionIdColumn] ?? '').trim();
+    const msisdn = String(row[config.msisdnColumn] ?? '').trim();
+    const payerName = config.payerNameColumn ? String(row[config.payerNameColumn] ?? '').trim() : '';
+    const message = String(row[config.messageColumn] ?? '').trim();
+    const typeStr = config.typeColumn ? String(row[config.typeColumn] ?? '').toUpperCase() : '';
+
+    let type: 'credit' | 'debit' = amount < 0 ? 'debit' : 'credit';
+    if (typeStr && config.debitIndicator && typeStr.includes(config.debitIndicator.toUpperCase())) {
+      type = 'debit';
+    } else if (typeStr && config.creditIndicator && typeStr.includes(config.creditIndicator.toUpperCase())) {
+      type = 'credit';
+    }
+
+    const studentReference = extractStudentReference(message);
+
+    transactions.push({
+      id: `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      transactionDate,
+      valueDate: transactionDate,
+      reference: transactionId,
+      description: [payerName, message].filter(Boolean).join(' - '),
+      amount: Math.abs(amount),
+      type,
+      balance: config.balanceColumn ? parseAmount(row[config.balanceColumn] as string | number) : 0,
+      rawData: row,
+      source: config.provider,
+      ...(msisdn && { payerMsisdn: formatUgandanPhone(msisdn) }),
+      ...(payerName && { payerName }),
+      ...(studentReference && { studentReference }),
+    });
+  }
+
+  return transactions;
+}
+
+// ============================================
+// STATEMENT IMPORTERS
+// ============================================
+
+function mobileMoneyImporter(key: string, config: MobileMoneyImportConfig): StatementImporter {
+  return {
+    key,
+    label: config.providerName,
+    source: config.provider,
+    requiredColumns: [config.transactionIdColumn, config.msisdnColumn, config.amountColumn, config.dateColumn],
+    parse: rows => parseMobileMoneyStatement(rows, config),
+  };
+}
+
+export function createBankImporter(key: string, config: BankImportConfig): StatementImporter {
+  const amountColumns = config.creditColumn && config.debitColumn
+    ? [config.creditColumn, config.debitColumn]
+    : [config.amountColumn];
+  return {
+    key,
+    label: config.bankName,
+    source: 'bank',
+    requiredColumns: [config.dateColumn, config.descriptionColumn, ...amountColumns],
+    parse: rows => parseBankStatement(rows, config),
+  };
+}
+
+// Mobile money layouts come first as their columns are the more specific
+export const STATEMENT_IMPORTERS: StatementImporter[] = [
+  ...Object.keys(UGANDA_MOBILE_MONEY_CONFIGS).map(key => mobileMoneyImporter(key, UGANDA_MOBILE_MONEY_CONFIGS[key])),
+  ...Object.keys(UGANDA_BANK_CONFIGS).map(key => createBankImporter(key, UGANDA_BANK_CONFIGS[key])),
+];
+
+// The first importer whose identifying columns are all in the file's header
+export function detectStatementImporter(
+  columns: string[],
+  importers: StatementImporter[] = STATEMENT_IMPORTERS
+): StatementImporter | undefined {
+  const header = columns.map(column => column.trim().toLowerCase());
+  return importers.find(importer =>
+    importer.requiredColumns.every(column => header.includes(column.toLowerCase()))
+  );
+}
+
+// ============================================
+// SAVED BANK FORMATS
+// ============================================
+
+function bankImportConfigsRef(schoolId: string) {
+  return collection(db, 'schools', schoolId, 'bankImportConfigs');
+}
+
+export async function getSchoolBankImportConfigs(schoolId: string): Promise<SavedBankImportConfig[]> {
+  const snapshot = await getDocs(query(bankImportConfigsRef(schoolId), orderBy('bankName')));
+  return snapshot.docs.map(configDoc => {
+    const data = configDoc.data();
+    return {
+      ...(data as BankImportConfig),
+      id: configDoc.id,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate() || new Date(),
     };
-    const parts = cleaned.split('-');
-    return new Date(parseInt(parts[2]), months[parts[1].toUpperCase()] || 0, parseInt(parts[0]));
-  } else if (format === 'YYYY-MM-DD') {
-    return new Date(cleaned);
-  } else if (format === 'DD-MM-YYYY') {
-    const [day, month, year] = cleaned.split('-').map(Number);
-    return new Date(year, month - 1, day);
+  });
+}
+
+/**
+ * Saves a column mapping built for a bank the app has no configuration for,
+ * so the next statement from that bank is recognised on upload
+ */
+export async function saveBankImportConfig(
+  schoolId: string,
+  config: BankImportConfig,
+  userId: string
+): Promise<SavedBankImportConfig> {
+  if (!config.bankName.trim()) {
+    throw new Error('Name the bank this format is for');
   }
-  
-  return new Date(cleaned);
+  if (!config.dateColumn || !config.descriptionColumn) {
+    throw new Error('Choose the date and description columns');
+  }
+  if (!config.amountColumn && !(config.creditColumn && config.debitColumn)) {
+    throw new Error('Choose the amount column, or both the credit and debit columns');
+  }
+
+  // Firestore rejects undefined, so only the mapped columns are stored
+  const fields = Object.keys(config).reduce<Record<string, unknown>>((stored, key) => {
+    const value = config[key as keyof BankImportConfig];
+    if (value !== undefined && value !== '') stored[key] = value;
+    return stored;
+  }, {});
+
+  const createdAt = new Date();
+  const ref = await addDoc(bankImportConfigsRef(schoolId), {
+    ...fields,
+    bankName: config.bankName.trim(),
+    createdBy: userId,
+    createdAt: Timestamp.fromDate(createdAt),
+  });
+
+  return { ...config, bankName: config.bankName.trim(), id: ref.id, createdBy: userId, createdAt };
+}
+
+export function getSavedBankImporters(configs: SavedBankImportConfig[]): StatementImporter[] {
+  return configs.map(config => createBankImporter(`saved:${config.id}`, config));
 }
 
 // ============================================
@@ -0,0 +1,212 @@
+/**
+ * Cheque Service
+ * Follows cheque payments from the bursar's office to the bank and back:
+ * deposit, clearance, and the reversal of a cheque the bank returns unpaid
+ */
+
+import { db as localDb, dbHelpers, DBPayment } from '@/lib/db';
+import { paymentJournal } from '@/lib/db/journal';
+import { syncService } from '@/lib/sync';
+import {
+  getChequeAgeDays,
+  isChequeOverdue,
+  markChequeBounced,
+  markChequeCleared,
+  markChequeDeposited,
+  addBankCharge,
+} from '@/lib/cheques/state';
+import { sendBouncedChequeEmail, sendBouncedChequeSMS } from '@/lib/services/notification.service';
+import { formatUGX, isOnline } from '@/lib/utils';
+import {
+  CHEQUE_CLEARANCE_WORKING_DAYS,
+  CHEQUE_OVERDUE_DAYS,
+  ChequeBounceInput,
+  ChequeDetails,
+  ChequeStatus,
+} from '@/types/cheque';
+
+export interface ChequePayment {
+  paymentId: string;
+  receiptNumber: string;
+  studentId: string;
+  studentName: string;
+  amount: number;
+  paymentDate: string;
+  cheque: ChequeDetails;
+  ageDays: number;
+  isOverdue: boolean;
+}
+
+export interface ChequeBounceResult {
+  paymentId: string;
+  reversalEntryId: string;
+  newBalance: number;
+  guardianNotified: boolean;
+}
+
+type ChequeUser = { id: string; name: string };
+
+function toChequePayment(payment: DBPayment, now: Date, overdueDays: number): ChequePayment {
+  const cheque = payment.cheque!;
+  return {
+    paymentId: payment.id,
+    receiptNumber: payment.receiptNumber,
+    studentId: payment.studentId,
+    studentName: payment.studentName,
+    amount: payment.amount,
+    paymentDate: payment.paymentDate,
+    cheque,
+    ageDays: getChequeAgeDays(cheque, now),
+    isOverdue: isChequeOverdue(cheque, now, overdueDays),
+  };
+}
+
+/**
+ * Lists the cheques on this device, oldest first, optionally only those in
+ * the given states
+ */
+export async function getChequePayments(
+  statuses?: ChequeStatus[],
+  overdueDays: number = CHEQUE_OVERDUE_DAYS,
+  now: Date = new Date()
+): Promise<ChequePayment[]> {
+  const payments = statuses
+    ? await localDb.payments.where('cheque.status').anyOf(statuses).toArray()
+    : await localDb.payments.filter(payment => !!payment.cheque).toArray();
+
+  return payments
+    .map(payment => toChequePayment(payment, now, overdueDays))
+    .sort((a, b) => a.cheque.receivedAt.localeCompare(b.cheque.receivedAt));
+}
+
+export async function getOverdueCheques(
+  overdueDays: number = CHEQUE_OVERDUE_DAYS,
+  now: Date = new Date()
+): Promise<ChequePayment[]> {
+  const outstanding = await getChequePayments(['received', 'deposited'], overdueDays, now);
+  return outstanding.filter(cheque => cheque.isOverdue);
+}
+
+async function updateCheque(
+  paymentId: string,
+  user: ChequeUser,
+  change: (cheque: ChequeDetails) => ChequeDetails,
+  describe: (payment: DBPayment, cheque: ChequeDetails) => string
+): Promise<ChequeDetails> {
+  return localDb.transaction('rw', [localDb.payments, localDb.syncQueue, localDb.auditLogs, localDb.devices], async () => {
+    const payment = await localDb.payments.get(paymentId);
+    if (!payment?.cheque) throw new Error('Cheque payment not found');
+
+    const cheque = { ...change(payment.cheque), updatedBy: user.id };
+    await dbHelpers.saveLocalChange('payments', { ...payment, cheque });
+    await dbHelpers.logAudit('update', 'payment', paymentId, user.id, user.name, describe(payment, cheque));
+    return cheque;
+  });
+}
+
+export async function depositCheque(
+  paymentId: string,
+  user: ChequeUser,
+  depositedAt: Date = new Date(),
+  clearanceDays: number = CHEQUE_CLEARANCE_WORKING_DAYS
+): Promise<ChequeDetails> {
+  return updateCheque(
+    paymentId,
+    user,
+    cheque => markChequeDeposited(cheque, depositedAt, clearanceDays),
+    (payment, cheque) => `Cheque ${cheque.chequeNumber} (${payment.receiptNumber}) deposited, expected to clear ${new Date(cheque.expectedClearanceDate!).toLocaleDateString('en-UG')}`
+  );
+}
+
+export async function clearCheque(
+  paymentId: string,
+  user: ChequeUser,
+  clearedAt: Date = new Date()
+): Promise<ChequeDetails> {
+  return updateCheque(
+    paymentId,
+    user,
+    cheque => markChequeCleared(cheque, clearedAt),
+    (payment, cheque) => `Cheque ${cheque.chequeNumber} (${payment.receiptNumber}) cleared`
+  );
+}
+
+/**
+ * Reverses a payment whose cheque the bank returned unpaid. The receipt is
+ * reversed in the journal, the amount comes off the student's account with
+ * the bank's charge added to their fees, and the guardian is told.
+ */
+export async function bounceCheque(
+  paymentId: string,
+  bounce: ChequeBounceInput,
+  user: ChequeUser
+): Promise<ChequeBounceResult> {
+  const result = await localDb.transaction(
+    'rw',
+    [localDb.students, localDb.payments, localDb.paymentJournal, localDb.syncQueue, localDb.auditLogs, localDb.devices],
+    async () => {
+      const payment = await localDb.payments.get(paymentId);
+      if (!payment?.cheque) throw new Error('Cheque payment not found');
+
+      // Checked before anything is reversed
+      const cheque = { ...markChequeBounced(payment.cheque, bounce), updatedBy: user.id };
+
+      const reversal = await paymentJournal.reversePayment(
+        paymentId,
+        `Cheque ${cheque.chequeNumber} returned unpaid: ${cheque.bounceReason}`,
+        user.id,
+        user.name,
+        'bounced'
+      );
+      const reversed = await localDb.payments.get(paymentId);
+      await dbHelpers.saveLocalChange('payments', { ...reversed!, cheque });
+
+      // The reversal has already taken the payment off the student's account
+      const student = await localDb.students.get(payment.studentId);
+      if (!student) throw new Error('Student not found on this device. Sync student records and try again.');
+
+      const account = addBankCharge(student, bounce.bankCharge);
+      if (bounce.bankCharge > 0) {
+        await dbHelpers.saveLocalChange('students', { ...student, ...account });
+        await dbHelpers.logAudit(
+          'update', 'student', student.id, user.id, user.name,
+          `Bank charge of ${formatUGX(bounce.bankCharge)} for returned cheque ${cheque.chequeNumber} added to fees`
+        );
+      }
+
+      return { payment, cheque, student, reversal, newBalance: account.balance };
+    }
+  );
+
+  if (isOnline()) {
+    syncService.sync().catch(error => console.error('Sync after cheque bounce failed:', error));
+  }
+
+  // Queued in the outbox, so the guardian hears even if the bounce is recorded offline
+  let guardianNotified = false;
+  if (bounce.notifyGuardian !== false) {
+    const notice = {
+      studentId: result.student.id,
+      studentName: result.payment.studentName,
+      chequeNumber: result.cheque.chequeNumber,
+      amount: result.payment.amount,
+      bankCharge: bounce.bankCharge,
+      reason: result.cheque.bounceReason!,
+      balance: result.newBalance,
+      receiptNumber: result.payment.receiptNumber,
+    };
+    if (result.student.guardianPhone) {
+      guardianNotified = await sendBouncedChequeSMS(result.student.guardianPhone, notice, result.student.guardianAlternatePhone);
+    }
+    if (result.student.guardianEmail) {
+      guardianNotified = await sendBouncedChequeEmail(result.student.guardianEmail, notice) || guardianNotified;
+    }
+  }
+
+  return {
+    paymentId,
+    reversalEntryId: result.reversal.id,
+    newBalance: result.newBalance,
+    guardianNotified,
+  };
+}
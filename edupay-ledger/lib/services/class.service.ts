@@ -22,6 +22,8 @@ import {
 import { db, initializeFirebase, COLLECTIONS } from "@/lib/firebase";
 import type { SchoolClass, Stream } from "@/types/school";
 import type { Student, PaymentStatus } from "@/types/student";
+import type { MessageLanguage } from "@/types/message-template";
+import type { ChannelPreference } from "@/types/outbox";
 
 // ============================================================================
 // TYPES
@@ -47,6 +49,10 @@ export interface ClassStudentSummary {
   gender: "male" | "female";
   guardianName: string;
   guardianPhone: string;
+  guardianAlternatePhone?: string;
+  guardianEmail?: string;
+  guardianLanguage?: MessageLanguage;
+  guardianChannel?: ChannelPreference;
   totalFees: number;
   amountPaid: number;
   balance: number;
@@ -66,7 +72,10 @@ export interface AddStudentToClassData {
   streamName?: string;
   guardianName: string;
   guardianPhone: string;
+  guardianAlternatePhone?: string;
   guardianEmail?: string;
+  guardianLanguage?: MessageLanguage;
+  guardianChannel?: ChannelPreference;
   guardianRelationship?: "father" | "mother" | "guardian" | "other";
   boardingStatus?: "day" | "boarding" | "half_boarding";
   previousSchool?: string;
@@ -400,6 +409,10 @@ export async function getStudentsForClass(
         gender: data.gender,
         guardianName: data.guardian?.name || "",
         guardianPhone: data.guardian?.phone || "",
+        guardianAlternatePhone: data.guardian?.alternatePhone,
+        guardianEmail: data.guardian?.email,
+        guardianLanguage: data.guardian?.preferredLanguage,
+        guardianChannel: data.guardian?.preferredChannel,
         totalFees: data.totalFees,
         amountPaid: data.amountPaid,
         balance: data.balance,
@@ -597,6 +610,8 @@ export async function addStudentToClass(
         phone: data.guardianPhone,
         email: data.guardianEmail,
         relationship: data.guardianRelationship || "guardian",
+        ...(data.guardianLanguage && { preferredLanguage: data.guardianLanguage }),
+        ...(data.guardianChannel && { preferredChannel: data.guardianChannel }),
       },
       totalFees: 0,
       amountPaid: 0,
@@ -647,8 +662,14 @@ export async function updateStudent(
     if (data.streamName !== undefined) updates.streamName = data.streamName;
     if (data.guardianName) updates["guardian.name"] = data.guardianName;
     if (data.guardianPhone) updates["guardian.phone"] = data.guardianPhone;
+    if (data.guardianAlternatePhone !== undefined)
+      updates["guardian.alternatePhone"] = data.guardianAlternatePhone;
     if (data.guardianEmail !== undefined)
       updates["guardian.email"] = data.guardianEmail;
+    if (data.guardianLanguage)
+      updates["guardian.preferredLanguage"] = data.guardianLanguage;
+    if (data.guardianChannel)
+      updates["guardian.preferredChannel"] = data.guardianChannel;
     if (data.guardianRelationship)
       updates["guardian.relationship"] = data.guardianRelationship;
     if (data.boardingStatus !== undefined)
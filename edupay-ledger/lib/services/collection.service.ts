@@ -0,0 +1,348 @@
+/**
+ * Mobile Money Collection Service
+ * Sends request-to-pay prompts to a parent's phone through MTN MoMo or Airtel
+ * Money and follows them by polling or callback. The school's devices settle
+ * every request from the sync loop and record the payment once the money has
+ * been collected, so closing the prompt on the parent's side loses nothing.
+ */
+
+import {
+  collection as firestoreCollection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { db as localDb, dbHelpers } from '@/lib/db';
+import {
+  applyCollectionUpdate,
+  canSettleCollection,
+  COLLECTION_TIMEOUT_MS,
+  collectionPaymentId,
+  expireCollection,
+  getCollectionCallbackReference,
+  isAwaitingSettlement,
+  mergeCollectionRequest,
+  parseAirtelCollectionStatus,
+  parseMtnCollectionStatus,
+  planCollectionSettlement,
+} from '@/lib/collections/state';
+import {
+  CollectionGateway,
+  createAirtelMoneyGateway,
+  createMtnMomoGateway,
+  createSandboxGateway,
+} from '@/lib/collections/gateways';
+import { formatUgandanPhone } from '@/lib/services/sms.service';
+import { recordPayment } from '@/lib/services/payment.service';
+import {
+  COLLECTION_CHANNELS,
+  CollectionProvider,
+  CollectionRequest,
+  CollectionStatusUpdate,
+} from '@/types/collection';
+import type { QuickPayRequest } from '@/types/parent-portal';
+
+// 'live' talks to the MTN and Airtel APIs; anything else uses the local sandbox
+const COLLECTIONS_MODE = process.env.NEXT_PUBLIC_COLLECTIONS_MODE || 'sandbox';
+
+// One gateway per network, so the sandbox keeps its requests between polls
+const gateways: Partial<Record<CollectionProvider, CollectionGateway>> = {};
+
+// Payments being recorded, so overlapping polls record only one
+const recording = new Map<string, Promise<CollectionRequest>>();
+
+export function getCollectionGateway(provider: CollectionProvider): CollectionGateway {
+  if (gateways[provider]) return gateways[provider]!;
+
+  if (COLLECTIONS_MODE !== 'live') {
+    gateways[provider] = createSandboxGateway(provider, {
+      onCallback: (from, body) => {
+        handleCollectionCallback(from, body).catch(error => console.error('Collection callback failed:', error));
+      },
+    });
+  } else if (provider === 'mtn') {
+    if (!process.env.MTN_MOMO_SUBSCRIPTION_KEY || !process.env.MTN_MOMO_API_USER || !process.env.MTN_MOMO_API_KEY) {
+      throw new Error('MTN Mobile Money collections are not configured');
+    }
+    gateways[provider] = createMtnMomoGateway({
+      baseUrl: process.env.MTN_MOMO_BASE_URL || 'https://proxy.momoapi.mtn.com',
+      subscriptionKey: process.env.MTN_MOMO_SUBSCRIPTION_KEY,
+      apiUser: process.env.MTN_MOMO_API_USER,
+      apiKey: process.env.MTN_MOMO_API_KEY,
+      targetEnvironment: process.env.MTN_MOMO_TARGET_ENVIRONMENT || 'mtnuganda',
+      callbackUrl: process.env.MTN_MOMO_CALLBACK_URL,
+    });
+  } else {
+    if (!process.env.AIRTEL_MONEY_CLIENT_ID || !process.env.AIRTEL_MONEY_CLIENT_SECRET) {
+      throw new Error('Airtel Money collections are not configured');
+    }
+    gateways[provider] = createAirtelMoneyGateway({
+      baseUrl: process.env.AIRTEL_MONEY_BASE_URL || 'https://openapi.airtel.africa',
+      clientId: process.env.AIRTEL_MONEY_CLIENT_ID,
+      clientSecret: process.env.AIRTEL_MONEY_CLIENT_SECRET,
+    });
+  }
+  return gateways[provider]!;
+}
+
+// MTN requires the request's reference ID to be a UUID
+function generateCollectionId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.random() * 16 | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Sends a payment prompt to the parent's phone. The request is saved before
+ * the network is called, so a prompt that fails to send is still on record.
+ */
+export async function requestMobileMoneyPayment(
+  request: QuickPayRequest,
+  schoolId: string,
+  requestedBy: string
+): Promise<CollectionRequest> {
+  if (request.provider === 'bank') {
+    throw new Error('Bank payments cannot be requested from a phone');
+  }
+  if (!(request.amount > 0)) {
+    throw new Error('Enter an amount to collect');
+  }
+  if (!request.phoneNumber.trim()) {
+    throw new Error('Enter the mobile money number to send the prompt to');
+  }
+
+  const gateway = getCollectionGateway(request.provider);
+  const student = await localDb.students.get(request.studentId);
+  const now = new Date();
+
+  let collection: CollectionRequest = {
+    id: generateCollectionId(),
+    schoolId,
+    studentId: request.studentId,
+    ...(student && { studentName: `${student.firstName} ${student.lastName}` }),
+    amount: request.amount,
+    currency: 'UGX',
+    phoneNumber: formatUgandanPhone(request.phoneNumber),
+    provider: request.provider,
+    reference: request.reference || `School fees ${student?.studentId || request.studentId}`,
+    status: 'pending',
+    pollCount: 0,
+    requestedBy,
+    requestedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + COLLECTION_TIMEOUT_MS).toISOString(),
+  };
+  await localDb.collectionRequests.add(collection);
+
+  try {
+    await gateway.requestToPay({
+      referenceId: collection.id,
+      amount: collection.amount,
+      currency: collection.currency,
+      phoneNumber: collection.phoneNumber,
+      payerMessage: collection.reference,
+    });
+  } catch (error: any) {
+    collection = applyCollectionUpdate(collection, {
+      status: 'failed',
+      reason: error.message || 'The payment prompt could not be sent',
+    });
+    await localDb.collectionRequests.put(collection);
+  }
+  await publishCollection(collection);
+  return collection;
+}
+
+/**
+ * Asks the network where a pending request stands, timing it out once the
+ * prompt has expired. A status check that fails leaves the request pending.
+ * The payment itself is recorded by a school device; see pollPendingCollections.
+ */
+export async function checkCollection(id: string): Promise<CollectionRequest> {
+  const collection = await localDb.collectionRequests.get(id);
+  if (!collection) {
+    throw new Error('Collection request not found');
+  }
+  if (collection.status !== 'pending') return collection;
+
+  const now = new Date();
+  let update: CollectionStatusUpdate = { status: 'pending' };
+  try {
+    update = await getCollectionGateway(collection.provider).getStatus(id);
+  } catch (error) {
+    console.error('Collection status check failed:', error);
+  }
+
+  return saveUpdate(id, update, now, true);
+}
+
+/**
+ * Applies a callback from MTN or Airtel. Returns null when it is not for one
+ * of this device's requests.
+ */
+export async function handleCollectionCallback(
+  provider: CollectionProvider,
+  body: unknown
+): Promise<CollectionRequest | null> {
+  const id = getCollectionCallbackReference(provider, body);
+  if (!id || !(await localDb.collectionRequests.get(id))) return null;
+
+  const update = provider === 'mtn' ? parseMtnCollectionStatus(body) : parseAirtelCollectionStatus(body);
+  return saveUpdate(id, update, new Date(), false);
+}
+
+async function saveUpdate(
+  id: string,
+  update: CollectionStatusUpdate,
+  now: Date,
+  polled: boolean
+): Promise<CollectionRequest> {
+  const current = await localDb.collectionRequests.get(id);
+  if (!current) {
+    throw new Error('Collection request not found');
+  }
+
+  let collection = expireCollection(applyCollectionUpdate(current, update, now), now);
+  if (polled) {
+    collection = { ...collection, pollCount: collection.pollCount + 1, lastPolledAt: now.toISOString() };
+  }
+  await localDb.collectionRequests.put(collection);
+
+  // The school's devices learn of the outcome even if nobody here is watching any more
+  if (collection.status !== current.status) {
+    await publishCollection(collection);
+  }
+  return collection;
+}
+
+// Shares a request with the school's devices, which settle it and record the payment
+async function publishCollection(collection: CollectionRequest): Promise<void> {
+  const data: Record<string, unknown> = { awaitingSettlement: isAwaitingSettlement(collection) };
+  Object.entries(collection).forEach(([key, value]) => {
+    if (value !== undefined) data[key] = value;
+  });
+
+  try {
+    await setDoc(doc(db, 'schools', collection.schoolId, 'collectionRequests', collection.id), data, { merge: true });
+  } catch (error) {
+    console.error('Could not share the collection request with the school:', error);
+  }
+}
+
+// Brings the school's requests that still need settling onto this device
+async function downloadOpenCollections(schoolId: string): Promise<void> {
+  const snapshot = await getDocs(query(
+    firestoreCollection(db, 'schools', schoolId, 'collectionRequests'),
+    where('awaitingSettlement', '==', true)
+  ));
+
+  for (const remoteDoc of snapshot.docs) {
+    const { awaitingSettlement, ...remote } = remoteDoc.data() as CollectionRequest & { awaitingSettlement: boolean };
+    const local = await localDb.collectionRequests.get(remoteDoc.id);
+    await localDb.collectionRequests.put(mergeCollectionRequest(local, remote));
+  }
+}
+
+/**
+ * Claims a collected request for this device, so no other school device
+ * records its payment too. Returns false when another device has it.
+ */
+async function claimCollection(collection: CollectionRequest, deviceId: string): Promise<boolean> {
+  const ref = doc(db, 'schools', collection.schoolId, 'collectionRequests', collection.id);
+  return runTransaction(db, async transaction => {
+    const remote = await transaction.get(ref);
+    if (remote.exists() && !canSettleCollection(remote.data() as CollectionRequest, deviceId)) return false;
+    transaction.set(ref, { settledBy: deviceId }, { merge: true });
+    return true;
+  });
+}
+
+/**
+ * Records the collected money as a payment, once this device has claimed
+ * the request. If recording fails, for example because the student's record
+ * is not on this device, the error is kept and the next poll tries again.
+ */
+function recordCollectionPayment(collection: CollectionRequest): Promise<CollectionRequest> {
+  if (!recording.has(collection.id)) {
+    recording.set(collection.id, (async () => {
+      const current = await localDb.collectionRequests.get(collection.id) || collection;
+      if (current.paymentId) return current;
+
+      const device = await dbHelpers.getLocalDevice();
+      if (!canSettleCollection(current, device.id) || !(await claimCollection(current, device.id))) {
+        return current;
+      }
+
+      // Recorded by an earlier attempt that failed before the request was updated
+      const recorded = await localDb.payments.get(collectionPaymentId(current.id));
+      const result = recorded
+        ? { success: true, payment: recorded, error: undefined }
+        : await recordPayment(
+            {
+              studentId: current.studentId,
+              amount: current.amount,
+              channel: COLLECTION_CHANNELS[current.provider],
+              transactionRef: current.financialTransactionId || current.id,
+              installmentId: '',
+              notes: `Collected from ${current.phoneNumber} by mobile money request-to-pay`,
+              collectionId: current.id,
+            },
+            current.requestedBy,
+            current.schoolId
+          );
+
+      const updated: CollectionRequest = result.success && result.payment
+        ? {
+            ...current,
+            settledBy: device.id,
+            paymentId: result.payment.id,
+            receiptNumber: result.payment.receiptNumber,
+            paymentError: undefined,
+          }
+        : { ...current, settledBy: device.id, paymentError: result.error || 'The payment could not be recorded' };
+      await localDb.collectionRequests.put(updated);
+      await publishCollection(updated);
+      return updated;
+    })().finally(() => {
+      recording.delete(collection.id);
+    }));
+  }
+  return recording.get(collection.id)!;
+}
+
+/**
+ * Settles the school's mobile money requests from a school device, whether
+ * or not the parent who started one is still watching it: downloads the
+ * requests that still need settling, polls the pending ones that are due and
+ * records a payment for each collected one. Run from the sync loop. Returns
+ * the requests that changed.
+ */
+export async function pollPendingCollections(schoolId: string, now: Date = new Date()): Promise<CollectionRequest[]> {
+  await downloadOpenCollections(schoolId);
+  const open = () => localDb.collectionRequests
+    .filter(collection => collection.schoolId === schoolId && isAwaitingSettlement(collection))
+    .toArray();
+
+  const changed: CollectionRequest[] = [];
+  for (const collection of planCollectionSettlement(await open(), now).poll) {
+    const updated = await checkCollection(collection.id);
+    if (updated.status !== 'pending') changed.push(updated);
+  }
+  for (const collection of planCollectionSettlement(await open(), now).record) {
+    const updated = await recordCollectionPayment(collection);
+    if (updated.paymentId) changed.push(updated);
+  }
+  return changed;
+}
+
+export async function getCollectionRequests(studentId?: string): Promise<CollectionRequest[]> {
+  const requests = studentId
+    ? await localDb.collectionRequests.where('studentId').equals(studentId).toArray()
+    : await localDb.collectionRequests.toArray();
+  return requests.sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+}
@@ -23,8 +23,9 @@ import {
   DocumentData
 } from 'firebase/firestore';
 import { db, initializeFirebase, COLLECTIONS } from '@/lib/firebase';
-import { Student, PaymentStatus } from '@/types/student';
-import { Payment, PaymentChannel } from '@/types/payment';
+import { readPayments, readStudents } from '@/lib/db/shared-records';
+import { PaymentStatus } from '@/types/student';
+import { PaymentChannel } from '@/types/payment';
 import { School, SchoolClass, Stream } from '@/types/school';
 
 // ============================================================================
@@ -113,11 +114,10 @@ export async function getDashboardStats(schoolId: string): Promise<DashboardStat
 
     // Get all students for this school
     const studentsQuery = query(
-      collection(db, COLLECTIONS.STUDENTS),
-      where('schoolId', '==', schoolId),
+      collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS),
       where('status', '==', 'active')
     );
-    const studentsSnapshot = await getDocs(studentsQuery);
+    const students = readStudents((await getDocs(studentsQuery)).docs, schoolId);
     
     let totalCollected = 0;
     let outstanding = 0;
@@ -130,9 +130,7 @@ export async function getDashboardStats(schoolId: string): Promise<DashboardStat
     const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
-    studentsSnapshot.forEach(doc => {
-      const student = doc.data() as Student;
-      
+    students.forEach(student => {
       totalCollected += student.amountPaid;
       outstanding += student.balance;
       
@@ -170,7 +168,7 @@ export async function getDashboardStats(schoolId: string): Promise<DashboardStat
       }
     });
 
-    const totalStudents = studentsSnapshot.size;
+    const totalStudents = students.length;
     const collectionProgress = collectionTarget > 0 
       ? (totalCollected / collectionTarget) * 100 
       : 0;
@@ -218,17 +216,15 @@ export async function getArrearsHeatmap(schoolId: string): Promise<HeatmapRow[]>
 
     // Get all students
     const studentsQuery = query(
-      collection(db, COLLECTIONS.STUDENTS),
-      where('schoolId', '==', schoolId),
+      collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS),
       where('status', '==', 'active')
     );
-    const studentsSnapshot = await getDocs(studentsQuery);
+    const students = readStudents((await getDocs(studentsQuery)).docs, schoolId);
 
     // Create a map of class -> stream -> arrears
     const arrearsMap: Map<string, Map<string, { value: number; count: number }>> = new Map();
 
-    studentsSnapshot.forEach(doc => {
-      const student = doc.data() as Student;
+    students.forEach(student => {
       const classKey = student.className;
       const streamKey = student.streamName || 'Default';
 
@@ -305,19 +301,17 @@ export async function getRecentActivity(
 
     // Get recent payments
     const paymentsQuery = query(
-      collection(db, COLLECTIONS.PAYMENTS),
-      where('schoolId', '==', schoolId),
-      orderBy('recordedAt', 'desc'),
+      collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS),
+      orderBy('createdAt', 'desc'),
       limit(maxItems)
     );
-    const paymentsSnapshot = await getDocs(paymentsQuery);
+    const payments = readPayments((await getDocs(paymentsQuery)).docs, schoolId);
 
-    paymentsSnapshot.forEach(doc => {
-      const payment = doc.data() as Payment;
+    payments.forEach(payment => {
       activities.push({
-        id: doc.id,
+        id: payment.id,
         type: 'payment',
-        title: `Payment: ${payment.studentName} (${payment.studentClass})`,
+        title: `Payment: ${payment.studentName}`,
         description: `UGX ${payment.amount.toLocaleString()} received via ${getChannelName(payment.channel)}`,
         time: payment.recordedAt.toDate(),
         icon: 'check',
@@ -329,17 +323,15 @@ export async function getRecentActivity(
 
     // Get recent student registrations
     const studentsQuery = query(
-      collection(db, COLLECTIONS.STUDENTS),
-      where('schoolId', '==', schoolId),
+      collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS),
       orderBy('createdAt', 'desc'),
       limit(5)
     );
-    const studentsSnapshot = await getDocs(studentsQuery);
+    const students = readStudents((await getDocs(studentsQuery)).docs, schoolId);
 
-    studentsSnapshot.forEach(doc => {
-      const student = doc.data() as Student;
+    students.forEach(student => {
       activities.push({
-        id: doc.id,
+        id: student.id,
         type: 'registration',
         title: 'New Student Registered',
         description: `${student.firstName} ${student.lastName} joined ${student.className}${student.streamName ? ` - ${student.streamName}` : ''}`,
@@ -347,7 +339,7 @@ export async function getRecentActivity(
         icon: 'person',
         iconBg: 'bg-blue-100 dark:bg-blue-900/30',
         iconColor: 'text-blue-600',
-        link: `/students/${doc.id}`,
+        link: `/students/${student.id}`,
       });
     });
 
@@ -370,11 +362,10 @@ export async function getInstallmentStats(schoolId: string): Promise<Installment
   try {
     // Get all active students
     const studentsQuery = query(
-      collection(db, COLLECTIONS.STUDENTS),
-      where('schoolId', '==', schoolId),
+      collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS),
       where('status', '==', 'active')
     );
-    const studentsSnapshot = await getDocs(studentsQuery);
+    const students = readStudents((await getDocs(studentsQuery)).docs, schoolId);
 
     let fullyPaid = 0;
     let installment3 = 0; // 75%+
@@ -382,8 +373,7 @@ export async function getInstallmentStats(schoolId: string): Promise<Installment
     let installment1 = 0; // 25-49%
     let noPayment = 0;    // 0-24%
 
-    studentsSnapshot.forEach(doc => {
-      const student = doc.data() as Student;
+    students.forEach(student => {
       const progressPercent = student.totalFees > 0 
         ? (student.amountPaid / student.totalFees) * 100 
         : 0;
@@ -401,7 +391,7 @@ export async function getInstallmentStats(schoolId: string): Promise<Installment
       }
     });
 
-    const total = studentsSnapshot.size || 1; // Prevent division by zero
+    const total = students.length || 1; // Prevent division by zero
 
     return [
       {
@@ -482,8 +472,7 @@ export function subscribeToDashboard(
 
   // Subscribe to students collection for real-time stats updates
   const studentsQuery = query(
-    collection(db, COLLECTIONS.STUDENTS),
-    where('schoolId', '==', schoolId),
+    collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS),
     where('status', '==', 'active')
   );
 
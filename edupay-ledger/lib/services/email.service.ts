@@ -7,6 +7,9 @@
  */
 
 import { formatUGX, formatDate } from '@/lib/utils';
+import { EMAIL_TRANSLATIONS } from '@/lib/templates/catalogue';
+import { textToHtml } from '@/lib/templates/render';
+import type { MessageLanguage } from '@/types/message-template';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -939,13 +942,19 @@ Powered by EduPay Ledger
 // ============================================================================
 
 /**
- * Renders an email template with the provided data
+ * Renders an email template with the provided data. A translated email is
+ * plain text, so its HTML is built from the text; a language without a
+ * translation gets the English email.
  */
 export function renderEmailTemplate(
   type: EmailTemplateType,
-  data: Record<string, string | number | boolean | undefined>
+  data: Record<string, string | number | boolean | undefined>,
+  language: MessageLanguage = 'en'
 ): { subject: string; html: string; text: string } {
-  const template = EMAIL_TEMPLATES[type];
+  const translation = language === 'en' ? undefined : EMAIL_TRANSLATIONS[type].variants[language];
+  const template = translation
+    ? { subject: translation.subject || EMAIL_TEMPLATES[type].subject, text: translation.body, html: '' }
+    : EMAIL_TEMPLATES[type];
 
   const render = (str: string): string => {
     return str.replace(/\{(\w+)\}/g, (_, key) => {
@@ -954,10 +963,11 @@ export function renderEmailTemplate(
     });
   };
 
+  const text = render(template.text);
   return {
     subject: render(template.subject),
-    html: render(template.html),
-    text: render(template.text),
+    html: translation ? textToHtml(text) : render(template.html),
+    text,
   };
 }
 
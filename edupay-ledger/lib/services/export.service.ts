@@ -8,6 +8,10 @@
 import { formatUGX, formatDate } from "@/lib/utils";
 import { Payment } from "@/types/payment";
 import { Student } from "@/types/student";
+import {
+  ReconciliationStatement,
+  ReconciliationStatementItem,
+} from "@/types/bank-reconciliation";
 
 // ============================================================================
 // EXCEL EXPORT UTILITIES
@@ -1139,6 +1143,212 @@ export async function exportArrearsToExcel(
   downloadExcel(filename, blob);
 }
 
+// ============================================================================
+// BANK RECONCILIATION STATEMENT (PDF & EXCEL)
+// ============================================================================
+
+interface StatementLine {
+  label: string;
+  date?: Date;
+  reference?: string;
+  amount?: number;
+  kind: "balance" | "heading" | "item" | "total";
+}
+
+/**
+ * Lays out the statement in the order auditors read it, from the opening
+ * balance through each reconciling item to the closing balance
+ */
+function getReconciliationStatementLines(
+  statement: ReconciliationStatement,
+): StatementLine[] {
+  const section = (
+    heading: string,
+    items: ReconciliationStatementItem[],
+    amount: number,
+  ): StatementLine[] => [
+    { label: heading, kind: "heading" },
+    ...items.map((item) => ({
+      label: item.description,
+      date: item.date,
+      reference: item.reference,
+      amount: item.amount,
+      kind: "item" as const,
+    })),
+    { label: `Total (${items.length})`, amount, kind: "total" },
+  ];
+
+  return [
+    {
+      label: "Opening balance per statement",
+      amount: statement.openingBalance,
+      kind: "balance",
+    },
+    {
+      label: `Add: receipts recorded in the system (${statement.systemReceiptsCount})`,
+      amount: statement.systemReceiptsTotal,
+      kind: "balance",
+    },
+    ...section(
+      "Less: receipts not yet on the statement (unpresented)",
+      statement.unpresentedItems,
+      -statement.unpresentedTotal,
+    ),
+    ...section(
+      "Add: statement credits with no receipt in the system",
+      statement.unmatchedCredits,
+      statement.unmatchedCreditsTotal,
+    ),
+    ...section(
+      "Add: other credits (interest, refunds)",
+      statement.otherCredits,
+      statement.otherCreditsTotal,
+    ),
+    ...section(
+      "Less: debits on the statement",
+      statement.debits,
+      -statement.debitsTotal,
+    ),
+    {
+      label: "Reconciled balance",
+      amount: statement.reconciledBalance,
+      kind: "balance",
+    },
+    {
+      label: "Closing balance per statement",
+      amount: statement.statementClosingBalance,
+      kind: "balance",
+    },
+    {
+      label: "Unreconciled difference",
+      amount: statement.difference,
+      kind: "balance",
+    },
+  ];
+}
+
+/**
+ * Exports a bank reconciliation statement to PDF (opens print dialog)
+ */
+export function exportReconciliationStatementToPDF(
+  statement: ReconciliationStatement,
+  schoolName: string,
+): void {
+  const lines = getReconciliationStatementLines(statement);
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Bank Reconciliation Statement - ${escapeXml(statement.bankAccountName)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 40px; font-size: 11px; }
+        .header { text-align: center; border-bottom: 2px solid #1b2b4b; padding-bottom: 16px; margin-bottom: 20px; }
+        .header h1 { color: #1b2b4b; margin: 0; font-size: 18px; }
+        table { width: 100%; border-collapse: collapse; }
+        td { padding: 5px 8px; }
+        td.amount { text-align: right; white-space: nowrap; }
+        tr.balance td { font-weight: bold; border-top: 1px solid #ddd; }
+        tr.heading td { font-weight: bold; padding-top: 14px; color: #1b2b4b; }
+        tr.item td { color: #444; }
+        tr.total td { border-top: 1px solid #ddd; font-style: italic; }
+        .difference { color: ${statement.difference === 0 ? "#22c55e" : "#ef4444"}; }
+        .notes { margin-top: 20px; padding: 10px; background: #f5f5f5; }
+        .signatures { display: flex; justify-content: space-between; margin-top: 50px; }
+        .signature { width: 40%; border-top: 1px solid #333; padding-top: 6px; }
+        @media print { body { padding: 10px; } }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${escapeXml(schoolName)}</h1>
+        <p>Bank Reconciliation Statement</p>
+        <p>${escapeXml(statement.bankAccountName)} (${escapeXml(statement.bankAccountNumber)})
+          | ${formatDate(statement.periodStart)} - ${formatDate(statement.periodEnd)}</p>
+      </div>
+      <table>
+        <tbody>
+          ${lines
+            .map(
+              (line, idx) => `
+            <tr class="${line.kind}${idx === lines.length - 1 ? " difference" : ""}">
+              <td>${line.date ? formatDate(line.date) : ""}</td>
+              <td>${escapeXml(line.reference || "")}</td>
+              <td>${escapeXml(line.label)}</td>
+              <td class="amount">${line.amount !== undefined ? formatUGX(line.amount) : ""}</td>
+            </tr>
+          `,
+            )
+            .join("")}
+        </tbody>
+      </table>
+      ${statement.notes ? `<div class="notes"><strong>Notes:</strong> ${escapeXml(statement.notes)}</div>` : ""}
+      <div class="signatures">
+        <div class="signature">
+          Prepared by: ${escapeXml(statement.preparedByName)}<br />
+          Date: ${formatDate(statement.preparedAt)}
+        </div>
+        <div class="signature">
+          Reviewed by:<br />
+          Date:
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+  printReport(html);
+}
+
+/**
+ * Exports a bank reconciliation statement to Excel format (.xlsx)
+ */
+export async function exportReconciliationStatementToExcel(
+  statement: ReconciliationStatement,
+  schoolName: string,
+): Promise<void> {
+  const columns = [
+    { key: "date", header: "Date", width: 14 },
+    { key: "reference", header: "Reference", width: 20 },
+    { key: "description", header: "Description", width: 50 },
+    {
+      key: "amount",
+      header: "Amount (UGX)",
+      width: 18,
+      format: "currency" as const,
+    },
+  ];
+
+  const data = [
+    ...getReconciliationStatementLines(statement).map((line) => ({
+      date: line.date ? formatDate(line.date) : "",
+      reference: line.reference || "",
+      description: line.kind === "item" ? `    ${line.label}` : line.label,
+      amount: line.amount ?? "",
+    })),
+    { date: "", reference: "", description: "", amount: "" },
+    {
+      date: "",
+      reference: "",
+      description: `Prepared by ${statement.preparedByName} on ${formatDate(statement.preparedAt)}`,
+      amount: "",
+    },
+    ...(statement.notes
+      ? [{ date: "", reference: "", description: `Notes: ${statement.notes}`, amount: "" }]
+      : []),
+  ];
+
+  const blob = await createExcelWorkbook(data, columns, {
+    sheetName: "Reconciliation",
+    title: `${schoolName} - Bank Reconciliation Statement`,
+    subtitle: `${statement.bankAccountName} (${statement.bankAccountNumber}), ${formatDate(statement.periodStart)} - ${formatDate(statement.periodEnd)}`,
+    includeTimestamp: true,
+  });
+
+  downloadExcel(
+    `bank_reconciliation_${statement.bankAccountNumber}_${statement.periodEnd.toISOString().slice(0, 10)}`,
+    blob,
+  );
+}
+
 // ============================================================================
 // SCHEDULED EXPORTS
 // ============================================================================
@@ -36,6 +36,9 @@ import {
   allocatePaymentByPriority,
   allocatePaymentProportionally,
 } from '@/types/fee-category';
+import { AcademicTerm } from '@/types/term-balance';
+import { applyCreditCarryovers } from '@/lib/services/term-balance.service';
+import { spreadCreditOverCategories } from '@/lib/balances/credit';
 
 // Collection names
 const FEE_CATEGORIES = 'fee_categories';
@@ -278,25 +281,41 @@ export async function updateFeeStructure(
  */
 export async function initializeStudentFeeBreakdown(
   studentId: string,
-  feeStructure: FeeStructureWithCategories
+  feeStructure: FeeStructureWithCategories,
+  assignedBy: string = 'system'
 ): Promise<StudentFeeBreakdown> {
   initializeFirebase();
 
   const now = Timestamp.now();
   const id = `${studentId}-${feeStructure.academicYear}-${feeStructure.term}`;
 
-  const categories: StudentFeeCategoryStatus[] = feeStructure.categories.map(cat => ({
-    categoryId: cat.categoryId,
-    categoryName: cat.categoryName,
-    categoryCode: cat.categoryCode,
-    amountDue: cat.amount,
-    amountPaid: 0,
-    balance: cat.amount,
-    status: 'unpaid' as const,
-    payments: [],
-    amount: cat.amount,  // alias for amountDue
-    paid: 0,             // alias for amountPaid
-  }));
+  // Credit from overpayments in earlier terms is set against the new fees;
+  // the carryovers and the breakdown are written together
+  const batch = writeBatch(db);
+  const creditApplied = await applyCreditCarryovers(
+    studentId,
+    { year: Number(feeStructure.academicYear), term: `term_${feeStructure.term}` as AcademicTerm },
+    feeStructure.totalAmount,
+    assignedBy,
+    batch
+  );
+
+  const creditPaid = spreadCreditOverCategories(feeStructure.categories.map(cat => cat.amount), creditApplied);
+  const categories: StudentFeeCategoryStatus[] = feeStructure.categories.map((cat, index) => {
+    const paid = creditPaid[index];
+    return {
+      categoryId: cat.categoryId,
+      categoryName: cat.categoryName,
+      categoryCode: cat.categoryCode,
+      amountDue: cat.amount,
+      amountPaid: paid,
+      balance: cat.amount - paid,
+      status: calculateCategoryStatus(cat.amount, paid),
+      payments: [],
+      amount: cat.amount,  // alias for amountDue
+      paid,                // alias for amountPaid
+    };
+  });
 
   const breakdown: StudentFeeBreakdown = {
     studentId,
@@ -305,12 +324,14 @@ export async function initializeStudentFeeBreakdown(
     term: feeStructure.term,
     categories,
     totalFees: feeStructure.totalAmount,
-    totalPaid: 0,
-    totalBalance: feeStructure.totalAmount,
+    totalPaid: creditApplied,
+    totalBalance: feeStructure.totalAmount - creditApplied,
     lastUpdated: now,
+    ...(creditApplied > 0 ? { carryForwardBalance: -creditApplied } : {}),
   };
 
-  await setDoc(doc(db, STUDENT_FEE_BREAKDOWNS, id), breakdown);
+  batch.set(doc(db, STUDENT_FEE_BREAKDOWNS, id), breakdown);
+  await batch.commit();
   return breakdown;
 }
 
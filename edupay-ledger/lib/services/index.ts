@@ -29,3 +29,8 @@ export * from './export.service';
 export * from './dashboard.service';
 export * from './reports.service';
 export * from './settings.service';
+export * from './verification.service';
+export * from './collection.service';
+export * from './cheque.service';
+export * from './outbox.service';
+export * from './reminder.service';
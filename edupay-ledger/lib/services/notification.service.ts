@@ -1,7 +1,9 @@
 /**
  * Notification Service
  * 
- * Handles SMS and Email notifications to parents/guardians
+ * Handles SMS and Email notifications to parents/guardians, queued in the
+ * message outbox so they go out even if the school is offline when they are sent.
+ * SMS notices go by WhatsApp instead for guardians who prefer it.
  * 
  * SMS Notifications:
  * - Payment receipts
@@ -13,14 +15,16 @@
  * - Monthly statements (optional)
  */
 
-import { httpsCallable } from 'firebase/functions';
-import { functions, initializeFirebase } from '@/lib/firebase';
 import { formatUGX } from '@/lib/utils';
+import { buildCustomEmail, queueEmail, queueSMS } from '@/lib/services/outbox.service';
+import type { NoticeTemplateType } from '@/types/message-template';
+import type { OutboxOptions } from '@/types/outbox';
 
 // Notification types
 export interface SMSNotification {
   phoneNumber: string;
-  message: string;
+  template: NoticeTemplateType; // Worded in the guardian's language when sent
+  data: Record<string, string | number>;
   priority?: 'high' | 'normal' | 'low';
 }
 
@@ -35,12 +39,16 @@ export interface EmailNotification {
   }>;
 }
 
+// With the student, messages go out in their guardian's language
 export interface PaymentReceiptSMSData {
   phoneNumber: string;
+  studentId?: string;
+  alternatePhone?: string; // Used if the main phone keeps failing
   studentName: string;
   amount: number;
   balance: number;
   receiptNumber: string;
+  receiptUrl?: string; // Attached to the WhatsApp message
 }
 
 export interface PaymentReceiptEmailData {
@@ -52,8 +60,12 @@ export interface PaymentReceiptEmailData {
   receiptUrl?: string;
 }
 
+// Reminders fall back to the alternate phone, then email, if the main phone keeps failing
 export interface DeadlineReminderData {
   phoneNumber: string;
+  studentId?: string;
+  alternatePhone?: string;
+  email?: string;
   studentName: string;
   installmentName: string;
   amountDue: number;
@@ -63,83 +75,70 @@ export interface DeadlineReminderData {
 
 export interface OverdueAlertData {
   phoneNumber: string;
+  studentId?: string;
+  alternatePhone?: string;
+  email?: string;
   studentName: string;
   installmentName: string;
   amountOverdue: number;
   daysOverdue: number;
 }
 
-/**
- * Formats a Ugandan phone number for SMS sending
- * Ensures number starts with +256
- */
-function formatUgandanPhone(phone: string): string {
-  let cleaned = phone.replace(/[^0-9+]/g, '');
-  
-  if (cleaned.startsWith('+256')) {
-    return cleaned;
-  }
-  
-  if (cleaned.startsWith('256')) {
-    return '+' + cleaned;
-  }
-  
-  if (cleaned.startsWith('0')) {
-    return '+256' + cleaned.substring(1);
-  }
-  
-  return '+256' + cleaned;
+export interface PromiseReminderData {
+  phoneNumber: string;
+  studentId?: string;
+  alternatePhone?: string;
+  email?: string;
+  studentName: string;
+  amountDue: number;
+  dueDate: Date;
+  daysUntilDue: number;
+}
+
+export interface BouncedChequeNoticeData {
+  studentId?: string;
+  studentName: string;
+  chequeNumber: string;
+  amount: number;
+  bankCharge: number;
+  reason: string;
+  balance: number;
+  receiptNumber: string;
 }
 
 /**
- * Sends an SMS notification
- * Uses Firebase Cloud Functions to handle actual SMS sending
+ * Queues an SMS notification in the outbox, which sends it as soon as the
+ * device is online. Returns false if the number cannot receive SMS.
  */
-async function sendSMS(notification: SMSNotification): Promise<boolean> {
-  initializeFirebase();
-  
+async function sendSMS(notification: SMSNotification, options: OutboxOptions = {}): Promise<boolean> {
   try {
-    // In production, this would call a Cloud Function that uses an SMS provider
-    // like Africa's Talking, Twilio, or a local Ugandan SMS gateway
-    const sendSMSFunction = httpsCallable(functions, 'sendSMS');
-    
-    await sendSMSFunction({
-      to: formatUgandanPhone(notification.phoneNumber),
-      message: notification.message,
-      priority: notification.priority || 'normal',
-    });
-    
-    console.log(`SMS sent to ${notification.phoneNumber}`);
-    return true;
+    const [message] = await queueSMS(
+      { to: { phoneNumber: notification.phoneNumber }, type: 'custom', templateData: notification.data },
+      { priority: notification.priority || 'normal', template: notification.template, ...options }
+    );
+    return message.status !== 'failed';
   } catch (error) {
-    console.error('Failed to send SMS:', error);
-    // In production, queue for retry
+    console.error('Failed to queue SMS:', error);
     return false;
   }
 }
 
 /**
- * Sends an email notification
- * Uses Firebase Cloud Functions to handle actual email sending
+ * Queues an email notification in the outbox
  */
-async function sendEmail(notification: EmailNotification): Promise<boolean> {
-  initializeFirebase();
-  
+async function sendEmail(notification: EmailNotification, options: OutboxOptions = {}): Promise<boolean> {
+  const links = (notification.attachments || []).map(a => `${a.filename}: ${a.url}`);
+
   try {
-    const sendEmailFunction = httpsCallable(functions, 'sendEmail');
-    
-    await sendEmailFunction({
-      to: notification.email,
-      subject: notification.subject,
-      text: notification.body,
-      html: notification.htmlBody,
-      attachments: notification.attachments,
-    });
-    
-    console.log(`Email sent to ${notification.email}`);
-    return true;
+    const [message] = await queueEmail(buildCustomEmail(
+      { email: notification.email, name: 'Parent/Guardian' },
+      notification.subject,
+      [notification.body, ...links].join('\n\n'),
+      notification.htmlBody
+    ), options);
+    return message.status !== 'failed';
   } catch (error) {
-    console.error('Failed to send email:', error);
+    console.error('Failed to queue email:', error);
     return false;
   }
 }
@@ -148,16 +147,26 @@ async function sendEmail(notification: EmailNotification): Promise<boolean> {
  * Sends payment receipt SMS to parent/guardian
  */
 export async function sendPaymentReceiptSMS(data: PaymentReceiptSMSData): Promise<boolean> {
-  const message = `EduPay Ledger: Payment received for ${data.studentName}.\n` +
-    `Amount: ${formatUGX(data.amount)}\n` +
-    `New Balance: ${formatUGX(data.balance)}\n` +
-    `Receipt: ${data.receiptNumber}\n` +
-    `Thank you!`;
-  
   return sendSMS({
     phoneNumber: data.phoneNumber,
-    message,
+    template: 'receipt_notice',
+    data: {
+      studentName: data.studentName,
+      amount: formatUGX(data.amount),
+      balance: formatUGX(data.balance),
+      receiptNumber: data.receiptNumber,
+    },
     priority: 'high',
+  }, {
+    messageType: 'payment_receipt',
+    ...(data.studentId && { studentId: data.studentId }),
+    dedupeKey: `receipt:${data.receiptNumber}`,
+    reference: data.receiptNumber,
+    // The receipt is emailed separately, so only the alternate phone stands in
+    fallback: { alternatePhone: data.alternatePhone },
+    ...(data.receiptUrl && {
+      document: { url: data.receiptUrl, filename: `Receipt_${data.receiptNumber}.pdf` },
+    }),
   });
 }
 
@@ -228,48 +237,127 @@ This is an automated message from EduPay Ledger.`;
     attachments: data.receiptUrl ? [
       { filename: `Receipt_${data.receiptNumber}.pdf`, url: data.receiptUrl }
     ] : undefined,
-  });
+  }, { messageType: 'payment_receipt', dedupeKey: `receipt:${data.receiptNumber}`, reference: data.receiptNumber });
 }
 
 /**
  * Sends deadline reminder SMS
  * Should be sent 7 days, 3 days before deadline
  */
-export async function sendDeadlineReminderSMS(data: DeadlineReminderData): Promise<boolean> {
-  const message = data.daysUntilDeadline <= 0
-    ? `EduPay Alert: ${data.installmentName} for ${data.studentName} is now OVERDUE. Amount: ${formatUGX(data.amountDue)}. Please pay immediately.`
-    : `EduPay Reminder: ${data.installmentName} for ${data.studentName} is due in ${data.daysUntilDeadline} day(s). Amount: ${formatUGX(data.amountDue)}. Deadline: ${data.deadline.toLocaleDateString()}.`;
-  
+export async function sendDeadlineReminderSMS(data: DeadlineReminderData, options: OutboxOptions = {}): Promise<boolean> {
   return sendSMS({
     phoneNumber: data.phoneNumber,
-    message,
+    template: data.daysUntilDeadline <= 0 ? 'deadline_passed' : 'deadline_notice',
+    data: {
+      installmentName: data.installmentName,
+      studentName: data.studentName,
+      days: data.daysUntilDeadline,
+      amount: formatUGX(data.amountDue),
+      deadline: data.deadline.toLocaleDateString(),
+    },
     priority: data.daysUntilDeadline <= 3 ? 'high' : 'normal',
+  }, {
+    messageType: 'fee_deadline',
+    ...(data.studentId && { studentId: data.studentId }),
+    fallback: { alternatePhone: data.alternatePhone, email: data.email, subject: `Fees Reminder - ${data.studentName}` },
+    ...options,
   });
 }
 
 /**
  * Sends overdue alert SMS
  */
-export async function sendOverdueAlertSMS(data: OverdueAlertData): Promise<boolean> {
-  const message = `EduPay URGENT: ${data.installmentName} for ${data.studentName} is ${data.daysOverdue} day(s) overdue. Amount: ${formatUGX(data.amountOverdue)}. Please clear immediately to avoid penalties.`;
-  
+export async function sendOverdueAlertSMS(data: OverdueAlertData, options: OutboxOptions = {}): Promise<boolean> {
   return sendSMS({
     phoneNumber: data.phoneNumber,
-    message,
+    template: 'overdue_notice',
+    data: {
+      installmentName: data.installmentName,
+      studentName: data.studentName,
+      daysOverdue: data.daysOverdue,
+      amount: formatUGX(data.amountOverdue),
+    },
     priority: 'high',
+  }, {
+    messageType: 'arrears_notice',
+    ...(data.studentId && { studentId: data.studentId }),
+    fallback: { alternatePhone: data.alternatePhone, email: data.email, subject: `Overdue Fees - ${data.studentName}` },
+    ...options,
   });
 }
 
 /**
- * Batch send deadline reminders
- * Should be called daily by a scheduled function
+ * Reminds the guardian of a payment they promised, before and after it falls due
  */
-export async function sendScheduledReminders(): Promise<{
-  sent: number;
-  failed: number;
-}> {
-  // This would be implemented as a Firebase Cloud Function
-  // that runs daily and checks for upcoming deadlines
-  console.log('Sending scheduled reminders...');
-  return { sent: 0, failed: 0 };
+export async function sendPromiseReminderSMS(data: PromiseReminderData, options: OutboxOptions = {}): Promise<boolean> {
+  return sendSMS({
+    phoneNumber: data.phoneNumber,
+    template: data.daysUntilDue > 0 ? 'promise_upcoming' : data.daysUntilDue === 0 ? 'promise_today' : 'promise_missed',
+    data: {
+      amount: formatUGX(data.amountDue),
+      studentName: data.studentName,
+      days: data.daysUntilDue,
+      dueDate: data.dueDate.toLocaleDateString(),
+    },
+    priority: data.daysUntilDue <= 0 ? 'high' : 'normal',
+  }, {
+    messageType: 'promise_reminder',
+    ...(data.studentId && { studentId: data.studentId }),
+    fallback: { alternatePhone: data.alternatePhone, email: data.email, subject: `Payment Promise - ${data.studentName}` },
+    ...options,
+  });
+}
+
+/**
+ * Tells the guardian a cheque was returned unpaid and its receipt cancelled
+ */
+export async function sendBouncedChequeSMS(
+  phoneNumber: string,
+  data: BouncedChequeNoticeData,
+  alternatePhone?: string
+): Promise<boolean> {
+  return sendSMS({
+    phoneNumber,
+    template: data.bankCharge > 0 ? 'cheque_bounced_charge' : 'cheque_bounced',
+    data: {
+      chequeNumber: data.chequeNumber,
+      amount: formatUGX(data.amount),
+      studentName: data.studentName,
+      reason: data.reason,
+      receiptNumber: data.receiptNumber,
+      bankCharge: formatUGX(data.bankCharge),
+      balance: formatUGX(data.balance),
+    },
+    priority: 'high',
+  }, {
+    ...(data.studentId && { studentId: data.studentId }),
+    dedupeKey: `cheque_bounce:${data.receiptNumber}`,
+    reference: data.receiptNumber,
+    fallback: { alternatePhone },
+  });
+}
+
+export async function sendBouncedChequeEmail(email: string, data: BouncedChequeNoticeData): Promise<boolean> {
+  const body = `Dear Parent/Guardian,
+
+Cheque ${data.chequeNumber} of ${formatUGX(data.amount)}, paid for ${data.studentName}, was returned unpaid by the bank.
+
+- Reason: ${data.reason}
+- Cancelled Receipt: ${data.receiptNumber}${data.bankCharge > 0 ? `
+- Bank Charge Added: ${formatUGX(data.bankCharge)}` : ''}
+- Outstanding Balance: ${formatUGX(data.balance)}
+
+Please settle the balance by cash, bank transfer or mobile money.
+
+Best regards,
+School Accounts Office
+
+---
+This is an automated message from EduPay Ledger.`;
+
+  return sendEmail({
+    email,
+    subject: `Returned Cheque - ${data.chequeNumber}`,
+    body,
+  }, { dedupeKey: `cheque_bounce:${data.receiptNumber}`, reference: data.receiptNumber });
 }
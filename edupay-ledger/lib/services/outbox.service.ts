@@ -0,0 +1,642 @@
+/**
+ * Message Outbox Service
+ * Every SMS, WhatsApp message and email is written to the outbox in
+ * IndexedDB first and sent through the SMS, WhatsApp and email services once
+ * the device is online, so a receipt texted while the school is offline goes
+ * out when it reconnects. Notices go by the channel the guardian prefers,
+ * and a WhatsApp message that fails is sent again as an SMS. The outbox
+ * doubles as the searchable history of every message sent, with the
+ * delivery report for each SMS and WhatsApp message, and tracks which
+ * guardian contacts keep failing so messages can go to another one.
+ */
+
+import { db as localDb, dbHelpers } from '@/lib/db';
+import {
+  applySendOutcome,
+  buildDedupeKey,
+  getDedupeScope,
+  getSendAllowance,
+  matchesOutboxSearch,
+  OUTBOX_RATE_LIMITS,
+  OutboxSendOutcome,
+  pickDueMessages,
+  summarizeOutbox,
+} from '@/lib/db/outbox-queue';
+import {
+  applyDeliveryReport,
+  chooseContactRoute,
+  ContactRoute,
+  DeliveryReport,
+  DeliveryResult,
+  formatWhatsAppError,
+  getReachabilityId,
+  isAwaitingReport,
+  isSchoolSideFailure,
+  parseDeliveryCallback,
+  parseWhatsAppWebhook,
+  recordDelivery,
+  toDeliveryStatus,
+  toWhatsAppDeliveryStatus,
+} from '@/lib/db/delivery-reports';
+import { needsSmsFallback, planChannels } from '@/lib/db/channel-routing';
+import {
+  formatUgandanPhone,
+  isValidUgandanPhone,
+  SMSMessage,
+  smsService,
+} from '@/lib/services/sms.service';
+import {
+  EmailRecipient,
+  emailService,
+  renderEmailTemplate,
+  SendEmailRequest,
+} from '@/lib/services/email.service';
+import { WhatsAppDocument, whatsappService } from '@/lib/services/whatsapp.service';
+import {
+  getDefaultTemplateData,
+  renderEmailMessage,
+  renderSmsMessage,
+  resolveLanguageChain,
+} from '@/lib/services/template.service';
+import { isOnline } from '@/lib/utils';
+import type { MessageLanguage } from '@/types/message-template';
+import type {
+  ContactReachability,
+  OutboxChannel,
+  OutboxFallback,
+  OutboxMessage,
+  OutboxOptions,
+  OutboxSearch,
+  OutboxSummary,
+} from '@/types/outbox';
+
+// The drain in progress, so the sync loop and a new message never send the same message twice
+let draining: Promise<number> | null = null;
+
+// Delivery reports asked for in one sync, to stay clear of the provider's rate limit
+const DELIVERY_REPORT_BATCH = 50;
+
+export interface GuardianContacts {
+  guardianPhone: string;
+  guardianAlternatePhone?: string;
+  guardianEmail?: string;
+}
+
+export interface ContactToFix<T extends GuardianContacts> {
+  student: T;
+  contacts: ContactReachability[]; // The student's flagged contacts
+}
+
+function newMessage(
+  channel: OutboxChannel,
+  recipient: string,
+  fields: Pick<OutboxMessage, 'messageType' | 'body'> & Partial<OutboxMessage>,
+  options: OutboxOptions
+): OutboxMessage {
+  const now = new Date().toISOString();
+  return {
+    id: dbHelpers.generateId('MSG'),
+    channel,
+    recipient,
+    priority: options.priority || 'normal',
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    ...(options.dedupeKey && { dedupeKey: buildDedupeKey(options.dedupeKey, channel, recipient) }),
+    ...(options.studentId && { studentId: options.studentId }),
+    ...(options.reference && { reference: options.reference }),
+    ...(options.quietHours && { quietHours: options.quietHours }),
+    ...fields,
+    ...(options.messageType && { messageType: options.messageType }),
+  };
+}
+
+// Adds the message unless one with the same dedupe key is already in the outbox
+async function addMessage(message: OutboxMessage): Promise<OutboxMessage> {
+  return localDb.transaction('rw', localDb.outbox, async () => {
+    if (message.dedupeKey) {
+      const existing = await localDb.outbox.where('dedupeKey').equals(message.dedupeKey).first();
+      if (existing) return existing;
+    }
+    await localDb.outbox.add(message);
+    return message;
+  });
+}
+
+function sendSoon() {
+  if (isOnline()) {
+    drainOutbox().catch(error => console.error('Outbox drain failed:', error));
+  }
+}
+
+/**
+ * A plain email in the 'custom' template, for text written as an SMS or
+ * composed by the caller
+ */
+export function buildCustomEmail(
+  to: EmailRecipient,
+  subject: string,
+  text: string,
+  html?: string
+): SendEmailRequest {
+  return {
+    to,
+    subject,
+    type: 'custom',
+    templateData: {
+      subject,
+      htmlContent: html || text.replace(/\n/g, '<br>'),
+      textContent: text,
+      schoolName: 'EduPay Ledger',
+    },
+  };
+}
+
+// Counts one message's fate against the contact it was sent to
+async function noteDelivery(channel: OutboxChannel, contact: string, result: DeliveryResult): Promise<void> {
+  if (!result.delivered && isSchoolSideFailure(result.reason)) return;
+
+  await localDb.transaction('rw', localDb.reachability, async () => {
+    const current = await localDb.reachability.get(getReachabilityId(channel, contact));
+    await localDb.reachability.put(recordDelivery(current, channel, contact, result));
+  });
+}
+
+// WhatsApp is skipped for a number it keeps failing on, e.g. one without WhatsApp
+async function canUseWhatsApp(phone: string): Promise<boolean> {
+  if (!whatsappService.isAvailable() || !isValidUgandanPhone(phone)) return false;
+  const known = await localDb.reachability.get(getReachabilityId('whatsapp', phone));
+  return known?.status !== 'unreachable';
+}
+
+/**
+ * Where an SMS to this phone should go: the phone itself, or the guardian's
+ * alternate phone or email if the phone keeps failing
+ */
+async function routeSMS(phone: string, fallback?: OutboxFallback): Promise<ContactRoute> {
+  const contacts: Array<{ channel: OutboxChannel; contact: string }> = [{ channel: 'sms', contact: phone }];
+  const alternate = fallback?.alternatePhone && formatUgandanPhone(fallback.alternatePhone);
+  if (alternate && alternate !== phone && isValidUgandanPhone(alternate)) {
+    contacts.push({ channel: 'sms', contact: alternate });
+  }
+  if (fallback?.email && emailService.isValidEmail(fallback.email)) {
+    contacts.push({ channel: 'email', contact: fallback.email });
+  }
+  if (contacts.length === 1) return { channel: 'sms', recipient: phone };
+
+  const known = await localDb.reachability.bulkGet(contacts.map(c => getReachabilityId(c.channel, c.contact)));
+  const reachability = new Map<string, ContactReachability>();
+  known.forEach(record => record && reachability.set(record.id, record));
+  return chooseContactRoute(contacts, reachability)!;
+}
+
+/**
+ * One outbox message per recipient. A template email goes out in the first
+ * language it is written in down the guardian's chain; translated or edited
+ * wording is sent as a plain custom email.
+ */
+async function buildEmailMessages(request: SendEmailRequest, options: OutboxOptions): Promise<OutboxMessage[]> {
+  const recipients = Array.isArray(request.to) ? request.to : [request.to];
+  const { template, language, ...messageOptions } = options;
+
+  let rendered: { subject: string; text: string; html?: string; language?: MessageLanguage; customized?: boolean };
+  let templateData = request.templateData;
+  if (request.type === 'custom') {
+    rendered = renderEmailTemplate(request.type, templateData);
+  } else {
+    templateData = { ...await getDefaultTemplateData(), ...request.templateData };
+    const chain = await resolveLanguageChain({ language, studentId: messageOptions.studentId });
+    rendered = await renderEmailMessage(request.type, templateData, chain);
+  }
+  const { subject, text } = rendered;
+
+  return recipients.map((recipient, index) => {
+    const { cc, bcc, ...single } = request;
+    const email: SendEmailRequest = rendered.customized
+      ? { ...single, ...buildCustomEmail(recipient, subject, text, rendered.html), ...(index === 0 && { cc, bcc }) }
+      : { ...single, to: recipient, templateData, ...(index === 0 && { cc, bcc }) };
+    const valid = emailService.isValidEmail(recipient.email);
+    return newMessage('email', recipient.email, {
+      messageType: request.type,
+      subject,
+      body: text,
+      email,
+      ...(rendered.language && { language: rendered.language }),
+      ...(recipient.name && { recipientName: recipient.name }),
+      ...(!valid && { status: 'failed' as const, lastError: `Invalid email address: ${recipient.email}` }),
+    }, { priority: request.priority, ...messageOptions });
+  });
+}
+
+// A notice written as SMS text, sent as a plain email
+async function buildTextEmail(
+  email: string,
+  fields: Pick<OutboxMessage, 'messageType' | 'body'> & Partial<OutboxMessage>,
+  subject: string | undefined,
+  options: OutboxOptions
+): Promise<OutboxMessage> {
+  const { messageType, body, recipientName, ...extra } = fields;
+  const [message] = await buildEmailMessages(
+    buildCustomEmail({ email, name: recipientName || 'Parent/Guardian' }, subject || 'Message from the school', body),
+    { messageType, ...options }
+  );
+  return { ...message, ...extra };
+}
+
+// Queues text for a phone, or for the contact standing in for it when the phone keeps failing
+async function addTextMessage(
+  phone: string,
+  fallback: OutboxFallback | undefined,
+  fields: Pick<OutboxMessage, 'messageType' | 'body'> & Partial<OutboxMessage>,
+  options: OutboxOptions
+): Promise<OutboxMessage> {
+  const route = await routeSMS(phone, fallback);
+  const rerouted = route.reroutedFrom ? { reroutedFrom: route.reroutedFrom } : {};
+
+  if (route.channel === 'email') {
+    return addMessage({ ...await buildTextEmail(route.recipient, fields, fallback?.subject, options), ...rerouted });
+  }
+
+  const valid = isValidUgandanPhone(route.recipient);
+  return addMessage(newMessage('sms', route.recipient, {
+    ...fields,
+    ...rerouted,
+    ...(!valid && { status: 'failed' as const, lastError: 'Invalid phone number' }),
+  }, options));
+}
+
+// The notice in the school's WhatsApp template; a receipt goes with its PDF
+async function buildWhatsAppMessage(
+  phone: string,
+  fields: Pick<OutboxMessage, 'messageType' | 'body'> & Partial<OutboxMessage>,
+  document: WhatsAppDocument | undefined,
+  options: OutboxOptions
+): Promise<OutboxMessage> {
+  const { schoolName } = await getDefaultTemplateData();
+  return newMessage('whatsapp', phone, {
+    ...fields,
+    whatsapp: {
+      template: document ? 'receipt' : 'notice',
+      parameters: [String(schoolName || 'the school'), fields.body],
+      ...(document && { document }),
+    },
+  }, options);
+}
+
+/**
+ * Sends a failed WhatsApp message again as an SMS, once. The SMS shares the
+ * message's dedupe scope, so a guardian already sent it by SMS does not get
+ * it twice.
+ */
+async function fallBackToSMS(message: OutboxMessage): Promise<OutboxMessage> {
+  if (!needsSmsFallback(message)) return message;
+
+  const sms = await addTextMessage(message.recipient, message.fallback, {
+    messageType: message.messageType,
+    body: message.body,
+    fallbackFor: message.id,
+    ...(message.recipientName && { recipientName: message.recipientName }),
+    ...(message.language && { language: message.language }),
+  }, {
+    priority: message.priority,
+    dedupeKey: getDedupeScope(message),
+    studentId: message.studentId,
+    reference: message.reference,
+    quietHours: message.quietHours,
+  });
+
+  const updated: OutboxMessage = { ...message, fallbackMessageId: sms.id };
+  await localDb.outbox.put(updated);
+  sendSoon();
+  return updated;
+}
+
+/**
+ * Queues a notice for each recipient on the channels their guardian
+ * prefers: SMS unless they chose WhatsApp, email or every channel. Numbers
+ * that are not valid Ugandan numbers are recorded as failed straight away.
+ * A number that keeps failing is skipped for the fallback contacts given,
+ * if any, and a WhatsApp message that fails is sent again as an SMS.
+ */
+export async function queueSMS(message: SMSMessage, options: OutboxOptions = {}): Promise<OutboxMessage[]> {
+  const recipients = Array.isArray(message.to) ? message.to : [message.to];
+  const { fallback, template, language, preferredChannel, document, ...messageOptions } = options;
+  const written = message.type === 'custom' && message.customMessage && !template ? message.customMessage : undefined;
+  const templateData = written === undefined ? { ...await getDefaultTemplateData(), ...message.templateData } : {};
+  const email = fallback?.email && emailService.isValidEmail(fallback.email) ? fallback.email : undefined;
+
+  const queued: OutboxMessage[] = [];
+  for (const recipient of recipients) {
+    const studentId = recipient.studentId || messageOptions.studentId;
+    // Each recipient gets the wording in their own guardian's language
+    const { body, language: writtenIn } = written !== undefined
+      ? { body: written, language: undefined }
+      : await renderSmsMessage(template || message.type, templateData, await resolveLanguageChain({ language, studentId }));
+
+    const phone = formatUgandanPhone(recipient.phoneNumber);
+    if (!isValidUgandanPhone(phone)) {
+      await noteDelivery('sms', phone, { delivered: false, reason: 'Invalid phone number', permanent: true });
+    }
+
+    const fields = {
+      messageType: message.type,
+      body,
+      ...(writtenIn && { language: writtenIn }),
+      ...(recipient.name && { recipientName: recipient.name }),
+      ...(recipient.studentId && { studentId: recipient.studentId }),
+    };
+    const channels = planChannels(
+      preferredChannel ?? (studentId ? (await dbHelpers.getGuardianPreferences(studentId)).guardianChannel : undefined),
+      { whatsapp: await canUseWhatsApp(phone), email: !!email }
+    );
+
+    for (const channel of channels) {
+      if (channel === 'whatsapp') {
+        // Sent on its own, it falls back to SMS; alongside an SMS it need not
+        const whatsapp = await buildWhatsAppMessage(phone, fields, document, messageOptions);
+        queued.push(await addMessage(channels.includes('sms') ? whatsapp : { ...whatsapp, fallback: fallback || {} }));
+      } else if (channel === 'email') {
+        queued.push(await addMessage(await buildTextEmail(email!, { ...fields, guardianPhone: phone }, fallback?.subject, messageOptions)));
+      } else {
+        // The email already has its own copy when the guardian wants every channel
+        const smsFallback = channels.includes('email') ? { ...fallback, email: undefined } : fallback;
+        queued.push(await addTextMessage(phone, smsFallback, fields, messageOptions));
+      }
+    }
+  }
+
+  sendSoon();
+  return queued;
+}
+
+/**
+ * Queues an email, one outbox message per recipient; copies go with the
+ * first recipient's message only
+ */
+export async function queueEmail(request: SendEmailRequest, options: OutboxOptions = {}): Promise<OutboxMessage[]> {
+  const queued: OutboxMessage[] = [];
+  for (const message of await buildEmailMessages(request, options)) {
+    queued.push(await addMessage(message));
+  }
+
+  sendSoon();
+  return queued;
+}
+
+async function deliver(message: OutboxMessage): Promise<OutboxSendOutcome> {
+  try {
+    if (message.channel === 'sms') {
+      const result = await smsService.send({
+        to: { phoneNumber: message.recipient, name: message.recipientName },
+        type: 'custom',
+        customMessage: message.body,
+      });
+      return {
+        success: result.success,
+        permanent: result.status === 'rejected',
+        rateLimited: /HTTP 429/.test(result.errorMessage || ''),
+        error: result.errorMessage,
+        providerMessageId: result.messageId,
+        cost: result.cost,
+      };
+    }
+
+    if (message.channel === 'whatsapp') {
+      const result = await whatsappService.send({ to: message.recipient, ...message.whatsapp! });
+      return {
+        success: result.success,
+        permanent: result.status === 'rejected',
+        rateLimited: !!result.rateLimited,
+        error: result.errorMessage,
+        providerMessageId: result.messageId,
+      };
+    }
+
+    const result = await emailService.send(message.email!);
+    return {
+      success: result.success,
+      permanent: result.status === 'bounced' || !!result.error?.startsWith('Invalid email address'),
+      rateLimited: /\b429\b/.test(result.error || ''),
+      error: result.error,
+      provider: result.provider,
+      providerMessageId: result.messageId,
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message || 'Unknown error' };
+  }
+}
+
+/**
+ * Sends every message that is due, within each provider's rate limit.
+ * Run by the sync loop and after a message is queued while online.
+ * Returns the number sent.
+ */
+export async function drainOutbox(): Promise<number> {
+  if (!isOnline()) return 0;
+
+  if (!draining) {
+    draining = (async () => {
+      const now = new Date();
+      const windowStart = new Date(now.getTime() - Math.max(
+        ...Object.values(OUTBOX_RATE_LIMITS).map(limit => limit.windowMs)
+      )).toISOString();
+
+      const [waiting, recent] = await Promise.all([
+        localDb.outbox.where('status').anyOf(['queued', 'sending']).toArray(),
+        localDb.outbox.where('lastAttemptAt').above(windowStart).toArray(),
+      ]);
+      const attemptsOn = (channel: OutboxChannel) => recent
+        .filter(message => message.channel === channel)
+        .map(message => message.lastAttemptAt!);
+
+      const due = pickDueMessages(waiting, {
+        sms: getSendAllowance('sms', attemptsOn('sms'), now),
+        email: getSendAllowance('email', attemptsOn('email'), now),
+        whatsapp: getSendAllowance('whatsapp', attemptsOn('whatsapp'), now),
+      }, now);
+
+      const throttled = new Set<OutboxChannel>();
+      let sent = 0;
+      for (const message of due) {
+        if (throttled.has(message.channel)) continue;
+
+        const sending: OutboxMessage = {
+          ...message,
+          status: 'sending',
+          attempts: message.attempts + 1,
+          lastAttemptAt: new Date().toISOString(),
+        };
+        await localDb.outbox.put(sending);
+
+        const outcome = await deliver(sending);
+        const updated = applySendOutcome(sending, outcome);
+        await localDb.outbox.put(updated);
+        if (outcome.success) sent++;
+
+        // An SMS counts once the network reports on it; an email once the mail provider takes it
+        if (outcome.permanent || (outcome.success && message.channel === 'email')) {
+          await noteDelivery(message.channel, message.recipient, {
+            delivered: outcome.success,
+            reason: outcome.error,
+            permanent: outcome.permanent,
+          });
+        }
+        if (outcome.rateLimited) throttled.add(message.channel);
+        await fallBackToSMS(updated);
+      }
+      return sent;
+    })().finally(() => {
+      draining = null;
+    });
+  }
+  return draining;
+}
+
+// Writes a report onto its message and counts it against the number, once
+async function saveDeliveryReport(message: OutboxMessage, report: DeliveryReport): Promise<OutboxMessage> {
+  const updated = applyDeliveryReport(message, report);
+  if (updated === message) return message;
+
+  await localDb.outbox.put(updated);
+  if (message.deliveryStatus !== 'delivered') {
+    await noteDelivery(message.channel, message.recipient, {
+      delivered: updated.deliveryStatus !== 'failed',
+      reason: updated.deliveryError,
+    });
+  }
+  return fallBackToSMS(updated);
+}
+
+// What the provider has reported so far for one message, oldest first
+async function fetchDeliveryReports(message: OutboxMessage): Promise<DeliveryReport[]> {
+  const messageId = message.providerMessageId!;
+  if (message.channel === 'whatsapp') {
+    const updates = await whatsappService.getStatuses(messageId);
+    return updates.map(update => ({
+      messageId,
+      status: toWhatsAppDeliveryStatus(update.status),
+      ...(update.errorTitle && { failureReason: formatWhatsAppError(update.errorCode, update.errorTitle) }),
+      at: update.timestamp.toISOString(),
+    }));
+  }
+
+  const [report] = await smsService.getDeliveryReports(messageId);
+  return report ? [{ messageId, status: toDeliveryStatus(report.status), failureReason: report.failureReason }] : [];
+}
+
+/**
+ * Asks Africa's Talking and the WhatsApp provider what became of recently
+ * sent messages. Run by the sync loop. Messages with no final report after
+ * the reporting window are marked unknown and no longer asked about.
+ * Returns the number of messages updated.
+ */
+export async function syncDeliveryReports(): Promise<number> {
+  if (!isOnline()) return 0;
+
+  const now = new Date();
+  const pending = await localDb.outbox.where('deliveryStatus').equals('pending').toArray();
+  const expired = pending.filter(message => !isAwaitingReport(message, now));
+  if (expired.length > 0) {
+    await localDb.outbox.bulkPut(expired.map(message => ({ ...message, deliveryStatus: 'unknown' as const })));
+  }
+
+  let applied = 0;
+  const awaiting = pending
+    .filter(message => isAwaitingReport(message, now) && message.providerMessageId)
+    .slice(0, DELIVERY_REPORT_BATCH);
+  for (const message of awaiting) {
+    let updated = message;
+    for (const report of await fetchDeliveryReports(message)) {
+      updated = await saveDeliveryReport(updated, report);
+    }
+    if (updated !== message) applied++;
+  }
+  return applied;
+}
+
+/**
+ * Applies a delivery report Africa's Talking posted to the callback URL.
+ * Returns null when it is not for one of this device's messages.
+ */
+export async function handleDeliveryReportCallback(body: unknown): Promise<OutboxMessage | null> {
+  const report = parseDeliveryCallback(body);
+  if (!report) return null;
+
+  const message = await localDb.outbox.where('providerMessageId').equals(report.messageId).first();
+  return message ? saveDeliveryReport(message, report) : null;
+}
+
+/**
+ * Applies the delivery and read receipts in a post to the WhatsApp webhook.
+ * Returns the messages they changed; receipts for messages sent from
+ * another device are skipped.
+ */
+export async function handleWhatsAppWebhook(body: unknown): Promise<OutboxMessage[]> {
+  const changed: OutboxMessage[] = [];
+  for (const report of parseWhatsAppWebhook(body)) {
+    const message = await localDb.outbox.where('providerMessageId').equals(report.messageId).first();
+    if (!message) continue;
+
+    const updated = await saveDeliveryReport(message, report);
+    if (updated !== message) changed.push(updated);
+  }
+  return changed;
+}
+
+/**
+ * Contacts flagged as unreachable, worst first
+ */
+export async function getUnreachableContacts(): Promise<ContactReachability[]> {
+  const contacts = await localDb.reachability.where('status').equals('unreachable').toArray();
+  return contacts.sort((a, b) => a.score - b.score || b.consecutiveFailures - a.consecutiveFailures);
+}
+
+/**
+ * The students whose guardian contacts are flagged as unreachable, for the
+ * class teacher to correct
+ */
+export async function getContactsToFix<T extends GuardianContacts>(students: T[]): Promise<Array<ContactToFix<T>>> {
+  const flagged = new Map<string, ContactReachability>();
+  (await getUnreachableContacts()).forEach(contact => flagged.set(contact.id, contact));
+  if (flagged.size === 0) return [];
+
+  return students
+    .map(student => {
+      const ids = [
+        getReachabilityId('sms', formatUgandanPhone(student.guardianPhone)),
+        ...(student.guardianAlternatePhone ? [getReachabilityId('sms', formatUgandanPhone(student.guardianAlternatePhone))] : []),
+        ...(student.guardianEmail ? [getReachabilityId('email', student.guardianEmail)] : []),
+      ];
+      const contacts = ids.map(id => flagged.get(id)).filter((c): c is ContactReachability => !!c);
+      return { student, contacts };
+    })
+    .filter(({ contacts }) => contacts.length > 0);
+}
+
+// Puts a failed message back in the queue as if it were new
+export async function retryOutboxMessage(id: string): Promise<void> {
+  const message = await localDb.outbox.get(id);
+  if (!message) throw new Error('Message not found');
+  if (message.status !== 'failed') return;
+
+  await localDb.outbox.put({
+    ...message,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: new Date().toISOString(),
+  });
+  sendSoon();
+}
+
+/**
+ * Searches the message history, newest first
+ */
+export async function searchOutbox(search: OutboxSearch = {}, limit: number = 200): Promise<OutboxMessage[]> {
+  const messages = await localDb.outbox.orderBy('createdAt').reverse().toArray();
+  return messages.filter(message => matchesOutboxSearch(message, search)).slice(0, limit);
+}
+
+export async function getOutboxSummary(): Promise<OutboxSummary> {
+  return summarizeOutbox(await localDb.outbox.toArray());
+}
@@ -15,6 +15,8 @@ import {
   orderBy,
   limit,
   Timestamp,
+  QueryConstraint,
+  DocumentData,
 } from 'firebase/firestore';
 import { db } from '../firebase';
 import {
@@ -31,12 +33,34 @@ import {
   generateReceiptNumber,
   DEFAULT_NOTIFICATION_PREFERENCES,
 } from '../../types/parent-portal';
+import { getStudentCarryovers } from './term-balance.service';
+import { splitBroughtForward } from '../balances/credit';
+import { schoolCollectionPath, toRecordStatus } from '../db/shared-records';
+import { isTombstone } from '../sync/tombstones';
+import type { DBPayment, DBStudent } from '../db';
 
 const PARENTS_COLLECTION = 'parent_accounts';
-const STUDENTS_COLLECTION = 'students';
-const PAYMENTS_COLLECTION = 'payments';
 const ANNOUNCEMENTS_COLLECTION = 'announcements';
 
+const HISTORY_STATUSES: Record<string, ParentPaymentHistoryItem['status']> = {
+  cleared: 'completed',
+  pending: 'pending',
+};
+
+// Students and payments live in the school's collections, where deletes are tombstones
+async function getSchoolStudent(schoolId: string, studentId: string): Promise<(DBStudent & DocumentData) | null> {
+  const studentDoc = await getDoc(doc(db, schoolCollectionPath(schoolId, 'students'), studentId));
+  const student = studentDoc.exists() ? studentDoc.data() : null;
+  return student && !isTombstone(student) ? { ...(student as DBStudent), id: studentDoc.id } : null;
+}
+
+async function getSchoolPayments(schoolId: string, constraints: QueryConstraint[]): Promise<DBPayment[]> {
+  const snapshot = await getDocs(query(collection(db, schoolCollectionPath(schoolId, 'payments')), ...constraints));
+  return snapshot.docs
+    .map(paymentDoc => ({ ...(paymentDoc.data() as DBPayment), id: paymentDoc.id }))
+    .filter(payment => !isTombstone(payment));
+}
+
 // ============================================
 // PARENT ACCOUNT OPERATIONS
 // ============================================
@@ -85,9 +109,12 @@ export async function getParentByPhone(schoolId: string, phone: string): Promise
 }
 
 /**
- * Update notification preferences
+ * Update notification preferences. Notices are routed from the student
+ * record, so a new preferred channel is copied to each linked student's
+ * guardian.
  */
 export async function updateNotificationPreferences(
+  schoolId: string,
   parentId: string,
   preferences: Partial<NotificationPreferences>
 ): Promise<void> {
@@ -95,6 +122,16 @@ export async function updateNotificationPreferences(
     notificationPreferences: preferences,
     updatedAt: Timestamp.now(),
   });
+
+  if (preferences.preferredChannel) {
+    const parent = await getParentAccount(parentId);
+    await Promise.all((parent?.studentIds || []).map(studentId =>
+      updateDoc(doc(db, schoolCollectionPath(schoolId, 'students'), studentId), {
+        guardianChannel: preferences.preferredChannel,
+        updatedAt: new Date().toISOString(),
+      })
+    ));
+  }
 }
 
 // ============================================
@@ -105,12 +142,11 @@ export async function updateNotificationPreferences(
  * Get fee overview for a student (parent view)
  */
 export async function getParentStudentFeeOverview(
+  schoolId: string,
   studentId: string
 ): Promise<ParentStudentFeeOverview | null> {
-  const studentDoc = await getDoc(doc(db, STUDENTS_COLLECTION, studentId));
-  if (!studentDoc.exists()) return null;
-  
-  const student = studentDoc.data();
+  const student = await getSchoolStudent(schoolId, studentId);
+  if (!student) return null;
   
   // Get fee breakdown (would come from fee categories collection)
   const feeBreakdown = [
@@ -154,32 +190,27 @@ export async function getParentStudentFeeOverview(
  * Get payment history for parent view
  */
 export async function getParentPaymentHistory(
+  schoolId: string,
   studentIds: string[],
   limitCount: number = 20
 ): Promise<ParentPaymentHistoryItem[]> {
   if (studentIds.length === 0) return [];
 
-  const q = query(
-    collection(db, PAYMENTS_COLLECTION),
+  const payments = await getSchoolPayments(schoolId, [
     where('studentId', 'in', studentIds),
-    orderBy('date', 'desc'),
-    limit(limitCount)
-  );
-
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      date: data.date?.toDate() || new Date(),
-      amount: data.amount,
-      method: data.method,
-      reference: data.reference || '',
-      studentName: data.studentName || '',
-      status: data.status || 'completed',
-      receiptNumber: data.receiptNumber,
-    } as ParentPaymentHistoryItem;
-  });
+    orderBy('paymentDate', 'desc'),
+    limit(limitCount),
+  ]);
+  return payments.map(payment => ({
+    id: payment.id,
+    date: new Date(payment.paymentDate),
+    amount: payment.amount,
+    method: payment.channel,
+    reference: payment.transactionRef || '',
+    studentName: payment.studentName || '',
+    status: HISTORY_STATUSES[toRecordStatus(payment)] || 'failed',
+    receiptNumber: payment.receiptNumber,
+  }));
 }
 
 // ============================================
@@ -190,6 +221,7 @@ export async function getParentPaymentHistory(
  * Generate fee statement for a student
  */
 export async function generateFeeStatement(
+  schoolId: string,
   studentId: string,
   schoolInfo: {
     name: string;
@@ -199,29 +231,24 @@ export async function generateFeeStatement(
     logo?: string;
   }
 ): Promise<FeeStatement> {
-  const studentDoc = await getDoc(doc(db, STUDENTS_COLLECTION, studentId));
-  if (!studentDoc.exists()) {
+  const student = await getSchoolStudent(schoolId, studentId);
+  if (!student) {
     throw new Error('Student not found');
   }
   
-  const student = studentDoc.data();
-  
-  // Get payments
-  const paymentsQuery = query(
-    collection(db, PAYMENTS_COLLECTION),
+  // Get payments, leaving out reversed and bounced ones
+  const records = await getSchoolPayments(schoolId, [
     where('studentId', '==', studentId),
-    orderBy('date', 'desc')
-  );
-  const paymentsSnapshot = await getDocs(paymentsQuery);
-  const payments = paymentsSnapshot.docs.map(doc => {
-    const data = doc.data();
-    return {
-      date: data.date?.toDate() || new Date(),
-      amount: data.amount,
-      reference: data.reference || '',
-      method: data.method || 'cash',
-    };
-  });
+    orderBy('paymentDate', 'desc'),
+  ]);
+  const payments = records
+    .filter(payment => payment.status === 'completed')
+    .map(payment => ({
+      date: new Date(payment.paymentDate),
+      amount: payment.amount,
+      reference: payment.transactionRef || '',
+      method: payment.channel || 'cash',
+    }));
 
   // Build fee items (would come from fee structure)
   const feeItems = [
@@ -234,7 +261,23 @@ export async function generateFeeStatement(
 
   const totalFees = feeItems.reduce((sum, item) => sum + item.amount, 0);
   const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
-  const previousBalance = student.carryoverBalance || 0;
+
+  // Credit carried into the current term by the latest carryover run
+  const carryovers = await getStudentCarryovers(schoolId, studentId);
+  const latestPeriod = carryovers[0]?.toPeriod;
+  const carriedCredit = carryovers
+    .filter(c =>
+      c.carryoverType === 'credit' &&
+      (c.status === 'pending' || c.status === 'applied') &&
+      c.toPeriod.year === latestPeriod?.year &&
+      c.toPeriod.term === latestPeriod?.term
+    )
+    .reduce((sum, c) => sum + c.adjustedAmount, 0);
+  const { previousBalance, creditBroughtForward } = splitBroughtForward(
+    student.carryoverBalance || 0,
+    carryovers.length > 0 ? carriedCredit : undefined
+  );
+  const currentBalance = (totalFees + previousBalance) - creditBroughtForward - totalPaid;
 
   return {
     id: `stmt_${Date.now()}`,
@@ -248,8 +291,8 @@ export async function generateFeeStatement(
     studentName: `${student.firstName} ${student.lastName}`,
     className: student.className,
     admissionNumber: student.studentId || '',
-    guardianName: student.guardian?.name || '',
-    guardianPhone: student.guardian?.phone || '',
+    guardianName: student.guardianName || '',
+    guardianPhone: student.guardianPhone || '',
     term: student.term || 'Term 1',
     year: student.year || new Date().getFullYear(),
     feeItems,
@@ -257,8 +300,10 @@ export async function generateFeeStatement(
     payments,
     totalPaid,
     previousBalance,
-    totalOwed: totalFees + previousBalance,
-    currentBalance: (totalFees + previousBalance) - totalPaid,
+    creditBroughtForward,
+    totalOwed: totalFees + previousBalance - creditBroughtForward,
+    currentBalance,
+    creditBalance: Math.max(0, -currentBalance),
   };
 }
 
@@ -270,6 +315,7 @@ export async function generateFeeStatement(
  * Generate payment receipt
  */
 export async function generatePaymentReceipt(
+  schoolId: string,
   paymentId: string,
   schoolInfo: {
     name: string;
@@ -278,16 +324,14 @@ export async function generatePaymentReceipt(
     code: string;
   }
 ): Promise<PaymentReceipt> {
-  const paymentDoc = await getDoc(doc(db, PAYMENTS_COLLECTION, paymentId));
-  if (!paymentDoc.exists()) {
+  const paymentDoc = await getDoc(doc(db, schoolCollectionPath(schoolId, 'payments'), paymentId));
+  const payment = paymentDoc.exists() ? paymentDoc.data() : null;
+  if (!payment || isTombstone(payment)) {
     throw new Error('Payment not found');
   }
   
-  const payment = paymentDoc.data();
-  
   // Get student info
-  const studentDoc = await getDoc(doc(db, STUDENTS_COLLECTION, payment.studentId));
-  const student = studentDoc.exists() ? studentDoc.data() : {};
+  const student: DocumentData = await getSchoolStudent(schoolId, payment.studentId) ?? {};
 
   // Calculate balance after payment
   const previousBalance = (student.totalFees || 0) - ((student.amountPaid || 0) - payment.amount);
@@ -312,9 +356,9 @@ export async function generatePaymentReceipt(
     admissionNumber: student.studentId || '',
     amount: payment.amount,
     amountInWords: numberToWords(payment.amount),
-    paymentDate: payment.date?.toDate() || new Date(),
-    paymentMethod: payment.method || 'cash',
-    reference: payment.reference || '',
+    paymentDate: payment.paymentDate ? new Date(payment.paymentDate) : new Date(),
+    paymentMethod: payment.channel || 'cash',
+    reference: payment.transactionRef || '',
     allocations,
     previousBalance,
     balanceAfter: Math.max(0, balanceAfter),
@@ -396,7 +440,7 @@ export async function getParentDashboardSummary(
   // Get children overviews
   const children: ParentDashboardSummary['children'] = [];
   for (const studentId of parent.studentIds) {
-    const overview = await getParentStudentFeeOverview(studentId);
+    const overview = await getParentStudentFeeOverview(parent.schoolId, studentId);
     if (overview) {
       children.push({
         id: overview.studentId,
@@ -413,7 +457,7 @@ export async function getParentDashboardSummary(
   }
 
   // Get recent payments
-  const payments = await getParentPaymentHistory(parent.studentIds, 5);
+  const payments = await getParentPaymentHistory(parent.schoolId, parent.studentIds, 5);
   const recentPayments = payments.map(p => ({
     id: p.id,
     date: p.date,
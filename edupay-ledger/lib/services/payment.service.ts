@@ -9,20 +9,27 @@
 import { 
   doc, 
   getDoc, 
-  setDoc, 
-  updateDoc, 
-  runTransaction,
-  serverTimestamp,
   Timestamp,
-  increment
 } from 'firebase/firestore';
 import { db, initializeFirebase, COLLECTIONS } from '@/lib/firebase';
+import { db as localDb, dbHelpers, DBPayment } from '@/lib/db';
+import { toPayment, toStudent } from '@/lib/db/shared-records';
+import { isTombstone } from '@/lib/sync/tombstones';
+import { paymentJournal } from '@/lib/db/journal';
+import { receiptSeries } from '@/lib/db/receipt-series';
+import { planReceiptTopUp, RECEIPT_BLOCK_WAIT_MS } from '@/lib/db/receipt-numbers';
+import { anchorBatches } from '@/lib/db/anchor-batches';
+import { syncService } from '@/lib/sync';
 import { Payment, PaymentRecordInput, PaymentChannel } from '@/types/payment';
-import { Student, InstallmentProgress } from '@/types/student';
-import { anchorPaymentToStellar, queueForRetry, PaymentProof } from '@/lib/stellar';
-import { generateReceiptNumber, generatePaymentId } from '@/lib/utils';
+import { InstallmentProgress } from '@/types/student';
+import { createCheque } from '@/lib/cheques/state';
+import { validatePaymentAmount } from '@/lib/balances/credit';
+import { creditPaymentId } from '@/lib/reconciliation/credit-posting';
+import { collectionPaymentId } from '@/lib/collections/state';
+import { PaymentProof } from '@/lib/stellar';
+import { generatePaymentId, isOnline, sleep } from '@/lib/utils';
 import { sendPaymentReceiptSMS, sendPaymentReceiptEmail } from '@/lib/services/notification.service';
-import { generateReceipt } from '@/lib/services/receipt.service';
+import { generateReceipt, generatePrintableReceipt, createReceiptData, uploadReceiptPdf } from '@/lib/services/receipt.service';
 
 export interface PaymentRecordResult {
   success: boolean;
@@ -30,8 +37,11 @@ export interface PaymentRecordResult {
   receipt?: {
     number: string;
     url?: string;
+    html?: string; // Printable receipt, available offline
   };
   stellarTxHash?: string;
+  creditAmount?: number; // Portion beyond the outstanding balance, held as student credit
+  pendingSync?: boolean; // Recorded locally, Firestore write queued
   error?: string;
 }
 
@@ -48,118 +58,176 @@ export interface InstallmentApplicationResult {
  * Records a payment for a student
  * This is the main entry point for recording fee payments
  * 
+ * Works the same online and offline: everything is written to the local
+ * database first and the Firestore write is queued through the sync engine.
+ * 
  * Flow:
  * 1. Validate payment against installment rules
- * 2. Create payment record
+ * 2. Create payment record and journal entry
  * 3. Update student balances
- * 4. Generate receipt
- * 5. Anchor to Stellar blockchain
- * 6. Send notifications
+ * 4. Queue the changes for sync
+ * 5. Generate receipt
+ * 6. Add to the Stellar anchor batch (anchored when the batch is due)
+ * 7. Send notifications
  */
 export async function recordPayment(
   input: PaymentRecordInput,
   recordedByUserId: string,
   schoolId: string,
-  sendSmsNotification: boolean = true
+  sendSmsNotification: boolean = true,
+  recordedByName: string = recordedByUserId
 ): Promise<PaymentRecordResult> {
-  initializeFirebase();
-
   try {
-    // Use transaction to ensure data consistency
-    const result = await runTransaction(db, async (transaction) => {
-      // 1. Get student data
-      const studentRef = doc(db, COLLECTIONS.STUDENTS, input.studentId);
-      const studentDoc = await transaction.get(studentRef);
-      
-      if (!studentDoc.exists()) {
-        throw new Error('Student not found');
-      }
-
-      const student = { id: studentDoc.id, ...studentDoc.data() } as Student;
-
-      // 2. Validate payment
-      const validation = validatePaymentAmount(student, input.amount);
-      if (!validation.isValid) {
-        throw new Error(validation.message);
+    // Top up this device's receipt numbers while we have a connection
+    await topUpReceiptNumbers();
+
+    // Use a local transaction so the payment, journal and balance change land together
+    const result = await localDb.transaction(
+      'rw',
+      [
+        localDb.students, localDb.payments, localDb.paymentJournal, localDb.schools, localDb.syncQueue,
+        localDb.auditLogs, localDb.devices, localDb.receiptSeries, localDb.receiptBlocks,
+      ],
+      async () => {
+        // 1. Get student data
+        const localStudent = await localDb.students.get(input.studentId);
+
+        if (!localStudent) {
+          throw new Error('Student not found on this device. Sync student records and try again.');
+        }
+
+        const installments = localStudent.installmentProgress || [];
+
+        // 2. Validate payment
+        const validation = validatePaymentAmount(
+          { balance: localStudent.balance, installmentProgress: installments },
+          input.amount
+        );
+        if (!validation.isValid) {
+          throw new Error(validation.message);
+        }
+
+        // 3. Calculate installment application; the credit portion is not applied to installments
+        const installmentApplication = calculateInstallmentApplication(
+          installments,
+          input.amount - validation.creditAmount
+        );
+
+        // 4. Generate payment record; a cheque stays pending until it clears
+        const school = await localDb.schools.get(schoolId);
+        const now = Timestamp.now();
+        if (input.channel === 'cheque' && !input.cheque) {
+          throw new Error('Cheque number and drawer\'s bank are required for a cheque payment');
+        }
+        const cheque = input.channel === 'cheque' ? createCheque(input.cheque!, now.toDate()) : undefined;
+        const academicYear = school?.currentYear || String(now.toDate().getFullYear());
+        // A statement credit or mobile money collection is recorded at most once, under an ID taken from it
+        const paymentId = input.bankTransactionId
+          ? creditPaymentId(input.bankTransactionId)
+          : input.collectionId ? collectionPaymentId(input.collectionId) : generatePaymentId();
+        if ((input.bankTransactionId || input.collectionId) && await localDb.payments.get(paymentId)) {
+          throw new Error(input.bankTransactionId
+            ? 'This credit has already been posted as a payment'
+            : 'This collection has already been recorded as a payment');
+        }
+        const receiptNumber = await receiptSeries.allocate(academicYear);
+        const studentName = `${localStudent.firstName} ${localStudent.lastName}`;
+
+        const payment: Payment = {
+          id: paymentId,
+          receiptNumber,
+          transactionRef: input.transactionRef,
+          studentId: localStudent.id,
+          studentName,
+          studentClass: localStudent.className,
+          studentStream: localStudent.streamName,
+          schoolId,
+          amount: input.amount,
+          currency: 'UGX',
+          channel: input.channel,
+          channelDetails: getChannelDetails(input.channel),
+          installmentId: installmentApplication[0]?.installmentId || '',
+          installmentName: installmentApplication.map(ia => ia.installmentName).join(', ') ||
+            (validation.creditAmount > 0 ? 'Advance payment (credit)' : ''),
+          creditAmount: validation.creditAmount || undefined,
+          ...(cheque && { cheque }),
+          status: cheque && cheque.status !== 'cleared' ? 'pending' : 'cleared',
+          stellarAnchored: false,
+          recordedBy: recordedByUserId,
+          recordedAt: now,
+          notes: input.notes,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        // 5. Write payment record and its journal entry
+        await paymentJournal.recordPaymentEntry({
+          id: paymentId,
+          receiptNumber,
+          studentId: localStudent.id,
+          studentName,
+          amount: input.amount,
+          channel: input.channel,
+          transactionRef: input.transactionRef,
+          paymentDate: now.toDate().toISOString(),
+          termId: school?.currentTerm || '',
+          academicYear,
+          installmentId: payment.installmentId,
+          installmentName: payment.installmentName,
+          creditAmount: payment.creditAmount,
+          recordedBy: recordedByUserId,
+          notes: input.notes,
+          status: 'completed',
+          ...(cheque && { cheque }),
+          ...(input.bankTransactionId && { isReconciled: true }),
+        }, recordedByName);
+
+        // 6. Update student installment progress
+        const updatedInstallments = applyPaymentToInstallments(installments, installmentApplication);
+
+        const newAmountPaid = localStudent.amountPaid + input.amount;
+        const newBalance = localStudent.totalFees - newAmountPaid;
+        const newPaymentStatus = newBalance <= 0 ? 'fully_paid' : 
+                                 newBalance < localStudent.totalFees ? 'partial' : 'no_payment';
+
+        // Find current installment (first non-completed)
+        const currentInstallmentOrder = updatedInstallments.find(
+          i => i.status !== 'completed'
+        )?.installmentOrder || updatedInstallments.length;
+
+        // 7. Update student record and queue it for sync
+        await dbHelpers.saveLocalChange('students', {
+          ...localStudent,
+          amountPaid: newAmountPaid,
+          balance: newBalance,
+          paymentStatus: newPaymentStatus,
+          currentInstallment: currentInstallmentOrder,
+          installmentProgress: updatedInstallments,
+          lastPaymentDate: payment.createdAt.toDate().toISOString(),
+        });
+
+        const student = toStudent(localStudent, schoolId);
+
+        return {
+          payment,
+          student,
+          updatedInstallments,
+          newBalance,
+          creditAmount: validation.creditAmount,
+        };
       }
+    );
 
-      // 3. Calculate installment application
-      const installmentApplication = calculateInstallmentApplication(
-        student.installmentProgress,
-        input.amount
-      );
-
-      // 4. Generate payment record
-      const paymentId = generatePaymentId();
-      const receiptNumber = generateReceiptNumber();
-      const now = Timestamp.now();
-
-      const payment: Payment = {
-        id: paymentId,
-        receiptNumber,
-        transactionRef: input.transactionRef,
-        studentId: student.id,
-        studentName: `${student.firstName} ${student.lastName}`,
-        studentClass: student.className,
-        studentStream: student.streamName,
-        schoolId,
-        amount: input.amount,
-        currency: 'UGX',
-        channel: input.channel,
-        channelDetails: getChannelDetails(input.channel),
-        installmentId: installmentApplication[0]?.installmentId || '',
-        installmentName: installmentApplication.map(ia => ia.installmentName).join(', '),
-        status: 'cleared',
-        stellarAnchored: false,
-        recordedBy: recordedByUserId,
-        recordedAt: now,
-        notes: input.notes,
-        createdAt: now,
-        updatedAt: now,
-      };
-
-      // 5. Update student installment progress
-      const updatedInstallments = applyPaymentToInstallments(
-        student.installmentProgress,
-        installmentApplication
-      );
-
-      const newAmountPaid = student.amountPaid + input.amount;
-      const newBalance = student.totalFees - newAmountPaid;
-      const newPaymentStatus = newBalance === 0 ? 'fully_paid' : 
-                               newBalance < student.totalFees ? 'partial' : 'no_payment';
-
-      // Find current installment (first non-completed)
-      const currentInstallmentOrder = updatedInstallments.find(
-        i => i.status !== 'completed'
-      )?.installmentOrder || updatedInstallments.length;
-
-      // 6. Write payment record
-      const paymentRef = doc(db, COLLECTIONS.PAYMENTS, paymentId);
-      transaction.set(paymentRef, payment);
-
-      // 7. Update student record
-      transaction.update(studentRef, {
-        amountPaid: newAmountPaid,
-        balance: newBalance,
-        paymentStatus: newPaymentStatus,
-        currentInstallment: currentInstallmentOrder,
-        installmentProgress: updatedInstallments,
-        lastPaymentDate: now,
-        updatedAt: now,
-      });
+    // 8. Post-transaction operations (non-critical)
+    const online = isOnline();
 
-      return {
-        payment,
-        student,
-        updatedInstallments,
-        newBalance,
-      };
-    });
+    // 8a. Push the queued writes to Firestore now if we can
+    if (online) {
+      syncService.sync().catch(error => console.error('Sync after payment failed:', error));
+    }
 
-    // 8. Post-transaction operations (non-critical)
-    
-    // 8a. Anchor to Stellar blockchain
+    // 8b. Add the payment to this device's Stellar anchor batch; full or day-old
+    // batches are sealed and queued, and their Merkle root anchored in one transaction
     const proof: PaymentProof = {
       paymentId: result.payment.id,
       studentId: result.student.id,
@@ -171,41 +239,49 @@ export async function recordPayment(
       receiptNumber: result.payment.receiptNumber,
     };
 
-    const stellarResult = await anchorPaymentToStellar(proof);
-    
-    if (stellarResult.success && stellarResult.txHash) {
-      // Update payment with Stellar hash
-      await updateDoc(doc(db, COLLECTIONS.PAYMENTS, result.payment.id), {
-        stellarTxHash: stellarResult.txHash,
-        stellarTimestamp: Timestamp.now(),
-        stellarAnchored: true,
-      });
-      result.payment.stellarTxHash = stellarResult.txHash;
-      result.payment.stellarAnchored = true;
-    } else {
-      // Queue for retry
-      queueForRetry(proof);
+    try {
+      await anchorBatches.addPayment(proof);
+      await anchorBatches.sealDue();
+      if (online) await anchorBatches.drainQueue();
+
+      // The receipt's verification code needs the proof hash
+      const localPayment = await localDb.payments.get(result.payment.id);
+      result.payment.proofHash = localPayment?.proofHash;
+      result.payment.proofTimestamp = localPayment?.proofTimestamp;
+      if (localPayment?.stellarTxHash) {
+        result.payment.stellarTxHash = localPayment.stellarTxHash;
+        result.payment.stellarAnchored = true;
+      }
+    } catch (error) {
+      console.error('Stellar batching failed:', error);
     }
 
-    // 8b. Generate receipt
-    const receiptUrl = await generateReceipt({
+    // 8c. Generate receipt, printable locally and uploaded when online
+    const receiptData = {
       payment: result.payment,
       student: result.student,
       newBalance: result.newBalance,
-    });
+    };
+    const receiptHtml = generatePrintableReceipt(createReceiptData(receiptData));
+    const receiptUrl = online ? await generateReceipt(receiptData) : undefined;
+    // WhatsApp only takes the receipt as a PDF
+    const receiptPdfUrl = online && sendSmsNotification ? await uploadReceiptPdf(receiptData) : undefined;
 
-    // 8c. Send notifications
-    if (sendSmsNotification && result.student.guardian?.phone) {
+    // 8d. Queue notifications; the outbox sends them once the device is online
+    if (sendSmsNotification && result.student.guardian.phone) {
       await sendPaymentReceiptSMS({
         phoneNumber: result.student.guardian.phone,
+        alternatePhone: result.student.guardian.alternatePhone,
+        studentId: result.student.id,
         studentName: `${result.student.firstName} ${result.student.lastName}`,
         amount: result.payment.amount,
         balance: result.newBalance,
         receiptNumber: result.payment.receiptNumber,
+        receiptUrl: receiptPdfUrl,
       });
     }
 
-    if (result.student.guardian?.email) {
+    if (result.student.guardian.email) {
       await sendPaymentReceiptEmail({
         email: result.student.guardian.email,
         studentName: `${result.student.firstName} ${result.student.lastName}`,
@@ -222,8 +298,11 @@ export async function recordPayment(
       receipt: {
         number: result.payment.receiptNumber,
         url: receiptUrl,
+        html: receiptHtml,
       },
       stellarTxHash: result.payment.stellarTxHash,
+      creditAmount: result.creditAmount,
+      pendingSync: true,
     };
 
   } catch (error: any) {
@@ -236,56 +315,21 @@ export async function recordPayment(
 }
 
 /**
- * Validates payment amount against student's balance and installment rules
+ * Reserves the next block of receipt numbers when this device is running low.
+ * The reservation runs in the background; recording only waits for it, and
+ * then not for long, when no reserved numbers are left. A payment recorded
+ * before the block arrives keeps counting past the last block.
  */
-function validatePaymentAmount(
-  student: Student,
-  amount: number
-): { isValid: boolean; message: string } {
-  // Check if student has any balance
-  if (student.balance <= 0) {
-    return {
-      isValid: false,
-      message: 'Student has no outstanding balance',
-    };
-  }
-
-  // Check if amount exceeds balance
-  if (amount > student.balance) {
-    return {
-      isValid: false,
-      message: `Amount (${amount.toLocaleString()}) exceeds outstanding balance (${student.balance.toLocaleString()})`,
-    };
-  }
-
-  // Check minimum payment (must not be zero or negative)
-  if (amount <= 0) {
-    return {
-      isValid: false,
-      message: 'Payment amount must be greater than zero',
-    };
-  }
-
-  // Check if current installment is unlocked
-  const currentInstallment = student.installmentProgress.find(
-    i => i.status !== 'completed' && i.isUnlocked
-  );
-
-  if (!currentInstallment) {
-    // Check if there's an installment that should be unlocked
-    const nextInstallment = student.installmentProgress.find(
-      i => i.status !== 'completed'
-    );
-    
-    if (nextInstallment && !nextInstallment.isUnlocked) {
-      return {
-        isValid: false,
-        message: `${nextInstallment.installmentName} is not yet unlocked. Previous installments must be completed first.`,
-      };
-    }
+async function topUpReceiptNumbers(): Promise<void> {
+  const remaining = await receiptSeries.getRemaining(await syncService.getAcademicYear());
+  const plan = planReceiptTopUp(remaining, isOnline());
+  if (plan === 'none') return;
+
+  const reservation = syncService.reserveReceiptBlock()
+    .catch(error => console.error('Receipt block reservation failed:', error));
+  if (plan === 'wait') {
+    await Promise.race([reservation, sleep(RECEIPT_BLOCK_WAIT_MS)]);
   }
-
-  return { isValid: true, message: 'Payment is valid' };
 }
 
 /**
@@ -382,13 +426,14 @@ function getChannelDetails(channel: PaymentChannel): string {
 }
 
 /**
- * Gets payment by ID
+ * Gets payment by ID from the school's shared payments, where the sync
+ * engine uploads every payment recorded on the school's devices
  */
-export async function getPaymentById(paymentId: string): Promise<Payment | null> {
+export async function getPaymentById(schoolId: string, paymentId: string): Promise<Payment | null> {
   initializeFirebase();
   
-  const paymentDoc = await getDoc(doc(db, COLLECTIONS.PAYMENTS, paymentId));
-  if (!paymentDoc.exists()) return null;
+  const paymentDoc = await getDoc(doc(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS, paymentId));
+  if (!paymentDoc.exists() || isTombstone(paymentDoc.data())) return null;
   
-  return { id: paymentDoc.id, ...paymentDoc.data() } as Payment;
+  return toPayment({ ...paymentDoc.data(), id: paymentDoc.id } as DBPayment, schoolId);
 }
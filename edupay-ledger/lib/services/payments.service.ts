@@ -11,17 +11,14 @@ import {
   orderBy, 
   limit,
   getDocs,
-  getDoc,
-  doc,
-  addDoc,
-  updateDoc,
-  Timestamp,
   startAfter,
   DocumentSnapshot,
-  writeBatch,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Payment, PaymentChannel, PaymentRecordStatus, PaymentRecordInput } from '@/types/payment';
+import { paymentJournal } from '@/lib/db/journal';
+import { readPayments, sharedStatusesFor } from '@/lib/db/shared-records';
+import { recordPayment as recordPaymentWithInstallments } from '@/lib/services/payment.service';
+import { PaymentChannel, PaymentRecordStatus, PaymentRecordInput } from '@/types/payment';
 
 // ============================================================================
 // TYPES
@@ -109,12 +106,6 @@ function getChannelDisplayName(channel: PaymentChannel): string {
   return names[channel] || 'Unknown';
 }
 
-function generateReceiptNumber(): string {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `RCP-${timestamp}-${random}`;
-}
-
 function getStartOfDay(date: Date): Date {
   const start = new Date(date);
   start.setHours(0, 0, 0, 0);
@@ -149,14 +140,13 @@ export async function getPayments(
 ): Promise<{ payments: PaymentListItem[]; lastDoc: DocumentSnapshot | null }> {
   try {
     let q = query(
-      collection(db, 'payments'),
-      where('schoolId', '==', schoolId),
-      orderBy(filters.sortBy === 'date' ? 'recordedAt' : filters.sortBy === 'amount' ? 'amount' : 'studentName', filters.sortOrder),
+      collection(db, 'schools', schoolId, 'payments'),
+      orderBy(filters.sortBy === 'date' ? 'createdAt' : filters.sortBy === 'amount' ? 'amount' : 'studentName', filters.sortOrder),
       limit(pageSize)
     );
 
     if (filters.status && filters.status !== 'All') {
-      q = query(q, where('status', '==', filters.status));
+      q = query(q, where('status', 'in', sharedStatusesFor(filters.status as PaymentRecordStatus)));
     }
 
     if (filters.channel && filters.channel !== 'All') {
@@ -168,29 +158,24 @@ export async function getPayments(
     }
 
     const snapshot = await getDocs(q);
-    const payments: PaymentListItem[] = [];
-    
-    snapshot.forEach(doc => {
-      const data = doc.data();
-      payments.push({
-        id: doc.id,
-        receiptNumber: data.receiptNumber,
-        transactionRef: data.transactionRef,
-        studentId: data.studentId,
-        studentName: data.studentName,
-        studentClass: data.studentClass,
-        studentStream: data.studentStream,
-        amount: data.amount,
-        channel: data.channel,
-        channelDisplay: getChannelDisplayName(data.channel),
-        status: data.status,
-        recordedBy: data.recordedBy,
-        recordedAt: data.recordedAt.toDate(),
-        stellarAnchored: data.stellarAnchored,
-        stellarTxHash: data.stellarTxHash,
-        notes: data.notes,
-      });
-    });
+    const payments: PaymentListItem[] = readPayments(snapshot.docs, schoolId).map(payment => ({
+      id: payment.id,
+      receiptNumber: payment.receiptNumber,
+      transactionRef: payment.transactionRef,
+      studentId: payment.studentId,
+      studentName: payment.studentName,
+      studentClass: payment.studentClass,
+      studentStream: payment.studentStream,
+      amount: payment.amount,
+      channel: payment.channel,
+      channelDisplay: getChannelDisplayName(payment.channel),
+      status: payment.status,
+      recordedBy: payment.recordedBy,
+      recordedAt: payment.recordedAt.toDate(),
+      stellarAnchored: payment.stellarAnchored,
+      stellarTxHash: payment.stellarTxHash,
+      notes: payment.notes,
+    }));
 
     const lastVisible = snapshot.docs[snapshot.docs.length - 1] || null;
     return { payments, lastDoc: lastVisible };
@@ -208,10 +193,8 @@ export async function getPaymentStats(schoolId: string): Promise<PaymentStats> {
     const startOfMonth = getStartOfMonth(now);
 
     // In production, these would be separate queries or aggregations
-    const paymentsRef = collection(db, 'payments');
-    const schoolPayments = query(paymentsRef, where('schoolId', '==', schoolId));
-    
-    const snapshot = await getDocs(schoolPayments);
+    const snapshot = await getDocs(collection(db, 'schools', schoolId, 'payments'));
+    const payments = readPayments(snapshot.docs, schoolId);
     
     let todayCollection = 0, todayCount = 0;
     let weekCollection = 0, weekCount = 0;
@@ -219,10 +202,9 @@ export async function getPaymentStats(schoolId: string): Promise<PaymentStats> {
     let pendingVerification = 0, clearedCount = 0;
     let totalCollection = 0;
 
-    snapshot.forEach(doc => {
-      const data = doc.data();
-      const recordedAt = data.recordedAt.toDate();
-      const amount = data.amount;
+    payments.forEach(payment => {
+      const recordedAt = payment.recordedAt.toDate();
+      const amount = payment.amount;
 
       totalCollection += amount;
 
@@ -238,15 +220,15 @@ export async function getPaymentStats(schoolId: string): Promise<PaymentStats> {
         monthCollection += amount;
         monthCount++;
       }
-      if (data.status === 'pending') {
+      if (payment.status === 'pending') {
         pendingVerification++;
       }
-      if (data.status === 'cleared') {
+      if (payment.status === 'cleared') {
         clearedCount++;
       }
     });
 
-    const totalCount = snapshot.size;
+    const totalCount = payments.length;
     
     return {
       todayCollection,
@@ -266,101 +248,29 @@ export async function getPaymentStats(schoolId: string): Promise<PaymentStats> {
   }
 }
 
+/**
+ * Records a payment through the payment service, so it goes into the local
+ * journal and reaches the school's shared payments through the sync queue
+ */
 export async function recordPayment(
   schoolId: string,
   input: PaymentRecordInput,
   recordedBy: string
 ): Promise<string> {
-  try {
-    const studentDoc = await getDoc(doc(db, 'students', input.studentId));
-    if (!studentDoc.exists()) {
-      throw new Error('Student not found');
-    }
-    const studentData = studentDoc.data();
-
-    const paymentData: Omit<Payment, 'id'> = {
-      receiptNumber: generateReceiptNumber(),
-      transactionRef: input.transactionRef,
-      studentId: input.studentId,
-      studentName: `${studentData.firstName} ${studentData.lastName}`,
-      studentClass: studentData.className,
-      studentStream: studentData.streamName,
-      schoolId,
-      amount: input.amount,
-      currency: 'UGX',
-      channel: input.channel,
-      installmentId: input.installmentId,
-      installmentName: '', // Would be fetched from installment
-      status: 'pending',
-      stellarAnchored: false,
-      recordedBy,
-      recordedAt: Timestamp.now(),
-      notes: input.notes,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    };
-
-    const docRef = await addDoc(collection(db, 'payments'), paymentData);
-    
-    // Update student's payment totals (in production, use a transaction)
-    const batch = writeBatch(db);
-    batch.update(doc(db, 'students', input.studentId), {
-      amountPaid: (studentData.amountPaid || 0) + input.amount,
-      balance: (studentData.balance || 0) - input.amount,
-      updatedAt: Timestamp.now(),
-    });
-    await batch.commit();
-
-    return docRef.id;
-  } catch (error) {
-    console.error('Error recording payment:', error);
-    throw error;
-  }
-}
-
-export async function verifyPayment(paymentId: string, verifiedBy: string): Promise<void> {
-  try {
-    await updateDoc(doc(db, 'payments', paymentId), {
-      status: 'cleared',
-      verifiedAt: Timestamp.now(),
-      verifiedBy,
-      updatedAt: Timestamp.now(),
-    });
-  } catch (error) {
-    console.error('Error verifying payment:', error);
-    throw error;
+  const result = await recordPaymentWithInstallments(input, recordedBy, schoolId);
+  if (!result.success || !result.payment) {
+    throw new Error(result.error || 'Failed to record payment');
   }
+  return result.payment.id;
 }
 
+/**
+ * Reverses a payment through the journal, which also takes it off the
+ * student's balance and syncs both records
+ */
 export async function reversePayment(paymentId: string, reason: string, reversedBy: string): Promise<void> {
   try {
-    const paymentDoc = await getDoc(doc(db, 'payments', paymentId));
-    if (!paymentDoc.exists()) {
-      throw new Error('Payment not found');
-    }
-    const paymentData = paymentDoc.data();
-
-    const batch = writeBatch(db);
-    
-    // Update payment status
-    batch.update(doc(db, 'payments', paymentId), {
-      status: 'reversed',
-      notes: `Reversed: ${reason}`,
-      updatedAt: Timestamp.now(),
-    });
-
-    // Revert student balance
-    const studentDoc = await getDoc(doc(db, 'students', paymentData.studentId));
-    if (studentDoc.exists()) {
-      const studentData = studentDoc.data();
-      batch.update(doc(db, 'students', paymentData.studentId), {
-        amountPaid: (studentData.amountPaid || 0) - paymentData.amount,
-        balance: (studentData.balance || 0) + paymentData.amount,
-        updatedAt: Timestamp.now(),
-      });
-    }
-
-    await batch.commit();
+    await paymentJournal.reversePayment(paymentId, reason, reversedBy, reversedBy);
   } catch (error) {
     console.error('Error reversing payment:', error);
     throw error;
@@ -27,6 +27,8 @@ import {
   QuickSearchResult,
   sortTasksByPriority,
 } from '../../types/quick-actions';
+import { CHEQUE_OVERDUE_DAYS } from '../../types/cheque';
+import { getChequeAgeDays, isChequeOverdue } from '../cheques/state';
 
 // ============================================
 // DAILY SUMMARY
@@ -122,7 +124,10 @@ export async function getDailySummary(schoolId: string, date?: Date): Promise<Da
 // PENDING TASKS
 // ============================================
 
-export async function getPendingTasks(schoolId: string): Promise<PendingTask[]> {
+export async function getPendingTasks(
+  schoolId: string,
+  chequeOverdueDays: number = CHEQUE_OVERDUE_DAYS
+): Promise<PendingTask[]> {
   const tasks: PendingTask[] = [];
   const today = new Date();
   const nextWeek = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000);
@@ -212,6 +217,35 @@ export async function getPendingTasks(schoolId: string): Promise<PendingTask[]>
     });
   });
 
+  // Get cheques the bank has not cleared in time
+  const chequesRef = collection(db, 'schools', schoolId, 'payments');
+  const chequesQuery = query(
+    chequesRef,
+    where('cheque.status', 'in', ['received', 'deposited'])
+  );
+  const chequesSnap = await getDocs(chequesQuery);
+
+  chequesSnap.docs.forEach((doc) => {
+    const data = doc.data();
+    if (data.status !== 'completed' || !isChequeOverdue(data.cheque, today, chequeOverdueDays)) return;
+
+    const ageDays = getChequeAgeDays(data.cheque, today);
+    tasks.push({
+      id: `cheque-${doc.id}`,
+      type: 'cheque_clearance',
+      title: `Uncleared cheque: ${data.studentName || 'Student'}`,
+      description: `Cheque ${data.cheque.chequeNumber} (${data.cheque.bankName}) - UGX ${(data.amount || 0).toLocaleString()}, ${ageDays} day(s) uncleared`,
+      priority: ageDays >= 2 * chequeOverdueDays ? 'urgent' : 'high',
+      dueDate: new Date(data.cheque.expectedClearanceDate || data.cheque.receivedAt),
+      relatedId: doc.id,
+      relatedType: 'payment',
+      action: {
+        label: 'Update Cheque',
+        href: '/payments/cheques',
+      },
+    });
+  });
+
   return sortTasksByPriority(tasks);
 }
 
@@ -473,6 +507,17 @@ export function getMockPendingTasks(): PendingTask[] {
       relatedType: 'promise',
       action: { label: 'Complete Follow-up', href: '/promises/003' },
     },
+    {
+      id: '6',
+      type: 'cheque_clearance',
+      title: 'Uncleared cheque: Grace Akello',
+      description: 'Cheque 004512 (Stanbic Bank) - UGX 850,000, 9 day(s) uncleared',
+      priority: 'high',
+      dueDate: new Date(today.getTime() - 4 * 24 * 60 * 60 * 1000),
+      relatedId: 'payment-006',
+      relatedType: 'payment',
+      action: { label: 'Update Cheque', href: '/payments/cheques' },
+    },
     {
       id: '4',
       type: 'report_due',
@@ -9,6 +9,9 @@ import { Student } from '@/types/student';
 import { formatUGX } from '@/lib/utils';
 import { ref, uploadString, getDownloadURL } from 'firebase/storage';
 import { storage, initializeFirebase } from '@/lib/firebase';
+import { buildVerificationUrl } from '@/lib/receipt-verification';
+import { PdfLine, renderTextPdf } from '@/lib/text-pdf';
+import QRCode from 'qrcode';
 
 export interface ReceiptData {
   payment: Payment;
@@ -35,6 +38,8 @@ export interface Receipt {
   schoolName: string;
   schoolAddress: string;
   stellarHash?: string;
+  proofHash?: string;
+  verificationUrl?: string; // Encoded in the receipt's QR code
 }
 
 /**
@@ -72,6 +77,34 @@ function numberToWords(num: number): string {
   return result.trim() + ' Shillings Only';
 }
 
+/**
+ * Base of the verification link printed on receipts. The desktop app serves
+ * itself locally, so receipts point at the school's public site when one is set.
+ */
+function getVerificationBaseUrl(): string {
+  if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL;
+  return typeof window !== 'undefined' ? window.location.origin : '';
+}
+
+/**
+ * Renders text as an inline SVG QR code
+ */
+function renderQrCodeSvg(text: string): string {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const quietZone = 4;
+  const size = modules.size + quietZone * 2;
+  let path = '';
+
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) path += `M${col + quietZone} ${row + quietZone}h1v1h-1z`;
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#1b2b4b"/></svg>`;
+}
+
 /**
  * Generates receipt data from payment
  */
@@ -101,6 +134,13 @@ export function createReceiptData(data: ReceiptData): Receipt {
     schoolName: 'School Name', // Would come from school settings
     schoolAddress: 'School Address', // Would come from school settings
     stellarHash: payment.stellarTxHash,
+    proofHash: payment.proofHash,
+    verificationUrl: payment.proofHash
+      ? buildVerificationUrl(
+          { schoolId: payment.schoolId, receiptNumber: payment.receiptNumber, proofHash: payment.proofHash },
+          getVerificationBaseUrl()
+        )
+      : undefined,
   };
 }
 
@@ -232,18 +272,18 @@ export function generateReceiptHTML(receipt: Receipt): string {
         .balance-section {
           margin-top: 20px;
           padding: 16px;
-          background: ${receipt.newBalance === 0 ? '#dcfce7' : '#fef3c7'};
+          background: ${receipt.newBalance <= 0 ? '#dcfce7' : '#fef3c7'};
           border-radius: 8px;
           text-align: center;
         }
         .balance-label {
           font-size: 12px;
-          color: ${receipt.newBalance === 0 ? '#166534' : '#92400e'};
+          color: ${receipt.newBalance <= 0 ? '#166534' : '#92400e'};
         }
         .balance-value {
           font-size: 20px;
           font-weight: 700;
-          color: ${receipt.newBalance === 0 ? '#166534' : '#92400e'};
+          color: ${receipt.newBalance <= 0 ? '#166534' : '#92400e'};
         }
         .stellar-badge {
           margin-top: 20px;
@@ -269,6 +309,37 @@ export function generateReceiptHTML(receipt: Receipt): string {
           word-break: break-all;
           margin-top: 4px;
         }
+        .verify-section {
+          margin-top: 20px;
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 12px;
+          border: 1px dashed #cbd5e1;
+          border-radius: 8px;
+        }
+        .verify-section svg {
+          width: 96px;
+          height: 96px;
+          flex-shrink: 0;
+        }
+        .verify-section .label {
+          font-size: 12px;
+          font-weight: 600;
+          color: #1b2b4b;
+        }
+        .verify-section .hint {
+          font-size: 10px;
+          color: #64748b;
+          margin-top: 4px;
+        }
+        .verify-section .hash {
+          font-size: 9px;
+          font-family: monospace;
+          color: #64748b;
+          word-break: break-all;
+          margin-top: 4px;
+        }
         .receipt-footer {
           padding: 16px 24px;
           background: #f8fafc;
@@ -332,8 +403,8 @@ export function generateReceiptHTML(receipt: Receipt): string {
           </div>
           
           <div class="balance-section">
-            <p class="balance-label">${receipt.newBalance === 0 ? 'Fully Paid ✓' : 'Outstanding Balance'}</p>
-            <p class="balance-value">UGX ${receipt.newBalance.toLocaleString()}</p>
+            <p class="balance-label">${receipt.newBalance === 0 ? 'Fully Paid ✓' : receipt.newBalance < 0 ? 'Credit Carried to Next Term' : 'Outstanding Balance'}</p>
+            <p class="balance-value">UGX ${Math.abs(receipt.newBalance).toLocaleString()}</p>
           </div>
           
           ${receipt.stellarHash ? `
@@ -343,6 +414,17 @@ export function generateReceiptHTML(receipt: Receipt): string {
               <p class="hash">${receipt.stellarHash}</p>
             </div>
           ` : ''}
+          
+          ${receipt.verificationUrl ? `
+            <div class="verify-section">
+              ${renderQrCodeSvg(receipt.verificationUrl)}
+              <div>
+                <p class="label">Verify this receipt</p>
+                <p class="hint">Scan the code to check it against the school's records</p>
+                <p class="hash">${receipt.proofHash}</p>
+              </div>
+            </div>
+          ` : ''}
         </div>
         
         <div class="receipt-footer">
@@ -355,6 +437,56 @@ export function generateReceiptHTML(receipt: Receipt): string {
   `;
 }
 
+/**
+ * Generates the receipt as a one-page PDF, the document format WhatsApp
+ * accepts
+ */
+export function generateReceiptPdf(receipt: Receipt): string {
+  const row = (label: string, value: string, bold = false): PdfLine => ({ text: `${label}: ${value}`, bold });
+
+  return renderTextPdf([
+    { text: receipt.schoolName, size: 16, bold: true },
+    { text: receipt.schoolAddress, size: 10 },
+    { text: 'OFFICIAL PAYMENT RECEIPT', size: 13, bold: true, gap: 12 },
+    { ...row('Receipt No', receipt.receiptNumber), gap: 8 },
+    row('Date', receipt.date),
+    { text: 'Student', bold: true, gap: 12 },
+    row('Name', receipt.studentName),
+    row('Student ID', receipt.studentId),
+    row('Class', receipt.streamName ? `${receipt.className} ${receipt.streamName}` : receipt.className),
+    row('Guardian', receipt.guardianName),
+    { text: 'Payment', bold: true, gap: 12 },
+    row('Amount', formatUGX(receipt.amount), true),
+    { text: receipt.amountWords, size: 10 },
+    row('Paid Via', receipt.paymentChannel),
+    row('Transaction Ref', receipt.transactionRef),
+    row('Installment', receipt.installmentName),
+    { ...row('Previous Balance', formatUGX(receipt.previousBalance)), gap: 8 },
+    row('Balance', formatUGX(receipt.newBalance), true),
+    ...(receipt.verificationUrl
+      ? [{ text: 'Verify this receipt at:', size: 9, gap: 16 }, { text: receipt.verificationUrl, size: 8 }]
+      : []),
+  ]);
+}
+
+/**
+ * Stores the receipt PDF
+ * Returns the URL to the PDF
+ */
+export async function uploadReceiptPdf(data: ReceiptData): Promise<string | undefined> {
+  initializeFirebase();
+
+  try {
+    const pdf = generateReceiptPdf(createReceiptData(data));
+    const pdfRef = ref(storage, `receipts/${data.payment.schoolId}/${data.payment.receiptNumber}.pdf`);
+    await uploadString(pdfRef, pdf, 'raw', { contentType: 'application/pdf' });
+    return await getDownloadURL(pdfRef);
+  } catch (error) {
+    console.error('Failed to store receipt PDF:', error);
+    return undefined;
+  }
+}
+
 /**
  * Generates a receipt and stores it
  * Returns the URL to the receipt
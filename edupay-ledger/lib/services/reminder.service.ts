@@ -0,0 +1,237 @@
+/**
+ * Scheduled Reminder Service
+ * The daily reminder run: finds installment deadlines, overdue balances and
+ * payment promises that need a reminder, holds each guardian to the
+ * frequency cap, queues the messages in the outbox to go out outside quiet
+ * hours, and logs the run in IndexedDB for review. The desktop app's main
+ * process decides when a run is due; the run itself happens here, next to
+ * the local data.
+ */
+
+import { db as localDb, dbHelpers } from '@/lib/db';
+import {
+  applyFrequencyCap,
+  countRecentReminders,
+  daysBetween,
+  findInstallmentReminders,
+  getCapWindowStart,
+  getNextPromiseReminderDate,
+} from '@/lib/reminders/schedule';
+import { formatUgandanPhone } from '@/lib/services/sms.service';
+import {
+  sendDeadlineReminderSMS,
+  sendOverdueAlertSMS,
+  sendPromiseReminderSMS,
+} from '@/lib/services/notification.service';
+import { getDueReminders, recordReminderSent, scheduleNextReminder } from '@/lib/services/payment-promise.service';
+import { isOnline } from '@/lib/utils';
+import type { OutboxOptions } from '@/types/outbox';
+import type { PromiseWithStatus } from '@/types/payment-promise';
+import type {
+  ReminderCandidate,
+  ReminderOutcome,
+  ReminderRun,
+  ReminderRunItem,
+  ReminderSettings,
+} from '@/types/reminder';
+
+// The run in progress, so a scheduled run and a manual one never overlap
+let running: Promise<ReminderRun> | null = null;
+
+function toPromiseCandidate(promise: PromiseWithStatus, today: Date): ReminderCandidate {
+  return {
+    kind: 'promise',
+    studentId: promise.studentId,
+    studentName: promise.studentName,
+    guardianPhone: promise.guardianPhone,
+    ...(promise.guardianEmail && { email: promise.guardianEmail }),
+    label: 'Payment promise',
+    amount: promise.remainingAmount,
+    dueDate: promise.dueDate,
+    days: daysBetween(today, promise.dueDate),
+    dedupeScope: `reminder:promise:${promise.id}:${promise.reminderCount || 0}`,
+    promiseId: promise.id,
+  };
+}
+
+function toRunItem(candidate: ReminderCandidate, outcome: ReminderOutcome, error?: string): ReminderRunItem {
+  return {
+    kind: candidate.kind,
+    studentId: candidate.studentId,
+    studentName: candidate.studentName,
+    recipient: candidate.guardianPhone,
+    label: candidate.label,
+    amount: candidate.amount,
+    days: candidate.days,
+    outcome,
+    ...(error && { error }),
+  };
+}
+
+function sendReminder(candidate: ReminderCandidate, options: OutboxOptions): Promise<boolean> {
+  const contact = {
+    phoneNumber: candidate.guardianPhone,
+    alternatePhone: candidate.alternatePhone,
+    email: candidate.email,
+    studentName: candidate.studentName,
+  };
+
+  switch (candidate.kind) {
+    case 'deadline':
+      return sendDeadlineReminderSMS({
+        ...contact,
+        installmentName: candidate.label,
+        amountDue: candidate.amount,
+        deadline: candidate.dueDate,
+        daysUntilDeadline: candidate.days,
+      }, options);
+    case 'overdue':
+      return sendOverdueAlertSMS({
+        ...contact,
+        installmentName: candidate.label,
+        amountOverdue: candidate.amount,
+        daysOverdue: -candidate.days,
+      }, options);
+    case 'promise':
+      return sendPromiseReminderSMS({
+        ...contact,
+        amountDue: candidate.amount,
+        dueDate: candidate.dueDate,
+        daysUntilDue: candidate.days,
+      }, options);
+  }
+}
+
+// A reminder a previous run already queued for this stage, e.g. earlier the same day
+async function isAlreadyQueued(candidate: ReminderCandidate): Promise<boolean> {
+  return (await localDb.outbox.where('dedupeKey').startsWith(`${candidate.dedupeScope}:`).count()) > 0;
+}
+
+async function collectCandidates(schoolId: string, run: ReminderRun, today: Date): Promise<ReminderCandidate[]> {
+  const students = await localDb.students
+    .where('status').equals('active')
+    .filter(student => student.balance > 0)
+    .toArray();
+  run.studentsChecked = students.length;
+
+  const candidates = students.flatMap(student => findInstallmentReminders(student, today));
+
+  // Promises are kept in Firestore only
+  if (!isOnline()) {
+    run.warnings = [...(run.warnings || []), 'Promise reminders skipped while offline'];
+    return candidates;
+  }
+  try {
+    const promises = await getDueReminders(schoolId);
+    return [...candidates, ...promises.filter(p => p.remainingAmount > 0).map(p => toPromiseCandidate(p, today))];
+  } catch (error: any) {
+    run.warnings = [...(run.warnings || []), `Promise reminders skipped: ${error.message || error}`];
+    return candidates;
+  }
+}
+
+async function notePromiseReminder(run: ReminderRun, candidate: ReminderCandidate, now: Date) {
+  try {
+    await recordReminderSent(candidate.promiseId!, 'sms', `Scheduled reminder for ${candidate.studentName}`, 'scheduler', candidate.guardianPhone);
+    await scheduleNextReminder(candidate.promiseId!, getNextPromiseReminderDate(now));
+  } catch (error: any) {
+    run.warnings = [...(run.warnings || []), `Could not update promise for ${candidate.studentName}: ${error.message || error}`];
+  }
+}
+
+async function runReminders(
+  schoolId: string,
+  settings: Pick<ReminderSettings, 'quietHours' | 'frequencyCap'>,
+  trigger: ReminderRun['trigger']
+): Promise<ReminderRun> {
+  const now = new Date();
+  const run: ReminderRun = {
+    id: dbHelpers.generateId('RR'),
+    trigger,
+    status: 'running',
+    startedAt: now.toISOString(),
+    studentsChecked: 0,
+    queued: 0,
+    capped: 0,
+    failed: 0,
+    alreadySent: 0,
+    items: [],
+  };
+  await localDb.reminderRuns.add(run);
+
+  try {
+    const fresh: ReminderCandidate[] = [];
+    for (const candidate of await collectCandidates(schoolId, run, now)) {
+      if (!candidate.guardianPhone?.trim()) {
+        run.items.push(toRunItem(candidate, 'no_contact'));
+      } else if (await isAlreadyQueued(candidate)) {
+        run.alreadySent++;
+      } else {
+        fresh.push({ ...candidate, guardianPhone: formatUgandanPhone(candidate.guardianPhone) });
+      }
+    }
+
+    const since = getCapWindowStart(settings.frequencyCap, now);
+    const recentMessages = await localDb.outbox.where('createdAt').aboveOrEqual(since.toISOString()).toArray();
+    const recent = countRecentReminders(recentMessages, since);
+    const { allowed, capped } = applyFrequencyCap(fresh, recent, settings.frequencyCap);
+
+    for (const candidate of allowed) {
+      const queued = await sendReminder(candidate, {
+        studentId: candidate.studentId,
+        dedupeKey: candidate.dedupeScope,
+        quietHours: settings.quietHours,
+      });
+      if (!queued) {
+        run.failed++;
+        run.items.push(toRunItem(candidate, 'failed', 'The message could not be queued'));
+        continue;
+      }
+
+      run.queued++;
+      run.items.push(toRunItem(candidate, 'queued'));
+      if (candidate.promiseId) await notePromiseReminder(run, candidate, now);
+    }
+
+    run.capped = capped.length;
+    run.items.push(...capped.map(candidate => toRunItem(candidate, 'capped')));
+    run.status = 'completed';
+  } catch (error: any) {
+    console.error('Reminder run failed:', error);
+    run.status = 'failed';
+    run.error = error.message || 'Reminder run failed';
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await localDb.reminderRuns.put(run);
+  return run;
+}
+
+/**
+ * Sends the day's reminders and returns the logged run. Reminders already
+ * queued by an earlier run are not sent again, so running twice in a day is
+ * harmless.
+ */
+export async function sendScheduledReminders(
+  schoolId: string,
+  settings: Pick<ReminderSettings, 'quietHours' | 'frequencyCap'>,
+  trigger: ReminderRun['trigger'] = 'schedule'
+): Promise<ReminderRun> {
+  if (running) {
+    throw new Error('Reminders are already being sent');
+  }
+
+  running = runReminders(schoolId, settings, trigger);
+  try {
+    return await running;
+  } finally {
+    running = null;
+  }
+}
+
+/**
+ * The most recent reminder runs, newest first
+ */
+export async function getReminderRuns(limit = 30): Promise<ReminderRun[]> {
+  return localDb.reminderRuns.orderBy('startedAt').reverse().limit(limit).toArray();
+}
@@ -1,13 +1,13 @@
 /**
- * Scheduled Reminder Service
+ * Scheduled Deadline Service
  * 
- * This module handles automatic deadline reminders and overdue alerts.
- * In production, these would be Firebase Cloud Functions running on a schedule.
+ * This module keeps installment deadline status current and summarises
+ * upcoming deadlines. In production, the status update would be a Firebase
+ * Cloud Function running on a schedule. Reminders themselves are sent only
+ * by the daily run in reminder.service.ts.
  * 
  * Schedule:
- * - Daily at 8:00 AM: Check for upcoming deadlines (7 days, 3 days)
- * - Daily at 8:00 AM: Check for newly overdue installments
- * - Weekly: Send summary to school admins
+ * - Daily at 8:00 AM: Mark newly overdue installments
  */
 
 import { 
@@ -19,160 +19,39 @@ import {
 } from 'firebase/firestore';
 import { db, initializeFirebase, COLLECTIONS } from '@/lib/firebase';
 import { Student } from '@/types/student';
-import { 
-  sendDeadlineReminderSMS, 
-  sendOverdueAlertSMS 
-} from './notification.service';
 import { updateInstallmentDeadlineStatus } from './student.service';
-
-interface ReminderResult {
-  studentsProcessed: number;
-  remindersSent: number;
-  errors: number;
-}
+import { daysBetween } from '@/lib/reminders/schedule';
 
 /**
- * Gets the number of days between two dates
+ * Marks installments past their deadline as overdue for every active student
+ * with a balance. Should be called daily via Cloud Functions scheduler. It
+ * sends nothing: guardians are reminded only by sendScheduledReminders, which
+ * holds each guardian to the frequency cap and quiet hours.
  */
-function daysBetween(date1: Date, date2: Date): number {
-  const oneDay = 24 * 60 * 60 * 1000;
-  return Math.round((date2.getTime() - date1.getTime()) / oneDay);
-}
-
-/**
- * Processes deadline reminders for a school
- * Should be called daily via Cloud Functions scheduler
- */
-export async function processDeadlineReminders(schoolId: string): Promise<ReminderResult> {
+export async function updateOverdueInstallments(schoolId: string): Promise<{ studentsProcessed: number; errors: number }> {
   initializeFirebase();
-  
-  const result: ReminderResult = {
-    studentsProcessed: 0,
-    remindersSent: 0,
-    errors: 0,
-  };
-
-  try {
-    // Get all active students with outstanding balances
-    const studentsQuery = query(
-      collection(db, COLLECTIONS.STUDENTS),
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'active'),
-      where('balance', '>', 0)
-    );
 
-    const snapshot = await getDocs(studentsQuery);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  const result = { studentsProcessed: 0, errors: 0 };
 
-    for (const doc of snapshot.docs) {
-      const student = { id: doc.id, ...doc.data() } as Student;
-      result.studentsProcessed++;
-
-      // Check each incomplete installment
-      for (const installment of student.installmentProgress) {
-        if (installment.status === 'completed') continue;
-        
-        const deadline = installment.deadline.toDate();
-        const daysUntil = daysBetween(today, deadline);
-        const amountDue = installment.amountDue - installment.amountPaid;
-
-        // Only send reminders at specific intervals
-        const shouldRemind = daysUntil === 7 || daysUntil === 3 || daysUntil === 0;
+  const studentsQuery = query(
+    collection(db, COLLECTIONS.STUDENTS),
+    where('schoolId', '==', schoolId),
+    where('status', '==', 'active'),
+    where('balance', '>', 0)
+  );
 
-        if (shouldRemind && student.guardian?.phone) {
-          try {
-            await sendDeadlineReminderSMS({
-              phoneNumber: student.guardian.phone,
-              studentName: `${student.firstName} ${student.lastName}`,
-              installmentName: installment.installmentName,
-              amountDue,
-              deadline,
-              daysUntilDeadline: daysUntil,
-            });
-            result.remindersSent++;
-          } catch (error) {
-            console.error(`Failed to send reminder for student ${student.id}:`, error);
-            result.errors++;
-          }
-        }
-      }
+  const snapshot = await getDocs(studentsQuery);
+  for (const doc of snapshot.docs) {
+    result.studentsProcessed++;
+    try {
+      await updateInstallmentDeadlineStatus(doc.id);
+    } catch (error) {
+      console.error(`Failed to update installment status for student ${doc.id}:`, error);
+      result.errors++;
     }
-
-    return result;
-  } catch (error) {
-    console.error('Failed to process deadline reminders:', error);
-    throw error;
   }
-}
-
-/**
- * Processes overdue alerts and updates student status
- * Should be called daily via Cloud Functions scheduler
- */
-export async function processOverdueAlerts(schoolId: string): Promise<ReminderResult> {
-  initializeFirebase();
-  
-  const result: ReminderResult = {
-    studentsProcessed: 0,
-    remindersSent: 0,
-    errors: 0,
-  };
-
-  try {
-    // Get all active students
-    const studentsQuery = query(
-      collection(db, COLLECTIONS.STUDENTS),
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'active'),
-      where('balance', '>', 0)
-    );
 
-    const snapshot = await getDocs(studentsQuery);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    for (const doc of snapshot.docs) {
-      const student = { id: doc.id, ...doc.data() } as Student;
-      result.studentsProcessed++;
-
-      // Update installment status in database
-      await updateInstallmentDeadlineStatus(student.id);
-
-      // Check for newly overdue installments
-      for (const installment of student.installmentProgress) {
-        if (installment.status !== 'overdue') continue;
-        
-        const deadline = installment.deadline.toDate();
-        const daysOverdue = daysBetween(deadline, today);
-        const amountDue = installment.amountDue - installment.amountPaid;
-
-        // Send alerts at specific overdue intervals: 1, 7, 14, 30 days
-        const shouldAlert = [1, 7, 14, 30].includes(daysOverdue);
-
-        if (shouldAlert && student.guardian?.phone) {
-          try {
-            await sendOverdueAlertSMS({
-              phoneNumber: student.guardian.phone,
-              studentName: `${student.firstName} ${student.lastName}`,
-              installmentName: installment.installmentName,
-              amountOverdue: amountDue,
-              daysOverdue,
-            });
-            result.remindersSent++;
-          } catch (error) {
-            console.error(`Failed to send overdue alert for student ${student.id}:`, error);
-            result.errors++;
-          }
-        }
-      }
-    }
-
-    return result;
-  } catch (error) {
-    console.error('Failed to process overdue alerts:', error);
-    throw error;
-  }
+  return result;
 }
 
 /**
@@ -5,6 +5,10 @@
  * Optimized for Uganda (MTN, Airtel, Africell networks)
  */
 
+import { SMS_TEMPLATES } from "@/lib/templates/catalogue";
+import { fillPlaceholders, getLanguageChain, pickVariant } from "@/lib/templates/render";
+import type { MessageLanguage } from "@/types/message-template";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -161,40 +165,18 @@ export function detectNetwork(
 // Message Templates
 // ============================================================================
 
-const MESSAGE_TEMPLATES: Record<SMSMessageType, string> = {
-  payment_receipt: `Dear {guardianName}, payment of UGX {amount} received for {studentName} ({studentId}). Balance: UGX {balance}. Receipt: {receiptNumber}. Thank you! - {schoolName}`,
-
-  payment_reminder: `Dear {guardianName}, reminder: {studentName}'s school fees balance is UGX {balance}. Due date: {dueDate}. Pay via Mobile Money to avoid late fees. - {schoolName}`,
-
-  arrears_notice: `Dear {guardianName}, {studentName} has an outstanding balance of UGX {balance}, overdue by {daysOverdue} days. Please clear to avoid clearance issues. - {schoolName}`,
-
-  clearance_granted: `Dear {guardianName}, {studentName} has been granted exam clearance for {term}. All fees are up to date. Thank you for your prompt payment! - {schoolName}`,
-
-  fee_deadline: `Dear {guardianName}, reminder: School fees deadline for {term} is {deadline}. {studentName}'s balance: UGX {balance}. Pay now to avoid penalties. - {schoolName}`,
-
-  promise_reminder: `Dear {guardianName}, reminder: Your payment promise of UGX {promiseAmount} for {studentName} is due on {promiseDate}. Current balance: UGX {balance}. - {schoolName}`,
-
-  balance_inquiry: `Dear {guardianName}, {studentName}'s fee status: Total fees: UGX {totalFees}, Paid: UGX {amountPaid}, Balance: UGX {balance}. {paymentStatus}. - {schoolName}`,
-
-  welcome: `Welcome to {schoolName}! {studentName} ({studentId}) has been enrolled. Total fees: UGX {totalFees}. SMS notifications enabled. Reply STOP to opt out.`,
-
-  custom: `{message}`,
-};
-
 /**
- * Renders a message template with data
+ * Renders a message template with data. The wording is kept, with its
+ * translations, in the template catalogue; a language the template has not
+ * been translated into gets the English.
  */
 export function renderTemplate(
   type: SMSMessageType,
   data: Record<string, string | number>,
+  language: MessageLanguage = "en",
 ): string {
-  let message = MESSAGE_TEMPLATES[type];
-
-  Object.entries(data).forEach(([key, value]) => {
-    message = message.replace(new RegExp(`{${key}}`, "g"), String(value));
-  });
-
-  return message;
+  const { value } = pickVariant(SMS_TEMPLATES[type].variants, getLanguageChain(language))!;
+  return fillPlaceholders(value, data);
 }
 
 // ============================================================================
@@ -0,0 +1,259 @@
+/**
+ * Message Template Service
+ * The wording each SMS and email goes out with: the built-in catalogue in
+ * every language it has, the school's own edits kept in IndexedDB, and the
+ * language each guardian is written to in. A guardian's language comes
+ * first, then the school's default language, then English.
+ */
+
+import { db as localDb, dbHelpers } from '@/lib/db';
+import { EMAIL_TRANSLATIONS, SMS_TEMPLATES } from '@/lib/templates/catalogue';
+import {
+  checkPlaceholders,
+  fillPlaceholders,
+  getLanguageChain,
+  getPlaceholders,
+  pickVariant,
+  textToHtml,
+} from '@/lib/templates/render';
+import { EmailTemplateType, renderEmailTemplate } from '@/lib/services/email.service';
+import { MESSAGE_LANGUAGE_LABELS } from '@/types/message-template';
+import type {
+  MessageLanguage,
+  MessageTemplate,
+  MessageTemplateRow,
+  MessageTemplateType,
+  SmsTemplateType,
+  TemplateChannel,
+  TemplateOverride,
+} from '@/types/message-template';
+
+const SCHOOL_LANGUAGE_KEY = 'edupay_message_language';
+
+type TemplateData = Record<string, string | number | boolean | undefined>;
+
+export interface RenderedSms {
+  body: string;
+  language: MessageLanguage;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+  language: MessageLanguage;
+  customized: boolean; // Translated or edited, so not the English HTML email
+}
+
+function getOverrideId(channel: TemplateChannel, type: MessageTemplateType, language: MessageLanguage) {
+  return `${channel}:${type}:${language}`;
+}
+
+// The English email as written in email.service, placeholders and all
+function getEnglishEmail(type: EmailTemplateType): MessageTemplate {
+  const { subject, text } = renderEmailTemplate(type, {});
+  return { subject, body: text.trim() };
+}
+
+function getBuiltIn(channel: TemplateChannel, type: MessageTemplateType, language: MessageLanguage): MessageTemplate | undefined {
+  if (channel === 'sms') {
+    const body = SMS_TEMPLATES[type as SmsTemplateType]?.variants[language];
+    return body === undefined ? undefined : { body };
+  }
+  if (language === 'en') return getEnglishEmail(type as EmailTemplateType);
+  return EMAIL_TRANSLATIONS[type as EmailTemplateType]?.variants[language];
+}
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+/**
+ * The language the school writes to guardians in when a guardian has none
+ * set. Kept on this device.
+ */
+export function getSchoolMessageLanguage(): MessageLanguage {
+  if (typeof window === 'undefined') return 'en';
+  return (localStorage.getItem(SCHOOL_LANGUAGE_KEY) as MessageLanguage | null) || 'en';
+}
+
+export function setSchoolMessageLanguage(language: MessageLanguage): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SCHOOL_LANGUAGE_KEY, language);
+}
+
+// The language set for a student's guardian
+export async function getGuardianLanguage(studentId: string): Promise<MessageLanguage | undefined> {
+  return (await dbHelpers.getGuardianPreferences(studentId)).guardianLanguage;
+}
+
+/**
+ * Languages to write a message in, most preferred first: the one asked
+ * for, the guardian's, the school's, then English
+ */
+export async function resolveLanguageChain(options: { language?: MessageLanguage; studentId?: string } = {}): Promise<MessageLanguage[]> {
+  const guardianLanguage = options.studentId ? await getGuardianLanguage(options.studentId) : undefined;
+  return getLanguageChain(options.language, guardianLanguage, getSchoolMessageLanguage());
+}
+
+// ============================================================================
+// OVERRIDES
+// ============================================================================
+
+export async function getTemplateOverrides(channel?: TemplateChannel): Promise<TemplateOverride[]> {
+  return channel
+    ? localDb.messageTemplates.where('channel').equals(channel).toArray()
+    : localDb.messageTemplates.toArray();
+}
+
+/**
+ * Saves the school's wording for one template in one language. Placeholders
+ * the built-in wording does not use are refused, as they would reach the
+ * guardian as typed.
+ */
+export async function saveTemplateOverride(
+  channel: TemplateChannel,
+  type: MessageTemplateType,
+  language: MessageLanguage,
+  template: MessageTemplate,
+  user?: { id: string; name: string }
+): Promise<TemplateOverride> {
+  const body = template.body.trim();
+  const subject = template.subject?.trim();
+  if (!body) {
+    throw new Error('The message cannot be empty');
+  }
+  if (channel === 'email' && !subject) {
+    throw new Error('The email needs a subject');
+  }
+
+  const english = getBuiltIn(channel, type, 'en')!;
+  const expected = getPlaceholders(`${english.subject || ''} ${english.body}`);
+  const { unknown } = checkPlaceholders(`${subject || ''} ${body}`, expected);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map(name => `{${name}}`).join(', ')}`);
+  }
+
+  const override: TemplateOverride = {
+    id: getOverrideId(channel, type, language),
+    channel,
+    type,
+    language,
+    ...(subject && { subject }),
+    body,
+    updatedAt: new Date().toISOString(),
+    ...(user && { updatedBy: user.id }),
+  };
+  await localDb.messageTemplates.put(override);
+
+  if (user) {
+    await dbHelpers.logAudit('update', 'school', override.id, user.id, user.name,
+      `Changed the ${MESSAGE_LANGUAGE_LABELS[language]} wording of the ${type} ${channel === 'sms' ? 'SMS' : 'email'}`);
+  }
+  return override;
+}
+
+/**
+ * Goes back to the built-in wording
+ */
+export async function resetTemplateOverride(
+  channel: TemplateChannel,
+  type: MessageTemplateType,
+  language: MessageLanguage
+): Promise<void> {
+  await localDb.messageTemplates.delete(getOverrideId(channel, type, language));
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+// The school's wording or the built-in one, whichever the chain reaches first
+async function pickTemplate(
+  channel: TemplateChannel,
+  type: MessageTemplateType,
+  chain: MessageLanguage[]
+): Promise<{ template: MessageTemplate; language: MessageLanguage; custom: boolean } | null> {
+  const overrides = await localDb.messageTemplates.bulkGet(chain.map(language => getOverrideId(channel, type, language)));
+  for (let i = 0; i < chain.length; i++) {
+    const override = overrides[i];
+    if (override) return { template: override, language: chain[i], custom: true };
+    const builtIn = getBuiltIn(channel, type, chain[i]);
+    if (builtIn) return { template: builtIn, language: chain[i], custom: false };
+  }
+  return null;
+}
+
+/**
+ * Data every message can use without the caller passing it
+ */
+export async function getDefaultTemplateData(): Promise<TemplateData> {
+  const school = await localDb.schools.toCollection().first();
+  if (!school) return {};
+  return {
+    schoolName: school.name,
+    schoolPhone: school.phone,
+    term: `${school.currentTerm} ${school.currentYear}`,
+  };
+}
+
+export async function renderSmsMessage(type: SmsTemplateType, data: TemplateData, chain: MessageLanguage[]): Promise<RenderedSms> {
+  const picked = await pickTemplate('sms', type, chain);
+  const variant = picked
+    ? { value: picked.template.body, language: picked.language }
+    : pickVariant(SMS_TEMPLATES[type].variants, ['en'])!;
+  return { body: fillPlaceholders(variant.value, data), language: variant.language };
+}
+
+export async function renderEmailMessage(type: EmailTemplateType, data: TemplateData, chain: MessageLanguage[]): Promise<RenderedEmail> {
+  const picked = await pickTemplate('email', type, chain);
+  if (!picked || (!picked.custom && picked.language === 'en')) {
+    return { ...renderEmailTemplate(type, data), language: 'en', customized: false };
+  }
+
+  const text = fillPlaceholders(picked.template.body, data);
+  return {
+    subject: fillPlaceholders(picked.template.subject || '', data),
+    text,
+    html: textToHtml(text),
+    language: picked.language,
+    customized: true,
+  };
+}
+
+// ============================================================================
+// EDITOR
+// ============================================================================
+
+/**
+ * Every template on a channel as it reads in one language, for the editor
+ */
+export async function listMessageTemplates(channel: TemplateChannel, language: MessageLanguage): Promise<MessageTemplateRow[]> {
+  const catalogue = channel === 'sms' ? SMS_TEMPLATES : EMAIL_TRANSLATIONS;
+  const overrides = new Map((await getTemplateOverrides(channel)).map(override => [override.id, override]));
+  const chain = getLanguageChain(language);
+
+  return (Object.keys(catalogue) as MessageTemplateType[])
+    .filter(type => type !== 'custom')
+    .map(type => {
+      const { label, description } = catalogue[type as keyof typeof catalogue];
+      const english = getBuiltIn(channel, type, 'en')!;
+      const custom = overrides.get(getOverrideId(channel, type, language));
+      const fallback = chain
+        .map(lang => ({ lang, template: overrides.get(getOverrideId(channel, type, lang)) || getBuiltIn(channel, type, lang) }))
+        .find(entry => entry.template)!;
+
+      return {
+        channel,
+        type,
+        label,
+        description,
+        language,
+        placeholders: getPlaceholders(`${english.subject || ''} ${english.body}`),
+        builtIn: getBuiltIn(channel, type, language),
+        custom,
+        current: fallback.template!,
+        currentLanguage: fallback.lang,
+      };
+    });
+}
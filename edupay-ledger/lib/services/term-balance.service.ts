@@ -16,6 +16,7 @@ import {
   orderBy,
   Timestamp,
   writeBatch,
+  WriteBatch,
 } from 'firebase/firestore';
 import { db } from '../firebase';
 import {
@@ -32,10 +33,12 @@ import {
   StudentArrearsDetail,
   PreviousTermArrears,
   formatAcademicPeriod,
+  academicPeriodKey,
   compareAcademicPeriods,
   getPreviousTerm,
   calculateTermsInArrears,
 } from '../../types/term-balance';
+import { allocateCarryoverCredit } from '../balances/credit';
 
 const CARRYOVERS_COLLECTION = 'term_carryovers';
 const STUDENTS_COLLECTION = 'students';
@@ -148,7 +151,8 @@ export async function getStudentCumulativeBalance(
             oldestArrears = carryover.fromPeriod;
           }
         } else {
-          carryoverCredits += carryover.adjustedAmount;
+          // Credit already set against a term's fees is no longer available
+          carryoverCredits += carryover.adjustedAmount - (carryover.creditApplied || 0);
         }
       }
     });
@@ -353,6 +357,47 @@ export async function processTermCarryovers(
   }
 }
 
+/**
+ * Apply a student's unused credit carryovers to a term's fees
+ * Called when the term's fees are assigned; the carryover updates are added
+ * to batch for the caller to commit with the fees. Returns the amount applied.
+ */
+export async function applyCreditCarryovers(
+  studentId: string,
+  toPeriod: AcademicPeriod,
+  termFees: number,
+  appliedBy: string,
+  batch: WriteBatch
+): Promise<number> {
+  try {
+    const q = query(
+      collection(db, CARRYOVERS_COLLECTION),
+      where('studentId', '==', studentId),
+      where('carryoverType', '==', 'credit')
+    );
+    const snapshot = await getDocs(q);
+
+    const carryovers = snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as TermBalanceCarryover);
+    const { applied, uses } = allocateCarryoverCredit(carryovers, toPeriod, termFees);
+
+    for (const use of uses) {
+      batch.update(doc(db, CARRYOVERS_COLLECTION, use.carryoverId), {
+        creditApplied: use.creditApplied,
+        [`creditAppliedByPeriod.${academicPeriodKey(toPeriod)}`]: use.amount,
+        status: use.creditApplied > 0 ? 'applied' : 'pending',
+        appliedAt: Timestamp.now(),
+        appliedBy,
+        updatedAt: Timestamp.now(),
+      });
+    }
+
+    return applied;
+  } catch (error) {
+    console.error('Error applying credit carryovers:', error);
+    throw error;
+  }
+}
+
 /**
  * Apply a balance adjustment to a carryover
  */
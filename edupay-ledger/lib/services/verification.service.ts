@@ -0,0 +1,59 @@
+/**
+ * Receipt Verification Service
+ * Looks up the payment behind a receipt's verification code and checks it
+ * against the hash anchored on Stellar, or the local record when offline
+ */
+
+import { collection, getDocs, limit, query, where } from 'firebase/firestore';
+import { db, initializeFirebase, COLLECTIONS } from '@/lib/firebase';
+import { db as localDb } from '@/lib/db';
+import { getAnchoredRoot } from '@/lib/stellar';
+import { isOnline } from '@/lib/utils';
+import {
+  assessReceipt,
+  ReceiptVerificationCode,
+  ReceiptVerificationResult,
+  VerifiablePayment,
+} from '@/lib/receipt-verification';
+
+/**
+ * Finds the payment in the school's shared records when online. Verifiers
+ * are usually parents or banks whose devices hold no payments, so this
+ * device's database is only a fallback, for the school's own machines.
+ * Unauthenticated reads of the shared payments need the Firestore rule in
+ * the README.
+ */
+async function findPayment(code: ReceiptVerificationCode): Promise<{ payment: VerifiablePayment | null; sharedRecordsChecked: boolean }> {
+  let sharedRecordsChecked = false;
+  if (isOnline()) {
+    try {
+      initializeFirebase();
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.SCHOOLS, code.schoolId, COLLECTIONS.PAYMENTS),
+        where('receiptNumber', '==', code.receiptNumber),
+        limit(1)
+      ));
+      sharedRecordsChecked = true;
+      if (!snapshot.empty) {
+        const docSnap = snapshot.docs[0];
+        return { payment: { ...docSnap.data(), id: docSnap.id } as VerifiablePayment, sharedRecordsChecked };
+      }
+    } catch (error) {
+      console.error('Failed to look up receipt online:', error);
+    }
+  }
+
+  const local = await localDb.payments.where('receiptNumber').equals(code.receiptNumber).first();
+  return { payment: local ?? null, sharedRecordsChecked };
+}
+
+export async function verifyReceipt(code: ReceiptVerificationCode): Promise<ReceiptVerificationResult> {
+  const { payment, sharedRecordsChecked } = await findPayment(code);
+
+  let anchoredRoot: string | null = null;
+  if (payment?.stellarTxHash && isOnline()) {
+    anchoredRoot = await getAnchoredRoot(payment.stellarTxHash).catch(() => null);
+  }
+
+  return assessReceipt(code, payment, anchoredRoot, sharedRecordsChecked);
+}
@@ -0,0 +1,302 @@
+/**
+ * WhatsApp Notification Service
+ *
+ * Sends guardian notices through the WhatsApp Business Cloud API. Messages
+ * to guardians who have not written to the school recently must use a
+ * template approved in WhatsApp Manager, so every notice goes out in one of
+ * two templates with the text as a parameter; a receipt carries its PDF as
+ * the template's document header. Delivery and read receipts reach the
+ * school as webhook posts. The mock provider stands in for the API when
+ * testing and simulates those receipts.
+ */
+
+import { formatWhatsAppError } from "@/lib/db/delivery-reports";
+import { formatUgandanPhone, isValidUgandanPhone } from "@/lib/services/sms.service";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WhatsAppProvider = "cloud" | "mock";
+
+export type WhatsAppTemplateName = "notice" | "receipt";
+
+export interface WhatsAppDocument {
+  url: string; // Public link the API downloads the file from
+  filename: string;
+}
+
+export interface WhatsAppMessage {
+  to: string;
+  template: WhatsAppTemplateName;
+  parameters: string[]; // Fill the template's {{1}}, {{2}}... in order
+  document?: WhatsAppDocument; // Only for templates with a document header
+}
+
+export interface WhatsAppSendResult {
+  success: boolean;
+  messageId?: string;
+  recipient: string;
+  status: "sent" | "failed" | "rejected";
+  errorMessage?: string;
+  rateLimited?: boolean;
+  timestamp: Date;
+}
+
+export type WhatsAppStatus = "sent" | "delivered" | "read" | "failed";
+
+export interface WhatsAppStatusUpdate {
+  messageId: string;
+  status: WhatsAppStatus;
+  recipient: string;
+  errorCode?: number;
+  errorTitle?: string;
+  timestamp: Date;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+/**
+ * The templates as approved in WhatsApp Manager. They are approved in
+ * English only; the guardian's translation travels in the text parameter,
+ * so a Luganda notice arrives in Luganda inside the English frame.
+ */
+export const WHATSAPP_TEMPLATES: Record<WhatsAppTemplateName, { name: string; body: string; document: boolean }> = {
+  notice: {
+    name: "edupay_notice",
+    body: "Message from {{1}}:\n\n{{2}}",
+    document: false,
+  },
+  receipt: {
+    name: "edupay_receipt",
+    body: "Payment receipt from {{1}}:\n\n{{2}}\n\nYour receipt is attached.",
+    document: true,
+  },
+};
+
+/**
+ * The text the guardian sees, for the message history and the mock
+ */
+export function renderWhatsAppMessage(message: Pick<WhatsAppMessage, "template" | "parameters">): string {
+  return WHATSAPP_TEMPLATES[message.template].body.replace(
+    /\{\{(\d+)\}\}/g,
+    (match, index: string) => message.parameters[Number(index) - 1] ?? match,
+  );
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+interface WhatsAppConfig {
+  provider: WhatsAppProvider;
+  accessToken: string;
+  phoneNumberId: string; // The school's WhatsApp Business number
+  apiVersion: string;
+  templateLanguage: string;
+}
+
+const getConfig = (): WhatsAppConfig => ({
+  provider: (process.env.NEXT_PUBLIC_WHATSAPP_PROVIDER as WhatsAppProvider) || "cloud",
+  accessToken: process.env.WHATSAPP_ACCESS_TOKEN || "",
+  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || "",
+  apiVersion: process.env.WHATSAPP_API_VERSION || "v19.0",
+  templateLanguage: process.env.WHATSAPP_TEMPLATE_LANGUAGE || "en",
+});
+
+// The mock reports messages to numbers ending in these digits as not on WhatsApp
+const MOCK_UNDELIVERABLE_DIGITS = ["9"];
+
+// How long the mock takes to report each receipt
+const MOCK_DELIVERED_AFTER_MS = 2 * 1000;
+const MOCK_READ_AFTER_MS = 10 * 1000;
+
+// ============================================================================
+// WhatsApp Service Class
+// ============================================================================
+
+class WhatsAppService {
+  private config: WhatsAppConfig;
+  private mockSent = new Map<string, { recipient: string; sentAt: Date }>();
+
+  constructor() {
+    this.config = getConfig();
+  }
+
+  /**
+   * Check if the Cloud API is configured
+   */
+  isConfigured(): boolean {
+    return !!(this.config.accessToken && this.config.phoneNumberId);
+  }
+
+  private usesMock(): boolean {
+    return this.config.provider === "mock" || (!this.isConfigured() && process.env.NODE_ENV === "development");
+  }
+
+  /**
+   * Whether messages can go out at all; guardians are sent SMS instead
+   * when they cannot
+   */
+  isAvailable(): boolean {
+    return this.usesMock() || this.isConfigured();
+  }
+
+  /**
+   * Send a template message to one guardian
+   */
+  async send(message: WhatsAppMessage): Promise<WhatsAppSendResult> {
+    const recipient = formatUgandanPhone(message.to);
+    if (!isValidUgandanPhone(recipient)) {
+      return {
+        success: false,
+        recipient,
+        status: "rejected",
+        errorMessage: "Invalid phone number",
+        timestamp: new Date(),
+      };
+    }
+
+    if (this.usesMock()) {
+      return this.mockSend(message, recipient);
+    }
+
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        recipient,
+        status: "failed",
+        errorMessage: "WhatsApp not configured. Set WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID.",
+        timestamp: new Date(),
+      };
+    }
+
+    const template = WHATSAPP_TEMPLATES[message.template];
+    const components: unknown[] = [];
+    if (template.document && message.document) {
+      components.push({
+        type: "header",
+        parameters: [{ type: "document", document: { link: message.document.url, filename: message.document.filename } }],
+      });
+    }
+    components.push({
+      type: "body",
+      // The API refuses parameters with line breaks, tabs or long runs of spaces
+      parameters: message.parameters.map((text) => ({
+        type: "text",
+        text: text.replace(/\s*[\n\t]\s*/g, " ").replace(/ {4,}/g, "   "),
+      })),
+    });
+
+    try {
+      const response = await fetch(
+        `https://graph.facebook.com/${this.config.apiVersion}/${this.config.phoneNumberId}/messages`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.config.accessToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            messaging_product: "whatsapp",
+            to: recipient.replace("+", ""),
+            type: "template",
+            template: {
+              name: template.name,
+              language: { code: this.config.templateLanguage },
+              components,
+            },
+          }),
+        },
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const error = data.error || {};
+        return {
+          success: false,
+          recipient,
+          // A malformed request fails the same way every time
+          status: response.status >= 400 && response.status < 500 && response.status !== 429 ? "rejected" : "failed",
+          errorMessage: formatWhatsAppError(error.code, error.message || `HTTP ${response.status}: ${response.statusText}`),
+          rateLimited: response.status === 429 || error.code === 130429,
+          timestamp: new Date(),
+        };
+      }
+
+      return {
+        success: true,
+        messageId: data.messages?.[0]?.id,
+        recipient,
+        status: "sent",
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        recipient,
+        status: "failed",
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Mock send for development/testing
+   */
+  private mockSend(message: WhatsAppMessage, recipient: string): WhatsAppSendResult {
+    const messageId = `wamid.mock_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    this.mockSent.set(messageId, { recipient, sentAt: new Date() });
+
+    console.log(`[WhatsApp Mock] → ${recipient} (${WHATSAPP_TEMPLATES[message.template].name})`);
+    console.log(`[WhatsApp Mock] Message: ${renderWhatsAppMessage(message)}`);
+    if (message.document) {
+      console.log(`[WhatsApp Mock] Document: ${message.document.filename} (${message.document.url})`);
+    }
+
+    return { success: true, messageId, recipient, status: "sent", timestamp: new Date() };
+  }
+
+  /**
+   * Receipts reported so far for a message, oldest first. The Cloud API
+   * only reports through the webhook, so this answers for the mock alone.
+   */
+  async getStatuses(messageId: string, now: Date = new Date()): Promise<WhatsAppStatusUpdate[]> {
+    const sent = this.mockSent.get(messageId);
+    if (!sent) return [];
+
+    const elapsed = now.getTime() - sent.sentAt.getTime();
+    if (elapsed < MOCK_DELIVERED_AFTER_MS) return [];
+
+    const at = (ms: number) => new Date(sent.sentAt.getTime() + ms);
+    if (MOCK_UNDELIVERABLE_DIGITS.includes(sent.recipient.slice(-1))) {
+      return [{
+        messageId,
+        status: "failed",
+        recipient: sent.recipient,
+        errorCode: 131026,
+        errorTitle: "Message undeliverable",
+        timestamp: at(MOCK_DELIVERED_AFTER_MS),
+      }];
+    }
+
+    const updates: WhatsAppStatusUpdate[] = [
+      { messageId, status: "delivered", recipient: sent.recipient, timestamp: at(MOCK_DELIVERED_AFTER_MS) },
+    ];
+    if (elapsed >= MOCK_READ_AFTER_MS) {
+      updates.push({ messageId, status: "read", recipient: sent.recipient, timestamp: at(MOCK_READ_AFTER_MS) });
+    }
+    return updates;
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const whatsappService = new WhatsAppService();
+
+export default whatsappService;
@@ -10,11 +10,8 @@
  * - Require wallets from users
  * 
  * We ONLY write:
- * - Payment hashes
- * - Student ID
- * - School ID  
- * - Timestamp
- * - Metadata
+ * - Merkle roots of batches of payment hashes
+ *   (each hash covers payment, student and school IDs, amount and timestamp)
  */
 
 import * as StellarSdk from '@stellar/stellar-sdk';
@@ -80,14 +77,16 @@ export function verifyPaymentHash(originalProof: PaymentProof, storedHash: strin
 }
 
 /**
- * Anchors a payment proof to Stellar as a memo in a transaction
+ * Anchors the Merkle root of a batch of payment proofs to Stellar as a memo
+ * in a transaction. One transaction covers every payment in the batch; each
+ * payment keeps the inclusion proof that links its own hash to this root.
  * 
  * This is an async operation that should be:
- * - Queued for retry if it fails
+ * - Queued for retry if it fails (see lib/db/anchor-batches)
  * - Logged regardless of outcome
  * - Non-blocking to the main payment flow
  */
-export async function anchorPaymentToStellar(proof: PaymentProof): Promise<StellarAnchorResult> {
+export async function anchorMerkleRoot(merkleRoot: string): Promise<StellarAnchorResult> {
   // Skip if no anchor key configured (development mode)
   if (!ANCHOR_SECRET_KEY || !ANCHOR_PUBLIC_KEY) {
     console.warn('Stellar anchor keys not configured - skipping blockchain write');
@@ -98,14 +97,11 @@ export async function anchorPaymentToStellar(proof: PaymentProof): Promise<Stell
   }
 
   try {
-    // Create the payment hash
-    const paymentHash = createPaymentHash(proof);
-    
     // Load the anchor account
     const sourceKeypair = StellarSdk.Keypair.fromSecret(ANCHOR_SECRET_KEY);
     const sourceAccount = await server.loadAccount(ANCHOR_PUBLIC_KEY);
     
-    // Build the transaction with the hash as memo
+    // Build the transaction with the root as memo
     // We're doing a 0 XLM payment to self just to record the memo
     const transaction = new StellarSdk.TransactionBuilder(sourceAccount, {
       fee: StellarSdk.BASE_FEE,
@@ -120,7 +116,7 @@ export async function anchorPaymentToStellar(proof: PaymentProof): Promise<Stell
           amount: '0.0000001', // Minimum amount
         })
       )
-      .addMemo(StellarSdk.Memo.hash(paymentHash))
+      .addMemo(StellarSdk.Memo.hash(merkleRoot))
       .setTimeout(30)
       .build();
     
@@ -136,7 +132,7 @@ export async function anchorPaymentToStellar(proof: PaymentProof): Promise<Stell
       timestamp: new Date().toISOString(),
     };
   } catch (error: any) {
-    console.error('Failed to anchor payment to Stellar:', error);
+    console.error('Failed to anchor batch to Stellar:', error);
     
     return {
       success: false,
@@ -160,65 +156,14 @@ export async function getTransactionByHash(txHash: string) {
 }
 
 /**
- * Queue structure for retry logic
- */
-interface QueuedAnchor {
-  proof: PaymentProof;
-  attempts: number;
-  lastAttempt?: Date;
-}
-
-// In-memory queue for failed anchors (in production, use persistent storage)
-const anchorQueue: QueuedAnchor[] = [];
-const MAX_RETRY_ATTEMPTS = 5;
-const RETRY_DELAY_MS = 60000; // 1 minute
-
-/**
- * Adds a payment to the anchor queue for retry
+ * Reads the hash memo of an anchoring transaction as hex, the Merkle root it anchored
  */
-export function queueForRetry(proof: PaymentProof) {
-  anchorQueue.push({
-    proof,
-    attempts: 0,
-  });
-}
+export async function getAnchoredRoot(txHash: string): Promise<string | null> {
+  const transaction = await getTransactionByHash(txHash);
+  if (!transaction || transaction.memo_type !== 'hash' || !transaction.memo) return null;
 
-/**
- * Processes the anchor queue
- * Should be called periodically (e.g., by a cron job or background worker)
- */
-export async function processAnchorQueue(): Promise<void> {
-  const now = new Date();
-  
-  for (let i = anchorQueue.length - 1; i >= 0; i--) {
-    const item = anchorQueue[i];
-    
-    // Skip if not enough time has passed since last attempt
-    if (item.lastAttempt) {
-      const timeSinceLastAttempt = now.getTime() - item.lastAttempt.getTime();
-      if (timeSinceLastAttempt < RETRY_DELAY_MS * (item.attempts + 1)) {
-        continue;
-      }
-    }
-    
-    // Try to anchor
-    const result = await anchorPaymentToStellar(item.proof);
-    
-    if (result.success) {
-      // Remove from queue on success
-      anchorQueue.splice(i, 1);
-      console.log(`Successfully anchored queued payment ${item.proof.paymentId}`);
-    } else {
-      item.attempts++;
-      item.lastAttempt = now;
-      
-      if (item.attempts >= MAX_RETRY_ATTEMPTS) {
-        // Max retries reached - log and remove
-        console.error(`Max retries reached for payment ${item.proof.paymentId}`);
-        anchorQueue.splice(i, 1);
-      }
-    }
-  }
+  // Horizon returns hash memos base64 encoded
+  return Array.from(atob(transaction.memo), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
 }
 
 /**
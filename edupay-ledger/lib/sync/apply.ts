@@ -0,0 +1,78 @@
+/**
+ * Applying Downloaded Records
+ * Decides what a downloaded version does to this device's copy of a record:
+ * replace it, leave it, merge the two field by field, or send this device's
+ * delete again over it
+ */
+
+import { FieldConflict, threeWayMerge } from './merge';
+import { isTombstone, resolveAgainstTombstone, Tombstone } from './tombstones';
+import { compareVectors, incrementVector, mergeVectors, VersionVector } from './version-vector';
+
+export interface SyncedRecord {
+  id: string;
+  syncStatus?: string;
+  versionVector?: VersionVector;
+}
+
+export type RemoteApplyPlan<T> =
+  | { action: 'skip' }
+  | { action: 'overwrite' }
+  | { action: 'merge'; merged: T; conflicts: FieldConflict[] }
+  | { action: 'redelete'; tombstone: Tombstone };
+
+/**
+ * Plans how to apply a downloaded record. base is the last version both
+ * sides agreed on (a tombstone once this device deleted the record). Merges
+ * and repeated deletes are new edits on this device, so their version
+ * vectors are advanced for deviceId.
+ */
+export function planRemoteApply<T extends SyncedRecord>(
+  local: T | undefined,
+  remote: T,
+  base: Partial<T> | Tombstone | undefined,
+  deviceId: string
+): RemoteApplyPlan<T> {
+  // A record this device deleted comes back only in a version that saw the delete
+  if (!local && isTombstone(base)) {
+    const resolution = resolveAgainstTombstone(base, remote);
+    if (resolution.action === 'skip') return resolution;
+    if (resolution.action === 'redelete') {
+      return {
+        action: 'redelete',
+        tombstone: {
+          ...resolution.tombstone,
+          versionVector: incrementVector(resolution.tombstone.versionVector, deviceId),
+        },
+      };
+    }
+  }
+
+  if (!local) return { action: 'overwrite' };
+
+  // Version vectors decide which side is newer; records from before vectors
+  // existed carry none and always go through the field merge
+  const order = local.versionVector || remote.versionVector
+    ? compareVectors(local.versionVector, remote.versionVector)
+    : 'concurrent';
+
+  if (order === 'after' || (order === 'equal' && local.syncStatus !== 'synced')) {
+    // Local version already contains everything in the remote one
+    return { action: 'skip' };
+  }
+
+  if (local.syncStatus === 'synced' || order === 'before') {
+    // No unseen local changes, safe to overwrite
+    return { action: 'overwrite' };
+  }
+
+  const result = threeWayMerge<T>(isTombstone(base) ? undefined : base, local, remote);
+  return {
+    action: 'merge',
+    merged: {
+      ...result.merged,
+      versionVector: incrementVector(mergeVectors(local.versionVector, remote.versionVector), deviceId),
+    },
+    conflicts: result.conflicts,
+  };
+}
@@ -3,10 +3,33 @@
  * Handles bidirectional sync between local IndexedDB and Firebase
  */
 
-import { db, dbHelpers, DBStudent, DBPayment, DBFeeStructure, DBAuditLog } from '../db';
+import type { Table } from 'dexie';
+import {
+  db,
+  dbHelpers,
+  DBStudent,
+  DBPayment,
+  DBFeeStructure,
+  DBInstallmentRule,
+  DBUser,
+  DBAuditLog,
+  DBSyncConflict,
+  DBSyncQueue,
+  DBDevice,
+  DBJournalEntry,
+  DBReceiptBlock,
+} from '../db';
+import { computeJournalEntryHash } from '../db/journal-hash';
+import { receiptSeries } from '../db/receipt-series';
+import { anchorBatches } from '../db/anchor-batches';
+import { drainOutbox, syncDeliveryReports } from '../services/outbox.service';
+import { pollPendingCollections } from '../services/collection.service';
+import { RECEIPT_BLOCK_SIZE } from '../db/receipt-numbers';
+import { alignRecord } from '../db/migrations';
 import { 
   collection, 
   doc, 
+  getDoc,
   getDocs, 
   setDoc, 
   updateDoc, 
@@ -15,13 +38,21 @@ import {
   where, 
   orderBy, 
   limit,
+  startAfter,
+  runTransaction,
   writeBatch,
   serverTimestamp,
-  Timestamp 
+  Timestamp,
 } from 'firebase/firestore';
 import { db as firebaseDb } from '../firebase';
+import { planRemoteApply } from './apply';
+import { DownloadCursor, PagedDocument, pageThrough } from './paging';
+import { isTombstone, shouldApplyRemoteDelete, Tombstone } from './tombstones';
+import { replayInOrder, shouldDeadLetter } from './queue';
+import { incrementVector } from './version-vector';
+import { deriveSyncStatus, finishedSyncStatus, SyncStatus } from './status';
 
-export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error' | 'offline';
+export type { SyncStatus } from './status';
 
 export interface SyncResult {
   status: SyncStatus;
@@ -36,14 +67,30 @@ export interface SyncState {
   status: SyncStatus;
   lastSyncAt: string | null;
   pendingChanges: number;
+  conflicts: number;
+  deadLetters: number;
   isOnline: boolean;
 }
 
+type MergeableTable = 'students' | 'payments' | 'feeStructures' | 'installmentRules' | 'users';
+type MergeableRecord = DBStudent | DBPayment | DBFeeStructure | DBInstallmentRule | DBUser;
+type DownloadedCollection = MergeableTable | 'paymentJournal';
+
+// Collections downloaded from the school's Firestore tree, in dependency order
+const DOWNLOADED_COLLECTIONS: DownloadedCollection[] = ['users', 'feeStructures', 'installmentRules', 'students', 'paymentJournal', 'payments'];
+const DOWNLOAD_PAGE_SIZE = 200;
+
+// Local tables whose changes are replayed from the operation log
+const REPLAYED_TABLES = ['students', 'payments', 'paymentJournal', 'feeStructures', 'installmentRules', 'schools', 'users'];
+
 class SyncService {
   private isOnline: boolean = typeof navigator !== 'undefined' ? navigator.onLine : true;
   private syncInterval: NodeJS.Timeout | null = null;
   private listeners: ((state: SyncState) => void)[] = [];
   private schoolId: string | null = null;
+  private receiptBlockReservation: Promise<DBReceiptBlock | null> | null = null;
+  private syncRun: Promise<SyncResult> | null = null;
+  private lastResult: SyncResult | null = null;
 
   constructor() {
     if (typeof window !== 'undefined') {
@@ -58,6 +105,128 @@ class SyncService {
     this.startAutoSync();
   }
 
+  // Publish this install in the school's device registry
+  private async registerDevice(lastSyncAt?: string): Promise<DBDevice> {
+    const device = await dbHelpers.getLocalDevice();
+    const docRef = doc(firebaseDb, `schools/${this.schoolId}/devices`, device.id);
+    await setDoc(docRef, {
+      id: device.id,
+      name: device.name,
+      platform: device.platform,
+      registeredAt: device.registeredAt,
+      ...(device.receiptCode ? { receiptCode: device.receiptCode } : {}),
+      ...(lastSyncAt ? { lastSyncAt } : {}),
+    }, { merge: true });
+
+    if (lastSyncAt) {
+      await db.devices.update(device.id, { lastSyncAt });
+    }
+    return device;
+  }
+
+  // List every device registered for the school, falling back to the local cache offline
+  async getDevices(): Promise<DBDevice[]> {
+    const localDevice = await dbHelpers.getLocalDevice();
+
+    if (this.isOnline && this.schoolId) {
+      try {
+        const snapshot = await getDocs(collection(firebaseDb, `schools/${this.schoolId}/devices`));
+        const remoteDevices = snapshot.docs.map(docSnapshot => ({
+          ...(docSnapshot.data() as DBDevice),
+          isLocal: docSnapshot.id === localDevice.id,
+        }));
+        await db.devices.bulkPut(remoteDevices);
+      } catch (error) {
+        console.error('Failed to load device registry:', error);
+      }
+    }
+
+    const devices = await db.devices.toArray();
+    return devices.sort((a, b) => (b.lastSyncAt || '').localeCompare(a.lastSyncAt || ''));
+  }
+
+  // Reserve the next block of receipt numbers when this device is running low.
+  // Calls made while a reservation is in flight share it rather than reserving twice.
+  async reserveReceiptBlock(force = false): Promise<DBReceiptBlock | null> {
+    if (!this.receiptBlockReservation) {
+      this.receiptBlockReservation = this.reserveNextReceiptBlock(force)
+        .finally(() => { this.receiptBlockReservation = null; });
+    }
+    return this.receiptBlockReservation;
+  }
+
+  private async reserveNextReceiptBlock(force: boolean): Promise<DBReceiptBlock | null> {
+    if (!this.isOnline || !this.schoolId) return null;
+
+    const academicYear = await this.getAcademicYear();
+    if (!force && !(await receiptSeries.needsBlock(academicYear))) return null;
+
+    const device = await dbHelpers.getLocalDevice();
+    const localNext = await receiptSeries.getNextUnreserved(academicYear);
+    const deviceCounterRef = doc(firebaseDb, `schools/${this.schoolId}/counters`, 'receiptDevices');
+
+    const block = await runTransaction(firebaseDb, async transaction => {
+      // Give the device its code the first time it reserves numbers
+      let deviceCode = device.receiptCode;
+      if (!deviceCode) {
+        const deviceCounter = await transaction.get(deviceCounterRef);
+        deviceCode = deviceCounter.exists() ? deviceCounter.data().nextCode as number : 1;
+      }
+
+      const seriesRef = doc(firebaseDb, `schools/${this.schoolId}/receiptSeries`, `${academicYear}-D${deviceCode}`);
+      const series = await transaction.get(seriesRef);
+      const start = Math.max(series.exists() ? series.data().nextNumber as number : 1, localNext);
+
+      const reserved: DBReceiptBlock = {
+        id: `${academicYear}-D${deviceCode}-${start}`,
+        academicYear,
+        deviceCode,
+        deviceId: device.id,
+        start,
+        end: start + RECEIPT_BLOCK_SIZE - 1,
+        reservedAt: new Date().toISOString(),
+      };
+
+      if (!device.receiptCode) {
+        transaction.set(deviceCounterRef, { nextCode: deviceCode + 1 }, { merge: true });
+      }
+      transaction.set(seriesRef, {
+        academicYear,
+        deviceCode,
+        deviceId: device.id,
+        nextNumber: reserved.end + 1,
+        updatedAt: reserved.reservedAt,
+      });
+      transaction.set(doc(firebaseDb, `schools/${this.schoolId}/receiptBlocks`, reserved.id), reserved);
+      return reserved;
+    });
+
+    await receiptSeries.addReservedBlock(block);
+    return block;
+  }
+
+  // Fetch every device's reserved blocks so the receipt audit covers the whole school
+  async getReceiptBlocks(academicYear: string): Promise<DBReceiptBlock[]> {
+    if (this.isOnline && this.schoolId) {
+      try {
+        const snapshot = await getDocs(query(
+          collection(firebaseDb, `schools/${this.schoolId}/receiptBlocks`),
+          where('academicYear', '==', academicYear)
+        ));
+        await db.receiptBlocks.bulkPut(snapshot.docs.map(docSnapshot => docSnapshot.data() as DBReceiptBlock));
+      } catch (error) {
+        console.error('Failed to load receipt blocks:', error);
+      }
+    }
+    return receiptSeries.getBlocks(academicYear);
+  }
+
+  // Academic year receipts are numbered under, from the school's settings
+  async getAcademicYear(): Promise<string> {
+    const school = this.schoolId ? await db.schools.get(this.schoolId) : undefined;
+    return school?.currentYear || String(new Date().getFullYear());
+  }
+
   // Handle online/offline status change
   private handleOnlineStatusChange(isOnline: boolean) {
     this.isOnline = isOnline;
@@ -85,18 +254,29 @@ class SyncService {
 
   // Get current sync state
   async getState(): Promise<SyncState> {
-    const pendingItems = await dbHelpers.getPendingSyncItems();
-    const pendingChanges = 
-      pendingItems.students.length + 
-      pendingItems.payments.length + 
-      pendingItems.feeStructures.length;
-
-    const lastSyncAt = localStorage.getItem('edupay_last_sync');
+    const [pendingChanges, deadLetters, conflicts] = await Promise.all([
+      db.syncQueue.where('status').equals('pending').count(),
+      db.syncQueue.where('status').equals('dead').count(),
+      db.syncConflicts.where('status').equals('open').count(),
+    ]);
+
+    const checkpoints = await db.syncCheckpoints.toArray();
+    const lastSyncAt = checkpoints
+      .map(checkpoint => checkpoint.lastSyncedAt)
+      .sort()
+      .pop() ?? null;
 
     return {
-      status: this.isOnline ? 'idle' : 'offline',
+      status: deriveSyncStatus({
+        isOnline: this.isOnline,
+        syncing: this.syncRun !== null,
+        lastResult: this.lastResult,
+        conflicts,
+      }),
       lastSyncAt,
       pendingChanges,
+      conflicts,
+      deadLetters,
       isOnline: this.isOnline,
     };
   }
@@ -122,8 +302,18 @@ class SyncService {
     }
   }
 
-  // Main sync function
-  async sync(): Promise<SyncResult> {
+  // Main sync function; a sync started while one is running joins it
+  sync(): Promise<SyncResult> {
+    if (!this.syncRun) {
+      this.syncRun = this.runSync().finally(() => {
+        this.syncRun = null;
+        this.notifyListeners();
+      });
+    }
+    return this.syncRun;
+  }
+
+  private async runSync(): Promise<SyncResult> {
     if (!this.isOnline) {
       return {
         status: 'offline',
@@ -158,72 +348,102 @@ class SyncService {
     this.notifyListeners();
 
     try {
-      // Upload local changes
-      const uploadResult = await this.uploadChanges();
-      result.uploaded = uploadResult.count;
-      result.errors.push(...uploadResult.errors);
+      try {
+        await this.reserveReceiptBlock();
+      } catch (error: any) {
+        result.errors.push(`Receipt number reservation failed: ${error.message}`);
+      }
 
-      // Download remote changes
+      await this.registerDevice();
+
+      // Download remote changes first so local edits are merged before upload
       const downloadResult = await this.downloadChanges();
       result.downloaded = downloadResult.count;
       result.conflicts = downloadResult.conflicts;
       result.errors.push(...downloadResult.errors);
 
-      // Update last sync time
-      localStorage.setItem('edupay_last_sync', result.timestamp);
+      // Replay local operations
+      const uploadResult = await this.uploadChanges();
+      result.uploaded = uploadResult.count;
+      result.errors.push(...uploadResult.errors);
+
+      // Anchor sealed Stellar batches; failures stay queued on the batch for the next sync
+      try {
+        await anchorBatches.anchorDue();
+      } catch (error: any) {
+        result.errors.push(`Stellar anchoring failed: ${error.message}`);
+      }
+
+      // Send SMS and email queued while offline; failed sends back off in the outbox
+      try {
+        await drainOutbox();
+        await syncDeliveryReports();
+      } catch (error: any) {
+        result.errors.push(`Message outbox failed: ${error.message}`);
+      }
+
+      // Settle mobile money requests parents started, recording the payments collected
+      try {
+        await pollPendingCollections(this.schoolId);
+      } catch (error: any) {
+        result.errors.push(`Mobile money collections failed: ${error.message}`);
+      }
 
-      result.status = result.errors.length > 0 ? 'error' : 'success';
+      result.status = finishedSyncStatus(result.errors, result.conflicts);
+      if (result.errors.length === 0) {
+        await this.registerDevice(result.timestamp);
+      }
     } catch (error: any) {
       result.status = 'error';
       result.errors.push(error.message || 'Unknown sync error');
     }
 
-    this.notifyListeners();
+    this.lastResult = result;
     return result;
   }
 
-  // Upload local changes to Firebase
+  // Upload local changes to Firebase by replaying the operation log in order
   private async uploadChanges(): Promise<{ count: number; errors: string[] }> {
     const errors: string[] = [];
     let count = 0;
 
-    const pendingItems = await dbHelpers.getPendingSyncItems();
+    await this.enqueueUntrackedChanges();
 
-    // Upload students
-    for (const student of pendingItems.students) {
-      try {
-        await this.uploadStudent(student);
-        await dbHelpers.markAsSynced('students', [student.id]);
-        count++;
-      } catch (error: any) {
-        errors.push(`Failed to sync student ${student.studentId}: ${error.message}`);
-      }
-    }
+    const [entries, deadLetters] = await Promise.all([
+      dbHelpers.getQueuedOperations('pending'),
+      dbHelpers.getQueuedOperations('dead'),
+    ]);
+    const now = new Date();
 
-    // Upload payments
-    for (const payment of pendingItems.payments) {
-      try {
-        await this.uploadPayment(payment);
-        await dbHelpers.markAsSynced('payments', [payment.id]);
-        count++;
-      } catch (error: any) {
-        errors.push(`Failed to sync payment ${payment.receiptNumber}: ${error.message}`);
-      }
-    }
+    const { replayed, failed } = await replayInOrder(entries, deadLetters, now, async entry => {
+      const table = this.getLocalTable(entry.table);
+      const local = table ? await table.get(entry.recordId) : undefined;
 
-    // Upload fee structures
-    for (const feeStructure of pendingItems.feeStructures) {
-      try {
-        await this.uploadFeeStructure(feeStructure);
-        await dbHelpers.markAsSynced('feeStructures', [feeStructure.id]);
-        count++;
-      } catch (error: any) {
-        errors.push(`Failed to sync fee structure: ${error.message}`);
-      }
+      // Records with unresolved field conflicts are held until reviewed
+      if (entry.operation !== 'delete' && local?.syncStatus === 'conflict') return 'held';
+
+      await this.replayOperation(entry, local);
+      await db.syncQueue.delete(entry.id);
+      await this.markRecordSyncedIfSettled(entry.table, entry.recordId);
+      return 'replayed';
+    });
+    count += replayed.length;
+
+    for (const { entry, error } of failed) {
+      const attempts = entry.attempts + 1;
+      const message = error?.message || 'Unknown error';
+      await db.syncQueue.update(entry.id, {
+        attempts,
+        lastAttempt: now.toISOString(),
+        error: message,
+        status: shouldDeadLetter(attempts) ? 'dead' : 'pending',
+      });
+      errors.push(`Failed to sync ${entry.operation} of ${entry.table}/${entry.recordId}: ${message}`);
     }
 
     // Upload audit logs
-    for (const auditLog of pendingItems.auditLogs) {
+    const { auditLogs } = await dbHelpers.getPendingSyncItems();
+    for (const auditLog of auditLogs) {
       try {
         await this.uploadAuditLog(auditLog);
         await dbHelpers.markAsSynced('auditLogs', [auditLog.id]);
@@ -237,69 +457,336 @@ class SyncService {
     return { count, errors };
   }
 
-  // Download remote changes from Firebase
+  // Queue records flagged as pending that have no operation log entry yet
+  private async enqueueUntrackedChanges() {
+    const { students, payments, feeStructures } = await dbHelpers.getPendingSyncItems();
+    const flagged = [
+      ...students.map(r => ({ table: 'students', record: r })),
+      ...payments.map(r => ({ table: 'payments', record: r })),
+      ...feeStructures.map(r => ({ table: 'feeStructures', record: r })),
+    ];
+
+    for (const { table, record } of flagged) {
+      const queued = await db.syncQueue
+        .where('[table+recordId]')
+        .equals([table, record.id])
+        .count();
+      if (queued === 0) {
+        await dbHelpers.addToSyncQueue('update', table, record.id, record);
+      }
+    }
+  }
+
+  // Apply one queued operation to Firestore together with its idempotency marker
+  private async replayOperation(entry: DBSyncQueue, local: any) {
+    const markerRef = doc(firebaseDb, `schools/${this.schoolId}/syncOperations`, entry.idempotencyKey);
+    const marker = await getDoc(markerRef);
+    if (marker.exists()) {
+      // Applied by an earlier attempt that failed before the queue was updated
+      return;
+    }
+
+    const docRef = doc(firebaseDb, `schools/${this.schoolId}/${entry.table}`, entry.recordId);
+    const batch = writeBatch(firebaseDb);
+
+    if (entry.operation === 'delete') {
+      // The tombstone replaces the record so the delete reaches the other devices
+      batch.set(docRef, {
+        ...entry.data,
+        syncStatus: 'synced',
+        syncedAt: serverTimestamp(),
+      });
+    } else {
+      // Creates and updates send the current record so merged edits go up too
+      batch.set(docRef, {
+        ...(local ?? entry.data),
+        syncStatus: 'synced',
+        syncedAt: serverTimestamp(),
+      });
+    }
+
+    batch.set(markerRef, {
+      table: entry.table,
+      recordId: entry.recordId,
+      operation: entry.operation,
+      queuedAt: entry.createdAt,
+      appliedAt: serverTimestamp(),
+    });
+
+    await batch.commit();
+  }
+
+  // Flag a record as synced once no queued operation for it remains
+  private async markRecordSyncedIfSettled(tableName: string, recordId: string) {
+    const remaining = await db.syncQueue
+      .where('[table+recordId]')
+      .equals([tableName, recordId])
+      .count();
+    if (remaining > 0) return;
+
+    const table = this.getLocalTable(tableName);
+    const record = table ? await table.get(recordId) : undefined;
+    if (!record || record.syncStatus !== 'pending') return;
+
+    await dbHelpers.markAsSynced(tableName, [recordId]);
+    if (DOWNLOADED_COLLECTIONS.includes(tableName as MergeableTable) && tableName !== 'paymentJournal') {
+      await dbHelpers.saveSyncBase(tableName, record);
+    }
+  }
+
+  private getLocalTable(tableName: string): Table<any> | null {
+    return REPLAYED_TABLES.includes(tableName) ? (db as any)[tableName] : null;
+  }
+
+  // Get operations that exhausted their retries
+  async getDeadLetters(): Promise<DBSyncQueue[]> {
+    return dbHelpers.getQueuedOperations('dead');
+  }
+
+  // Put dead-lettered operations back into the queue and try again
+  async retryDeadLetters(ids?: string[]): Promise<SyncResult | null> {
+    await dbHelpers.retryDeadLetters(ids);
+    this.notifyListeners();
+    return this.isOnline ? this.sync() : null;
+  }
+
+  // Download remote changes from Firebase, one cursor-paged collection at a time
   private async downloadChanges(): Promise<{ count: number; conflicts: number; errors: string[] }> {
     const errors: string[] = [];
     let count = 0;
     let conflicts = 0;
 
-    const lastSync = localStorage.getItem('edupay_last_sync');
-    const lastSyncTime = lastSync ? new Date(lastSync) : new Date(0);
+    for (const collectionName of DOWNLOADED_COLLECTIONS) {
+      try {
+        const result = await this.downloadCollection(collectionName);
+        count += result.count;
+        conflicts += result.conflicts;
+      } catch (error: any) {
+        // The checkpoint keeps the pages already stored, the next sync resumes there
+        errors.push(`Download of ${collectionName} failed: ${error.message}`);
+      }
+    }
 
-    try {
-      // Download students updated since last sync
-      const studentsRef = collection(firebaseDb, `schools/${this.schoolId}/students`);
-      const studentsQuery = query(
-        studentsRef,
-        where('updatedAt', '>', Timestamp.fromDate(lastSyncTime)),
-        orderBy('updatedAt', 'desc'),
-        limit(500)
-      );
-      
-      const studentsSnapshot = await getDocs(studentsQuery);
-      for (const docSnapshot of studentsSnapshot.docs) {
-        const remoteStudent = docSnapshot.data() as DBStudent;
-        const localStudent = await db.students.get(remoteStudent.id);
-
-        if (!localStudent || localStudent.syncStatus === 'synced') {
-          // No local changes, safe to overwrite
-          await db.students.put({ ...remoteStudent, syncStatus: 'synced', syncedAt: new Date().toISOString() });
-          count++;
-        } else {
-          // Local changes exist, mark as conflict
-          await db.students.update(remoteStudent.id, { syncStatus: 'conflict' });
-          conflicts++;
-        }
+    return { count, conflicts, errors };
+  }
+
+  // Page through a collection in the order the server stamped the uploads, saving the cursor after every page
+  private async downloadCollection(collectionName: DownloadedCollection): Promise<{ count: number; conflicts: number }> {
+    const table = this.getLocalTable(collectionName) as Table<any>;
+    const collectionRef = collection(firebaseDb, `schools/${this.schoolId}/${collectionName}`);
+    const checkpoint = await db.syncCheckpoints.get(collectionName);
+    let count = 0;
+    let conflicts = 0;
+
+    const fetchPage = async (after: DownloadCursor | null, pageSize: number) => {
+      const pageQuery = after
+        ? query(
+            collectionRef,
+            orderBy('syncedAt', 'asc'),
+            orderBy('id', 'asc'),
+            startAfter(new Timestamp(after.syncedAt.seconds, after.syncedAt.nanoseconds), after.id),
+            limit(pageSize)
+          )
+        : query(
+            collectionRef,
+            orderBy('syncedAt', 'asc'),
+            orderBy('id', 'asc'),
+            limit(pageSize)
+          );
+      const snapshot = await getDocs(pageQuery);
+      return snapshot.docs.map(docSnapshot => docSnapshot.data() as MergeableRecord & PagedDocument);
+    };
+
+    await pageThrough(checkpoint?.cursor ?? null, DOWNLOAD_PAGE_SIZE, fetchPage, async (docs, cursor) => {
+      for (const data of docs) {
+        // Devices still on an older schema upload records in the old shape; tombstones have none
+        const remote: MergeableRecord = isTombstone(data) ? data : alignRecord(collectionName, data);
+        const outcome = collectionName === 'paymentJournal'
+          ? await this.applyRemoteJournalEntry(remote as unknown as DBJournalEntry)
+          : await this.applyRemoteRecord(collectionName, table, remote);
+        if (outcome === 'conflict') conflicts++;
+        else if (outcome !== 'skipped') count++;
       }
 
-      // Download payments updated since last sync
-      const paymentsRef = collection(firebaseDb, `schools/${this.schoolId}/payments`);
-      const paymentsQuery = query(
-        paymentsRef,
-        where('updatedAt', '>', Timestamp.fromDate(lastSyncTime)),
-        orderBy('updatedAt', 'desc'),
-        limit(500)
-      );
-
-      const paymentsSnapshot = await getDocs(paymentsQuery);
-      for (const docSnapshot of paymentsSnapshot.docs) {
-        const remotePayment = docSnapshot.data() as DBPayment;
-        const localPayment = await db.payments.get(remotePayment.id);
-
-        if (!localPayment || localPayment.syncStatus === 'synced') {
-          await db.payments.put({ ...remotePayment, syncStatus: 'synced', syncedAt: new Date().toISOString() });
-          count++;
-        } else {
-          await db.payments.update(remotePayment.id, { syncStatus: 'conflict' });
-          conflicts++;
-        }
+      await db.syncCheckpoints.put({
+        collection: collectionName,
+        cursor,
+        lastSyncedAt: new Date().toISOString(),
+      });
+    });
+
+    return { count, conflicts };
+  }
+
+  // Journal entries never change once written, so a downloaded entry is either new or already here
+  private async applyRemoteJournalEntry(remote: DBJournalEntry): Promise<'overwritten' | 'skipped'> {
+    if (await db.paymentJournal.get(remote.id)) return 'skipped';
+
+    // An entry altered after it was written is left out rather than stored
+    if (computeJournalEntryHash(remote) !== remote.hash) {
+      console.error(`Journal entry ${remote.id} does not match its hash, skipping`);
+      return 'skipped';
+    }
+
+    await db.paymentJournal.add({ ...remote, syncStatus: 'synced', syncedAt: new Date().toISOString() });
+    return 'overwritten';
+  }
+
+  // Apply a downloaded record, merging field by field with any local edits
+  private async applyRemoteRecord<T extends MergeableRecord>(
+    tableName: MergeableTable,
+    table: Table<T>,
+    remote: T
+  ): Promise<'overwritten' | 'merged' | 'conflict' | 'skipped'> {
+    if (isTombstone(remote)) {
+      return this.applyRemoteTombstone(tableName, table, remote);
+    }
+
+    const local = await table.get(remote.id);
+    const base = await dbHelpers.getSyncBase(tableName, remote.id);
+    const device = await dbHelpers.getLocalDevice();
+    const now = new Date().toISOString();
+    const plan = planRemoteApply<T>(local, remote, base, device.id);
+
+    switch (plan.action) {
+      case 'skip':
+        return 'skipped';
+      case 'redelete':
+        await dbHelpers.saveSyncBase(tableName, plan.tombstone);
+        await dbHelpers.addToSyncQueue('delete', tableName, remote.id, plan.tombstone);
+        return 'skipped';
+      case 'overwrite':
+        await table.put({ ...remote, syncStatus: 'synced', syncedAt: now });
+        await dbHelpers.saveSyncBase(tableName, remote);
+        return 'overwritten';
+    }
+
+    const { merged, conflicts } = plan;
+
+    // Earlier open conflicts for this record are superseded by this merge
+    await db.syncConflicts
+      .where('[table+recordId]')
+      .equals([tableName, remote.id])
+      .and(c => c.status === 'open')
+      .delete();
+
+    if (conflicts.length > 0) {
+      const recordLabel = this.getRecordLabel(tableName, merged);
+      await db.syncConflicts.bulkAdd(conflicts.map(conflict => ({
+        id: dbHelpers.generateId('CF'),
+        table: tableName,
+        recordId: remote.id,
+        recordLabel,
+        field: conflict.field,
+        baseValue: conflict.baseValue ?? null,
+        localValue: conflict.localValue ?? null,
+        remoteValue: conflict.remoteValue ?? null,
+        status: 'open' as const,
+        detectedAt: now,
+      })));
+    }
+
+    // The merged record carries local edits the server has not seen yet
+    await table.put({ ...merged, syncStatus: conflicts.length > 0 ? 'conflict' : 'pending' });
+    await dbHelpers.saveSyncBase(tableName, remote);
+    await dbHelpers.addToSyncQueue('update', tableName, remote.id, merged);
+
+    return conflicts.length > 0 ? 'conflict' : 'merged';
+  }
+
+  // Delete this device's copy of a record deleted elsewhere, with anything still queued for it
+  private async applyRemoteTombstone(
+    tableName: MergeableTable,
+    table: Table<any>,
+    tombstone: Tombstone
+  ): Promise<'overwritten' | 'skipped'> {
+    const local = await table.get(tombstone.id);
+    if (local && !shouldApplyRemoteDelete(local, tombstone)) return 'skipped';
+
+    await dbHelpers.saveSyncBase(tableName, tombstone);
+    if (!local) return 'skipped';
+
+    await table.delete(tombstone.id);
+    await db.syncQueue.where('[table+recordId]').equals([tableName, tombstone.id]).delete();
+    await this.closeRecordConflicts(tableName, tombstone.id, 'remote');
+    return 'overwritten';
+  }
+
+  private getRecordLabel(tableName: MergeableTable, record: MergeableRecord): string {
+    switch (tableName) {
+      case 'students': {
+        const student = record as DBStudent;
+        return `${student.firstName} ${student.lastName} (${student.studentId})`;
+      }
+      case 'payments': {
+        const payment = record as DBPayment;
+        return `Receipt ${payment.receiptNumber} - ${payment.studentName}`;
+      }
+      case 'feeStructures': {
+        const feeStructure = record as DBFeeStructure;
+        return `Fee structure ${feeStructure.className} ${feeStructure.termId} ${feeStructure.academicYear}`;
       }
+      case 'installmentRules':
+        return `Installment rule ${(record as DBInstallmentRule).name}`;
+      case 'users':
+        return `User ${(record as DBUser).displayName}`;
+    }
+  }
 
-    } catch (error: any) {
-      errors.push(`Download failed: ${error.message}`);
+  // Get field conflicts waiting for review
+  async getOpenConflicts(): Promise<DBSyncConflict[]> {
+    return dbHelpers.getOpenConflicts();
+  }
+
+  // Resolve a single field conflict by picking the local or remote value
+  async resolveFieldConflict(conflictId: string, resolution: 'local' | 'remote') {
+    const conflict = await db.syncConflicts.get(conflictId);
+    if (!conflict || conflict.status !== 'open') return;
+
+    const table = this.getLocalTable(conflict.table);
+    if (!table) return;
+
+    const value = resolution === 'local' ? conflict.localValue : conflict.remoteValue;
+    const now = new Date().toISOString();
+    const device = await dbHelpers.getLocalDevice();
+    const current = await table.get(conflict.recordId);
+
+    const settled = await db.transaction('rw', [table, db.syncConflicts], async () => {
+      await table.update(conflict.recordId, {
+        [conflict.field]: value,
+        versionVector: incrementVector(current?.versionVector, device.id),
+        updatedAt: now,
+      });
+      await db.syncConflicts.update(conflictId, { status: 'resolved', resolution, resolvedAt: now });
+
+      const remaining = await db.syncConflicts
+        .where('[table+recordId]')
+        .equals([conflict.table, conflict.recordId])
+        .and(c => c.status === 'open')
+        .count();
+
+      // Once every field is settled the record goes back into the upload queue
+      if (remaining === 0) {
+        await table.update(conflict.recordId, { syncStatus: 'pending' });
+      }
+      return remaining === 0;
+    });
+
+    if (settled) {
+      const record = await table.get(conflict.recordId);
+      await dbHelpers.addToSyncQueue('update', conflict.table, conflict.recordId, record);
     }
 
-    return { count, conflicts, errors };
+    this.notifyListeners();
+  }
+
+  // Mark every open field conflict of a record as resolved
+  private async closeRecordConflicts(tableName: string, recordId: string, resolution: 'local' | 'remote') {
+    await db.syncConflicts
+      .where('[table+recordId]')
+      .equals([tableName, recordId])
+      .and(c => c.status === 'open')
+      .modify({ status: 'resolved', resolution, resolvedAt: new Date().toISOString() });
   }
 
   // Upload individual records to Firebase
@@ -321,14 +808,6 @@ class SyncService {
     });
   }
 
-  private async uploadFeeStructure(feeStructure: DBFeeStructure) {
-    const docRef = doc(firebaseDb, `schools/${this.schoolId}/feeStructures`, feeStructure.id);
-    await setDoc(docRef, {
-      ...feeStructure,
-      syncStatus: 'synced',
-    });
-  }
-
   private async uploadAuditLog(auditLog: DBAuditLog) {
     const docRef = doc(firebaseDb, `schools/${this.schoolId}/auditLogs`, auditLog.id);
     await setDoc(docRef, {
@@ -350,8 +829,8 @@ class SyncService {
       };
     }
 
-    // Clear last sync to force full download
-    localStorage.removeItem('edupay_last_sync');
+    // Clear download cursors to force full download
+    await db.syncCheckpoints.clear();
     return this.sync();
   }
 
@@ -363,6 +842,7 @@ class SyncService {
         if (student) {
           await this.uploadStudent({ ...student, syncStatus: 'pending' });
           await db.students.update(id, { syncStatus: 'synced', syncedAt: new Date().toISOString() });
+          await dbHelpers.saveSyncBase('students', student);
         }
         break;
       case 'payments':
@@ -370,9 +850,11 @@ class SyncService {
         if (payment) {
           await this.uploadPayment({ ...payment, syncStatus: 'pending' });
           await db.payments.update(id, { syncStatus: 'synced', syncedAt: new Date().toISOString() });
+          await dbHelpers.saveSyncBase('payments', payment);
         }
         break;
     }
+    await this.closeRecordConflicts(table, id, 'local');
   }
 
   // Resolve conflict by keeping remote version
@@ -386,8 +868,9 @@ class SyncService {
           where('id', '==', id)
         ));
         if (!studentDoc.empty) {
-          const remoteStudent = studentDoc.docs[0].data() as DBStudent;
+          const remoteStudent = alignRecord('students', studentDoc.docs[0].data() as DBStudent);
           await db.students.put({ ...remoteStudent, syncStatus: 'synced', syncedAt: new Date().toISOString() });
+          await dbHelpers.saveSyncBase('students', remoteStudent);
         }
         break;
       case 'payments':
@@ -396,11 +879,13 @@ class SyncService {
           where('id', '==', id)
         ));
         if (!paymentDoc.empty) {
-          const remotePayment = paymentDoc.docs[0].data() as DBPayment;
+          const remotePayment = alignRecord('payments', paymentDoc.docs[0].data() as DBPayment);
           await db.payments.put({ ...remotePayment, syncStatus: 'synced', syncedAt: new Date().toISOString() });
+          await dbHelpers.saveSyncBase('payments', remotePayment);
         }
         break;
     }
+    await this.closeRecordConflicts(table, id, 'remote');
   }
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Three-Way Merge
+ * Field-level merge of a local and a remote record against their common base
+ */
+
+export interface FieldConflict {
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: FieldConflict[];
+  localChanges: string[];
+  remoteChanges: string[];
+}
+
+// Bookkeeping fields that never take part in a merge
+export const SYNC_METADATA_FIELDS = ['syncStatus', 'syncedAt', 'updatedAt', 'versionVector'];
+
+/**
+ * Structural equality for record field values (primitives, arrays, plain objects)
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || a === undefined || b === undefined) return false;
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => valuesEqual(item, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Array.from(new Set(Object.keys(aRecord).concat(Object.keys(bRecord))));
+  return keys.every(key => valuesEqual(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Merges local and remote versions of a record field by field.
+ *
+ * A field changed on only one side takes that side's value. A field changed
+ * on both sides to different values is reported as a conflict and keeps the
+ * local value until someone reviews it. Without a base every differing field
+ * is treated as a conflict, since there is no way to tell which side moved.
+ */
+export function threeWayMerge<T extends Record<string, any>>(
+  base: Partial<T> | undefined,
+  local: T,
+  remote: T,
+  ignoreFields: string[] = SYNC_METADATA_FIELDS
+): MergeResult<T> {
+  const merged: Record<string, any> = { ...local };
+  const conflicts: FieldConflict[] = [];
+  const localChanges: string[] = [];
+  const remoteChanges: string[] = [];
+
+  const fields = Array.from(new Set(Object.keys(local).concat(Object.keys(remote))));
+
+  for (const field of fields) {
+    if (ignoreFields.includes(field)) continue;
+
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    const baseValue = base ? base[field] : undefined;
+
+    if (valuesEqual(localValue, remoteValue)) continue;
+
+    const localChanged = !base || !valuesEqual(localValue, baseValue);
+    const remoteChanged = !base || !valuesEqual(remoteValue, baseValue);
+
+    if (localChanged && remoteChanged) {
+      conflicts.push({ field, baseValue, localValue, remoteValue });
+    } else if (remoteChanged) {
+      merged[field] = remoteValue;
+      remoteChanges.push(field);
+    } else {
+      localChanges.push(field);
+    }
+  }
+
+  // Keep the most recent modification time of the two sides
+  if (local.updatedAt !== undefined || remote.updatedAt !== undefined) {
+    merged.updatedAt = [local.updatedAt, remote.updatedAt]
+      .filter(Boolean)
+      .sort()
+      .pop();
+  }
+
+  return { merged: merged as T, conflicts, localChanges, remoteChanges };
+}
+
+/**
+ * Converts a camelCase field name into a label for review screens
+ */
+export function formatFieldLabel(field: string): string {
+  const spaced = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
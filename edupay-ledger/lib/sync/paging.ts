@@ -0,0 +1,69 @@
+/**
+ * Download Paging
+ * Pages through a school collection in the order the server received the
+ * writes. Every upload is stamped with the server's time (syncedAt), so a
+ * record a device uploads after a week offline still sorts after every
+ * checkpoint taken before it arrived, whatever its updatedAt says.
+ */
+
+// A Firestore Timestamp as stored in IndexedDB
+export interface ServerTime {
+  seconds: number;
+  nanoseconds: number;
+}
+
+// The last downloaded document, ordered by (syncedAt, id); writes in one
+// batch share a server time, so the ID breaks ties
+export interface DownloadCursor {
+  syncedAt: ServerTime;
+  id: string;
+}
+
+export interface PagedDocument {
+  id: string;
+  syncedAt?: ServerTime | null; // Missing only on writes the server has not stamped yet
+}
+
+export function compareServerTimes(a: ServerTime, b: ServerTime): number {
+  return a.seconds - b.seconds || a.nanoseconds - b.nanoseconds;
+}
+
+export function compareCursors(a: DownloadCursor, b: DownloadCursor): number {
+  return compareServerTimes(a.syncedAt, b.syncedAt) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * The cursor after a page: its last stamped document, or the cursor the page
+ * started from when none of it was stamped
+ */
+export function cursorAfterPage(start: DownloadCursor | null, docs: PagedDocument[]): DownloadCursor | null {
+  for (let i = docs.length - 1; i >= 0; i--) {
+    const syncedAt = docs[i].syncedAt;
+    if (syncedAt) {
+      return { syncedAt: { seconds: syncedAt.seconds, nanoseconds: syncedAt.nanoseconds }, id: docs[i].id };
+    }
+  }
+  return start;
+}
+
+/**
+ * Fetches pages after the cursor until a short page comes back, handing each
+ * page and the cursor after it to handlePage before fetching the next, so a
+ * download that fails part way resumes after the last page handled.
+ */
+export async function pageThrough<T extends PagedDocument>(
+  start: DownloadCursor | null,
+  pageSize: number,
+  fetchPage: (after: DownloadCursor | null, pageSize: number) => Promise<T[]>,
+  handlePage: (docs: T[], cursor: DownloadCursor | null) => Promise<void>
+): Promise<DownloadCursor | null> {
+  let cursor = start;
+  while (true) {
+    const docs = await fetchPage(cursor, pageSize);
+    const next = cursorAfterPage(cursor, docs);
+    await handlePage(docs, next);
+    // A full page that moved the cursor nowhere would only come back again
+    if (docs.length < pageSize || next === cursor) return next;
+    cursor = next;
+  }
+}
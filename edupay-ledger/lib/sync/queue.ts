@@ -0,0 +1,90 @@
+/**
+ * Sync Queue Policy
+ * Ordering, retry backoff and dead-letter rules for the local operation log
+ */
+
+import type { DBSyncQueue } from '../db';
+
+// Retry configuration
+export const SYNC_RETRY_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+export const SYNC_RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+export const SYNC_MAX_ATTEMPTS = 8;
+
+/**
+ * Delay before the next attempt, doubling with every failed attempt
+ */
+export function getRetryDelayMs(attempts: number): number {
+  if (attempts <= 0) return 0;
+  const delay = SYNC_RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+  return Math.min(delay, SYNC_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Whether a queued operation may be attempted now
+ */
+export function isDueForRetry(entry: Pick<DBSyncQueue, 'attempts' | 'lastAttempt'>, now: Date = new Date()): boolean {
+  if (!entry.lastAttempt || entry.attempts === 0) return true;
+  const elapsed = now.getTime() - new Date(entry.lastAttempt).getTime();
+  return elapsed >= getRetryDelayMs(entry.attempts);
+}
+
+/**
+ * Whether an operation has failed often enough to move to the dead-letter list
+ */
+export function shouldDeadLetter(attempts: number): boolean {
+  return attempts >= SYNC_MAX_ATTEMPTS;
+}
+
+/**
+ * Orders queued operations the way they were recorded on this device
+ */
+export function sortBySequence<T extends Pick<DBSyncQueue, 'sequence' | 'createdAt'>>(entries: T[]): T[] {
+  return [...entries].sort((a, b) =>
+    a.sequence !== b.sequence ? a.sequence - b.sequence : a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+export interface ReplayOutcome<T> {
+  replayed: T[];
+  failed: { entry: T; error: any }[];
+}
+
+/**
+ * Replays queued operations in order. Once an operation for a record fails,
+ * is waiting out its backoff, is held back by replay or sits in the
+ * dead-letter list, the record's later operations wait too, so its edits and
+ * its delete reach the server in the order they were made.
+ */
+export async function replayInOrder<T extends Pick<DBSyncQueue, 'table' | 'recordId' | 'attempts' | 'lastAttempt'>>(
+  entries: T[],
+  deadLetters: Pick<DBSyncQueue, 'table' | 'recordId'>[],
+  now: Date,
+  replay: (entry: T) => Promise<'replayed' | 'held'>
+): Promise<ReplayOutcome<T>> {
+  const outcome: ReplayOutcome<T> = { replayed: [], failed: [] };
+  // Records whose earlier operation is still outstanding; later ones must wait
+  const blockedRecords = new Set<string>(deadLetters.map(entry => `${entry.table}:${entry.recordId}`));
+
+  for (const entry of entries) {
+    const recordKey = `${entry.table}:${entry.recordId}`;
+    if (blockedRecords.has(recordKey)) continue;
+
+    if (!isDueForRetry(entry, now)) {
+      blockedRecords.add(recordKey);
+      continue;
+    }
+
+    try {
+      if (await replay(entry) === 'held') {
+        blockedRecords.add(recordKey);
+        continue;
+      }
+      outcome.replayed.push(entry);
+    } catch (error) {
+      outcome.failed.push({ entry, error });
+      blockedRecords.add(recordKey);
+    }
+  }
+
+  return outcome;
+}
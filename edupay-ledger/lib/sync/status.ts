@@ -0,0 +1,36 @@
+/**
+ * Sync Status
+ * What the sync indicator shows, from connectivity, the sync in progress,
+ * the last sync's outcome and the field conflicts waiting for review
+ */
+
+export type SyncStatus = 'idle' | 'syncing' | 'success' | 'conflict' | 'error' | 'offline';
+
+export interface SyncActivity {
+  isOnline: boolean;
+  syncing: boolean;
+  lastResult: { status: SyncStatus } | null; // null until the first sync finishes
+  conflicts: number; // Open field conflicts
+}
+
+/**
+ * Offline and a running sync outrank everything else; after that, conflicts
+ * waiting for review outrank the last sync's outcome, since they hold records
+ * back from upload until someone settles them.
+ */
+export function deriveSyncStatus(activity: SyncActivity): SyncStatus {
+  if (!activity.isOnline) return 'offline';
+  if (activity.syncing) return 'syncing';
+  if (activity.conflicts > 0) return 'conflict';
+  if (!activity.lastResult) return 'idle';
+  return activity.lastResult.status === 'error' ? 'error' : 'success';
+}
+
+/**
+ * The outcome of a finished sync: any error makes it an error, otherwise
+ * conflicts found while merging downloads leave it in conflict
+ */
+export function finishedSyncStatus(errors: string[], conflicts: number): SyncStatus {
+  if (errors.length > 0) return 'error';
+  return conflicts > 0 ? 'conflict' : 'success';
+}
@@ -0,0 +1,71 @@
+/**
+ * Tombstones
+ * A deleted record stays in the school's collection as a tombstone, so the
+ * delete reaches every device through the same download as any other edit.
+ * Deletes win over edits made concurrently on another device.
+ */
+
+import { compareVectors, mergeVectors, VersionVector } from './version-vector';
+
+export interface Tombstone {
+  id: string;
+  deleted: true;
+  deletedAt: string;
+  updatedAt: string;
+  versionVector?: VersionVector;
+}
+
+interface Versioned {
+  id: string;
+  versionVector?: VersionVector;
+}
+
+export function isTombstone(record: unknown): record is Tombstone {
+  return !!record && (record as Tombstone).deleted === true;
+}
+
+/**
+ * What is left of a record once it is deleted: its ID and version. Nothing
+ * else is kept, so lookups by receipt number or student no longer find it.
+ */
+export function buildTombstone(record: Versioned, deletedAt: string): Tombstone {
+  return {
+    id: record.id,
+    deleted: true,
+    deletedAt,
+    updatedAt: deletedAt,
+    ...(record.versionVector && { versionVector: record.versionVector }),
+  };
+}
+
+/**
+ * Whether a downloaded tombstone deletes this device's copy. Only a copy
+ * edited after its device had seen the delete survives.
+ */
+export function shouldApplyRemoteDelete(local: Versioned | undefined, tombstone: Tombstone): boolean {
+  if (!local) return false;
+  return compareVectors(local.versionVector, tombstone.versionVector) !== 'after';
+}
+
+/**
+ * What to do with a downloaded record this device has deleted. A version
+ * that has seen the delete brings the record back; one edited without
+ * knowing of it is refused, and the delete sent again over it so every
+ * device ends up without the record.
+ */
+export function resolveAgainstTombstone(
+  tombstone: Tombstone,
+  remote: Versioned
+): { action: 'apply' } | { action: 'skip' } | { action: 'redelete'; tombstone: Tombstone } {
+  switch (compareVectors(tombstone.versionVector, remote.versionVector)) {
+    case 'before':
+      return { action: 'apply' };
+    case 'concurrent':
+      return {
+        action: 'redelete',
+        tombstone: { ...tombstone, versionVector: mergeVectors(tombstone.versionVector, remote.versionVector) },
+      };
+    default:
+      return { action: 'skip' };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Version Vectors
+ * Per-device edit counters that order record versions without trusting wall clocks
+ */
+
+// Device ID -> number of edits that device has made to the record
+export type VersionVector = Record<string, number>;
+
+export type VectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+/**
+ * Returns a copy of the vector with the device's counter advanced by one
+ */
+export function incrementVector(vector: VersionVector | undefined, deviceId: string): VersionVector {
+  const next = { ...(vector || {}) };
+  next[deviceId] = (next[deviceId] || 0) + 1;
+  return next;
+}
+
+/**
+ * Pointwise maximum, the smallest vector that has seen both inputs
+ */
+export function mergeVectors(a: VersionVector | undefined, b: VersionVector | undefined): VersionVector {
+  const merged: VersionVector = { ...(a || {}) };
+  Object.keys(b || {}).forEach(deviceId => {
+    merged[deviceId] = Math.max(merged[deviceId] || 0, (b as VersionVector)[deviceId]);
+  });
+  return merged;
+}
+
+/**
+ * Orders two versions of a record.
+ *
+ * 'before' means `a` is an ancestor of `b` (b has seen every edit in a),
+ * 'after' the reverse, and 'concurrent' that each side has edits the other
+ * has not seen, which is the only case that needs a merge.
+ */
+export function compareVectors(a: VersionVector | undefined, b: VersionVector | undefined): VectorOrder {
+  const left = a || {};
+  const right = b || {};
+  const devices = Array.from(new Set(Object.keys(left).concat(Object.keys(right))));
+
+  let aAhead = false;
+  let bAhead = false;
+  devices.forEach(deviceId => {
+    const aCount = left[deviceId] || 0;
+    const bCount = right[deviceId] || 0;
+    if (aCount > bCount) aAhead = true;
+    if (bCount > aCount) bAhead = true;
+  });
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
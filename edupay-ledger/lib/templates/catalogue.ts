@@ -0,0 +1,538 @@
+/**
+ * Message Template Catalogue
+ * Built-in wording for every SMS and email, in each language it has been
+ * translated into, with the label and description the template editor shows.
+ * English emails, with their HTML layout, stay in email.service.ts; the
+ * translations here are sent as plain text.
+ */
+
+import type { EmailTemplateType } from '../services/email.service';
+import type { MessageLanguage, MessageTemplate, SmsTemplateType } from '../../types/message-template';
+
+export interface SmsCatalogueEntry {
+  label: string;
+  description: string;
+  variants: { en: string } & Partial<Record<MessageLanguage, string>>;
+}
+
+export interface EmailCatalogueEntry {
+  label: string;
+  description: string;
+  variants: Partial<Record<Exclude<MessageLanguage, 'en'>, MessageTemplate>>;
+}
+
+export const SMS_TEMPLATES: Record<SmsTemplateType, SmsCatalogueEntry> = {
+  payment_receipt: {
+    label: 'Payment receipt',
+    description: 'Confirms a payment, with the receipt number and new balance',
+    variants: {
+      en: `Dear {guardianName}, payment of UGX {amount} received for {studentName} ({studentId}). Balance: UGX {balance}. Receipt: {receiptNumber}. Thank you! - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, tufunye okusasula kwa UGX {amount} ku lwa {studentName} ({studentId}). Ebisigadde: UGX {balance}. Lisiiti: {receiptNumber}. Webale nnyo! - {schoolName}`,
+      sw: `Mpendwa {guardianName}, malipo ya UGX {amount} yamepokelewa kwa {studentName} ({studentId}). Salio: UGX {balance}. Risiti: {receiptNumber}. Asante! - {schoolName}`,
+      nyn: `{guardianName}, tutungire okushashura kwa UGX {amount} ahabwa {studentName} ({studentId}). Ebishigaireho: UGX {balance}. Risiiti: {receiptNumber}. Webale munonga! - {schoolName}`,
+    },
+  },
+
+  payment_reminder: {
+    label: 'Payment reminder',
+    description: 'Reminds the guardian of the balance and its due date',
+    variants: {
+      en: `Dear {guardianName}, reminder: {studentName}'s school fees balance is UGX {balance}. Due date: {dueDate}. Pay via Mobile Money to avoid late fees. - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, okujjukiza: ebisale by'essomero ebisigadde ku {studentName} biri UGX {balance}. Olunaku olw'enkomerero: {dueDate}. Sasula ku Mobile Money okwewala engassi. - {schoolName}`,
+      sw: `Mpendwa {guardianName}, kumbukumbu: salio la ada ya shule la {studentName} ni UGX {balance}. Tarehe ya mwisho: {dueDate}. Lipa kupitia Mobile Money kuepuka faini. - {schoolName}`,
+      nyn: `{guardianName}, okwijukya: empiiha y'eishomero ebishigaireho ahari {studentName} ni UGX {balance}. Ekiro ky'okushashura: {dueDate}. Shashura ahari Mobile Money kwetantara ebihano. - {schoolName}`,
+    },
+  },
+
+  arrears_notice: {
+    label: 'Arrears notice',
+    description: 'Warns that the balance is overdue',
+    variants: {
+      en: `Dear {guardianName}, {studentName} has an outstanding balance of UGX {balance}, overdue by {daysOverdue} days. Please clear to avoid clearance issues. - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, {studentName} alina ebbanja lya UGX {balance}, eriyise ennaku {daysOverdue}. Tukusaba osasule okwewala obuzibu ku clearance. - {schoolName}`,
+      sw: `Mpendwa {guardianName}, {studentName} ana deni la UGX {balance}, lililopitiliza siku {daysOverdue}. Tafadhali lipa ili kuepuka matatizo ya kibali. - {schoolName}`,
+      nyn: `{guardianName}, {studentName} aine ibanja rya UGX {balance}, rirengyeho ebiro {daysOverdue}. Nitukushaba oshashure kwetantara oburemeezi ahari clearance. - {schoolName}`,
+    },
+  },
+
+  clearance_granted: {
+    label: 'Clearance granted',
+    description: 'Tells the guardian the student is cleared for exams',
+    variants: {
+      en: `Dear {guardianName}, {studentName} has been granted exam clearance for {term}. All fees are up to date. Thank you for your prompt payment! - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, {studentName} afunye clearance y'ebigezo bya {term}. Ebisale byonna bisasuddwa. Webale okusasulira mu budde! - {schoolName}`,
+      sw: `Mpendwa {guardianName}, {studentName} amepewa kibali cha mitihani kwa {term}. Ada zote zimelipwa. Asante kwa kulipa kwa wakati! - {schoolName}`,
+      nyn: `{guardianName}, {studentName} yaheebwa clearance y'ebigyezo bya {term}. Empiiha yoona ehwire kushashurwa. Webale kushashura omu bunaku! - {schoolName}`,
+    },
+  },
+
+  fee_deadline: {
+    label: 'Fee deadline',
+    description: 'Reminds the guardian of the term deadline',
+    variants: {
+      en: `Dear {guardianName}, reminder: School fees deadline for {term} is {deadline}. {studentName}'s balance: UGX {balance}. Pay now to avoid penalties. - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, okujjukiza: olunaku olw'enkomerero olw'ebisale bya {term} ye {deadline}. Ebisigadde ku {studentName}: UGX {balance}. Sasula kati okwewala engassi. - {schoolName}`,
+      sw: `Mpendwa {guardianName}, kumbukumbu: tarehe ya mwisho ya ada ya {term} ni {deadline}. Salio la {studentName}: UGX {balance}. Lipa sasa kuepuka adhabu. - {schoolName}`,
+      nyn: `{guardianName}, okwijukya: ekiro ky'aheru eky'okushashura empiiha ya {term} ni {deadline}. Ebishigaireho ahari {studentName}: UGX {balance}. Shashura hati kwetantara ebihano. - {schoolName}`,
+    },
+  },
+
+  promise_reminder: {
+    label: 'Promise reminder',
+    description: 'Reminds the guardian of a payment they promised',
+    variants: {
+      en: `Dear {guardianName}, reminder: Your payment promise of UGX {promiseAmount} for {studentName} is due on {promiseDate}. Current balance: UGX {balance}. - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, okujjukiza: ekisuubizo kyo eky'okusasula UGX {promiseAmount} ku lwa {studentName} kituuka nga {promiseDate}. Ebisigadde kati: UGX {balance}. - {schoolName}`,
+      sw: `Mpendwa {guardianName}, kumbukumbu: ahadi yako ya kulipa UGX {promiseAmount} kwa {studentName} inatimia tarehe {promiseDate}. Salio la sasa: UGX {balance}. - {schoolName}`,
+      nyn: `{guardianName}, okwijukya: eki waraganiise kushashura UGX {promiseAmount} ahabwa {studentName} nikihika {promiseDate}. Ebishigaireho hati: UGX {balance}. - {schoolName}`,
+    },
+  },
+
+  balance_inquiry: {
+    label: 'Balance inquiry',
+    description: 'Answers a guardian asking for the fee position',
+    variants: {
+      en: `Dear {guardianName}, {studentName}'s fee status: Total fees: UGX {totalFees}, Paid: UGX {amountPaid}, Balance: UGX {balance}. {paymentStatus}. - {schoolName}`,
+      lg: `Ssebo/Nnyabo {guardianName}, embeera y'ebisale bya {studentName}: Byonna awamu: UGX {totalFees}, Ebisasuddwa: UGX {amountPaid}, Ebisigadde: UGX {balance}. {paymentStatus}. - {schoolName}`,
+      sw: `Mpendwa {guardianName}, hali ya ada ya {studentName}: Jumla ya ada: UGX {totalFees}, Imelipwa: UGX {amountPaid}, Salio: UGX {balance}. {paymentStatus}. - {schoolName}`,
+      nyn: `{guardianName}, empiiha ya {studentName}: Yoona hamwe: UGX {totalFees}, Ehwire kushashurwa: UGX {amountPaid}, Ebishigaireho: UGX {balance}. {paymentStatus}. - {schoolName}`,
+    },
+  },
+
+  welcome: {
+    label: 'Welcome',
+    description: 'Sent when a student is enrolled',
+    variants: {
+      en: `Welcome to {schoolName}! {studentName} ({studentId}) has been enrolled. Total fees: UGX {totalFees}. SMS notifications enabled. Reply STOP to opt out.`,
+      lg: `Tukwanirizza mu {schoolName}! {studentName} ({studentId}) ayingiziddwa. Ebisale byonna: UGX {totalFees}. Obubaka bwa SMS bukoleddwa. Ddamu STOP okubuyimiriza.`,
+      sw: `Karibu {schoolName}! {studentName} ({studentId}) amesajiliwa. Jumla ya ada: UGX {totalFees}. Ujumbe wa SMS umewashwa. Jibu STOP kujiondoa.`,
+      nyn: `Kaze omu {schoolName}! {studentName} ({studentId}) yaateirwe omu bitabo. Empiiha yoona: UGX {totalFees}. Obutumwa bwa SMS nibukora. Garukamu STOP kubuhagarika.`,
+    },
+  },
+
+  custom: {
+    label: 'Custom message',
+    description: 'Text written for one message',
+    variants: { en: `{message}` },
+  },
+
+  receipt_notice: {
+    label: 'Receipt notice',
+    description: 'Sent when a payment is recorded',
+    variants: {
+      en: `EduPay Ledger: Payment received for {studentName}.\nAmount: {amount}\nNew Balance: {balance}\nReceipt: {receiptNumber}\nThank you!`,
+      lg: `EduPay Ledger: Tufunye okusasula ku lwa {studentName}.\nSsente: {amount}\nEbisigadde: {balance}\nLisiiti: {receiptNumber}\nWebale!`,
+      sw: `EduPay Ledger: Malipo yamepokelewa kwa {studentName}.\nKiasi: {amount}\nSalio jipya: {balance}\nRisiti: {receiptNumber}\nAsante!`,
+      nyn: `EduPay Ledger: Tutungire okushashura ahabwa {studentName}.\nSente: {amount}\nEbishigaireho: {balance}\nRisiiti: {receiptNumber}\nWebale!`,
+    },
+  },
+
+  deadline_notice: {
+    label: 'Installment due soon',
+    description: 'Daily reminder before an installment deadline',
+    variants: {
+      en: `EduPay Reminder: {installmentName} for {studentName} is due in {days} day(s). Amount: {amount}. Deadline: {deadline}.`,
+      lg: `EduPay Okujjukiza: {installmentName} ya {studentName} esigazza ennaku {days}. Ssente: {amount}. Olunaku olw'enkomerero: {deadline}.`,
+      sw: `EduPay Kumbukumbu: {installmentName} ya {studentName} inatakiwa ndani ya siku {days}. Kiasi: {amount}. Tarehe ya mwisho: {deadline}.`,
+      nyn: `EduPay Okwijukya: {installmentName} ya {studentName} esigaireho ebiro {days}. Sente: {amount}. Ekiro ky'aheru: {deadline}.`,
+    },
+  },
+
+  deadline_passed: {
+    label: 'Installment deadline reached',
+    description: 'Sent on the deadline day of an unpaid installment',
+    variants: {
+      en: `EduPay Alert: {installmentName} for {studentName} is now OVERDUE. Amount: {amount}. Please pay immediately.`,
+      lg: `EduPay Okulabula: {installmentName} ya {studentName} kati EYISIZZA olunaku. Ssente: {amount}. Tukusaba osasule mangu.`,
+      sw: `EduPay Tahadhari: {installmentName} ya {studentName} sasa IMEPITA muda. Kiasi: {amount}. Tafadhali lipa mara moja.`,
+      nyn: `EduPay Okuhabura: {installmentName} ya {studentName} hati EHINGUIREHO ekiro. Sente: {amount}. Nitukushaba oshashure juba.`,
+    },
+  },
+
+  overdue_notice: {
+    label: 'Installment overdue',
+    description: 'Sent 1, 7, 14 and 30 days after a missed deadline',
+    variants: {
+      en: `EduPay URGENT: {installmentName} for {studentName} is {daysOverdue} day(s) overdue. Amount: {amount}. Please clear immediately to avoid penalties.`,
+      lg: `EduPay KYA MANGU: {installmentName} ya {studentName} eyisizza ennaku {daysOverdue}. Ssente: {amount}. Tukusaba osasule mangu okwewala engassi.`,
+      sw: `EduPay DHARURA: {installmentName} ya {studentName} imepitiliza siku {daysOverdue}. Kiasi: {amount}. Tafadhali lipa mara moja kuepuka adhabu.`,
+      nyn: `EduPay EKY'OKWIHUTA: {installmentName} ya {studentName} erengyeho ebiro {daysOverdue}. Sente: {amount}. Nitukushaba oshashure juba kwetantara ebihano.`,
+    },
+  },
+
+  promise_upcoming: {
+    label: 'Promise due soon',
+    description: 'Before a promised payment falls due',
+    variants: {
+      en: `EduPay Reminder: The payment of {amount} you promised for {studentName} is due in {days} day(s), on {dueDate}. Thank you.`,
+      lg: `EduPay Okujjukiza: Ssente {amount} ze wasuubiza okusasula ku lwa {studentName} zisigazza ennaku {days}, nga {dueDate}. Webale.`,
+      sw: `EduPay Kumbukumbu: Malipo ya {amount} uliyoahidi kwa {studentName} yanatakiwa baada ya siku {days}, tarehe {dueDate}. Asante.`,
+      nyn: `EduPay Okwijukya: Sente {amount} ezi waraganiise kushashura ahabwa {studentName} zisigaireho ebiro {days}, {dueDate}. Webale.`,
+    },
+  },
+
+  promise_today: {
+    label: 'Promise due today',
+    description: 'On the day a promised payment falls due',
+    variants: {
+      en: `EduPay Reminder: The payment of {amount} you promised for {studentName} is due today. Thank you.`,
+      lg: `EduPay Okujjukiza: Ssente {amount} ze wasuubiza okusasula ku lwa {studentName} zeetaagibwa leero. Webale.`,
+      sw: `EduPay Kumbukumbu: Malipo ya {amount} uliyoahidi kwa {studentName} yanatakiwa leo. Asante.`,
+      nyn: `EduPay Okwijukya: Sente {amount} ezi waraganiise kushashura ahabwa {studentName} nizeetengyesa erizooba. Webale.`,
+    },
+  },
+
+  promise_missed: {
+    label: 'Promise missed',
+    description: 'After a promised payment was not made',
+    variants: {
+      en: `EduPay Reminder: The payment of {amount} you promised for {studentName} was due on {dueDate}. Please pay now or contact the school.`,
+      lg: `EduPay Okujjukiza: Ssente {amount} ze wasuubiza okusasula ku lwa {studentName} zaali zeetaagibwa nga {dueDate}. Tukusaba osasule kati oba okwatagane n'essomero.`,
+      sw: `EduPay Kumbukumbu: Malipo ya {amount} uliyoahidi kwa {studentName} yalitakiwa tarehe {dueDate}. Tafadhali lipa sasa au wasiliana na shule.`,
+      nyn: `EduPay Okwijukya: Sente {amount} ezi waraganiise kushashura ahabwa {studentName} zaabaire nizeetengyesa {dueDate}. Nitukushaba oshashure hati nari obaze n'eishomero.`,
+    },
+  },
+
+  cheque_bounced: {
+    label: 'Cheque returned',
+    description: 'A cheque was returned unpaid and its receipt cancelled',
+    variants: {
+      en: `EduPay Ledger: Cheque {chequeNumber} of {amount} for {studentName} was returned unpaid ({reason}). Receipt {receiptNumber} is cancelled. New Balance: {balance}. Please pay by cash, bank transfer or mobile money.`,
+      lg: `EduPay Ledger: Cheque {chequeNumber} eya {amount} ku lwa {studentName} ezziddwayo nga tesasuddwa ({reason}). Lisiiti {receiptNumber} esaziddwamu. Ebisigadde: {balance}. Tukusaba osasule mu buliwo, ku bbanka oba ku mobile money.`,
+      sw: `EduPay Ledger: Hundi {chequeNumber} ya {amount} kwa {studentName} imerudishwa bila kulipwa ({reason}). Risiti {receiptNumber} imefutwa. Salio jipya: {balance}. Tafadhali lipa kwa pesa taslimu, benki au mobile money.`,
+      nyn: `EduPay Ledger: Cheque {chequeNumber} ya {amount} ahabwa {studentName} egarukire etashashuirwe ({reason}). Risiiti {receiptNumber} yaihwaho. Ebishigaireho: {balance}. Nitukushaba oshashure na sente z'omu ngaro, omu bbanka nari ahari mobile money.`,
+    },
+  },
+
+  cheque_bounced_charge: {
+    label: 'Cheque returned with bank charge',
+    description: 'As above, when the bank charge is added to fees',
+    variants: {
+      en: `EduPay Ledger: Cheque {chequeNumber} of {amount} for {studentName} was returned unpaid ({reason}). Receipt {receiptNumber} is cancelled and the bank charge of {bankCharge} added to fees. New Balance: {balance}. Please pay by cash, bank transfer or mobile money.`,
+      lg: `EduPay Ledger: Cheque {chequeNumber} eya {amount} ku lwa {studentName} ezziddwayo nga tesasuddwa ({reason}). Lisiiti {receiptNumber} esaziddwamu era ssente za bbanka {bankCharge} zigattiddwa ku bisale. Ebisigadde: {balance}. Tukusaba osasule mu buliwo, ku bbanka oba ku mobile money.`,
+      sw: `EduPay Ledger: Hundi {chequeNumber} ya {amount} kwa {studentName} imerudishwa bila kulipwa ({reason}). Risiti {receiptNumber} imefutwa na gharama ya benki ya {bankCharge} imeongezwa kwenye ada. Salio jipya: {balance}. Tafadhali lipa kwa pesa taslimu, benki au mobile money.`,
+      nyn: `EduPay Ledger: Cheque {chequeNumber} ya {amount} ahabwa {studentName} egarukire etashashuirwe ({reason}). Risiiti {receiptNumber} yaihwaho kandi sente za bbanka {bankCharge} zayongyerwa aha mpiiha. Ebishigaireho: {balance}. Nitukushaba oshashure na sente z'omu ngaro, omu bbanka nari ahari mobile money.`,
+    },
+  },
+};
+
+const FOOTER = {
+  lg: `---\nObubaka buno buvudde mu {schoolName}\nPowered by EduPay Ledger`,
+  sw: `---\nUjumbe huu umetumwa na {schoolName}\nPowered by EduPay Ledger`,
+  nyn: `---\nObutumwa obu niburuga omu {schoolName}\nPowered by EduPay Ledger`,
+};
+
+export const EMAIL_TRANSLATIONS: Record<EmailTemplateType, EmailCatalogueEntry> = {
+  payment_receipt: {
+    label: 'Payment receipt',
+    description: 'Receipt details for a payment',
+    variants: {
+      lg: {
+        subject: 'Lisiiti y\'okusasula - {schoolName}',
+        body: `Ssebo/Nnyabo {guardianName},
+
+Tufunye okusasula kwo okwa UGX {amount}. Webale okusasulira mu budde.
+
+EBIKWATA KU LISIITI:
+- Namba ya lisiiti: {receiptNumber}
+- Omuyizi: {studentName}
+- Namba y'omuyizi: {studentId}
+- Kiraasi: {className}
+- Olunaku lw'okusasula: {paymentDate}
+- Engeri y'okusasula: {paymentChannel}
+
+Ebisigadde: UGX {balance}
+
+Lisiiti eno kakasa nti okusasula kwo kutuuse. Gikuume bulungi.
+
+Bw'oba n'ekibuuzo, tuukirira ofiisi ya bursar.
+
+${FOOTER.lg}`,
+      },
+      sw: {
+        subject: 'Risiti ya Malipo - {schoolName}',
+        body: `Mpendwa {guardianName},
+
+Tumepokea malipo yako ya UGX {amount}. Asante kwa kulipa kwa wakati.
+
+MAELEZO YA RISITI:
+- Nambari ya risiti: {receiptNumber}
+- Mwanafunzi: {studentName}
+- Nambari ya mwanafunzi: {studentId}
+- Darasa: {className}
+- Tarehe ya malipo: {paymentDate}
+- Njia ya malipo: {paymentChannel}
+
+Salio: UGX {balance}
+
+Risiti hii ni uthibitisho rasmi wa malipo yako. Tafadhali ihifadhi.
+
+Kwa maswali yoyote, wasiliana na ofisi ya mhasibu wa shule.
+
+${FOOTER.sw}`,
+      },
+      nyn: {
+        subject: 'Risiiti y\'okushashura - {schoolName}',
+        body: `{guardianName},
+
+Tutungire okushashura kwawe kwa UGX {amount}. Webale kushashura omu bunaku.
+
+EBIRI AHA RISIITI:
+- Namba ya risiiti: {receiptNumber}
+- Omwegi: {studentName}
+- Namba y'omwegi: {studentId}
+- Kiraasi: {className}
+- Ekiro ky'okushashura: {paymentDate}
+- Omuringo gw'okushashura: {paymentChannel}
+
+Ebishigaireho: UGX {balance}
+
+Risiiti egi nikyoreka ngu okushashura kwawe kwahikire. Ogirinde gye.
+
+Waaba oine ekibuuzo, shanga ofiisi ya bursar.
+
+${FOOTER.nyn}`,
+      },
+    },
+  },
+
+  payment_reminder: {
+    label: 'Payment reminder',
+    description: 'Balance due, with the ways to pay',
+    variants: {
+      lg: {
+        subject: 'Okujjukiza okusasula - {studentName} - {schoolName}',
+        body: `Ssebo/Nnyabo {guardianName},
+
+Tukujjukiza nti ebisale by'essomero ebya {studentName} bituuse.
+
+Ebisigadde: UGX {balance}
+
+EBIKWATA KU MUYIZI:
+- Omuyizi: {studentName}
+- Kiraasi: {className}
+- Olunaku olw'enkomerero: {dueDate}
+- Olusoma: {term}
+
+Engeri y'okusasula:
+- Mobile Money (MTN, Airtel)
+- Okuweereza ku bbanka
+- Ssente enkalu ku ofiisi ya bursar
+
+Bw'oba omaze okusasula, buleka obubaka buno.
+
+Webale.
+
+${FOOTER.lg}`,
+      },
+      sw: {
+        subject: 'Kumbukumbu ya Malipo - {studentName} - {schoolName}',
+        body: `Mpendwa {guardianName},
+
+Hii ni kumbukumbu kwamba ada ya shule ya {studentName} inatakiwa kulipwa.
+
+Salio: UGX {balance}
+
+MAELEZO YA MWANAFUNZI:
+- Mwanafunzi: {studentName}
+- Darasa: {className}
+- Tarehe ya mwisho: {dueDate}
+- Muhula: {term}
+
+Njia za kulipa:
+- Mobile Money (MTN, Airtel)
+- Uhamisho wa benki
+- Pesa taslimu katika ofisi ya mhasibu
+
+Ikiwa umeshalipa, tafadhali puuza ujumbe huu.
+
+Asante kwa ushirikiano wako.
+
+${FOOTER.sw}`,
+      },
+      nyn: {
+        subject: 'Okwijukya okushashura - {studentName} - {schoolName}',
+        body: `{guardianName},
+
+Nitukwijukya ngu empiiha y'eishomero ya {studentName} ehikire kushashurwa.
+
+Ebishigaireho: UGX {balance}
+
+EBIRI AHA MWEGI:
+- Omwegi: {studentName}
+- Kiraasi: {className}
+- Ekiro ky'aheru: {dueDate}
+- Ebiro by'okushoma: {term}
+
+Emiringo y'okushashura:
+- Mobile Money (MTN, Airtel)
+- Okutambuza omu bbanka
+- Sente z'omu ngaro omu ofiisi ya bursar
+
+Waaba washashuire, otafayo ahari obutumwa obu.
+
+Webale.
+
+${FOOTER.nyn}`,
+      },
+    },
+  },
+
+  arrears_notice: {
+    label: 'Arrears notice',
+    description: 'Overdue balance that needs attention now',
+    variants: {
+      lg: {
+        subject: 'KYA MANGU: Ebbanja ly\'ebisale - {studentName}',
+        body: `Ssebo/Nnyabo {guardianName},
+
+Ebisale bya {studentName} biyise nnyo olunaku lwabyo era byetaaga okusasulwa amangu.
+
+Ebisigadde: UGX {balance}
+Ennaku eziyise: {daysOverdue}
+
+Tukusaba osasule amangu omwana asobole okugenda mu maaso n'okusoma n'okukola ebigezo.
+
+Bw'oba n'obuzibu bw'ensimbi, tuukirira essomero tukole enteekateeka y'okusasula.
+
+Essimu: {schoolPhone}
+
+${FOOTER.lg}`,
+      },
+      sw: {
+        subject: 'DHARURA: Notisi ya Deni la Ada - {studentName}',
+        body: `Mpendwa {guardianName},
+
+Ada ya {studentName} imepitiliza muda kwa kiasi kikubwa na inahitaji kulipwa haraka.
+
+Salio: UGX {balance}
+Siku zilizopita: {daysOverdue}
+
+Tafadhali lipa kiasi hiki mara moja ili mtoto aendelee na masomo na mitihani bila kukatizwa.
+
+Ikiwa una matatizo ya kifedha, wasiliana na uongozi wa shule kupanga mpango wa malipo.
+
+Simu: {schoolPhone}
+
+${FOOTER.sw}`,
+      },
+      nyn: {
+        subject: 'EKY\'OKWIHUTA: Ibanja ry\'empiiha - {studentName}',
+        body: `{guardianName},
+
+Empiiha ya {studentName} erengyeho munonga ekiro kyayo kandi neetengyesa kushashurwa juba.
+
+Ebishigaireho: UGX {balance}
+Ebiro ebirengyeho: {daysOverdue}
+
+Nitukushaba oshashure juba omwana abone kugumizamu okushoma n'ebigyezo.
+
+Waaba oine oburemeezi bw'esente, shanga eishomero tutebeekanise omuringo gw'okushashura.
+
+Esimu: {schoolPhone}
+
+${FOOTER.nyn}`,
+      },
+    },
+  },
+
+  clearance_granted: {
+    label: 'Clearance granted',
+    description: 'Exam clearance details',
+    variants: {
+      lg: {
+        subject: 'Clearance y\'ebigezo efunise - {studentName}',
+        body: `Ssebo/Nnyabo {guardianName},
+
+Amawulire amalungi! {studentName} akkiriziddwa okukola ebigezo.
+
+EBIKWATA KU CLEARANCE:
+- Omuyizi: {studentName}
+- Namba y'omuyizi: {studentId}
+- Kiraasi: {className}
+- Namba ya clearance: {clearanceId}
+- Ekola okutuusa: {validUntil}
+
+Webale okusasula ebisale mu budde. Tukwagaliza {studentName} obuwanguzi mu bigezo.
+
+${FOOTER.lg}`,
+      },
+      sw: {
+        subject: 'Kibali cha Mitihani Kimetolewa - {studentName}',
+        body: `Mpendwa {guardianName},
+
+Habari njema! {studentName} ameruhusiwa kufanya mitihani.
+
+MAELEZO YA KIBALI:
+- Mwanafunzi: {studentName}
+- Nambari ya mwanafunzi: {studentId}
+- Darasa: {className}
+- Nambari ya kibali: {clearanceId}
+- Halali hadi: {validUntil}
+
+Asante kwa kulipa ada kwa wakati. Tunamtakia {studentName} kila la heri katika mitihani.
+
+${FOOTER.sw}`,
+      },
+      nyn: {
+        subject: 'Clearance y\'ebigyezo yaheebwa - {studentName}',
+        body: `{guardianName},
+
+Amakuru marungi! {studentName} yaikirizibwa kukora ebigyezo.
+
+EBIRI AHA CLEARANCE:
+- Omwegi: {studentName}
+- Namba y'omwegi: {studentId}
+- Kiraasi: {className}
+- Namba ya clearance: {clearanceId}
+- Nekora kuhikya: {validUntil}
+
+Webale kushashura empiiha omu bunaku. Nitwendeza {studentName} kusingura omu bigyezo.
+
+${FOOTER.nyn}`,
+      },
+    },
+  },
+
+  fee_structure: {
+    label: 'Fee structure',
+    description: 'Fees for the term',
+    variants: {},
+  },
+
+  term_report: {
+    label: 'Term report',
+    description: 'End of term fee summary',
+    variants: {},
+  },
+
+  welcome: {
+    label: 'Welcome',
+    description: 'Sent when a guardian is first added',
+    variants: {},
+  },
+
+  password_reset: {
+    label: 'Password reset',
+    description: 'Staff sign-in; English only',
+    variants: {},
+  },
+
+  account_verification: {
+    label: 'Account verification',
+    description: 'Staff sign-in; English only',
+    variants: {},
+  },
+
+  bulk_reminder: {
+    label: 'Bulk reminder',
+    description: 'Reminder sent to many guardians at once',
+    variants: {},
+  },
+
+  custom: {
+    label: 'Custom email',
+    description: 'Text written for one email',
+    variants: {},
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * Template Rendering
+ * Picks the wording for a guardian's language, falling back towards
+ * English, fills in placeholders, and checks and measures what a bursar
+ * types into the template editor
+ */
+
+import type { MessageLanguage } from '../../types/message-template';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+// Characters in the GSM 7-bit alphabet; anything else sends the SMS as unicode
+const GSM_CHARS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+// Characters that take two of the 160 because they are sent with an escape
+const GSM_EXTENDED_CHARS = new Set('^{}\\[~]|€');
+
+// Filled in for the editor's preview
+export const SAMPLE_TEMPLATE_DATA: Record<string, string | number> = {
+  guardianName: 'Mrs. Nakato',
+  studentName: 'Amina Nakato',
+  studentId: 'STU-0142',
+  className: 'P.5 Blue',
+  amount: 'UGX 450,000',
+  balance: 'UGX 250,000',
+  totalFees: '1,200,000',
+  amountPaid: '950,000',
+  paymentStatus: 'Partially paid',
+  receiptNumber: 'RCP-2026-00418',
+  paymentDate: '14 Oct 2026',
+  paymentChannel: 'MTN Mobile Money',
+  dueDate: '31 Oct 2026',
+  deadline: '31 Oct 2026',
+  days: 3,
+  daysOverdue: 7,
+  installmentName: 'Second installment',
+  promiseAmount: '200,000',
+  promiseDate: '25 Oct 2026',
+  chequeNumber: '004512',
+  reason: 'Insufficient funds',
+  bankCharge: 'UGX 20,000',
+  clearanceId: 'CLR-0093',
+  validUntil: '15 Dec 2026',
+  term: 'Term 3 2026',
+  schoolName: 'St. Mary\'s Primary School',
+  schoolPhone: '+256 700 123456',
+  message: 'School closes on Friday at noon.',
+};
+
+/**
+ * Languages to try in order: those given, most preferred first, then English
+ */
+export function getLanguageChain(...languages: Array<MessageLanguage | undefined>): MessageLanguage[] {
+  const chain: MessageLanguage[] = [];
+  for (const language of [...languages, 'en' as const]) {
+    if (language && !chain.includes(language)) chain.push(language);
+  }
+  return chain;
+}
+
+/**
+ * The first variant the chain has, with the language it is in
+ */
+export function pickVariant<T>(
+  variants: Partial<Record<MessageLanguage, T>>,
+  chain: MessageLanguage[]
+): { value: T; language: MessageLanguage } | null {
+  for (const language of chain) {
+    const value = variants[language];
+    if (value !== undefined) return { value, language };
+  }
+  return null;
+}
+
+/**
+ * Fills in {placeholders}; those without data are left as they are
+ */
+export function fillPlaceholders(text: string, data: Record<string, string | number | boolean | undefined>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    data[key] === undefined ? match : String(data[key])
+  );
+}
+
+/**
+ * Placeholder names in the text, in order of first use
+ */
+export function getPlaceholders(text: string): string[] {
+  const names: string[] = [];
+  for (const [, name] of Array.from(text.matchAll(PLACEHOLDER_PATTERN))) {
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Compares the placeholders in edited text with those the built-in wording
+ * uses. Unknown ones would reach the guardian as typed; missing ones are
+ * only worth a warning.
+ */
+export function checkPlaceholders(text: string, expected: string[]): { unknown: string[]; missing: string[] } {
+  const used = getPlaceholders(text);
+  return {
+    unknown: used.filter(name => !expected.includes(name)),
+    missing: expected.filter(name => !used.includes(name)),
+  };
+}
+
+/**
+ * Length of an SMS and the number of messages it is sent as
+ */
+export function measureSms(text: string): { characters: number; segments: number; unicode: boolean } {
+  const chars = Array.from(text);
+  const unicode = chars.some(char => !GSM_CHARS.has(char) && !GSM_EXTENDED_CHARS.has(char));
+  const characters = unicode
+    ? chars.length
+    : chars.reduce((total, char) => total + (GSM_EXTENDED_CHARS.has(char) ? 2 : 1), 0);
+
+  const [single, multi] = unicode ? [70, 67] : [160, 153];
+  const segments = characters === 0 ? 0 : characters <= single ? 1 : Math.ceil(characters / multi);
+  return { characters, segments, unicode };
+}
+
+/**
+ * Simple HTML for a plain-text email: escaped, with blank lines as paragraphs
+ */
+export function textToHtml(text: string): string {
+  const escaped = text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+  const paragraphs = escaped
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${paragraph.trim().replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+  return `<div style="font-family: Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #333;">\n${paragraphs}\n</div>`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Text PDF
+ * Writes a one-page PDF of plain text lines in Helvetica, without a PDF
+ * library, for documents such as the receipt sent on WhatsApp. Text is kept
+ * to printable ASCII so every character is one byte and the cross-reference
+ * offsets hold.
+ */
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const DEFAULT_SIZE = 11;
+
+export interface PdfLine {
+  text: string;
+  size?: number; // Points; 11 if not given
+  bold?: boolean;
+  gap?: number; // Extra space above the line, in points
+}
+
+/**
+ * Escapes text for a PDF string. Non-breaking spaces become spaces and
+ * other characters outside printable ASCII become '?'.
+ */
+export function escapePdfText(text: string): string {
+  return text
+    .replace(/\u00a0/g, ' ')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * The PDF file as a string, lines running down the page from the top
+ * margin. Lines past the bottom of the page are left off.
+ */
+export function renderTextPdf(lines: PdfLine[]): string {
+  let y = PAGE_HEIGHT - MARGIN;
+  const drawn: string[] = [];
+  for (const line of lines) {
+    const size = line.size || DEFAULT_SIZE;
+    y -= (line.gap || 0) + size * 1.4;
+    if (y < MARGIN) break;
+    drawn.push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${Math.round(y)} Td (${escapePdfText(line.text)}) Tj ET`);
+  }
+  const content = drawn.join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
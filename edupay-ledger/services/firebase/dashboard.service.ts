@@ -18,11 +18,10 @@ import {
   getCountFromServer,
   sum,
   getAggregateFromServer,
-  Timestamp,
   QueryConstraint,
 } from 'firebase/firestore';
-import type { Payment } from '@/types/payment';
-import type { Student } from '@/types/student';
+import type { DBPayment } from '@/lib/db';
+import { readPayments, schoolCollectionPath } from '@/lib/db/shared-records';
 
 // ============================================================================
 // TYPES
@@ -77,8 +76,8 @@ export async function getDashboardStats(
   schoolId: string,
   termId?: string
 ): Promise<DashboardStats> {
-  const paymentsRef = collection(db, COLLECTIONS.PAYMENTS);
-  const studentsRef = collection(db, COLLECTIONS.STUDENTS);
+  const paymentsRef = collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS);
+  const studentsRef = collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS);
   
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -91,7 +90,6 @@ export async function getDashboardStats(
 
   // Base payment constraints
   const paymentBaseConstraints: QueryConstraint[] = [
-    where('schoolId', '==', schoolId),
     where('status', '==', 'completed'),
   ];
   
@@ -109,7 +107,7 @@ export async function getDashboardStats(
   const todayQuery = query(
     paymentsRef,
     ...paymentBaseConstraints,
-    where('createdAt', '>=', Timestamp.fromDate(today))
+    where('createdAt', '>=', today.toISOString())
   );
   const todaySnapshot = await getAggregateFromServer(todayQuery, {
     total: sum('amount'),
@@ -119,7 +117,7 @@ export async function getDashboardStats(
   const weekQuery = query(
     paymentsRef,
     ...paymentBaseConstraints,
-    where('createdAt', '>=', Timestamp.fromDate(weekAgo))
+    where('createdAt', '>=', weekAgo.toISOString())
   );
   const weekSnapshot = await getAggregateFromServer(weekQuery, {
     total: sum('amount'),
@@ -129,7 +127,7 @@ export async function getDashboardStats(
   const monthQuery = query(
     paymentsRef,
     ...paymentBaseConstraints,
-    where('createdAt', '>=', Timestamp.fromDate(monthAgo))
+    where('createdAt', '>=', monthAgo.toISOString())
   );
   const monthSnapshot = await getAggregateFromServer(monthQuery, {
     total: sum('amount'),
@@ -142,28 +140,26 @@ export async function getDashboardStats(
   // Pending transactions
   const pendingQuery = query(
     paymentsRef,
-    where('schoolId', '==', schoolId),
     where('status', '==', 'pending')
   );
   const pendingSnapshot = await getCountFromServer(pendingQuery);
 
   // Student stats
+  // Tombstones of deleted students carry no status
   const totalStudentsQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId)
+    where('status', 'in', ['active', 'inactive', 'graduated', 'transferred'])
   );
   const totalStudentsSnapshot = await getCountFromServer(totalStudentsQuery);
 
   const activeStudentsQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
     where('status', '==', 'active')
   );
   const activeStudentsSnapshot = await getCountFromServer(activeStudentsQuery);
 
   const arrearsQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
     where('balance', '>', 0)
   );
   const arrearsCountSnapshot = await getCountFromServer(arrearsQuery);
@@ -206,15 +202,14 @@ export async function getWeeklyTrend(
   weekAgo.setDate(weekAgo.getDate() - 7);
   weekAgo.setHours(0, 0, 0, 0);
 
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'cleared'),
-      where('recordedAt', '>=', Timestamp.fromDate(weekAgo)),
-      orderBy('recordedAt', 'asc'),
+      where('status', '==', 'completed'),
+      where('paymentDate', '>=', weekAgo.toISOString()),
+      orderBy('paymentDate', 'asc'),
     ]
-  );
+  ), schoolId);
 
   // Initialize all days with 0
   const dailyTotals: Record<string, number> = {};
@@ -255,15 +250,14 @@ export async function getMonthlyTrend(
   startDate.setDate(1);
   startDate.setHours(0, 0, 0, 0);
 
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'cleared'),
-      where('recordedAt', '>=', Timestamp.fromDate(startDate)),
-      orderBy('recordedAt', 'asc'),
+      where('status', '==', 'completed'),
+      where('paymentDate', '>=', startDate.toISOString()),
+      orderBy('paymentDate', 'asc'),
     ]
-  );
+  ), schoolId);
 
   // Initialize months with 0
   const monthlyTotals: Record<string, number> = {};
@@ -297,14 +291,13 @@ export async function getPaymentChannelDistribution(
   termId?: string
 ): Promise<{ channel: string; amount: number; count: number }[]> {
   const constraints: QueryConstraint[] = [
-    where('schoolId', '==', schoolId),
-    where('status', '==', 'cleared'),
+    where('status', '==', 'completed'),
   ];
 
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     constraints
-  );
+  ), schoolId);
 
   const channelTotals: Record<string, { amount: number; count: number }> = {};
 
@@ -343,14 +336,13 @@ export async function getRecentActivity(
   limit_count: number = 20
 ): Promise<RecentActivity[]> {
   // Get recent payments
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      orderBy('recordedAt', 'desc'),
+      orderBy('paymentDate', 'desc'),
       limit(limit_count),
     ]
-  );
+  ), schoolId);
 
   const activities: RecentActivity[] = payments.map((payment) => ({
     id: payment.id,
@@ -377,15 +369,14 @@ export function subscribeToRecentActivity(
   onData: (activities: RecentActivity[]) => void,
   onError?: (error: Error) => void
 ): () => void {
-  return subscribeToCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  return subscribeToCollection<DBPayment>(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      orderBy('recordedAt', 'desc'),
+      orderBy('paymentDate', 'desc'),
       limit(20),
     ],
-    (payments) => {
-      const activities: RecentActivity[] = payments.map((payment) => ({
+    (records) => {
+      const activities: RecentActivity[] = readPayments(records, schoolId).map((payment) => ({
         id: payment.id,
         type: payment.status === 'reversed' ? 'refund' : 'payment',
         title: payment.status === 'reversed'
@@ -439,15 +430,14 @@ export async function getQuickStats(schoolId: string): Promise<{
   const monthStart = new Date(today);
   monthStart.setDate(1);
 
-  const paymentsRef = collection(db, COLLECTIONS.PAYMENTS);
-  const studentsRef = collection(db, COLLECTIONS.STUDENTS);
+  const paymentsRef = collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS);
+  const studentsRef = collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS);
 
   // Today's collections
   const todayQuery = query(
     paymentsRef,
-    where('schoolId', '==', schoolId),
     where('status', '==', 'completed'),
-    where('createdAt', '>=', Timestamp.fromDate(today))
+    where('createdAt', '>=', today.toISOString())
   );
   const todaySnapshot = await getAggregateFromServer(todayQuery, {
     total: sum('amount'),
@@ -456,10 +446,9 @@ export async function getQuickStats(schoolId: string): Promise<{
   // Yesterday's collections
   const yesterdayQuery = query(
     paymentsRef,
-    where('schoolId', '==', schoolId),
     where('status', '==', 'completed'),
-    where('createdAt', '>=', Timestamp.fromDate(yesterday)),
-    where('createdAt', '<', Timestamp.fromDate(today))
+    where('createdAt', '>=', yesterday.toISOString()),
+    where('createdAt', '<', today.toISOString())
   );
   const yesterdaySnapshot = await getAggregateFromServer(yesterdayQuery, {
     total: sum('amount'),
@@ -468,7 +457,6 @@ export async function getQuickStats(schoolId: string): Promise<{
   // Total students
   const totalStudentsQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
     where('status', '==', 'active')
   );
   const totalStudentsSnapshot = await getCountFromServer(totalStudentsQuery);
@@ -476,15 +464,13 @@ export async function getQuickStats(schoolId: string): Promise<{
   // New students this week
   const newStudentsQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
-    where('createdAt', '>=', Timestamp.fromDate(weekAgo))
+    where('createdAt', '>=', weekAgo.toISOString())
   );
   const newStudentsSnapshot = await getCountFromServer(newStudentsQuery);
 
   // Students with arrears
   const arrearsQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
     where('balance', '>', 0)
   );
   const arrearsCountSnapshot = await getCountFromServer(arrearsQuery);
@@ -495,7 +481,6 @@ export async function getQuickStats(schoolId: string): Promise<{
   // Critical arrears (> 500,000 UGX)
   const criticalQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
     where('balance', '>', 500000)
   );
   const criticalSnapshot = await getCountFromServer(criticalQuery);
@@ -546,12 +531,11 @@ export async function getDashboardAlerts(
   schoolId: string
 ): Promise<DashboardAlert[]> {
   const alerts: DashboardAlert[] = [];
-  const studentsRef = collection(db, COLLECTIONS.STUDENTS);
+  const studentsRef = collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS);
 
   // Check for critical arrears
   const criticalQuery = query(
     studentsRef,
-    where('schoolId', '==', schoolId),
     where('balance', '>', 500000)
   );
   const criticalSnapshot = await getCountFromServer(criticalQuery);
@@ -570,8 +554,7 @@ export async function getDashboardAlerts(
 
   // Check for pending payments
   const pendingQuery = query(
-    collection(db, COLLECTIONS.PAYMENTS),
-    where('schoolId', '==', schoolId),
+    collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS),
     where('status', '==', 'pending')
   );
   const pendingSnapshot = await getCountFromServer(pendingQuery);
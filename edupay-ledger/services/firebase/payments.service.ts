@@ -8,10 +8,7 @@ import {
   fetchDocument,
   fetchCollection,
   saveDocument,
-  updateDocument,
   subscribeToCollection,
-  batchWrite,
-  logAuditAction,
   COLLECTIONS,
   Timestamp,
 } from '@/lib/firebase';
@@ -30,7 +27,9 @@ import {
   QueryConstraint,
 } from 'firebase/firestore';
 import type { Payment, PaymentChannel, PaymentRecordStatus } from '@/types/payment';
-import { updateStudentBalance } from './students.service';
+import type { DBPayment } from '@/lib/db';
+import { paymentJournal } from '@/lib/db/journal';
+import { readPayments, schoolCollectionPath, sharedStatusesFor } from '@/lib/db/shared-records';
 
 // ============================================================================
 // TYPES
@@ -57,22 +56,6 @@ export interface PaymentStats {
   thisMonthCollections: number;
 }
 
-export interface RecordPaymentInput {
-  studentId: string;
-  studentName: string;
-  studentClass: string;
-  studentStream?: string;
-  schoolId: string;
-  amount: number;
-  channel: PaymentChannel;
-  transactionRef: string;
-  installmentId: string;
-  installmentName: string;
-  description?: string;
-  receiptNumber?: string;
-  notes?: string;
-}
-
 // ============================================================================
 // CRUD OPERATIONS
 // ============================================================================
@@ -80,8 +63,9 @@ export interface RecordPaymentInput {
 /**
  * Get a single payment by ID
  */
-export async function getPayment(paymentId: string): Promise<Payment | null> {
-  return fetchDocument<Payment>(COLLECTIONS.PAYMENTS, paymentId);
+export async function getPayment(schoolId: string, paymentId: string): Promise<Payment | null> {
+  const record = await fetchDocument<DBPayment>(schoolCollectionPath(schoolId, 'payments'), paymentId);
+  return readPayments(record ? [record] : [], schoolId)[0] ?? null;
 }
 
 /**
@@ -91,16 +75,14 @@ export async function getPayments(
   filters: PaymentFilters,
   pagination?: { pageSize?: number; lastDoc?: DocumentData }
 ): Promise<{ payments: Payment[]; lastDoc: DocumentData | null }> {
-  const constraints: QueryConstraint[] = [
-    where('schoolId', '==', filters.schoolId),
-  ];
+  const constraints: QueryConstraint[] = [];
 
   if (filters.studentId) {
     constraints.push(where('studentId', '==', filters.studentId));
   }
 
   if (filters.status) {
-    constraints.push(where('status', '==', filters.status));
+    constraints.push(where('status', 'in', sharedStatusesFor(filters.status)));
   }
 
   if (filters.channel) {
@@ -108,14 +90,14 @@ export async function getPayments(
   }
 
   if (filters.dateFrom) {
-    constraints.push(where('recordedAt', '>=', Timestamp.fromDate(filters.dateFrom)));
+    constraints.push(where('paymentDate', '>=', filters.dateFrom.toISOString()));
   }
 
   if (filters.dateTo) {
-    constraints.push(where('recordedAt', '<=', Timestamp.fromDate(filters.dateTo)));
+    constraints.push(where('paymentDate', '<=', filters.dateTo.toISOString()));
   }
 
-  constraints.push(orderBy('recordedAt', 'desc'));
+  constraints.push(orderBy('paymentDate', 'desc'));
 
   if (pagination?.pageSize) {
     constraints.push(limit(pagination.pageSize));
@@ -125,10 +107,10 @@ export async function getPayments(
     constraints.push(startAfter(pagination.lastDoc));
   }
 
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(filters.schoolId, 'payments'),
     constraints
-  );
+  ), filters.schoolId);
 
   return {
     payments,
@@ -137,129 +119,15 @@ export async function getPayments(
 }
 
 /**
- * Record a new payment
- */
-export async function recordPayment(
-  input: RecordPaymentInput,
-  userId: string
-): Promise<{ paymentId: string; receiptNumber: string }> {
-  const paymentId = `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const receiptNumber = input.receiptNumber || generateReceiptNumber();
-  
-  const payment: Partial<Payment> = {
-    id: paymentId,
-    studentId: input.studentId,
-    studentName: input.studentName,
-    studentClass: input.studentClass,
-    studentStream: input.studentStream,
-    schoolId: input.schoolId,
-    amount: input.amount,
-    currency: 'UGX',
-    channel: input.channel,
-    transactionRef: input.transactionRef,
-    installmentId: input.installmentId,
-    installmentName: input.installmentName,
-    status: 'pending',
-    receiptNumber,
-    stellarAnchored: false,
-    notes: input.notes,
-    recordedBy: userId,
-    recordedAt: Timestamp.now(),
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  };
-
-  await saveDocument(COLLECTIONS.PAYMENTS, paymentId, payment);
-  
-  // Update student balance
-  await updateStudentBalance(input.studentId, input.amount, 'credit', userId);
-
-  // Log audit
-  await logAuditAction(
-    'CREATE',
-    COLLECTIONS.PAYMENTS,
-    paymentId,
-    userId,
-    { 
-      studentId: input.studentId,
-      amount: input.amount,
-      channel: input.channel,
-      receiptNumber 
-    }
-  );
-
-  // Save receipt
-  await saveDocument(COLLECTIONS.RECEIPTS, receiptNumber, {
-    paymentId,
-    studentId: input.studentId,
-    studentName: input.studentName,
-    amount: input.amount,
-    channel: input.channel,
-    installmentName: input.installmentName,
-    issuedBy: userId,
-    issuedAt: Timestamp.now(),
-    schoolId: input.schoolId,
-  });
-
-  return { paymentId, receiptNumber };
-}
-
-/**
- * Verify/clear a payment
- */
-export async function verifyPayment(
-  paymentId: string,
-  userId: string
-): Promise<void> {
-  await updateDocument(COLLECTIONS.PAYMENTS, paymentId, {
-    status: 'cleared',
-    verifiedAt: Timestamp.now(),
-    verifiedBy: userId,
-    updatedAt: Timestamp.now(),
-  });
-
-  await logAuditAction(
-    'VERIFY',
-    COLLECTIONS.PAYMENTS,
-    paymentId,
-    userId,
-    { action: 'cleared' }
-  );
-}
-
-/**
- * Reverse a payment
+ * Reverse a payment through the journal, which also restores the student's
+ * balance and logs the reversal
  */
 export async function reversePayment(
   paymentId: string,
   reason: string,
   userId: string
 ): Promise<void> {
-  const payment = await getPayment(paymentId);
-  if (!payment) throw new Error('Payment not found');
-  if (payment.status === 'reversed') throw new Error('Payment already reversed');
-
-  await updateDocument(COLLECTIONS.PAYMENTS, paymentId, {
-    status: 'reversed',
-    reversedAt: Timestamp.now(),
-    reversedBy: userId,
-    reversalReason: reason,
-    updatedAt: Timestamp.now(),
-  });
-
-  // Restore student balance
-  await updateStudentBalance(payment.studentId, payment.amount, 'debit', userId);
-
-  await logAuditAction(
-    'REVERSE',
-    COLLECTIONS.PAYMENTS,
-    paymentId,
-    userId,
-    { 
-      originalAmount: payment.amount,
-      reason 
-    }
-  );
+  await paymentJournal.reversePayment(paymentId, reason, userId, userId);
 }
 
 // ============================================================================
@@ -273,11 +141,10 @@ export async function getPaymentStats(
   schoolId: string,
   termId?: string
 ): Promise<PaymentStats> {
-  const paymentsRef = collection(db, COLLECTIONS.PAYMENTS);
+  const paymentsRef = collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS);
   
   const baseConstraints = [
-    where('schoolId', '==', schoolId),
-    where('status', '==', 'cleared'),
+    where('status', '==', 'completed'),
   ];
 
   // Total collected
@@ -293,7 +160,6 @@ export async function getPaymentStats(
   // Pending payments
   const pendingQuery = query(
     paymentsRef,
-    where('schoolId', '==', schoolId),
     where('status', '==', 'pending')
   );
   const pendingSnapshot = await getAggregateFromServer(pendingQuery, {
@@ -306,7 +172,7 @@ export async function getPaymentStats(
   const todayQuery = query(
     paymentsRef,
     ...baseConstraints,
-    where('recordedAt', '>=', Timestamp.fromDate(today))
+    where('paymentDate', '>=', today.toISOString())
   );
   const todaySnapshot = await getAggregateFromServer(todayQuery, {
     todayTotal: sum('amount'),
@@ -319,7 +185,7 @@ export async function getPaymentStats(
   const monthQuery = query(
     paymentsRef,
     ...baseConstraints,
-    where('recordedAt', '>=', Timestamp.fromDate(startOfMonth))
+    where('paymentDate', '>=', startOfMonth.toISOString())
   );
   const monthSnapshot = await getAggregateFromServer(monthQuery, {
     monthTotal: sum('amount'),
@@ -352,12 +218,11 @@ export async function getCollectionsByChannel(
 
   for (const channel of channels) {
     const constraints = [
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'cleared'),
+      where('status', '==', 'completed'),
       where('channel', '==', channel),
     ];
 
-    const q = query(collection(db, COLLECTIONS.PAYMENTS), ...constraints);
+    const q = query(collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS), ...constraints);
     const snapshot = await getAggregateFromServer(q, {
       total: sum('amount'),
     });
@@ -376,16 +241,15 @@ export async function getDailyCollections(
   startDate: Date,
   endDate: Date
 ): Promise<{ date: string; amount: number }[]> {
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'cleared'),
-      where('recordedAt', '>=', Timestamp.fromDate(startDate)),
-      where('recordedAt', '<=', Timestamp.fromDate(endDate)),
-      orderBy('recordedAt', 'asc'),
+      where('status', '==', 'completed'),
+      where('paymentDate', '>=', startDate.toISOString()),
+      where('paymentDate', '<=', endDate.toISOString()),
+      orderBy('paymentDate', 'asc'),
     ]
-  );
+  ), schoolId);
 
   // Group by date
   const dailyTotals: Record<string, number> = {};
@@ -415,8 +279,7 @@ export function subscribeToPayments(
   filters?: { studentId?: string; termId?: string }
 ): () => void {
   const constraints: QueryConstraint[] = [
-    where('schoolId', '==', schoolId),
-    orderBy('recordedAt', 'desc'),
+    orderBy('paymentDate', 'desc'),
     limit(50),
   ];
 
@@ -424,10 +287,10 @@ export function subscribeToPayments(
     constraints.unshift(where('studentId', '==', filters.studentId));
   }
 
-  return subscribeToCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  return subscribeToCollection<DBPayment>(
+    schoolCollectionPath(schoolId, 'payments'),
     constraints,
-    onData,
+    records => onData(readPayments(records, schoolId)),
     onError
   );
 }
@@ -443,14 +306,13 @@ export function subscribeToTodayPayments(
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  return subscribeToCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  return subscribeToCollection<DBPayment>(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      where('recordedAt', '>=', Timestamp.fromDate(today)),
-      orderBy('recordedAt', 'desc'),
+      where('paymentDate', '>=', today.toISOString()),
+      orderBy('paymentDate', 'desc'),
     ],
-    onData,
+    records => onData(readPayments(records, schoolId)),
     onError
   );
 }
@@ -495,35 +357,30 @@ export async function resendReceiptSMS(
 // HELPERS
 // ============================================================================
 
-function generateReceiptNumber(): string {
-  const prefix = 'RCP';
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substr(2, 4).toUpperCase();
-  return `${prefix}-${timestamp}-${random}`;
-}
-
 /**
  * Get student's payment history
  */
 export async function getStudentPaymentHistory(
+  schoolId: string,
   studentId: string,
   limit_count: number = 50
 ): Promise<Payment[]> {
-  return fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  return readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
       where('studentId', '==', studentId),
-      where('status', '==', 'cleared'),
-      orderBy('recordedAt', 'desc'),
+      where('status', '==', 'completed'),
+      orderBy('paymentDate', 'desc'),
       limit(limit_count),
     ]
-  );
+  ), schoolId);
 }
 
 /**
  * Calculate outstanding fees for a student
  */
 export async function calculateOutstandingFees(
+  schoolId: string,
   studentId: string,
   termId: string
 ): Promise<{
@@ -531,13 +388,13 @@ export async function calculateOutstandingFees(
   totalPaid: number;
   balance: number;
 }> {
-  const payments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const payments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
       where('studentId', '==', studentId),
-      where('status', '==', 'cleared'),
+      where('status', '==', 'completed'),
     ]
-  );
+  ), schoolId);
 
   const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
 
@@ -28,6 +28,7 @@ import {
 } from 'firebase/firestore';
 import type { Payment, PaymentChannel } from '@/types/payment';
 import type { Student } from '@/types/student';
+import { readPayments, readStudents, schoolCollectionPath } from '@/lib/db/shared-records';
 
 // ============================================================================
 // TYPES
@@ -102,21 +103,23 @@ export async function generateCollectionReport(
   const { schoolId, termId, dateFrom, dateTo } = filters;
   
   const constraints: QueryConstraint[] = [
-    where('schoolId', '==', schoolId),
-    where('status', '==', 'cleared'),
+    where('status', '==', 'completed'),
   ];
 
   if (dateFrom) {
-    constraints.push(where('recordedAt', '>=', Timestamp.fromDate(dateFrom)));
+    constraints.push(where('paymentDate', '>=', dateFrom.toISOString()));
   }
 
   if (dateTo) {
-    constraints.push(where('recordedAt', '<=', Timestamp.fromDate(dateTo)));
+    constraints.push(where('paymentDate', '<=', dateTo.toISOString()));
   }
 
-  constraints.push(orderBy('recordedAt', 'asc'));
+  constraints.push(orderBy('paymentDate', 'asc'));
 
-  const payments = await fetchCollection<Payment>(COLLECTIONS.PAYMENTS, constraints);
+  const payments = readPayments(
+    await fetchCollection(schoolCollectionPath(schoolId, 'payments'), constraints),
+    schoolId
+  );
 
   // Calculate totals
   const totalCollected = payments.reduce((sum, p) => sum + p.amount, 0);
@@ -169,26 +172,26 @@ export async function getCollectionsByClass(
     [where('schoolId', '==', schoolId)]
   );
 
-  const results = [];
-
-  for (const classItem of classes) {
-    const constraints = [
-      where('schoolId', '==', schoolId),
-      where('studentClass', '==', classItem.name),
-      where('status', '==', 'cleared'),
-    ];
-
-    const q = query(collection(db, COLLECTIONS.PAYMENTS), ...constraints);
-    const snapshot = await getAggregateFromServer(q, {
-      total: sum('amount'),
-    });
-
-    results.push({
-      className: classItem.name,
-      collected: snapshot.data().total || 0,
-      expected: 0, // Would come from fee structures
-    });
-  }
+  // Payments don't carry the class, so they are grouped through their students
+  const [students, payments] = await Promise.all([
+    readStudents(await fetchCollection(schoolCollectionPath(schoolId, 'students')), schoolId),
+    readPayments(
+      await fetchCollection(schoolCollectionPath(schoolId, 'payments'), [where('status', '==', 'completed')]),
+      schoolId
+    ),
+  ]);
+  const classOf = new Map(students.map(student => [student.id, student.className]));
+  const collectedByClass: Record<string, number> = {};
+  payments.forEach((payment) => {
+    const className = classOf.get(payment.studentId);
+    if (className) collectedByClass[className] = (collectedByClass[className] || 0) + payment.amount;
+  });
+
+  const results = classes.map((classItem) => ({
+    className: classItem.name,
+    collected: collectedByClass[classItem.name] || 0,
+    expected: 0, // Would come from fee structures
+  }));
 
   return results;
 }
@@ -206,17 +209,19 @@ export async function generateArrearsReport(
   const { schoolId, classId } = filters;
 
   const constraints: QueryConstraint[] = [
-    where('schoolId', '==', schoolId),
     where('balance', '>', 0),
   ];
 
   if (classId) {
-    constraints.push(where('classId', '==', classId));
+    constraints.push(where('className', '==', classId));
   }
 
   constraints.push(orderBy('balance', 'desc'));
 
-  const students = await fetchCollection<Student>(COLLECTIONS.STUDENTS, constraints);
+  const students = readStudents(
+    await fetchCollection(schoolCollectionPath(schoolId, 'students'), constraints),
+    schoolId
+  );
 
   // Calculate total arrears
   const totalArrears = students.reduce((sum, s) => sum + (s.balance || 0), 0);
@@ -270,15 +275,14 @@ export async function getCriticalArrears(
   schoolId: string,
   threshold: number = 500000 // UGX
 ): Promise<Student[]> {
-  return fetchCollection<Student>(
-    COLLECTIONS.STUDENTS,
+  return readStudents(await fetchCollection(
+    schoolCollectionPath(schoolId, 'students'),
     [
-      where('schoolId', '==', schoolId),
       where('balance', '>=', threshold),
       orderBy('balance', 'desc'),
       limit(50),
     ]
-  );
+  ), schoolId);
 }
 
 // ============================================================================
@@ -293,7 +297,6 @@ export async function getAuditLogs(
   pagination?: { pageSize?: number; lastDoc?: DocumentData }
 ): Promise<{ logs: AuditLogEntry[]; lastDoc: DocumentData | null }> {
   const constraints: QueryConstraint[] = [
-    where('schoolId', '==', filters.schoolId),
   ];
 
   if (filters.userId) {
@@ -345,7 +348,6 @@ export function subscribeToAuditLogs(
   return subscribeToCollection<AuditLogEntry>(
     COLLECTIONS.AUDIT_LOGS,
     [
-      where('schoolId', '==', schoolId),
       orderBy('timestamp', 'desc'),
       limit(100),
     ],
@@ -370,7 +372,6 @@ export async function getAuditStats(
   const logs = await fetchCollection<AuditLogEntry>(
     COLLECTIONS.AUDIT_LOGS,
     [
-      where('schoolId', '==', schoolId),
       where('timestamp', '>=', Timestamp.fromDate(dateFrom)),
       where('timestamp', '<=', Timestamp.fromDate(dateTo)),
     ]
@@ -406,21 +407,23 @@ export async function exportCollectionData(
   format: 'json' | 'csv'
 ): Promise<string | object[]> {
   const constraints: QueryConstraint[] = [
-    where('schoolId', '==', filters.schoolId),
-    where('status', '==', 'cleared'),
+    where('status', '==', 'completed'),
   ];
   
   if (filters.dateFrom) {
-    constraints.push(where('recordedAt', '>=', Timestamp.fromDate(filters.dateFrom)));
+    constraints.push(where('paymentDate', '>=', filters.dateFrom.toISOString()));
   }
   
   if (filters.dateTo) {
-    constraints.push(where('recordedAt', '<=', Timestamp.fromDate(filters.dateTo)));
+    constraints.push(where('paymentDate', '<=', filters.dateTo.toISOString()));
   }
   
-  constraints.push(orderBy('recordedAt', 'desc'));
+  constraints.push(orderBy('paymentDate', 'desc'));
   
-  const payments = await fetchCollection<Payment>(COLLECTIONS.PAYMENTS, constraints);
+  const payments = readPayments(
+    await fetchCollection(schoolCollectionPath(filters.schoolId, 'payments'), constraints),
+    filters.schoolId
+  );
 
   if (format === 'json') {
     return payments;
@@ -461,14 +464,13 @@ export async function exportArrearsData(
   schoolId: string,
   format: 'json' | 'csv'
 ): Promise<string | object[]> {
-  const students = await fetchCollection<Student>(
-    COLLECTIONS.STUDENTS,
+  const students = readStudents(await fetchCollection(
+    schoolCollectionPath(schoolId, 'students'),
     [
-      where('schoolId', '==', schoolId),
       where('balance', '>', 0),
       orderBy('balance', 'desc'),
     ]
-  );
+  ), schoolId);
 
   if (format === 'json') {
     return students;
@@ -550,19 +552,17 @@ export async function getReportsSummary(schoolId: string, termId?: string): Prom
 }> {
   // Get collections
   const collectionConstraints = [
-    where('schoolId', '==', schoolId),
-    where('status', '==', 'cleared'),
+    where('status', '==', 'completed'),
   ];
   
-  const collectionsQuery = query(collection(db, COLLECTIONS.PAYMENTS), ...collectionConstraints);
+  const collectionsQuery = query(collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.PAYMENTS), ...collectionConstraints);
   const collectionsSnapshot = await getAggregateFromServer(collectionsQuery, {
     total: sum('amount'),
   });
 
   // Get arrears
   const arrearsQuery = query(
-    collection(db, COLLECTIONS.STUDENTS),
-    where('schoolId', '==', schoolId),
+    collection(db, COLLECTIONS.SCHOOLS, schoolId, COLLECTIONS.STUDENTS),
     where('balance', '>', 0)
   );
   const arrearsTotalSnapshot = await getAggregateFromServer(arrearsQuery, {
@@ -571,15 +571,14 @@ export async function getReportsSummary(schoolId: string, termId?: string): Prom
   const arrearsCountSnapshot = await getCountFromServer(arrearsQuery);
 
   // Recent payments
-  const recentPayments = await fetchCollection<Payment>(
-    COLLECTIONS.PAYMENTS,
+  const recentPayments = readPayments(await fetchCollection(
+    schoolCollectionPath(schoolId, 'payments'),
     [
-      where('schoolId', '==', schoolId),
-      where('status', '==', 'cleared'),
-      orderBy('recordedAt', 'desc'),
+      where('status', '==', 'completed'),
+      orderBy('paymentDate', 'desc'),
       limit(10),
     ]
-  );
+  ), schoolId);
 
   return {
     totalCollections: collectionsSnapshot.data().total || 0,
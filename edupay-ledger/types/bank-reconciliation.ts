@@ -3,6 +3,18 @@
  * Type definitions for matching bank statements with recorded payments
  */
 
+import type { PaymentChannel } from './payment';
+
+// Where an imported statement came from
+export type StatementSource = 'bank' | 'mtn_momo' | 'airtel_money';
+
+// Channel a payment received on each kind of statement is recorded under
+export const STATEMENT_SOURCE_CHANNELS: Record<StatementSource, PaymentChannel> = {
+  bank: 'bank_transfer',
+  mtn_momo: 'momo_mtn',
+  airtel_money: 'momo_airtel',
+};
+
 // Bank Transaction from import
 export interface BankTransaction {
   id: string;
@@ -14,6 +26,10 @@ export interface BankTransaction {
   type: 'credit' | 'debit';
   balance: number;
   rawData: Record<string, unknown>;
+  source?: StatementSource;
+  payerMsisdn?: string; // Mobile money payer, e.g. +256772123456
+  payerName?: string;
+  studentReference?: string; // Student ID quoted in the payer's message
 }
 
 // Reconciliation Status
@@ -25,7 +41,13 @@ export type ReconciliationStatus =
   | 'ignored'          // Marked as ignored (non-fee transaction)
   | 'disputed';        // Flagged for review
 
-// Matched Payment Record
+// How many credits and payments a match ties together
+export type MatchKind =
+  | 'single'       // One credit, one payment
+  | 'split'        // One credit covering several payments, e.g. siblings
+  | 'aggregate';   // Several credits making up one payment
+
+// Matched Payment Record, one per credit and payment pair
 export interface ReconciliationMatch {
   id: string;
   bankTransactionId: string;
@@ -36,6 +58,18 @@ export interface ReconciliationMatch {
   matchedAt: Date;
   matchedBy?: string;
   notes?: string;
+  kind?: MatchKind;
+  groupId?: string; // Shared by the records of one split or aggregate match
+  allocatedAmount?: number; // Part of the credit applied to this payment
+}
+
+// Students a payer has been matched to by hand, keyed by phone or narration
+export interface PayerMapping {
+  key: string;
+  studentIds: string[];
+  studentNames: string[];
+  matchCount: number;
+  lastMatchedAt: Date;
 }
 
 // Reconciliation Session
@@ -47,6 +81,7 @@ export interface ReconciliationSession {
   statementPeriodStart: Date;
   statementPeriodEnd: Date;
   fileName: string;
+  source?: StatementSource;
   importedAt: Date;
   importedBy: string;
   status: 'processing' | 'in_progress' | 'completed' | 'failed';
@@ -56,9 +91,12 @@ export interface ReconciliationSession {
   matchedCount: number;
   unmatchedCount: number;
   ignoredCount: number;
+  openingBalance?: number;
+  closingBalance?: number;
   completedAt?: Date;
   completedBy?: string;
   notes?: string;
+  statement?: ReconciliationStatement;
 }
 
 // Bank Transaction with Reconciliation Info
@@ -79,6 +117,9 @@ export interface PossibleMatch {
   receiptNumber: string;
   confidence: number;
   matchReasons: string[];
+  kind?: MatchKind; // Split and aggregate suggestions list every part below
+  paymentIds?: string[];
+  bankTransactionIds?: string[];
 }
 
 // Reconciliation Summary
@@ -106,6 +147,43 @@ export interface ReconciliationSummary {
   }[];
 }
 
+// A line listed under one of the reconciling items on the close-out statement
+export interface ReconciliationStatementItem {
+  id: string;
+  date: Date;
+  reference: string;
+  description: string;
+  amount: number;
+}
+
+// Bank reconciliation statement produced when a session is closed out
+export interface ReconciliationStatement {
+  sessionId: string;
+  bankAccountName: string;
+  bankAccountNumber: string;
+  source: StatementSource;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  systemReceiptsTotal: number;
+  systemReceiptsCount: number;
+  unpresentedItems: ReconciliationStatementItem[];   // Receipts recorded but not on the statement
+  unpresentedTotal: number;
+  unmatchedCredits: ReconciliationStatementItem[];   // Statement credits with no receipt
+  unmatchedCreditsTotal: number;
+  otherCredits: ReconciliationStatementItem[];       // Ignored credits, e.g. interest
+  otherCreditsTotal: number;
+  debits: ReconciliationStatementItem[];
+  debitsTotal: number;
+  reconciledBalance: number;
+  statementClosingBalance: number;
+  difference: number;
+  preparedBy: string;
+  preparedByName: string;
+  preparedAt: Date;
+  notes?: string;
+}
+
 // Import Configuration
 export interface BankImportConfig {
   bankName: string;
@@ -119,6 +197,16 @@ export interface BankImportConfig {
   headerRow: number;
   creditIndicator?: string;
   debitIndicator?: string;
+  // Banks that print money in and money out in separate columns
+  creditColumn?: string;
+  debitColumn?: string;
+}
+
+// A column mapping a school built for a bank without a default configuration
+export interface SavedBankImportConfig extends BankImportConfig {
+  id: string;
+  createdBy: string;
+  createdAt: Date;
 }
 
 // Default Bank Configurations for Uganda
@@ -185,6 +273,72 @@ export const UGANDA_BANK_CONFIGS: { [key: string]: BankImportConfig } = {
   },
 };
 
+// Mobile Money Merchant Statement Configuration
+export interface MobileMoneyImportConfig {
+  provider: 'mtn_momo' | 'airtel_money';
+  providerName: string;
+  dateFormat: string;
+  dateColumn: string;
+  transactionIdColumn: string;
+  msisdnColumn: string; // Payer phone number
+  payerNameColumn?: string;
+  amountColumn: string;
+  messageColumn: string; // Reference the payer typed, often the student ID
+  typeColumn?: string;
+  creditIndicator?: string;
+  debitIndicator?: string;
+  statusColumn?: string;
+  successStatus?: string; // Rows with any other status never reached the account
+  balanceColumn?: string;
+  headerRow: number;
+}
+
+// Merchant statement exports from the MoMo and Airtel Money portals
+export const UGANDA_MOBILE_MONEY_CONFIGS: { [key: string]: MobileMoneyImportConfig } = {
+  mtnMomo: {
+    provider: 'mtn_momo',
+    providerName: 'MTN MoMo Merchant',
+    dateFormat: 'YYYY-MM-DD HH:mm:ss',
+    dateColumn: 'Date',
+    transactionIdColumn: 'Id',
+    msisdnColumn: 'From',
+    payerNameColumn: 'From Name',
+    amountColumn: 'Amount',
+    messageColumn: 'Note/Message',
+    statusColumn: 'Status',
+    successStatus: 'Successful',
+    balanceColumn: 'Balance',
+    headerRow: 1,
+  },
+  airtelMoney: {
+    provider: 'airtel_money',
+    providerName: 'Airtel Money Merchant',
+    dateFormat: 'DD-MM-YYYY HH:mm',
+    dateColumn: 'Transaction Date',
+    transactionIdColumn: 'Transaction ID',
+    msisdnColumn: 'Sender MSISDN',
+    payerNameColumn: 'Sender Name',
+    amountColumn: 'Transaction Amount',
+    messageColumn: 'Reference',
+    typeColumn: 'Dr/Cr',
+    creditIndicator: 'CR',
+    debitIndicator: 'DR',
+    statusColumn: 'Transaction Status',
+    successStatus: 'Success',
+    balanceColumn: 'Post Balance',
+    headerRow: 1,
+  },
+};
+
+// A statement layout the import wizard can recognise and parse
+export interface StatementImporter {
+  key: string;
+  label: string;
+  source: StatementSource;
+  requiredColumns: string[]; // Columns that identify the layout
+  parse: (rows: Record<string, unknown>[]) => BankTransaction[];
+}
+
 // Reconciliation Action
 export type ReconciliationAction = 
   | { type: 'match'; transactionId: string; paymentId: string; notes?: string }
@@ -199,7 +353,14 @@ export type ReconciliationAction =
 
 export function calculateMatchConfidence(
   bankTx: BankTransaction,
-  payment: { amount: number; date: Date; reference?: string; studentName?: string }
+  payment: {
+    amount: number;
+    date: Date;
+    reference?: string;
+    studentName?: string;
+    studentNumber?: string; // The student's ID, e.g. EDU-2023-045-KC
+    guardianPhones?: string[]; // In the same format as payerMsisdn
+  }
 ): number {
   let confidence = 0;
 
@@ -235,6 +396,14 @@ export function calculateMatchConfidence(
     else if (matchingParts === 1) confidence += 5;
   }
 
+  // Mobile money: the payer's phone and the student ID in their message
+  if (bankTx.payerMsisdn && payment.guardianPhones?.includes(bankTx.payerMsisdn)) {
+    confidence += 20;
+  }
+  if (bankTx.studentReference && bankTx.studentReference === payment.studentNumber?.toUpperCase()) {
+    confidence += 25;
+  }
+
   return Math.min(confidence, 100);
 }
 
@@ -0,0 +1,69 @@
+/**
+ * Cheque Types
+ * A cheque taken as a fee payment, from the day it is received until the
+ * bank clears or returns it
+ */
+
+/**
+ * Where a cheque stands
+ */
+export type ChequeStatus =
+  | 'received'   // At the bursar's office, not yet banked
+  | 'deposited'  // Banked, waiting for the drawer's bank to pay
+  | 'cleared'    // Paid, the money is in the school's account
+  | 'bounced';   // Returned unpaid, the payment has been reversed
+
+/**
+ * The cheque details entered when the payment is recorded
+ */
+export interface ChequeInput {
+  chequeNumber: string;
+  bankName: string; // Drawer's bank
+  drawerName?: string; // Account holder, when not the guardian
+  chequeDate?: string; // Date written on the cheque; post-dated cheques are banked on or after it
+  clearedAt?: string; // Set when the cheque is already on a bank statement
+}
+
+/**
+ * A cheque and how far it has got, kept on its payment
+ */
+export interface ChequeDetails extends ChequeInput {
+  status: ChequeStatus;
+  receivedAt: string;
+  depositedAt?: string;
+  expectedClearanceDate?: string; // Working days after deposit
+  bouncedAt?: string;
+  bounceReason?: string; // e.g. "Refer to drawer", "Insufficient funds"
+  bounceCharge?: number; // Bank's returned cheque fee, charged to the student
+  updatedBy?: string;
+}
+
+export interface ChequeBounceInput {
+  reason: string;
+  bankCharge: number;
+  bouncedAt?: Date;
+  notifyGuardian?: boolean;
+}
+
+// Ugandan clearing takes about three working days
+export const CHEQUE_CLEARANCE_WORKING_DAYS = 3;
+
+// A cheque still not cleared this many days after it was received goes on the pending tasks list
+export const CHEQUE_OVERDUE_DAYS = 7;
+
+export const CHEQUE_STATUS_LABELS: Record<ChequeStatus, string> = {
+  received: 'Received',
+  deposited: 'Deposited',
+  cleared: 'Cleared',
+  bounced: 'Bounced',
+};
+
+export const CHEQUE_BOUNCE_REASONS = [
+  'Insufficient funds',
+  'Refer to drawer',
+  'Signature differs',
+  'Stale cheque',
+  'Post-dated cheque',
+  'Payment stopped by drawer',
+  'Account closed',
+];
@@ -0,0 +1,67 @@
+/**
+ * Mobile Money Collection Types
+ * Request-to-pay prompts sent to a parent's phone and their outcome
+ */
+
+import type { PaymentChannel } from './payment';
+
+/**
+ * Mobile money network the prompt is sent through
+ */
+export type CollectionProvider = 'mtn' | 'airtel';
+
+/**
+ * Where a request-to-pay stands
+ */
+export type CollectionStatus =
+  | 'pending'     // Prompt sent, parent has not approved it yet
+  | 'successful'  // Parent approved, money collected
+  | 'failed'      // Rejected, insufficient funds or unknown number
+  | 'timeout';    // Parent never answered the prompt
+
+/**
+ * A request-to-pay and, once it succeeds, the payment recorded for it
+ */
+export interface CollectionRequest {
+  id: string; // Our reference, sent as the provider's reference ID
+  schoolId: string;
+  studentId: string;
+  studentName?: string;
+  amount: number;
+  currency: 'UGX';
+  phoneNumber: string; // +256...
+  provider: CollectionProvider;
+  reference: string; // Shown to the parent on the prompt
+  status: CollectionStatus;
+  reason?: string; // Provider's reason for a failure or timeout
+  financialTransactionId?: string; // Provider's transaction ID once collected
+  pollCount: number;
+  lastPolledAt?: string;
+  requestedBy: string;
+  requestedAt: string;
+  expiresAt: string; // Treated as timed out if still pending after this
+  completedAt?: string;
+  paymentId?: string;
+  receiptNumber?: string;
+  paymentError?: string; // Collected but not yet recorded as a payment
+  settledBy?: string; // School device that claimed the request to record its payment
+}
+
+/**
+ * A provider's answer to a status poll or callback, in our terms
+ */
+export interface CollectionStatusUpdate {
+  status: CollectionStatus;
+  reason?: string;
+  financialTransactionId?: string;
+}
+
+export const COLLECTION_CHANNELS: Record<CollectionProvider, PaymentChannel> = {
+  mtn: 'momo_mtn',
+  airtel: 'momo_airtel',
+};
+
+export const COLLECTION_PROVIDER_NAMES: Record<CollectionProvider, string> = {
+  mtn: 'MTN Mobile Money',
+  airtel: 'Airtel Money',
+};
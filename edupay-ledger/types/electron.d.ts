@@ -3,6 +3,48 @@
  * Type definitions for the Electron API bridge
  */
 
+import type { BackupSummary } from '@/lib/db/backup-format';
+import type { ReminderSettings, ReminderSettingsChanges } from '@/types/reminder';
+
+export interface BackupSettings {
+  enabled: boolean;
+  folder: string | null;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  retentionDays: number;
+  encryptionEnabled: boolean;
+  hasPassphrase: boolean;
+  lastBackupAt?: string;
+  lastError?: string;
+}
+
+// An empty passphrase removes the stored one
+export type BackupSettingsChanges = Partial<Omit<BackupSettings, 'hasPassphrase' | 'lastBackupAt' | 'lastError'>> & {
+  passphrase?: string;
+};
+
+export interface BackupFileInfo {
+  fileName: string;
+  filePath: string;
+  sizeBytes: number;
+  encrypted: boolean;
+  summary: BackupSummary;
+  pruned?: string[]; // Older files removed by retention after this backup was written
+}
+
+export interface BackupReadResult {
+  summary: BackupSummary;
+  snapshot: string; // Decrypted JSON, checksum already verified
+}
+
+// Sent back to the main process when a reminder run finishes
+export interface ReminderRunReport {
+  runId: string;
+  finishedAt: string;
+  queued: number;
+  capped: number;
+  error?: string;
+}
+
 export interface ElectronAPI {
   // App info
   getAppInfo: () => Promise<{
@@ -45,6 +87,21 @@ export interface ElectronAPI {
   onUpdateAvailable: (callback: () => void) => void;
   onUpdateDownloaded: (callback: () => void) => void;
   
+  // Local backups
+  getBackupSettings: () => Promise<BackupSettings>;
+  updateBackupSettings: (changes: BackupSettingsChanges) => Promise<BackupSettings>;
+  chooseBackupFolder: () => Promise<string | null>;
+  writeBackup: (snapshot: string, summary: BackupSummary) => Promise<BackupFileInfo>;
+  listBackups: () => Promise<BackupFileInfo[]>;
+  readBackup: (filePath: string, passphrase?: string) => Promise<BackupReadResult>;
+  onBackupDue: (callback: () => void) => void;
+  
+  // Scheduled reminders
+  getReminderSettings: () => Promise<ReminderSettings>;
+  updateReminderSettings: (changes: ReminderSettingsChanges) => Promise<ReminderSettings>;
+  reportReminderRun: (report: ReminderRunReport) => Promise<void>;
+  onRemindersDue: (callback: (settings: ReminderSettings) => void) => void;
+  
   // Remove listeners
   removeAllListeners: (channel: string) => void;
 }
@@ -0,0 +1,78 @@
+/**
+ * Message Template Types
+ * SMS and email wording in each language guardians read, and the school's
+ * own edits to it
+ */
+
+import type { SMSMessageType } from '../lib/services/sms.service';
+import type { EmailTemplateType } from '../lib/services/email.service';
+
+export type MessageLanguage =
+  | 'en'   // English
+  | 'lg'   // Luganda
+  | 'sw'   // Swahili
+  | 'nyn'; // Runyankore
+
+export const MESSAGE_LANGUAGES: MessageLanguage[] = ['en', 'lg', 'sw', 'nyn'];
+
+export const MESSAGE_LANGUAGE_LABELS: Record<MessageLanguage, string> = {
+  en: 'English',
+  lg: 'Luganda',
+  sw: 'Swahili',
+  nyn: 'Runyankore',
+};
+
+export type TemplateChannel = 'sms' | 'email';
+
+/**
+ * Notices the app sends on its own, each under the SMS message type it is
+ * filed as in the outbox
+ */
+export type NoticeTemplateType =
+  | 'receipt_notice'
+  | 'deadline_notice'
+  | 'deadline_passed'
+  | 'overdue_notice'
+  | 'promise_upcoming'
+  | 'promise_today'
+  | 'promise_missed'
+  | 'cheque_bounced'
+  | 'cheque_bounced_charge';
+
+export type SmsTemplateType = SMSMessageType | NoticeTemplateType;
+
+export type MessageTemplateType = SmsTemplateType | EmailTemplateType;
+
+export interface MessageTemplate {
+  subject?: string; // Emails only
+  body: string; // {placeholders} are filled in when sending
+}
+
+/**
+ * The school's own wording for one template in one language, used in place
+ * of the built-in wording
+ */
+export interface TemplateOverride extends MessageTemplate {
+  id: string; // channel:type:language
+  channel: TemplateChannel;
+  type: MessageTemplateType;
+  language: MessageLanguage;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+/**
+ * A template as the editor shows it for one language
+ */
+export interface MessageTemplateRow {
+  channel: TemplateChannel;
+  type: MessageTemplateType;
+  label: string;
+  description: string;
+  language: MessageLanguage;
+  placeholders: string[]; // Those the English wording uses
+  builtIn?: MessageTemplate; // Absent when there is no translation
+  custom?: TemplateOverride;
+  current: MessageTemplate; // What is sent now
+  currentLanguage: MessageLanguage; // Differs from language when it falls back
+}
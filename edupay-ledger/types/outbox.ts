@@ -0,0 +1,180 @@
+/**
+ * Message Outbox Types
+ * SMS, WhatsApp and email messages waiting to go out, and the history of
+ * those sent
+ */
+
+import type { SMSMessageType } from '../lib/services/sms.service';
+import type { EmailTemplateType, SendEmailRequest } from '../lib/services/email.service';
+import type { WhatsAppDocument, WhatsAppMessage } from '../lib/services/whatsapp.service';
+import type { MessageLanguage, SmsTemplateType } from './message-template';
+
+export type OutboxChannel = 'sms' | 'email' | 'whatsapp';
+
+/**
+ * How a guardian asked to be sent notices. WhatsApp falls back to SMS when
+ * it fails; 'all' sends every notice by both, and by email when known.
+ */
+export type ChannelPreference = 'sms' | 'whatsapp' | 'email' | 'all';
+
+/**
+ * Where a message stands
+ */
+export type OutboxStatus =
+  | 'queued'   // Waiting to be sent, or to be retried after a failure
+  | 'sending'  // Handed to the provider, answer not yet back
+  | 'sent'     // Accepted by the provider
+  | 'failed';  // Rejected by the provider or out of retries
+
+export type OutboxPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Hours of the day, local time, when a message must not go out. The range
+ * may run past midnight, e.g. 20 to 7.
+ */
+export interface QuietHours {
+  startHour: number; // 0-23, first quiet hour
+  endHour: number;   // 0-23, first hour messages may go out again
+}
+
+/**
+ * What the network reported after an SMS or WhatsApp message was accepted
+ */
+export type OutboxDeliveryStatus =
+  | 'pending'    // Accepted, no final report yet
+  | 'delivered'  // Reached the handset
+  | 'read'       // Opened by the guardian; WhatsApp only
+  | 'failed'     // The network could not deliver it
+  | 'unknown';   // No final report came within the reporting window
+
+/**
+ * One message to one recipient
+ */
+export interface OutboxMessage {
+  id: string;
+  channel: OutboxChannel;
+  recipient: string; // +256... or an email address
+  recipientName?: string;
+  messageType: SMSMessageType | EmailTemplateType;
+  subject?: string; // Emails only
+  body: string; // Text as sent, shown in the history
+  email?: SendEmailRequest; // What the email service is asked to send
+  whatsapp?: Omit<WhatsAppMessage, 'to'>; // What the WhatsApp service is asked to send
+  priority: OutboxPriority;
+  dedupeKey?: string; // A second message with the same key is not queued
+  studentId?: string;
+  reference?: string; // e.g. the receipt number the message is about
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+  provider?: string;
+  providerMessageId?: string;
+  cost?: number; // UGX, for SMS
+  deliveryStatus?: OutboxDeliveryStatus; // SMS and WhatsApp
+  deliveredAt?: string;
+  readAt?: string;
+  deliveryError?: string; // The network's failure reason
+  reroutedFrom?: string; // The unreachable number this message was meant for
+  guardianPhone?: string; // On an email the guardian asked for, the phone it counts against
+  fallback?: OutboxFallback; // WhatsApp only: where the SMS goes if it fails
+  fallbackMessageId?: string; // The SMS sent when this WhatsApp message failed
+  fallbackFor?: string; // The failed WhatsApp message this one stands in for
+  quietHours?: QuietHours; // Held back during these hours, e.g. scheduled reminders
+  language?: MessageLanguage; // Language the text was written in, when from a template
+  createdAt: string;
+  sentAt?: string;
+}
+
+/**
+ * Where to send instead when the guardian's phone cannot be reached
+ */
+export interface OutboxFallback {
+  alternatePhone?: string;
+  email?: string;
+  subject?: string; // For the email, since SMS text has none
+}
+
+/**
+ * What the caller knows about a message besides its content
+ */
+export interface OutboxOptions {
+  messageType?: OutboxMessage['messageType']; // When the text is custom but the purpose is known
+  priority?: OutboxPriority;
+  dedupeKey?: string;
+  studentId?: string;
+  reference?: string;
+  fallback?: OutboxFallback;
+  quietHours?: QuietHours;
+  template?: SmsTemplateType; // SMS wording to use in place of the message type's own
+  language?: MessageLanguage; // Tried before the guardian's and the school's language
+  preferredChannel?: ChannelPreference; // In place of the guardian's own preference
+  document?: WhatsAppDocument; // Sent with the WhatsApp message, e.g. the receipt PDF
+}
+
+export interface OutboxSearch {
+  query?: string; // Matches recipient, name, reference or text
+  channel?: OutboxChannel;
+  status?: OutboxStatus;
+  from?: Date;
+  to?: Date;
+}
+
+export interface OutboxSummary {
+  queued: number;
+  sending: number;
+  sent: number;
+  failed: number;
+  nextAttemptAt?: string;
+}
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+export const OUTBOX_CHANNEL_LABELS: Record<OutboxChannel, string> = {
+  sms: 'SMS',
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+};
+
+export const CHANNEL_PREFERENCE_LABELS: Record<ChannelPreference, string> = {
+  sms: 'SMS',
+  whatsapp: 'WhatsApp, SMS if it fails',
+  email: 'Email, SMS if none',
+  all: 'Every channel',
+};
+
+export const OUTBOX_DELIVERY_LABELS: Record<OutboxDeliveryStatus, string> = {
+  pending: 'Awaiting report',
+  delivered: 'Delivered',
+  read: 'Read',
+  failed: 'Not delivered',
+  unknown: 'No report',
+};
+
+// ============================================
+// REACHABILITY
+// ============================================
+
+/**
+ * How reliably messages reach one phone number or email address
+ */
+export interface ContactReachability {
+  id: string; // channel:contact
+  channel: OutboxChannel;
+  contact: string; // +256... or an email address
+  status: 'reachable' | 'unreachable';
+  score: number; // 0-100, the share of messages that arrived
+  delivered: number;
+  failed: number;
+  consecutiveFailures: number;
+  lastFailureReason?: string;
+  lastFailureAt?: string;
+  lastDeliveredAt?: string;
+  updatedAt: string;
+}
@@ -4,6 +4,8 @@
  */
 
 import { ResidenceType } from './residence';
+import type { MessageLanguage } from './message-template';
+import type { ChannelPreference } from './outbox';
 
 /**
  * Parent/Guardian account
@@ -29,7 +31,7 @@ export interface ParentAccount {
   studentIds: string[];
   
   // Preferences
-  preferredLanguage: 'en' | 'sw';  // English or Swahili
+  preferredLanguage: MessageLanguage;
   notificationPreferences: NotificationPreferences;
   
   // Metadata
@@ -46,7 +48,7 @@ export interface NotificationPreferences {
   feeUpdates: boolean;
   examClearanceAlerts: boolean;
   generalAnnouncements: boolean;
-  preferredChannel: 'sms' | 'whatsapp' | 'email' | 'all';
+  preferredChannel: ChannelPreference;
 }
 
 /**
@@ -171,10 +173,12 @@ export interface FeeStatement {
   
   // Carryover
   previousBalance: number;
+  creditBroughtForward: number; // Overpayments from earlier terms set against this term
   
   // Summary
   totalOwed: number;
-  currentBalance: number;
+  currentBalance: number; // Negative when the student is in credit
+  creditBalance: number; // Credit held for the next term
   
   // Notes
   notes?: string;
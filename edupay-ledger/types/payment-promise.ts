@@ -4,6 +4,7 @@
  */
 
 import { ResidenceType } from './residence';
+import type { MessageLanguage } from './message-template';
 
 /**
  * Promise status
@@ -121,6 +122,7 @@ export interface ReminderTemplate {
   type: ReminderType;
   subject?: string;          // For email
   message: string;           // Supports placeholders like {studentName}, {amount}, {dueDate}
+  language?: MessageLanguage; // English when not set
   isDefault: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -390,7 +392,7 @@ export function formatReminderMessage(
 }
 
 /**
- * Default reminder templates
+ * Default reminder templates, in English and then in each translation
  */
 export const DEFAULT_REMINDER_TEMPLATES: Omit<ReminderTemplate, 'id' | 'schoolId' | 'createdAt' | 'updatedAt'>[] = [
   {
@@ -417,4 +419,88 @@ export const DEFAULT_REMINDER_TEMPLATES: Omit<ReminderTemplate, 'id' | 'schoolId
     message: 'URGENT: Dear {guardianName}, the payment of {amount} for {studentName} is severely overdue. This is a final notice. Please contact the school immediately.',
     isDefault: false,
   },
+  {
+    name: 'Initial Reminder',
+    type: 'sms',
+    language: 'lg',
+    message: 'Ssebo/Nnyabo {guardianName}, tukujjukiza nti okusasula kwo okwa {amount} ku lwa {studentName} kutuuka nga {dueDate}. Tukusaba weetegeke. Webale.',
+    isDefault: false,
+  },
+  {
+    name: 'Due Date Reminder',
+    type: 'sms',
+    language: 'lg',
+    message: 'Ssebo/Nnyabo {guardianName}, okusasula kwo okwa {amount} ku lwa {studentName} kwetaagibwa LEERO. Tukusaba ojje ku ofiisi ya bursar osasule. Webale.',
+    isDefault: false,
+  },
+  {
+    name: 'Overdue Notice',
+    type: 'sms',
+    language: 'lg',
+    message: 'Ssebo/Nnyabo {guardianName}, okusasula kwo okwa {amount} ku lwa {studentName} KUYISE olunaku. Tukusaba osasule mangu. Tuukirira essomero bw\'oba n\'ekibuuzo.',
+    isDefault: false,
+  },
+  {
+    name: 'Final Notice',
+    type: 'sms',
+    language: 'lg',
+    message: 'KYA MANGU: Ssebo/Nnyabo {guardianName}, okusasula kwa {amount} ku lwa {studentName} kuyise nnyo olunaku. Buno bwe bubaka obusembayo. Tukusaba otuukirire essomero amangu.',
+    isDefault: false,
+  },
+  {
+    name: 'Initial Reminder',
+    type: 'sms',
+    language: 'sw',
+    message: 'Mpendwa {guardianName}, tunakukumbusha kwamba malipo yako ya {amount} kwa {studentName} yanatakiwa tarehe {dueDate}. Tafadhali jiandae. Asante.',
+    isDefault: false,
+  },
+  {
+    name: 'Due Date Reminder',
+    type: 'sms',
+    language: 'sw',
+    message: 'Mpendwa {guardianName}, malipo yako ya {amount} kwa {studentName} yanatakiwa LEO. Tafadhali fika ofisi ya mhasibu kulipa. Asante.',
+    isDefault: false,
+  },
+  {
+    name: 'Overdue Notice',
+    type: 'sms',
+    language: 'sw',
+    message: 'Mpendwa {guardianName}, malipo yako ya {amount} kwa {studentName} YAMEPITA muda. Tafadhali lipa mara moja. Wasiliana nasi ukiwa na swali.',
+    isDefault: false,
+  },
+  {
+    name: 'Final Notice',
+    type: 'sms',
+    language: 'sw',
+    message: 'DHARURA: Mpendwa {guardianName}, malipo ya {amount} kwa {studentName} yamepitiliza muda sana. Hii ni notisi ya mwisho. Tafadhali wasiliana na shule mara moja.',
+    isDefault: false,
+  },
+  {
+    name: 'Initial Reminder',
+    type: 'sms',
+    language: 'nyn',
+    message: '{guardianName}, nitukwijukya ngu okushashura kwawe kwa {amount} ahabwa {studentName} nikuhika {dueDate}. Nitukushaba weteekateekye. Webale.',
+    isDefault: false,
+  },
+  {
+    name: 'Due Date Reminder',
+    type: 'sms',
+    language: 'nyn',
+    message: '{guardianName}, okushashura kwawe kwa {amount} ahabwa {studentName} nikwetengyesa ERIZOOBA. Nitukushaba oije aha ofiisi ya bursar oshashure. Webale.',
+    isDefault: false,
+  },
+  {
+    name: 'Overdue Notice',
+    type: 'sms',
+    language: 'nyn',
+    message: '{guardianName}, okushashura kwawe kwa {amount} ahabwa {studentName} KURENGYEHO ekiro. Nitukushaba oshashure juba. Shanga eishomero waaba oine ekibuuzo.',
+    isDefault: false,
+  },
+  {
+    name: 'Final Notice',
+    type: 'sms',
+    language: 'nyn',
+    message: 'EKY\'OKWIHUTA: {guardianName}, okushashura kwa {amount} ahabwa {studentName} kurengyeho munonga ekiro. Obu nibwo butumwa bw\'aheru. Nitukushaba oshange eishomero juba.',
+    isDefault: false,
+  },
 ];
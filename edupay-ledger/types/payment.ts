@@ -1,4 +1,6 @@
 import { Timestamp } from 'firebase/firestore';
+import type { MerkleProofStep } from '@/lib/merkle';
+import type { ChequeDetails, ChequeInput } from './cheque';
 
 export interface Payment {
   id: string;
@@ -23,6 +25,8 @@ export interface Payment {
   // Installment Info
   installmentId: string;
   installmentName: string;
+  creditAmount?: number; // Overpayment held as credit for the next term
+  cheque?: ChequeDetails; // Pending until the cheque clears
   
   // Status
   status: PaymentRecordStatus;
@@ -37,6 +41,11 @@ export interface Payment {
   stellarTxHash?: string;
   stellarTimestamp?: Timestamp;
   stellarAnchored: boolean;
+  proofHash?: string; // Leaf of the anchored batch's Merkle tree
+  proofTimestamp?: string;
+  anchorBatchId?: string;
+  merkleRoot?: string;
+  merkleProof?: MerkleProofStep[];
   
   // Metadata
   recordedBy: string;
@@ -68,6 +77,9 @@ export interface PaymentRecordInput {
   installmentId: string;
   receiptFile?: File;
   notes?: string;
+  cheque?: ChequeInput; // Required when channel is 'cheque'
+  bankTransactionId?: string; // Statement credit this payment is posted from; matched as it is recorded
+  collectionId?: string; // Mobile money request-to-pay this payment was collected by
 }
 
 export interface PaymentSummary {
@@ -56,7 +56,7 @@ export interface DailySummary {
 // Pending Tasks
 export interface PendingTask {
   id: string;
-  type: 'promise_due' | 'follow_up' | 'clearance_request' | 'reconciliation' | 'report_due';
+  type: 'promise_due' | 'follow_up' | 'clearance_request' | 'reconciliation' | 'report_due' | 'cheque_clearance';
   title: string;
   description: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
@@ -0,0 +1,107 @@
+/**
+ * Scheduled Reminder Types
+ * The daily run that reminds guardians of installment deadlines, overdue
+ * balances and payment promises, and the log kept of each run
+ */
+
+import type { QuietHours } from './outbox';
+
+export type ReminderKind =
+  | 'deadline' // An installment falls due soon
+  | 'overdue'  // An installment is past its deadline
+  | 'promise'; // A payment promise is due or broken
+
+/**
+ * At most this many reminders go to one guardian phone in the period,
+ * however many children or installments they have
+ */
+export interface ReminderFrequencyCap {
+  maxMessages: number;
+  periodDays: number;
+}
+
+/**
+ * Kept by the desktop app's main process, which owns the daily timer
+ */
+export interface ReminderSettings {
+  enabled: boolean;
+  runHour: number; // 0-23, local time the day's reminders are sent from
+  quietHours: QuietHours;
+  frequencyCap: ReminderFrequencyCap;
+  lastRunAt?: string;
+  lastError?: string;
+}
+
+export type ReminderSettingsChanges = Partial<Omit<ReminderSettings, 'lastRunAt' | 'lastError'>>;
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  runHour: 8,
+  quietHours: { startHour: 20, endHour: 7 },
+  frequencyCap: { maxMessages: 2, periodDays: 7 },
+};
+
+/**
+ * One reminder the run would like to send
+ */
+export interface ReminderCandidate {
+  kind: ReminderKind;
+  studentId: string;
+  studentName: string;
+  guardianPhone: string;
+  alternatePhone?: string;
+  email?: string;
+  label: string; // Installment name, or the promise
+  amount: number; // Still owed, UGX
+  dueDate: Date;
+  days: number; // Days until due, negative once overdue
+  dedupeScope: string; // One message per guardian contact for each scope
+  promiseId?: string;
+}
+
+export type ReminderOutcome =
+  | 'queued'     // Handed to the outbox
+  | 'capped'     // The guardian has had enough reminders this period
+  | 'no_contact' // No guardian phone on record
+  | 'failed';    // The outbox would not take it
+
+export interface ReminderRunItem {
+  kind: ReminderKind;
+  studentId: string;
+  studentName: string;
+  recipient: string;
+  label: string;
+  amount: number;
+  days: number;
+  outcome: ReminderOutcome;
+  error?: string;
+}
+
+export interface ReminderRun {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  studentsChecked: number;
+  queued: number;
+  capped: number;
+  failed: number;
+  alreadySent: number; // Reminders a previous run already queued, not listed in items
+  items: ReminderRunItem[];
+  warnings?: string[]; // Parts of the run that were skipped, e.g. promises while offline
+  error?: string;
+}
+
+export const REMINDER_KIND_LABELS: Record<ReminderKind, string> = {
+  deadline: 'Deadline',
+  overdue: 'Overdue',
+  promise: 'Promise',
+};
+
+export const REMINDER_OUTCOME_LABELS: Record<ReminderOutcome, string> = {
+  queued: 'Queued',
+  capped: 'Over limit',
+  no_contact: 'No phone',
+  failed: 'Failed',
+};
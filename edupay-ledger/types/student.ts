@@ -1,4 +1,6 @@
 import { Timestamp } from "firebase/firestore";
+import type { MessageLanguage } from "./message-template";
+import type { ChannelPreference } from "./outbox";
 
 export interface Student {
   id: string;
@@ -71,6 +73,8 @@ export interface Guardian {
   alternatePhone?: string;
   email?: string;
   address?: string;
+  preferredLanguage?: MessageLanguage; // SMS and email are written in it when translated
+  preferredChannel?: ChannelPreference; // How notices reach the guardian; SMS when unset
 }
 
 export interface InstallmentProgress {
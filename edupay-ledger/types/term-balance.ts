@@ -33,6 +33,8 @@ export interface TermBalanceCarryover {
   // Carryover details
   carryoverAmount: number; // Can be positive (debt) or negative (credit/overpayment)
   carryoverType: 'debit' | 'credit'; // debit = owes money, credit = overpaid
+  creditApplied?: number; // Credit already used against the destination term's fees
+  creditAppliedByPeriod?: Record<string, number>; // creditApplied split by the term it went to, keyed by academicPeriodKey
   
   // Adjustments
   adjustments: BalanceAdjustment[];
@@ -239,6 +241,11 @@ export function formatAcademicPeriod(period: AcademicPeriod): string {
   return `${termNames[period.term]} ${period.year}`;
 }
 
+// Key for maps held per term, e.g. 2026_term_2
+export function academicPeriodKey(period: AcademicPeriod): string {
+  return `${period.year}_${period.term}`;
+}
+
 export function compareAcademicPeriods(a: AcademicPeriod, b: AcademicPeriod): number {
   if (a.year !== b.year) {
     return a.year - b.year;